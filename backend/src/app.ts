@@ -6,14 +6,23 @@ import dotenv from "dotenv";
 import cookieParser from "cookie-parser";
 
 import authRoutes from "./routes/auth";
+import oidcRoutes from "./routes/oidc";
 import contactRoutes from "./routes/contacts";
 import organizationRoutes from "./routes/organizations";
 import dealRoutes from "./routes/deals";
+import dealStageRoutes from "./routes/deal-stages";
 import activityRoutes from "./routes/activities";
 import contactNotesRoutes from "./routes/contact-notes";
+import contactOrganizationRoutes from "./routes/contact-organizations";
 import activityNotesRoutes from "./routes/activity-notes";
 import adminRoutes from "./routes/admin";
 import sharesRoutes from "./routes/shares";
+import reportRoutes from "./routes/reports";
+import importRoutes from "./routes/imports";
+import exportRoutes from "./routes/exports";
+import teamRoutes from "./routes/teams";
+import searchRoutes from "./routes/search";
+import customFieldRoutes from "./routes/custom-fields";
 import environmentConfig from "./config/environment";
 
 dotenv.config();
@@ -50,15 +59,24 @@ app.get("/api/health", (req: Request, res: Response) => {
 });
 
 // Routes
+app.use("/api/auth/oidc", oidcRoutes);
 app.use("/api/auth", authRoutes);
 app.use("/api/contacts", contactRoutes);
 app.use("/api/organizations", organizationRoutes);
+app.use("/api/deals/stages", dealStageRoutes);
 app.use("/api/deals", dealRoutes);
 app.use("/api/activities", activityRoutes);
 app.use("/api/contact-notes", contactNotesRoutes);
+app.use("/api/contact-organizations", contactOrganizationRoutes);
 app.use("/api/activity-notes", activityNotesRoutes);
 app.use("/api/admin", adminRoutes);
 app.use("/api/shares", sharesRoutes);
+app.use("/api/reports", reportRoutes);
+app.use("/api/import", importRoutes);
+app.use("/api/export", exportRoutes);
+app.use("/api/teams", teamRoutes);
+app.use("/api/search", searchRoutes);
+app.use("/api/custom-fields", customFieldRoutes);
 
 // Error handling middleware
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
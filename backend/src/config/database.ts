@@ -1,4 +1,4 @@
-import { Pool, QueryResult, QueryResultRow } from "pg";
+import { Pool, PoolClient, QueryResult, QueryResultRow, types } from "pg";
 import dotenv from "dotenv";
 import { DatabaseConfig } from "../types";
 
@@ -14,6 +14,11 @@ const config: DatabaseConfig = {
 
 const pool = new Pool(config);
 
+// Full-text search vectors are only matched inside queries. Parse them to
+// undefined so rows selected with * don't send them to clients.
+const TSVECTOR_OID = 3614;
+types.setTypeParser(TSVECTOR_OID, () => undefined);
+
 // Test connection
 pool.on("connect", () => {
   console.log("📊 Connected to PostgreSQL database");
@@ -23,11 +28,17 @@ pool.on("error", (err: Error) => {
   console.error("❌ Database connection error:", err);
 });
 
+// Satisfied by both db and a transaction's PoolClient
+export interface Queryable {
+  query: (text: string, params?: any[]) => Promise<unknown>;
+}
+
 interface DatabaseConnection {
   query: <T extends QueryResultRow = any>(
     text: string,
     params?: any[]
   ) => Promise<QueryResult<T>>;
+  transaction: <T>(fn: (client: PoolClient) => Promise<T>) => Promise<T>;
   pool: Pool;
 }
 
@@ -38,6 +49,23 @@ const db: DatabaseConnection = {
   ): Promise<QueryResult<T>> => {
     return pool.query<T>(text, params);
   },
+  // Run fn inside BEGIN/COMMIT on a dedicated client, rolling back on error
+  transaction: async <T>(
+    fn: (client: PoolClient) => Promise<T>
+  ): Promise<T> => {
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const result = await fn(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
   pool,
 };
 
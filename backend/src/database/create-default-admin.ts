@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { createDefaultAdmin } from "./migrate";
+import { createDefaultAdmin } from "./seed";
 
 async function createAdmin(): Promise<void> {
   try {
@@ -0,0 +1,180 @@
+import { Migration } from "../migrator";
+
+// Baseline schema. Written with IF NOT EXISTS guards so databases created by
+// the old one-off scripts converge on the same shape when they adopt the runner.
+const migration: Migration = {
+  version: 1,
+  name: "initial_schema",
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      email VARCHAR(255) UNIQUE NOT NULL,
+      password VARCHAR(255) NOT NULL,
+      first_name VARCHAR(100) NOT NULL,
+      last_name VARCHAR(100) NOT NULL,
+      role VARCHAR(20) DEFAULT 'user' CHECK (role IN ('user', 'admin')),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS role VARCHAR(20) DEFAULT 'user'
+      CHECK (role IN ('user', 'admin'));
+
+    CREATE TABLE IF NOT EXISTS companies (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      industry VARCHAR(100),
+      website VARCHAR(255),
+      phone VARCHAR(50),
+      email VARCHAR(255),
+      address TEXT,
+      notes TEXT,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS contacts (
+      id SERIAL PRIMARY KEY,
+      first_name VARCHAR(100) NOT NULL,
+      last_name VARCHAR(100) NOT NULL,
+      email VARCHAR(255),
+      phone VARCHAR(50),
+      position VARCHAR(100),
+      company_id INTEGER REFERENCES companies(id) ON DELETE SET NULL,
+      notes TEXT,
+      tags TEXT[] DEFAULT '{}',
+      status VARCHAR(20) DEFAULT 'all_good' CHECK (status IN ('hot', 'warm', 'cold', 'all_good')),
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    ALTER TABLE contacts ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}';
+    ALTER TABLE contacts
+      ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'all_good'
+      CHECK (status IN ('hot', 'warm', 'cold', 'all_good'));
+
+    CREATE TABLE IF NOT EXISTS deal_stages (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      order_index INTEGER NOT NULL,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS deals (
+      id SERIAL PRIMARY KEY,
+      title VARCHAR(255) NOT NULL,
+      value DECIMAL(12,2) DEFAULT 0,
+      currency VARCHAR(3) DEFAULT 'USD',
+      stage_id INTEGER REFERENCES deal_stages(id) ON DELETE SET NULL,
+      contact_id INTEGER REFERENCES contacts(id) ON DELETE SET NULL,
+      company_id INTEGER REFERENCES companies(id) ON DELETE SET NULL,
+      expected_close_date DATE,
+      probability INTEGER DEFAULT 0 CHECK (probability >= 0 AND probability <= 100),
+      notes TEXT,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS activities (
+      id SERIAL PRIMARY KEY,
+      type VARCHAR(50) NOT NULL, -- 'call', 'email', 'meeting', 'note', 'task'
+      subject VARCHAR(255) NOT NULL,
+      description TEXT,
+      due_date TIMESTAMP,
+      completed BOOLEAN DEFAULT FALSE,
+      contact_id INTEGER REFERENCES contacts(id) ON DELETE SET NULL,
+      company_id INTEGER REFERENCES companies(id) ON DELETE SET NULL,
+      deal_id INTEGER REFERENCES deals(id) ON DELETE SET NULL,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS contact_notes (
+      id SERIAL PRIMARY KEY,
+      title VARCHAR(255), -- Optional title for notes
+      content TEXT NOT NULL,
+      contact_id INTEGER REFERENCES contacts(id) ON DELETE CASCADE,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Older installs created the title column as NOT NULL
+    ALTER TABLE contact_notes ALTER COLUMN title DROP NOT NULL;
+
+    CREATE TABLE IF NOT EXISTS activity_notes (
+      id SERIAL PRIMARY KEY,
+      title VARCHAR(255), -- Optional title for notes
+      content TEXT NOT NULL,
+      activity_id INTEGER REFERENCES activities(id) ON DELETE CASCADE,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    ALTER TABLE activity_notes ALTER COLUMN title DROP NOT NULL;
+
+    CREATE TABLE IF NOT EXISTS system_settings (
+      id SERIAL PRIMARY KEY,
+      setting_key VARCHAR(100) UNIQUE NOT NULL,
+      setting_value TEXT NOT NULL,
+      description TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    INSERT INTO system_settings (setting_key, setting_value, description)
+    VALUES
+      ('registration_enabled', 'true', 'Allow new user registration'),
+      ('app_name', 'OMW CRM', 'Application name'),
+      ('max_users', '0', 'Maximum number of users (0 = unlimited)')
+    ON CONFLICT (setting_key) DO NOTHING;
+
+    CREATE TABLE IF NOT EXISTS shares (
+      id SERIAL PRIMARY KEY,
+      item_type VARCHAR(50) NOT NULL CHECK (item_type IN ('contact', 'organization', 'deal', 'activity')),
+      item_id INTEGER NOT NULL,
+      shared_by_user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      shared_with_user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      permissions VARCHAR(10) DEFAULT 'read' CHECK (permissions IN ('read', 'write')),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(item_type, item_id, shared_by_user_id, shared_with_user_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_contacts_user_id ON contacts(user_id);
+    CREATE INDEX IF NOT EXISTS idx_companies_user_id ON companies(user_id);
+    CREATE INDEX IF NOT EXISTS idx_deals_user_id ON deals(user_id);
+    CREATE INDEX IF NOT EXISTS idx_activities_user_id ON activities(user_id);
+    CREATE INDEX IF NOT EXISTS idx_contact_notes_user_id ON contact_notes(user_id);
+    CREATE INDEX IF NOT EXISTS idx_contact_notes_contact_id ON contact_notes(contact_id);
+    CREATE INDEX IF NOT EXISTS idx_activity_notes_user_id ON activity_notes(user_id);
+    CREATE INDEX IF NOT EXISTS idx_activity_notes_activity_id ON activity_notes(activity_id);
+    CREATE INDEX IF NOT EXISTS idx_contacts_company_id ON contacts(company_id);
+    CREATE INDEX IF NOT EXISTS idx_deals_contact_id ON deals(contact_id);
+    CREATE INDEX IF NOT EXISTS idx_deals_company_id ON deals(company_id);
+    CREATE INDEX IF NOT EXISTS idx_contacts_tags ON contacts USING GIN (tags);
+    CREATE INDEX IF NOT EXISTS idx_contacts_status ON contacts(status);
+    CREATE INDEX IF NOT EXISTS idx_shares_shared_with ON shares(shared_with_user_id);
+    CREATE INDEX IF NOT EXISTS idx_shares_item ON shares(item_type, item_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS shares;
+    DROP TABLE IF EXISTS system_settings;
+    DROP TABLE IF EXISTS activity_notes;
+    DROP TABLE IF EXISTS contact_notes;
+    DROP TABLE IF EXISTS activities;
+    DROP TABLE IF EXISTS deals;
+    DROP TABLE IF EXISTS deal_stages;
+    DROP TABLE IF EXISTS contacts;
+    DROP TABLE IF EXISTS companies;
+    DROP TABLE IF EXISTS users;
+  `,
+};
+
+export default migration;
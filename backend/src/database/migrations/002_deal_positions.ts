@@ -0,0 +1,28 @@
+import { Migration } from "../migrator";
+
+// Manual ordering of deals inside a pipeline column. Existing deals keep the
+// order the board used to show them in (newest first).
+const migration: Migration = {
+  version: 2,
+  name: "deal_positions",
+  up: `
+    ALTER TABLE deals ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+
+    UPDATE deals d
+    SET position = ordered.rn
+    FROM (
+      SELECT id,
+        ROW_NUMBER() OVER (PARTITION BY stage_id ORDER BY created_at DESC) - 1 AS rn
+      FROM deals
+    ) ordered
+    WHERE d.id = ordered.id;
+
+    CREATE INDEX idx_deals_stage_position ON deals(stage_id, position);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_deals_stage_position;
+    ALTER TABLE deals DROP COLUMN IF EXISTS position;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+import { Migration } from "../migrator";
+
+// Stages become user managed: a kind so reporting can tell closed-won from
+// closed-lost without matching names, and a default probability for new deals.
+const migration: Migration = {
+  version: 3,
+  name: "stage_kinds",
+  up: `
+    ALTER TABLE deal_stages
+      ADD COLUMN kind VARCHAR(10) NOT NULL DEFAULT 'open'
+      CHECK (kind IN ('open', 'won', 'lost'));
+    ALTER TABLE deal_stages
+      ADD COLUMN default_probability INTEGER NOT NULL DEFAULT 0
+      CHECK (default_probability >= 0 AND default_probability <= 100);
+
+    UPDATE deal_stages SET kind = 'won', default_probability = 100
+    WHERE LOWER(name) IN ('won', 'closed won');
+    UPDATE deal_stages SET kind = 'lost', default_probability = 0
+    WHERE LOWER(name) IN ('lost', 'closed lost');
+    UPDATE deal_stages SET default_probability = CASE LOWER(name)
+      WHEN 'lead' THEN 10
+      WHEN 'qualified' THEN 25
+      WHEN 'proposal' THEN 50
+      WHEN 'negotiation' THEN 75
+      ELSE default_probability
+    END
+    WHERE kind = 'open';
+
+    CREATE INDEX idx_deal_stages_user_order ON deal_stages(user_id, order_index);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_deal_stages_user_order;
+    ALTER TABLE deal_stages DROP COLUMN IF EXISTS default_probability;
+    ALTER TABLE deal_stages DROP COLUMN IF EXISTS kind;
+  `,
+};
+
+export default migration;
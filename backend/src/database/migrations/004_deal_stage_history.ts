@@ -0,0 +1,31 @@
+import { Migration } from "../migrator";
+
+// One row per stage a deal enters. Existing deals get a single entry for their
+// current stage, dated at creation since the earlier moves were never recorded.
+const migration: Migration = {
+  version: 4,
+  name: "deal_stage_history",
+  up: `
+    CREATE TABLE deal_stage_history (
+      id SERIAL PRIMARY KEY,
+      deal_id INTEGER NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+      from_stage_id INTEGER REFERENCES deal_stages(id) ON DELETE SET NULL,
+      to_stage_id INTEGER REFERENCES deal_stages(id) ON DELETE SET NULL,
+      changed_by_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    INSERT INTO deal_stage_history (deal_id, from_stage_id, to_stage_id, changed_by_user_id, changed_at)
+    SELECT id, NULL, stage_id, user_id, created_at
+    FROM deals
+    WHERE stage_id IS NOT NULL;
+
+    CREATE INDEX idx_deal_stage_history_deal ON deal_stage_history(deal_id, changed_at);
+    CREATE INDEX idx_deal_stage_history_to_stage ON deal_stage_history(to_stage_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS deal_stage_history;
+  `,
+};
+
+export default migration;
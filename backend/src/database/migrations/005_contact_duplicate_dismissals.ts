@@ -0,0 +1,24 @@
+import { Migration } from "../migrator";
+
+// Contact pairs a user reviewed and marked as different people, so the
+// duplicate finder stops suggesting them. Pairs are stored lowest id first.
+const migration: Migration = {
+  version: 5,
+  name: "contact_duplicate_dismissals",
+  up: `
+    CREATE TABLE contact_duplicate_dismissals (
+      id SERIAL PRIMARY KEY,
+      contact_id INTEGER NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+      other_contact_id INTEGER NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+      dismissed_by_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CHECK (contact_id < other_contact_id),
+      UNIQUE(contact_id, other_contact_id)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS contact_duplicate_dismissals;
+  `,
+};
+
+export default migration;
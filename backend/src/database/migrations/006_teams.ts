@@ -0,0 +1,49 @@
+import { Migration } from "../migrator";
+
+// Teams of users with a role each. A record assigned to a team is visible to
+// every member; what a member may do with it depends on their role.
+const migration: Migration = {
+  version: 6,
+  name: "teams",
+  up: `
+    CREATE TABLE teams (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(255) NOT NULL UNIQUE,
+      description TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE team_members (
+      id SERIAL PRIMARY KEY,
+      team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      role VARCHAR(20) NOT NULL DEFAULT 'member'
+        CHECK (role IN ('owner', 'manager', 'member', 'viewer')),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(team_id, user_id)
+    );
+
+    CREATE INDEX idx_team_members_user_id ON team_members(user_id);
+
+    ALTER TABLE contacts ADD COLUMN team_id INTEGER REFERENCES teams(id) ON DELETE SET NULL;
+    ALTER TABLE companies ADD COLUMN team_id INTEGER REFERENCES teams(id) ON DELETE SET NULL;
+    ALTER TABLE deals ADD COLUMN team_id INTEGER REFERENCES teams(id) ON DELETE SET NULL;
+    ALTER TABLE activities ADD COLUMN team_id INTEGER REFERENCES teams(id) ON DELETE SET NULL;
+
+    CREATE INDEX idx_contacts_team_id ON contacts(team_id);
+    CREATE INDEX idx_companies_team_id ON companies(team_id);
+    CREATE INDEX idx_deals_team_id ON deals(team_id);
+    CREATE INDEX idx_activities_team_id ON activities(team_id);
+  `,
+  down: `
+    ALTER TABLE activities DROP COLUMN IF EXISTS team_id;
+    ALTER TABLE deals DROP COLUMN IF EXISTS team_id;
+    ALTER TABLE companies DROP COLUMN IF EXISTS team_id;
+    ALTER TABLE contacts DROP COLUMN IF EXISTS team_id;
+    DROP TABLE IF EXISTS team_members;
+    DROP TABLE IF EXISTS teams;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,73 @@
+import { Migration } from "../migrator";
+
+// Full-text search columns for the global search. They use the 'simple'
+// configuration so names and emails are matched as written, not stemmed.
+// Title-like fields weigh more than free text when results are ranked.
+const migration: Migration = {
+  version: 7,
+  name: "search_vectors",
+  up: `
+    ALTER TABLE contacts ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(first_name, '') || ' ' || coalesce(last_name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(email, '') || ' ' || coalesce(phone, '') || ' ' || coalesce(position, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(notes, '')), 'C')
+      ) STORED;
+
+    ALTER TABLE companies ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(industry, '') || ' ' || coalesce(website, '') || ' ' || coalesce(email, '') || ' ' || coalesce(phone, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(address, '') || ' ' || coalesce(notes, '')), 'C')
+      ) STORED;
+
+    ALTER TABLE deals ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(notes, '')), 'C')
+      ) STORED;
+
+    ALTER TABLE activities ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(subject, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(type, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+      ) STORED;
+
+    ALTER TABLE contact_notes ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(content, '')), 'C')
+      ) STORED;
+
+    ALTER TABLE activity_notes ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(content, '')), 'C')
+      ) STORED;
+
+    CREATE INDEX idx_contacts_search ON contacts USING GIN (search_vector);
+    CREATE INDEX idx_companies_search ON companies USING GIN (search_vector);
+    CREATE INDEX idx_deals_search ON deals USING GIN (search_vector);
+    CREATE INDEX idx_activities_search ON activities USING GIN (search_vector);
+    CREATE INDEX idx_contact_notes_search ON contact_notes USING GIN (search_vector);
+    CREATE INDEX idx_activity_notes_search ON activity_notes USING GIN (search_vector);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_activity_notes_search;
+    DROP INDEX IF EXISTS idx_contact_notes_search;
+    DROP INDEX IF EXISTS idx_activities_search;
+    DROP INDEX IF EXISTS idx_deals_search;
+    DROP INDEX IF EXISTS idx_companies_search;
+    DROP INDEX IF EXISTS idx_contacts_search;
+
+    ALTER TABLE activity_notes DROP COLUMN IF EXISTS search_vector;
+    ALTER TABLE contact_notes DROP COLUMN IF EXISTS search_vector;
+    ALTER TABLE activities DROP COLUMN IF EXISTS search_vector;
+    ALTER TABLE deals DROP COLUMN IF EXISTS search_vector;
+    ALTER TABLE companies DROP COLUMN IF EXISTS search_vector;
+    ALTER TABLE contacts DROP COLUMN IF EXISTS search_vector;
+  `,
+};
+
+export default migration;
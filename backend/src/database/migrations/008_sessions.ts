@@ -0,0 +1,29 @@
+import { Migration } from "../migrator";
+
+// Server-side login sessions. Each holds the hash of its current refresh
+// token, which is replaced every time the session is refreshed. Access
+// tokens name their session, so revoking it logs the device out.
+const migration: Migration = {
+  version: 8,
+  name: "sessions",
+  up: `
+    CREATE TABLE sessions (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+      user_agent TEXT,
+      ip_address VARCHAR(45),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP NOT NULL,
+      revoked_at TIMESTAMP
+    );
+
+    CREATE INDEX idx_sessions_user_id ON sessions(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS sessions;
+  `,
+};
+
+export default migration;
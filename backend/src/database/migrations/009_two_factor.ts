@@ -0,0 +1,38 @@
+import { Migration } from "../migrator";
+
+// TOTP two-factor authentication. The secret is stored while the user
+// enrolls and only enforced once totp_enabled is set. totp_last_step is the
+// last time step a code was accepted for, so a code can't be used twice.
+// Recovery codes are stored hashed and each works once.
+const migration: Migration = {
+  version: 9,
+  name: "two_factor",
+  up: `
+    ALTER TABLE users ADD COLUMN totp_secret VARCHAR(64);
+    ALTER TABLE users ADD COLUMN totp_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+    ALTER TABLE users ADD COLUMN totp_last_step BIGINT;
+
+    CREATE TABLE recovery_codes (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      code_hash VARCHAR(64) NOT NULL,
+      used_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_recovery_codes_user_id ON recovery_codes(user_id);
+
+    INSERT INTO system_settings (setting_key, setting_value, description)
+    VALUES ('two_factor_required', 'off', 'Who must use two-factor authentication')
+    ON CONFLICT (setting_key) DO NOTHING;
+  `,
+  down: `
+    DELETE FROM system_settings WHERE setting_key = 'two_factor_required';
+    DROP TABLE IF EXISTS recovery_codes;
+    ALTER TABLE users DROP COLUMN IF EXISTS totp_last_step;
+    ALTER TABLE users DROP COLUMN IF EXISTS totp_enabled;
+    ALTER TABLE users DROP COLUMN IF EXISTS totp_secret;
+  `,
+};
+
+export default migration;
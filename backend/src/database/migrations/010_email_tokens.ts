@@ -0,0 +1,36 @@
+import { Migration } from "../migrator";
+
+// Password reset and email verification. Tokens are emailed to the user and
+// only stored hashed; used_at makes each one single-use. Users that exist
+// before this migration count as verified.
+const migration: Migration = {
+  version: 10,
+  name: "email_tokens",
+  up: `
+    ALTER TABLE users ADD COLUMN email_verified_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+    CREATE TABLE email_tokens (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      purpose VARCHAR(32) NOT NULL
+        CHECK (purpose IN ('password_reset', 'email_verification')),
+      token_hash VARCHAR(64) NOT NULL UNIQUE,
+      expires_at TIMESTAMP NOT NULL,
+      used_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_email_tokens_user_id ON email_tokens(user_id, purpose);
+
+    INSERT INTO system_settings (setting_key, setting_value, description)
+    VALUES ('email_verification_required', 'false', 'Require new users to verify their email address before signing in')
+    ON CONFLICT (setting_key) DO NOTHING;
+  `,
+  down: `
+    DELETE FROM system_settings WHERE setting_key = 'email_verification_required';
+    DROP TABLE IF EXISTS email_tokens;
+    ALTER TABLE users DROP COLUMN IF EXISTS email_verified_at;
+  `,
+};
+
+export default migration;
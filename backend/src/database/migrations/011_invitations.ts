@@ -0,0 +1,32 @@
+import { Migration } from "../migrator";
+
+// Admin-issued invitations. An invitation is pending until it is accepted,
+// revoked or expires; the emailed token is only stored hashed. Pending
+// invitations count towards the max_users limit.
+const migration: Migration = {
+  version: 11,
+  name: "invitations",
+  up: `
+    CREATE TABLE invitations (
+      id SERIAL PRIMARY KEY,
+      email VARCHAR(255) NOT NULL,
+      role VARCHAR(50) NOT NULL DEFAULT 'user',
+      token_hash VARCHAR(64) NOT NULL UNIQUE,
+      invited_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      expires_at TIMESTAMP NOT NULL,
+      accepted_at TIMESTAMP,
+      revoked_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- One open invitation per email; an expired one is resent, not duplicated
+    CREATE UNIQUE INDEX idx_invitations_open_email ON invitations(email)
+      WHERE accepted_at IS NULL AND revoked_at IS NULL;
+  `,
+  down: `
+    DROP TABLE IF EXISTS invitations;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import { Migration } from "../migrator";
+
+// Personal API keys for scripts and integrations. A key acts as its owner,
+// limited by its scopes: a map of entity to "read" or "write" access. Only
+// a hash of the key is stored, plus its first characters for display.
+const migration: Migration = {
+  version: 12,
+  name: "api_keys",
+  up: `
+    CREATE TABLE api_keys (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      key_prefix VARCHAR(20) NOT NULL,
+      token_hash VARCHAR(64) NOT NULL UNIQUE,
+      scopes JSONB NOT NULL,
+      expires_at TIMESTAMP,
+      last_used_at TIMESTAMP,
+      revoked_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_api_keys_user_id ON api_keys(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS api_keys;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,49 @@
+import { Migration } from "../migrator";
+
+// Brute-force protection for logins. Every login attempt is recorded for
+// review and per-IP limits; users keep a count of consecutive failures that
+// slows down further attempts and eventually locks the account for a while.
+const migration: Migration = {
+  version: 13,
+  name: "login_attempts",
+  up: `
+    ALTER TABLE users ADD COLUMN failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE users ADD COLUMN last_failed_login_at TIMESTAMP;
+    ALTER TABLE users ADD COLUMN locked_until TIMESTAMP;
+
+    CREATE TABLE login_attempts (
+      id SERIAL PRIMARY KEY,
+      email VARCHAR(255) NOT NULL,
+      user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      ip_address VARCHAR(45),
+      user_agent TEXT,
+      success BOOLEAN NOT NULL,
+      -- Why a failed attempt was turned down
+      reason VARCHAR(32),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_login_attempts_created_at ON login_attempts(created_at);
+    CREATE INDEX idx_login_attempts_ip_address ON login_attempts(ip_address, created_at);
+    CREATE INDEX idx_login_attempts_email ON login_attempts(email, created_at);
+
+    INSERT INTO system_settings (setting_key, setting_value, description)
+    VALUES
+      ('lockout_threshold', '5', 'Failed logins in a row that lock an account (0 = never lock)'),
+      ('lockout_duration_minutes', '15', 'How long a locked account stays locked, in minutes'),
+      ('ip_failure_limit', '20', 'Failed logins from one IP address before it is blocked (0 = no limit)'),
+      ('ip_failure_window_minutes', '15', 'Period over which failed logins per IP address are counted, in minutes')
+    ON CONFLICT (setting_key) DO NOTHING;
+  `,
+  down: `
+    DELETE FROM system_settings WHERE setting_key IN (
+      'lockout_threshold', 'lockout_duration_minutes', 'ip_failure_limit', 'ip_failure_window_minutes'
+    );
+    DROP TABLE IF EXISTS login_attempts;
+    ALTER TABLE users DROP COLUMN IF EXISTS locked_until;
+    ALTER TABLE users DROP COLUMN IF EXISTS last_failed_login_at;
+    ALTER TABLE users DROP COLUMN IF EXISTS failed_login_attempts;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+import { Migration } from "../migrator";
+
+// Single sign-on through an OpenID Connect provider. Users remember which
+// provider account they are linked to, and sessions how they were started so
+// SSO sessions can leave two-factor authentication to the provider.
+const migration: Migration = {
+  version: 14,
+  name: "oidc",
+  up: `
+    ALTER TABLE users ADD COLUMN oidc_issuer VARCHAR(255);
+    ALTER TABLE users ADD COLUMN oidc_subject VARCHAR(255);
+    CREATE UNIQUE INDEX idx_users_oidc_identity ON users(oidc_issuer, oidc_subject);
+
+    ALTER TABLE sessions ADD COLUMN auth_method VARCHAR(16) NOT NULL DEFAULT 'password';
+
+    INSERT INTO system_settings (setting_key, setting_value, description)
+    VALUES
+      ('oidc_enabled', 'false', 'Allow signing in through the OpenID Connect provider'),
+      ('oidc_issuer', '', 'Issuer URL of the OpenID Connect provider'),
+      ('oidc_client_id', '', 'Client ID registered with the OpenID Connect provider'),
+      ('oidc_client_secret', '', 'Client secret registered with the OpenID Connect provider'),
+      ('oidc_button_label', 'Sign in with SSO', 'Label of the single sign-on button on the login page'),
+      ('oidc_auto_provision', 'true', 'Create accounts for provider users signing in for the first time'),
+      ('oidc_role_claim', '', 'ID token claim holding the user''s roles or groups (empty = roles are managed here)'),
+      ('oidc_admin_values', '', 'Comma-separated values of the role claim that make a user an admin'),
+      ('password_login_enabled', 'true', 'Allow users to sign in with a password while single sign-on is enabled')
+    ON CONFLICT (setting_key) DO NOTHING;
+  `,
+  down: `
+    DELETE FROM system_settings WHERE setting_key IN (
+      'oidc_enabled', 'oidc_issuer', 'oidc_client_id', 'oidc_client_secret', 'oidc_button_label',
+      'oidc_auto_provision', 'oidc_role_claim', 'oidc_admin_values', 'password_login_enabled'
+    );
+    ALTER TABLE sessions DROP COLUMN IF EXISTS auth_method;
+    DROP INDEX IF EXISTS idx_users_oidc_identity;
+    ALTER TABLE users DROP COLUMN IF EXISTS oidc_subject;
+    ALTER TABLE users DROP COLUMN IF EXISTS oidc_issuer;
+  `,
+};
+
+export default migration;
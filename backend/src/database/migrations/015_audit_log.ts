@@ -0,0 +1,41 @@
+import { Migration } from "../migrator";
+
+// Who changed what. One row per create, update or delete of a record or an
+// admin change, with the fields that changed. Rows outlive the records and
+// users they mention, so they keep the actor's email and a label for the record.
+const migration: Migration = {
+  version: 15,
+  name: "audit_log",
+  up: `
+    CREATE TABLE audit_log (
+      id SERIAL PRIMARY KEY,
+      actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      actor_email VARCHAR(255),
+      -- Set when the change was made with a personal API key
+      api_key_id INTEGER REFERENCES api_keys(id) ON DELETE SET NULL,
+      action VARCHAR(32) NOT NULL,
+      entity_type VARCHAR(32) NOT NULL,
+      entity_id VARCHAR(64) NOT NULL,
+      entity_label VARCHAR(255),
+      -- The record a share belongs to, so it shows in that record's history
+      parent_type VARCHAR(32),
+      parent_id VARCHAR(64),
+      -- { field: { from, to } }
+      changes JSONB,
+      metadata JSONB,
+      ip_address VARCHAR(45),
+      user_agent TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_audit_log_created_at ON audit_log(created_at);
+    CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+    CREATE INDEX idx_audit_log_parent ON audit_log(parent_type, parent_id, created_at);
+    CREATE INDEX idx_audit_log_actor ON audit_log(actor_id, created_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS audit_log;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+import { Migration } from "../migrator";
+
+// Deactivated users can't sign in but keep their records, so someone leaving
+// doesn't take their contacts, deals and activities with them.
+const migration: Migration = {
+  version: 16,
+  name: "user_deactivation",
+  up: `
+    ALTER TABLE users ADD COLUMN deactivated_at TIMESTAMP;
+  `,
+  down: `
+    ALTER TABLE users DROP COLUMN IF EXISTS deactivated_at;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,54 @@
+import { Migration } from "../migrator";
+
+// Roles become rows with a list of permissions instead of a fixed user/admin
+// check, so admins can add their own. users.role and invitations.role keep
+// holding the role's name, which can't change once created.
+const migration: Migration = {
+  version: 17,
+  name: "roles",
+  up: `
+    CREATE TABLE roles (
+      name VARCHAR(20) PRIMARY KEY,
+      label VARCHAR(100) NOT NULL,
+      description TEXT,
+      permissions TEXT[] NOT NULL DEFAULT '{}',
+      -- Built-in roles can't be deleted
+      is_system BOOLEAN NOT NULL DEFAULT false,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    INSERT INTO roles (name, label, description, permissions, is_system)
+    VALUES
+      ('admin', 'Admin', 'Full access, including users and system settings', ARRAY[
+        'can_edit_records', 'can_delete_contacts', 'can_delete_organizations',
+        'can_delete_deals', 'can_delete_activities', 'can_import', 'can_export',
+        'can_manage_stages', 'can_manage_users', 'can_manage_settings',
+        'can_view_audit_log'
+      ], true),
+      ('user', 'User', 'Works with their own records and the ones shared with them', ARRAY[
+        'can_edit_records', 'can_delete_contacts', 'can_delete_organizations',
+        'can_delete_deals', 'can_delete_activities', 'can_import', 'can_export',
+        'can_manage_stages'
+      ], true),
+      ('manager', 'Manager', 'Reads every record, whoever owns it, without changing anything', ARRAY[
+        'can_view_all_records', 'can_export'
+      ], false);
+
+    ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+    ALTER TABLE users ADD CONSTRAINT users_role_fkey FOREIGN KEY (role) REFERENCES roles(name);
+    -- Only closed invitations can still point at a deleted role; they fall back
+    -- to the default so their history stays
+    ALTER TABLE invitations ADD CONSTRAINT invitations_role_fkey FOREIGN KEY (role) REFERENCES roles(name) ON DELETE SET DEFAULT;
+  `,
+  down: `
+    ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_role_fkey;
+    ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_fkey;
+    UPDATE users SET role = 'user' WHERE role NOT IN ('user', 'admin');
+    DELETE FROM invitations WHERE role NOT IN ('user', 'admin');
+    ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('user', 'admin'));
+    DROP TABLE IF EXISTS roles;
+  `,
+};
+
+export default migration;
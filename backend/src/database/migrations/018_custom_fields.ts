@@ -0,0 +1,45 @@
+import { Migration } from "../migrator";
+
+// Admin-defined fields on contacts, organizations, deals and activities. The
+// definitions live in custom_fields and each record keeps its values in a
+// JSONB object keyed by the field's key, so adding a field needs no schema
+// change.
+const migration: Migration = {
+  version: 18,
+  name: "custom_fields",
+  up: `
+    CREATE TABLE custom_fields (
+      id SERIAL PRIMARY KEY,
+      entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('contact', 'organization', 'deal', 'activity')),
+      key VARCHAR(50) NOT NULL,
+      label VARCHAR(100) NOT NULL,
+      field_type VARCHAR(20) NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select', 'multi_select', 'boolean', 'url')),
+      -- Choices of select and multi-select fields
+      options TEXT[] NOT NULL DEFAULT '{}',
+      is_required BOOLEAN NOT NULL DEFAULT false,
+      position INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (entity_type, key)
+    );
+
+    ALTER TABLE contacts ADD COLUMN custom_fields JSONB NOT NULL DEFAULT '{}';
+    ALTER TABLE companies ADD COLUMN custom_fields JSONB NOT NULL DEFAULT '{}';
+    ALTER TABLE deals ADD COLUMN custom_fields JSONB NOT NULL DEFAULT '{}';
+    ALTER TABLE activities ADD COLUMN custom_fields JSONB NOT NULL DEFAULT '{}';
+
+    CREATE INDEX idx_contacts_custom_fields ON contacts USING GIN (custom_fields);
+    CREATE INDEX idx_companies_custom_fields ON companies USING GIN (custom_fields);
+    CREATE INDEX idx_deals_custom_fields ON deals USING GIN (custom_fields);
+    CREATE INDEX idx_activities_custom_fields ON activities USING GIN (custom_fields);
+  `,
+  down: `
+    ALTER TABLE activities DROP COLUMN IF EXISTS custom_fields;
+    ALTER TABLE deals DROP COLUMN IF EXISTS custom_fields;
+    ALTER TABLE companies DROP COLUMN IF EXISTS custom_fields;
+    ALTER TABLE contacts DROP COLUMN IF EXISTS custom_fields;
+    DROP TABLE IF EXISTS custom_fields;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,113 @@
+import { Migration } from "../migrator";
+
+// Labeled lists of emails, phone numbers and postal addresses on contacts,
+// and of addresses on companies, each with one primary entry. The old single
+// columns stay as a copy of the primary entry so joins and older clients keep
+// working. Phones become E.164 with +1 for national numbers, the default of
+// the new country code setting; numbers that still don't fit are kept as
+// entered rather than dropped.
+const migration: Migration = {
+  version: 19,
+  name: "contact_methods",
+  up: `
+    ALTER TABLE contacts ADD COLUMN emails JSONB NOT NULL DEFAULT '[]';
+    ALTER TABLE contacts ADD COLUMN phones JSONB NOT NULL DEFAULT '[]';
+    ALTER TABLE contacts ADD COLUMN addresses JSONB NOT NULL DEFAULT '[]';
+    ALTER TABLE companies ADD COLUMN addresses JSONB NOT NULL DEFAULT '[]';
+
+    UPDATE contacts
+    SET emails = jsonb_build_array(
+      jsonb_build_object('label', 'work', 'email', TRIM(email), 'isPrimary', true)
+    )
+    WHERE TRIM(COALESCE(email, '')) <> '';
+
+    WITH numbers AS (
+      SELECT id, phone, regexp_replace(phone, '[^0-9]', '', 'g') as digits
+      FROM contacts
+      WHERE phone ~ '[0-9]'
+    ), converted AS (
+      SELECT id, phone,
+        CASE
+          WHEN LTRIM(phone) LIKE '+%' THEN '+' || digits
+          WHEN digits LIKE '00%' THEN '+' || SUBSTRING(digits FROM 3)
+          WHEN digits LIKE '0%' THEN '+1' || LTRIM(digits, '0')
+          WHEN digits LIKE '1%' AND LENGTH(digits) > 10 THEN '+' || digits
+          ELSE '+1' || digits
+        END as e164
+      FROM numbers
+    )
+    UPDATE contacts c
+    SET phone = v.number,
+        phones = jsonb_build_array(
+          jsonb_build_object('label', 'work', 'number', v.number, 'isPrimary', true)
+        )
+    FROM (
+      SELECT id,
+        CASE WHEN e164 ~ '^[+][1-9][0-9]{7,14}$' THEN e164 ELSE TRIM(phone) END as number
+      FROM converted
+    ) v
+    WHERE c.id = v.id;
+
+    UPDATE companies
+    SET addresses = jsonb_build_array(
+      jsonb_build_object('label', 'billing', 'street', TRIM(address), 'isPrimary', true)
+    )
+    WHERE TRIM(COALESCE(address, '')) <> '';
+
+    -- Search every entry rather than just the primary copies
+    ALTER TABLE contacts DROP COLUMN search_vector;
+    ALTER TABLE contacts ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(first_name, '') || ' ' || coalesce(last_name, '')), 'A') ||
+        setweight(jsonb_to_tsvector('simple', jsonb_path_query_array(emails, '$[*].email') || jsonb_path_query_array(phones, '$[*].number'), '["string"]'), 'B') ||
+        setweight(to_tsvector('simple', coalesce(position, '')), 'B') ||
+        setweight(jsonb_to_tsvector('simple', jsonb_path_query_array(addresses, '$[*].keyvalue() ? (@.key != "label").value'), '["string"]'), 'C') ||
+        setweight(to_tsvector('simple', coalesce(notes, '')), 'C')
+      ) STORED;
+
+    ALTER TABLE companies DROP COLUMN search_vector;
+    ALTER TABLE companies ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(industry, '') || ' ' || coalesce(website, '') || ' ' || coalesce(email, '') || ' ' || coalesce(phone, '')), 'B') ||
+        setweight(jsonb_to_tsvector('simple', jsonb_path_query_array(addresses, '$[*].keyvalue() ? (@.key != "label").value'), '["string"]'), 'C') ||
+        setweight(to_tsvector('simple', coalesce(notes, '')), 'C')
+      ) STORED;
+
+    CREATE INDEX idx_contacts_search ON contacts USING GIN (search_vector);
+    CREATE INDEX idx_companies_search ON companies USING GIN (search_vector);
+
+    INSERT INTO system_settings (setting_key, setting_value, description)
+    VALUES ('default_phone_country_code', '1', 'Country calling code for phone numbers entered without one, e.g. 1 for the US or 44 for the UK')
+    ON CONFLICT (setting_key) DO NOTHING;
+  `,
+  down: `
+    DELETE FROM system_settings WHERE setting_key = 'default_phone_country_code';
+
+    ALTER TABLE companies DROP COLUMN IF EXISTS search_vector;
+    ALTER TABLE companies ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(industry, '') || ' ' || coalesce(website, '') || ' ' || coalesce(email, '') || ' ' || coalesce(phone, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(address, '') || ' ' || coalesce(notes, '')), 'C')
+      ) STORED;
+
+    ALTER TABLE contacts DROP COLUMN IF EXISTS search_vector;
+    ALTER TABLE contacts ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(first_name, '') || ' ' || coalesce(last_name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(email, '') || ' ' || coalesce(phone, '') || ' ' || coalesce(position, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(notes, '')), 'C')
+      ) STORED;
+
+    CREATE INDEX idx_contacts_search ON contacts USING GIN (search_vector);
+    CREATE INDEX idx_companies_search ON companies USING GIN (search_vector);
+
+    ALTER TABLE companies DROP COLUMN IF EXISTS addresses;
+    ALTER TABLE contacts DROP COLUMN IF EXISTS addresses;
+    ALTER TABLE contacts DROP COLUMN IF EXISTS phones;
+    ALTER TABLE contacts DROP COLUMN IF EXISTS emails;
+  `,
+};
+
+export default migration;
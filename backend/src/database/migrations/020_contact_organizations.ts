@@ -0,0 +1,42 @@
+import { Migration } from "../migrator";
+
+// Every organization a contact works or worked at, with their title and
+// department there. Ending a link instead of deleting it keeps the history
+// when someone changes jobs. contacts.company_id and position stay as a copy
+// of the current link, so lists, filters and older clients keep working.
+// Existing contacts get a current link to their company with their position.
+const migration: Migration = {
+  version: 20,
+  name: "contact_organizations",
+  up: `
+    CREATE TABLE contact_organizations (
+      id SERIAL PRIMARY KEY,
+      contact_id INTEGER NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+      company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+      title VARCHAR(100),
+      department VARCHAR(100),
+      start_date DATE,
+      end_date DATE,
+      is_current BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
+    );
+
+    CREATE INDEX idx_contact_organizations_contact ON contact_organizations(contact_id);
+    CREATE INDEX idx_contact_organizations_company ON contact_organizations(company_id);
+    -- Past roles at a company can repeat, but only one can be current
+    CREATE UNIQUE INDEX idx_contact_organizations_current
+      ON contact_organizations(contact_id, company_id) WHERE is_current;
+
+    INSERT INTO contact_organizations (contact_id, company_id, title, is_current)
+    SELECT id, company_id, position, true
+    FROM contacts
+    WHERE company_id IS NOT NULL;
+  `,
+  down: `
+    DROP TABLE IF EXISTS contact_organizations;
+  `,
+};
+
+export default migration;
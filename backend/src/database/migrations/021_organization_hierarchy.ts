@@ -0,0 +1,22 @@
+import { Migration } from "../migrator";
+
+// Organizations can belong to a parent, so a group and its subsidiaries form
+// a tree. Deleting a parent makes its subsidiaries top-level organizations;
+// the API keeps the tree free of cycles.
+const migration: Migration = {
+  version: 21,
+  name: "organization_hierarchy",
+  up: `
+    ALTER TABLE companies
+      ADD COLUMN parent_id INTEGER REFERENCES companies(id) ON DELETE SET NULL,
+      ADD CONSTRAINT companies_parent_not_self CHECK (parent_id <> id);
+
+    CREATE INDEX idx_companies_parent_id ON companies(parent_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_companies_parent_id;
+    ALTER TABLE companies DROP COLUMN IF EXISTS parent_id;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+import { Migration } from "../migrator";
+
+// Refresh tokens a session has already exchanged. One coming back means two
+// parties hold the session's tokens, so the session is revoked.
+const migration: Migration = {
+  version: 22,
+  name: "rotated_refresh_tokens",
+  up: `
+    CREATE TABLE rotated_refresh_tokens (
+      token_hash VARCHAR(64) PRIMARY KEY,
+      session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+      rotated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_rotated_refresh_tokens_session_id ON rotated_refresh_tokens(session_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS rotated_refresh_tokens;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,52 @@
+import { Migration } from "../migrator";
+import initialSchema from "./001_initial_schema";
+import dealPositions from "./002_deal_positions";
+import stageKinds from "./003_stage_kinds";
+import dealStageHistory from "./004_deal_stage_history";
+import contactDuplicateDismissals from "./005_contact_duplicate_dismissals";
+import teams from "./006_teams";
+import searchVectors from "./007_search_vectors";
+import sessions from "./008_sessions";
+import twoFactor from "./009_two_factor";
+import emailTokens from "./010_email_tokens";
+import invitations from "./011_invitations";
+import apiKeys from "./012_api_keys";
+import loginAttempts from "./013_login_attempts";
+import oidc from "./014_oidc";
+import auditLog from "./015_audit_log";
+import userDeactivation from "./016_user_deactivation";
+import roles from "./017_roles";
+import customFields from "./018_custom_fields";
+import contactMethods from "./019_contact_methods";
+import contactOrganizations from "./020_contact_organizations";
+import organizationHierarchy from "./021_organization_hierarchy";
+import rotatedRefreshTokens from "./022_rotated_refresh_tokens";
+
+// Every migration, in the order it must be applied. Never edit or reorder an
+// entry that has shipped: add a new numbered file and append it here.
+const migrations: Migration[] = [
+  initialSchema,
+  dealPositions,
+  stageKinds,
+  dealStageHistory,
+  contactDuplicateDismissals,
+  teams,
+  searchVectors,
+  sessions,
+  twoFactor,
+  emailTokens,
+  invitations,
+  apiKeys,
+  loginAttempts,
+  oidc,
+  auditLog,
+  userDeactivation,
+  roles,
+  customFields,
+  contactMethods,
+  contactOrganizations,
+  organizationHierarchy,
+  rotatedRefreshTokens,
+];
+
+export default migrations;
@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import db from "../config/database";
+import migrations from "./migrations";
+import {
+  checksumOf,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+} from "./migrator";
+
+interface AppliedRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+const latest = migrations[migrations.length - 1];
+
+describe("migrations", () => {
+  it("are numbered in order from 1 without gaps", () => {
+    assert.deepEqual(
+      migrations.map((migration) => migration.version),
+      migrations.map((_, index) => index + 1)
+    );
+  });
+
+  it("each have a name and both scripts", () => {
+    for (const migration of migrations) {
+      assert.ok(migration.name, `Migration ${migration.version} has no name`);
+      assert.ok(migration.up.trim(), `${migration.name} has no up script`);
+      assert.ok(migration.down.trim(), `${migration.name} has no down script`);
+    }
+  });
+});
+
+describe("migrator", () => {
+  let applied: AppliedRow[];
+  // Statements run outside the bookkeeping, i.e. the migrations' scripts
+  let scripts: string[];
+  let transactions: string[];
+  let failingScript: string | null;
+
+  const row = (version: number, checksum?: string): AppliedRow => {
+    const migration = migrations[version - 1];
+    return {
+      version,
+      name: migration?.name || `gone_${version}`,
+      checksum: checksum ?? (migration ? checksumOf(migration) : "x"),
+      applied_at: new Date(),
+    };
+  };
+
+  const client = {
+    query: async (text: string, params: any[] = []) => {
+      const result = (rows: any[] = []) => ({ rows, rowCount: rows.length });
+      const sql = text.trim();
+
+      if (sql.includes("pg_advisory") || sql.includes("CREATE TABLE IF NOT")) {
+        return result();
+      }
+      if (["BEGIN", "COMMIT", "ROLLBACK"].includes(sql)) {
+        transactions.push(sql);
+        return result();
+      }
+      if (sql.startsWith("SELECT version, name, checksum")) {
+        return result([...applied].sort((a, b) => a.version - b.version));
+      }
+      if (sql.startsWith("INSERT INTO schema_migrations")) {
+        applied.push({
+          version: params[0],
+          name: params[1],
+          checksum: params[2],
+          applied_at: new Date(),
+        });
+        return result();
+      }
+      if (sql.startsWith("DELETE FROM schema_migrations")) {
+        applied = applied.filter(({ version }) => version !== params[0]);
+        return result();
+      }
+
+      if (text === failingScript) {
+        throw new Error("syntax error");
+      }
+      scripts.push(text);
+      return result();
+    },
+    release: () => {},
+  };
+
+  beforeEach(() => {
+    applied = [];
+    scripts = [];
+    transactions = [];
+    failingScript = null;
+    mock.method(db.pool, "connect", async () => client);
+    mock.method(console, "log", () => {});
+    mock.method(console, "error", () => {});
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  describe("migrateUp", () => {
+    it("applies the pending migrations in order", async () => {
+      applied = migrations.slice(0, -2).map(({ version }) => row(version));
+
+      const ran = await migrateUp();
+
+      assert.deepEqual(
+        ran.map(({ version }) => version),
+        [latest.version - 1, latest.version]
+      );
+      assert.deepEqual(scripts, [
+        migrations[migrations.length - 2].up,
+        latest.up,
+      ]);
+      assert.deepEqual(transactions, ["BEGIN", "COMMIT", "BEGIN", "COMMIT"]);
+      assert.equal(applied.length, migrations.length);
+      assert.equal(applied[applied.length - 1].checksum, checksumOf(latest));
+    });
+
+    it("does nothing when everything is applied", async () => {
+      applied = migrations.map(({ version }) => row(version));
+      assert.deepEqual(await migrateUp(), []);
+      assert.deepEqual(scripts, []);
+    });
+
+    it("refuses to run when an applied migration was edited", async () => {
+      applied = [row(1), row(2, "edited")];
+
+      await assert.rejects(migrateUp(), /was modified after being applied/);
+      assert.deepEqual(scripts, []);
+    });
+
+    it("rolls back a migration that fails and stops", async () => {
+      applied = migrations.slice(0, -2).map(({ version }) => row(version));
+      failingScript = migrations[migrations.length - 2].up;
+
+      await assert.rejects(migrateUp(), /syntax error/);
+      assert.deepEqual(transactions, ["BEGIN", "ROLLBACK"]);
+      assert.equal(applied.length, migrations.length - 2);
+    });
+  });
+
+  describe("migrateDown", () => {
+    it("reverts the latest migrations", async () => {
+      applied = migrations.map(({ version }) => row(version));
+
+      const reverted = await migrateDown(2);
+
+      assert.deepEqual(
+        reverted.map(({ version }) => version),
+        [latest.version, latest.version - 1]
+      );
+      assert.deepEqual(scripts, [
+        latest.down,
+        migrations[migrations.length - 2].down,
+      ]);
+      assert.equal(applied.length, migrations.length - 2);
+    });
+
+    it("can't revert a migration without its file", async () => {
+      applied = [row(1), row(latest.version + 1)];
+
+      await assert.rejects(migrateDown(), /no migration file found/);
+      assert.equal(applied.length, 2);
+    });
+  });
+
+  describe("getMigrationStatus", () => {
+    it("reports each migration's state", async () => {
+      applied = [row(1), row(2, "edited"), row(latest.version + 1)];
+
+      const status = await getMigrationStatus();
+      const states = new Map(
+        status.map((entry) => [entry.version, entry.state])
+      );
+
+      assert.equal(states.get(1), "applied");
+      assert.equal(states.get(2), "modified");
+      assert.equal(states.get(3), "pending");
+      assert.equal(states.get(latest.version + 1), "missing");
+      assert.equal(status.length, migrations.length + 1);
+    });
+  });
+});
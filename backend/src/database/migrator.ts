@@ -0,0 +1,243 @@
+import crypto from "crypto";
+import { PoolClient } from "pg";
+import db from "../config/database";
+import migrations from "./migrations";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+interface AppliedMigrationRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: "applied" | "pending" | "modified" | "missing";
+  appliedAt?: Date;
+}
+
+// Arbitrary key used with pg_advisory_lock so two runners never overlap
+const MIGRATION_LOCK_KEY = 724001;
+
+/**
+ * Compute the checksum stored for a migration
+ * @param migration - The migration to fingerprint
+ * @returns Hex encoded SHA-256 of the migration's up script
+ */
+export const checksumOf = (migration: Migration): string => {
+  return crypto.createHash("sha256").update(migration.up).digest("hex");
+};
+
+const ensureMigrationsTable = async (client: PoolClient): Promise<void> => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      execution_ms INTEGER,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+};
+
+const getAppliedMigrations = async (
+  client: PoolClient
+): Promise<AppliedMigrationRow[]> => {
+  const result = await client.query<AppliedMigrationRow>(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version"
+  );
+  return result.rows;
+};
+
+const validateDefinitions = (): void => {
+  const seen = new Set<number>();
+  let previous = 0;
+
+  for (const migration of migrations) {
+    if (seen.has(migration.version)) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+    if (migration.version <= previous) {
+      throw new Error(
+        `Migration ${migration.version} is out of order (after ${previous})`
+      );
+    }
+    seen.add(migration.version);
+    previous = migration.version;
+  }
+};
+
+const withMigrationLock = async <T>(
+  fn: (client: PoolClient) => Promise<T>
+): Promise<T> => {
+  const client = await db.pool.connect();
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    await ensureMigrationsTable(client);
+    return await fn(client);
+  } finally {
+    await client
+      .query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY])
+      .catch(() => undefined);
+    client.release();
+  }
+};
+
+/**
+ * Report every known migration alongside its state in the database
+ * @returns One entry per migration file plus any applied version with no file
+ */
+export const getMigrationStatus = async (): Promise<MigrationStatus[]> => {
+  validateDefinitions();
+
+  return withMigrationLock(async (client) => {
+    const applied = await getAppliedMigrations(client);
+    const appliedByVersion = new Map(applied.map((row) => [row.version, row]));
+
+    const status: MigrationStatus[] = migrations.map((migration) => {
+      const row = appliedByVersion.get(migration.version);
+      if (!row) {
+        return {
+          version: migration.version,
+          name: migration.name,
+          state: "pending",
+        };
+      }
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: row.checksum === checksumOf(migration) ? "applied" : "modified",
+        appliedAt: row.applied_at,
+      };
+    });
+
+    const known = new Set(migrations.map((migration) => migration.version));
+    for (const row of applied) {
+      if (!known.has(row.version)) {
+        status.push({
+          version: row.version,
+          name: row.name,
+          state: "missing",
+          appliedAt: row.applied_at,
+        });
+      }
+    }
+
+    return status.sort((a, b) => a.version - b.version);
+  });
+};
+
+/**
+ * Apply all pending migrations in version order, one transaction each
+ * @returns The migrations that were applied
+ */
+export const migrateUp = async (): Promise<Migration[]> => {
+  validateDefinitions();
+
+  return withMigrationLock(async (client) => {
+    const applied = await getAppliedMigrations(client);
+    const appliedByVersion = new Map(applied.map((row) => [row.version, row]));
+
+    // Refuse to continue if an already applied migration was edited
+    for (const migration of migrations) {
+      const row = appliedByVersion.get(migration.version);
+      if (row && row.checksum !== checksumOf(migration)) {
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) was modified after being applied. ` +
+            "Add a new migration instead of editing an applied one."
+        );
+      }
+    }
+
+    const pending = migrations.filter(
+      (migration) => !appliedByVersion.has(migration.version)
+    );
+
+    for (const migration of pending) {
+      console.log(`🔨 Applying ${migration.version} ${migration.name}...`);
+      const startedAt = Date.now();
+
+      try {
+        await client.query("BEGIN");
+        await client.query(migration.up);
+        await client.query(
+          `INSERT INTO schema_migrations (version, name, checksum, execution_ms)
+           VALUES ($1, $2, $3, $4)`,
+          [
+            migration.version,
+            migration.name,
+            checksumOf(migration),
+            Date.now() - startedAt,
+          ]
+        );
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        console.error(
+          `❌ Migration ${migration.version} (${migration.name}) failed, rolled back`
+        );
+        throw error;
+      }
+
+      console.log(`✅ Applied ${migration.version} ${migration.name}`);
+    }
+
+    return pending;
+  });
+};
+
+/**
+ * Revert the most recently applied migrations, one transaction each
+ * @param steps - How many migrations to revert
+ * @returns The migrations that were reverted
+ */
+export const migrateDown = async (steps = 1): Promise<Migration[]> => {
+  validateDefinitions();
+
+  return withMigrationLock(async (client) => {
+    const applied = await getAppliedMigrations(client);
+    const toRevert = applied.slice(-steps).reverse();
+    const reverted: Migration[] = [];
+
+    for (const row of toRevert) {
+      const migration = migrations.find(
+        (candidate) => candidate.version === row.version
+      );
+      if (!migration) {
+        throw new Error(
+          `Cannot revert migration ${row.version} (${row.name}): no migration file found`
+        );
+      }
+
+      console.log(`🔨 Reverting ${migration.version} ${migration.name}...`);
+
+      try {
+        await client.query("BEGIN");
+        await client.query(migration.down);
+        await client.query("DELETE FROM schema_migrations WHERE version = $1", [
+          migration.version,
+        ]);
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        console.error(
+          `❌ Reverting ${migration.version} (${migration.name}) failed, rolled back`
+        );
+        throw error;
+      }
+
+      console.log(`✅ Reverted ${migration.version} ${migration.name}`);
+      reverted.push(migration);
+    }
+
+    return reverted;
+  });
+};
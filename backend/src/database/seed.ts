@@ -0,0 +1,126 @@
+import db from "../config/database";
+import bcrypt from "bcryptjs";
+
+interface AdminUserRow {
+  id: string;
+  email: string;
+}
+
+interface ExistingAdminRow {
+  id: string;
+}
+
+interface ExistingStagesRow {
+  id: string;
+  name: string;
+  order_index: number;
+  user_id: string;
+}
+
+export const createDefaultAdmin = async (): Promise<AdminUserRow | null> => {
+  try {
+    // Check if any admin user exists
+    const existingAdmin = await db.query<ExistingAdminRow>(
+      "SELECT id FROM users WHERE role = $1 LIMIT 1",
+      ["admin"]
+    );
+
+    if (existingAdmin.rows.length === 0) {
+      console.log("🔨 Creating default admin user...");
+
+      // Hash the password
+      const saltRounds = 12;
+      const hashedPassword = await bcrypt.hash("password", saltRounds);
+
+      // Create default admin user
+      const result = await db.query<AdminUserRow>(
+        "INSERT INTO users (email, password, first_name, last_name, role) VALUES ($1, $2, $3, $4, $5) RETURNING id, email",
+        [
+          "admin@omwcrm.local",
+          hashedPassword,
+          "System",
+          "Administrator",
+          "admin",
+        ]
+      );
+
+      const adminUser = result.rows[0];
+
+      // Seed default data for the admin user
+      await seedDefaultData(adminUser.id);
+
+      console.log(`✅ Default admin user created: ${adminUser.email}`);
+      console.log("📝 Default admin credentials:");
+      console.log("   Email: admin@omwcrm.local");
+      console.log("   Password: password");
+      console.log("   ⚠️  Please change this password after first login!");
+
+      return adminUser;
+    } else {
+      console.log(
+        "ℹ️ Admin user already exists, skipping default admin creation"
+      );
+      return null;
+    }
+  } catch (error) {
+    console.error("❌ Error creating default admin:", error);
+    throw error;
+  }
+};
+
+export const seedDefaultData = async (userId: string): Promise<void> => {
+  try {
+    // Check if default deal stages exist for this user
+    const existingStages = await db.query<ExistingStagesRow>(
+      "SELECT * FROM deal_stages WHERE user_id = $1",
+      [userId]
+    );
+
+    if (existingStages.rows.length === 0) {
+      const defaultStages = [
+        { name: "Lead", order_index: 1, kind: "open", probability: 10 },
+        { name: "Qualified", order_index: 2, kind: "open", probability: 25 },
+        { name: "Proposal", order_index: 3, kind: "open", probability: 50 },
+        { name: "Negotiation", order_index: 4, kind: "open", probability: 75 },
+        { name: "Won", order_index: 5, kind: "won", probability: 100 },
+        { name: "Lost", order_index: 6, kind: "lost", probability: 0 },
+      ];
+
+      for (const stage of defaultStages) {
+        await db.query(
+          "INSERT INTO deal_stages (name, order_index, kind, default_probability, user_id) VALUES ($1, $2, $3, $4, $5)",
+          [stage.name, stage.order_index, stage.kind, stage.probability, userId]
+        );
+      }
+      console.log("✅ Default deal stages created for user");
+    }
+
+    // Insert default system settings
+    const defaultSettings = [
+      {
+        key: "registration_enabled",
+        value: "true",
+        description: "Allow new user registration",
+      },
+      {
+        key: "max_users",
+        value: "0",
+        description: "Maximum number of users (0 = unlimited)",
+      },
+    ];
+
+    for (const setting of defaultSettings) {
+      await db.query(
+        `
+        INSERT INTO system_settings (setting_key, setting_value, description)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (setting_key) DO NOTHING
+      `,
+        [setting.key, setting.value, setting.description]
+      );
+    }
+  } catch (error) {
+    console.error("❌ Error seeding default data:", error);
+    throw error;
+  }
+};
@@ -2,13 +2,91 @@ import jwt from "jsonwebtoken";
 import { Request, Response, NextFunction } from "express";
 import db from "../config/database";
 import { AuthenticatedRequest, User } from "../types";
+import { AccessTokenPayload, findActiveSession } from "../utils/sessions";
+import { isTwoFactorRequired } from "../utils/systemSettings";
+import {
+  API_KEY_PREFIX,
+  apiKeyAllows,
+  findActiveApiKey,
+} from "../utils/apiKeys";
+import { grantedPermissions } from "../utils/permissions";
 
-interface JwtPayload {
-  userId: string;
+interface JwtPayload extends Partial<AccessTokenPayload> {
   iat?: number;
   exp?: number;
 }
 
+/**
+ * Load the user a request is authenticated as into req.user
+ * @param enforceTwoFactor - Whether the two_factor_required setting applies;
+ * it doesn't to single sign-on sessions, where the provider handles it
+ * @returns False if a response was sent because the user can't continue
+ */
+const setRequestUser = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  userId: string,
+  enforceTwoFactor = true
+): Promise<boolean> => {
+  // Verify user still exists
+  const userResult = await db.query<
+    User & {
+      totp_enabled: boolean;
+      deactivated_at: Date | null;
+      role_permissions: string[] | null;
+    }
+  >(
+    `SELECT u.id, u.email, u.first_name, u.last_name, u.role, u.totp_enabled, u.deactivated_at,
+            u.created_at, u.updated_at, r.permissions as role_permissions
+     FROM users u
+     LEFT JOIN roles r ON r.name = u.role
+     WHERE u.id = $1`,
+    [userId]
+  );
+
+  if (userResult.rows.length === 0) {
+    res.status(401).json({ message: "User not found" });
+    return false;
+  }
+
+  const user = userResult.rows[0];
+
+  // Covers API keys too, which outlive the sessions revoked on deactivation
+  if (user.deactivated_at) {
+    res.status(401).json({ message: "This account has been deactivated" });
+    return false;
+  }
+
+  // Users who must use two-factor authentication can only reach the auth
+  // routes, where they enroll, until they have set it up
+  if (
+    enforceTwoFactor &&
+    !user.totp_enabled &&
+    req.baseUrl !== "/api/auth" &&
+    (await isTwoFactorRequired(user.role))
+  ) {
+    res.status(403).json({
+      message: "Set up two-factor authentication to continue",
+      twoFactorSetupRequired: true,
+    });
+    return false;
+  }
+
+  req.user = {
+    id: user.id,
+    userId: user.id,
+    email: user.email,
+    first_name: user.first_name,
+    last_name: user.last_name,
+    role: user.role,
+    permissions: grantedPermissions(user.role_permissions),
+    created_at: user.created_at,
+    updated_at: user.updated_at,
+  };
+
+  return true;
+};
+
 export const authenticateToken = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -28,39 +106,56 @@ export const authenticateToken = async (
       return;
     }
 
+    // Personal API keys are sent as a Bearer token instead of a session JWT
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const apiKey = await findActiveApiKey(token);
+      if (!apiKey) {
+        res.status(401).json({ message: "Invalid or expired API key" });
+        return;
+      }
+      if (!apiKeyAllows(apiKey.scopes, req)) {
+        res
+          .status(403)
+          .json({ message: "This API key does not allow this request" });
+        return;
+      }
+
+      if (await setRequestUser(req, res, apiKey.user_id)) {
+        req.apiKeyId = apiKey.id;
+        next();
+      }
+      return;
+    }
+
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JwtPayload;
 
-    // Verify user still exists
-    const userResult = await db.query<User>(
-      "SELECT id, email, first_name, last_name, role, created_at, updated_at FROM users WHERE id = $1",
-      [decoded.userId]
-    );
+    // Tokens issued before sessions existed name no session and can't be revoked
+    if (!decoded.userId || !decoded.sessionId) {
+      res.status(401).json({ message: "Session expired" });
+      return;
+    }
 
-    if (userResult.rows.length === 0) {
-      res.status(401).json({ message: "User not found" });
+    const session = await findActiveSession(decoded.sessionId, decoded.userId);
+    if (!session) {
+      res.status(401).json({ message: "Session has been revoked" });
       return;
     }
 
-    const user = userResult.rows[0];
-    req.user = {
-      id: user.id,
-      userId: user.id,
-      email: user.email,
-      first_name: user.first_name,
-      last_name: user.last_name,
-      role: user.role,
-      created_at: user.created_at,
-      updated_at: user.updated_at,
-    };
-
-    next();
+    const enforceTwoFactor = session.authMethod !== "oidc";
+    if (await setRequestUser(req, res, decoded.userId, enforceTwoFactor)) {
+      req.sessionId = decoded.sessionId;
+      req.sessionAuthMethod = session.authMethod;
+      next();
+    }
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      res.status(403).json({ message: "Invalid token" });
+    // TokenExpiredError extends JsonWebTokenError, so check it first. A 401
+    // tells the client to refresh its session and retry.
+    if (error instanceof jwt.TokenExpiredError) {
+      res.status(401).json({ message: "Token expired" });
       return;
     }
-    if (error instanceof jwt.TokenExpiredError) {
-      res.status(403).json({ message: "Token expired" });
+    if (error instanceof jwt.JsonWebTokenError) {
+      res.status(403).json({ message: "Invalid token" });
       return;
     }
     res.status(500).json({ message: "Server error during authentication" });
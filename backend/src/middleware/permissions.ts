@@ -0,0 +1,46 @@
+import { Response, NextFunction } from "express";
+import { AuthenticatedRequest, Permission } from "../types";
+import { ADMIN_ROLE } from "../utils/permissions";
+
+/**
+ * Let a request through only if the user's role has every one of the given
+ * permissions. Goes after authenticateToken, which loads them.
+ */
+export const requirePermission =
+  (...permissions: Permission[]) =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ message: "Authentication required" });
+      return;
+    }
+
+    const granted = req.user.permissions || [];
+    if (!permissions.every((permission) => granted.includes(permission))) {
+      res.status(403).json({ message: "You don't have permission to do this" });
+      return;
+    }
+
+    next();
+  };
+
+/**
+ * Let a request through only for users with the admin role itself, for
+ * changes that could otherwise hand out more than the user holds
+ */
+export const requireAdminRole = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    res.status(401).json({ message: "Authentication required" });
+    return;
+  }
+
+  if (req.user.role !== ADMIN_ROLE) {
+    res.status(403).json({ message: "Only admins can do this" });
+    return;
+  }
+
+  next();
+};
@@ -2,7 +2,25 @@ import express, { Response } from "express";
 import { body, validationResult, query } from "express-validator";
 import db from "../config/database";
 import { authenticateToken } from "../middleware/auth";
-import { AuthenticatedRequest, Activity } from "../types";
+import { requirePermission } from "../middleware/permissions";
+import { AuthenticatedRequest, Activity, TeamRole } from "../types";
+import { getRecordHistory, recordAudit } from "../utils/auditLog";
+import { companyFilterSql } from "../utils/organizationHierarchy";
+import {
+  CUSTOM_FIELD_SORT_PATTERN,
+  CustomFieldFilters,
+  customFieldConditions,
+  customFieldOrderBy,
+  getCustomFields,
+  mergeCustomFieldsSql,
+  validateCustomFieldValues,
+} from "../utils/customFields";
+import {
+  canAssignTeam,
+  canDeleteRecord,
+  canEditRecord,
+  recordVisibility,
+} from "../utils/visibility";
 
 const router = express.Router();
 
@@ -13,6 +31,7 @@ interface ActivityRow extends Activity {
   contact_name?: string;
   company_name?: string;
   deal_title?: string;
+  team_name?: string;
   is_shared_with_me?: boolean;
   permission?: string;
 }
@@ -29,7 +48,14 @@ interface ActivitiesQueryParams {
   completed?: boolean;
   contactId?: number;
   companyId?: number;
+  // With companyId, also list the organization's subsidiaries' activities
+  includeSubsidiaries?: boolean;
   dealId?: number;
+  // Custom field filters, cf[key]=value
+  cf?: CustomFieldFilters;
+  // "cf.<key>" to sort by a custom field
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
 }
 
 interface CreateActivityBody {
@@ -40,6 +66,8 @@ interface CreateActivityBody {
   contactId?: number;
   companyId?: number;
   dealId?: number;
+  teamId?: number | null;
+  customFields?: Record<string, unknown>;
 }
 
 interface UpdateActivityBody {
@@ -51,6 +79,13 @@ interface UpdateActivityBody {
   contactId?: number;
   companyId?: number;
   dealId?: number;
+  teamId?: number | null;
+  customFields?: Record<string, unknown>;
+}
+
+interface HistoryQueryParams {
+  page?: number;
+  limit?: number;
 }
 
 interface ValidationRow {
@@ -61,6 +96,7 @@ interface ExistingActivityRow {
   id: string;
   user_id: string;
   permission?: string;
+  team_role?: TeamRole;
 }
 
 // Get all activities with pagination and filtering
@@ -74,7 +110,10 @@ router.get(
     query("completed").optional().isBoolean(),
     query("contactId").optional().isInt(),
     query("companyId").optional().isInt(),
+    query("includeSubsidiaries").optional().isBoolean().toBoolean(),
     query("dealId").optional().isInt(),
+    query("sortBy").optional().matches(CUSTOM_FIELD_SORT_PATTERN),
+    query("sortOrder").optional().isIn(["asc", "desc"]),
   ],
   async (
     req: AuthenticatedRequest<{}, {}, {}, ActivitiesQueryParams>,
@@ -95,27 +134,40 @@ router.get(
       const page = Number(req.query.page) || 1;
       const limit = Number(req.query.limit) || 20;
       const offset = (page - 1) * limit;
-      const { search, type, completed, contactId, companyId, dealId } =
-        req.query;
+      const {
+        search,
+        type,
+        completed,
+        contactId,
+        companyId,
+        includeSubsidiaries,
+        dealId,
+      } = req.query;
+
+      const visibility = recordVisibility("activity", "a", "$1");
 
       let countQuery = `
         SELECT COUNT(*) 
         FROM activities a 
-        LEFT JOIN shares s ON s.item_type = 'activity' AND s.item_id = a.id AND s.shared_with_user_id = $1
-        WHERE (a.user_id = $1 OR s.id IS NOT NULL)
+        ${visibility.joins}
+        WHERE ${visibility.condition}
       `;
 
       let dataQuery = `
         SELECT a.*, 
           c.first_name || ' ' || c.last_name as contact_name,
           comp.name as company_name,
-          d.title as deal_name
+          d.title as deal_name,
+          t.name as team_name,
+          CASE WHEN a.user_id = $1 THEN false ELSE true END as is_shared_with_me,
+          ${visibility.permission} as permission
         FROM activities a 
         LEFT JOIN contacts c ON a.contact_id = c.id
         LEFT JOIN companies comp ON a.company_id = comp.id
         LEFT JOIN deals d ON a.deal_id = d.id
-        LEFT JOIN shares s ON s.item_type = 'activity' AND s.item_id = a.id AND s.shared_with_user_id = $1
-        WHERE (a.user_id = $1 OR s.id IS NOT NULL)
+        LEFT JOIN teams t ON a.team_id = t.id
+        ${visibility.joins}
+        WHERE ${visibility.condition}
       `;
 
       const params: any[] = [req.user.userId];
@@ -160,7 +212,11 @@ router.get(
       }
 
       if (companyId) {
-        const companyCondition = `AND a.company_id = $${paramCount}`;
+        const companyCondition = `AND ${companyFilterSql(
+          "a.company_id",
+          `$${paramCount}`,
+          includeSubsidiaries
+        )}`;
         countQuery += companyCondition;
         dataQuery += companyCondition;
         params.push(companyId);
@@ -175,7 +231,30 @@ router.get(
         paramCount++;
       }
 
-      dataQuery += ` ORDER BY 
+      const customFields = await getCustomFields("activity");
+      const customFilter = customFieldConditions(
+        customFields,
+        req.query.cf,
+        "a",
+        params
+      );
+      const customSort = customFieldOrderBy(
+        customFields,
+        req.query.sortBy,
+        req.query.sortOrder,
+        "a"
+      );
+      const customFieldError = customFilter.error || customSort.error;
+      if (customFieldError) {
+        res.status(400).json({ message: customFieldError });
+        return;
+      }
+      countQuery += customFilter.conditions;
+      dataQuery += customFilter.conditions;
+      paramCount = params.length + 1;
+
+      const orderBy = customSort.orderBy ? `${customSort.orderBy}, ` : "";
+      dataQuery += ` ORDER BY ${orderBy}
         CASE 
           WHEN a.due_date IS NULL THEN 2
           ELSE 1
@@ -261,20 +340,23 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const { id } = req.params;
+    const visibility = recordVisibility("activity", "a", "$2");
 
     const result = await db.query<ActivityRow>(
       `SELECT a.*, 
         c.first_name || ' ' || c.last_name as contact_name,
         comp.name as company_name,
         d.title as deal_title,
+        t.name as team_name,
         CASE WHEN a.user_id = $2 THEN false ELSE true END as is_shared_with_me,
-        s.permissions as permission
+        ${visibility.permission} as permission
       FROM activities a 
       LEFT JOIN contacts c ON a.contact_id = c.id
       LEFT JOIN companies comp ON a.company_id = comp.id
       LEFT JOIN deals d ON a.deal_id = d.id
-      LEFT JOIN shares s ON s.item_type = 'activity' AND s.item_id = a.id AND s.shared_with_user_id = $2
-      WHERE a.id = $1 AND (a.user_id = $2 OR s.id IS NOT NULL)`,
+      LEFT JOIN teams t ON a.team_id = t.id
+      ${visibility.joins}
+      WHERE a.id = $1 AND ${visibility.condition}`,
       [id, req.user.userId]
     );
 
@@ -290,9 +372,78 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// Get the change history of a activity, newest first
+router.get(
+  "/:id/history",
+  [
+    query("page").optional().isInt({ min: 1 }).toInt(),
+    query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  async (
+    req: AuthenticatedRequest<{ id: string }, {}, {}, HistoryQueryParams>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+
+      const visibility = recordVisibility("activity", "a", "$2");
+      const existingActivity = await db.query<{ id: string }>(
+        `SELECT a.id FROM activities a
+         ${visibility.joins}
+         WHERE a.id = $1 AND ${visibility.condition}`,
+        [id, req.user.userId]
+      );
+
+      if (existingActivity.rows.length === 0) {
+        res.status(404).json({ message: "Activity not found" });
+        return;
+      }
+
+      const { entries, total } = await getRecordHistory(
+        "activity",
+        id,
+        limit,
+        (page - 1) * limit
+      );
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        entries,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+    } catch (error) {
+      console.error("Get activity history error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error fetching activity history" });
+    }
+  }
+);
+
 // Create activity
 router.post(
   "/",
+  requirePermission("can_edit_records"),
   [
     body("type").isIn(["call", "email", "meeting", "note", "task"]),
     body("subject").trim().notEmpty(),
@@ -301,6 +452,8 @@ router.post(
     body("contactId").optional().isInt(),
     body("companyId").optional().isInt(),
     body("dealId").optional().isInt(),
+    body("teamId").optional({ nullable: true }).isInt(),
+    body("customFields").optional().isObject(),
   ],
   async (
     req: AuthenticatedRequest<{}, {}, CreateActivityBody>,
@@ -326,14 +479,16 @@ router.post(
         contactId,
         companyId,
         dealId,
+        teamId,
       } = req.body;
 
       // Validate foreign keys belong to user or are shared with user
       if (contactId) {
+        const contactVisibility = recordVisibility("contact", "c", "$2");
         const contactCheck = await db.query<ValidationRow>(
           `SELECT c.id FROM contacts c 
-           LEFT JOIN shares s ON s.item_type = 'contact' AND s.item_id = c.id AND s.shared_with_user_id = $2
-           WHERE c.id = $1 AND (c.user_id = $2 OR s.id IS NOT NULL)`,
+           ${contactVisibility.joins}
+           WHERE c.id = $1 AND ${contactVisibility.condition}`,
           [contactId, req.user.userId]
         );
         if (contactCheck.rows.length === 0) {
@@ -354,10 +509,11 @@ router.post(
       }
 
       if (dealId) {
+        const dealVisibility = recordVisibility("deal", "d", "$2");
         const dealCheck = await db.query<ValidationRow>(
           `SELECT d.id FROM deals d 
-           LEFT JOIN shares s ON s.item_type = 'deal' AND s.item_id = d.id AND s.shared_with_user_id = $2
-           WHERE d.id = $1 AND (d.user_id = $2 OR s.id IS NOT NULL)`,
+           ${dealVisibility.joins}
+           WHERE d.id = $1 AND ${dealVisibility.condition}`,
           [dealId, req.user.userId]
         );
         if (dealCheck.rows.length === 0) {
@@ -366,25 +522,56 @@ router.post(
         }
       }
 
-      const result = await db.query<Activity>(
-        `INSERT INTO activities (
-          type, subject, description, due_date, contact_id, company_id, deal_id, user_id
-        ) 
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8) 
-        RETURNING *`,
-        [
-          type,
-          subject,
-          description || null,
-          dueDate || null,
-          contactId || null,
-          companyId || null,
-          dealId || null,
-          req.user.userId,
-        ]
+      if (teamId && !(await canAssignTeam(teamId, req.user.userId))) {
+        res.status(403).json({
+          message: "You can't add activities to this team",
+        });
+        return;
+      }
+
+      const customFields = await validateCustomFieldValues(
+        "activity",
+        req.body.customFields,
+        true
       );
+      if (customFields.error) {
+        res.status(400).json({ message: customFields.error });
+        return;
+      }
 
-      res.status(201).json(result.rows[0]);
+      const userId = req.user.userId;
+      const activity = await db.transaction(async (client) => {
+        const result = await client.query<Activity>(
+          `INSERT INTO activities (
+            type, subject, description, due_date, contact_id, company_id, deal_id, user_id, team_id,
+            custom_fields
+          ) 
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, jsonb_strip_nulls($10::jsonb)) 
+          RETURNING *`,
+          [
+            type,
+            subject,
+            description || null,
+            dueDate || null,
+            contactId || null,
+            companyId || null,
+            dealId || null,
+            userId,
+            teamId || null,
+            JSON.stringify(customFields.values),
+          ]
+        );
+
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "activity",
+          entityId: result.rows[0].id,
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
+
+      res.status(201).json(activity);
     } catch (error) {
       console.error("Create activity error:", error);
       res.status(500).json({ message: "Server error creating activity" });
@@ -395,6 +582,7 @@ router.post(
 // Update activity
 router.put(
   "/:id",
+  requirePermission("can_edit_records"),
   [
     body("type").optional().isIn(["call", "email", "meeting", "note", "task"]),
     body("subject").optional().trim().notEmpty(),
@@ -404,6 +592,8 @@ router.put(
     body("contactId").optional().isInt(),
     body("companyId").optional().isInt(),
     body("dealId").optional().isInt(),
+    body("teamId").optional({ nullable: true }).isInt(),
+    body("customFields").optional().isObject(),
   ],
   async (
     req: AuthenticatedRequest<{ id: string }, {}, UpdateActivityBody>,
@@ -425,11 +615,12 @@ router.put(
       const updates = req.body;
 
       // Check if activity exists and user has edit permission
+      const visibility = recordVisibility("activity", "a", "$2");
       const existingActivity = await db.query<ExistingActivityRow>(
-        `SELECT a.id, a.user_id, s.permissions as permission 
+        `SELECT a.id, a.user_id, ${visibility.permission} as permission 
          FROM activities a 
-         LEFT JOIN shares s ON s.item_type = 'activity' AND s.item_id = a.id AND s.shared_with_user_id = $2
-         WHERE a.id = $1 AND (a.user_id = $2 OR s.id IS NOT NULL)`,
+         ${visibility.joins}
+         WHERE a.id = $1 AND ${visibility.condition}`,
         [id, req.user.userId]
       );
 
@@ -438,24 +629,31 @@ router.put(
         return;
       }
 
-      const activityPermissions = existingActivity.rows[0];
       // Check if user is owner or has write permission
-      if (
-        activityPermissions.user_id !== req.user.userId &&
-        activityPermissions.permission !== "write"
-      ) {
+      if (!canEditRecord(existingActivity.rows[0], req.user.userId)) {
         res
           .status(403)
           .json({ message: "You don't have permission to edit this activity" });
         return;
       }
 
+      if (
+        updates.teamId &&
+        !(await canAssignTeam(updates.teamId, req.user.userId))
+      ) {
+        res.status(403).json({
+          message: "You can't add activities to this team",
+        });
+        return;
+      }
+
       // Validate foreign keys
       if (updates.contactId) {
+        const contactVisibility = recordVisibility("contact", "c", "$2");
         const contactCheck = await db.query<ValidationRow>(
           `SELECT c.id FROM contacts c 
-           LEFT JOIN shares s ON s.item_type = 'contact' AND s.item_id = c.id AND s.shared_with_user_id = $2
-           WHERE c.id = $1 AND (c.user_id = $2 OR s.id IS NOT NULL)`,
+           ${contactVisibility.joins}
+           WHERE c.id = $1 AND ${contactVisibility.condition}`,
           [updates.contactId, req.user.userId]
         );
         if (contactCheck.rows.length === 0) {
@@ -476,10 +674,11 @@ router.put(
       }
 
       if (updates.dealId) {
+        const dealVisibility = recordVisibility("deal", "d", "$2");
         const dealCheck = await db.query<ValidationRow>(
           `SELECT d.id FROM deals d 
-           LEFT JOIN shares s ON s.item_type = 'deal' AND s.item_id = d.id AND s.shared_with_user_id = $2
-           WHERE d.id = $1 AND (d.user_id = $2 OR s.id IS NOT NULL)`,
+           ${dealVisibility.joins}
+           WHERE d.id = $1 AND ${dealVisibility.condition}`,
           [updates.dealId, req.user.userId]
         );
         if (dealCheck.rows.length === 0) {
@@ -488,12 +687,32 @@ router.put(
         }
       }
 
+      const customFields = await validateCustomFieldValues(
+        "activity",
+        updates.customFields,
+        false
+      );
+      if (customFields.error) {
+        res.status(400).json({ message: customFields.error });
+        return;
+      }
+
       // Build dynamic update query
       const fields: string[] = [];
       const values: any[] = [];
       let paramCount = 1;
 
       Object.entries(updates).forEach(([key, value]) => {
+        if (key === "customFields") {
+          // Only the fields sent change; the rest keep their values
+          fields.push(
+            `custom_fields = ${mergeCustomFieldsSql(`$${paramCount}`)}`
+          );
+          values.push(JSON.stringify(customFields.values));
+          paramCount++;
+          return;
+        }
+
         const dbField =
           key === "dueDate"
             ? "due_date"
@@ -503,6 +722,8 @@ router.put(
             ? "company_id"
             : key === "dealId"
             ? "deal_id"
+            : key === "teamId"
+            ? "team_id"
             : key;
         fields.push(`${dbField} = $${paramCount}`);
         values.push(value);
@@ -524,8 +745,26 @@ router.put(
         RETURNING *
       `;
 
-      const result = await db.query<Activity>(query, values);
-      res.json(result.rows[0]);
+      const activity = await db.transaction(async (client) => {
+        const previous = await client.query<Activity>(
+          "SELECT * FROM activities WHERE id = $1 FOR UPDATE",
+          [id]
+        );
+        const result = await client.query<Activity>(query, values);
+
+        if (result.rows.length > 0) {
+          await recordAudit(client, req, {
+            action: "update",
+            entityType: "activity",
+            entityId: id,
+            before: previous.rows[0],
+            after: result.rows[0],
+          });
+        }
+        return result.rows[0];
+      });
+
+      res.json(activity);
     } catch (error) {
       console.error("Update activity error:", error);
       res.status(500).json({ message: "Server error updating activity" });
@@ -536,6 +775,7 @@ router.put(
 // Mark activity as complete/incomplete
 router.patch(
   "/:id/toggle-complete",
+  requirePermission("can_edit_records"),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       if (!req.user) {
@@ -544,21 +784,36 @@ router.patch(
       }
 
       const { id } = req.params;
+      const userId = req.user.userId;
+
+      const activity = await db.transaction(async (client) => {
+        const result = await client.query<Activity>(
+          `UPDATE activities 
+         SET completed = NOT completed, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND user_id = $2 
+         RETURNING *`,
+          [id, userId]
+        );
+        const toggled = result.rows[0];
+
+        if (toggled) {
+          await recordAudit(client, req, {
+            action: "update",
+            entityType: "activity",
+            entityId: id,
+            before: { ...toggled, completed: !toggled.completed },
+            after: toggled,
+          });
+        }
+        return toggled;
+      });
 
-      const result = await db.query<Activity>(
-        `UPDATE activities 
-       SET completed = NOT completed, updated_at = CURRENT_TIMESTAMP
-       WHERE id = $1 AND user_id = $2 
-       RETURNING *`,
-        [id, req.user.userId]
-      );
-
-      if (result.rows.length === 0) {
+      if (!activity) {
         res.status(404).json({ message: "Activity not found" });
         return;
       }
 
-      res.json(result.rows[0]);
+      res.json(activity);
     } catch (error) {
       console.error("Toggle activity complete error:", error);
       res.status(500).json({ message: "Server error updating activity" });
@@ -567,33 +822,60 @@ router.patch(
 );
 
 // Delete activity
-router.delete("/:id", async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
-    }
+router.delete(
+  "/:id",
+  requirePermission("can_delete_activities"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
 
-    const { id } = req.params;
+      const { id } = req.params;
 
-    // Only allow owner to delete (not shared users)
-    const result = await db.query<{ id: string }>(
-      "DELETE FROM activities WHERE id = $1 AND user_id = $2 RETURNING id",
-      [id, req.user.userId]
-    );
+      const visibility = recordVisibility("activity", "a", "$2");
+      const existingActivity = await db.query<ExistingActivityRow>(
+        `SELECT a.id, a.user_id, ${visibility.teamRole} as team_role
+         FROM activities a
+         ${visibility.joins}
+         WHERE a.id = $1 AND ${visibility.condition}`,
+        [id, req.user.userId]
+      );
 
-    if (result.rows.length === 0) {
-      res.status(404).json({
-        message: "Activity not found or you don't have permission to delete it",
+      if (existingActivity.rows.length === 0) {
+        res.status(404).json({ message: "Activity not found" });
+        return;
+      }
+
+      // Only the owner or the team's owners and managers can delete, not shared users
+      if (!canDeleteRecord(existingActivity.rows[0], req.user.userId)) {
+        res.status(403).json({
+          message: "You don't have permission to delete this activity",
+        });
+        return;
+      }
+
+      await db.transaction(async (client) => {
+        const deleted = await client.query<Activity>(
+          "DELETE FROM activities WHERE id = $1 RETURNING *",
+          [id]
+        );
+
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "activity",
+          entityId: id,
+          before: deleted.rows[0],
+        });
       });
-      return;
-    }
 
-    res.json({ message: "Activity deleted successfully" });
-  } catch (error) {
-    console.error("Delete activity error:", error);
-    res.status(500).json({ message: "Server error deleting activity" });
+      res.json({ message: "Activity deleted successfully" });
+    } catch (error) {
+      console.error("Delete activity error:", error);
+      res.status(500).json({ message: "Server error deleting activity" });
+    }
   }
-});
+);
 
 export default router;
@@ -2,7 +2,10 @@ import express, { Response } from "express";
 import { body, validationResult, query, param } from "express-validator";
 import db from "../config/database";
 import { authenticateToken } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
 import { AuthenticatedRequest } from "../types";
+import { recordAudit } from "../utils/auditLog";
+import { canEditRecord, recordVisibility } from "../utils/visibility";
 
 const router = express.Router();
 
@@ -26,7 +29,7 @@ interface ActivityNoteRow extends ActivityNote {
 
 interface ActivityCheckRow {
   id: string;
-  user_id?: string;
+  user_id: string;
   permission?: string;
 }
 
@@ -67,12 +70,13 @@ router.get(
 
       const { activityId } = req.params;
 
-      // Verify activity exists and user has access (owned or shared with edit/view permission)
+      // Verify activity exists and user has access (owned, shared or through a team)
+      const visibility = recordVisibility("activity", "a", "$2");
       const activityCheck = await db.query<ActivityCheckRow>(
-        `SELECT a.id 
+        `SELECT a.id, a.user_id 
          FROM activities a 
-         LEFT JOIN shares s ON s.item_type = 'activity' AND s.item_id = a.id AND s.shared_with_user_id = $2
-         WHERE a.id = $1 AND (a.user_id = $2 OR s.id IS NOT NULL)`,
+         ${visibility.joins}
+         WHERE a.id = $1 AND ${visibility.condition}`,
         [activityId, req.user.userId]
       );
 
@@ -110,6 +114,7 @@ router.get(
 // Create a new note for an activity
 router.post(
   "/",
+  requirePermission("can_edit_records"),
   [
     body("activityId").isInt({ min: 1 }),
     body("content").trim().notEmpty().withMessage("Note content is required"),
@@ -132,12 +137,13 @@ router.post(
 
       const { activityId, content } = req.body;
 
-      // Verify activity exists and user has access (owned or shared with edit permission)
+      // Verify activity exists and user has access (owned, shared or through a team)
+      const visibility = recordVisibility("activity", "a", "$2");
       const activityCheck = await db.query<ActivityCheckRow>(
-        `SELECT a.id, a.user_id, s.permissions as permission
+        `SELECT a.id, a.user_id, ${visibility.permission} as permission
          FROM activities a 
-         LEFT JOIN shares s ON s.item_type = 'activity' AND s.item_id = a.id AND s.shared_with_user_id = $2
-         WHERE a.id = $1 AND (a.user_id = $2 OR s.id IS NOT NULL)`,
+         ${visibility.joins}
+         WHERE a.id = $1 AND ${visibility.condition}`,
         [activityId, req.user.userId]
       );
 
@@ -146,12 +152,8 @@ router.post(
         return;
       }
 
-      const activity = activityCheck.rows[0];
       // Check if user has permission to add notes (must be owner or have write permission)
-      if (
-        activity.user_id !== req.user.userId &&
-        activity.permission !== "write"
-      ) {
+      if (!canEditRecord(activityCheck.rows[0], req.user.userId)) {
         res.status(403).json({
           message: "You don't have permission to add notes to this activity",
         });
@@ -163,14 +165,25 @@ router.post(
         content.split(" ").slice(0, 5).join(" ") +
         (content.split(" ").length > 5 ? "..." : "");
 
-      const result = await db.query<ActivityNote>(
-        `INSERT INTO activity_notes (activity_id, content, user_id, title)
-        VALUES ($1, $2, $3, $4)
-        RETURNING *`,
-        [activityId, content, req.user.userId, title]
-      );
+      const userId = req.user.userId;
+      const note = await db.transaction(async (client) => {
+        const result = await client.query<ActivityNote>(
+          `INSERT INTO activity_notes (activity_id, content, user_id, title)
+          VALUES ($1, $2, $3, $4)
+          RETURNING *`,
+          [activityId, content, userId, title]
+        );
+
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "note",
+          entityId: result.rows[0].id,
+          parent: { type: "activity", id: activityId },
+          after: result.rows[0],
+        });
 
-      const note = result.rows[0];
+        return result.rows[0];
+      });
 
       // Get user name for response
       const userResult = await db.query<{
@@ -199,6 +212,7 @@ router.post(
 // Update a note
 router.put(
   "/:id",
+  requirePermission("can_edit_records"),
   [
     param("id").isInt({ min: 1 }),
     body("content").trim().notEmpty().withMessage("Note content is required"),
@@ -238,15 +252,31 @@ router.put(
         content.split(" ").slice(0, 5).join(" ") +
         (content.split(" ").length > 5 ? "..." : "");
 
-      const result = await db.query<ActivityNote>(
-        `UPDATE activity_notes 
-        SET content = $1, title = $2, updated_at = CURRENT_TIMESTAMP
-        WHERE id = $3 AND user_id = $4
-        RETURNING *`,
-        [content, title, id, req.user.userId]
-      );
+      const userId = req.user.userId;
+      const note = await db.transaction(async (client) => {
+        const previous = await client.query<ActivityNote>(
+          "SELECT * FROM activity_notes WHERE id = $1 FOR UPDATE",
+          [id]
+        );
+        const result = await client.query<ActivityNote>(
+          `UPDATE activity_notes 
+          SET content = $1, title = $2, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $3 AND user_id = $4
+          RETURNING *`,
+          [content, title, id, userId]
+        );
+
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "note",
+          entityId: id,
+          parent: { type: "activity", id: result.rows[0].activity_id },
+          before: previous.rows[0],
+          after: result.rows[0],
+        });
 
-      const note = result.rows[0];
+        return result.rows[0];
+      });
 
       // Get user name for response
       const userResult = await db.query<{
@@ -275,6 +305,7 @@ router.put(
 // Delete a note
 router.delete(
   "/:id",
+  requirePermission("can_edit_records"),
   [param("id").isInt({ min: 1 })],
   async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -291,12 +322,28 @@ router.delete(
 
       const { id } = req.params;
 
-      const result = await db.query<{ id: string }>(
-        "DELETE FROM activity_notes WHERE id = $1 AND user_id = $2 RETURNING id",
-        [id, req.user.userId]
-      );
+      const userId = req.user.userId;
+      const deleted = await db.transaction(async (client) => {
+        const result = await client.query<ActivityNote>(
+          "DELETE FROM activity_notes WHERE id = $1 AND user_id = $2 RETURNING *",
+          [id, userId]
+        );
+        if (result.rows.length === 0) {
+          return undefined;
+        }
+
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "note",
+          entityId: id,
+          parent: { type: "activity", id: result.rows[0].activity_id },
+          before: result.rows[0],
+        });
+
+        return result.rows[0];
+      });
 
-      if (result.rows.length === 0) {
+      if (!deleted) {
         res.status(404).json({ message: "Note not found" });
         return;
       }
@@ -1,20 +1,109 @@
-import express, { Response } from "express";
+import express, { NextFunction, Response } from "express";
 import bcrypt from "bcryptjs";
 import { body, validationResult, query } from "express-validator";
 import db from "../config/database";
 import { authenticateToken } from "../middleware/auth";
-import { requireAdmin } from "../middleware/admin";
-import { AuthenticatedRequest, User, SystemSetting } from "../types";
+import { requireAdminRole, requirePermission } from "../middleware/permissions";
+import { revokeUserSessions } from "../utils/sessions";
+import { disableTwoFactor } from "../utils/twoFactor";
+import { createInvitation, renewInvitation } from "../utils/invitations";
+import { sendInvitationEmail } from "../utils/accountEmails";
+import { getOidcSettings, isUserLimitReached } from "../utils/systemSettings";
+import { formatApiKey } from "../utils/apiKeys";
+import { unlockUser } from "../utils/loginProtection";
+import {
+  ADMIN_ROLE,
+  DEFAULT_ROLE,
+  canAssignRole,
+  formatRole,
+  PERMISSIONS,
+  roleExists,
+} from "../utils/permissions";
+import { AuditLogRow, formatAuditEntry, recordAudit } from "../utils/auditLog";
+import {
+  CUSTOM_FIELD_ENTITIES,
+  CUSTOM_FIELD_KEY_PATTERN,
+  CUSTOM_FIELD_TYPES,
+  formatCustomField,
+  OPTION_FIELD_TYPES,
+  removeCustomFieldValues,
+  removeStaleOptionValues,
+} from "../utils/customFields";
+import {
+  countUserRecords,
+  hasTransferableRecords,
+  transferUserRecords,
+} from "../utils/userOffboarding";
+import {
+  ApiKey,
+  AuthenticatedRequest,
+  CustomField,
+  CustomFieldEntity,
+  CustomFieldType,
+  User,
+  Invitation,
+  Permission,
+  Role,
+  SystemSetting,
+  Team,
+  TeamRole,
+} from "../types";
 
 const router = express.Router();
 
-// All routes require authentication and admin role
+// All routes require authentication, and each area its own permission
 router.use(authenticateToken);
-router.use(requireAdmin);
+router.use(
+  ["/users", "/invitations", "/teams", "/api-keys", "/roles"],
+  requirePermission("can_manage_users")
+);
+router.use(
+  ["/settings", "/custom-fields"],
+  requirePermission("can_manage_settings")
+);
+router.use(
+  ["/login-attempts", "/audit"],
+  requirePermission("can_view_audit_log")
+);
+
+// Only admins can change, deactivate or reset an admin's account
+router.use(
+  "/users/:id",
+  async (
+    req: AuthenticatedRequest<{ id: string }>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    if (req.method === "GET" || req.user?.role === ADMIN_ROLE) {
+      next();
+      return;
+    }
+
+    try {
+      const target = await db.query<{ role: string }>(
+        "SELECT role FROM users WHERE id::text = $1",
+        [req.params.id]
+      );
+      if (target.rows[0]?.role === ADMIN_ROLE) {
+        res
+          .status(403)
+          .json({ message: "Only admins can change an admin's account" });
+        return;
+      }
+      next();
+    } catch (error) {
+      console.error("Check admin account error:", error);
+      res.status(500).json({ message: "Server error checking user" });
+    }
+  }
+);
 
 interface UserRow extends User {
   first_name: string;
   last_name: string;
+  totp_enabled?: boolean;
+  locked_until?: Date | null;
+  deactivated_at?: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -35,6 +124,42 @@ interface AdminQueryParams {
   limit?: number;
   search?: string;
   role?: string;
+  status?: "active" | "deactivated";
+}
+
+interface DeleteUserQueryParams {
+  preview?: boolean;
+  force?: boolean;
+}
+
+interface LoginAttemptQueryParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  success?: boolean;
+}
+
+interface LoginAttemptRow {
+  id: string;
+  email: string;
+  user_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  success: boolean;
+  reason: string | null;
+  created_at: Date;
+}
+
+interface AuditLogQueryParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  actorId?: number;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
 }
 
 interface CreateUserBody {
@@ -42,7 +167,7 @@ interface CreateUserBody {
   password: string;
   firstName: string;
   lastName: string;
-  role?: "user" | "admin";
+  role?: string;
 }
 
 interface UpdateUserBody {
@@ -50,13 +175,174 @@ interface UpdateUserBody {
   password?: string;
   firstName?: string;
   lastName?: string;
-  role?: "user" | "admin";
+  role?: string;
+}
+
+// The fields of UpdateUserBody stored as they are, and their columns
+const USER_UPDATE_COLUMNS: Partial<Record<keyof UpdateUserBody, string>> = {
+  email: "email",
+  firstName: "first_name",
+  lastName: "last_name",
+  role: "role",
+};
+
+interface TransferRecordsBody {
+  toUserId?: number;
+  teamId?: number;
+}
+
+interface InvitationRow extends Invitation {
+  inviter_first_name?: string | null;
+  inviter_last_name?: string | null;
+}
+
+interface ApiKeyRow extends ApiKey {
+  owner_email: string;
+  owner_first_name: string;
+  owner_last_name: string;
+}
+
+interface CreateInvitationBody {
+  email: string;
+  role?: string;
 }
 
 interface UpdateSettingBody {
   value: string;
 }
 
+interface TeamMemberRow {
+  team_id: string;
+  user_id: string;
+  role: TeamRole;
+  email: string;
+  first_name: string;
+  last_name: string;
+}
+
+interface TeamBody {
+  name?: string;
+  description?: string;
+}
+
+interface TeamMemberBody {
+  role: TeamRole;
+}
+
+interface RoleRow extends Role {
+  user_count: string;
+}
+
+interface RoleBody {
+  name?: string;
+  label?: string;
+  description?: string;
+  permissions?: Permission[];
+}
+
+interface CustomFieldBody {
+  entityType?: CustomFieldEntity;
+  key?: string;
+  label?: string;
+  fieldType?: CustomFieldType;
+  options?: string[];
+  isRequired?: boolean;
+}
+
+// Admins can add roles, so role names are checked against the roles table
+const validRole = () =>
+  body("role")
+    .optional()
+    .custom(async (role: string) => {
+      if (!(await roleExists(role))) throw new Error("Unknown role");
+    });
+
+// Select fields need something to pick from, and the same choice only once
+const optionsError = (
+  fieldType: CustomFieldType,
+  options: string[]
+): string | null => {
+  if (!OPTION_FIELD_TYPES.includes(fieldType)) {
+    return null;
+  }
+  if (options.length === 0) {
+    return "Select fields need at least one option";
+  }
+  if (new Set(options).size !== options.length) {
+    return "Options must be unique";
+  }
+  return null;
+};
+
+const TWO_FACTOR_REQUIREMENTS = ["off", "admins", "everyone"];
+
+const TEAM_ROLES: TeamRole[] = ["owner", "manager", "member", "viewer"];
+
+const LOGIN_PROTECTION_SETTINGS = [
+  "lockout_threshold",
+  "lockout_duration_minutes",
+  "ip_failure_limit",
+  "ip_failure_window_minutes",
+];
+
+const SSO_SWITCH_SETTINGS = [
+  "oidc_enabled",
+  "oidc_auto_provision",
+  "password_login_enabled",
+];
+
+// Settings that may be cleared
+const OPTIONAL_SETTINGS = [
+  "oidc_issuer",
+  "oidc_client_id",
+  "oidc_client_secret",
+  "oidc_role_claim",
+  "oidc_admin_values",
+];
+
+// Settings that are never sent back to the browser
+const SECRET_SETTINGS = ["oidc_client_secret"];
+const SECRET_PLACEHOLDER = "********";
+
+const settingValueForDisplay = (key: string, value: string): string =>
+  SECRET_SETTINGS.includes(key) && value ? SECRET_PLACEHOLDER : value;
+
+// When a locked out user can sign in again, null if they aren't locked out
+const lockedUntil = (user: UserRow): Date | null =>
+  user.locked_until && user.locked_until > new Date()
+    ? user.locked_until
+    : null;
+
+const formatInvitation = (invitation: InvitationRow) => ({
+  id: invitation.id,
+  email: invitation.email,
+  role: invitation.role,
+  invitedBy: invitation.inviter_first_name
+    ? `${invitation.inviter_first_name} ${invitation.inviter_last_name}`
+    : null,
+  expiresAt: invitation.expires_at,
+  expired: invitation.expires_at < new Date(),
+  createdAt: invitation.created_at,
+});
+
+const inviterName = (user: User): string =>
+  `${user.first_name} ${user.last_name}`;
+
+const formatTeam = (team: Team, members: TeamMemberRow[] = []) => ({
+  id: team.id,
+  name: team.name,
+  description: team.description,
+  members: members.map((member) => ({
+    userId: member.user_id,
+    email: member.email,
+    firstName: member.first_name,
+    lastName: member.last_name,
+    role: member.role,
+  })),
+  created_at: team.created_at,
+  updated_at: team.updated_at,
+});
+
 // Get all users with pagination and filtering
 router.get(
   "/users",
@@ -64,7 +350,8 @@ router.get(
     query("page").optional().isInt({ min: 1 }).toInt(),
     query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
     query("search").optional().trim(),
-    query("role").optional().isIn(["user", "admin"]),
+    query("role").optional().trim(),
+    query("status").optional().isIn(["active", "deactivated"]),
   ],
   async (
     req: AuthenticatedRequest<{}, {}, {}, AdminQueryParams>,
@@ -85,11 +372,11 @@ router.get(
       const page = Number(req.query.page) || 1;
       const limit = Number(req.query.limit) || 20;
       const offset = (page - 1) * limit;
-      const { search, role } = req.query;
+      const { search, role, status } = req.query;
 
       let countQuery = "SELECT COUNT(*) FROM users WHERE 1=1";
       let dataQuery = `
-        SELECT id, email, first_name, last_name, role, created_at, updated_at
+        SELECT id, email, first_name, last_name, role, totp_enabled, locked_until, deactivated_at, created_at, updated_at
         FROM users 
         WHERE 1=1
       `;
@@ -113,6 +400,15 @@ router.get(
         paramCount++;
       }
 
+      if (status) {
+        const statusCondition =
+          status === "active"
+            ? " AND deactivated_at IS NULL"
+            : " AND deactivated_at IS NOT NULL";
+        countQuery += statusCondition;
+        dataQuery += statusCondition;
+      }
+
       dataQuery += ` ORDER BY created_at DESC LIMIT $${paramCount} OFFSET $${
         paramCount + 1
       }`;
@@ -135,6 +431,9 @@ router.get(
         firstName: user.first_name,
         lastName: user.last_name,
         role: user.role,
+        twoFactorEnabled: user.totp_enabled,
+        lockedUntil: lockedUntil(user),
+        deactivatedAt: user.deactivated_at,
         created_at: user.created_at,
         updated_at: user.updated_at,
       }));
@@ -168,7 +467,7 @@ router.get("/users/:id", async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
 
     const result = await db.query<UserRow>(
-      "SELECT id, email, first_name, last_name, role, created_at, updated_at FROM users WHERE id = $1",
+      "SELECT id, email, first_name, last_name, role, totp_enabled, locked_until, deactivated_at, created_at, updated_at FROM users WHERE id = $1",
       [id]
     );
 
@@ -184,6 +483,9 @@ router.get("/users/:id", async (req: AuthenticatedRequest, res: Response) => {
       firstName: user.first_name,
       lastName: user.last_name,
       role: user.role,
+      twoFactorEnabled: user.totp_enabled,
+      lockedUntil: lockedUntil(user),
+      deactivatedAt: user.deactivated_at,
       created_at: user.created_at,
       updated_at: user.updated_at,
     });
@@ -201,7 +503,7 @@ router.post(
     body("password").isLength({ min: 6 }),
     body("firstName").trim().isLength({ min: 1 }),
     body("lastName").trim().isLength({ min: 1 }),
-    body("role").optional().isIn(["user", "admin"]),
+    validRole(),
   ],
   async (req: AuthenticatedRequest<{}, {}, CreateUserBody>, res: Response) => {
     try {
@@ -216,7 +518,18 @@ router.post(
         return;
       }
 
-      const { email, password, firstName, lastName, role = "user" } = req.body;
+      const {
+        email,
+        password,
+        firstName,
+        lastName,
+        role = DEFAULT_ROLE,
+      } = req.body;
+
+      if (!(await canAssignRole(req.user, role))) {
+        res.status(403).json({ message: "You can't give users this role" });
+        return;
+      }
 
       // Check if user exists
       const existingUser = await db.query<{ id: string }>(
@@ -234,12 +547,21 @@ router.post(
       const hashedPassword = await bcrypt.hash(password, saltRounds);
 
       // Create user
-      const result = await db.query<UserRow>(
-        "INSERT INTO users (email, password, first_name, last_name, role) VALUES ($1, $2, $3, $4, $5) RETURNING id, email, first_name, last_name, role, created_at, updated_at",
-        [email, hashedPassword, firstName, lastName, role]
-      );
+      const user = await db.transaction(async (client) => {
+        const result = await client.query<UserRow>(
+          "INSERT INTO users (email, password, first_name, last_name, role) VALUES ($1, $2, $3, $4, $5) RETURNING id, email, first_name, last_name, role, created_at, updated_at",
+          [email, hashedPassword, firstName, lastName, role]
+        );
+
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "user",
+          entityId: result.rows[0].id,
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
 
-      const user = result.rows[0];
       res.status(201).json({
         id: user.id,
         email: user.email,
@@ -264,7 +586,7 @@ router.put(
     body("password").optional().isLength({ min: 6 }),
     body("firstName").optional().trim().isLength({ min: 1 }),
     body("lastName").optional().trim().isLength({ min: 1 }),
-    body("role").optional().isIn(["user", "admin"]),
+    validRole(),
   ],
   async (
     req: AuthenticatedRequest<{ id: string }, {}, UpdateUserBody>,
@@ -286,8 +608,8 @@ router.put(
       const updates = req.body;
 
       // Check if user exists
-      const existingUser = await db.query<{ id: string }>(
-        "SELECT id FROM users WHERE id = $1",
+      const existingUser = await db.query<UserRow>(
+        "SELECT id, email, first_name, last_name, role FROM users WHERE id = $1",
         [id]
       );
 
@@ -296,14 +618,23 @@ router.put(
         return;
       }
 
-      // Prevent admin from demoting themselves
-      if (req.user.userId === id && updates.role === "user") {
+      // Prevent users from locking themselves out by changing their own role
+      if (
+        String(req.user.userId) === id &&
+        updates.role &&
+        updates.role !== existingUser.rows[0].role
+      ) {
         res.status(400).json({
-          message: "Cannot change your own admin role",
+          message: "Cannot change your own role",
         });
         return;
       }
 
+      if (updates.role && !(await canAssignRole(req.user, updates.role))) {
+        res.status(403).json({ message: "You can't give users this role" });
+        return;
+      }
+
       // Check if email is already taken by another user
       if (updates.email) {
         const emailCheck = await db.query<{ id: string }>(
@@ -322,23 +653,19 @@ router.put(
       const values: any[] = [];
       let paramCount = 1;
 
-      for (const [key, value] of Object.entries(updates)) {
-        if (key === "password") {
-          // Hash password if provided
-          const saltRounds = 12;
-          const hashedPassword = await bcrypt.hash(value as string, saltRounds);
-          fields.push(`password = $${paramCount}`);
-          values.push(hashedPassword);
-        } else {
-          const dbField =
-            key === "firstName"
-              ? "first_name"
-              : key === "lastName"
-              ? "last_name"
-              : key;
-          fields.push(`${dbField} = $${paramCount}`);
-          values.push(value);
-        }
+      for (const [key, column] of Object.entries(USER_UPDATE_COLUMNS)) {
+        const value = updates[key as keyof UpdateUserBody];
+        if (value === undefined) continue;
+        fields.push(`${column} = $${paramCount}`);
+        values.push(value);
+        paramCount++;
+      }
+
+      if (updates.password) {
+        const saltRounds = 12;
+        const hashedPassword = await bcrypt.hash(updates.password, saltRounds);
+        fields.push(`password = $${paramCount}`);
+        values.push(hashedPassword);
         paramCount++;
       }
 
@@ -357,9 +684,28 @@ router.put(
         RETURNING id, email, first_name, last_name, role, created_at, updated_at
       `;
 
-      const result = await db.query<UserRow>(query, values);
+      const user = await db.transaction(async (client) => {
+        const result = await client.query<UserRow>(query, values);
+
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "user",
+          entityId: id,
+          before: existingUser.rows[0],
+          after: result.rows[0],
+          metadata: updates.password ? { passwordChanged: true } : undefined,
+        });
+        return result.rows[0];
+      });
+
+      // Log the user out everywhere when their role or password changes
+      if (
+        (updates.role && updates.role !== existingUser.rows[0].role) ||
+        updates.password
+      ) {
+        await revokeUserSessions(id);
+      }
 
-      const user = result.rows[0];
       res.json({
         id: user.id,
         email: user.email,
@@ -376,11 +722,26 @@ router.put(
   }
 );
 
-// Delete user
+// Delete user. Their records are deleted with them, so this is refused while
+// they still own any unless forced: transfer the records first. A preview
+// only reports what would be deleted.
 router.delete(
   "/users/:id",
-  async (req: AuthenticatedRequest, res: Response) => {
+  [
+    query("preview").optional().isBoolean().toBoolean(),
+    query("force").optional().isBoolean().toBoolean(),
+  ],
+  async (
+    req: AuthenticatedRequest<{ id: string }, {}, {}, DeleteUserQueryParams>,
+    res: Response
+  ) => {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
       if (!req.user) {
         res.status(401).json({ message: "User not authenticated" });
         return;
@@ -389,19 +750,61 @@ router.delete(
       const { id } = req.params;
 
       // Prevent admin from deleting themselves
-      if (req.user.userId === id) {
+      if (String(req.user.userId) === id) {
         res.status(400).json({
           message: "Cannot delete your own account",
         });
         return;
       }
 
-      const result = await db.query<{ id: string }>(
-        "DELETE FROM users WHERE id = $1 RETURNING id",
+      const existingUser = await db.query<{ id: string }>(
+        "SELECT id FROM users WHERE id = $1",
         [id]
       );
 
-      if (result.rows.length === 0) {
+      if (existingUser.rows.length === 0) {
+        res.status(404).json({ message: "User not found" });
+        return;
+      }
+
+      const records = await countUserRecords(id);
+      const requiresTransfer = hasTransferableRecords(records);
+
+      if (req.query.preview) {
+        res.json({ records, requiresTransfer });
+        return;
+      }
+
+      if (requiresTransfer && !req.query.force) {
+        res.status(409).json({
+          message:
+            "This user still owns records. Transfer them to another user first, or delete them along with the user.",
+          records,
+          requiresTransfer,
+        });
+        return;
+      }
+
+      const deleted = await db.transaction(async (client) => {
+        const result = await client.query<UserRow>(
+          "DELETE FROM users WHERE id = $1 RETURNING id, email, first_name, last_name, role",
+          [id]
+        );
+        if (result.rows.length === 0) {
+          return false;
+        }
+
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "user",
+          entityId: id,
+          before: result.rows[0],
+          metadata: requiresTransfer ? { deletedRecords: records } : undefined,
+        });
+        return true;
+      });
+
+      if (!deleted) {
         res.status(404).json({ message: "User not found" });
         return;
       }
@@ -414,40 +817,117 @@ router.delete(
   }
 );
 
-// Get system settings
-router.get("/settings", async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
+// Keep a user from signing in without touching their records. Their
+// sessions end right away and their API keys stop working.
+router.post(
+  "/users/:id/deactivate",
+  async (req: AuthenticatedRequest<{ id: string }>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+
+      if (String(req.user.userId) === id) {
+        res.status(400).json({ message: "Cannot deactivate your own account" });
+        return;
+      }
+
+      const existingUser = await db.query<UserRow>(
+        "SELECT id, email, deactivated_at FROM users WHERE id = $1",
+        [id]
+      );
+
+      if (existingUser.rows.length === 0) {
+        res.status(404).json({ message: "User not found" });
+        return;
+      }
+
+      if (existingUser.rows[0].deactivated_at) {
+        res.status(400).json({ message: "User is already deactivated" });
+        return;
+      }
+
+      await db.transaction(async (client) => {
+        await client.query(
+          "UPDATE users SET deactivated_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+          [id]
+        );
+        await recordAudit(client, req, {
+          action: "deactivate",
+          entityType: "user",
+          entityId: id,
+          label: existingUser.rows[0].email,
+        });
+      });
+
+      await revokeUserSessions(id);
+
+      res.json({ message: "User deactivated" });
+    } catch (error) {
+      console.error("Deactivate user error:", error);
+      res.status(500).json({ message: "Server error deactivating user" });
     }
+  }
+);
 
-    const result = await db.query<SystemSetting>(
-      "SELECT setting_key, setting_value, description FROM system_settings ORDER BY setting_key"
-    );
+// Let a deactivated user sign in again
+router.post(
+  "/users/:id/reactivate",
+  async (req: AuthenticatedRequest<{ id: string }>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
 
-    // Convert to object format for easier frontend consumption
-    const settings: Record<string, { value: string; description: string }> = {};
-    result.rows.forEach((row: any) => {
-      settings[row.setting_key] = {
-        value: row.setting_value,
-        description: row.description || "",
-      };
-    });
+      const { id } = req.params;
 
-    res.json({ settings });
-  } catch (error) {
-    console.error("Get system settings error:", error);
-    res.status(500).json({ message: "Server error fetching system settings" });
+      const reactivated = await db.transaction(async (client) => {
+        const result = await client.query<{ id: string; email: string }>(
+          `UPDATE users SET deactivated_at = NULL, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1 AND deactivated_at IS NOT NULL
+           RETURNING id, email`,
+          [id]
+        );
+        if (result.rows.length === 0) {
+          return false;
+        }
+
+        await recordAudit(client, req, {
+          action: "reactivate",
+          entityType: "user",
+          entityId: id,
+          label: result.rows[0].email,
+        });
+        return true;
+      });
+
+      if (!reactivated) {
+        res.status(404).json({ message: "Deactivated user not found" });
+        return;
+      }
+
+      res.json({ message: "User reactivated" });
+    } catch (error) {
+      console.error("Reactivate user error:", error);
+      res.status(500).json({ message: "Server error reactivating user" });
+    }
   }
-});
+);
 
-// Update system setting
-router.put(
-  "/settings/:key",
-  [body("value").notEmpty().withMessage("Setting value is required")],
+// Give a departing user's records to another user, or to a team. Records
+// given to a team go to its owner and are assigned to the team.
+router.post(
+  "/users/:id/transfer",
+  [
+    body("toUserId").optional().isInt().toInt(),
+    body("teamId").optional().isInt().toInt(),
+  ],
   async (
-    req: AuthenticatedRequest<{ key: string }, {}, UpdateSettingBody>,
+    req: AuthenticatedRequest<{ id: string }, {}, TransferRecordsBody>,
     res: Response
   ) => {
     try {
@@ -462,57 +942,1653 @@ router.put(
         return;
       }
 
-      const { key } = req.params;
-      const { value } = req.body;
+      const { id } = req.params;
+      const { toUserId, teamId } = req.body;
 
-      // Validate specific setting types
-      if (
-        key === "registration_enabled" &&
-        !["true", "false"].includes(value)
-      ) {
+      if (!toUserId && !teamId) {
         res.status(400).json({
-          message: "registration_enabled must be 'true' or 'false'",
+          message: "Choose a user or a team to transfer the records to",
         });
         return;
       }
 
-      if (
-        key === "max_users" &&
-        (isNaN(Number(value)) || parseInt(value) < 0)
-      ) {
-        res.status(400).json({
-          message: "max_users must be a non-negative number",
-        });
+      const existingUser = await db.query<{ id: string; email: string }>(
+        "SELECT id, email FROM users WHERE id = $1",
+        [id]
+      );
+
+      if (existingUser.rows.length === 0) {
+        res.status(404).json({ message: "User not found" });
         return;
       }
 
-      // Update setting
-      const result = await db.query<SystemSetting>(
-        `UPDATE system_settings 
-         SET setting_value = $1, updated_at = CURRENT_TIMESTAMP 
-         WHERE setting_key = $2 
-         RETURNING setting_key, setting_value, description`,
-        [value, key]
+      if (teamId) {
+        const teamCheck = await db.query<{ id: string }>(
+          "SELECT id FROM teams WHERE id = $1",
+          [teamId]
+        );
+
+        if (teamCheck.rows.length === 0) {
+          res.status(400).json({ message: "Team not found" });
+          return;
+        }
+      }
+
+      let newOwnerId = toUserId ? String(toUserId) : null;
+      if (!newOwnerId) {
+        const teamOwner = await db.query<{ user_id: string }>(
+          `SELECT tm.user_id
+           FROM team_members tm
+           JOIN users u ON u.id = tm.user_id
+           WHERE tm.team_id = $1 AND tm.role = 'owner' AND tm.user_id <> $2
+             AND u.deactivated_at IS NULL
+           ORDER BY tm.created_at
+           LIMIT 1`,
+          [teamId, id]
+        );
+
+        if (teamOwner.rows.length === 0) {
+          res.status(400).json({
+            message:
+              "This team has no other owner to take the records over. Choose a user as well.",
+          });
+          return;
+        }
+        newOwnerId = String(teamOwner.rows[0].user_id);
+      }
+
+      if (newOwnerId === id) {
+        res
+          .status(400)
+          .json({ message: "Cannot transfer records to the same user" });
+        return;
+      }
+
+      const newOwner = await db.query<UserRow>(
+        "SELECT id, email, deactivated_at FROM users WHERE id = $1",
+        [newOwnerId]
       );
 
-      if (result.rows.length === 0) {
-        res.status(404).json({ message: "Setting not found" });
+      if (newOwner.rows.length === 0 || newOwner.rows[0].deactivated_at) {
+        res
+          .status(400)
+          .json({ message: "User to transfer to not found or deactivated" });
         return;
       }
 
-      const setting = result.rows[0] as any;
+      const ownerId = newOwnerId;
+      const transferred = await db.transaction(async (client) => {
+        const counts = await transferUserRecords(
+          client,
+          id,
+          ownerId,
+          teamId ? String(teamId) : null
+        );
+
+        await recordAudit(client, req, {
+          action: "transfer",
+          entityType: "user",
+          entityId: id,
+          label: existingUser.rows[0].email,
+          metadata: {
+            toUserId: ownerId,
+            toEmail: newOwner.rows[0].email,
+            teamId: teamId ?? null,
+            transferred: counts,
+          },
+        });
+        return counts;
+      });
+
       res.json({
-        setting_key: setting.setting_key,
-        setting_value: setting.setting_value,
-        description: setting.description,
+        message: "Records transferred",
+        toUserId: ownerId,
+        transferred,
       });
     } catch (error) {
-      console.error("Update system setting error:", error);
+      console.error("Transfer user records error:", error);
+      res.status(500).json({ message: "Server error transferring records" });
+    }
+  }
+);
+
+// Reset a user's two-factor authentication, e.g. after they lost their phone
+router.delete(
+  "/users/:id/two-factor",
+  async (req: AuthenticatedRequest<{ id: string }>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const existingUser = await db.query<{ id: string; email: string }>(
+        "SELECT id, email FROM users WHERE id = $1",
+        [id]
+      );
+
+      if (existingUser.rows.length === 0) {
+        res.status(404).json({ message: "User not found" });
+        return;
+      }
+
+      await disableTwoFactor(id);
+      await recordAudit(db, req, {
+        action: "reset_two_factor",
+        entityType: "user",
+        entityId: id,
+        label: existingUser.rows[0].email,
+      });
+
+      res.json({ message: "Two-factor authentication reset" });
+    } catch (error) {
+      console.error("Reset two-factor error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error resetting two-factor authentication" });
+    }
+  }
+);
+
+// Let a locked out user sign in again
+router.post(
+  "/users/:id/unlock",
+  async (req: AuthenticatedRequest<{ id: string }>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const unlocked = await unlockUser(req.params.id);
+      if (!unlocked) {
+        res.status(404).json({ message: "User not found" });
+        return;
+      }
+
+      await recordAudit(db, req, {
+        action: "unlock",
+        entityType: "user",
+        entityId: req.params.id,
+      });
+
+      res.json({ message: "User unlocked" });
+    } catch (error) {
+      console.error("Unlock user error:", error);
+      res.status(500).json({ message: "Server error unlocking user" });
+    }
+  }
+);
+
+// Get recorded login attempts, newest first
+router.get(
+  "/login-attempts",
+  [
+    query("page").optional().isInt({ min: 1 }).toInt(),
+    query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
+    query("search").optional().trim(),
+    query("success").optional().isBoolean().toBoolean(),
+  ],
+  async (
+    req: AuthenticatedRequest<{}, {}, {}, LoginAttemptQueryParams>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 50;
+      const offset = (page - 1) * limit;
+      const { search, success } = req.query;
+
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (search) {
+        params.push(`%${search}%`);
+        conditions.push(
+          `(email ILIKE $${params.length} OR ip_address ILIKE $${params.length})`
+        );
+      }
+
+      if (success !== undefined) {
+        params.push(success);
+        conditions.push(`success = $${params.length}`);
+      }
+
+      const where = conditions.length
+        ? `WHERE ${conditions.join(" AND ")}`
+        : "";
+
+      const [countResult, dataResult] = await Promise.all([
+        db.query<CountRow>(
+          `SELECT COUNT(*) FROM login_attempts ${where}`,
+          params
+        ),
+        db.query<LoginAttemptRow>(
+          `SELECT id, email, user_id, ip_address, user_agent, success, reason, created_at
+           FROM login_attempts ${where}
+           ORDER BY created_at DESC, id DESC
+           LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+          [...params, limit, offset]
+        ),
+      ]);
+
+      const total = parseInt(countResult.rows[0].count, 10);
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        attempts: dataResult.rows.map((attempt) => ({
+          id: attempt.id,
+          email: attempt.email,
+          userId: attempt.user_id,
+          ipAddress: attempt.ip_address,
+          userAgent: attempt.user_agent,
+          success: attempt.success,
+          reason: attempt.reason,
+          createdAt: attempt.created_at,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+    } catch (error) {
+      console.error("Get login attempts error:", error);
+      res.status(500).json({ message: "Server error fetching login attempts" });
+    }
+  }
+);
+
+// Get the audit log, newest first
+router.get(
+  "/audit",
+  [
+    query("page").optional().isInt({ min: 1 }).toInt(),
+    query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
+    query("search").optional().trim(),
+    query("actorId").optional().isInt().toInt(),
+    query("action").optional().trim(),
+    query("entityType").optional().trim(),
+    query("entityId").optional().trim(),
+    query("from").optional().isISO8601().toDate(),
+    query("to").optional().isISO8601().toDate(),
+  ],
+  async (
+    req: AuthenticatedRequest<{}, {}, {}, AuditLogQueryParams>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 50;
+      const offset = (page - 1) * limit;
+      const { search, actorId, action, entityType, entityId, from, to } =
+        req.query;
+
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (search) {
+        params.push(`%${search}%`);
+        conditions.push(
+          `(a.actor_email ILIKE $${params.length} OR a.entity_label ILIKE $${params.length} OR a.ip_address ILIKE $${params.length})`
+        );
+      }
+
+      if (actorId) {
+        params.push(actorId);
+        conditions.push(`a.actor_id = $${params.length}`);
+      }
+
+      if (action) {
+        params.push(action);
+        conditions.push(`a.action = $${params.length}`);
+      }
+
+      // A record's entries include those of its shares and members
+      if (entityType && entityId) {
+        params.push(entityType, entityId);
+        conditions.push(
+          `((a.entity_type = $${params.length - 1} AND a.entity_id = $${params.length})
+            OR (a.parent_type = $${params.length - 1} AND a.parent_id = $${params.length}))`
+        );
+      } else if (entityType) {
+        params.push(entityType);
+        conditions.push(`a.entity_type = $${params.length}`);
+      }
+
+      if (from) {
+        params.push(from);
+        conditions.push(`a.created_at >= $${params.length}`);
+      }
+
+      if (to) {
+        params.push(to);
+        conditions.push(`a.created_at <= $${params.length}`);
+      }
+
+      const where = conditions.length
+        ? `WHERE ${conditions.join(" AND ")}`
+        : "";
+
+      const [countResult, dataResult] = await Promise.all([
+        db.query<CountRow>(`SELECT COUNT(*) FROM audit_log a ${where}`, params),
+        db.query<AuditLogRow>(
+          `SELECT a.*, u.first_name as actor_first_name, u.last_name as actor_last_name
+           FROM audit_log a
+           LEFT JOIN users u ON a.actor_id = u.id
+           ${where}
+           ORDER BY a.created_at DESC, a.id DESC
+           LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+          [...params, limit, offset]
+        ),
+      ]);
+
+      const total = parseInt(countResult.rows[0].count, 10);
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        entries: dataResult.rows.map(formatAuditEntry),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+    } catch (error) {
+      console.error("Get audit log error:", error);
+      res.status(500).json({ message: "Server error fetching audit log" });
+    }
+  }
+);
+
+// Get open invitations, including expired ones that can still be resent
+router.get("/invitations", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return;
+    }
+
+    const result = await db.query<InvitationRow>(
+      `SELECT i.*, u.first_name as inviter_first_name, u.last_name as inviter_last_name
+         FROM invitations i
+         LEFT JOIN users u ON i.invited_by = u.id
+         WHERE i.accepted_at IS NULL AND i.revoked_at IS NULL
+         ORDER BY i.created_at DESC`
+    );
+
+    res.json({ invitations: result.rows.map(formatInvitation) });
+  } catch (error) {
+    console.error("Get invitations error:", error);
+    res.status(500).json({ message: "Server error fetching invitations" });
+  }
+});
+
+// Invite someone to create an account with a preset role
+router.post(
+  "/invitations",
+  [body("email").isEmail().normalizeEmail(), validRole()],
+  async (
+    req: AuthenticatedRequest<{}, {}, CreateInvitationBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { email, role = DEFAULT_ROLE } = req.body;
+
+      if (!(await canAssignRole(req.user, role))) {
+        res
+          .status(403)
+          .json({ message: "You can't invite users with this role" });
+        return;
+      }
+
+      const existingUser = await db.query<{ id: string }>(
+        "SELECT id FROM users WHERE email = $1",
+        [email]
+      );
+      if (existingUser.rows.length > 0) {
+        res.status(400).json({ message: "User already exists" });
+        return;
+      }
+
+      const openInvitation = await db.query<{ id: string }>(
+        "SELECT id FROM invitations WHERE email = $1 AND accepted_at IS NULL AND revoked_at IS NULL",
+        [email]
+      );
+      if (openInvitation.rows.length > 0) {
+        res.status(400).json({
+          message: "This email already has an invitation. Resend it instead.",
+        });
+        return;
+      }
+
+      if (await isUserLimitReached()) {
+        res.status(403).json({
+          message:
+            "Maximum number of users reached. Remove a user or revoke an invitation first.",
+        });
+        return;
+      }
+
+      const { invitation, token } = await createInvitation(
+        email,
+        role,
+        req.user.userId
+      );
+      await recordAudit(db, req, {
+        action: "create",
+        entityType: "invitation",
+        entityId: invitation.id,
+        after: invitation,
+      });
+
+      // The invitation exists either way and can be resent from the list
+      let emailSent = true;
+      try {
+        await sendInvitationEmail(invitation, token, inviterName(req.user));
+      } catch (error) {
+        console.error("Send invitation email error:", error);
+        emailSent = false;
+      }
+
+      res.status(201).json({
+        ...formatInvitation({
+          ...invitation,
+          inviter_first_name: req.user.first_name,
+          inviter_last_name: req.user.last_name,
+        }),
+        emailSent,
+      });
+    } catch (error) {
+      console.error("Create invitation error:", error);
+      res.status(500).json({ message: "Server error creating invitation" });
+    }
+  }
+);
+
+// Send an invitation again with a new link and expiry
+router.post(
+  "/invitations/:id/resend",
+  async (req: AuthenticatedRequest<{ id: string }>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const existing = await db.query<Invitation>(
+        "SELECT * FROM invitations WHERE id = $1 AND accepted_at IS NULL AND revoked_at IS NULL",
+        [req.params.id]
+      );
+      if (existing.rows.length === 0) {
+        res.status(404).json({ message: "Invitation not found" });
+        return;
+      }
+
+      // An expired invitation no longer holds a seat, so renewing it takes one
+      if (
+        existing.rows[0].expires_at < new Date() &&
+        (await isUserLimitReached())
+      ) {
+        res.status(403).json({
+          message:
+            "Maximum number of users reached. Remove a user or revoke an invitation first.",
+        });
+        return;
+      }
+
+      const renewed = await renewInvitation(req.params.id);
+      if (!renewed) {
+        res.status(404).json({ message: "Invitation not found" });
+        return;
+      }
+
+      await recordAudit(db, req, {
+        action: "resend",
+        entityType: "invitation",
+        entityId: req.params.id,
+        before: existing.rows[0],
+        after: renewed.invitation,
+      });
+
+      await sendInvitationEmail(
+        renewed.invitation,
+        renewed.token,
+        inviterName(req.user)
+      );
+
+      res.json({ message: "Invitation sent" });
+    } catch (error) {
+      console.error("Resend invitation error:", error);
+      res.status(500).json({ message: "Server error resending invitation" });
+    }
+  }
+);
+
+// Revoke an invitation so its link stops working
+router.delete(
+  "/invitations/:id",
+  async (req: AuthenticatedRequest<{ id: string }>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const result = await db.query<Invitation>(
+        `UPDATE invitations SET revoked_at = NOW(), updated_at = NOW()
+         WHERE id = $1 AND accepted_at IS NULL AND revoked_at IS NULL
+         RETURNING *`,
+        [req.params.id]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ message: "Invitation not found" });
+        return;
+      }
+
+      await recordAudit(db, req, {
+        action: "revoke",
+        entityType: "invitation",
+        entityId: req.params.id,
+        label: result.rows[0].email,
+      });
+
+      res.json({ message: "Invitation revoked" });
+    } catch (error) {
+      console.error("Revoke invitation error:", error);
+      res.status(500).json({ message: "Server error revoking invitation" });
+    }
+  }
+);
+
+// Get every active or expired API key in the system, with its owner
+router.get("/api-keys", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return;
+    }
+
+    const result = await db.query<ApiKeyRow>(
+      `SELECT k.id, k.user_id, k.name, k.key_prefix, k.scopes, k.expires_at,
+              k.last_used_at, k.revoked_at, k.created_at,
+              u.email as owner_email, u.first_name as owner_first_name,
+              u.last_name as owner_last_name
+       FROM api_keys k
+       JOIN users u ON k.user_id = u.id
+       WHERE k.revoked_at IS NULL
+       ORDER BY k.created_at DESC`
+    );
+
+    res.json({
+      apiKeys: result.rows.map((apiKey) => ({
+        ...formatApiKey(apiKey),
+        owner: {
+          id: apiKey.user_id,
+          email: apiKey.owner_email,
+          firstName: apiKey.owner_first_name,
+          lastName: apiKey.owner_last_name,
+        },
+      })),
+    });
+  } catch (error) {
+    console.error("Get API keys error:", error);
+    res.status(500).json({ message: "Server error fetching API keys" });
+  }
+});
+
+// Revoke any user's API key
+router.delete(
+  "/api-keys/:id",
+  async (req: AuthenticatedRequest<{ id: string }>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const result = await db.query<ApiKey>(
+        `UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL
+         RETURNING id, user_id, name, key_prefix`,
+        [req.params.id]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ message: "API key not found" });
+        return;
+      }
+
+      const apiKey = result.rows[0];
+      await recordAudit(db, req, {
+        action: "revoke",
+        entityType: "api_key",
+        entityId: apiKey.id,
+        label: apiKey.name,
+        metadata: { ownerId: apiKey.user_id, keyPrefix: apiKey.key_prefix },
+      });
+
+      res.json({ message: "API key revoked" });
+    } catch (error) {
+      console.error("Revoke API key error:", error);
+      res.status(500).json({ message: "Server error revoking API key" });
+    }
+  }
+);
+
+// Get system settings
+router.get("/settings", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return;
+    }
+
+    const result = await db.query<SystemSetting>(
+      "SELECT setting_key, setting_value, description FROM system_settings ORDER BY setting_key"
+    );
+
+    // Convert to object format for easier frontend consumption
+    const settings: Record<string, { value: string; description: string }> = {};
+    result.rows.forEach((row: any) => {
+      settings[row.setting_key] = {
+        value: settingValueForDisplay(row.setting_key, row.setting_value),
+        description: row.description || "",
+      };
+    });
+
+    res.json({ settings });
+  } catch (error) {
+    console.error("Get system settings error:", error);
+    res.status(500).json({ message: "Server error fetching system settings" });
+  }
+});
+
+// Update system setting
+router.put(
+  "/settings/:key",
+  [body("value").isString().withMessage("Setting value is required")],
+  async (
+    req: AuthenticatedRequest<{ key: string }, {}, UpdateSettingBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { key } = req.params;
+      const value = req.body.value.trim();
+
+      if (!value && !OPTIONAL_SETTINGS.includes(key)) {
+        res.status(400).json({ message: "Setting value is required" });
+        return;
+      }
+
+      // Validate specific setting types
+      if (
+        key === "registration_enabled" &&
+        !["true", "false"].includes(value)
+      ) {
+        res.status(400).json({
+          message: "registration_enabled must be 'true' or 'false'",
+        });
+        return;
+      }
+
+      if (
+        key === "email_verification_required" &&
+        !["true", "false"].includes(value)
+      ) {
+        res.status(400).json({
+          message: "email_verification_required must be 'true' or 'false'",
+        });
+        return;
+      }
+
+      if (
+        key === "two_factor_required" &&
+        !TWO_FACTOR_REQUIREMENTS.includes(value)
+      ) {
+        res.status(400).json({
+          message: "two_factor_required must be 'off', 'admins' or 'everyone'",
+        });
+        return;
+      }
+
+      if (
+        key === "max_users" &&
+        (isNaN(Number(value)) || parseInt(value) < 0)
+      ) {
+        res.status(400).json({
+          message: "max_users must be a non-negative number",
+        });
+        return;
+      }
+
+      if (LOGIN_PROTECTION_SETTINGS.includes(key) && !/^\d+$/.test(value)) {
+        res.status(400).json({
+          message: `${key} must be a non-negative whole number`,
+        });
+        return;
+      }
+
+      if (
+        SSO_SWITCH_SETTINGS.includes(key) &&
+        !["true", "false"].includes(value)
+      ) {
+        res.status(400).json({
+          message: `${key} must be 'true' or 'false'`,
+        });
+        return;
+      }
+
+      if (
+        key === "default_phone_country_code" &&
+        !/^[1-9]\d{0,2}$/.test(value)
+      ) {
+        res.status(400).json({
+          message:
+            "default_phone_country_code must be a calling code of 1 to 3 digits, without the +",
+        });
+        return;
+      }
+
+      if (key === "oidc_issuer" && value && !/^https?:\/\/\S+$/.test(value)) {
+        res.status(400).json({
+          message: "oidc_issuer must be an http(s) URL",
+        });
+        return;
+      }
+
+      if (key === "oidc_enabled" && value === "true") {
+        const oidc = await getOidcSettings();
+        if (!oidc.issuer || !oidc.clientId) {
+          res.status(400).json({
+            message:
+              "Set the issuer and client ID before enabling single sign-on",
+          });
+          return;
+        }
+      }
+
+      // The placeholder comes back when a secret wasn't changed
+      const keepValue =
+        SECRET_SETTINGS.includes(key) && value === SECRET_PLACEHOLDER;
+
+      // Update setting
+      const setting = await db.transaction(async (client) => {
+        const previous = await client.query<SystemSetting>(
+          "SELECT setting_key, setting_value, description FROM system_settings WHERE setting_key = $1 FOR UPDATE",
+          [key]
+        );
+        const result = await client.query<SystemSetting>(
+          `UPDATE system_settings 
+           SET setting_value = CASE WHEN $3 THEN setting_value ELSE $1 END, updated_at = CURRENT_TIMESTAMP 
+           WHERE setting_key = $2 
+           RETURNING setting_key, setting_value, description`,
+          [value, key, keepValue]
+        );
+        if (result.rows.length === 0) {
+          return undefined;
+        }
+
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "setting",
+          entityId: key,
+          before: previous.rows[0],
+          after: result.rows[0],
+          redact: SECRET_SETTINGS.includes(key) ? ["setting_value"] : [],
+        });
+        return result.rows[0];
+      });
+
+      if (!setting) {
+        res.status(404).json({ message: "Setting not found" });
+        return;
+      }
+
+      res.json({
+        setting_key: setting.setting_key,
+        setting_value: settingValueForDisplay(key, setting.setting_value),
+        description: setting.description,
+      });
+    } catch (error) {
+      console.error("Update system setting error:", error);
       res.status(500).json({ message: "Server error updating system setting" });
     }
   }
 );
 
+// Get all teams with their members
+router.get("/teams", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return;
+    }
+
+    const [teamsResult, membersResult] = await Promise.all([
+      db.query<Team>("SELECT * FROM teams ORDER BY name"),
+      db.query<TeamMemberRow>(
+        `SELECT tm.team_id, tm.user_id, tm.role, u.email, u.first_name, u.last_name
+         FROM team_members tm
+         JOIN users u ON tm.user_id = u.id
+         ORDER BY u.first_name, u.last_name`
+      ),
+    ]);
+
+    const teams = teamsResult.rows.map((team) =>
+      formatTeam(
+        team,
+        membersResult.rows.filter((member) => member.team_id === team.id)
+      )
+    );
+
+    res.json({ teams });
+  } catch (error) {
+    console.error("Get teams error:", error);
+    res.status(500).json({ message: "Server error fetching teams" });
+  }
+});
+
+// Create team
+router.post(
+  "/teams",
+  [
+    body("name").trim().notEmpty().withMessage("Team name is required"),
+    body("description").optional().trim(),
+  ],
+  async (req: AuthenticatedRequest<{}, {}, TeamBody>, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { name, description } = req.body;
+
+      const existingTeam = await db.query<{ id: string }>(
+        "SELECT id FROM teams WHERE LOWER(name) = LOWER($1)",
+        [name]
+      );
+      if (existingTeam.rows.length > 0) {
+        res
+          .status(400)
+          .json({ message: "A team with this name already exists" });
+        return;
+      }
+
+      const team = await db.transaction(async (client) => {
+        const result = await client.query<Team>(
+          "INSERT INTO teams (name, description) VALUES ($1, $2) RETURNING *",
+          [name, description || null]
+        );
+
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "team",
+          entityId: result.rows[0].id,
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
+
+      res.status(201).json(formatTeam(team));
+    } catch (error) {
+      console.error("Create team error:", error);
+      res.status(500).json({ message: "Server error creating team" });
+    }
+  }
+);
+
+// Update team
+router.put(
+  "/teams/:id",
+  [
+    body("name").optional().trim().notEmpty(),
+    body("description").optional().trim(),
+  ],
+  async (
+    req: AuthenticatedRequest<{ id: string }, {}, TeamBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+      const { name, description } = req.body;
+
+      if (name) {
+        const existingTeam = await db.query<{ id: string }>(
+          "SELECT id FROM teams WHERE LOWER(name) = LOWER($1) AND id != $2",
+          [name, id]
+        );
+        if (existingTeam.rows.length > 0) {
+          res
+            .status(400)
+            .json({ message: "A team with this name already exists" });
+          return;
+        }
+      }
+
+      const team = await db.transaction(async (client) => {
+        const previous = await client.query<Team>(
+          "SELECT * FROM teams WHERE id = $1 FOR UPDATE",
+          [id]
+        );
+        const result = await client.query<Team>(
+          `UPDATE teams
+           SET name = COALESCE($1, name),
+             description = COALESCE($2, description),
+             updated_at = CURRENT_TIMESTAMP
+           WHERE id = $3
+           RETURNING *`,
+          [name ?? null, description ?? null, id]
+        );
+        if (result.rows.length === 0) {
+          return undefined;
+        }
+
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "team",
+          entityId: id,
+          before: previous.rows[0],
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
+
+      if (!team) {
+        res.status(404).json({ message: "Team not found" });
+        return;
+      }
+
+      res.json(formatTeam(team));
+    } catch (error) {
+      console.error("Update team error:", error);
+      res.status(500).json({ message: "Server error updating team" });
+    }
+  }
+);
+
+// Delete team; its records go back to being visible to their owners only
+router.delete(
+  "/teams/:id",
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const deleted = await db.transaction(async (client) => {
+        const result = await client.query<Team>(
+          "DELETE FROM teams WHERE id = $1 RETURNING *",
+          [req.params.id]
+        );
+        if (result.rows.length === 0) {
+          return false;
+        }
+
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "team",
+          entityId: req.params.id,
+          before: result.rows[0],
+        });
+        return true;
+      });
+
+      if (!deleted) {
+        res.status(404).json({ message: "Team not found" });
+        return;
+      }
+
+      res.json({ message: "Team deleted successfully" });
+    } catch (error) {
+      console.error("Delete team error:", error);
+      res.status(500).json({ message: "Server error deleting team" });
+    }
+  }
+);
+
+// Add a user to a team or change their role
+router.put(
+  "/teams/:id/members/:userId",
+  [body("role").isIn(TEAM_ROLES).withMessage("Invalid team role")],
+  async (
+    req: AuthenticatedRequest<
+      { id: string; userId: string },
+      {},
+      TeamMemberBody
+    >,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id, userId } = req.params;
+
+      const [teamCheck, userCheck] = await Promise.all([
+        db.query<{ id: string }>("SELECT id FROM teams WHERE id = $1", [id]),
+        db.query<{ id: string; email: string }>(
+          "SELECT id, email FROM users WHERE id = $1",
+          [userId]
+        ),
+      ]);
+
+      if (teamCheck.rows.length === 0) {
+        res.status(404).json({ message: "Team not found" });
+        return;
+      }
+
+      if (userCheck.rows.length === 0) {
+        res.status(404).json({ message: "User not found" });
+        return;
+      }
+
+      await db.transaction(async (client) => {
+        const previous = await client.query<TeamMemberRow>(
+          "SELECT * FROM team_members WHERE team_id = $1 AND user_id = $2 FOR UPDATE",
+          [id, userId]
+        );
+        const result = await client.query<TeamMemberRow & { id: string }>(
+          `INSERT INTO team_members (team_id, user_id, role)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (team_id, user_id) DO UPDATE SET role = EXCLUDED.role
+           RETURNING *`,
+          [id, userId, req.body.role]
+        );
+
+        await recordAudit(client, req, {
+          action: previous.rows[0] ? "update" : "create",
+          entityType: "team_member",
+          entityId: result.rows[0].id,
+          label: userCheck.rows[0].email,
+          parent: { type: "team", id },
+          before: previous.rows[0],
+          after: result.rows[0],
+        });
+      });
+
+      res.json({ message: "Team member saved successfully" });
+    } catch (error) {
+      console.error("Save team member error:", error);
+      res.status(500).json({ message: "Server error saving team member" });
+    }
+  }
+);
+
+// Remove a user from a team
+router.delete(
+  "/teams/:id/members/:userId",
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const removed = await db.transaction(async (client) => {
+        const result = await client.query<TeamMemberRow & { id: string }>(
+          `DELETE FROM team_members tm
+           USING users u
+           WHERE tm.team_id = $1 AND tm.user_id = $2 AND u.id = tm.user_id
+           RETURNING tm.*, u.email`,
+          [req.params.id, req.params.userId]
+        );
+        if (result.rows.length === 0) {
+          return false;
+        }
+
+        const { email, ...member } = result.rows[0];
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "team_member",
+          entityId: member.id,
+          label: email,
+          parent: { type: "team", id: req.params.id },
+          before: member,
+        });
+        return true;
+      });
+
+      if (!removed) {
+        res.status(404).json({ message: "Team member not found" });
+        return;
+      }
+
+      res.json({ message: "Team member removed successfully" });
+    } catch (error) {
+      console.error("Remove team member error:", error);
+      res.status(500).json({ message: "Server error removing team member" });
+    }
+  }
+);
+
+// Get all roles with how many users have each
+router.get("/roles", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return;
+    }
+
+    const result = await db.query<RoleRow>(
+      `SELECT r.*, COUNT(u.id) AS user_count
+       FROM roles r
+       LEFT JOIN users u ON u.role = r.name
+       GROUP BY r.name
+       ORDER BY r.is_system DESC, r.label`
+    );
+
+    res.json({
+      roles: result.rows.map(formatRole),
+      permissions: PERMISSIONS,
+    });
+  } catch (error) {
+    console.error("Get roles error:", error);
+    res.status(500).json({ message: "Server error fetching roles" });
+  }
+});
+
+// Create role
+router.post(
+  "/roles",
+  requireAdminRole,
+  [
+    body("name")
+      .trim()
+      .matches(/^[a-z][a-z0-9_]{0,19}$/)
+      .withMessage(
+        "Name must start with a letter and use up to 20 lowercase letters, digits or underscores"
+      ),
+    body("label")
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage("Role label is required"),
+    body("description").optional().trim(),
+    body("permissions").isArray(),
+    body("permissions.*").isIn(PERMISSIONS).withMessage("Unknown permission"),
+  ],
+  async (req: AuthenticatedRequest<{}, {}, RoleBody>, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { name, label, description, permissions = [] } = req.body;
+
+      if (await roleExists(name as string)) {
+        res
+          .status(400)
+          .json({ message: "A role with this name already exists" });
+        return;
+      }
+
+      const role = await db.transaction(async (client) => {
+        const result = await client.query<Role>(
+          `INSERT INTO roles (name, label, description, permissions)
+           VALUES ($1, $2, $3, $4)
+           RETURNING *`,
+          [name, label, description || null, permissions]
+        );
+
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "role",
+          entityId: result.rows[0].name,
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
+
+      res.status(201).json(formatRole(role));
+    } catch (error) {
+      console.error("Create role error:", error);
+      res.status(500).json({ message: "Server error creating role" });
+    }
+  }
+);
+
+// Update a role's label, description or permissions; its name stays
+router.put(
+  "/roles/:name",
+  requireAdminRole,
+  [
+    body("label").optional().trim().isLength({ min: 1, max: 100 }),
+    body("description").optional().trim(),
+    body("permissions").optional().isArray(),
+    body("permissions.*").isIn(PERMISSIONS).withMessage("Unknown permission"),
+  ],
+  async (
+    req: AuthenticatedRequest<{ name: string }, {}, RoleBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { name } = req.params;
+      const { label, description, permissions } = req.body;
+
+      if (name === ADMIN_ROLE && permissions) {
+        res
+          .status(400)
+          .json({ message: "The admin role's permissions can't be changed" });
+        return;
+      }
+
+      const role = await db.transaction(async (client) => {
+        const previous = await client.query<Role>(
+          "SELECT * FROM roles WHERE name = $1 FOR UPDATE",
+          [name]
+        );
+        const result = await client.query<Role>(
+          `UPDATE roles
+           SET label = COALESCE($1, label),
+             description = COALESCE($2, description),
+             permissions = COALESCE($3, permissions),
+             updated_at = CURRENT_TIMESTAMP
+           WHERE name = $4
+           RETURNING *`,
+          [label ?? null, description ?? null, permissions ?? null, name]
+        );
+        if (result.rows.length === 0) {
+          return undefined;
+        }
+
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "role",
+          entityId: name,
+          before: previous.rows[0],
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
+
+      if (!role) {
+        res.status(404).json({ message: "Role not found" });
+        return;
+      }
+
+      res.json(formatRole(role));
+    } catch (error) {
+      console.error("Update role error:", error);
+      res.status(500).json({ message: "Server error updating role" });
+    }
+  }
+);
+
+// Delete a role nobody has or is invited with any more
+router.delete(
+  "/roles/:name",
+  requireAdminRole,
+  async (req: AuthenticatedRequest<{ name: string }>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { name } = req.params;
+
+      const existing = await db.query<RoleRow>(
+        `SELECT r.*,
+           (SELECT COUNT(*) FROM users WHERE role = r.name) AS user_count
+         FROM roles r
+         WHERE r.name = $1`,
+        [name]
+      );
+      if (existing.rows.length === 0) {
+        res.status(404).json({ message: "Role not found" });
+        return;
+      }
+
+      const role = existing.rows[0];
+      if (role.is_system) {
+        res.status(400).json({ message: "Built-in roles can't be deleted" });
+        return;
+      }
+      if (parseInt(role.user_count, 10) > 0) {
+        res.status(409).json({
+          message: "Move this role's users to another role before deleting it",
+        });
+        return;
+      }
+
+      const openInvitations = await db.query<CountRow>(
+        `SELECT COUNT(*) as count FROM invitations
+         WHERE role = $1 AND accepted_at IS NULL AND revoked_at IS NULL
+           AND expires_at > CURRENT_TIMESTAMP`,
+        [name]
+      );
+      if (parseInt(openInvitations.rows[0].count, 10) > 0) {
+        res.status(409).json({
+          message:
+            "Revoke the open invitations with this role before deleting it",
+        });
+        return;
+      }
+
+      await db.transaction(async (client) => {
+        await client.query("DELETE FROM roles WHERE name = $1", [name]);
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "role",
+          entityId: name,
+          before: role,
+        });
+      });
+
+      res.json({ message: "Role deleted successfully" });
+    } catch (error) {
+      console.error("Delete role error:", error);
+      res.status(500).json({ message: "Server error deleting role" });
+    }
+  }
+);
+
+// Create a custom field, added after the entity's other fields
+router.post(
+  "/custom-fields",
+  [
+    body("entityType").isIn(CUSTOM_FIELD_ENTITIES),
+    body("key")
+      .trim()
+      .matches(CUSTOM_FIELD_KEY_PATTERN)
+      .withMessage(
+        "Key must start with a letter and use up to 50 lowercase letters, digits or underscores"
+      ),
+    body("label")
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage("Field label is required"),
+    body("fieldType").isIn(CUSTOM_FIELD_TYPES),
+    body("options").optional().isArray(),
+    body("options.*").isString().trim().isLength({ min: 1, max: 100 }),
+    body("isRequired").optional().isBoolean(),
+  ],
+  async (req: AuthenticatedRequest<{}, {}, CustomFieldBody>, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { entityType, key, label, isRequired } = req.body;
+      const fieldType = req.body.fieldType as CustomFieldType;
+      const options = OPTION_FIELD_TYPES.includes(fieldType)
+        ? req.body.options || []
+        : [];
+
+      const error = optionsError(fieldType, options);
+      if (error) {
+        res.status(400).json({ message: error });
+        return;
+      }
+
+      const existing = await db.query(
+        "SELECT 1 FROM custom_fields WHERE entity_type = $1 AND key = $2",
+        [entityType, key]
+      );
+      if (existing.rows.length > 0) {
+        res
+          .status(400)
+          .json({ message: "A field with this key already exists" });
+        return;
+      }
+
+      const field = await db.transaction(async (client) => {
+        const result = await client.query<CustomField>(
+          `INSERT INTO custom_fields
+             (entity_type, key, label, field_type, options, is_required, position)
+           VALUES ($1, $2, $3, $4, $5, $6,
+             (SELECT COALESCE(MAX(position), -1) + 1 FROM custom_fields
+              WHERE entity_type = $1::varchar))
+           RETURNING *`,
+          [entityType, key, label, fieldType, options, isRequired ?? false]
+        );
+
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "custom_field",
+          entityId: result.rows[0].id,
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
+
+      res.status(201).json(formatCustomField(field));
+    } catch (error) {
+      console.error("Create custom field error:", error);
+      res.status(500).json({ message: "Server error creating custom field" });
+    }
+  }
+);
+
+// Update a custom field's label, options or whether it's required; its key
+// and type stay so stored values keep their meaning
+router.put(
+  "/custom-fields/:id",
+  [
+    body("label").optional().trim().isLength({ min: 1, max: 100 }),
+    body("options").optional().isArray(),
+    body("options.*").isString().trim().isLength({ min: 1, max: 100 }),
+    body("isRequired").optional().isBoolean(),
+  ],
+  async (
+    req: AuthenticatedRequest<{ id: string }, {}, CustomFieldBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+      const { label, options, isRequired } = req.body;
+
+      const existing = await db.query<CustomField>(
+        "SELECT * FROM custom_fields WHERE id = $1",
+        [id]
+      );
+      if (existing.rows.length === 0) {
+        res.status(404).json({ message: "Custom field not found" });
+        return;
+      }
+
+      const previous = existing.rows[0];
+      const hasOptions = OPTION_FIELD_TYPES.includes(previous.field_type);
+      const error = options && optionsError(previous.field_type, options);
+      if (error) {
+        res.status(400).json({ message: error });
+        return;
+      }
+
+      const field = await db.transaction(async (client) => {
+        const result = await client.query<CustomField>(
+          `UPDATE custom_fields
+           SET label = COALESCE($1, label),
+             options = COALESCE($2, options),
+             is_required = COALESCE($3, is_required),
+             updated_at = CURRENT_TIMESTAMP
+           WHERE id = $4
+           RETURNING *`,
+          [
+            label ?? null,
+            hasOptions ? (options ?? null) : null,
+            isRequired ?? null,
+            id,
+          ]
+        );
+        if (hasOptions && options) {
+          await removeStaleOptionValues(client, result.rows[0]);
+        }
+
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "custom_field",
+          entityId: id,
+          before: previous,
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
+
+      res.json(formatCustomField(field));
+    } catch (error) {
+      console.error("Update custom field error:", error);
+      res.status(500).json({ message: "Server error updating custom field" });
+    }
+  }
+);
+
+// Delete a custom field along with its values on every record
+router.delete(
+  "/custom-fields/:id",
+  async (req: AuthenticatedRequest<{ id: string }>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const existing = await db.query<CustomField>(
+        "SELECT * FROM custom_fields WHERE id = $1",
+        [id]
+      );
+      if (existing.rows.length === 0) {
+        res.status(404).json({ message: "Custom field not found" });
+        return;
+      }
+
+      const field = existing.rows[0];
+      await db.transaction(async (client) => {
+        await removeCustomFieldValues(client, field);
+        await client.query("DELETE FROM custom_fields WHERE id = $1", [id]);
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "custom_field",
+          entityId: id,
+          before: field,
+        });
+      });
+
+      res.json({ message: "Custom field deleted successfully" });
+    } catch (error) {
+      console.error("Delete custom field error:", error);
+      res.status(500).json({ message: "Server error deleting custom field" });
+    }
+  }
+);
+
 // Get user statistics
 router.get(
   "/users/stats/overview",
@@ -1,15 +1,58 @@
 import express, { Response } from "express";
 import bcrypt from "bcryptjs";
-import * as jwt from "jsonwebtoken";
-import { body, validationResult } from "express-validator";
+import rateLimit from "express-rate-limit";
+import { body, param, validationResult } from "express-validator";
 import db from "../config/database";
-import { seedDefaultData } from "../database/migrate";
+import { seedDefaultData } from "../database/seed";
 import { authenticateToken } from "../middleware/auth";
 import {
+  getSystemSetting,
+  isEmailVerificationRequired,
+  isPasswordLoginAllowed,
   isRegistrationEnabled,
+  isTwoFactorRequired,
   isUserLimitReached,
 } from "../utils/systemSettings";
-import { AuthenticatedRequest, User } from "../types";
+import {
+  clearSessionCookies,
+  refreshSession,
+  revokeCurrentSession,
+  revokeUserSessions,
+  startSession,
+} from "../utils/sessions";
+import { buildOtpauthUri, generateTotpSecret } from "../utils/totp";
+import {
+  countRecoveryCodes,
+  createTwoFactorChallenge,
+  disableTwoFactor,
+  generateRecoveryCodes,
+  verifySecondFactor,
+  verifyTotpCode,
+  verifyTwoFactorChallenge,
+} from "../utils/twoFactor";
+import { acceptInvitation, findPendingInvitation } from "../utils/invitations";
+import { rolePermissions } from "../utils/permissions";
+import {
+  LoginBlock,
+  LoginProtectionUser,
+  getLoginBlock,
+  recordLoginFailure,
+  recordLoginSuccess,
+  reserveLoginAttempt,
+  unlockUser,
+} from "../utils/loginProtection";
+import {
+  API_KEY_ACCESS_LEVELS,
+  API_KEY_ENTITIES,
+  createApiKey,
+  formatApiKey,
+} from "../utils/apiKeys";
+import {
+  consumeEmailToken,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+} from "../utils/accountEmails";
+import { ApiKey, ApiKeyScopes, AuthenticatedRequest, User } from "../types";
 
 const router = express.Router();
 
@@ -25,6 +68,45 @@ interface LoginRequestBody {
   password: string;
 }
 
+interface TwoFactorLoginRequestBody {
+  challengeToken: string;
+  code: string;
+}
+
+interface TwoFactorCodeRequestBody {
+  code: string;
+}
+
+interface PasswordConfirmRequestBody {
+  password: string;
+}
+
+interface EmailRequestBody {
+  email: string;
+}
+
+interface ResetPasswordRequestBody {
+  token: string;
+  password: string;
+}
+
+interface TokenRequestBody {
+  token: string;
+}
+
+interface AcceptInvitationRequestBody {
+  token: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface CreateApiKeyRequestBody {
+  name: string;
+  scopes: ApiKeyScopes;
+  expiresAt?: string;
+}
+
 interface ChangePasswordRequestBody {
   currentPassword: string;
   newPassword: string;
@@ -41,10 +123,24 @@ interface UserRow {
   first_name: string;
   last_name: string;
   role: string;
+  role_label?: string | null;
+  totp_enabled?: boolean;
+  email_verified_at?: Date | null;
+  deactivated_at?: Date | null;
   created_at?: string;
   updated_at?: string;
 }
 
+type LoginUserRow = UserRow & LoginProtectionUser;
+
+interface SessionRow {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_used_at: Date;
+}
+
 interface NewUserRow {
   id: string;
   email: string;
@@ -52,6 +148,29 @@ interface NewUserRow {
   last_name: string;
 }
 
+// Each of these sends an email, so keep them from being used to flood inboxes
+const accountEmailLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5,
+  message: { message: "Too many requests, please try again later" },
+});
+
+// The same answer whether or not the account exists, so these endpoints
+// can't be used to find out who has one
+const ACCOUNT_EMAIL_SENT_MESSAGE =
+  "If an account exists for that email, we sent it a link";
+
+const DEACTIVATED_MESSAGE =
+  "This account has been deactivated. Contact an administrator.";
+
+// Tell the client when it may try to log in again
+const sendLoginBlock = (res: Response, block: LoginBlock): void => {
+  res
+    .status(429)
+    .set("Retry-After", String(block.retryAfter))
+    .json({ message: block.message, retryAfter: block.retryAfter });
+};
+
 // Register
 router.post(
   "/register",
@@ -79,6 +198,14 @@ router.post(
         return;
       }
 
+      // Accounts come from the SSO provider when passwords are turned off
+      if (!(await isPasswordLoginAllowed(null))) {
+        res.status(403).json({
+          message: "Sign in with single sign-on to create your account",
+        });
+        return;
+      }
+
       // Check if user limit is reached
       const limitReached = await isUserLimitReached();
       if (limitReached) {
@@ -105,10 +232,14 @@ router.post(
       const saltRounds = 12;
       const hashedPassword = await bcrypt.hash(password, saltRounds);
 
+      const verificationRequired = await isEmailVerificationRequired();
+
       // Create user
       const result = await db.query<NewUserRow>(
-        "INSERT INTO users (email, password, first_name, last_name) VALUES ($1, $2, $3, $4) RETURNING id, email, first_name, last_name",
-        [email, hashedPassword, firstName, lastName]
+        `INSERT INTO users (email, password, first_name, last_name, email_verified_at)
+         VALUES ($1, $2, $3, $4, CASE WHEN $5::boolean THEN NULL ELSE NOW() END)
+         RETURNING id, email, first_name, last_name`,
+        [email, hashedPassword, firstName, lastName, verificationRequired]
       );
 
       const user = result.rows[0];
@@ -116,25 +247,24 @@ router.post(
       // Seed default data for new user
       await seedDefaultData(user.id);
 
-      // Generate JWT token
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) {
-        throw new Error("JWT_SECRET not configured");
-      }
+      // The user signs in once they followed the link in the email
+      if (verificationRequired) {
+        try {
+          await sendVerificationEmail(user);
+        } catch (error) {
+          // The account exists either way; the user can ask for a new link
+          console.error("Send verification email error:", error);
+        }
 
-      const token = (jwt.sign as any)(
-        { userId: user.id, email: user.email },
-        jwtSecret,
-        { expiresIn: process.env.JWT_EXPIRES_IN || "7d" }
-      );
+        res.status(201).json({
+          message:
+            "Account created. Check your email to verify your address before signing in.",
+          verificationRequired: true,
+        });
+        return;
+      }
 
-      // Set token in HTTP-only cookie
-      res.cookie("token", token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production", // Use HTTPS in production
-        sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      });
+      await startSession(req, res, user);
 
       res.status(201).json({
         message: "User created successfully",
@@ -144,6 +274,9 @@ router.post(
           firstName: user.first_name,
           lastName: user.last_name,
           role: "user",
+          permissions: await rolePermissions("user"),
+          twoFactorEnabled: false,
+          twoFactorSetupRequired: await isTwoFactorRequired("user"),
         },
       });
     } catch (error) {
@@ -168,44 +301,80 @@ router.post(
       const { email, password } = req.body;
 
       // Find user
-      const result = await db.query<UserRow>(
-        "SELECT id, email, password, first_name, last_name, role FROM users WHERE email = $1",
+      const result = await db.query<LoginUserRow>(
+        `SELECT id, email, password, first_name, last_name, role, totp_enabled, email_verified_at,
+                deactivated_at, failed_login_attempts, last_failed_login_at, locked_until
+         FROM users WHERE email = $1`,
         [email]
       );
+      const user = result.rows[0];
 
-      if (result.rows.length === 0) {
+      const block = await getLoginBlock(req, user || null);
+      if (block) {
+        await recordLoginFailure(req, email, user?.id || null, block.reason);
+        sendLoginBlock(res, block);
+        return;
+      }
+
+      if (!user) {
+        await recordLoginFailure(req, email, null, "invalid_credentials");
         res.status(401).json({ message: "Invalid credentials" });
         return;
       }
 
-      const user = result.rows[0];
+      // Counted before the password is checked, so a burst of guesses can't
+      // all get in before the first one fails. With two-factor sign-in it
+      // stays counted until the code is right too.
+      const reservedBlock = await reserveLoginAttempt(user.id);
+      if (reservedBlock) {
+        await recordLoginFailure(req, email, user.id, reservedBlock.reason);
+        sendLoginBlock(res, reservedBlock);
+        return;
+      }
 
       // Check password
       const isValidPassword = await bcrypt.compare(password, user.password);
       if (!isValidPassword) {
+        await recordLoginFailure(req, email, user.id, "invalid_credentials");
         res.status(401).json({ message: "Invalid credentials" });
         return;
       }
 
-      // Generate JWT token
-      const jwtSecret2 = process.env.JWT_SECRET;
-      if (!jwtSecret2) {
-        throw new Error("JWT_SECRET not configured");
+      if (user.deactivated_at) {
+        await recordLoginFailure(req, email, user.id, "deactivated");
+        res.status(403).json({ message: DEACTIVATED_MESSAGE });
+        return;
       }
 
-      const token = (jwt.sign as any)(
-        { userId: user.id, email: user.email },
-        jwtSecret2,
-        { expiresIn: process.env.JWT_EXPIRES_IN || "7d" }
-      );
+      if (!(await isPasswordLoginAllowed(user.role))) {
+        await recordLoginFailure(req, email, user.id, "password_disabled");
+        res.status(403).json({
+          message:
+            "Password sign-in is turned off. Sign in with single sign-on.",
+        });
+        return;
+      }
 
-      // Set token in HTTP-only cookie
-      res.cookie("token", token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production", // Use HTTPS in production
-        sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      });
+      if (!user.email_verified_at && (await isEmailVerificationRequired())) {
+        await recordLoginFailure(req, email, user.id, "email_unverified");
+        res.status(403).json({
+          message: "Verify your email address before signing in",
+          emailVerificationRequired: true,
+        });
+        return;
+      }
+
+      // The session only starts once the second factor is checked
+      if (user.totp_enabled) {
+        res.json({
+          twoFactorRequired: true,
+          challengeToken: createTwoFactorChallenge(user.id),
+        });
+        return;
+      }
+
+      await startSession(req, res, user);
+      await recordLoginSuccess(req, user);
 
       res.json({
         message: "Login successful",
@@ -215,6 +384,9 @@ router.post(
           firstName: user.first_name,
           lastName: user.last_name,
           role: user.role || "user",
+          permissions: await rolePermissions(user.role),
+          twoFactorEnabled: false,
+          twoFactorSetupRequired: await isTwoFactorRequired(user.role),
         },
       });
     } catch (error) {
@@ -224,6 +396,94 @@ router.post(
   }
 );
 
+// Second login step: a TOTP or recovery code for the challenge from /login
+router.post(
+  "/login/two-factor",
+  [
+    body("challengeToken").isString().notEmpty(),
+    body("code").trim().notEmpty().withMessage("Code is required"),
+  ],
+  async (
+    req: express.Request<{}, {}, TwoFactorLoginRequestBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const userId = verifyTwoFactorChallenge(req.body.challengeToken);
+      if (!userId) {
+        res
+          .status(401)
+          .json({ message: "Login expired, please sign in again" });
+        return;
+      }
+
+      const result = await db.query<LoginUserRow>(
+        `SELECT id, email, first_name, last_name, role, totp_enabled, deactivated_at,
+                failed_login_attempts, last_failed_login_at, locked_until
+         FROM users WHERE id = $1`,
+        [userId]
+      );
+      const user = result.rows[0];
+      if (!user?.totp_enabled) {
+        res
+          .status(401)
+          .json({ message: "Login expired, please sign in again" });
+        return;
+      }
+
+      // Wrong codes count towards the lockout like wrong passwords, so
+      // codes can't be guessed by someone who knows the password
+      const block =
+        (await getLoginBlock(req, user)) ||
+        (await reserveLoginAttempt(user.id));
+      if (block) {
+        await recordLoginFailure(req, user.email, user.id, block.reason);
+        sendLoginBlock(res, block);
+        return;
+      }
+
+      const isValidCode = await verifySecondFactor(user.id, req.body.code);
+      if (!isValidCode) {
+        await recordLoginFailure(req, user.email, user.id, "invalid_code");
+        res.status(401).json({ message: "Invalid authentication code" });
+        return;
+      }
+
+      // The account may have been deactivated since the password step
+      if (user.deactivated_at) {
+        await recordLoginFailure(req, user.email, user.id, "deactivated");
+        res.status(403).json({ message: DEACTIVATED_MESSAGE });
+        return;
+      }
+
+      await startSession(req, res, user);
+      await recordLoginSuccess(req, user);
+
+      res.json({
+        message: "Login successful",
+        user: {
+          id: user.id,
+          email: user.email,
+          firstName: user.first_name,
+          lastName: user.last_name,
+          role: user.role || "user",
+          permissions: await rolePermissions(user.role),
+          twoFactorEnabled: true,
+          twoFactorSetupRequired: false,
+        },
+      });
+    } catch (error) {
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "Server error during login" });
+    }
+  }
+);
+
 // Get current user
 router.get(
   "/me",
@@ -237,7 +497,11 @@ router.get(
     try {
       // Fetch full user data from database
       const userResult = await db.query<UserRow>(
-        "SELECT id, email, first_name, last_name, role, created_at, updated_at FROM users WHERE id = $1",
+        `SELECT u.id, u.email, u.first_name, u.last_name, u.role, r.label as role_label,
+                u.totp_enabled, u.created_at, u.updated_at
+         FROM users u
+         LEFT JOIN roles r ON r.name = u.role
+         WHERE u.id = $1`,
         [req.user.userId]
       );
 
@@ -255,6 +519,13 @@ router.get(
           firstName: user.first_name,
           lastName: user.last_name,
           role: user.role || "user",
+          roleLabel: user.role_label,
+          permissions: req.user.permissions,
+          twoFactorEnabled: !!user.totp_enabled,
+          twoFactorSetupRequired:
+            !user.totp_enabled &&
+            req.sessionAuthMethod !== "oidc" &&
+            (await isTwoFactorRequired(user.role)),
           created_at: user.created_at,
           updated_at: user.updated_at,
         },
@@ -338,6 +609,9 @@ router.put(
         [hashedNewPassword, req.user.userId]
       );
 
+      // Log out every other device that knew the old password
+      await revokeUserSessions(req.user.userId, req.sessionId);
+
       res.json({ message: "Password changed successfully" });
     } catch (error) {
       console.error("Change password error:", error);
@@ -346,18 +620,735 @@ router.put(
   }
 );
 
-// Logout (client-side token removal)
+// Email a password reset link
 router.post(
-  "/logout",
-  authenticateToken,
-  (req: AuthenticatedRequest, res: Response) => {
-    // Clear the HTTP-only cookie
-    res.clearCookie("token", {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
-    });
-    res.json({ message: "Logged out successfully" });
+  "/forgot-password",
+  accountEmailLimiter,
+  [body("email").isEmail().normalizeEmail()],
+  async (req: express.Request<{}, {}, EmailRequestBody>, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const result = await db.query<UserRow>(
+        "SELECT id, email, first_name FROM users WHERE email = $1 AND deactivated_at IS NULL",
+        [req.body.email]
+      );
+
+      // Not awaited, so neither the response time nor a failed send shows
+      // whether the address has an account
+      if (result.rows.length > 0) {
+        sendPasswordResetEmail(result.rows[0]).catch((error) =>
+          console.error("Send password reset email error:", error)
+        );
+      }
+
+      res.json({ message: ACCOUNT_EMAIL_SENT_MESSAGE });
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Server error sending reset email" });
+    }
+  }
+);
+
+// Choose a new password with the token from the reset email
+router.post(
+  "/reset-password",
+  [
+    body("token").isString().notEmpty(),
+    body("password")
+      .isLength({ min: 6 })
+      .withMessage("Password must be at least 6 characters long"),
+  ],
+  async (
+    req: express.Request<{}, {}, ResetPasswordRequestBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const userId = await consumeEmailToken(req.body.token, "password_reset");
+      if (!userId) {
+        res
+          .status(400)
+          .json({ message: "This reset link is invalid or has expired" });
+        return;
+      }
+
+      const saltRounds = 12;
+      const hashedPassword = await bcrypt.hash(req.body.password, saltRounds);
+
+      // Following the emailed link also proves the user owns the address
+      await db.query(
+        `UPDATE users
+         SET password = $1, email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW()
+         WHERE id = $2`,
+        [hashedPassword, userId]
+      );
+
+      // Whoever knew the old password is logged out, and a user who was
+      // locked out can sign in again
+      await revokeUserSessions(userId);
+      await unlockUser(userId);
+
+      res.json({ message: "Password reset. You can now sign in." });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: "Server error resetting password" });
+    }
+  }
+);
+
+// Confirm an email address with the token from the verification email
+router.post(
+  "/verify-email",
+  [body("token").isString().notEmpty()],
+  async (req: express.Request<{}, {}, TokenRequestBody>, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const userId = await consumeEmailToken(
+        req.body.token,
+        "email_verification"
+      );
+      if (!userId) {
+        res.status(400).json({
+          message: "This verification link is invalid or has expired",
+        });
+        return;
+      }
+
+      await db.query(
+        "UPDATE users SET email_verified_at = NOW(), updated_at = NOW() WHERE id = $1",
+        [userId]
+      );
+
+      res.json({ message: "Email verified. You can now sign in." });
+    } catch (error) {
+      console.error("Verify email error:", error);
+      res.status(500).json({ message: "Server error verifying email" });
+    }
+  }
+);
+
+// Send a new verification link to a user who hasn't verified yet
+router.post(
+  "/resend-verification",
+  accountEmailLimiter,
+  [body("email").isEmail().normalizeEmail()],
+  async (req: express.Request<{}, {}, EmailRequestBody>, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const result = await db.query<UserRow>(
+        "SELECT id, email, first_name FROM users WHERE email = $1 AND email_verified_at IS NULL",
+        [req.body.email]
+      );
+
+      // Not awaited, like the reset email in /forgot-password
+      if (result.rows.length > 0) {
+        sendVerificationEmail(result.rows[0]).catch((error) =>
+          console.error("Send verification email error:", error)
+        );
+      }
+
+      res.json({ message: ACCOUNT_EMAIL_SENT_MESSAGE });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error sending verification email" });
+    }
+  }
+);
+
+// Show who an invitation is for before the invitee accepts it
+router.get(
+  "/invitations/:token",
+  async (req: express.Request<{ token: string }>, res: Response) => {
+    try {
+      const invitation = await findPendingInvitation(req.params.token);
+      if (!invitation) {
+        res
+          .status(404)
+          .json({ message: "This invitation is invalid or has expired" });
+        return;
+      }
+
+      res.json({
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expires_at,
+      });
+    } catch (error) {
+      console.error("Get invitation error:", error);
+      res.status(500).json({ message: "Server error fetching invitation" });
+    }
+  }
+);
+
+// Create the invited account, even while registration is disabled
+router.post(
+  "/invitations/accept",
+  [
+    body("token").isString().notEmpty(),
+    body("password").isLength({ min: 6 }),
+    body("firstName").trim().isLength({ min: 1 }),
+    body("lastName").trim().isLength({ min: 1 }),
+  ],
+  async (
+    req: express.Request<{}, {}, AcceptInvitationRequestBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { token, password, firstName, lastName } = req.body;
+
+      const saltRounds = 12;
+      const hashedPassword = await bcrypt.hash(password, saltRounds);
+
+      const user = await acceptInvitation(token, {
+        firstName,
+        lastName,
+        hashedPassword,
+      });
+      if (!user) {
+        res
+          .status(400)
+          .json({ message: "This invitation is invalid or has expired" });
+        return;
+      }
+
+      // Seed default data for new user
+      await seedDefaultData(user.id);
+
+      await startSession(req, res, user);
+
+      res.status(201).json({
+        message: "User created successfully",
+        user: {
+          id: user.id,
+          email: user.email,
+          firstName: user.first_name,
+          lastName: user.last_name,
+          role: user.role,
+          permissions: await rolePermissions(user.role),
+          twoFactorEnabled: false,
+          twoFactorSetupRequired: await isTwoFactorRequired(user.role),
+        },
+      });
+    } catch (error) {
+      console.error("Accept invitation error:", error);
+      res.status(500).json({ message: "Server error accepting invitation" });
+    }
+  }
+);
+
+// Check the user's password before a sensitive two-factor change
+const isPasswordCorrect = async (
+  userId: string,
+  password: string
+): Promise<boolean> => {
+  const result = await db.query<{ password: string }>(
+    "SELECT password FROM users WHERE id = $1",
+    [userId]
+  );
+  return (
+    result.rows.length > 0 &&
+    (await bcrypt.compare(password, result.rows[0].password))
+  );
+};
+
+// Get the user's two-factor status
+router.get(
+  "/two-factor",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const result = await db.query<{ totp_enabled: boolean }>(
+        "SELECT totp_enabled FROM users WHERE id = $1",
+        [req.user.userId]
+      );
+
+      res.json({
+        enabled: result.rows[0].totp_enabled,
+        required: await isTwoFactorRequired(req.user.role),
+        recoveryCodesRemaining: await countRecoveryCodes(req.user.userId),
+      });
+    } catch (error) {
+      console.error("Get two-factor status error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error fetching two-factor status" });
+    }
+  }
+);
+
+// Start enrolling: create a secret for the user's authenticator app
+router.post(
+  "/two-factor/setup",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const secret = generateTotpSecret();
+      const result = await db.query(
+        `UPDATE users SET totp_secret = $1, totp_last_step = NULL
+         WHERE id = $2 AND totp_enabled = FALSE`,
+        [secret, req.user.userId]
+      );
+
+      if (result.rowCount === 0) {
+        res
+          .status(400)
+          .json({ message: "Two-factor authentication is already enabled" });
+        return;
+      }
+
+      const issuer = (await getSystemSetting("app_name", "OMW CRM")) as string;
+
+      res.json({
+        secret,
+        otpauthUri: buildOtpauthUri(secret, req.user.email, issuer),
+      });
+    } catch (error) {
+      console.error("Two-factor setup error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error setting up two-factor authentication" });
+    }
+  }
+);
+
+// Finish enrolling with a code from the app, and hand out recovery codes
+router.post(
+  "/two-factor/enable",
+  authenticateToken,
+  [body("code").trim().notEmpty().withMessage("Code is required")],
+  async (
+    req: AuthenticatedRequest<{}, {}, TwoFactorCodeRequestBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const status = await db.query<{ totp_enabled: boolean }>(
+        "SELECT totp_enabled FROM users WHERE id = $1",
+        [req.user.userId]
+      );
+      if (status.rows[0].totp_enabled) {
+        res
+          .status(400)
+          .json({ message: "Two-factor authentication is already enabled" });
+        return;
+      }
+
+      const isValidCode = await verifyTotpCode(req.user.userId, req.body.code);
+      if (!isValidCode) {
+        res.status(400).json({ message: "Invalid authentication code" });
+        return;
+      }
+
+      await db.query(
+        "UPDATE users SET totp_enabled = TRUE, updated_at = NOW() WHERE id = $1",
+        [req.user.userId]
+      );
+      const recoveryCodes = await generateRecoveryCodes(req.user.userId);
+
+      res.json({
+        message: "Two-factor authentication enabled",
+        recoveryCodes,
+      });
+    } catch (error) {
+      console.error("Enable two-factor error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error enabling two-factor authentication" });
+    }
+  }
+);
+
+// Turn two-factor authentication off
+router.post(
+  "/two-factor/disable",
+  authenticateToken,
+  [body("password").exists().withMessage("Password is required")],
+  async (
+    req: AuthenticatedRequest<{}, {}, PasswordConfirmRequestBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      if (!(await isPasswordCorrect(req.user.userId, req.body.password))) {
+        res.status(400).json({ message: "Password is incorrect" });
+        return;
+      }
+
+      if (await isTwoFactorRequired(req.user.role)) {
+        res.status(400).json({
+          message: "Two-factor authentication is required for your account",
+        });
+        return;
+      }
+
+      await disableTwoFactor(req.user.userId);
+
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      console.error("Disable two-factor error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error disabling two-factor authentication" });
+    }
+  }
+);
+
+// Replace the recovery codes, invalidating the old ones
+router.post(
+  "/two-factor/recovery-codes",
+  authenticateToken,
+  [body("password").exists().withMessage("Password is required")],
+  async (
+    req: AuthenticatedRequest<{}, {}, PasswordConfirmRequestBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      if (!(await isPasswordCorrect(req.user.userId, req.body.password))) {
+        res.status(400).json({ message: "Password is incorrect" });
+        return;
+      }
+
+      const status = await db.query<{ totp_enabled: boolean }>(
+        "SELECT totp_enabled FROM users WHERE id = $1",
+        [req.user.userId]
+      );
+      if (!status.rows[0].totp_enabled) {
+        res
+          .status(400)
+          .json({ message: "Two-factor authentication is not enabled" });
+        return;
+      }
+
+      const recoveryCodes = await generateRecoveryCodes(req.user.userId);
+
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Regenerate recovery codes error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error generating recovery codes" });
+    }
+  }
+);
+
+// Exchange the refresh token cookie for new tokens
+router.post("/refresh", async (req: express.Request, res: Response) => {
+  try {
+    const refreshed = await refreshSession(req, res);
+    if (!refreshed) {
+      clearSessionCookies(res);
+      res.status(401).json({ message: "Session expired" });
+      return;
+    }
+
+    res.json({ message: "Session refreshed" });
+  } catch (error) {
+    console.error("Refresh session error:", error);
+    res.status(500).json({ message: "Server error refreshing session" });
+  }
+});
+
+// Logout, ending the session even when the access token has expired
+router.post("/logout", async (req: express.Request, res: Response) => {
+  try {
+    await revokeCurrentSession(req);
+    clearSessionCookies(res);
+    res.json({ message: "Logged out successfully" });
+  } catch (error) {
+    console.error("Logout error:", error);
+    res.status(500).json({ message: "Server error during logout" });
+  }
+});
+
+// List the user's active sessions
+router.get(
+  "/sessions",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const result = await db.query<SessionRow>(
+        `SELECT id, user_agent, ip_address, created_at, last_used_at
+         FROM sessions
+         WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+         ORDER BY last_used_at DESC`,
+        [req.user.userId]
+      );
+
+      const sessions = result.rows.map((session) => ({
+        id: session.id,
+        userAgent: session.user_agent,
+        ipAddress: session.ip_address,
+        createdAt: session.created_at,
+        lastUsedAt: session.last_used_at,
+        current: String(session.id) === String(req.sessionId),
+      }));
+
+      res.json({ sessions });
+    } catch (error) {
+      console.error("Get sessions error:", error);
+      res.status(500).json({ message: "Server error fetching sessions" });
+    }
+  }
+);
+
+// Revoke every session except the current one
+router.delete(
+  "/sessions",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      await revokeUserSessions(req.user.userId, req.sessionId);
+      res.json({ message: "Other sessions revoked" });
+    } catch (error) {
+      console.error("Revoke sessions error:", error);
+      res.status(500).json({ message: "Server error revoking sessions" });
+    }
+  }
+);
+
+// Revoke one of the user's sessions
+router.delete(
+  "/sessions/:id",
+  authenticateToken,
+  [param("id").isInt({ min: 1 })],
+  async (req: AuthenticatedRequest<{ id: string }>, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const result = await db.query<{ id: string }>(
+        `UPDATE sessions SET revoked_at = NOW()
+         WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+         RETURNING id`,
+        [req.params.id, req.user.userId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ message: "Session not found" });
+        return;
+      }
+
+      // Revoking the current session logs this device out too
+      if (String(req.params.id) === String(req.sessionId)) {
+        clearSessionCookies(res);
+      }
+
+      res.json({ message: "Session revoked" });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      res.status(500).json({ message: "Server error revoking session" });
+    }
+  }
+);
+
+// List the user's API keys, including expired ones
+router.get(
+  "/api-keys",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const result = await db.query<ApiKey>(
+        `SELECT id, user_id, name, key_prefix, scopes, expires_at, last_used_at, revoked_at, created_at
+         FROM api_keys
+         WHERE user_id = $1 AND revoked_at IS NULL
+         ORDER BY created_at DESC`,
+        [req.user.userId]
+      );
+
+      res.json({ apiKeys: result.rows.map(formatApiKey) });
+    } catch (error) {
+      console.error("Get API keys error:", error);
+      res.status(500).json({ message: "Server error fetching API keys" });
+    }
+  }
+);
+
+// Create an API key. The key is only ever returned here.
+router.post(
+  "/api-keys",
+  authenticateToken,
+  [
+    body("name")
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage("Key name is required"),
+    body("scopes")
+      .isObject()
+      .custom(
+        (scopes: ApiKeyScopes) =>
+          Object.keys(scopes).length > 0 &&
+          Object.keys(scopes).every((entity) =>
+            API_KEY_ENTITIES.includes(entity)
+          )
+      )
+      .withMessage("Choose which records the key can access"),
+    body("scopes.*")
+      .isIn(API_KEY_ACCESS_LEVELS)
+      .withMessage("Access must be read or write"),
+    body("expiresAt")
+      .optional({ nullable: true })
+      .isISO8601()
+      .custom((value: string) => new Date(value) > new Date())
+      .withMessage("Expiry must be in the future"),
+  ],
+  async (
+    req: AuthenticatedRequest<{}, {}, CreateApiKeyRequestBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { name, scopes, expiresAt } = req.body;
+      const { apiKey, key } = await createApiKey(req.user.userId, {
+        name,
+        scopes,
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+      });
+
+      res.status(201).json({ ...formatApiKey(apiKey), key });
+    } catch (error) {
+      console.error("Create API key error:", error);
+      res.status(500).json({ message: "Server error creating API key" });
+    }
+  }
+);
+
+// Revoke one of the user's API keys
+router.delete(
+  "/api-keys/:id",
+  authenticateToken,
+  [param("id").isInt({ min: 1 })],
+  async (req: AuthenticatedRequest<{ id: string }>, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const result = await db.query<{ id: string }>(
+        `UPDATE api_keys SET revoked_at = NOW()
+         WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+         RETURNING id`,
+        [req.params.id, req.user.userId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ message: "API key not found" });
+        return;
+      }
+
+      res.json({ message: "API key revoked" });
+    } catch (error) {
+      console.error("Revoke API key error:", error);
+      res.status(500).json({ message: "Server error revoking API key" });
+    }
   }
 );
 
@@ -2,7 +2,9 @@ import express, { Response } from "express";
 import { body, validationResult, param } from "express-validator";
 import db from "../config/database";
 import { authenticateToken } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
 import { AuthenticatedRequest } from "../types";
+import { recordAudit } from "../utils/auditLog";
 
 const router = express.Router();
 
@@ -101,6 +103,7 @@ router.get(
 // Create a new note for a contact
 router.post(
   "/",
+  requirePermission("can_edit_records"),
   [
     body("contactId").isInt({ min: 1 }),
     body("content").trim().notEmpty().withMessage("Note content is required"),
@@ -134,14 +137,25 @@ router.post(
         return;
       }
 
-      const result = await db.query<ContactNote>(
-        `INSERT INTO contact_notes (contact_id, content, user_id, title)
-        VALUES ($1, $2, $3, $4)
-        RETURNING *`,
-        [contactId, content, req.user.userId, null]
-      );
-
-      const note = result.rows[0];
+      const userId = req.user.userId;
+      const note = await db.transaction(async (client) => {
+        const result = await client.query<ContactNote>(
+          `INSERT INTO contact_notes (contact_id, content, user_id, title)
+          VALUES ($1, $2, $3, $4)
+          RETURNING *`,
+          [contactId, content, userId, null]
+        );
+
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "note",
+          entityId: result.rows[0].id,
+          parent: { type: "contact", id: contactId },
+          after: result.rows[0],
+        });
+
+        return result.rows[0];
+      });
 
       // Get user name for response
       const userResult = await db.query<{
@@ -170,6 +184,7 @@ router.post(
 // Update a note
 router.put(
   "/:id",
+  requirePermission("can_edit_records"),
   [
     param("id").isInt({ min: 1 }),
     body("content").trim().notEmpty().withMessage("Note content is required"),
@@ -204,15 +219,31 @@ router.put(
         return;
       }
 
-      const result = await db.query<ContactNote>(
-        `UPDATE contact_notes 
-        SET content = $1, updated_at = CURRENT_TIMESTAMP
-        WHERE id = $2 AND user_id = $3
-        RETURNING *`,
-        [content, id, req.user.userId]
-      );
-
-      const note = result.rows[0];
+      const userId = req.user.userId;
+      const note = await db.transaction(async (client) => {
+        const previous = await client.query<ContactNote>(
+          "SELECT * FROM contact_notes WHERE id = $1 FOR UPDATE",
+          [id]
+        );
+        const result = await client.query<ContactNote>(
+          `UPDATE contact_notes 
+          SET content = $1, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $2 AND user_id = $3
+          RETURNING *`,
+          [content, id, userId]
+        );
+
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "note",
+          entityId: id,
+          parent: { type: "contact", id: result.rows[0].contact_id },
+          before: previous.rows[0],
+          after: result.rows[0],
+        });
+
+        return result.rows[0];
+      });
 
       // Get user name for response
       const userResult = await db.query<{
@@ -241,6 +272,7 @@ router.put(
 // Delete a note
 router.delete(
   "/:id",
+  requirePermission("can_edit_records"),
   [param("id").isInt({ min: 1 })],
   async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -257,12 +289,28 @@ router.delete(
 
       const { id } = req.params;
 
-      const result = await db.query<{ id: string }>(
-        "DELETE FROM contact_notes WHERE id = $1 AND user_id = $2 RETURNING id",
-        [id, req.user.userId]
-      );
+      const userId = req.user.userId;
+      const deleted = await db.transaction(async (client) => {
+        const result = await client.query<ContactNote>(
+          "DELETE FROM contact_notes WHERE id = $1 AND user_id = $2 RETURNING *",
+          [id, userId]
+        );
+        if (result.rows.length === 0) {
+          return undefined;
+        }
+
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "note",
+          entityId: id,
+          parent: { type: "contact", id: result.rows[0].contact_id },
+          before: result.rows[0],
+        });
+
+        return result.rows[0];
+      });
 
-      if (result.rows.length === 0) {
+      if (!deleted) {
         res.status(404).json({ message: "Note not found" });
         return;
       }
@@ -0,0 +1,499 @@
+import express, { Response } from "express";
+import { body, param, validationResult } from "express-validator";
+import db from "../config/database";
+import { authenticateToken } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
+import { PoolClient } from "pg";
+import { AuthenticatedRequest } from "../types";
+import { recordAudit } from "../utils/auditLog";
+import {
+  CONTACT_ORGANIZATION_COLUMNS,
+  CONTACT_ORGANIZATION_ORDER,
+  ContactOrganizationRow,
+  syncContactCompany,
+  toContactOrganizationResponse,
+} from "../utils/contactOrganizations";
+import { canEditRecord, recordVisibility } from "../utils/visibility";
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+interface ContactOrganizationBody {
+  contactId?: number;
+  companyId?: number;
+  title?: string | null;
+  department?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  isCurrent?: boolean;
+}
+
+interface AccessibleContactRow {
+  id: string;
+  user_id: string;
+  permission?: string;
+}
+
+interface AccessibleLinkRow extends ContactOrganizationRow {
+  user_id: string;
+  permission?: string;
+}
+
+const linkValidators = [
+  body("title").optional({ nullable: true }).trim().isLength({ max: 100 }),
+  body("department").optional({ nullable: true }).trim().isLength({ max: 100 }),
+  body(["startDate", "endDate"])
+    .optional({ nullable: true })
+    .isDate({ format: "YYYY-MM-DD", strictMode: true })
+    .withMessage("Dates must be YYYY-MM-DD"),
+  body("isCurrent").optional().isBoolean(),
+];
+
+/**
+ * Find a contact the user can see, with their permission on it
+ */
+const findContact = async (
+  contactId: string | number,
+  userId: string
+): Promise<AccessibleContactRow | undefined> => {
+  const visibility = recordVisibility("contact", "c", "$2");
+  const result = await db.query<AccessibleContactRow>(
+    `SELECT c.id, c.user_id, ${visibility.permission} as permission
+     FROM contacts c
+     ${visibility.joins}
+     WHERE c.id = $1 AND ${visibility.condition}`,
+    [contactId, userId]
+  );
+  return result.rows[0];
+};
+
+/**
+ * Find a link whose contact the user can see, with their permission on the
+ * contact
+ */
+const findLink = async (
+  id: string,
+  userId: string
+): Promise<AccessibleLinkRow | undefined> => {
+  const visibility = recordVisibility("contact", "c", "$2");
+  const result = await db.query<AccessibleLinkRow>(
+    `SELECT ${CONTACT_ORGANIZATION_COLUMNS}, comp.name as company_name,
+            c.user_id, ${visibility.permission} as permission
+     FROM contact_organizations co
+     JOIN contacts c ON co.contact_id = c.id
+     JOIN companies comp ON co.company_id = comp.id
+     ${visibility.joins}
+     WHERE co.id = $1 AND ${visibility.condition}`,
+    [id, userId]
+  );
+  return result.rows[0];
+};
+
+/**
+ * Read a link with its company's name, locking it when inside a transaction
+ * that changes it
+ */
+const selectLink = async (
+  client: PoolClient,
+  id: string | number,
+  lock = false
+): Promise<ContactOrganizationRow> => {
+  const result = await client.query<ContactOrganizationRow>(
+    `SELECT ${CONTACT_ORGANIZATION_COLUMNS}, comp.name as company_name
+     FROM contact_organizations co
+     JOIN companies comp ON co.company_id = comp.id
+     WHERE co.id = $1
+     ${lock ? "FOR UPDATE OF co" : ""}`,
+    [id]
+  );
+  return result.rows[0];
+};
+
+/**
+ * Why a link's dates and current flag don't fit together, if they don't
+ */
+const validateLinkDates = (link: {
+  start_date?: string | null;
+  end_date?: string | null;
+  is_current: boolean;
+}): string | null => {
+  if (link.is_current && link.end_date) {
+    return "A current role can't have an end date";
+  }
+  if (link.start_date && link.end_date && link.end_date < link.start_date) {
+    return "The end date must be on or after the start date";
+  }
+  return null;
+};
+
+/**
+ * Whether the contact already has a current role at the company, other than
+ * the link being changed
+ */
+const hasOtherCurrentLink = async (
+  contactId: string | number,
+  companyId: string | number,
+  exceptId: string | null
+): Promise<boolean> => {
+  const result = await db.query(
+    `SELECT id FROM contact_organizations
+     WHERE contact_id = $1 AND company_id = $2 AND is_current
+       AND ($3::int IS NULL OR id <> $3)`,
+    [contactId, companyId, exceptId]
+  );
+  return result.rows.length > 0;
+};
+
+// Get a contact's roles at organizations, current ones first
+router.get(
+  "/contact/:contactId",
+  [param("contactId").isInt({ min: 1 })],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { contactId } = req.params;
+
+      if (!(await findContact(contactId, req.user.userId))) {
+        res.status(404).json({ message: "Contact not found" });
+        return;
+      }
+
+      const result = await db.query<ContactOrganizationRow>(
+        `SELECT ${CONTACT_ORGANIZATION_COLUMNS}, comp.name as company_name
+         FROM contact_organizations co
+         JOIN companies comp ON co.company_id = comp.id
+         WHERE co.contact_id = $1
+         ORDER BY ${CONTACT_ORGANIZATION_ORDER}`,
+        [contactId]
+      );
+
+      res.json({
+        organizations: result.rows.map(toContactOrganizationResponse),
+      });
+    } catch (error) {
+      console.error("Get contact organizations error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error fetching contact organizations" });
+    }
+  }
+);
+
+// Add a role at an organization to a contact
+router.post(
+  "/",
+  requirePermission("can_edit_records"),
+  [
+    body("contactId").isInt({ min: 1 }),
+    body("companyId").isInt({ min: 1 }),
+    ...linkValidators,
+  ],
+  async (
+    req: AuthenticatedRequest<{}, {}, ContactOrganizationBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { contactId, companyId, title, department, startDate, endDate } =
+        req.body;
+      // A role without an end date is taken to be current
+      const isCurrent = req.body.isCurrent ?? !endDate;
+
+      const contact = await findContact(contactId!, req.user.userId);
+      if (!contact) {
+        res.status(404).json({ message: "Contact not found" });
+        return;
+      }
+      if (!canEditRecord(contact, req.user.userId)) {
+        res
+          .status(403)
+          .json({ message: "You don't have permission to edit this contact" });
+        return;
+      }
+
+      const companyCheck = await db.query<{ id: string }>(
+        "SELECT id FROM companies WHERE id = $1",
+        [companyId]
+      );
+      if (companyCheck.rows.length === 0) {
+        res.status(400).json({ message: "Invalid company ID" });
+        return;
+      }
+
+      const dateError = validateLinkDates({
+        start_date: startDate,
+        end_date: endDate,
+        is_current: isCurrent,
+      });
+      if (dateError) {
+        res.status(400).json({ message: dateError });
+        return;
+      }
+
+      if (
+        isCurrent &&
+        (await hasOtherCurrentLink(contactId!, companyId!, null))
+      ) {
+        res.status(409).json({
+          message:
+            "The contact already has a current role at this organization",
+        });
+        return;
+      }
+
+      const link = await db.transaction(async (client) => {
+        const result = await client.query<{ id: string }>(
+          `INSERT INTO contact_organizations
+           (contact_id, company_id, title, department, start_date, end_date, is_current)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           RETURNING id`,
+          [
+            contactId,
+            companyId,
+            title || null,
+            department || null,
+            startDate || null,
+            endDate || null,
+            isCurrent,
+          ]
+        );
+        await syncContactCompany(client, contactId!);
+
+        const created = await selectLink(client, result.rows[0].id);
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "employment",
+          entityId: created.id,
+          label: created.company_name,
+          parent: { type: "contact", id: contactId! },
+          after: created,
+        });
+
+        return created;
+      });
+
+      res.status(201).json(toContactOrganizationResponse(link));
+    } catch (error) {
+      console.error("Create contact organization error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error adding contact organization" });
+    }
+  }
+);
+
+// Update a role, e.g. to end it when the contact moves on
+router.put(
+  "/:id",
+  requirePermission("can_edit_records"),
+  [
+    param("id").isInt({ min: 1 }),
+    body("companyId").optional().isInt({ min: 1 }),
+    ...linkValidators,
+  ],
+  async (
+    req: AuthenticatedRequest<{ id: string }, {}, ContactOrganizationBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+      const updates = req.body;
+
+      const existing = await findLink(id, req.user.userId);
+      if (!existing) {
+        res.status(404).json({ message: "Role not found" });
+        return;
+      }
+      if (!canEditRecord(existing, req.user.userId)) {
+        res
+          .status(403)
+          .json({ message: "You don't have permission to edit this contact" });
+        return;
+      }
+
+      if (updates.companyId) {
+        const companyCheck = await db.query<{ id: string }>(
+          "SELECT id FROM companies WHERE id = $1",
+          [updates.companyId]
+        );
+        if (companyCheck.rows.length === 0) {
+          res.status(400).json({ message: "Invalid company ID" });
+          return;
+        }
+      }
+
+      // Fields left out keep their values; an empty one clears it
+      const pick = <K extends keyof ContactOrganizationBody>(
+        key: K,
+        current: ContactOrganizationBody[K] | undefined
+      ) =>
+        updates[key] !== undefined ? updates[key] || null : (current ?? null);
+
+      const link = {
+        company_id: updates.companyId || existing.company_id,
+        title: pick("title", existing.title),
+        department: pick("department", existing.department),
+        start_date: pick("startDate", existing.start_date),
+        end_date: pick("endDate", existing.end_date),
+        // Setting an end date ends the role unless told otherwise
+        is_current:
+          updates.isCurrent ?? (updates.endDate ? false : existing.is_current),
+      };
+      // Marking a role current again clears its end date
+      if (link.is_current && updates.endDate === undefined) {
+        link.end_date = null;
+      }
+
+      const dateError = validateLinkDates(link);
+      if (dateError) {
+        res.status(400).json({ message: dateError });
+        return;
+      }
+
+      if (
+        link.is_current &&
+        (await hasOtherCurrentLink(existing.contact_id, link.company_id, id))
+      ) {
+        res.status(409).json({
+          message:
+            "The contact already has a current role at this organization",
+        });
+        return;
+      }
+
+      const updated = await db.transaction(async (client) => {
+        const previous = await selectLink(client, id, true);
+        await client.query(
+          `UPDATE contact_organizations
+           SET company_id = $1, title = $2, department = $3, start_date = $4,
+               end_date = $5, is_current = $6, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $7`,
+          [
+            link.company_id,
+            link.title,
+            link.department,
+            link.start_date,
+            link.end_date,
+            link.is_current,
+            id,
+          ]
+        );
+        await syncContactCompany(client, existing.contact_id);
+
+        const result = await selectLink(client, id);
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "employment",
+          entityId: id,
+          label: result.company_name,
+          parent: { type: "contact", id: existing.contact_id },
+          before: previous,
+          after: result,
+        });
+
+        return result;
+      });
+
+      res.json(toContactOrganizationResponse(updated));
+    } catch (error) {
+      console.error("Update contact organization error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error updating contact organization" });
+    }
+  }
+);
+
+// Remove a role entered by mistake; ending it keeps the history instead
+router.delete(
+  "/:id",
+  requirePermission("can_edit_records"),
+  [param("id").isInt({ min: 1 })],
+  async (req: AuthenticatedRequest<{ id: string }>, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const existing = await findLink(id, req.user.userId);
+      if (!existing) {
+        res.status(404).json({ message: "Role not found" });
+        return;
+      }
+      if (!canEditRecord(existing, req.user.userId)) {
+        res
+          .status(403)
+          .json({ message: "You don't have permission to edit this contact" });
+        return;
+      }
+
+      await db.transaction(async (client) => {
+        const previous = await selectLink(client, id, true);
+        await client.query("DELETE FROM contact_organizations WHERE id = $1", [
+          id,
+        ]);
+        await syncContactCompany(client, existing.contact_id);
+
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "employment",
+          entityId: id,
+          label: previous.company_name,
+          parent: { type: "contact", id: existing.contact_id },
+          before: previous,
+        });
+      });
+
+      res.json({ message: "Role removed successfully" });
+    } catch (error) {
+      console.error("Delete contact organization error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error removing contact organization" });
+    }
+  }
+);
+
+export default router;
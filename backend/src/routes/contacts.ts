@@ -2,7 +2,45 @@ import express, { Response } from "express";
 import { body, validationResult, query } from "express-validator";
 import db from "../config/database";
 import { authenticateToken } from "../middleware/auth";
-import { AuthenticatedRequest, Contact } from "../types";
+import { requirePermission } from "../middleware/permissions";
+import {
+  AuthenticatedRequest,
+  Contact,
+  ContactEmail,
+  ContactPhone,
+  PostalAddress,
+  TeamRole,
+} from "../types";
+import { findDuplicatePairs } from "../utils/contactDuplicates";
+import {
+  ContactMethodsInput,
+  contactMethodColumns,
+  contactMethodValidators,
+  mergeContactMethods,
+  resolveAddresses,
+  resolveEmails,
+  resolvePhones,
+} from "../utils/contactMethods";
+import { getRecordHistory, recordAudit } from "../utils/auditLog";
+import {
+  moveContactOrganizations,
+  recordContactCompany,
+} from "../utils/contactOrganizations";
+import {
+  CUSTOM_FIELD_SORT_PATTERN,
+  CustomFieldFilters,
+  customFieldConditions,
+  customFieldOrderBy,
+  getCustomFields,
+  mergeCustomFieldsSql,
+  validateCustomFieldValues,
+} from "../utils/customFields";
+import {
+  canAssignTeam,
+  canDeleteRecord,
+  canEditRecord,
+  recordVisibility,
+} from "../utils/visibility";
 
 const router = express.Router();
 
@@ -15,12 +53,18 @@ interface ContactsQueryParams {
   search?: string;
   tags?: string;
   status?: string;
+  // Custom field filters, cf[key]=value
+  cf?: CustomFieldFilters;
+  // "cf.<key>" to sort by a custom field
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
 }
 
 interface ContactRow extends Contact {
   company_name?: string;
+  team_name?: string;
   is_shared_with_me: boolean;
-  permissions?: string;
+  permission?: string;
   user_id: string;
   owner_id: string;
 }
@@ -29,18 +73,91 @@ interface CountRow {
   count: string;
 }
 
-interface CreateContactBody {
+interface CreateContactBody extends ContactMethodsInput {
   firstName: string;
   lastName: string;
-  email?: string;
-  phone?: string;
   position?: string;
   companyId?: string;
   notes?: string;
   tags?: string[];
   status?: string;
+  teamId?: string | null;
+  customFields?: Record<string, unknown>;
 }
 
+interface HistoryQueryParams {
+  page?: number;
+  limit?: number;
+}
+
+interface DuplicatesQueryParams {
+  limit?: number;
+}
+
+interface DuplicateCandidateRow {
+  id: number;
+  first_name: string;
+  last_name: string;
+  emails: ContactEmail[];
+  phones: ContactPhone[];
+  company_id?: number;
+}
+
+interface DuplicateContactRow extends Contact {
+  company_name?: string;
+  deal_count: string;
+  activity_count: string;
+  note_count: string;
+}
+
+interface DismissalRow {
+  contact_id: number;
+  other_contact_id: number;
+}
+
+interface DismissDuplicateBody {
+  contactIds: number[];
+}
+
+type MergeField =
+  | "firstName"
+  | "lastName"
+  | "email"
+  | "phone"
+  | "position"
+  | "companyId"
+  | "notes"
+  | "status";
+
+interface MergeContactsBody {
+  survivorId: number;
+  mergedId: number;
+  fields?: Partial<Record<MergeField, "survivor" | "merged">>;
+}
+
+// Fields that pick whose primary email or phone stays primary; the lists
+// themselves are always combined
+type ListMergeField = "email" | "phone";
+
+const LIST_MERGE_FIELDS: ListMergeField[] = ["email", "phone"];
+
+// Body keys of the email, phone and address lists and their older single
+// value forms
+const CONTACT_METHOD_KEYS = ["email", "phone", "emails", "phones", "addresses"];
+
+// Fields the caller can take from either contact; tags are always combined
+const MERGE_FIELDS: Record<
+  Exclude<MergeField, ListMergeField>,
+  keyof Contact
+> = {
+  firstName: "first_name",
+  lastName: "last_name",
+  position: "position",
+  companyId: "company_id",
+  notes: "notes",
+  status: "status",
+};
+
 // Get all contacts with pagination and search
 router.get(
   "/",
@@ -50,6 +167,8 @@ router.get(
     query("search").optional().trim(),
     query("tags").optional().trim(),
     query("status").optional().isIn(["hot", "warm", "cold", "all_good"]),
+    query("sortBy").optional().matches(CUSTOM_FIELD_SORT_PATTERN),
+    query("sortOrder").optional().isIn(["asc", "desc"]),
   ],
   async (
     req: AuthenticatedRequest<{}, {}, {}, ContactsQueryParams>,
@@ -74,22 +193,25 @@ router.get(
       const tags = req.query.tags;
       const status = req.query.status;
 
+      const visibility = recordVisibility("contact", "c", "$1");
+
       let countQuery = `
         SELECT COUNT(*) 
         FROM contacts c 
         LEFT JOIN companies comp ON c.company_id = comp.id 
-        LEFT JOIN shares s ON s.item_type = 'contact' AND s.item_id = c.id AND s.shared_with_user_id = $1
-        WHERE (c.user_id = $1 OR s.id IS NOT NULL)
+        ${visibility.joins}
+        WHERE ${visibility.condition}
       `;
 
       let dataQuery = `
-        SELECT c.*, comp.name as company_name,
+        SELECT c.*, comp.name as company_name, t.name as team_name,
                CASE WHEN c.user_id = $1 THEN false ELSE true END as is_shared_with_me,
-               s.permissions as permission
+               ${visibility.permission} as permission
         FROM contacts c 
         LEFT JOIN companies comp ON c.company_id = comp.id 
-        LEFT JOIN shares s ON s.item_type = 'contact' AND s.item_id = c.id AND s.shared_with_user_id = $1
-        WHERE (c.user_id = $1 OR s.id IS NOT NULL)
+        LEFT JOIN teams t ON c.team_id = t.id
+        ${visibility.joins}
+        WHERE ${visibility.condition}
       `;
 
       const params: any[] = [req.user.userId];
@@ -98,8 +220,8 @@ router.get(
         const searchCondition = ` AND (
           c.first_name ILIKE $2 OR 
           c.last_name ILIKE $2 OR 
-          c.email ILIKE $2 OR 
-          c.phone ILIKE $2 OR 
+          jsonb_path_query_array(c.emails, '$[*].email')::text ILIKE $2 OR
+          jsonb_path_query_array(c.phones, '$[*].number')::text ILIKE $2 OR
           comp.name ILIKE $2 OR
           array_to_string(c.tags, ' ') ILIKE $2
         )`;
@@ -126,7 +248,29 @@ router.get(
         params.push(status);
       }
 
-      dataQuery += ` ORDER BY c.created_at DESC LIMIT $${
+      const customFields = await getCustomFields("contact");
+      const customFilter = customFieldConditions(
+        customFields,
+        req.query.cf,
+        "c",
+        params
+      );
+      const customSort = customFieldOrderBy(
+        customFields,
+        req.query.sortBy,
+        req.query.sortOrder,
+        "c"
+      );
+      const customFieldError = customFilter.error || customSort.error;
+      if (customFieldError) {
+        res.status(400).json({ message: customFieldError });
+        return;
+      }
+      countQuery += customFilter.conditions;
+      dataQuery += customFilter.conditions;
+
+      const orderBy = customSort.orderBy ? `${customSort.orderBy}, ` : "";
+      dataQuery += ` ORDER BY ${orderBy}c.created_at DESC LIMIT $${
         params.length + 1
       } OFFSET $${params.length + 2}`;
       params.push(limit, offset);
@@ -146,14 +290,20 @@ router.get(
         lastName: contact.last_name,
         email: contact.email,
         phone: contact.phone,
+        emails: contact.emails || [],
+        phones: contact.phones || [],
+        addresses: contact.addresses || [],
         position: contact.position,
         companyId: contact.company_id,
         company_name: contact.company_name,
         notes: contact.notes,
         tags: contact.tags || [],
         status: contact.status,
+        customFields: contact.custom_fields || {},
+        teamId: contact.team_id,
+        team_name: contact.team_name,
         isSharedWithMe: contact.is_shared_with_me,
-        permission: contact.permissions,
+        permission: contact.permission,
         createdAt: contact.created_at,
         updatedAt: contact.updated_at,
         userId: contact.user_id,
@@ -180,6 +330,7 @@ router.get(
 // Create a new contact
 router.post(
   "/",
+  requirePermission("can_edit_records"),
   [
     body("firstName").trim().notEmpty().withMessage("First name is required"),
     body("lastName").trim().notEmpty().withMessage("Last name is required"),
@@ -193,6 +344,9 @@ router.post(
       .optional()
       .isIn(["hot", "warm", "cold", "all_good"])
       .withMessage("Invalid status"),
+    body("teamId").optional({ nullable: true }).isInt(),
+    body("customFields").optional().isObject(),
+    ...contactMethodValidators,
   ],
   async (
     req: AuthenticatedRequest<{}, {}, CreateContactBody>,
@@ -213,13 +367,12 @@ router.post(
       const {
         firstName,
         lastName,
-        email,
-        phone,
         position,
         companyId,
         notes,
         tags,
         status = "all_good",
+        teamId,
       } = req.body;
 
       // If companyId provided, verify it exists
@@ -234,31 +387,86 @@ router.post(
         }
       }
 
+      if (teamId && !(await canAssignTeam(teamId, req.user.userId))) {
+        res.status(403).json({
+          message: "You can't add contacts to this team",
+        });
+        return;
+      }
+
+      const customFields = await validateCustomFieldValues(
+        "contact",
+        req.body.customFields,
+        true
+      );
+      if (customFields.error) {
+        res.status(400).json({ message: customFields.error });
+        return;
+      }
+
+      const phones = await resolvePhones(req.body, []);
+      if (phones.error) {
+        res.status(400).json({ message: phones.error });
+        return;
+      }
+      const contactMethods = contactMethodColumns({
+        emails: resolveEmails(req.body, []) || [],
+        phones: phones.phones || [],
+        addresses:
+          resolveAddresses({ addresses: req.body.addresses }, []) || [],
+      });
+
       // Process tags - filter out empty strings and duplicates
       const processedTags = tags
         ? [...new Set(tags.filter((tag: string) => tag && tag.trim()))]
         : [];
 
-      const result = await db.query<Contact>(
-        `INSERT INTO contacts 
-         (first_name, last_name, email, phone, position, company_id, notes, tags, status, user_id) 
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) 
-         RETURNING *`,
-        [
-          firstName,
-          lastName,
-          email || null,
-          phone || null,
-          position || null,
-          companyId || null,
-          notes || null,
-          processedTags,
-          status,
-          req.user.userId,
-        ]
-      );
+      const userId = req.user.userId;
+      const newContact = await db.transaction(async (client) => {
+        const result = await client.query<ContactRow>(
+          `INSERT INTO contacts 
+           (first_name, last_name, email, phone, emails, phones, addresses, position, company_id, notes, tags, status, user_id, team_id, custom_fields) 
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, jsonb_strip_nulls($15::jsonb)) 
+           RETURNING *`,
+          [
+            firstName,
+            lastName,
+            contactMethods.email,
+            contactMethods.phone,
+            contactMethods.emails,
+            contactMethods.phones,
+            contactMethods.addresses,
+            position || null,
+            companyId || null,
+            notes || null,
+            processedTags,
+            status,
+            userId,
+            teamId || null,
+            JSON.stringify(customFields.values),
+          ]
+        );
+
+        // The company is kept as a current role there
+        if (companyId) {
+          await recordContactCompany(
+            client,
+            result.rows[0].id,
+            null,
+            companyId,
+            position
+          );
+        }
+
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "contact",
+          entityId: result.rows[0].id,
+          after: result.rows[0],
+        });
 
-      const newContact = result.rows[0];
+        return result.rows[0];
+      });
 
       res.status(201).json({
         id: newContact.id,
@@ -266,11 +474,16 @@ router.post(
         lastName: newContact.last_name,
         email: newContact.email,
         phone: newContact.phone,
+        emails: newContact.emails || [],
+        phones: newContact.phones || [],
+        addresses: newContact.addresses || [],
         position: newContact.position,
         companyId: newContact.company_id,
         notes: newContact.notes,
         tags: newContact.tags || [],
         status: newContact.status || "all_good",
+        customFields: newContact.custom_fields || {},
+        teamId: newContact.team_id,
         created_at: newContact.created_at,
         updated_at: newContact.updated_at,
       });
@@ -281,6 +494,382 @@ router.post(
   }
 );
 
+// Find likely duplicate contacts among the user's own contacts
+router.get(
+  "/duplicates",
+  [query("limit").optional().isInt({ min: 1, max: 200 }).toInt()],
+  async (
+    req: AuthenticatedRequest<{}, {}, {}, DuplicatesQueryParams>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const limit = Number(req.query.limit) || 50;
+
+      const [candidates, dismissals] = await Promise.all([
+        db.query<DuplicateCandidateRow>(
+          "SELECT id, first_name, last_name, emails, phones, company_id FROM contacts WHERE user_id = $1",
+          [req.user.userId]
+        ),
+        db.query<DismissalRow>(
+          `SELECT d.contact_id, d.other_contact_id
+           FROM contact_duplicate_dismissals d
+           JOIN contacts c ON c.id = d.contact_id
+           WHERE c.user_id = $1`,
+          [req.user.userId]
+        ),
+      ]);
+
+      const dismissed = new Set(
+        dismissals.rows.map(
+          (row) => `${row.contact_id}:${row.other_contact_id}`
+        )
+      );
+      const pairs = findDuplicatePairs(candidates.rows).filter(
+        (pair) => !dismissed.has(pair.contactIds.join(":"))
+      );
+      const page = pairs.slice(0, limit);
+
+      const contactIds = [...new Set(page.flatMap((pair) => pair.contactIds))];
+      const details = await db.query<DuplicateContactRow>(
+        `SELECT c.*, comp.name as company_name,
+           (SELECT COUNT(*) FROM deals WHERE contact_id = c.id) as deal_count,
+           (SELECT COUNT(*) FROM activities WHERE contact_id = c.id) as activity_count,
+           (SELECT COUNT(*) FROM contact_notes WHERE contact_id = c.id) as note_count
+         FROM contacts c
+         LEFT JOIN companies comp ON c.company_id = comp.id
+         WHERE c.id = ANY($1)`,
+        [contactIds]
+      );
+
+      const contactsById = new Map(
+        details.rows.map((contact) => [
+          Number(contact.id),
+          {
+            id: contact.id,
+            firstName: contact.first_name,
+            lastName: contact.last_name,
+            email: contact.email,
+            phone: contact.phone,
+            emails: contact.emails || [],
+            phones: contact.phones || [],
+            addresses: contact.addresses || [],
+            position: contact.position,
+            companyId: contact.company_id,
+            company_name: contact.company_name,
+            notes: contact.notes,
+            tags: contact.tags || [],
+            status: contact.status || "all_good",
+            dealCount: parseInt(contact.deal_count, 10),
+            activityCount: parseInt(contact.activity_count, 10),
+            noteCount: parseInt(contact.note_count, 10),
+            createdAt: contact.created_at,
+            updatedAt: contact.updated_at,
+          },
+        ])
+      );
+
+      res.json({
+        pairs: page.map((pair) => ({
+          score: pair.score,
+          reasons: pair.reasons,
+          contacts: pair.contactIds.map((id) => contactsById.get(id)),
+        })),
+        total: pairs.length,
+      });
+    } catch (error) {
+      console.error("Find duplicate contacts error:", error);
+      res.status(500).json({ message: "Server error finding duplicates" });
+    }
+  }
+);
+
+// Mark a suggested pair as different people so it is no longer suggested
+router.post(
+  "/duplicates/dismiss",
+  requirePermission("can_edit_records"),
+  [
+    body("contactIds")
+      .isArray({ min: 2, max: 2 })
+      .withMessage("Exactly two contacts are required"),
+    body("contactIds.*").isInt().toInt(),
+  ],
+  async (
+    req: AuthenticatedRequest<{}, {}, DismissDuplicateBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const [contactId, otherContactId] = [...req.body.contactIds].sort(
+        (a, b) => a - b
+      );
+      if (contactId === otherContactId) {
+        res.status(400).json({ message: "Choose two different contacts" });
+        return;
+      }
+
+      const owned = await db.query<{ id: string }>(
+        "SELECT id FROM contacts WHERE id = ANY($1) AND user_id = $2",
+        [[contactId, otherContactId], req.user.userId]
+      );
+      if (owned.rows.length !== 2) {
+        res.status(404).json({ message: "Contact not found" });
+        return;
+      }
+
+      await db.query(
+        `INSERT INTO contact_duplicate_dismissals (contact_id, other_contact_id, dismissed_by_user_id)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (contact_id, other_contact_id) DO NOTHING`,
+        [contactId, otherContactId, req.user.userId]
+      );
+
+      res.json({ message: "Contacts marked as not duplicates" });
+    } catch (error) {
+      console.error("Dismiss duplicate contacts error:", error);
+      res.status(500).json({ message: "Server error dismissing duplicates" });
+    }
+  }
+);
+
+// Merge two contacts: the survivor takes the chosen fields and everything
+// linked to the merged contact, which is then deleted
+router.post(
+  "/merge",
+  requirePermission("can_edit_records", "can_delete_contacts"),
+  [
+    body("survivorId").isInt().toInt(),
+    body("mergedId").isInt().toInt(),
+    body("fields").optional().isObject(),
+  ],
+  async (
+    req: AuthenticatedRequest<{}, {}, MergeContactsBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { survivorId, mergedId, fields = {} } = req.body;
+      const userId = req.user.userId;
+
+      if (survivorId === mergedId) {
+        res.status(400).json({ message: "Cannot merge a contact with itself" });
+        return;
+      }
+
+      for (const [field, source] of Object.entries(fields)) {
+        if (
+          !(field in MERGE_FIELDS) &&
+          !LIST_MERGE_FIELDS.includes(field as ListMergeField)
+        ) {
+          res.status(400).json({ message: `Unknown field "${field}"` });
+          return;
+        }
+        if (source !== "survivor" && source !== "merged") {
+          res
+            .status(400)
+            .json({ message: `Choose "survivor" or "merged" for ${field}` });
+          return;
+        }
+      }
+
+      const result = await db.transaction(async (client) => {
+        // Only the owner may merge, since the merged contact is deleted
+        const existing = await client.query<Contact>(
+          "SELECT * FROM contacts WHERE id = ANY($1) AND user_id = $2 FOR UPDATE",
+          [[survivorId, mergedId], userId]
+        );
+        const survivor = existing.rows.find(
+          (row) => Number(row.id) === survivorId
+        );
+        const merged = existing.rows.find((row) => Number(row.id) === mergedId);
+        if (!survivor || !merged) {
+          return null;
+        }
+
+        // Keep the survivor's value unless told otherwise or it is empty
+        const assignments: string[] = [];
+        const values: any[] = [];
+        for (const [field, column] of Object.entries(MERGE_FIELDS)) {
+          const source = fields[field as MergeField];
+          const value =
+            source === "merged" ||
+            (!source && (survivor[column] === null || survivor[column] === ""))
+              ? merged[column]
+              : survivor[column];
+          values.push(value ?? null);
+          assignments.push(`${column} = $${values.length}`);
+        }
+
+        // Both contacts' emails, phones and addresses are kept
+        const contactMethods = contactMethodColumns(
+          mergeContactMethods(survivor, merged, fields)
+        );
+        for (const [column, value] of Object.entries(contactMethods)) {
+          values.push(value);
+          assignments.push(`${column} = $${values.length}`);
+        }
+
+        values.push([
+          ...new Set([...(survivor.tags || []), ...(merged.tags || [])]),
+        ]);
+        assignments.push(`tags = $${values.length}`);
+
+        // Custom fields the survivor leaves empty take the merged contact's
+        values.push(
+          JSON.stringify({
+            ...merged.custom_fields,
+            ...survivor.custom_fields,
+          })
+        );
+        assignments.push(`custom_fields = $${values.length}::jsonb`);
+
+        values.push(survivorId);
+        await client.query(
+          `UPDATE contacts
+           SET ${assignments.join(", ")}, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $${values.length}`,
+          values
+        );
+
+        const deals = await client.query(
+          "UPDATE deals SET contact_id = $1, updated_at = CURRENT_TIMESTAMP WHERE contact_id = $2",
+          [survivorId, mergedId]
+        );
+        const activities = await client.query(
+          "UPDATE activities SET contact_id = $1, updated_at = CURRENT_TIMESTAMP WHERE contact_id = $2",
+          [survivorId, mergedId]
+        );
+        const notes = await client.query(
+          "UPDATE contact_notes SET contact_id = $1 WHERE contact_id = $2",
+          [survivorId, mergedId]
+        );
+        await moveContactOrganizations(client, mergedId, survivorId);
+        // The survivor's company and position follow its current roles
+        const contact = await client.query<Contact>(
+          "SELECT * FROM contacts WHERE id = $1",
+          [survivorId]
+        );
+
+        // Someone who could see either contact keeps access to the survivor,
+        // with write access if either share granted it
+        await client.query(
+          `UPDATE shares s SET permissions = 'write'
+           FROM shares m
+           WHERE s.item_type = 'contact' AND s.item_id = $1
+             AND m.item_type = 'contact' AND m.item_id = $2
+             AND m.shared_with_user_id = s.shared_with_user_id
+             AND m.permissions = 'write'`,
+          [survivorId, mergedId]
+        );
+        const shares = await client.query(
+          `UPDATE shares m SET item_id = $1
+           WHERE m.item_type = 'contact' AND m.item_id = $2
+             AND NOT EXISTS (
+               SELECT 1 FROM shares s
+               WHERE s.item_type = 'contact' AND s.item_id = $1
+                 AND s.shared_with_user_id = m.shared_with_user_id
+             )`,
+          [survivorId, mergedId]
+        );
+        await client.query(
+          "DELETE FROM shares WHERE item_type = 'contact' AND item_id = $1",
+          [mergedId]
+        );
+
+        await client.query("DELETE FROM contacts WHERE id = $1", [mergedId]);
+
+        const moved = {
+          deals: deals.rowCount || 0,
+          activities: activities.rowCount || 0,
+          notes: notes.rowCount || 0,
+          shares: shares.rowCount || 0,
+        };
+
+        await recordAudit(client, req, {
+          action: "merge",
+          entityType: "contact",
+          entityId: survivorId,
+          before: survivor,
+          after: contact.rows[0],
+          metadata: { mergedId, moved },
+        });
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "contact",
+          entityId: mergedId,
+          before: merged,
+          metadata: { mergedInto: survivorId },
+        });
+
+        return { contact: contact.rows[0], moved };
+      });
+
+      if (!result) {
+        res.status(404).json({
+          message: "Contact not found or you don't have permission to merge it",
+        });
+        return;
+      }
+
+      const { contact, moved } = result;
+
+      res.json({
+        contact: {
+          id: contact.id,
+          firstName: contact.first_name,
+          lastName: contact.last_name,
+          email: contact.email,
+          phone: contact.phone,
+          emails: contact.emails || [],
+          phones: contact.phones || [],
+          addresses: contact.addresses || [],
+          position: contact.position,
+          companyId: contact.company_id,
+          notes: contact.notes,
+          tags: contact.tags || [],
+          status: contact.status || "all_good",
+          created_at: contact.created_at,
+          updated_at: contact.updated_at,
+        },
+        moved,
+      });
+    } catch (error) {
+      console.error("Merge contacts error:", error);
+      res.status(500).json({ message: "Server error merging contacts" });
+    }
+  }
+);
+
 // Get a specific contact
 router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -291,14 +880,16 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
 
     const contactId = req.params.id;
 
+    const visibility = recordVisibility("contact", "c", "$1");
     const result = await db.query<ContactRow>(
-      `SELECT c.*, comp.name as company_name,
+      `SELECT c.*, comp.name as company_name, t.name as team_name,
               CASE WHEN c.user_id = $1 THEN false ELSE true END as is_shared_with_me,
-              s.permissions as permission
+              ${visibility.permission} as permission
        FROM contacts c 
        LEFT JOIN companies comp ON c.company_id = comp.id 
-       LEFT JOIN shares s ON s.item_type = 'contact' AND s.item_id = c.id AND s.shared_with_user_id = $1
-       WHERE c.id = $2 AND (c.user_id = $1 OR s.id IS NOT NULL)`,
+       LEFT JOIN teams t ON c.team_id = t.id
+       ${visibility.joins}
+       WHERE c.id = $2 AND ${visibility.condition}`,
       [req.user.userId, contactId]
     );
 
@@ -315,14 +906,22 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
       lastName: contact.last_name,
       email: contact.email,
       phone: contact.phone,
+      emails: contact.emails || [],
+      phones: contact.phones || [],
+      addresses: contact.addresses || [],
       position: contact.position,
       companyId: contact.company_id,
       notes: contact.notes,
       tags: contact.tags || [],
       status: contact.status || "all_good",
+      customFields: contact.custom_fields || {},
       created_at: contact.created_at,
       updated_at: contact.updated_at,
       company_name: contact.company_name,
+      teamId: contact.team_id,
+      team_name: contact.team_name,
+      isSharedWithMe: contact.is_shared_with_me,
+      permission: contact.permission,
     });
   } catch (error) {
     console.error("Get contact error:", error);
@@ -330,9 +929,78 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// Get the change history of a contact, newest first
+router.get(
+  "/:id/history",
+  [
+    query("page").optional().isInt({ min: 1 }).toInt(),
+    query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  async (
+    req: AuthenticatedRequest<{ id: string }, {}, {}, HistoryQueryParams>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+
+      const visibility = recordVisibility("contact", "c", "$2");
+      const existingContact = await db.query<{ id: string }>(
+        `SELECT c.id FROM contacts c
+         ${visibility.joins}
+         WHERE c.id = $1 AND ${visibility.condition}`,
+        [id, req.user.userId]
+      );
+
+      if (existingContact.rows.length === 0) {
+        res.status(404).json({ message: "Contact not found" });
+        return;
+      }
+
+      const { entries, total } = await getRecordHistory(
+        "contact",
+        id,
+        limit,
+        (page - 1) * limit
+      );
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        entries,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+    } catch (error) {
+      console.error("Get contact history error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error fetching contact history" });
+    }
+  }
+);
+
 // Update contact
 router.put(
   "/:id",
+  requirePermission("can_edit_records"),
   [
     body("firstName").optional().trim().notEmpty(),
     body("lastName").optional().trim().notEmpty(),
@@ -343,6 +1011,9 @@ router.put(
     body("notes").optional().trim(),
     body("tags").optional().isArray(),
     body("status").optional().isIn(["hot", "warm", "cold", "all_good"]),
+    body("teamId").optional({ nullable: true }).isInt(),
+    body("customFields").optional().isObject(),
+    ...contactMethodValidators,
   ],
   async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -361,15 +1032,20 @@ router.put(
       const updates = req.body;
 
       // Check if contact exists and user has edit permission
+      const visibility = recordVisibility("contact", "c", "$2");
       const existingContact = await db.query<{
         id: string;
         user_id: string;
         permission?: string;
+        emails: ContactEmail[];
+        phones: ContactPhone[];
+        addresses: PostalAddress[];
       }>(
-        `SELECT c.id, c.user_id, s.permissions as permission 
+        `SELECT c.id, c.user_id, c.emails, c.phones, c.addresses,
+                ${visibility.permission} as permission 
          FROM contacts c 
-         LEFT JOIN shares s ON s.item_type = 'contact' AND s.item_id = c.id AND s.shared_with_user_id = $2
-         WHERE c.id = $1 AND (c.user_id = $2 OR s.id IS NOT NULL)`,
+         ${visibility.joins}
+         WHERE c.id = $1 AND ${visibility.condition}`,
         [id, req.user.userId]
       );
 
@@ -378,18 +1054,24 @@ router.put(
         return;
       }
 
-      const contactPermissions = existingContact.rows[0];
       // Check if user is owner or has write permission
-      if (
-        contactPermissions.user_id !== req.user.userId &&
-        contactPermissions.permission !== "write"
-      ) {
+      if (!canEditRecord(existingContact.rows[0], req.user.userId)) {
         res
           .status(403)
           .json({ message: "You don't have permission to edit this contact" });
         return;
       }
 
+      if (
+        updates.teamId &&
+        !(await canAssignTeam(updates.teamId, req.user.userId))
+      ) {
+        res.status(403).json({
+          message: "You can't add contacts to this team",
+        });
+        return;
+      }
+
       // If companyId provided, verify it exists
       if (updates.companyId) {
         const companyCheck = await db.query<{ id: string }>(
@@ -402,12 +1084,41 @@ router.put(
         }
       }
 
+      const customFields = await validateCustomFieldValues(
+        "contact",
+        updates.customFields,
+        false
+      );
+      if (customFields.error) {
+        res.status(400).json({ message: customFields.error });
+        return;
+      }
+
+      const current = existingContact.rows[0];
+      const phones = await resolvePhones(updates, current.phones);
+      if (phones.error) {
+        res.status(400).json({ message: phones.error });
+        return;
+      }
+      const contactMethods = contactMethodColumns({
+        emails: resolveEmails(updates, current.emails),
+        phones: phones.phones,
+        addresses: resolveAddresses(
+          { addresses: updates.addresses },
+          current.addresses
+        ),
+      });
+
       // Build dynamic update query
       const fields: string[] = [];
       const values: any[] = [];
       let paramCount = 1;
 
       Object.entries(updates).forEach(([key, value]) => {
+        if (CONTACT_METHOD_KEYS.includes(key)) {
+          // Stored below from the resolved lists
+          return;
+        }
         if (key === "tags") {
           // Process tags - filter out empty strings and duplicates
           const processedTags = Array.isArray(value)
@@ -419,6 +1130,12 @@ router.put(
             : [];
           fields.push(`tags = $${paramCount}`);
           values.push(processedTags);
+        } else if (key === "customFields") {
+          // Only the fields sent change; the rest keep their values
+          fields.push(
+            `custom_fields = ${mergeCustomFieldsSql(`$${paramCount}`)}`
+          );
+          values.push(JSON.stringify(customFields.values));
         } else {
           const dbField =
             key === "firstName"
@@ -427,6 +1144,8 @@ router.put(
               ? "last_name"
               : key === "companyId"
               ? "company_id"
+              : key === "teamId"
+              ? "team_id"
               : key;
           fields.push(`${dbField} = $${paramCount}`);
           values.push(value);
@@ -434,6 +1153,14 @@ router.put(
         paramCount++;
       });
 
+      // Lists are stored whole, with the primary entries copied to the
+      // single email and phone columns
+      Object.entries(contactMethods).forEach(([column, value]) => {
+        fields.push(`${column} = $${paramCount}`);
+        values.push(value);
+        paramCount++;
+      });
+
       if (fields.length === 0) {
         res.status(400).json({ message: "No valid fields to update" });
         return;
@@ -449,8 +1176,42 @@ router.put(
         RETURNING *
       `;
 
-      const result = await db.query<Contact>(query, values);
-      const updatedContact = result.rows[0];
+      const updatedContact = await db.transaction(async (client) => {
+        const previous = await client.query<ContactRow>(
+          "SELECT * FROM contacts WHERE id = $1 FOR UPDATE",
+          [id]
+        );
+        let result = await client.query<ContactRow>(query, values);
+        if (!result.rows[0]) {
+          return undefined;
+        }
+
+        // A new company ends the role at the previous one and the position
+        // becomes the title at the current one
+        if (updates.companyId !== undefined || updates.position !== undefined) {
+          await recordContactCompany(
+            client,
+            id,
+            previous.rows[0].company_id,
+            result.rows[0].company_id,
+            result.rows[0].position
+          );
+          result = await client.query<ContactRow>(
+            "SELECT * FROM contacts WHERE id = $1",
+            [id]
+          );
+        }
+
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "contact",
+          entityId: id,
+          before: previous.rows[0],
+          after: result.rows[0],
+        });
+
+        return result.rows[0];
+      });
 
       if (!updatedContact) {
         res
@@ -465,11 +1226,16 @@ router.put(
         lastName: updatedContact.last_name,
         email: updatedContact.email,
         phone: updatedContact.phone,
+        emails: updatedContact.emails || [],
+        phones: updatedContact.phones || [],
+        addresses: updatedContact.addresses || [],
         position: updatedContact.position,
         companyId: updatedContact.company_id,
         notes: updatedContact.notes,
         tags: updatedContact.tags || [],
         status: updatedContact.status || "all_good",
+        customFields: updatedContact.custom_fields || {},
+        teamId: updatedContact.team_id,
         created_at: updatedContact.created_at,
         updated_at: updatedContact.updated_at,
       });
@@ -481,34 +1247,65 @@ router.put(
 );
 
 // Delete contact
-router.delete("/:id", async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
-    }
+router.delete(
+  "/:id",
+  requirePermission("can_delete_contacts"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
 
-    const { id } = req.params;
+      const { id } = req.params;
 
-    // Only allow owner to delete (not shared users)
-    const result = await db.query<{ id: string }>(
-      "DELETE FROM contacts WHERE id = $1 AND user_id = $2 RETURNING id",
-      [id, req.user.userId]
-    );
+      const visibility = recordVisibility("contact", "c", "$2");
+      const existingContact = await db.query<{
+        id: string;
+        user_id: string;
+        team_role?: TeamRole;
+      }>(
+        `SELECT c.id, c.user_id, ${visibility.teamRole} as team_role
+         FROM contacts c
+         ${visibility.joins}
+         WHERE c.id = $1 AND ${visibility.condition}`,
+        [id, req.user.userId]
+      );
 
-    if (result.rows.length === 0) {
-      res.status(404).json({
-        message: "Contact not found or you don't have permission to delete it",
+      if (existingContact.rows.length === 0) {
+        res.status(404).json({ message: "Contact not found" });
+        return;
+      }
+
+      // Only the owner or the team's owners and managers can delete, not shared users
+      if (!canDeleteRecord(existingContact.rows[0], req.user.userId)) {
+        res.status(403).json({
+          message: "You don't have permission to delete this contact",
+        });
+        return;
+      }
+
+      await db.transaction(async (client) => {
+        const deleted = await client.query<ContactRow>(
+          "DELETE FROM contacts WHERE id = $1 RETURNING *",
+          [id]
+        );
+
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "contact",
+          entityId: id,
+          before: deleted.rows[0],
+        });
       });
-      return;
-    }
 
-    res.json({ message: "Contact deleted successfully" });
-  } catch (error) {
-    console.error("Delete contact error:", error);
-    res.status(500).json({ message: "Server error deleting contact" });
+      res.json({ message: "Contact deleted successfully" });
+    } catch (error) {
+      console.error("Delete contact error:", error);
+      res.status(500).json({ message: "Server error deleting contact" });
+    }
   }
-});
+);
 
 // Get all unique tags for user's contacts
 router.get("/tags/all", async (req: AuthenticatedRequest, res: Response) => {
@@ -0,0 +1,56 @@
+import express, { Response } from "express";
+import { query, validationResult } from "express-validator";
+import db from "../config/database";
+import { authenticateToken } from "../middleware/auth";
+import {
+  CUSTOM_FIELD_ENTITIES,
+  formatCustomField,
+} from "../utils/customFields";
+import { AuthenticatedRequest, CustomField, CustomFieldEntity } from "../types";
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+interface CustomFieldQueryParams {
+  entityType?: CustomFieldEntity;
+}
+
+// Get the custom fields forms and lists show, for one kind of record or all
+router.get(
+  "/",
+  [query("entityType").optional().isIn(CUSTOM_FIELD_ENTITIES)],
+  async (
+    req: AuthenticatedRequest<{}, {}, {}, CustomFieldQueryParams>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { entityType } = req.query;
+      const result = await db.query<CustomField>(
+        `SELECT * FROM custom_fields
+         WHERE ($1::text IS NULL OR entity_type = $1)
+         ORDER BY entity_type, position, id`,
+        [entityType || null]
+      );
+
+      res.json({ customFields: result.rows.map(formatCustomField) });
+    } catch (error) {
+      console.error("Get custom fields error:", error);
+      res.status(500).json({ message: "Server error fetching custom fields" });
+    }
+  }
+);
+
+export default router;
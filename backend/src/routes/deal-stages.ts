@@ -0,0 +1,420 @@
+import express, { Response } from "express";
+import { body, query, validationResult } from "express-validator";
+import db from "../config/database";
+import { authenticateToken } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
+import { AuthenticatedRequest } from "../types";
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+interface DealStageRow {
+  id: string;
+  name: string;
+  order_index: number;
+  kind: "open" | "won" | "lost";
+  default_probability: number;
+  user_id: string;
+  created_at: Date;
+  deal_count?: string;
+}
+
+interface CreateStageBody {
+  name: string;
+  kind?: "open" | "won" | "lost";
+  defaultProbability?: number;
+}
+
+interface UpdateStageBody {
+  name?: string;
+  kind?: "open" | "won" | "lost";
+  defaultProbability?: number;
+}
+
+interface ReorderStagesBody {
+  stageIds: string[];
+}
+
+interface DeleteStageQueryParams {
+  reassignTo?: string;
+}
+
+interface CountRow {
+  count: string;
+}
+
+const STAGE_KINDS = ["open", "won", "lost"];
+
+const nameTaken = async (
+  userId: string,
+  name: string,
+  excludeId?: string
+): Promise<boolean> => {
+  const result = await db.query<CountRow>(
+    `SELECT COUNT(*) FROM deal_stages
+     WHERE user_id = $1 AND LOWER(name) = LOWER($2) AND id <> COALESCE($3, -1)`,
+    [userId, name, excludeId || null]
+  );
+  return parseInt(result.rows[0].count, 10) > 0;
+};
+
+// Get deal stages
+router.get("/", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return;
+    }
+
+    const result = await db.query<DealStageRow>(
+      `SELECT ds.*,
+        (SELECT COUNT(*) FROM deals d WHERE d.stage_id = ds.id) as deal_count
+      FROM deal_stages ds
+      WHERE ds.user_id = $1
+      ORDER BY ds.order_index`,
+      [req.user.userId]
+    );
+
+    res.json(
+      result.rows.map((stage) => ({
+        ...stage,
+        deal_count: parseInt(stage.deal_count || "0", 10),
+      }))
+    );
+  } catch (error) {
+    console.error("Get deal stages error:", error);
+    res.status(500).json({ message: "Server error fetching deal stages" });
+  }
+});
+
+// Create deal stage (appended to the end of the pipeline)
+router.post(
+  "/",
+  requirePermission("can_manage_stages"),
+  [
+    body("name").trim().notEmpty().isLength({ max: 100 }),
+    body("kind").optional().isIn(STAGE_KINDS),
+    body("defaultProbability").optional().isInt({ min: 0, max: 100 }).toInt(),
+  ],
+  async (req: AuthenticatedRequest<{}, {}, CreateStageBody>, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { name, kind = "open", defaultProbability } = req.body;
+
+      if (await nameTaken(req.user.userId, name)) {
+        res
+          .status(400)
+          .json({ message: "A stage with this name already exists" });
+        return;
+      }
+
+      const probability = defaultProbability ?? (kind === "won" ? 100 : 0);
+
+      const result = await db.query<DealStageRow>(
+        `INSERT INTO deal_stages (name, kind, default_probability, order_index, user_id)
+         VALUES ($1, $2, $3,
+           (SELECT COALESCE(MAX(order_index), 0) + 1 FROM deal_stages WHERE user_id = $4),
+           $4)
+         RETURNING *`,
+        [name, kind, probability, req.user.userId]
+      );
+
+      res.status(201).json({ ...result.rows[0], deal_count: 0 });
+    } catch (error) {
+      console.error("Create deal stage error:", error);
+      res.status(500).json({ message: "Server error creating deal stage" });
+    }
+  }
+);
+
+// Reorder deal stages; stageIds must list every stage the user owns
+router.put(
+  "/order",
+  requirePermission("can_manage_stages"),
+  [body("stageIds").isArray({ min: 1 }), body("stageIds.*").isInt()],
+  async (
+    req: AuthenticatedRequest<{}, {}, ReorderStagesBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const stageIds = req.body.stageIds.map((id) => parseInt(id, 10));
+      const userId = req.user.userId;
+
+      const existing = await db.query<{ id: number }>(
+        "SELECT id FROM deal_stages WHERE user_id = $1",
+        [userId]
+      );
+      const owned = new Set(existing.rows.map((row) => row.id));
+
+      if (
+        stageIds.length !== owned.size ||
+        new Set(stageIds).size !== stageIds.length ||
+        stageIds.some((id) => !owned.has(id))
+      ) {
+        res
+          .status(400)
+          .json({ message: "stageIds must contain each of your stages once" });
+        return;
+      }
+
+      const stages = await db.transaction(async (client) => {
+        await client.query(
+          `UPDATE deal_stages ds
+           SET order_index = ordered.ordinality
+           FROM unnest($1::int[]) WITH ORDINALITY AS ordered(id, ordinality)
+           WHERE ds.id = ordered.id AND ds.user_id = $2`,
+          [stageIds, userId]
+        );
+        const result = await client.query<DealStageRow>(
+          "SELECT * FROM deal_stages WHERE user_id = $1 ORDER BY order_index",
+          [userId]
+        );
+        return result.rows;
+      });
+
+      res.json(stages);
+    } catch (error) {
+      console.error("Reorder deal stages error:", error);
+      res.status(500).json({ message: "Server error reordering deal stages" });
+    }
+  }
+);
+
+// Update deal stage
+router.put(
+  "/:stageId",
+  requirePermission("can_manage_stages"),
+  [
+    body("name").optional().trim().notEmpty().isLength({ max: 100 }),
+    body("kind").optional().isIn(STAGE_KINDS),
+    body("defaultProbability").optional().isInt({ min: 0, max: 100 }).toInt(),
+  ],
+  async (
+    req: AuthenticatedRequest<{ stageId: string }, {}, UpdateStageBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { stageId } = req.params;
+      const { name, kind, defaultProbability } = req.body;
+
+      if (name && (await nameTaken(req.user.userId, name, stageId))) {
+        res
+          .status(400)
+          .json({ message: "A stage with this name already exists" });
+        return;
+      }
+
+      const fields: string[] = [];
+      const values: any[] = [];
+      let paramCount = 1;
+
+      if (name !== undefined) {
+        fields.push(`name = $${paramCount++}`);
+        values.push(name);
+      }
+      if (kind !== undefined) {
+        fields.push(`kind = $${paramCount++}`);
+        values.push(kind);
+      }
+      // Like on create, a new kind brings its probability unless one is given
+      const probability =
+        defaultProbability ??
+        (kind === undefined ? undefined : kind === "won" ? 100 : 0);
+      if (probability !== undefined) {
+        fields.push(`default_probability = $${paramCount++}`);
+        values.push(probability);
+      }
+
+      if (fields.length === 0) {
+        res.status(400).json({ message: "No valid fields to update" });
+        return;
+      }
+
+      values.push(stageId, req.user.userId);
+
+      const result = await db.query<DealStageRow>(
+        `UPDATE deal_stages
+         SET ${fields.join(", ")}
+         WHERE id = $${paramCount} AND user_id = $${paramCount + 1}
+         RETURNING *`,
+        values
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ message: "Deal stage not found" });
+        return;
+      }
+
+      res.json(result.rows[0]);
+    } catch (error) {
+      console.error("Update deal stage error:", error);
+      res.status(500).json({ message: "Server error updating deal stage" });
+    }
+  }
+);
+
+// Delete deal stage; deals still in it must be moved with ?reassignTo=<stageId>
+router.delete(
+  "/:stageId",
+  requirePermission("can_manage_stages"),
+  [query("reassignTo").optional().isInt()],
+  async (
+    req: AuthenticatedRequest<
+      { stageId: string },
+      {},
+      {},
+      DeleteStageQueryParams
+    >,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { stageId } = req.params;
+      const { reassignTo } = req.query;
+      const userId = req.user.userId;
+
+      const stages = await db.query<DealStageRow>(
+        "SELECT * FROM deal_stages WHERE user_id = $1",
+        [userId]
+      );
+      const stage = stages.rows.find((row) => String(row.id) === stageId);
+
+      if (!stage) {
+        res.status(404).json({ message: "Deal stage not found" });
+        return;
+      }
+
+      if (stages.rows.length === 1) {
+        res
+          .status(400)
+          .json({ message: "The pipeline must keep at least one stage" });
+        return;
+      }
+
+      if (reassignTo) {
+        const target = stages.rows.find(
+          (row) => String(row.id) === String(reassignTo)
+        );
+        if (!target || String(target.id) === stageId) {
+          res.status(400).json({ message: "Invalid reassignment stage ID" });
+          return;
+        }
+      }
+
+      const outcome = await db.transaction(async (client) => {
+        // Hold the stage so no deal moves into it between the count and the delete
+        await client.query(
+          "SELECT id FROM deal_stages WHERE id = $1 FOR UPDATE",
+          [stageId]
+        );
+        const dealCount = await client.query<CountRow>(
+          "SELECT COUNT(*) FROM deals WHERE stage_id = $1",
+          [stageId]
+        );
+        const count = parseInt(dealCount.rows[0].count, 10);
+
+        if (count > 0 && !reassignTo) {
+          return { count, deleted: false };
+        }
+
+        if (count > 0) {
+          await client.query(
+            `INSERT INTO deal_stage_history (deal_id, from_stage_id, to_stage_id, changed_by_user_id)
+             SELECT id, stage_id, $2, $3 FROM deals WHERE stage_id = $1`,
+            [stageId, reassignTo, userId]
+          );
+
+          // Append the moved deals below the ones already in the target column
+          await client.query(
+            `UPDATE deals d
+             SET stage_id = $2,
+               position = base.max_position + moved.rn,
+               updated_at = CURRENT_TIMESTAMP
+             FROM (
+               SELECT id, ROW_NUMBER() OVER (ORDER BY position, created_at DESC) AS rn
+               FROM deals WHERE stage_id = $1
+             ) moved,
+             (SELECT COALESCE(MAX(position), -1) AS max_position FROM deals WHERE stage_id = $2) base
+             WHERE d.id = moved.id`,
+            [stageId, reassignTo]
+          );
+        }
+
+        await client.query("DELETE FROM deal_stages WHERE id = $1", [stageId]);
+
+        // Close the gap left in the ordering
+        await client.query(
+          `UPDATE deal_stages
+           SET order_index = order_index - 1
+           WHERE user_id = $1 AND order_index > $2`,
+          [userId, stage.order_index]
+        );
+
+        return { count, deleted: true };
+      });
+
+      if (!outcome.deleted) {
+        res.status(409).json({
+          message:
+            "This stage still has deals. Choose a stage to move them to.",
+          dealCount: outcome.count,
+        });
+        return;
+      }
+
+      res.json({
+        message: "Deal stage deleted successfully",
+        reassignedDeals: outcome.count,
+      });
+    } catch (error) {
+      console.error("Delete deal stage error:", error);
+      res.status(500).json({ message: "Server error deleting deal stage" });
+    }
+  }
+);
+
+export default router;
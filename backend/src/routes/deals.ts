@@ -2,7 +2,26 @@ import express, { Response } from "express";
 import { body, validationResult, query } from "express-validator";
 import db from "../config/database";
 import { authenticateToken } from "../middleware/auth";
-import { AuthenticatedRequest, Deal } from "../types";
+import { requirePermission } from "../middleware/permissions";
+import { AuthenticatedRequest, Deal, TeamRole } from "../types";
+import { recordStageChange } from "../utils/dealStageHistory";
+import { companyFilterSql } from "../utils/organizationHierarchy";
+import { getRecordHistory, recordAudit } from "../utils/auditLog";
+import {
+  CUSTOM_FIELD_SORT_PATTERN,
+  CustomFieldFilters,
+  customFieldConditions,
+  customFieldOrderBy,
+  getCustomFields,
+  mergeCustomFieldsSql,
+  validateCustomFieldValues,
+} from "../utils/customFields";
+import {
+  canAssignTeam,
+  canDeleteRecord,
+  canEditRecord,
+  recordVisibility,
+} from "../utils/visibility";
 
 const router = express.Router();
 
@@ -13,14 +32,22 @@ interface DealStage {
   id: string;
   name: string;
   order_index: number;
+  kind: "open" | "won" | "lost";
+  default_probability: number;
   user_id: string;
   created_at: Date;
 }
 
+interface HistoryQueryParams {
+  page?: number;
+  limit?: number;
+}
+
 interface DealRow extends Deal {
   stage_name?: string;
   contact_name?: string;
   company_name?: string;
+  team_name?: string;
   is_shared_with_me?: boolean;
   permissions?: string;
 }
@@ -29,10 +56,21 @@ interface CountRow {
   count: string;
 }
 
+interface BoardDealRow extends DealRow {
+  board_stage_id: string | null;
+}
+
+interface StageTotals {
+  count: number;
+  value: number;
+  weightedValue: number;
+}
+
 interface DealsByStageResponse {
   [stageId: string]: {
     stage: DealStage;
     deals: DealRow[];
+    totals: StageTotals;
   };
 }
 
@@ -46,6 +84,8 @@ interface CreateDealBody {
   expectedCloseDate?: string;
   probability?: number;
   notes?: string;
+  teamId?: string | null;
+  customFields?: Record<string, unknown>;
 }
 
 interface UpdateDealBody {
@@ -58,6 +98,13 @@ interface UpdateDealBody {
   expectedCloseDate?: string;
   probability?: number;
   notes?: string;
+  teamId?: string | null;
+  customFields?: Record<string, unknown>;
+}
+
+interface MoveDealBody {
+  stageId: string;
+  position?: number;
 }
 
 interface DealsQueryParams {
@@ -66,37 +113,32 @@ interface DealsQueryParams {
   search?: string;
   stageId?: string;
   companyId?: string;
+  // With companyId, also list the organization's subsidiaries' deals
+  includeSubsidiaries?: boolean;
+  // Custom field filters, cf[key]=value
+  cf?: CustomFieldFilters;
+  // "cf.<key>" to sort by a custom field
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
 }
 
 interface ValidationRow {
   id: string;
 }
 
+interface StageCheckRow {
+  id: string;
+  default_probability: number;
+}
+
 interface ExistingDealRow {
   id: string;
   user_id: string;
-  permissions?: string;
+  stage_id?: string;
+  permission?: string;
+  team_role?: TeamRole;
 }
 
-// Get deal stages
-router.get("/stages", async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
-    }
-
-    const result = await db.query<DealStage>(
-      "SELECT * FROM deal_stages WHERE user_id = $1 ORDER BY order_index",
-      [req.user.userId]
-    );
-    res.json(result.rows);
-  } catch (error) {
-    console.error("Get deal stages error:", error);
-    res.status(500).json({ message: "Server error fetching deal stages" });
-  }
-});
-
 // Get all deals with pagination and filtering
 router.get(
   "/",
@@ -106,6 +148,9 @@ router.get(
     query("search").optional().trim(),
     query("stageId").optional().isInt(),
     query("companyId").optional().isInt(),
+    query("includeSubsidiaries").optional().isBoolean().toBoolean(),
+    query("sortBy").optional().matches(CUSTOM_FIELD_SORT_PATTERN),
+    query("sortOrder").optional().isIn(["asc", "desc"]),
   ],
   async (
     req: AuthenticatedRequest<{}, {}, {}, DealsQueryParams>,
@@ -126,13 +171,16 @@ router.get(
       const page = Number(req.query.page) || 1;
       const limit = Number(req.query.limit) || 20;
       const offset = (page - 1) * limit;
-      const { search, stageId, companyId } = req.query;
+      const { search, stageId, companyId, includeSubsidiaries } = req.query;
+
+      const visibility = recordVisibility("deal", "d", "$1");
 
       let countQuery = `
         SELECT COUNT(*) 
         FROM deals d 
-        LEFT JOIN shares s ON s.item_type = 'deal' AND s.item_id = d.id AND s.shared_with_user_id = $1
-        WHERE (d.user_id = $1 OR s.id IS NOT NULL)
+        LEFT JOIN companies comp ON d.company_id = comp.id
+        ${visibility.joins}
+        WHERE ${visibility.condition}
       `;
 
       let dataQuery = `
@@ -140,14 +188,16 @@ router.get(
           ds.name as stage_name,
           c.first_name || ' ' || c.last_name as contact_name,
           comp.name as company_name,
+          t.name as team_name,
           CASE WHEN d.user_id = $1 THEN false ELSE true END as is_shared_with_me,
-          s.permissions
+          ${visibility.permission} as permissions
         FROM deals d 
         LEFT JOIN deal_stages ds ON d.stage_id = ds.id
         LEFT JOIN contacts c ON d.contact_id = c.id
         LEFT JOIN companies comp ON d.company_id = comp.id
-        LEFT JOIN shares s ON s.item_type = 'deal' AND s.item_id = d.id AND s.shared_with_user_id = $1
-        WHERE (d.user_id = $1 OR s.id IS NOT NULL)
+        LEFT JOIN teams t ON d.team_id = t.id
+        ${visibility.joins}
+        WHERE ${visibility.condition}
       `;
 
       const params: any[] = [req.user.userId];
@@ -171,14 +221,41 @@ router.get(
       }
 
       if (companyId) {
-        const companyCondition = ` AND d.company_id = $${paramCount}`;
+        const companyCondition = ` AND ${companyFilterSql(
+          "d.company_id",
+          `$${paramCount}`,
+          includeSubsidiaries
+        )}`;
         countQuery += companyCondition;
         dataQuery += companyCondition;
         params.push(companyId);
         paramCount++;
       }
 
-      dataQuery += ` ORDER BY d.created_at DESC LIMIT $${paramCount} OFFSET $${
+      const customFields = await getCustomFields("deal");
+      const customFilter = customFieldConditions(
+        customFields,
+        req.query.cf,
+        "d",
+        params
+      );
+      const customSort = customFieldOrderBy(
+        customFields,
+        req.query.sortBy,
+        req.query.sortOrder,
+        "d"
+      );
+      const customFieldError = customFilter.error || customSort.error;
+      if (customFieldError) {
+        res.status(400).json({ message: customFieldError });
+        return;
+      }
+      countQuery += customFilter.conditions;
+      dataQuery += customFilter.conditions;
+      paramCount = params.length + 1;
+
+      const orderBy = customSort.orderBy ? `${customSort.orderBy}, ` : "";
+      dataQuery += ` ORDER BY ${orderBy}d.created_at DESC LIMIT $${paramCount} OFFSET $${
         paramCount + 1
       }`;
 
@@ -224,27 +301,59 @@ router.get("/by-stage", async (req: AuthenticatedRequest, res: Response) => {
       [req.user.userId]
     );
 
+    // Deals shared with the user live in their owner's pipeline, so they are
+    // placed in the user's stage with the same name, else the first one of the
+    // same kind, else the first stage, so none drop off the board
+    const visibility = recordVisibility("deal", "d", "$1");
+    const dealsResult = await db.query<BoardDealRow>(
+      `SELECT d.*,
+        board.id as board_stage_id,
+        c.first_name || ' ' || c.last_name as contact_name,
+        comp.name as company_name,
+        CASE WHEN d.user_id = $1 THEN false ELSE true END as is_shared_with_me,
+        ${visibility.permission} as permissions
+      FROM deals d
+      LEFT JOIN deal_stages ds ON d.stage_id = ds.id
+      ${visibility.joins}
+      LEFT JOIN LATERAL (
+        SELECT mine.id
+        FROM deal_stages mine
+        WHERE mine.user_id = $1
+        ORDER BY (mine.id = ds.id) DESC NULLS LAST,
+          (LOWER(mine.name) = LOWER(ds.name)) DESC NULLS LAST,
+          (mine.kind = ds.kind) DESC NULLS LAST,
+          mine.order_index
+        LIMIT 1
+      ) board ON true
+      LEFT JOIN contacts c ON d.contact_id = c.id
+      LEFT JOIN companies comp ON d.company_id = comp.id
+      WHERE ${visibility.condition}
+      ORDER BY d.position, d.created_at DESC`,
+      [req.user.userId]
+    );
+
     const dealsByStage: DealsByStageResponse = {};
 
     for (const stage of stagesResult.rows) {
-      const dealsResult = await db.query<DealRow>(
-        `SELECT d.*, 
-          c.first_name || ' ' || c.last_name as contact_name,
-          comp.name as company_name
-        FROM deals d 
-        LEFT JOIN contacts c ON d.contact_id = c.id
-        LEFT JOIN companies comp ON d.company_id = comp.id
-        WHERE d.stage_id = $1 AND d.user_id = $2
-        ORDER BY d.created_at DESC`,
-        [stage.id, req.user.userId]
-      );
-
       dealsByStage[stage.id] = {
         stage: stage,
-        deals: dealsResult.rows,
+        deals: [],
+        totals: { count: 0, value: 0, weightedValue: 0 },
       };
     }
 
+    for (const deal of dealsResult.rows) {
+      // Only null when the user has no stages at all
+      if (!deal.board_stage_id) continue;
+      const column = dealsByStage[deal.board_stage_id];
+      const value = Number(deal.value) || 0;
+
+      column.deals.push(deal);
+      column.totals.count++;
+      column.totals.value += value;
+      column.totals.weightedValue += (value * (deal.probability || 0)) / 100;
+    }
+
     res.json(dealsByStage);
   } catch (error) {
     console.error("Get deals by stage error:", error);
@@ -252,6 +361,150 @@ router.get("/by-stage", async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// Move deal to a stage and position (kanban drag and drop)
+router.patch(
+  "/:id/stage",
+  requirePermission("can_edit_records"),
+  [
+    body("stageId").isInt(),
+    body("position").optional().isInt({ min: 0 }).toInt(),
+  ],
+  async (
+    req: AuthenticatedRequest<{ id: string }, {}, MoveDealBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+      const { stageId, position } = req.body;
+      const userId = req.user.userId;
+
+      // Check if deal exists and user has edit permission
+      const visibility = recordVisibility("deal", "d", "$2");
+      const existingDeal = await db.query<ExistingDealRow>(
+        `SELECT d.id, d.user_id, ${visibility.permission} as permission 
+         FROM deals d 
+         ${visibility.joins}
+         WHERE d.id = $1 AND ${visibility.condition}`,
+        [id, req.user.userId]
+      );
+
+      if (existingDeal.rows.length === 0) {
+        res.status(404).json({ message: "Deal not found" });
+        return;
+      }
+
+      const dealPermissions = existingDeal.rows[0];
+      if (!canEditRecord(dealPermissions, req.user.userId)) {
+        res
+          .status(403)
+          .json({ message: "You don't have permission to edit this deal" });
+        return;
+      }
+
+      // The target column is one of the user's stages; for a shared deal it
+      // maps onto the owner's stage with the same name
+      const stageCheck = await db.query<StageCheckRow>(
+        `SELECT target.id, target.default_probability
+         FROM deal_stages requested
+         JOIN deal_stages target ON target.user_id = $3
+           AND (target.id = requested.id OR LOWER(target.name) = LOWER(requested.name))
+         WHERE requested.id = $1 AND requested.user_id IN ($2, $3)
+         ORDER BY (target.id = requested.id) DESC, target.order_index
+         LIMIT 1`,
+        [stageId, req.user.userId, dealPermissions.user_id]
+      );
+      if (stageCheck.rows.length === 0) {
+        res.status(400).json({ message: "Invalid stage ID" });
+        return;
+      }
+
+      const targetStageId = stageCheck.rows[0].id;
+      const stageProbability = stageCheck.rows[0].default_probability;
+
+      const deal = await db.transaction(async (client) => {
+        const current = await client.query<Deal & { stage_id: string }>(
+          "SELECT * FROM deals WHERE id = $1 FOR UPDATE",
+          [id]
+        );
+        const sourceStageId = current.rows[0].stage_id;
+
+        // Compact both columns to 0..n-1 without the moved deal, then open a
+        // gap at the requested position
+        for (const columnStageId of new Set([sourceStageId, targetStageId])) {
+          if (columnStageId === null) continue;
+          await client.query(
+            `UPDATE deals d
+             SET position = ordered.rn
+             FROM (
+               SELECT id, ROW_NUMBER() OVER (ORDER BY position, created_at DESC) - 1 AS rn
+               FROM deals
+               WHERE stage_id = $1 AND id <> $2
+             ) ordered
+             WHERE d.id = ordered.id`,
+            [columnStageId, id]
+          );
+        }
+
+        const countResult = await client.query<CountRow>(
+          "SELECT COUNT(*) FROM deals WHERE stage_id = $1 AND id <> $2",
+          [targetStageId, id]
+        );
+        const columnSize = parseInt(countResult.rows[0].count, 10);
+        const targetPosition = Math.min(position ?? columnSize, columnSize);
+
+        await client.query(
+          `UPDATE deals SET position = position + 1
+           WHERE stage_id = $1 AND id <> $2 AND position >= $3`,
+          [targetStageId, id, targetPosition]
+        );
+
+        // Entering a new stage resets the probability to that stage's default
+        const result = await client.query<Deal>(
+          `UPDATE deals
+           SET stage_id = $1, position = $2,
+             probability = CASE WHEN stage_id IS DISTINCT FROM $1 THEN $4 ELSE probability END,
+             updated_at = CURRENT_TIMESTAMP
+           WHERE id = $3
+           RETURNING *`,
+          [targetStageId, targetPosition, id, stageProbability]
+        );
+
+        await recordStageChange(
+          client,
+          id,
+          sourceStageId,
+          targetStageId,
+          userId
+        );
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "deal",
+          entityId: id,
+          before: current.rows[0],
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
+
+      res.json(deal);
+    } catch (error) {
+      console.error("Move deal error:", error);
+      res.status(500).json({ message: "Server error moving deal" });
+    }
+  }
+);
+
 // Get single deal
 router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -261,20 +514,23 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const { id } = req.params;
+    const visibility = recordVisibility("deal", "d", "$2");
 
     const result = await db.query<DealRow>(
       `SELECT d.*, 
         ds.name as stage_name,
         c.first_name || ' ' || c.last_name as contact_name,
         comp.name as company_name,
+        t.name as team_name,
         CASE WHEN d.user_id = $2 THEN false ELSE true END as is_shared_with_me,
-        s.permissions
+        ${visibility.permission} as permissions
       FROM deals d 
       LEFT JOIN deal_stages ds ON d.stage_id = ds.id
       LEFT JOIN contacts c ON d.contact_id = c.id
       LEFT JOIN companies comp ON d.company_id = comp.id
-      LEFT JOIN shares s ON s.item_type = 'deal' AND s.item_id = d.id AND s.shared_with_user_id = $2
-      WHERE d.id = $1 AND (d.user_id = $2 OR s.id IS NOT NULL)`,
+      LEFT JOIN teams t ON d.team_id = t.id
+      ${visibility.joins}
+      WHERE d.id = $1 AND ${visibility.condition}`,
       [id, req.user.userId]
     );
 
@@ -290,9 +546,76 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// Get the change history of a deal, newest first
+router.get(
+  "/:id/history",
+  [
+    query("page").optional().isInt({ min: 1 }).toInt(),
+    query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  async (
+    req: AuthenticatedRequest<{ id: string }, {}, {}, HistoryQueryParams>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+
+      const visibility = recordVisibility("deal", "d", "$2");
+      const existingDeal = await db.query<{ id: string }>(
+        `SELECT d.id FROM deals d
+         ${visibility.joins}
+         WHERE d.id = $1 AND ${visibility.condition}`,
+        [id, req.user.userId]
+      );
+
+      if (existingDeal.rows.length === 0) {
+        res.status(404).json({ message: "Deal not found" });
+        return;
+      }
+
+      const { entries, total } = await getRecordHistory(
+        "deal",
+        id,
+        limit,
+        (page - 1) * limit
+      );
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        entries,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+    } catch (error) {
+      console.error("Get deal history error:", error);
+      res.status(500).json({ message: "Server error fetching deal history" });
+    }
+  }
+);
+
 // Create deal
 router.post(
   "/",
+  requirePermission("can_edit_records"),
   [
     body("title").trim().notEmpty(),
     body("value").optional().isFloat({ min: 0 }),
@@ -303,6 +626,8 @@ router.post(
     body("expectedCloseDate").optional().isISO8601(),
     body("probability").optional().isInt({ min: 0, max: 100 }),
     body("notes").optional().trim(),
+    body("teamId").optional({ nullable: true }).isInt(),
+    body("customFields").optional().isObject(),
   ],
   async (req: AuthenticatedRequest<{}, {}, CreateDealBody>, res: Response) => {
     try {
@@ -327,18 +652,21 @@ router.post(
         expectedCloseDate,
         probability,
         notes,
+        teamId,
       } = req.body;
 
       // Validate foreign keys belong to user
+      let stageProbability = 0;
       if (stageId) {
-        const stageCheck = await db.query<ValidationRow>(
-          "SELECT id FROM deal_stages WHERE id = $1 AND user_id = $2",
+        const stageCheck = await db.query<StageCheckRow>(
+          "SELECT id, default_probability FROM deal_stages WHERE id = $1 AND user_id = $2",
           [stageId, req.user.userId]
         );
         if (stageCheck.rows.length === 0) {
           res.status(400).json({ message: "Invalid stage ID" });
           return;
         }
+        stageProbability = stageCheck.rows[0].default_probability;
       }
 
       if (contactId) {
@@ -363,28 +691,66 @@ router.post(
         }
       }
 
-      const result = await db.query<Deal>(
-        `INSERT INTO deals (
-          title, value, currency, stage_id, contact_id, company_id, 
-          expected_close_date, probability, notes, user_id
-        ) 
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) 
-        RETURNING *`,
-        [
-          title,
-          value || 0,
-          currency || "USD",
-          stageId || null,
-          contactId || null,
-          companyId || null,
-          expectedCloseDate || null,
-          probability || 0,
-          notes || null,
-          req.user.userId,
-        ]
+      if (teamId && !(await canAssignTeam(teamId, req.user.userId))) {
+        res.status(403).json({ message: "You can't add deals to this team" });
+        return;
+      }
+
+      const customFields = await validateCustomFieldValues(
+        "deal",
+        req.body.customFields,
+        true
       );
+      if (customFields.error) {
+        res.status(400).json({ message: customFields.error });
+        return;
+      }
+
+      const userId = req.user.userId;
+      const deal = await db.transaction(async (client) => {
+        const result = await client.query<Deal>(
+          `INSERT INTO deals (
+            title, value, currency, stage_id, contact_id, company_id, 
+            expected_close_date, probability, notes, user_id, team_id,
+            custom_fields, position
+          ) 
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, jsonb_strip_nulls($12::jsonb),
+            -- New deals go to the bottom of their column
+            (SELECT COALESCE(MAX(position), -1) + 1 FROM deals WHERE stage_id = $4))
+          RETURNING *`,
+          [
+            title,
+            value || 0,
+            currency || "USD",
+            stageId || null,
+            contactId || null,
+            companyId || null,
+            expectedCloseDate || null,
+            probability ?? stageProbability,
+            notes || null,
+            userId,
+            teamId || null,
+            JSON.stringify(customFields.values),
+          ]
+        );
 
-      res.status(201).json(result.rows[0]);
+        await recordStageChange(
+          client,
+          result.rows[0].id,
+          null,
+          stageId,
+          userId
+        );
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "deal",
+          entityId: result.rows[0].id,
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
+
+      res.status(201).json(deal);
     } catch (error) {
       console.error("Create deal error:", error);
       res.status(500).json({ message: "Server error creating deal" });
@@ -395,6 +761,7 @@ router.post(
 // Update deal
 router.put(
   "/:id",
+  requirePermission("can_edit_records"),
   [
     body("title").optional().trim().notEmpty(),
     body("value").optional().isFloat({ min: 0 }),
@@ -405,6 +772,8 @@ router.put(
     body("expectedCloseDate").optional().isISO8601(),
     body("probability").optional().isInt({ min: 0, max: 100 }),
     body("notes").optional().trim(),
+    body("teamId").optional({ nullable: true }).isInt(),
+    body("customFields").optional().isObject(),
   ],
   async (
     req: AuthenticatedRequest<{ id: string }, {}, UpdateDealBody>,
@@ -426,11 +795,12 @@ router.put(
       const updates = req.body;
 
       // Check if deal exists and user has edit permission
+      const visibility = recordVisibility("deal", "d", "$2");
       const existingDeal = await db.query<ExistingDealRow>(
-        `SELECT d.id, d.user_id, s.permissions 
+        `SELECT d.id, d.user_id, d.stage_id, ${visibility.permission} as permission 
          FROM deals d 
-         LEFT JOIN shares s ON s.item_type = 'deal' AND s.item_id = d.id AND s.shared_with_user_id = $2
-         WHERE d.id = $1 AND (d.user_id = $2 OR s.id IS NOT NULL)`,
+         ${visibility.joins}
+         WHERE d.id = $1 AND ${visibility.condition}`,
         [id, req.user.userId]
       );
 
@@ -441,26 +811,39 @@ router.put(
 
       const dealPermissions = existingDeal.rows[0];
       // Check if user is owner or has write permission
-      if (
-        dealPermissions.user_id !== req.user.userId &&
-        dealPermissions.permissions !== "write"
-      ) {
+      if (!canEditRecord(dealPermissions, req.user.userId)) {
         res
           .status(403)
           .json({ message: "You don't have permission to edit this deal" });
         return;
       }
 
+      if (
+        updates.teamId &&
+        !(await canAssignTeam(updates.teamId, req.user.userId))
+      ) {
+        res.status(403).json({ message: "You can't add deals to this team" });
+        return;
+      }
+
       // Validate foreign keys
       if (updates.stageId) {
-        const stageCheck = await db.query<ValidationRow>(
-          "SELECT id FROM deal_stages WHERE id = $1 AND user_id = $2",
+        const stageCheck = await db.query<StageCheckRow>(
+          "SELECT id, default_probability FROM deal_stages WHERE id = $1 AND user_id = $2",
           [updates.stageId, req.user.userId]
         );
         if (stageCheck.rows.length === 0) {
           res.status(400).json({ message: "Invalid stage ID" });
           return;
         }
+
+        // Entering a new stage resets the probability unless one was given
+        if (
+          String(updates.stageId) !== String(dealPermissions.stage_id) &&
+          updates.probability === undefined
+        ) {
+          updates.probability = stageCheck.rows[0].default_probability;
+        }
       }
 
       if (updates.contactId) {
@@ -485,12 +868,32 @@ router.put(
         }
       }
 
+      const customFields = await validateCustomFieldValues(
+        "deal",
+        updates.customFields,
+        false
+      );
+      if (customFields.error) {
+        res.status(400).json({ message: customFields.error });
+        return;
+      }
+
       // Build dynamic update query
       const fields: string[] = [];
       const values: any[] = [];
       let paramCount = 1;
 
       Object.entries(updates).forEach(([key, value]) => {
+        if (key === "customFields") {
+          // Only the fields sent change; the rest keep their values
+          fields.push(
+            `custom_fields = ${mergeCustomFieldsSql(`$${paramCount}`)}`
+          );
+          values.push(JSON.stringify(customFields.values));
+          paramCount++;
+          return;
+        }
+
         const dbField =
           key === "stageId"
             ? "stage_id"
@@ -500,6 +903,8 @@ router.put(
             ? "company_id"
             : key === "expectedCloseDate"
             ? "expected_close_date"
+            : key === "teamId"
+            ? "team_id"
             : key;
         fields.push(`${dbField} = $${paramCount}`);
         values.push(value);
@@ -512,17 +917,45 @@ router.put(
       }
 
       fields.push("updated_at = CURRENT_TIMESTAMP");
-      values.push(id, req.user.userId);
+      values.push(id);
 
       const query = `
         UPDATE deals 
         SET ${fields.join(", ")} 
-        WHERE id = $${paramCount} AND user_id = $${paramCount + 1} 
+        WHERE id = $${paramCount} 
         RETURNING *
       `;
 
-      const result = await db.query<Deal>(query, values);
-      res.json(result.rows[0]);
+      const userId = req.user.userId;
+      const deal = await db.transaction(async (client) => {
+        const previous = await client.query<Deal>(
+          "SELECT * FROM deals WHERE id = $1 FOR UPDATE",
+          [id]
+        );
+        const result = await client.query<Deal>(query, values);
+
+        if (result.rows.length > 0) {
+          if (updates.stageId) {
+            await recordStageChange(
+              client,
+              id,
+              dealPermissions.stage_id,
+              updates.stageId,
+              userId
+            );
+          }
+          await recordAudit(client, req, {
+            action: "update",
+            entityType: "deal",
+            entityId: id,
+            before: previous.rows[0],
+            after: result.rows[0],
+          });
+        }
+        return result.rows[0];
+      });
+
+      res.json(deal);
     } catch (error) {
       console.error("Update deal error:", error);
       res.status(500).json({ message: "Server error updating deal" });
@@ -531,33 +964,60 @@ router.put(
 );
 
 // Delete deal
-router.delete("/:id", async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
-    }
+router.delete(
+  "/:id",
+  requirePermission("can_delete_deals"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
 
-    const { id } = req.params;
+      const { id } = req.params;
 
-    // Only allow owner to delete (not shared users)
-    const result = await db.query<{ id: string }>(
-      "DELETE FROM deals WHERE id = $1 AND user_id = $2 RETURNING id",
-      [id, req.user.userId]
-    );
+      const visibility = recordVisibility("deal", "d", "$2");
+      const existingDeal = await db.query<ExistingDealRow>(
+        `SELECT d.id, d.user_id, ${visibility.teamRole} as team_role
+         FROM deals d
+         ${visibility.joins}
+         WHERE d.id = $1 AND ${visibility.condition}`,
+        [id, req.user.userId]
+      );
 
-    if (result.rows.length === 0) {
-      res.status(404).json({
-        message: "Deal not found or you don't have permission to delete it",
+      if (existingDeal.rows.length === 0) {
+        res.status(404).json({ message: "Deal not found" });
+        return;
+      }
+
+      // Only the owner or the team's owners and managers can delete, not shared users
+      if (!canDeleteRecord(existingDeal.rows[0], req.user.userId)) {
+        res
+          .status(403)
+          .json({ message: "You don't have permission to delete this deal" });
+        return;
+      }
+
+      await db.transaction(async (client) => {
+        const deleted = await client.query<Deal>(
+          "DELETE FROM deals WHERE id = $1 RETURNING *",
+          [id]
+        );
+
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "deal",
+          entityId: id,
+          before: deleted.rows[0],
+        });
       });
-      return;
-    }
 
-    res.json({ message: "Deal deleted successfully" });
-  } catch (error) {
-    console.error("Delete deal error:", error);
-    res.status(500).json({ message: "Server error deleting deal" });
+      res.json({ message: "Deal deleted successfully" });
+    } catch (error) {
+      console.error("Delete deal error:", error);
+      res.status(500).json({ message: "Server error deleting deal" });
+    }
   }
-});
+);
 
 export default router;
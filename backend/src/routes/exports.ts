@@ -0,0 +1,506 @@
+import express, { Response } from "express";
+import { param, query, validationResult } from "express-validator";
+import db from "../config/database";
+import { authenticateToken } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
+import { AuthenticatedRequest, CustomField, CustomFieldEntity } from "../types";
+import { toCsvRow } from "../utils/csv";
+import {
+  customFieldConditions,
+  CustomFieldFilters,
+  getCustomFields,
+} from "../utils/customFields";
+import { companyFilterSql } from "../utils/organizationHierarchy";
+import { recordVisibility } from "../utils/visibility";
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+router.use(requirePermission("can_export"));
+
+type ExportEntity = "contacts" | "organizations" | "deals" | "activities";
+
+type ExportFormat = "csv" | "ndjson";
+
+interface ExportQueryParams {
+  format?: ExportFormat;
+  search?: string;
+  tags?: string;
+  status?: string;
+  stageId?: string;
+  companyId?: string;
+  // With companyId, also match the organization's subsidiaries
+  includeSubsidiaries?: boolean;
+  type?: string;
+  completed?: boolean;
+  contactId?: string;
+  dealId?: string;
+  // Custom field filters, cf[key]=value
+  cf?: CustomFieldFilters;
+}
+
+interface ExportQuery {
+  text: string;
+  params: any[];
+  // A custom field filter that doesn't apply
+  error?: string;
+}
+
+/**
+ * SQL for a JSONB list of labeled entries as "label: value" texts in order,
+ * which CSV joins into one cell
+ * @param list - The JSONB list column
+ * @param value - The entry's value, in terms of `entry`
+ */
+const labeledList = (list: string, value: string): string =>
+  `ARRAY(SELECT (entry->>'label') || ': ' || ${value}
+    FROM jsonb_array_elements(${list}) WITH ORDINALITY AS e(entry, position)
+    ORDER BY position)`;
+
+const ADDRESS_TEXT =
+  "concat_ws(', ', entry->>'street', entry->>'city', entry->>'region', entry->>'postalCode', entry->>'country')";
+
+// Rows fetched from the cursor per round trip
+const BATCH_SIZE = 500;
+
+// Column keys double as CSV headers, matching the names the importer accepts.
+// The email, phone and address lists are export only; the single email, phone
+// and address columns hold the primary entries.
+const COLUMNS: Record<ExportEntity, string[]> = {
+  contacts: [
+    "id",
+    "first_name",
+    "last_name",
+    "email",
+    "phone",
+    "emails",
+    "phones",
+    "addresses",
+    "position",
+    "company",
+    "tags",
+    "status",
+    "notes",
+    "team",
+    "is_shared_with_me",
+    "created_at",
+    "updated_at",
+  ],
+  organizations: [
+    "id",
+    "name",
+    "industry",
+    "website",
+    "phone",
+    "email",
+    "address",
+    "addresses",
+    "notes",
+    "parent",
+    "contact_count",
+    "deal_count",
+    "team",
+    "is_shared_with_me",
+    "created_at",
+    "updated_at",
+  ],
+  deals: [
+    "id",
+    "title",
+    "value",
+    "currency",
+    "stage",
+    "probability",
+    "expected_close_date",
+    "contact",
+    "company",
+    "notes",
+    "team",
+    "is_shared_with_me",
+    "created_at",
+    "updated_at",
+  ],
+  activities: [
+    "id",
+    "type",
+    "subject",
+    "description",
+    "due_date",
+    "completed",
+    "contact",
+    "company",
+    "deal",
+    "team",
+    "is_shared_with_me",
+    "created_at",
+    "updated_at",
+  ],
+};
+
+const CUSTOM_FIELD_ENTITIES: Record<ExportEntity, CustomFieldEntity> = {
+  contacts: "contact",
+  organizations: "organization",
+  deals: "deal",
+  activities: "activity",
+};
+
+// The record table's alias in each export query
+const TABLE_ALIASES: Record<ExportEntity, string> = {
+  contacts: "c",
+  organizations: "c",
+  deals: "d",
+  activities: "a",
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+// Same visibility and filters as the matching list endpoint, without paging
+const buildExportQuery = (
+  entity: ExportEntity,
+  userId: string,
+  filters: ExportQueryParams,
+  customFields: CustomField[]
+): ExportQuery => {
+  const params: any[] = [];
+  const conditions: string[] = [];
+  const addParam = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const customFilter = customFieldConditions(
+    customFields,
+    filters.cf,
+    TABLE_ALIASES[entity],
+    params
+  );
+  if (customFilter.error) {
+    return { text: "", params, error: customFilter.error };
+  }
+
+  switch (entity) {
+    case "contacts": {
+      const user = addParam(userId);
+      const visibility = recordVisibility("contact", "c", user);
+      conditions.push(visibility.condition);
+
+      if (filters.search) {
+        const search = addParam(`%${filters.search}%`);
+        conditions.push(`(
+          c.first_name ILIKE ${search} OR
+          c.last_name ILIKE ${search} OR
+          jsonb_path_query_array(c.emails, '$[*].email')::text ILIKE ${search} OR
+          jsonb_path_query_array(c.phones, '$[*].number')::text ILIKE ${search} OR
+          comp.name ILIKE ${search} OR
+          array_to_string(c.tags, ' ') ILIKE ${search}
+        )`);
+      }
+      if (filters.tags) {
+        const tags = filters.tags
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean);
+        conditions.push(`c.tags && ${addParam(tags)}`);
+      }
+      if (filters.status) {
+        conditions.push(`c.status = ${addParam(filters.status)}`);
+      }
+
+      return {
+        text: `
+          SELECT c.id, c.first_name, c.last_name, c.email, c.phone,
+            ${labeledList("c.emails", "(entry->>'email')")} as emails,
+            ${labeledList("c.phones", "(entry->>'number')")} as phones,
+            ${labeledList("c.addresses", ADDRESS_TEXT)} as addresses,
+            c.position, comp.name as company, c.tags, c.status, c.notes,
+            t.name as team,
+            c.user_id <> ${user} as is_shared_with_me,
+            c.created_at, c.updated_at
+          FROM contacts c
+          LEFT JOIN companies comp ON c.company_id = comp.id
+          LEFT JOIN teams t ON c.team_id = t.id
+          ${visibility.joins}
+          WHERE ${conditions.join(" AND ")}${customFilter.conditions}
+          ORDER BY c.created_at DESC, c.id DESC
+        `,
+        params,
+      };
+    }
+
+    case "organizations": {
+      const user = addParam(userId);
+      const visibility = recordVisibility("organization", "c", user);
+      conditions.push(visibility.condition);
+
+      if (filters.search) {
+        const search = addParam(`%${filters.search}%`);
+        conditions.push(`(
+          c.name ILIKE ${search} OR
+          c.industry ILIKE ${search} OR
+          c.email ILIKE ${search} OR
+          c.website ILIKE ${search}
+        )`);
+      }
+
+      return {
+        text: `
+          SELECT c.id, c.name, c.industry, c.website, c.phone, c.email,
+            c.address, ${labeledList("c.addresses", ADDRESS_TEXT)} as addresses,
+            c.notes,
+            (SELECT name FROM companies WHERE id = c.parent_id) as parent,
+            (SELECT COUNT(*) FROM contacts WHERE company_id = c.id) as contact_count,
+            (SELECT COUNT(*) FROM deals WHERE company_id = c.id) as deal_count,
+            t.name as team,
+            c.user_id <> ${user} as is_shared_with_me,
+            c.created_at, c.updated_at
+          FROM companies c
+          LEFT JOIN teams t ON c.team_id = t.id
+          ${visibility.joins}
+          WHERE ${conditions.join(" AND ")}${customFilter.conditions}
+          ORDER BY c.created_at DESC, c.id DESC
+        `,
+        params,
+      };
+    }
+
+    case "deals": {
+      const user = addParam(userId);
+      const visibility = recordVisibility("deal", "d", user);
+      conditions.push(visibility.condition);
+
+      if (filters.search) {
+        const search = addParam(`%${filters.search}%`);
+        conditions.push(
+          `(d.title ILIKE ${search} OR comp.name ILIKE ${search})`
+        );
+      }
+      if (filters.stageId) {
+        conditions.push(`d.stage_id = ${addParam(filters.stageId)}`);
+      }
+      if (filters.companyId) {
+        conditions.push(
+          companyFilterSql(
+            "d.company_id",
+            addParam(filters.companyId),
+            filters.includeSubsidiaries
+          )
+        );
+      }
+
+      return {
+        text: `
+          SELECT d.id, d.title, d.value, d.currency, ds.name as stage,
+            d.probability,
+            to_char(d.expected_close_date, 'YYYY-MM-DD') as expected_close_date,
+            c.first_name || ' ' || c.last_name as contact,
+            comp.name as company, d.notes,
+            t.name as team,
+            d.user_id <> ${user} as is_shared_with_me,
+            d.created_at, d.updated_at
+          FROM deals d
+          LEFT JOIN deal_stages ds ON d.stage_id = ds.id
+          LEFT JOIN contacts c ON d.contact_id = c.id
+          LEFT JOIN companies comp ON d.company_id = comp.id
+          LEFT JOIN teams t ON d.team_id = t.id
+          ${visibility.joins}
+          WHERE ${conditions.join(" AND ")}${customFilter.conditions}
+          ORDER BY d.created_at DESC, d.id DESC
+        `,
+        params,
+      };
+    }
+
+    case "activities": {
+      const user = addParam(userId);
+      const visibility = recordVisibility("activity", "a", user);
+      conditions.push(visibility.condition);
+
+      if (filters.search) {
+        const search = addParam(`%${filters.search}%`);
+        conditions.push(`(
+          a.subject ILIKE ${search} OR
+          a.description ILIKE ${search} OR
+          a.type ILIKE ${search}
+        )`);
+      }
+      if (filters.type) {
+        conditions.push(`a.type = ${addParam(filters.type)}`);
+      }
+      if (filters.completed !== undefined) {
+        conditions.push(`a.completed = ${addParam(filters.completed)}`);
+      }
+      if (filters.contactId) {
+        conditions.push(`a.contact_id = ${addParam(filters.contactId)}`);
+      }
+      if (filters.companyId) {
+        conditions.push(
+          companyFilterSql(
+            "a.company_id",
+            addParam(filters.companyId),
+            filters.includeSubsidiaries
+          )
+        );
+      }
+      if (filters.dealId) {
+        conditions.push(`a.deal_id = ${addParam(filters.dealId)}`);
+      }
+
+      return {
+        text: `
+          SELECT a.id, a.type, a.subject, a.description, a.due_date,
+            a.completed,
+            c.first_name || ' ' || c.last_name as contact,
+            comp.name as company, d.title as deal,
+            t.name as team,
+            a.user_id <> ${user} as is_shared_with_me,
+            a.created_at, a.updated_at
+          FROM activities a
+          LEFT JOIN contacts c ON a.contact_id = c.id
+          LEFT JOIN companies comp ON a.company_id = comp.id
+          LEFT JOIN deals d ON a.deal_id = d.id
+          LEFT JOIN teams t ON a.team_id = t.id
+          ${visibility.joins}
+          WHERE ${conditions.join(" AND ")}${customFilter.conditions}
+          ORDER BY a.created_at DESC, a.id DESC
+        `,
+        params,
+      };
+    }
+  }
+};
+
+// Stream every matching record as CSV or NDJSON through a database cursor
+router.get(
+  "/:entity",
+  [
+    param("entity").isIn(["contacts", "organizations", "deals", "activities"]),
+    query("format").optional().isIn(["csv", "ndjson"]),
+    query("search").optional().trim(),
+    query("tags").optional().trim(),
+    query("status").optional().isIn(["hot", "warm", "cold", "all_good"]),
+    query("stageId").optional().isInt(),
+    query("companyId").optional().isInt(),
+    query("includeSubsidiaries").optional().isBoolean().toBoolean(),
+    query("type").optional().trim(),
+    query("completed").optional().isBoolean().toBoolean(),
+    query("contactId").optional().isInt(),
+    query("dealId").optional().isInt(),
+  ],
+  async (
+    req: AuthenticatedRequest<
+      { entity: ExportEntity },
+      {},
+      {},
+      ExportQueryParams
+    >,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { entity } = req.params;
+      const format = req.query.format || "csv";
+      const columns = COLUMNS[entity];
+      const customFields = await getCustomFields(CUSTOM_FIELD_ENTITIES[entity]);
+      const exportQuery = buildExportQuery(
+        entity,
+        req.user.userId,
+        req.query,
+        customFields
+      );
+      if (exportQuery.error) {
+        res.status(400).json({ message: exportQuery.error });
+        return;
+      }
+      const fileName = `${entity}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      // Stop fetching once the client goes away
+      let closed = false;
+      res.on("close", () => {
+        closed = true;
+      });
+
+      // Respect backpressure so large exports never pile up in memory
+      const write = (chunk: string) =>
+        new Promise<void>((resolve) => {
+          if (res.write(chunk) || closed) {
+            resolve();
+            return;
+          }
+          const done = () => {
+            res.off("drain", done);
+            res.off("close", done);
+            resolve();
+          };
+          res.on("drain", done);
+          res.on("close", done);
+        });
+
+      await db.transaction(async (client) => {
+        await client.query(
+          `DECLARE export_cursor NO SCROLL CURSOR FOR ${exportQuery.text}`,
+          exportQuery.params
+        );
+
+        res.setHeader("Content-Type", CONTENT_TYPES[format]);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${fileName}"`
+        );
+
+        if (format === "csv") {
+          await write(toCsvRow(columns));
+        }
+
+        while (!closed) {
+          const batch = await client.query(
+            `FETCH ${BATCH_SIZE} FROM export_cursor`
+          );
+
+          const chunk = batch.rows
+            .map((row) =>
+              format === "csv"
+                ? toCsvRow(columns.map((column) => row[column]))
+                : JSON.stringify(row) + "\n"
+            )
+            .join("");
+          if (chunk) {
+            await write(chunk);
+          }
+
+          if (batch.rows.length < BATCH_SIZE) break;
+        }
+
+        await client.query("CLOSE export_cursor");
+      });
+
+      res.end();
+    } catch (error) {
+      console.error("Export error:", error);
+      if (res.headersSent) {
+        // The body is already streaming, so cut it off rather than leave a
+        // truncated file looking complete
+        res.destroy();
+        return;
+      }
+      res.removeHeader("Content-Disposition");
+      res.removeHeader("Content-Type");
+      res.status(500).json({ message: "Server error exporting records" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,613 @@
+import express, { Response } from "express";
+import { body, param, validationResult } from "express-validator";
+import db from "../config/database";
+import { authenticateToken } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
+import { AuthenticatedRequest, CustomFieldEntity } from "../types";
+import { recordAudit } from "../utils/auditLog";
+import {
+  addressColumns,
+  contactMethodColumns,
+  resolveAddresses,
+  toE164,
+} from "../utils/contactMethods";
+import { recordContactCompany } from "../utils/contactOrganizations";
+import { parseCsv } from "../utils/csv";
+import {
+  getCustomFields,
+  validateCustomFieldValues,
+} from "../utils/customFields";
+import { getDefaultPhoneCountryCode } from "../utils/systemSettings";
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+router.use(requirePermission("can_import"));
+
+type ImportEntity = "contacts" | "organizations";
+
+interface FieldDefinition {
+  key: string;
+  label: string;
+  required?: boolean;
+  maxLength?: number;
+  aliases: string[];
+}
+
+interface ImportBody {
+  csv: string;
+  mapping?: Record<string, string>;
+  dryRun?: boolean;
+}
+
+interface RowResult {
+  line: number;
+  status: "valid" | "duplicate" | "invalid";
+  errors: string[];
+  data: Record<string, string | string[] | null>;
+}
+
+interface NameRow {
+  id: number;
+  name: string;
+}
+
+interface EmailRow {
+  email: string;
+}
+
+const MAX_ROWS = 5000;
+
+const CONTACT_STATUSES = ["hot", "warm", "cold", "all_good"];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const CUSTOM_FIELD_ENTITIES: Record<ImportEntity, CustomFieldEntity> = {
+  contacts: "contact",
+  organizations: "organization",
+};
+
+// Custom fields are mapped like the built-in ones, under cf.<key>
+const CUSTOM_FIELD_PREFIX = "cf.";
+
+const FIELDS: Record<ImportEntity, FieldDefinition[]> = {
+  contacts: [
+    {
+      key: "first_name",
+      label: "First name",
+      required: true,
+      maxLength: 100,
+      aliases: ["firstname", "givenname", "first"],
+    },
+    {
+      key: "last_name",
+      label: "Last name",
+      required: true,
+      maxLength: 100,
+      aliases: ["lastname", "surname", "familyname", "last"],
+    },
+    {
+      key: "email",
+      label: "Email",
+      maxLength: 255,
+      aliases: ["emailaddress", "mail"],
+    },
+    {
+      key: "phone",
+      label: "Phone",
+      maxLength: 50,
+      aliases: ["phonenumber", "mobile", "telephone"],
+    },
+    {
+      key: "position",
+      label: "Position",
+      maxLength: 100,
+      aliases: ["jobtitle", "title", "role"],
+    },
+    {
+      key: "company",
+      label: "Company name",
+      maxLength: 255,
+      aliases: ["companyname", "organization", "organisation", "account"],
+    },
+    { key: "tags", label: "Tags", aliases: ["labels"] },
+    { key: "status", label: "Status", aliases: ["leadstatus"] },
+    { key: "notes", label: "Notes", aliases: ["note", "description"] },
+  ],
+  organizations: [
+    {
+      key: "name",
+      label: "Name",
+      required: true,
+      maxLength: 255,
+      aliases: ["companyname", "company", "organization", "organisation"],
+    },
+    { key: "industry", label: "Industry", maxLength: 100, aliases: ["sector"] },
+    {
+      key: "website",
+      label: "Website",
+      maxLength: 255,
+      aliases: ["url", "site", "domain"],
+    },
+    {
+      key: "phone",
+      label: "Phone",
+      maxLength: 50,
+      aliases: ["phonenumber", "telephone"],
+    },
+    {
+      key: "email",
+      label: "Email",
+      maxLength: 255,
+      aliases: ["emailaddress", "mail"],
+    },
+    { key: "address", label: "Address", aliases: ["location"] },
+    { key: "notes", label: "Notes", aliases: ["note", "description"] },
+  ],
+};
+
+const normalizeHeader = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Tags and multi-select values share a cell, split on ; , or |
+const splitList = (value: string): string[] => [
+  ...new Set(
+    value
+      .split(/[;,|]/)
+      .map((item) => item.trim())
+      .filter(Boolean)
+  ),
+];
+
+// Match CSV headers to fields by key, label or a known alias
+const suggestMapping = (
+  fields: FieldDefinition[],
+  headers: string[]
+): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+
+  for (const field of fields) {
+    const candidates = [field.key, field.label, ...field.aliases].map(
+      normalizeHeader
+    );
+    const header = headers.find((candidate) =>
+      candidates.includes(normalizeHeader(candidate))
+    );
+    if (header) {
+      mapping[field.key] = header;
+    }
+  }
+
+  return mapping;
+};
+
+const validateRecord = (
+  entity: ImportEntity,
+  fields: FieldDefinition[],
+  raw: Record<string, string>,
+  countryCode: string
+): { data: RowResult["data"]; errors: string[] } => {
+  const errors: string[] = [];
+  const data: RowResult["data"] = {};
+
+  for (const field of fields) {
+    const value = (raw[field.key] || "").trim();
+
+    if (field.required && !value) {
+      errors.push(`${field.label} is required`);
+    }
+    if (field.maxLength && value.length > field.maxLength) {
+      errors.push(
+        `${field.label} must be at most ${field.maxLength} characters`
+      );
+    }
+
+    data[field.key] = value || null;
+  }
+
+  if (data.email) {
+    data.email = (data.email as string).toLowerCase();
+    if (!EMAIL_PATTERN.test(data.email)) {
+      errors.push("Email is not a valid email address");
+    }
+  }
+
+  if (entity === "contacts") {
+    data.tags = splitList(raw.tags || "");
+
+    if (data.phone) {
+      const phone = toE164(data.phone as string, countryCode);
+      if (!phone) {
+        errors.push("Phone is not a valid phone number");
+      }
+      data.phone = phone || data.phone;
+    }
+
+    if (data.status) {
+      const status = (data.status as string).toLowerCase().replace(/\s+/g, "_");
+      if (!CONTACT_STATUSES.includes(status)) {
+        errors.push(`Status must be one of ${CONTACT_STATUSES.join(", ")}`);
+      }
+      data.status = status;
+    }
+  }
+
+  return { data, errors };
+};
+
+// Import contacts or organizations from CSV; dryRun validates without writing
+router.post(
+  "/:entity",
+  [
+    param("entity").isIn(["contacts", "organizations"]),
+    body("csv").isString().notEmpty(),
+    body("mapping").optional().isObject(),
+    body("dryRun").optional().isBoolean(),
+  ],
+  async (
+    req: AuthenticatedRequest<{ entity: ImportEntity }, {}, ImportBody>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { entity } = req.params;
+      const { csv, dryRun = false } = req.body;
+      const customFieldEntity = CUSTOM_FIELD_ENTITIES[entity];
+      const customFields = await getCustomFields(customFieldEntity);
+      const fields: FieldDefinition[] = [
+        ...FIELDS[entity],
+        ...customFields.map((field) => ({
+          key: `${CUSTOM_FIELD_PREFIX}${field.key}`,
+          label: field.label,
+          required: field.is_required,
+          aliases: [field.key],
+        })),
+      ];
+      const userId = req.user.userId;
+
+      const rows = parseCsv(csv);
+      if (rows.length < 2) {
+        res.status(400).json({
+          message: "The CSV needs a header row and at least one record",
+        });
+        return;
+      }
+      if (rows.length - 1 > MAX_ROWS) {
+        res.status(400).json({
+          message: `Imports are limited to ${MAX_ROWS} records per file`,
+        });
+        return;
+      }
+
+      const headers = rows[0].map((header) => header.trim());
+      const mapping = req.body.mapping || suggestMapping(fields, headers);
+
+      for (const [fieldKey, header] of Object.entries(mapping)) {
+        if (!fields.some((field) => field.key === fieldKey)) {
+          res.status(400).json({ message: `Unknown field "${fieldKey}"` });
+          return;
+        }
+        if (header && !headers.includes(header)) {
+          res.status(400).json({ message: `Unknown column "${header}"` });
+          return;
+        }
+      }
+
+      const missingFields = fields
+        .filter((field) => field.required && !mapping[field.key])
+        .map((field) => field.key);
+
+      const fieldList = fields.map(({ key, label, required }) => ({
+        key,
+        label,
+        required: !!required,
+      }));
+
+      // Without the required columns there is nothing to validate yet; the
+      // preview still returns the headers so the user can finish the mapping
+      if (missingFields.length > 0) {
+        if (!dryRun) {
+          res.status(400).json({
+            message: "Map a column to every required field",
+            missingFields,
+          });
+          return;
+        }
+        res.json({
+          dryRun,
+          headers,
+          fields: fieldList,
+          mapping,
+          missingFields,
+          summary: {
+            total: rows.length - 1,
+            valid: 0,
+            duplicates: 0,
+            invalid: 0,
+            newCompanies: 0,
+            imported: 0,
+          },
+          rows: [],
+        });
+        return;
+      }
+
+      const columnIndex = Object.fromEntries(
+        Object.entries(mapping)
+          .filter(([, header]) => header)
+          .map(([fieldKey, header]) => [fieldKey, headers.indexOf(header)])
+      );
+
+      // Existing records used for dedupe and company resolution
+      const existingKeys = new Set<string>();
+      const fileKeys = new Map<string, number>();
+      const companyIds = new Map<string, number>();
+
+      if (entity === "contacts") {
+        const existing = await db.query<EmailRow>(
+          `SELECT DISTINCT LOWER(entry->>'email') as email
+           FROM contacts, jsonb_array_elements(emails) entry
+           WHERE user_id = $1`,
+          [userId]
+        );
+        existing.rows.forEach((row) => existingKeys.add(row.email));
+      }
+
+      const companies = await db.query<NameRow>(
+        "SELECT id, name FROM companies WHERE user_id = $1",
+        [userId]
+      );
+      companies.rows.forEach((row) => {
+        const key = row.name.toLowerCase();
+        if (!companyIds.has(key)) companyIds.set(key, row.id);
+        if (entity === "organizations") existingKeys.add(key);
+      });
+
+      const countryCode = await getDefaultPhoneCountryCode();
+      const newCompanies = new Map<string, string>();
+      const records = rows
+        .slice(1)
+        .map((cells) =>
+          Object.fromEntries(
+            Object.entries(columnIndex).map(([fieldKey, column]) => [
+              fieldKey,
+              cells[column] || "",
+            ])
+          )
+        );
+      // Checked like a record created through the form, so required custom
+      // fields can't be skipped by importing
+      const customValues = await Promise.all(
+        records.map((raw) =>
+          validateCustomFieldValues(
+            customFieldEntity,
+            Object.fromEntries(
+              customFields.map((field) => {
+                const value = (
+                  raw[`${CUSTOM_FIELD_PREFIX}${field.key}`] || ""
+                ).trim();
+                return [
+                  field.key,
+                  field.field_type === "multi_select"
+                    ? splitList(value)
+                    : value,
+                ];
+              })
+            ),
+            true,
+            customFields
+          )
+        )
+      );
+
+      const results: RowResult[] = records.map((raw, index) => {
+        const { data, errors: rowErrors } = validateRecord(
+          entity,
+          FIELDS[entity],
+          raw,
+          countryCode
+        );
+        const custom = customValues[index];
+        for (const field of customFields) {
+          const key = `${CUSTOM_FIELD_PREFIX}${field.key}`;
+          data[key] = (raw[key] || "").trim() || null;
+        }
+        if (custom.error) {
+          rowErrors.push(custom.error);
+        }
+        const line = index + 2;
+
+        if (rowErrors.length > 0) {
+          return { line, status: "invalid", errors: rowErrors, data };
+        }
+
+        const dedupeKey =
+          entity === "contacts"
+            ? (data.email as string | null)
+            : (data.name as string).toLowerCase();
+
+        if (dedupeKey && existingKeys.has(dedupeKey)) {
+          return {
+            line,
+            status: "duplicate",
+            errors: [
+              entity === "contacts"
+                ? "A contact with this email already exists"
+                : "An organization with this name already exists",
+            ],
+            data,
+          };
+        }
+        if (dedupeKey && fileKeys.has(dedupeKey)) {
+          return {
+            line,
+            status: "duplicate",
+            errors: [`Same record as line ${fileKeys.get(dedupeKey)}`],
+            data,
+          };
+        }
+        if (dedupeKey) fileKeys.set(dedupeKey, line);
+
+        const company = data.company as string | null;
+        if (company && !companyIds.has(company.toLowerCase())) {
+          newCompanies.set(company.toLowerCase(), company);
+        }
+
+        return { line, status: "valid", errors: [], data };
+      });
+
+      const valid = results.filter((row) => row.status === "valid");
+
+      if (!dryRun && valid.length > 0) {
+        await db.transaction(async (client) => {
+          for (const [key, name] of newCompanies) {
+            const created = await client.query<NameRow>(
+              "INSERT INTO companies (name, user_id) VALUES ($1, $2) RETURNING *",
+              [name, userId]
+            );
+            companyIds.set(key, created.rows[0].id);
+            await recordAudit(client, req, {
+              action: "create",
+              entityType: "organization",
+              entityId: created.rows[0].id,
+              after: created.rows[0],
+              metadata: { imported: true },
+            });
+          }
+
+          for (const { data, line } of valid) {
+            // Rows start on line 2, after the header
+            const customFieldValues = JSON.stringify(
+              customValues[line - 2].values
+            );
+            let created;
+            if (entity === "contacts") {
+              const company = data.company as string | null;
+              const companyId = company
+                ? companyIds.get(company.toLowerCase())
+                : null;
+              const methods = contactMethodColumns({
+                emails: data.email
+                  ? [
+                      {
+                        label: "work",
+                        email: data.email as string,
+                        isPrimary: true,
+                      },
+                    ]
+                  : [],
+                phones: data.phone
+                  ? [
+                      {
+                        label: "work",
+                        number: data.phone as string,
+                        isPrimary: true,
+                      },
+                    ]
+                  : [],
+              });
+              created = await client.query<{ id: string }>(
+                `INSERT INTO contacts
+                 (first_name, last_name, email, phone, emails, phones, position, company_id, notes, tags, status, user_id, custom_fields)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, jsonb_strip_nulls($13::jsonb))
+                 RETURNING *`,
+                [
+                  data.first_name,
+                  data.last_name,
+                  methods.email,
+                  methods.phone,
+                  methods.emails,
+                  methods.phones,
+                  data.position,
+                  companyId,
+                  data.notes,
+                  data.tags,
+                  data.status || "all_good",
+                  userId,
+                  customFieldValues,
+                ]
+              );
+
+              // The company is kept as a current role there, as on create
+              if (companyId) {
+                await recordContactCompany(
+                  client,
+                  created.rows[0].id,
+                  null,
+                  companyId,
+                  data.position as string | null
+                );
+              }
+            } else {
+              const addresses = addressColumns(
+                resolveAddresses(
+                  { address: (data.address as string) || "" },
+                  []
+                )
+              );
+              created = await client.query<{ id: string }>(
+                `INSERT INTO companies (name, industry, website, phone, email, address, addresses, notes, user_id, custom_fields)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, jsonb_strip_nulls($10::jsonb))
+                 RETURNING *`,
+                [
+                  data.name,
+                  data.industry,
+                  data.website,
+                  data.phone,
+                  data.email,
+                  addresses.address,
+                  addresses.addresses,
+                  data.notes,
+                  userId,
+                  customFieldValues,
+                ]
+              );
+            }
+
+            await recordAudit(client, req, {
+              action: "create",
+              entityType: entity === "contacts" ? "contact" : "organization",
+              entityId: created.rows[0].id,
+              after: created.rows[0],
+              metadata: { imported: true },
+            });
+          }
+        });
+      }
+
+      res.json({
+        dryRun,
+        headers,
+        fields: fieldList,
+        mapping,
+        missingFields,
+        summary: {
+          total: results.length,
+          valid: valid.length,
+          duplicates: results.filter((row) => row.status === "duplicate")
+            .length,
+          invalid: results.filter((row) => row.status === "invalid").length,
+          newCompanies: newCompanies.size,
+          imported: dryRun ? 0 : valid.length,
+        },
+        rows: results,
+      });
+    } catch (error) {
+      console.error("Import error:", error);
+      res.status(500).json({ message: "Server error importing records" });
+    }
+  }
+);
+
+export default router;
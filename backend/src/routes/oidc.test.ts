@@ -0,0 +1,266 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  after,
+  afterEach,
+  before,
+  beforeEach,
+  describe,
+  it,
+  mock,
+} from "node:test";
+import cookieParser from "cookie-parser";
+import express from "express";
+import db from "../config/database";
+import * as oidc from "../utils/oidc";
+import oidcRoutes from "./oidc";
+
+process.env.JWT_SECRET = "test-secret";
+process.env.FRONTEND_URL = "http://crm.test";
+
+const ISSUER = "https://login.example.com";
+
+interface FakeUser {
+  id: string;
+  email: string;
+  role: string;
+  first_name: string;
+  last_name: string;
+  email_verified: boolean;
+  deactivated_at: Date | null;
+  oidc_issuer: string | null;
+  oidc_subject: string | null;
+}
+
+describe("OIDC callback", () => {
+  let server: http.Server;
+  let baseUrl = "";
+  let settings: Record<string, string>;
+  let users: FakeUser[];
+  let revokedFor: string[];
+
+  before(async () => {
+    const app = express();
+    app.use(cookieParser());
+    app.use("/api/auth/oidc", oidcRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    settings = {
+      oidc_enabled: "true",
+      oidc_issuer: ISSUER,
+      oidc_client_id: "crm",
+      oidc_role_claim: "groups",
+      oidc_admin_values: "crm-admins",
+    };
+    users = [];
+    revokedFor = [];
+
+    // Just enough of the database for the sign-in. Everything else, like the
+    // default data of new users and the login log, is accepted and ignored.
+    mock.method(db, "query", async (text: string, params: any[] = []) => {
+      const result = (rows: any[]) => ({ rows, rowCount: rows.length });
+      const sql = text.replace(/\s+/g, " ").trim();
+
+      if (sql.includes("FROM system_settings")) {
+        const value = settings[params[0]];
+        return result(value === undefined ? [] : [{ setting_value: value }]);
+      }
+      if (sql.startsWith("SELECT 1 FROM roles")) {
+        return result(
+          ["admin", "user", "manager"].includes(params[0]) ? [{}] : []
+        );
+      }
+      if (sql.includes("FROM users WHERE oidc_issuer")) {
+        return result(
+          users.filter(
+            (user) =>
+              user.oidc_issuer === params[0] && user.oidc_subject === params[1]
+          )
+        );
+      }
+      if (sql.includes("FROM users WHERE email")) {
+        return result(users.filter((user) => user.email === params[0]));
+      }
+      if (sql.startsWith("INSERT INTO users")) {
+        const user: FakeUser = {
+          id: String(users.length + 1),
+          email: params[0],
+          first_name: params[2],
+          last_name: params[3],
+          role: params[4],
+          email_verified: params[5],
+          deactivated_at: null,
+          oidc_issuer: params[6],
+          oidc_subject: params[7],
+        };
+        users.push(user);
+        return result([user]);
+      }
+      if (sql.startsWith("UPDATE users SET oidc_issuer")) {
+        const user = users.find(({ id }) => id === params[0]);
+        Object.assign(user!, {
+          oidc_issuer: params[1],
+          oidc_subject: params[2],
+        });
+        return result([user]);
+      }
+      if (sql.startsWith("UPDATE users SET role")) {
+        const user = users.find(({ id }) => id === params[0]);
+        user!.role = params[1];
+        return result([user]);
+      }
+      if (sql.startsWith("UPDATE sessions SET revoked_at")) {
+        revokedFor.push(params[0]);
+        return result([]);
+      }
+      if (sql.startsWith("INSERT INTO sessions")) {
+        return result([{ id: "1" }]);
+      }
+      return result([]);
+    });
+    mock.method(console, "log", () => {});
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  // Sign in as someone the provider vouches for with the given claims
+  const signIn = async (claims: oidc.OidcClaims) => {
+    mock.method(oidc, "completeAuthorization", async () => claims);
+    const response = await fetch(
+      `${baseUrl}/api/auth/oidc/callback?code=c&state=s`,
+      { redirect: "manual", headers: { Cookie: "oidc_login=state" } }
+    );
+    return new URL(response.headers.get("location") || "");
+  };
+
+  const existingUser = (overrides: Partial<FakeUser> = {}): FakeUser => {
+    const user: FakeUser = {
+      id: String(users.length + 1),
+      email: "ada@x.io",
+      role: "user",
+      first_name: "Ada",
+      last_name: "Lovelace",
+      email_verified: true,
+      deactivated_at: null,
+      oidc_issuer: null,
+      oidc_subject: null,
+      ...overrides,
+    };
+    users.push(user);
+    return user;
+  };
+
+  it("creates an account the first time someone signs in", async () => {
+    const location = await signIn({
+      sub: "subject-1",
+      email: "Ada@X.io",
+      email_verified: true,
+      name: "Ada King Lovelace",
+      groups: ["staff", "manager"],
+    });
+
+    assert.equal(location.pathname, "/dashboard");
+    assert.equal(users.length, 1);
+    assert.deepEqual(
+      {
+        email: users[0].email,
+        firstName: users[0].first_name,
+        lastName: users[0].last_name,
+        role: users[0].role,
+        emailVerified: users[0].email_verified,
+        issuer: users[0].oidc_issuer,
+        subject: users[0].oidc_subject,
+      },
+      {
+        email: "ada@x.io",
+        firstName: "Ada",
+        lastName: "King Lovelace",
+        role: "manager",
+        emailVerified: true,
+        issuer: ISSUER,
+        subject: "subject-1",
+      }
+    );
+  });
+
+  it("makes new accounts users when the claim names no role", async () => {
+    await signIn({ sub: "subject-1", email: "ada@x.io", groups: ["staff"] });
+    assert.equal(users[0].role, "user");
+  });
+
+  it("doesn't create accounts when provisioning is off", async () => {
+    settings.oidc_auto_provision = "false";
+    const location = await signIn({ sub: "subject-1", email: "ada@x.io" });
+
+    assert.equal(location.searchParams.get("ssoError"), "not_provisioned");
+    assert.equal(users.length, 0);
+  });
+
+  it("needs an email address to create an account", async () => {
+    const location = await signIn({ sub: "subject-1" });
+    assert.equal(location.searchParams.get("ssoError"), "email_required");
+  });
+
+  it("links the account with the same verified address", async () => {
+    existingUser();
+    const location = await signIn({
+      sub: "subject-1",
+      email: "ada@x.io",
+      email_verified: "true",
+    });
+
+    assert.equal(location.pathname, "/dashboard");
+    assert.equal(users.length, 1);
+    assert.equal(users[0].oidc_subject, "subject-1");
+  });
+
+  it("doesn't link an account by an unverified address", async () => {
+    existingUser();
+    const location = await signIn({ sub: "subject-1", email: "ada@x.io" });
+
+    assert.equal(location.searchParams.get("ssoError"), "email_unverified");
+    assert.equal(users[0].oidc_subject, null);
+  });
+
+  it("keeps a role the claim doesn't name", async () => {
+    existingUser({
+      role: "manager",
+      oidc_issuer: ISSUER,
+      oidc_subject: "subject-1",
+    });
+    await signIn({ sub: "subject-1", groups: ["staff"] });
+
+    assert.equal(users[0].role, "manager");
+    assert.deepEqual(revokedFor, []);
+  });
+
+  it("changes the role and ends the other sessions", async () => {
+    existingUser({ oidc_issuer: ISSUER, oidc_subject: "subject-1" });
+    const location = await signIn({ sub: "subject-1", groups: ["crm-admins"] });
+
+    assert.equal(location.pathname, "/dashboard");
+    assert.equal(users[0].role, "admin");
+    assert.deepEqual(revokedFor, ["1"]);
+  });
+
+  it("turns deactivated users away", async () => {
+    existingUser({
+      oidc_issuer: ISSUER,
+      oidc_subject: "subject-1",
+      deactivated_at: new Date(),
+    });
+    const location = await signIn({ sub: "subject-1" });
+
+    assert.equal(location.searchParams.get("ssoError"), "deactivated");
+  });
+});
@@ -0,0 +1,292 @@
+import crypto from "crypto";
+import express, { CookieOptions, Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import db from "../config/database";
+import { seedDefaultData } from "../database/seed";
+import {
+  OidcSettings,
+  getOidcSettings,
+  isPasswordLoginAllowed,
+  isUserLimitReached,
+} from "../utils/systemSettings";
+import { revokeUserSessions, startSession } from "../utils/sessions";
+import {
+  OIDC_STATE_COOKIE,
+  OIDC_STATE_MAX_AGE_MS,
+  OidcClaims,
+  completeAuthorization,
+  createAuthorizationRequest,
+  isEmailVerified,
+  mapOidcRole,
+} from "../utils/oidc";
+import {
+  recordLoginFailure,
+  recordLoginSuccess,
+} from "../utils/loginProtection";
+
+const router = express.Router();
+
+interface CallbackQuery {
+  code?: string;
+  state?: string;
+  // Set instead of code when the provider turned the login down
+  error?: string;
+}
+
+interface SsoUserRow {
+  id: string;
+  email: string;
+  role: string;
+  deactivated_at: Date | null;
+}
+
+// Why a single sign-on attempt failed, passed to the login page as ssoError
+type SsoError =
+  | "disabled"
+  | "failed"
+  | "cancelled"
+  | "not_provisioned"
+  | "user_limit"
+  | "email_required"
+  | "email_unverified"
+  | "deactivated";
+
+type SsoUserResult = { user: SsoUserRow } | { error: SsoError };
+
+const SSO_USER_COLUMNS = "id, email, role, deactivated_at";
+
+// The provider sends the browser back with a cross-site navigation, which
+// SameSite=Strict cookies aren't sent on
+const stateCookieOptions = (): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax",
+  path: "/api/auth/oidc",
+});
+
+// Has to match a redirect URI registered with the provider exactly, so it
+// can be pinned when the API is behind a proxy
+const getRedirectUri = (req: Request): string =>
+  process.env.OIDC_REDIRECT_URI ||
+  `${req.protocol}://${req.get("host")}/api/auth/oidc/callback`;
+
+const redirectToFrontend = (
+  res: Response,
+  pathname: string,
+  ssoError?: SsoError
+): void => {
+  const url = new URL(
+    pathname,
+    process.env.FRONTEND_URL || "http://localhost:5173"
+  );
+  if (ssoError) {
+    url.searchParams.set("ssoError", ssoError);
+  }
+  res.redirect(url.toString());
+};
+
+// Names for a new user, from the profile claims or else the email address
+const namesFromClaims = (
+  claims: OidcClaims,
+  email: string
+): { firstName: string; lastName: string } => {
+  const [firstFromName, ...restOfName] = (claims.name || "")
+    .trim()
+    .split(/\s+/);
+  return {
+    firstName: claims.given_name || firstFromName || email.split("@")[0],
+    lastName: claims.family_name || restOfName.join(" ") || "-",
+  };
+};
+
+/**
+ * Find the account a provider user signs in to. Accounts are linked to the
+ * provider by subject; the first time, an existing account with the same,
+ * verified, email address is linked or else a new one is created.
+ */
+const findOrCreateUser = async (
+  settings: OidcSettings,
+  claims: OidcClaims
+): Promise<SsoUserResult> => {
+  const linked = await db.query<SsoUserRow>(
+    `SELECT ${SSO_USER_COLUMNS} FROM users WHERE oidc_issuer = $1 AND oidc_subject = $2`,
+    [settings.issuer, claims.sub]
+  );
+  if (linked.rows[0]) {
+    return { user: linked.rows[0] };
+  }
+
+  if (!claims.email) {
+    return { error: "email_required" };
+  }
+  const email = claims.email.toLowerCase();
+
+  const existing = await db.query<SsoUserRow & { oidc_subject: string | null }>(
+    `SELECT ${SSO_USER_COLUMNS}, oidc_subject FROM users WHERE email = $1`,
+    [email]
+  );
+  if (existing.rows[0]) {
+    // Otherwise anyone who can set that address at the provider could take
+    // the account over
+    if (!isEmailVerified(claims) || existing.rows[0].oidc_subject) {
+      return { error: "email_unverified" };
+    }
+
+    const result = await db.query<SsoUserRow>(
+      `UPDATE users SET oidc_issuer = $2, oidc_subject = $3, updated_at = NOW()
+       WHERE id = $1
+       RETURNING ${SSO_USER_COLUMNS}`,
+      [existing.rows[0].id, settings.issuer, claims.sub]
+    );
+    return { user: result.rows[0] };
+  }
+
+  if (!settings.autoProvision) {
+    return { error: "not_provisioned" };
+  }
+  if (await isUserLimitReached()) {
+    return { error: "user_limit" };
+  }
+
+  // The user signs in through the provider, so nobody knows this password.
+  // They can still set one with a password reset if password login is on.
+  const hashedPassword = await bcrypt.hash(
+    crypto.randomBytes(32).toString("hex"),
+    12
+  );
+  const { firstName, lastName } = namesFromClaims(claims, email);
+
+  const result = await db.query<SsoUserRow>(
+    `INSERT INTO users (email, password, first_name, last_name, role, email_verified_at, oidc_issuer, oidc_subject)
+     VALUES ($1, $2, $3, $4, $5, CASE WHEN $6::boolean THEN NOW() ELSE NULL END, $7, $8)
+     RETURNING ${SSO_USER_COLUMNS}`,
+    [
+      email,
+      hashedPassword,
+      firstName,
+      lastName,
+      (await mapOidcRole(settings, claims)) || "user",
+      isEmailVerified(claims),
+      settings.issuer,
+      claims.sub,
+    ]
+  );
+  const user = result.rows[0];
+
+  await seedDefaultData(user.id);
+
+  return { user };
+};
+
+// What the login page needs to offer single sign-on
+router.get("/config", async (req: Request, res: Response) => {
+  try {
+    const settings = await getOidcSettings();
+
+    res.json({
+      enabled: settings.enabled,
+      buttonLabel: settings.buttonLabel,
+      passwordLoginEnabled: await isPasswordLoginAllowed(null),
+      redirectUri: getRedirectUri(req),
+    });
+  } catch (error) {
+    console.error("Get SSO config error:", error);
+    res.status(500).json({ message: "Server error fetching SSO settings" });
+  }
+});
+
+// Send the browser to the provider's sign-in page
+router.get("/login", async (req: Request, res: Response) => {
+  try {
+    const settings = await getOidcSettings();
+    if (!settings.enabled) {
+      redirectToFrontend(res, "/login", "disabled");
+      return;
+    }
+
+    const { url, loginState } = await createAuthorizationRequest(
+      settings,
+      getRedirectUri(req)
+    );
+
+    res.cookie(OIDC_STATE_COOKIE, loginState, {
+      ...stateCookieOptions(),
+      maxAge: OIDC_STATE_MAX_AGE_MS,
+    });
+    res.redirect(url);
+  } catch (error) {
+    console.error("SSO login error:", error);
+    redirectToFrontend(res, "/login", "failed");
+  }
+});
+
+// The provider sends the browser back here with an authorization code
+router.get("/callback", async (req: Request, res: Response) => {
+  const query = req.query as CallbackQuery;
+  const loginState: string | undefined = req.cookies?.[OIDC_STATE_COOKIE];
+  res.clearCookie(OIDC_STATE_COOKIE, stateCookieOptions());
+
+  try {
+    const settings = await getOidcSettings();
+    if (!settings.enabled) {
+      redirectToFrontend(res, "/login", "disabled");
+      return;
+    }
+
+    if (query.error) {
+      redirectToFrontend(res, "/login", "cancelled");
+      return;
+    }
+
+    const claims = await completeAuthorization(
+      settings,
+      getRedirectUri(req),
+      loginState,
+      query
+    );
+
+    const result = await findOrCreateUser(settings, claims);
+    if ("error" in result) {
+      await recordLoginFailure(
+        req,
+        claims.email || claims.sub,
+        null,
+        "sso_denied"
+      );
+      redirectToFrontend(res, "/login", result.error);
+      return;
+    }
+
+    let { user } = result;
+
+    if (user.deactivated_at) {
+      await recordLoginFailure(req, user.email, user.id, "deactivated");
+      redirectToFrontend(res, "/login", "deactivated");
+      return;
+    }
+
+    // The provider is in charge of roles once a role claim is configured
+    const role = await mapOidcRole(settings, claims);
+    if (role && role !== user.role) {
+      const updated = await db.query<SsoUserRow>(
+        `UPDATE users SET role = $2, updated_at = NOW() WHERE id = $1
+           RETURNING ${SSO_USER_COLUMNS}`,
+        [user.id, role]
+      );
+      user = updated.rows[0];
+
+      // Like a role change by an admin, this logs the user out everywhere
+      await revokeUserSessions(user.id);
+    }
+
+    await startSession(req, res, user, "oidc");
+    await recordLoginSuccess(req, user);
+
+    redirectToFrontend(res, "/dashboard");
+  } catch (error) {
+    console.error("SSO callback error:", error);
+    redirectToFrontend(res, "/login", "failed");
+  }
+});
+
+export default router;
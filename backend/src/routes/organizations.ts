@@ -1,32 +1,247 @@
 import express, { Response } from "express";
-import { body, validationResult, query } from "express-validator";
+import { body, validationResult, query, param } from "express-validator";
 import db from "../config/database";
 import { authenticateToken } from "../middleware/auth";
-import { AuthenticatedRequest, Organization, Contact, Deal } from "../types";
+import { requirePermission } from "../middleware/permissions";
+import {
+  Activity,
+  AuthenticatedRequest,
+  Organization,
+  Contact,
+  Deal,
+  PostalAddress,
+  TeamRole,
+} from "../types";
+import { getRecordHistory, recordAudit } from "../utils/auditLog";
+import {
+  CONTACT_ORGANIZATION_COLUMNS,
+  CONTACT_ORGANIZATION_ORDER,
+  ContactOrganizationResponse,
+  ContactOrganizationRow,
+  toContactOrganizationResponse,
+} from "../utils/contactOrganizations";
+import {
+  addressColumns,
+  addressValidators,
+  resolveAddresses,
+} from "../utils/contactMethods";
+import {
+  OrganizationRollup,
+  companyFilterSql,
+  getOrganizationRollups,
+  isSameOrAncestor,
+  lockForMove,
+} from "../utils/organizationHierarchy";
+import {
+  CUSTOM_FIELD_SORT_PATTERN,
+  CustomFieldFilters,
+  customFieldConditions,
+  customFieldOrderBy,
+  getCustomFields,
+  mergeCustomFieldsSql,
+  validateCustomFieldValues,
+} from "../utils/customFields";
+import {
+  canAssignTeam,
+  canDeleteRecord,
+  canEditRecord,
+  recordVisibility,
+} from "../utils/visibility";
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(authenticateToken);
 
-interface OrganizationWithCounts extends Organization {
+interface OrganizationWithCounts extends OrganizationRow {
   contact_count: string;
   deal_count: string;
 }
 
+interface OrganizationRow extends Organization {
+  team_name?: string;
+  parent_name?: string;
+  is_shared_with_me: boolean;
+  permission?: "read" | "write";
+}
+
+interface OrganizationPersonRow extends ContactOrganizationRow {
+  first_name: string;
+  last_name: string;
+  email?: string;
+  phone?: string;
+}
+
+// A contact's role at the organization, with who they are
+interface OrganizationPerson extends ContactOrganizationResponse {
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phone?: string;
+}
+
+interface OrganizationSummary {
+  id: string;
+  name: string;
+}
+
+interface OrganizationTreeRow extends OrganizationSummary {
+  industry?: string;
+  parent_id: string | null;
+}
+
+interface OrganizationTreeNode extends OrganizationSummary {
+  industry?: string;
+  parentId: string | null;
+  rollup: OrganizationRollup;
+  subsidiaries: OrganizationTreeNode[];
+}
+
 interface OrganizationDetail extends Organization {
+  isSharedWithMe: boolean;
+  permission?: "read" | "write";
+  parent: OrganizationSummary | null;
+  // Direct subsidiaries the user can see
+  subsidiaries: OrganizationSummary[];
+  // Across the organization and everything below it
+  rollup: OrganizationRollup;
   contacts: Contact[];
+  // Everyone with a role here, split by whether it is current
+  people: { current: OrganizationPerson[]; past: OrganizationPerson[] };
   deals: (Deal & { stage_name?: string })[];
 }
 
+type RelatedSection =
+  "contacts" | "deals" | "openActivities" | "completedActivities" | "notes";
+
+const RELATED_SECTIONS: RelatedSection[] = [
+  "contacts",
+  "deals",
+  "openActivities",
+  "completedActivities",
+  "notes",
+];
+
+interface RelatedQueryParams {
+  // Only this section, e.g. to load its next page
+  section?: RelatedSection;
+  page?: number;
+  limit?: number;
+  includeSubsidiaries?: boolean;
+}
+
+// Where a section's records come from, shared by its count and page queries
+interface RelatedScope {
+  organizationId: string;
+  userId: string;
+  page: number;
+  limit: number;
+  includeSubsidiaries?: boolean;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+interface Paged<T> {
+  items: T[];
+  pagination: Pagination;
+}
+
+interface RelatedDealRow extends Deal {
+  stage_id: string | null;
+  stage_name: string | null;
+  stage_kind: "open" | "won" | "lost" | null;
+  contact_name?: string;
+  company_name?: string;
+}
+
+interface StageTotalRow {
+  stage_id: string | null;
+  stage_name: string | null;
+  stage_kind: "open" | "won" | "lost" | null;
+  count: string;
+  value: string;
+}
+
+// A stage with its totals over all the organization's deals and the deals of
+// the current page in it
+interface RelatedDealStage {
+  stageId: string | null;
+  stageName: string | null;
+  kind: "open" | "won" | "lost" | null;
+  count: number;
+  value: number;
+  deals: RelatedDealRow[];
+}
+
+interface RelatedActivityRow extends Activity {
+  contact_name?: string;
+  deal_name?: string;
+  company_name?: string;
+}
+
+interface RelatedNoteRow {
+  id: string;
+  content: string;
+  source_type: "contact" | "activity";
+  source_id: string;
+  source_label: string;
+  author_first_name: string;
+  author_last_name: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A note on one of the organization's contacts or activities
+interface RelatedNote {
+  id: string;
+  content: string;
+  source: { type: "contact" | "activity"; id: string; label: string };
+  authorName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface OrganizationRelated {
+  contacts?: Paged<OrganizationPerson>;
+  deals?: { stages: RelatedDealStage[]; pagination: Pagination };
+  openActivities?: Paged<RelatedActivityRow>;
+  completedActivities?: Paged<RelatedActivityRow>;
+  notes?: Paged<RelatedNote>;
+}
+
+interface ExistingOrganizationRow {
+  id: string;
+  user_id: string;
+  permission?: "read" | "write";
+  team_role?: TeamRole;
+  addresses?: PostalAddress[];
+}
+
 interface CountRow {
   count: string;
 }
 
+interface HistoryQueryParams {
+  page?: number;
+  limit?: number;
+}
+
 interface OrganizationsQueryParams {
   page?: number;
   limit?: number;
   search?: string;
+  // Custom field filters, cf[key]=value
+  cf?: CustomFieldFilters;
+  // "cf.<key>" to sort by a custom field
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
 }
 
 interface CreateOrganizationBody {
@@ -35,8 +250,13 @@ interface CreateOrganizationBody {
   website?: string;
   phone?: string;
   email?: string;
+  // Sets the primary address, as older clients send it
   address?: string;
+  addresses?: Partial<PostalAddress>[];
   notes?: string;
+  teamId?: string | null;
+  parentId?: string | null;
+  customFields?: Record<string, unknown>;
 }
 
 interface UpdateOrganizationBody {
@@ -45,10 +265,262 @@ interface UpdateOrganizationBody {
   website?: string;
   phone?: string;
   email?: string;
+  // Sets the primary address, as older clients send it
   address?: string;
+  addresses?: Partial<PostalAddress>[];
   notes?: string;
+  teamId?: string | null;
+  parentId?: string | null;
+  customFields?: Record<string, unknown>;
 }
 
+/**
+ * Check that the user can see a parent an organization is placed under. On
+ * update, the loop check runs with the update, see lockForMove.
+ * @param parentId - The requested parent
+ * @param userId - The user making the change
+ * @returns An error message, or null when the parent is fine
+ */
+const validateParent = async (
+  parentId: string,
+  userId: string
+): Promise<string | null> => {
+  const visibility = recordVisibility("organization", "c", "$2");
+  const parent = await db.query(
+    `SELECT c.id FROM companies c
+     ${visibility.joins}
+     WHERE c.id = $1 AND ${visibility.condition}`,
+    [parentId, userId]
+  );
+  if (parent.rows.length === 0) {
+    return "Invalid parent organization ID";
+  }
+  return null;
+};
+
+const paginate = (total: number, page: number, limit: number): Pagination => {
+  const totalPages = Math.ceil(total / limit);
+  return {
+    page,
+    limit,
+    total,
+    totalPages,
+    hasNext: page < totalPages,
+    hasPrev: page > 1,
+  };
+};
+
+const toOrganizationPerson = (
+  row: OrganizationPersonRow
+): OrganizationPerson => ({
+  ...toContactOrganizationResponse(row),
+  firstName: row.first_name,
+  lastName: row.last_name,
+  email: row.email,
+  phone: row.phone,
+});
+
+/**
+ * The contacts with a current role at the organization, newest role first
+ */
+const getRelatedContacts = async (
+  scope: RelatedScope
+): Promise<Paged<OrganizationPerson>> => {
+  const visibility = recordVisibility("contact", "ct", "$2");
+  const from = `FROM contact_organizations co
+    JOIN contacts ct ON co.contact_id = ct.id
+    JOIN companies comp ON co.company_id = comp.id
+    ${visibility.joins}
+    WHERE co.is_current
+      AND ${companyFilterSql("co.company_id", "$1", scope.includeSubsidiaries)}
+      AND ${visibility.condition}`;
+  const params = [scope.organizationId, scope.userId];
+
+  const [countResult, dataResult] = await Promise.all([
+    db.query<CountRow>(`SELECT COUNT(*) ${from}`, params),
+    db.query<OrganizationPersonRow>(
+      `SELECT ${CONTACT_ORGANIZATION_COLUMNS}, comp.name as company_name,
+         ct.first_name, ct.last_name, ct.email, ct.phone
+       ${from}
+       ORDER BY ${CONTACT_ORGANIZATION_ORDER}
+       LIMIT $3 OFFSET $4`,
+      [...params, scope.limit, (scope.page - 1) * scope.limit]
+    ),
+  ]);
+
+  return {
+    items: dataResult.rows.map(toOrganizationPerson),
+    pagination: paginate(
+      parseInt(countResult.rows[0].count, 10),
+      scope.page,
+      scope.limit
+    ),
+  };
+};
+
+/**
+ * The organization's deals in pipeline order, grouped by stage. Stage totals
+ * cover every deal, not only the page.
+ */
+const getRelatedDeals = async (
+  scope: RelatedScope
+): Promise<{ stages: RelatedDealStage[]; pagination: Pagination }> => {
+  const visibility = recordVisibility("deal", "d", "$2");
+  const from = `FROM deals d
+    LEFT JOIN deal_stages ds ON d.stage_id = ds.id
+    LEFT JOIN contacts c ON d.contact_id = c.id
+    LEFT JOIN companies comp ON d.company_id = comp.id
+    ${visibility.joins}
+    WHERE ${companyFilterSql("d.company_id", "$1", scope.includeSubsidiaries)}
+      AND ${visibility.condition}`;
+  const params = [scope.organizationId, scope.userId];
+
+  const [totalsResult, dataResult] = await Promise.all([
+    db.query<StageTotalRow>(
+      `SELECT ds.id as stage_id, ds.name as stage_name, ds.kind as stage_kind,
+         COUNT(*) as count, COALESCE(SUM(d.value), 0) as value
+       ${from}
+       GROUP BY ds.id, ds.name, ds.kind, ds.order_index
+       ORDER BY ds.order_index NULLS LAST, ds.id`,
+      params
+    ),
+    db.query<RelatedDealRow>(
+      `SELECT d.*, ds.name as stage_name, ds.kind as stage_kind,
+         c.first_name || ' ' || c.last_name as contact_name,
+         comp.name as company_name
+       ${from}
+       ORDER BY ds.order_index NULLS LAST, ds.id, d.position, d.created_at DESC
+       LIMIT $3 OFFSET $4`,
+      [...params, scope.limit, (scope.page - 1) * scope.limit]
+    ),
+  ]);
+
+  const stages: RelatedDealStage[] = totalsResult.rows.map((row) => ({
+    stageId: row.stage_id,
+    stageName: row.stage_name,
+    kind: row.stage_kind,
+    count: parseInt(row.count, 10),
+    value: parseFloat(row.value),
+    deals: dataResult.rows.filter(
+      (deal) => String(deal.stage_id) === String(row.stage_id)
+    ),
+  }));
+  const total = stages.reduce((sum, stage) => sum + stage.count, 0);
+
+  return { stages, pagination: paginate(total, scope.page, scope.limit) };
+};
+
+/**
+ * The organization's open activities by due date, soonest first, or its
+ * completed ones, latest first
+ */
+const getRelatedActivities = async (
+  scope: RelatedScope,
+  completed: boolean
+): Promise<Paged<RelatedActivityRow>> => {
+  const visibility = recordVisibility("activity", "a", "$2");
+  const from = `FROM activities a
+    LEFT JOIN contacts c ON a.contact_id = c.id
+    LEFT JOIN deals d ON a.deal_id = d.id
+    LEFT JOIN companies comp ON a.company_id = comp.id
+    ${visibility.joins}
+    WHERE ${companyFilterSql("a.company_id", "$1", scope.includeSubsidiaries)}
+      AND a.completed = $3
+      AND ${visibility.condition}`;
+  const params = [scope.organizationId, scope.userId, completed];
+  const orderBy = completed
+    ? "COALESCE(a.due_date, a.created_at) DESC"
+    : "a.due_date ASC NULLS LAST, a.created_at";
+
+  const [countResult, dataResult] = await Promise.all([
+    db.query<CountRow>(`SELECT COUNT(*) ${from}`, params),
+    db.query<RelatedActivityRow>(
+      `SELECT a.*,
+         c.first_name || ' ' || c.last_name as contact_name,
+         d.title as deal_name,
+         comp.name as company_name
+       ${from}
+       ORDER BY ${orderBy}, a.id DESC
+       LIMIT $4 OFFSET $5`,
+      [...params, scope.limit, (scope.page - 1) * scope.limit]
+    ),
+  ]);
+
+  return {
+    items: dataResult.rows,
+    pagination: paginate(
+      parseInt(countResult.rows[0].count, 10),
+      scope.page,
+      scope.limit
+    ),
+  };
+};
+
+/**
+ * The user's notes on the organization's current contacts and the notes on
+ * its activities, newest first. Contact notes are private to their author,
+ * as on the contact page.
+ */
+const getRelatedNotes = async (
+  scope: RelatedScope
+): Promise<Paged<RelatedNote>> => {
+  const visibility = recordVisibility("activity", "a", "$2");
+  const notes = `SELECT cn.id, cn.content, 'contact' as source_type,
+      ct.id as source_id, ct.first_name || ' ' || ct.last_name as source_label,
+      cn.user_id, cn.created_at, cn.updated_at
+    FROM contact_notes cn
+    JOIN contacts ct ON cn.contact_id = ct.id
+    WHERE cn.user_id = $2
+      AND EXISTS (
+        SELECT 1 FROM contact_organizations co
+        WHERE co.contact_id = ct.id AND co.is_current
+          AND ${companyFilterSql("co.company_id", "$1", scope.includeSubsidiaries)}
+      )
+    UNION ALL
+    SELECT an.id, an.content, 'activity' as source_type,
+      a.id as source_id, a.subject as source_label,
+      an.user_id, an.created_at, an.updated_at
+    FROM activity_notes an
+    JOIN activities a ON an.activity_id = a.id
+    ${visibility.joins}
+    WHERE ${companyFilterSql("a.company_id", "$1", scope.includeSubsidiaries)}
+      AND ${visibility.condition}`;
+  const params = [scope.organizationId, scope.userId];
+
+  const [countResult, dataResult] = await Promise.all([
+    db.query<CountRow>(`SELECT COUNT(*) FROM (${notes}) n`, params),
+    db.query<RelatedNoteRow>(
+      `SELECT n.*, u.first_name as author_first_name,
+         u.last_name as author_last_name
+       FROM (${notes}) n
+       JOIN users u ON n.user_id = u.id
+       ORDER BY n.created_at DESC, n.source_type, n.id DESC
+       LIMIT $3 OFFSET $4`,
+      [...params, scope.limit, (scope.page - 1) * scope.limit]
+    ),
+  ]);
+
+  return {
+    items: dataResult.rows.map((note) => ({
+      id: note.id,
+      content: note.content,
+      source: {
+        type: note.source_type,
+        id: note.source_id,
+        label: note.source_label,
+      },
+      authorName: `${note.author_first_name} ${note.author_last_name}`,
+      createdAt: note.created_at,
+      updatedAt: note.updated_at,
+    })),
+    pagination: paginate(
+      parseInt(countResult.rows[0].count, 10),
+      scope.page,
+      scope.limit
+    ),
+  };
+};
+
 // Get all organizations with pagination and search
 router.get(
   "/",
@@ -56,6 +528,8 @@ router.get(
     query("page").optional().isInt({ min: 1 }).toInt(),
     query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
     query("search").optional().trim(),
+    query("sortBy").optional().matches(CUSTOM_FIELD_SORT_PATTERN),
+    query("sortOrder").optional().isIn(["asc", "desc"]),
   ],
   async (
     req: AuthenticatedRequest<{}, {}, {}, OrganizationsQueryParams>,
@@ -78,44 +552,87 @@ router.get(
       const offset = (page - 1) * limit;
       const search = req.query.search;
 
-      let countQuery = "SELECT COUNT(*) FROM companies";
+      const visibility = recordVisibility("organization", "c", "$1");
+
+      let countQuery = `
+        SELECT COUNT(*) 
+        FROM companies c 
+        ${visibility.joins}
+        WHERE ${visibility.condition}
+      `;
       let dataQuery = `
-        SELECT c.*, 
+        SELECT c.*, t.name as team_name,
           (SELECT COUNT(*) FROM contacts WHERE company_id = c.id) as contact_count,
-          (SELECT COUNT(*) FROM deals WHERE company_id = c.id) as deal_count
+          (SELECT COUNT(*) FROM deals WHERE company_id = c.id) as deal_count,
+          (SELECT name FROM companies WHERE id = c.parent_id) as parent_name,
+          CASE WHEN c.user_id = $1 THEN false ELSE true END as is_shared_with_me,
+          ${visibility.permission} as permission
         FROM companies c 
+        LEFT JOIN teams t ON c.team_id = t.id
+        ${visibility.joins}
+        WHERE ${visibility.condition}
       `;
-      const params: any[] = [];
+      const params: any[] = [req.user.userId];
 
       if (search) {
-        const searchCondition = `WHERE (
-          c.name ILIKE $1 OR 
-          c.industry ILIKE $1 OR 
-          c.email ILIKE $1 OR 
-          c.website ILIKE $1
+        const searchCondition = ` AND (
+          c.name ILIKE $2 OR 
+          c.industry ILIKE $2 OR 
+          c.email ILIKE $2 OR 
+          c.website ILIKE $2
         )`;
-        countQuery += " " + searchCondition;
-        dataQuery += " " + searchCondition;
+        countQuery += searchCondition;
+        dataQuery += searchCondition;
         params.push(`%${search}%`);
       }
 
+      const customFields = await getCustomFields("organization");
+      const customFilter = customFieldConditions(
+        customFields,
+        req.query.cf,
+        "c",
+        params
+      );
+      const customSort = customFieldOrderBy(
+        customFields,
+        req.query.sortBy,
+        req.query.sortOrder,
+        "c"
+      );
+      const customFieldError = customFilter.error || customSort.error;
+      if (customFieldError) {
+        res.status(400).json({ message: customFieldError });
+        return;
+      }
+      countQuery += customFilter.conditions;
+      dataQuery += customFilter.conditions;
+
+      const orderBy = customSort.orderBy ? `${customSort.orderBy}, ` : "";
       dataQuery +=
-        " ORDER BY c.created_at DESC LIMIT $" +
+        ` ORDER BY ${orderBy}c.created_at DESC LIMIT $` +
         (params.length + 1) +
         " OFFSET $" +
         (params.length + 2);
       params.push(limit, offset);
 
       const [countResult, dataResult] = await Promise.all([
-        db.query<CountRow>(countQuery, search ? [`%${search}%`] : []),
+        db.query<CountRow>(countQuery, params.slice(0, -2)),
         db.query<OrganizationWithCounts>(dataQuery, params),
       ]);
 
       const total = parseInt(countResult.rows[0].count, 10);
       const totalPages = Math.ceil(total / limit);
 
+      const organizations = dataResult.rows.map(
+        ({ is_shared_with_me, permission, ...organization }) => ({
+          ...organization,
+          isSharedWithMe: is_shared_with_me,
+          permission,
+        })
+      );
+
       res.json({
-        organizations: dataResult.rows,
+        organizations,
         pagination: {
           page,
           limit,
@@ -132,6 +649,64 @@ router.get(
   }
 );
 
+// Get the visible organizations as a tree of parents and subsidiaries, each
+// with its roll-up figures. An organization whose parent the user can't see
+// is shown at the top level.
+router.get("/tree", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return;
+    }
+
+    const visibility = recordVisibility("organization", "c", "$1");
+    const result = await db.query<OrganizationTreeRow>(
+      `SELECT c.id, c.name, c.industry, c.parent_id
+       FROM companies c
+       ${visibility.joins}
+       WHERE ${visibility.condition}
+       ORDER BY c.name`,
+      [req.user.userId]
+    );
+
+    const rollups = await getOrganizationRollups(
+      result.rows.map((row) => row.id),
+      req.user.userId
+    );
+
+    const nodes = new Map<string, OrganizationTreeNode>(
+      result.rows.map((row) => [
+        String(row.id),
+        {
+          id: row.id,
+          name: row.name,
+          industry: row.industry,
+          parentId: row.parent_id,
+          rollup: rollups.get(String(row.id))!,
+          subsidiaries: [],
+        },
+      ])
+    );
+
+    const organizations: OrganizationTreeNode[] = [];
+    nodes.forEach((node) => {
+      const parent = node.parentId ? nodes.get(String(node.parentId)) : null;
+      if (parent) {
+        parent.subsidiaries.push(node);
+      } else {
+        organizations.push(node);
+      }
+    });
+
+    res.json({ organizations });
+  } catch (error) {
+    console.error("Get organization tree error:", error);
+    res
+      .status(500)
+      .json({ message: "Server error fetching organization tree" });
+  }
+});
+
 // Get single organization with contacts and deals
 router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -141,13 +716,48 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const { id } = req.params;
+    const visibility = recordVisibility("organization", "c", "$2");
+    const subsidiaryVisibility = recordVisibility("organization", "sub", "$2");
 
-    const [companyResult, contactsResult, dealsResult] = await Promise.all([
-      db.query<Organization>("SELECT * FROM companies WHERE id = $1", [id]),
+    const [
+      companyResult,
+      subsidiariesResult,
+      contactsResult,
+      peopleResult,
+      dealsResult,
+    ] = await Promise.all([
+      db.query<OrganizationRow>(
+        `SELECT c.*, t.name as team_name,
+           (SELECT name FROM companies WHERE id = c.parent_id) as parent_name,
+           CASE WHEN c.user_id = $2 THEN false ELSE true END as is_shared_with_me,
+           ${visibility.permission} as permission
+         FROM companies c
+         LEFT JOIN teams t ON c.team_id = t.id
+         ${visibility.joins}
+         WHERE c.id = $1 AND ${visibility.condition}`,
+        [id, req.user.userId]
+      ),
+      db.query<OrganizationSummary>(
+        `SELECT sub.id, sub.name
+         FROM companies sub
+         ${subsidiaryVisibility.joins}
+         WHERE sub.parent_id = $1 AND ${subsidiaryVisibility.condition}
+         ORDER BY sub.name`,
+        [id, req.user.userId]
+      ),
       db.query<Contact>(
         "SELECT * FROM contacts WHERE company_id = $1 AND user_id = $2 ORDER BY created_at DESC",
         [id, req.user.userId]
       ),
+      db.query<OrganizationPersonRow>(
+        `SELECT ${CONTACT_ORGANIZATION_COLUMNS}, ct.first_name, ct.last_name,
+           ct.email, ct.phone
+         FROM contact_organizations co
+         JOIN contacts ct ON co.contact_id = ct.id
+         WHERE co.company_id = $1 AND ct.user_id = $2
+         ORDER BY ${CONTACT_ORGANIZATION_ORDER}`,
+        [id, req.user.userId]
+      ),
       db.query<Deal & { stage_name?: string }>(
         `SELECT d.*, ds.name as stage_name 
         FROM deals d 
@@ -163,9 +773,27 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
       return;
     }
 
+    const { is_shared_with_me, permission, parent_name, ...company } =
+      companyResult.rows[0];
+
+    const rollups = await getOrganizationRollups([id], req.user.userId);
+
+    const people = peopleResult.rows.map(toOrganizationPerson);
+
     const organization: OrganizationDetail = {
-      ...companyResult.rows[0],
+      ...company,
+      isSharedWithMe: is_shared_with_me,
+      permission,
+      parent: company.parent_id
+        ? { id: company.parent_id, name: parent_name! }
+        : null,
+      subsidiaries: subsidiariesResult.rows,
+      rollup: rollups.get(id)!,
       contacts: contactsResult.rows,
+      people: {
+        current: people.filter((person) => person.isCurrent),
+        past: people.filter((person) => !person.isCurrent),
+      },
       deals: dealsResult.rows,
     };
 
@@ -176,9 +804,150 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// Get the records related to an organization for its detail page: current
+// contacts, deals by stage, open and completed activities, and notes. Each
+// section is paged on its own; pass a section to load only that one.
+router.get(
+  "/:id/related",
+  [
+    param("id").isInt({ min: 1 }),
+    query("section").optional().isIn(RELATED_SECTIONS),
+    query("page").optional().isInt({ min: 1 }).toInt(),
+    query("limit").optional().isInt({ min: 1, max: 50 }).toInt(),
+    query("includeSubsidiaries").optional().isBoolean().toBoolean(),
+  ],
+  async (
+    req: AuthenticatedRequest<{ id: string }, {}, {}, RelatedQueryParams>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+      const visibility = recordVisibility("organization", "c", "$2");
+      const companyCheck = await db.query(
+        `SELECT c.id FROM companies c
+         ${visibility.joins}
+         WHERE c.id = $1 AND ${visibility.condition}`,
+        [id, req.user.userId]
+      );
+
+      if (companyCheck.rows.length === 0) {
+        res.status(404).json({ message: "Organization not found" });
+        return;
+      }
+
+      const scope: RelatedScope = {
+        organizationId: id,
+        userId: req.user.userId,
+        page: Number(req.query.page) || 1,
+        limit: Number(req.query.limit) || 10,
+        includeSubsidiaries: req.query.includeSubsidiaries,
+      };
+      const wanted = (section: RelatedSection) =>
+        !req.query.section || req.query.section === section;
+
+      const [contacts, deals, openActivities, completedActivities, notes] =
+        await Promise.all([
+          wanted("contacts") ? getRelatedContacts(scope) : undefined,
+          wanted("deals") ? getRelatedDeals(scope) : undefined,
+          wanted("openActivities")
+            ? getRelatedActivities(scope, false)
+            : undefined,
+          wanted("completedActivities")
+            ? getRelatedActivities(scope, true)
+            : undefined,
+          wanted("notes") ? getRelatedNotes(scope) : undefined,
+        ]);
+
+      const related: OrganizationRelated = {
+        contacts,
+        deals,
+        openActivities,
+        completedActivities,
+        notes,
+      };
+
+      res.json(related);
+    } catch (error) {
+      console.error("Get organization related records error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error fetching related records" });
+    }
+  }
+);
+
+// Get the change history of an organization, newest first
+router.get(
+  "/:id/history",
+  [
+    query("page").optional().isInt({ min: 1 }).toInt(),
+    query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  async (
+    req: AuthenticatedRequest<{ id: string }, {}, {}, HistoryQueryParams>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { id } = req.params;
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+
+      const visibility = recordVisibility("organization", "c", "$2");
+      const companyCheck = await db.query(
+        `SELECT c.id FROM companies c
+         ${visibility.joins}
+         WHERE c.id = $1 AND ${visibility.condition}`,
+        [id, req.user.userId]
+      );
+
+      if (companyCheck.rows.length === 0) {
+        res.status(404).json({ message: "Organization not found" });
+        return;
+      }
+
+      const { entries, total } = await getRecordHistory(
+        "organization",
+        id,
+        limit,
+        (page - 1) * limit
+      );
+
+      res.json({ entries, pagination: paginate(total, page, limit) });
+    } catch (error) {
+      console.error("Get organization history error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error fetching organization history" });
+    }
+  }
+);
+
 // Create organization
 router.post(
   "/",
+  requirePermission("can_edit_records"),
   [
     body("name").trim().notEmpty(),
     body("industry").optional().trim(),
@@ -187,6 +956,10 @@ router.post(
     body("email").optional().isEmail().normalizeEmail(),
     body("address").optional().trim(),
     body("notes").optional().trim(),
+    body("teamId").optional({ nullable: true }).isInt(),
+    body("parentId").optional({ nullable: true }).isInt(),
+    body("customFields").optional().isObject(),
+    ...addressValidators,
   ],
   async (
     req: AuthenticatedRequest<{}, {}, CreateOrganizationBody>,
@@ -204,26 +977,69 @@ router.post(
         return;
       }
 
-      const { name, industry, website, phone, email, address, notes } =
+      const { name, industry, website, phone, email, notes, teamId, parentId } =
         req.body;
 
-      const result = await db.query<Organization>(
-        `INSERT INTO companies (name, industry, website, phone, email, address, notes, user_id) 
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8) 
-         RETURNING *`,
-        [
-          name,
-          industry || null,
-          website || null,
-          phone || null,
-          email || null,
-          address || null,
-          notes || null,
-          req.user.userId,
-        ]
+      if (teamId && !(await canAssignTeam(teamId, req.user.userId))) {
+        res.status(403).json({
+          message: "You can't add organizations to this team",
+        });
+        return;
+      }
+
+      if (parentId) {
+        const parentError = await validateParent(parentId, req.user.userId);
+        if (parentError) {
+          res.status(400).json({ message: parentError });
+          return;
+        }
+      }
+
+      const customFields = await validateCustomFieldValues(
+        "organization",
+        req.body.customFields,
+        true
       );
+      if (customFields.error) {
+        res.status(400).json({ message: customFields.error });
+        return;
+      }
+
+      const addresses = addressColumns(resolveAddresses(req.body, []) || []);
+      const userId = req.user.userId;
 
-      res.status(201).json(result.rows[0]);
+      const organization = await db.transaction(async (client) => {
+        const result = await client.query<Organization>(
+          `INSERT INTO companies (name, industry, website, phone, email, address, addresses, notes, user_id, team_id, parent_id, custom_fields) 
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, jsonb_strip_nulls($12::jsonb)) 
+           RETURNING *`,
+          [
+            name,
+            industry || null,
+            website || null,
+            phone || null,
+            email || null,
+            addresses.address,
+            addresses.addresses,
+            notes || null,
+            userId,
+            teamId || null,
+            parentId || null,
+            JSON.stringify(customFields.values),
+          ]
+        );
+
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "organization",
+          entityId: result.rows[0].id,
+          after: result.rows[0],
+        });
+
+        return result.rows[0];
+      });
+
+      res.status(201).json(organization);
     } catch (error) {
       console.error("Create organization error:", error);
       res.status(500).json({ message: "Server error creating organization" });
@@ -234,6 +1050,7 @@ router.post(
 // Update organization
 router.put(
   "/:id",
+  requirePermission("can_edit_records"),
   [
     body("name").optional().trim().notEmpty(),
     body("industry").optional().trim(),
@@ -242,6 +1059,10 @@ router.put(
     body("email").optional().isEmail().normalizeEmail(),
     body("address").optional().trim(),
     body("notes").optional().trim(),
+    body("teamId").optional({ nullable: true }).isInt(),
+    body("parentId").optional({ nullable: true }).isInt(),
+    body("customFields").optional().isObject(),
+    ...addressValidators,
   ],
   async (
     req: AuthenticatedRequest<{ id: string }, {}, UpdateOrganizationBody>,
@@ -262,9 +1083,13 @@ router.put(
       const { id } = req.params;
       const updates = req.body;
 
-      // Check if organization exists and belongs to user
-      const existingCompany = await db.query<{ id: string }>(
-        "SELECT id FROM companies WHERE id = $1 AND user_id = $2",
+      // Check if organization exists and user has edit permission
+      const visibility = recordVisibility("organization", "c", "$2");
+      const existingCompany = await db.query<ExistingOrganizationRow>(
+        `SELECT c.id, c.user_id, c.addresses, ${visibility.permission} as permission
+         FROM companies c
+         ${visibility.joins}
+         WHERE c.id = $1 AND ${visibility.condition}`,
         [id, req.user.userId]
       );
 
@@ -273,13 +1098,79 @@ router.put(
         return;
       }
 
+      // Check if user is owner or has write permission
+      if (!canEditRecord(existingCompany.rows[0], req.user.userId)) {
+        res.status(403).json({
+          message: "You don't have permission to edit this organization",
+        });
+        return;
+      }
+
+      if (
+        updates.teamId &&
+        !(await canAssignTeam(updates.teamId, req.user.userId))
+      ) {
+        res.status(403).json({
+          message: "You can't add organizations to this team",
+        });
+        return;
+      }
+
+      if (updates.parentId) {
+        const parentError = await validateParent(
+          updates.parentId,
+          req.user.userId
+        );
+        if (parentError) {
+          res.status(400).json({ message: parentError });
+          return;
+        }
+      }
+
+      const customFields = await validateCustomFieldValues(
+        "organization",
+        updates.customFields,
+        false
+      );
+      if (customFields.error) {
+        res.status(400).json({ message: customFields.error });
+        return;
+      }
+
       // Build dynamic update query
       const fields: string[] = [];
       const values: any[] = [];
       let paramCount = 1;
 
       Object.entries(updates).forEach(([key, value]) => {
-        fields.push(`${key} = $${paramCount}`);
+        if (key === "address" || key === "addresses") {
+          // Stored below from the resolved list
+          return;
+        }
+        if (key === "customFields") {
+          // Only the fields sent change; the rest keep their values
+          fields.push(
+            `custom_fields = ${mergeCustomFieldsSql(`$${paramCount}`)}`
+          );
+          values.push(JSON.stringify(customFields.values));
+        } else if (key === "parentId") {
+          fields.push(`parent_id = $${paramCount}`);
+          values.push(value || null);
+        } else {
+          fields.push(`${key === "teamId" ? "team_id" : key} = $${paramCount}`);
+          values.push(value);
+        }
+        paramCount++;
+      });
+
+      // The list is stored whole, with the primary address copied to the
+      // single address column
+      const addresses = resolveAddresses(
+        updates,
+        existingCompany.rows[0].addresses || []
+      );
+      Object.entries(addressColumns(addresses)).forEach(([column, value]) => {
+        fields.push(`${column} = $${paramCount}`);
         values.push(value);
         paramCount++;
       });
@@ -290,17 +1181,50 @@ router.put(
       }
 
       fields.push("updated_at = CURRENT_TIMESTAMP");
-      values.push(id, req.user.userId);
+      values.push(id);
 
       const query = `
         UPDATE companies 
         SET ${fields.join(", ")} 
-        WHERE id = $${paramCount} AND user_id = $${paramCount + 1} 
+        WHERE id = $${paramCount} 
         RETURNING *
       `;
 
-      const result = await db.query<Organization>(query, values);
-      res.json(result.rows[0]);
+      const organization = await db.transaction(async (client) => {
+        // The loop check and the move must see the same hierarchy
+        if (updates.parentId) {
+          await lockForMove(client, id, updates.parentId);
+          if (await isSameOrAncestor(client, id, updates.parentId)) {
+            return undefined;
+          }
+        }
+
+        const previous = await client.query<Organization>(
+          "SELECT * FROM companies WHERE id = $1 FOR UPDATE",
+          [id]
+        );
+        const result = await client.query<Organization>(query, values);
+
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "organization",
+          entityId: id,
+          before: previous.rows[0],
+          after: result.rows[0],
+        });
+
+        return result.rows[0];
+      });
+
+      if (!organization) {
+        res.status(400).json({
+          message:
+            "An organization can't be placed under itself or one of its subsidiaries",
+        });
+        return;
+      }
+
+      res.json(organization);
     } catch (error) {
       console.error("Update organization error:", error);
       res.status(500).json({ message: "Server error updating organization" });
@@ -309,30 +1233,66 @@ router.put(
 );
 
 // Delete organization
-router.delete("/:id", async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
-    }
+router.delete(
+  "/:id",
+  requirePermission("can_delete_organizations"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
 
-    const { id } = req.params;
+      const { id } = req.params;
 
-    const result = await db.query<{ id: string }>(
-      "DELETE FROM companies WHERE id = $1 AND user_id = $2 RETURNING id",
-      [id, req.user.userId]
-    );
+      const visibility = recordVisibility("organization", "c", "$2");
+      const existingCompany = await db.query<ExistingOrganizationRow>(
+        `SELECT c.id, c.user_id, ${visibility.teamRole} as team_role
+         FROM companies c
+         ${visibility.joins}
+         WHERE c.id = $1 AND ${visibility.condition}`,
+        [id, req.user.userId]
+      );
 
-    if (result.rows.length === 0) {
-      res.status(404).json({ message: "Organization not found" });
-      return;
-    }
+      if (existingCompany.rows.length === 0) {
+        res.status(404).json({ message: "Organization not found" });
+        return;
+      }
 
-    res.json({ message: "Organization deleted successfully" });
-  } catch (error) {
-    console.error("Delete organization error:", error);
-    res.status(500).json({ message: "Server error deleting organization" });
+      // Only the owner or the team's owners and managers can delete, even with
+      // write access
+      if (!canDeleteRecord(existingCompany.rows[0], req.user.userId)) {
+        res.status(403).json({
+          message: "You don't have permission to delete this organization",
+        });
+        return;
+      }
+
+      // Shares reference items without a foreign key, so clear them too
+      await db.transaction(async (client) => {
+        await client.query(
+          "DELETE FROM shares WHERE item_type = 'organization' AND item_id = $1",
+          [id]
+        );
+        const deleted = await client.query<Organization>(
+          "DELETE FROM companies WHERE id = $1 RETURNING *",
+          [id]
+        );
+
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "organization",
+          entityId: id,
+          before: deleted.rows[0],
+        });
+      });
+
+      res.json({ message: "Organization deleted successfully" });
+    } catch (error) {
+      console.error("Delete organization error:", error);
+      res.status(500).json({ message: "Server error deleting organization" });
+    }
   }
-});
+);
 
 export default router;
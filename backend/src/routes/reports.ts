@@ -0,0 +1,267 @@
+import express, { Response } from "express";
+import { query, validationResult } from "express-validator";
+import db from "../config/database";
+import { authenticateToken } from "../middleware/auth";
+import { AuthenticatedRequest } from "../types";
+import { recordVisibility } from "../utils/visibility";
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+interface VelocityQueryParams {
+  from?: string;
+  to?: string;
+  ownerId?: string;
+}
+
+interface StageRow {
+  id: number;
+  name: string;
+  kind: "open" | "won" | "lost";
+  order_index: number;
+}
+
+interface StayRow {
+  stage_id: number;
+  avg_days: string;
+  stays: string;
+}
+
+interface FunnelRow {
+  furthest_index: number | null;
+  deals: string;
+}
+
+interface OutcomeRow {
+  won_count: string;
+  lost_count: string;
+  avg_cycle_days: string | null;
+}
+
+interface StageVelocity {
+  id: number;
+  name: string;
+  kind: "open" | "won" | "lost";
+  orderIndex: number;
+  dealsReached: number;
+  conversionRate: number | null;
+  avgDaysInStage: number | null;
+  completedStays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// A date-only upper bound includes the whole day
+const parseRangeEnd = (to?: string): Date | null => {
+  if (!to) return null;
+  const end = new Date(to);
+  if (to.length === 10) {
+    end.setTime(end.getTime() + DAY_MS);
+  }
+  return end;
+};
+
+// Pipeline velocity: time in stage, funnel conversion, win rate and cycle length
+router.get(
+  "/pipeline-velocity",
+  [
+    query("from").optional().isISO8601(),
+    query("to").optional().isISO8601(),
+    query("ownerId").optional().isInt(),
+  ],
+  async (
+    req: AuthenticatedRequest<{}, {}, {}, VelocityQueryParams>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { from, to, ownerId } = req.query;
+
+      const stagesResult = await db.query<StageRow>(
+        "SELECT id, name, kind, order_index FROM deal_stages WHERE user_id = $1 ORDER BY order_index",
+        [req.user.userId]
+      );
+      const stages = stagesResult.rows;
+
+      // Every stage entry of the visible deals, with when the deal left it.
+      // History can point at another owner's stages (shared deals), which
+      // are matched to the user's own stages by name.
+      const visibility = recordVisibility("deal", "d", "$1");
+      const params: any[] = [
+        req.user.userId,
+        from ? new Date(from) : null,
+        parseRangeEnd(to),
+      ];
+      let history = `WITH history AS (
+          SELECT h.deal_id, h.changed_at,
+            LEAD(h.changed_at) OVER (PARTITION BY h.deal_id ORDER BY h.changed_at, h.id) as left_at,
+            ROW_NUMBER() OVER (PARTITION BY h.deal_id ORDER BY h.changed_at DESC, h.id DESC) as recency,
+            ts.kind as stage_kind,
+            stage.id as stage_id,
+            stage.kind as mapped_kind,
+            stage.order_index,
+            d.created_at as deal_created_at
+          FROM deal_stage_history h
+          JOIN deals d ON d.id = h.deal_id
+          LEFT JOIN deal_stages ts ON ts.id = h.to_stage_id
+          LEFT JOIN LATERAL (
+            SELECT mine.id, mine.kind, mine.order_index
+            FROM deal_stages mine
+            WHERE mine.user_id = $1
+              AND (mine.id = h.to_stage_id OR LOWER(mine.name) = LOWER(ts.name))
+            ORDER BY (mine.id = h.to_stage_id) DESC
+            LIMIT 1
+          ) stage ON true
+          ${visibility.joins}
+          WHERE ${visibility.condition}`;
+      if (ownerId) {
+        history += " AND d.user_id = $4";
+        params.push(ownerId);
+      }
+      history += ")";
+
+      const inRange = (column: string) =>
+        `($2::timestamptz IS NULL OR ${column} >= $2) AND ($3::timestamptz IS NULL OR ${column} < $3)`;
+
+      const [stayResult, funnelResult, outcomeResult] = await Promise.all([
+        // Time in stage, over the stays that have ended
+        db.query<StayRow>(
+          `${history}
+           SELECT stage_id,
+             AVG(EXTRACT(EPOCH FROM left_at - changed_at) / 86400) as avg_days,
+             COUNT(*) as stays
+           FROM history
+           WHERE stage_id IS NOT NULL AND left_at IS NOT NULL
+             AND ${inRange("changed_at")}
+           GROUP BY stage_id`,
+          params
+        ),
+        // Deals created in the range, by the furthest open or won stage they
+        // entered
+        db.query<FunnelRow>(
+          `${history}
+           SELECT furthest_index, COUNT(*) as deals
+           FROM (
+             SELECT deal_id,
+               MAX(order_index) FILTER (WHERE mapped_kind <> 'lost') as furthest_index
+             FROM history
+             WHERE ${inRange("deal_created_at")}
+             GROUP BY deal_id
+           ) furthest
+           GROUP BY furthest_index`,
+          params
+        ),
+        // Deals whose latest move in the range closed them
+        db.query<OutcomeRow>(
+          `${history}
+           SELECT
+             COUNT(*) FILTER (WHERE stage_kind = 'won') as won_count,
+             COUNT(*) FILTER (WHERE stage_kind = 'lost') as lost_count,
+             AVG(EXTRACT(EPOCH FROM changed_at - deal_created_at) / 86400)
+               FILTER (WHERE stage_kind = 'won') as avg_cycle_days
+           FROM history
+           WHERE recency = 1 AND ${inRange("changed_at")}`,
+          params
+        ),
+      ]);
+
+      const stayTotals = new Map(
+        stayResult.rows.map((row) => [
+          row.stage_id,
+          { avgDays: parseFloat(row.avg_days), count: parseInt(row.stays, 10) },
+        ])
+      );
+
+      // Funnel over the open and won stages in pipeline order; a deal counts
+      // as having reached every stage up to the furthest one it entered
+      const funnelStages = stages.filter((stage) => stage.kind !== "lost");
+      const reached = new Map<number, number>(
+        funnelStages.map((stage) => [stage.id, 0])
+      );
+
+      let dealsCreated = 0;
+      for (const row of funnelResult.rows) {
+        const deals = parseInt(row.deals, 10);
+        dealsCreated += deals;
+        if (row.furthest_index === null) continue;
+        for (const stage of funnelStages) {
+          if (stage.order_index <= row.furthest_index) {
+            reached.set(stage.id, (reached.get(stage.id) || 0) + deals);
+          }
+        }
+      }
+
+      const outcome = outcomeResult.rows[0];
+      const wonCount = parseInt(outcome.won_count, 10);
+      const lostCount = parseInt(outcome.lost_count, 10);
+
+      const velocity: StageVelocity[] = stages.map((stage) => {
+        const funnelIndex = funnelStages.findIndex(
+          (candidate) => candidate.id === stage.id
+        );
+        const next = funnelStages[funnelIndex + 1];
+        const reachedCount = reached.get(stage.id) || 0;
+        const stays = stayTotals.get(stage.id);
+
+        return {
+          id: stage.id,
+          name: stage.name,
+          kind: stage.kind,
+          orderIndex: stage.order_index,
+          dealsReached: reachedCount,
+          conversionRate:
+            funnelIndex !== -1 && next && reachedCount > 0
+              ? round((reached.get(next.id) || 0) / reachedCount, 4)
+              : null,
+          avgDaysInStage: stays ? round(stays.avgDays, 1) : null,
+          completedStays: stays ? stays.count : 0,
+        };
+      });
+
+      const closedCount = wonCount + lostCount;
+
+      res.json({
+        filters: {
+          from: from || null,
+          to: to || null,
+          ownerId: ownerId ? parseInt(ownerId, 10) : null,
+        },
+        stages: velocity,
+        summary: {
+          dealsCreated,
+          wonCount,
+          lostCount,
+          winRate: closedCount > 0 ? round(wonCount / closedCount, 4) : null,
+          avgSalesCycleDays:
+            outcome.avg_cycle_days !== null
+              ? round(parseFloat(outcome.avg_cycle_days), 1)
+              : null,
+        },
+      });
+    } catch (error) {
+      console.error("Get pipeline velocity error:", error);
+      res
+        .status(500)
+        .json({ message: "Server error fetching pipeline velocity" });
+    }
+  }
+);
+
+export default router;
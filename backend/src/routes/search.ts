@@ -0,0 +1,246 @@
+import express, { Response } from "express";
+import { query, validationResult } from "express-validator";
+import db from "../config/database";
+import { authenticateToken } from "../middleware/auth";
+import { AuthenticatedRequest } from "../types";
+import { recordVisibility } from "../utils/visibility";
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+interface SearchQueryParams {
+  q: string;
+  limit?: string;
+}
+
+type SearchGroupType =
+  | "contacts"
+  | "organizations"
+  | "deals"
+  | "activities"
+  | "contactNotes"
+  | "activityNotes";
+
+interface SearchSource {
+  type: SearchGroupType;
+  table: string;
+  alias: string;
+  joins: string;
+  condition: string;
+  // SQL expressions for the result's fields
+  title: string;
+  subtitle: string;
+  body: string;
+  // Record the result belongs to, for notes
+  parentId?: string;
+}
+
+interface SearchRow {
+  id: number;
+  parent_id: number | null;
+  title: string;
+  subtitle: string | null;
+  snippet: string | null;
+  rank: number;
+  total_count: string;
+}
+
+interface SearchResult {
+  id: number;
+  parentId: number | null;
+  title: string;
+  subtitle: string | null;
+  snippet: string | null;
+  rank: number;
+}
+
+interface SearchGroup {
+  type: SearchGroupType;
+  total: number;
+  results: SearchResult[];
+}
+
+const DEFAULT_LIMIT = 5;
+
+// Matches are wrapped in <mark> tags. The text itself is not HTML-escaped.
+const TITLE_OPTIONS = "HighlightAll=true, StartSel=<mark>, StopSel=</mark>";
+const SNIPPET_OPTIONS =
+  "StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=1";
+
+// Every string in a JSONB array as one text, so snippets cover whole lists
+const listText = (array: string) =>
+  `(SELECT string_agg(value, ' ') FROM jsonb_array_elements_text(${array}))`;
+
+const CONTACT_METHODS_TEXT = listText(
+  "jsonb_path_query_array(c.emails, '$[*].email') || jsonb_path_query_array(c.phones, '$[*].number')"
+);
+const ADDRESSES_TEXT = listText(
+  `jsonb_path_query_array(comp.addresses, '$[*].keyvalue() ? (@.key != "label").value')`
+);
+
+// Every source matches $1 = user id, $2 = search text, $3 = limit
+const SEARCH_SOURCES: SearchSource[] = (() => {
+  const contact = recordVisibility("contact", "c", "$1");
+  const organization = recordVisibility("organization", "comp", "$1");
+  const deal = recordVisibility("deal", "d", "$1");
+  const activity = recordVisibility("activity", "a", "$1");
+
+  return [
+    {
+      type: "contacts",
+      table: "contacts",
+      alias: "c",
+      joins: `LEFT JOIN companies comp ON c.company_id = comp.id
+        ${contact.joins}`,
+      condition: contact.condition,
+      title: "c.first_name || ' ' || c.last_name",
+      subtitle: "concat_ws(' at ', c.position, comp.name)",
+      body: `concat_ws(' · ', ${CONTACT_METHODS_TEXT}, c.notes)`,
+    },
+    {
+      type: "organizations",
+      table: "companies",
+      alias: "comp",
+      joins: organization.joins,
+      condition: organization.condition,
+      title: "comp.name",
+      subtitle: "comp.industry",
+      body: `concat_ws(' · ', comp.website, comp.email, comp.phone, ${ADDRESSES_TEXT}, comp.notes)`,
+    },
+    {
+      type: "deals",
+      table: "deals",
+      alias: "d",
+      joins: `LEFT JOIN deal_stages ds ON d.stage_id = ds.id
+        ${deal.joins}`,
+      condition: deal.condition,
+      title: "d.title",
+      subtitle: "ds.name",
+      body: "d.notes",
+    },
+    {
+      type: "activities",
+      table: "activities",
+      alias: "a",
+      joins: activity.joins,
+      condition: activity.condition,
+      title: "a.subject",
+      subtitle: "a.type",
+      body: "a.description",
+    },
+    {
+      // Contact notes are private to their author, as in the notes routes
+      type: "contactNotes",
+      table: "contact_notes",
+      alias: "cn",
+      joins: "JOIN contacts c ON cn.contact_id = c.id",
+      condition: "cn.user_id = $1 AND c.user_id = $1",
+      title:
+        "COALESCE(cn.title, 'Note on ' || c.first_name || ' ' || c.last_name)",
+      subtitle: "c.first_name || ' ' || c.last_name",
+      body: "cn.content",
+      parentId: "c.id",
+    },
+    {
+      // Activity notes are visible to everyone who can see the activity
+      type: "activityNotes",
+      table: "activity_notes",
+      alias: "an",
+      joins: `JOIN activities a ON an.activity_id = a.id
+        ${activity.joins}`,
+      condition: activity.condition,
+      title: "COALESCE(an.title, 'Note on ' || a.subject)",
+      subtitle: "a.subject",
+      body: "an.content",
+      parentId: "a.id",
+    },
+  ];
+})();
+
+// Every word of the search text is matched as a prefix, so results show up
+// while the user is still typing. The words go through the same parser as
+// the search vectors, which also keeps tsquery syntax out of user input.
+const buildSearchQuery = (source: SearchSource): string => `
+  WITH q AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(lexeme) || ':*', ' & ')) as query
+    FROM unnest(to_tsvector('simple', $2))
+  )
+  SELECT ${source.alias}.id,
+    ${source.parentId || "NULL"} as parent_id,
+    ts_headline('simple', ${source.title}, q.query, '${TITLE_OPTIONS}') as title,
+    NULLIF(${source.subtitle}, '') as subtitle,
+    NULLIF(ts_headline('simple', COALESCE(${source.body}, ''), q.query, '${SNIPPET_OPTIONS}'), '') as snippet,
+    ts_rank(${source.alias}.search_vector, q.query) as rank,
+    COUNT(*) OVER() as total_count
+  FROM ${source.table} ${source.alias}
+  CROSS JOIN q
+  ${source.joins}
+  WHERE ${source.alias}.search_vector @@ q.query AND ${source.condition}
+  ORDER BY rank DESC, ${source.alias}.updated_at DESC
+  LIMIT $3`;
+
+// Search contacts, organizations, deals, activities and notes at once
+router.get(
+  "/",
+  [
+    query("q")
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage("Search text must be between 1 and 200 characters"),
+    query("limit").optional().isInt({ min: 1, max: 20 }),
+  ],
+  async (
+    req: AuthenticatedRequest<{}, {}, {}, SearchQueryParams>,
+    res: Response
+  ) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
+
+      const { q } = req.query;
+      const userId = req.user.userId;
+      const limit = req.query.limit
+        ? parseInt(req.query.limit, 10)
+        : DEFAULT_LIMIT;
+
+      const results = await Promise.all(
+        SEARCH_SOURCES.map((source) =>
+          db.query<SearchRow>(buildSearchQuery(source), [userId, q, limit])
+        )
+      );
+
+      const groups: SearchGroup[] = SEARCH_SOURCES.map((source, index) => {
+        const rows = results[index].rows;
+        return {
+          type: source.type,
+          total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+          results: rows.map((row) => ({
+            id: row.id,
+            parentId: row.parent_id,
+            title: row.title,
+            subtitle: row.subtitle,
+            snippet: row.snippet,
+            rank: row.rank,
+          })),
+        };
+      });
+
+      res.json({ query: q, groups });
+    } catch (error) {
+      console.error("Search error:", error);
+      res.status(500).json({ message: "Server error searching records" });
+    }
+  }
+);
+
+export default router;
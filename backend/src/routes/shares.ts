@@ -2,7 +2,9 @@ import express, { Response } from "express";
 import { body, validationResult, query } from "express-validator";
 import db from "../config/database";
 import { authenticateToken } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
 import { AuthenticatedRequest, Share } from "../types";
+import { recordAudit } from "../utils/auditLog";
 
 const router = express.Router();
 
@@ -13,7 +15,7 @@ interface ShareRow {
   id: string;
   shared_by_user_id: string;
   shared_with_user_id: string;
-  item_type: "contact" | "activity" | "deal";
+  item_type: "contact" | "organization" | "activity" | "deal";
   item_id: string;
   permissions: string;
   message?: string;
@@ -40,14 +42,14 @@ interface UserRow {
 }
 
 interface SharesQueryParams {
-  type?: "contact" | "activity" | "deal";
-  resource_type?: "contact" | "activity" | "deal";
+  type?: "contact" | "organization" | "activity" | "deal";
+  resource_type?: "contact" | "organization" | "activity" | "deal";
   page?: number;
   limit?: number;
 }
 
 interface CreateShareBody {
-  resourceType: "contact" | "activity" | "deal";
+  resourceType: "contact" | "organization" | "activity" | "deal";
   resourceId: number;
   sharedWithUserId: number;
   permission?: "read" | "write";
@@ -61,7 +63,9 @@ interface UpdateShareBody {
 router.get(
   "/shared-with-me",
   [
-    query("type").optional().isIn(["contact", "activity", "deal"]),
+    query("type")
+      .optional()
+      .isIn(["contact", "organization", "activity", "deal"]),
     query("page").optional().isInt({ min: 1 }).toInt(),
     query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
   ],
@@ -108,6 +112,10 @@ router.get(
                 'id', id, 'first_name', first_name, 'last_name', last_name, 
                 'email', email, 'phone', phone, 'company_name', (SELECT name FROM companies WHERE id = contacts.company_id)
               ) FROM contacts WHERE id = s.item_id)
+            WHEN s.item_type = 'organization' THEN 
+              (SELECT json_build_object(
+                'id', id, 'name', name, 'industry', industry, 'website', website, 'email', email, 'phone', phone
+              ) FROM companies WHERE id = s.item_id)
             WHEN s.item_type = 'activity' THEN 
               (SELECT json_build_object(
                 'id', id, 'subject', subject, 'description', description, 'due_date', due_date
@@ -158,7 +166,9 @@ router.get(
 router.get(
   "/shared-by-me",
   [
-    query("type").optional().isIn(["contact", "activity", "deal"]),
+    query("type")
+      .optional()
+      .isIn(["contact", "organization", "activity", "deal"]),
     query("page").optional().isInt({ min: 1 }).toInt(),
     query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
   ],
@@ -241,8 +251,9 @@ router.get(
 // Share an item with another user
 router.post(
   "/",
+  requirePermission("can_edit_records"),
   [
-    body("resourceType").isIn(["contact", "activity", "deal"]),
+    body("resourceType").isIn(["contact", "organization", "activity", "deal"]),
     body("resourceId").isInt({ min: 1 }),
     body("sharedWithUserId").isInt({ min: 1 }),
     body("permission").optional().isIn(["read", "write"]),
@@ -267,9 +278,9 @@ router.post(
         permission = "read",
       } = req.body;
 
-      // Verify the user exists
-      const userCheck = await db.query<{ id: string }>(
-        "SELECT id FROM users WHERE id = $1",
+      // Verify the user exists and can still sign in
+      const userCheck = await db.query<{ id: string; email: string }>(
+        "SELECT id, email FROM users WHERE id = $1 AND deactivated_at IS NULL",
         [sharedWithUserId]
       );
 
@@ -284,6 +295,9 @@ router.post(
         case "contact":
           resourceTable = "contacts";
           break;
+        case "organization":
+          resourceTable = "companies";
+          break;
         case "activity":
           resourceTable = "activities";
           break;
@@ -321,20 +335,27 @@ router.post(
       }
 
       // Create the share
-      const result = await db.query<ShareRow>(
-        `INSERT INTO shares (shared_by_user_id, shared_with_user_id, item_type, item_id, permissions)
-         VALUES ($1, $2, $3, $4, $5)
-         RETURNING *`,
-        [
-          req.user.userId,
-          sharedWithUserId,
-          resourceType,
-          resourceId,
-          permission,
-        ]
-      );
+      const userId = req.user.userId;
+      const share = await db.transaction(async (client) => {
+        const result = await client.query<ShareRow>(
+          `INSERT INTO shares (shared_by_user_id, shared_with_user_id, item_type, item_id, permissions)
+           VALUES ($1, $2, $3, $4, $5)
+           RETURNING *`,
+          [userId, sharedWithUserId, resourceType, resourceId, permission]
+        );
+
+        await recordAudit(client, req, {
+          action: "create",
+          entityType: "share",
+          entityId: result.rows[0].id,
+          label: userCheck.rows[0].email,
+          parent: { type: resourceType, id: resourceId },
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
 
-      res.status(201).json(result.rows[0]);
+      res.status(201).json(share);
     } catch (error) {
       console.error("Share item error:", error);
       res.status(500).json({ message: "Server error sharing item" });
@@ -345,6 +366,7 @@ router.post(
 // Update share permissions
 router.put(
   "/:id",
+  requirePermission("can_edit_records"),
   [body("permission").isIn(["read", "write"])],
   async (
     req: AuthenticatedRequest<{ id: string }, {}, UpdateShareBody>,
@@ -366,8 +388,11 @@ router.put(
       const { permission } = req.body;
 
       // Check if share exists and belongs to current user
-      const shareCheck = await db.query<{ id: string }>(
-        "SELECT id FROM shares WHERE id = $1 AND shared_by_user_id = $2",
+      const shareCheck = await db.query<ShareRow>(
+        `SELECT s.*, u.email AS shared_with_email
+         FROM shares s
+         JOIN users u ON u.id = s.shared_with_user_id
+         WHERE s.id = $1 AND s.shared_by_user_id = $2`,
         [id, req.user.userId]
       );
 
@@ -378,13 +403,28 @@ router.put(
         return;
       }
 
+      const { shared_with_email, ...previous } = shareCheck.rows[0];
+
       // Update the share
-      const result = await db.query<ShareRow>(
-        "UPDATE shares SET permissions = $1 WHERE id = $2 RETURNING *",
-        [permission, id]
-      );
+      const share = await db.transaction(async (client) => {
+        const result = await client.query<ShareRow>(
+          "UPDATE shares SET permissions = $1 WHERE id = $2 RETURNING *",
+          [permission, id]
+        );
+
+        await recordAudit(client, req, {
+          action: "update",
+          entityType: "share",
+          entityId: id,
+          label: shared_with_email,
+          parent: { type: previous.item_type, id: previous.item_id },
+          before: previous,
+          after: result.rows[0],
+        });
+        return result.rows[0];
+      });
 
-      res.json(result.rows[0]);
+      res.json(share);
     } catch (error) {
       console.error("Update share error:", error);
       res.status(500).json({ message: "Server error updating share" });
@@ -393,40 +433,66 @@ router.put(
 );
 
 // Remove a share
-router.delete("/:id", async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
-    }
-
-    const { id } = req.params;
+router.delete(
+  "/:id",
+  requirePermission("can_edit_records"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: "User not authenticated" });
+        return;
+      }
 
-    // Check if share exists and belongs to current user
-    const result = await db.query<{ id: string }>(
-      "DELETE FROM shares WHERE id = $1 AND shared_by_user_id = $2 RETURNING id",
-      [id, req.user.userId]
-    );
+      const { id } = req.params;
 
-    if (result.rows.length === 0) {
-      res.status(404).json({
-        message: "Share not found or you don't have permission to remove it",
+      // Check if share exists and belongs to current user
+      const userId = req.user.userId;
+      const removed = await db.transaction(async (client) => {
+        const result = await client.query<ShareRow>(
+          `DELETE FROM shares s
+           USING users u
+           WHERE s.id = $1 AND s.shared_by_user_id = $2 AND u.id = s.shared_with_user_id
+           RETURNING s.*, u.email AS shared_with_email`,
+          [id, userId]
+        );
+        if (result.rows.length === 0) {
+          return false;
+        }
+
+        const { shared_with_email, ...share } = result.rows[0];
+        await recordAudit(client, req, {
+          action: "delete",
+          entityType: "share",
+          entityId: id,
+          label: shared_with_email,
+          parent: { type: share.item_type, id: share.item_id },
+          before: share,
+        });
+        return true;
       });
-      return;
-    }
 
-    res.json({ message: "Share removed successfully" });
-  } catch (error) {
-    console.error("Remove share error:", error);
-    res.status(500).json({ message: "Server error removing share" });
+      if (!removed) {
+        res.status(404).json({
+          message: "Share not found or you don't have permission to remove it",
+        });
+        return;
+      }
+
+      res.json({ message: "Share removed successfully" });
+    } catch (error) {
+      console.error("Remove share error:", error);
+      res.status(500).json({ message: "Server error removing share" });
+    }
   }
-});
+);
 
 // Get all shares (both directions) - used by frontend SharedItems component
 router.get(
   "/",
   [
-    query("resource_type").optional().isIn(["contact", "activity", "deal"]),
+    query("resource_type")
+      .optional()
+      .isIn(["contact", "organization", "activity", "deal"]),
     query("page").optional().isInt({ min: 1 }).toInt(),
     query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
   ],
@@ -477,6 +543,11 @@ router.get(
                 SELECT id, first_name, last_name, email, phone, position, status
                 FROM contacts WHERE id = s.item_id
               ) c)
+            WHEN s.item_type = 'organization' THEN 
+              (SELECT row_to_json(o) FROM (
+                SELECT id, name, industry, website, email, phone
+                FROM companies WHERE id = s.item_id
+              ) o)
             WHEN s.item_type = 'activity' THEN 
               (SELECT row_to_json(a) FROM (
                 SELECT id, type, subject, description, due_date, completed as status
@@ -514,6 +585,8 @@ router.get(
         resourceTitle: share.resource_data
           ? share.item_type === "contact"
             ? `${share.resource_data.first_name} ${share.resource_data.last_name}`
+            : share.item_type === "organization"
+            ? share.resource_data.name
             : share.item_type === "activity"
             ? share.resource_data.subject || share.resource_data.type
             : share.item_type === "deal"
@@ -539,7 +612,7 @@ router.get("/users", async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const result = await db.query<UserRow>(
-      "SELECT id, first_name, last_name, email FROM users WHERE id != $1 ORDER BY first_name, last_name",
+      "SELECT id, first_name, last_name, email FROM users WHERE id != $1 AND deactivated_at IS NULL ORDER BY first_name, last_name",
       [req.user.userId]
     );
 
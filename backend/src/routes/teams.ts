@@ -0,0 +1,48 @@
+import express, { Response } from "express";
+import db from "../config/database";
+import { authenticateToken } from "../middleware/auth";
+import { AuthenticatedRequest, Team, TeamRole } from "../types";
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+interface MyTeamRow extends Team {
+  role: TeamRole;
+  member_count: string;
+}
+
+// Get the teams the user belongs to, with their role in each
+router.get("/", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return;
+    }
+
+    const result = await db.query<MyTeamRow>(
+      `SELECT t.*, tm.role,
+         (SELECT COUNT(*) FROM team_members WHERE team_id = t.id) as member_count
+       FROM teams t
+       JOIN team_members tm ON tm.team_id = t.id AND tm.user_id = $1
+       ORDER BY t.name`,
+      [req.user.userId]
+    );
+
+    const teams = result.rows.map((team) => ({
+      id: team.id,
+      name: team.name,
+      description: team.description,
+      role: team.role,
+      memberCount: parseInt(team.member_count, 10),
+    }));
+
+    res.json({ teams });
+  } catch (error) {
+    console.error("Get my teams error:", error);
+    res.status(500).json({ message: "Server error fetching teams" });
+  }
+});
+
+export default router;
@@ -34,10 +34,40 @@ export interface User {
   first_name: string;
   last_name: string;
   role: string;
+  // What the user's role allows, loaded with the user on every request
+  permissions?: Permission[];
   created_at: Date;
   updated_at: Date;
 }
 
+// What a role can allow its users to do, see PERMISSIONS
+export type Permission =
+  | "can_edit_records"
+  | "can_delete_contacts"
+  | "can_delete_organizations"
+  | "can_delete_deals"
+  | "can_delete_activities"
+  | "can_view_all_records"
+  | "can_import"
+  | "can_export"
+  | "can_manage_stages"
+  | "can_manage_users"
+  | "can_manage_settings"
+  | "can_view_audit_log";
+
+export interface Role {
+  name: string;
+  label: string;
+  description: string | null;
+  permissions: Permission[];
+  is_system: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// How a login session was started
+export type SessionAuthMethod = "password" | "oidc";
+
 export interface AuthenticatedRequest<
   P = any,
   ResBody = any,
@@ -45,6 +75,11 @@ export interface AuthenticatedRequest<
   ReqQuery = any
 > extends Request<P, ResBody, ReqBody, ReqQuery> {
   user?: User;
+  // Login session the access token belongs to
+  sessionId?: string;
+  sessionAuthMethod?: SessionAuthMethod;
+  // Personal API key the request was made with, instead of a session
+  apiKeyId?: string;
 }
 
 // Business entity types
@@ -52,8 +87,12 @@ export interface Contact {
   id: string;
   first_name: string;
   last_name: string;
+  // Copies of the primary entries below
   email?: string;
   phone?: string;
+  emails?: ContactEmail[];
+  phones?: ContactPhone[];
+  addresses?: PostalAddress[];
   company_id?: string;
   company_name?: string;
   position?: string;
@@ -61,6 +100,8 @@ export interface Contact {
   tags?: string[];
   notes?: string;
   owner_id: string;
+  team_id?: string;
+  custom_fields?: CustomFieldValues;
   created_at: Date;
   updated_at: Date;
 }
@@ -71,11 +112,17 @@ export interface Organization {
   website?: string;
   phone?: string;
   email?: string;
+  // The primary address as one line
   address?: string;
+  addresses?: PostalAddress[];
   industry?: string;
   size?: string;
   notes?: string;
   owner_id: string;
+  team_id?: string;
+  // The organization this one is a subsidiary of
+  parent_id?: string | null;
+  custom_fields?: CustomFieldValues;
   created_at: Date;
   updated_at: Date;
 }
@@ -86,12 +133,15 @@ export interface Deal {
   value?: number;
   currency?: string;
   stage: string;
+  position?: number;
   probability?: number;
   expected_close_date?: Date;
   contact_id?: string;
   organization_id?: string;
   notes?: string;
   owner_id: string;
+  team_id?: string;
+  custom_fields?: CustomFieldValues;
   created_at: Date;
   updated_at: Date;
 }
@@ -107,6 +157,77 @@ export interface Activity {
   organization_id?: string;
   deal_id?: string;
   owner_id: string;
+  team_id?: string;
+  custom_fields?: CustomFieldValues;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type CustomFieldEntity =
+  "contact" | "organization" | "deal" | "activity";
+
+export type CustomFieldType =
+  "text" | "number" | "date" | "select" | "multi_select" | "boolean" | "url";
+
+export interface CustomField {
+  id: string;
+  entity_type: CustomFieldEntity;
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string[];
+  is_required: boolean;
+  position: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type CustomFieldValue = string | number | boolean | string[];
+
+// Field key -> value; fields without a value are left out
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export type ContactMethodLabel = "work" | "personal" | "mobile" | "other";
+
+export type AddressLabel = "billing" | "shipping" | "home" | "work" | "other";
+
+// Entries of a contact's emails, phones and addresses. Each non-empty list
+// has exactly one primary entry, kept first.
+export interface ContactEmail {
+  label: ContactMethodLabel;
+  email: string;
+  isPrimary: boolean;
+}
+
+export interface ContactPhone {
+  label: ContactMethodLabel;
+  // E.164, e.g. +14155550123
+  number: string;
+  isPrimary: boolean;
+}
+
+// Empty parts are left out
+export interface PostalAddress {
+  label: AddressLabel;
+  street?: string;
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+  isPrimary: boolean;
+}
+
+// A contact's role at an organization, current or past
+export interface ContactOrganization {
+  id: string;
+  contact_id: string;
+  company_id: string;
+  title?: string;
+  department?: string;
+  // YYYY-MM-DD
+  start_date?: string;
+  end_date?: string;
+  is_current: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -122,6 +243,53 @@ export interface Share {
   updated_at: Date;
 }
 
+export type TeamRole = "owner" | "manager" | "member" | "viewer";
+
+export interface Team {
+  id: string;
+  name: string;
+  description?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TeamMember {
+  id: string;
+  team_id: string;
+  user_id: string;
+  role: TeamRole;
+  created_at: Date;
+}
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: string;
+  invited_by: string | null;
+  expires_at: Date;
+  accepted_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type ApiKeyAccess = "read" | "write";
+
+// Entity name -> access; entities that aren't listed are off limits
+export type ApiKeyScopes = Record<string, ApiKeyAccess>;
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScopes;
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
 export interface SystemSetting {
   id: string;
   setting_key: string;
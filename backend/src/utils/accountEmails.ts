@@ -0,0 +1,151 @@
+import crypto from "crypto";
+import db from "../config/database";
+import { sendMail } from "./mailer";
+import { getSystemSetting } from "./systemSettings";
+import { Invitation } from "../types";
+
+export type EmailTokenPurpose = "password_reset" | "email_verification";
+
+interface AccountEmailUser {
+  id: string;
+  email: string;
+  first_name: string;
+}
+
+const TOKEN_LIFETIME_MINUTES: Record<EmailTokenPurpose, number> = {
+  password_reset: 60,
+  email_verification: 48 * 60,
+};
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const frontendUrl = (pathname: string, token: string): string => {
+  const url = new URL(
+    pathname,
+    process.env.FRONTEND_URL || "http://localhost:5173"
+  );
+  url.searchParams.set("token", token);
+  return url.toString();
+};
+
+/**
+ * Create a single-use token for a user. Unused tokens the user was sent
+ * earlier for the same purpose stop working.
+ * @returns The token, which is only stored hashed
+ */
+export const createEmailToken = async (
+  userId: string,
+  purpose: EmailTokenPurpose
+): Promise<string> => {
+  const token = crypto.randomBytes(32).toString("hex");
+
+  await db.transaction(async (client) => {
+    await client.query(
+      "DELETE FROM email_tokens WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL",
+      [userId, purpose]
+    );
+    await client.query(
+      `INSERT INTO email_tokens (user_id, purpose, token_hash, expires_at)
+       VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))`,
+      [userId, purpose, hashToken(token), TOKEN_LIFETIME_MINUTES[purpose]]
+    );
+  });
+
+  return token;
+};
+
+/**
+ * Use up a token
+ * @returns The user the token was issued to, or null if it is unknown,
+ * expired or already used
+ */
+export const consumeEmailToken = async (
+  token: string,
+  purpose: EmailTokenPurpose
+): Promise<string | null> => {
+  const result = await db.query<{ user_id: string }>(
+    `UPDATE email_tokens SET used_at = NOW()
+     WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING user_id`,
+    [hashToken(token), purpose]
+  );
+
+  return result.rows[0]?.user_id ?? null;
+};
+
+/**
+ * Email a user a link to choose a new password
+ */
+export const sendPasswordResetEmail = async (
+  user: AccountEmailUser
+): Promise<void> => {
+  const token = await createEmailToken(user.id, "password_reset");
+  const appName = await getSystemSetting("app_name", "OMW CRM");
+
+  await sendMail({
+    to: user.email,
+    subject: `Reset your ${appName} password`,
+    text: [
+      `Hi ${user.first_name},`,
+      "",
+      `Someone asked to reset the password of your ${appName} account. Open this link to choose a new one:`,
+      "",
+      frontendUrl("/reset-password", token),
+      "",
+      `The link works once and expires in ${TOKEN_LIFETIME_MINUTES.password_reset} minutes. If you didn't ask for this, you can ignore this email.`,
+    ].join("\n"),
+  });
+};
+
+/**
+ * Email a user a link that confirms they own their email address
+ */
+export const sendVerificationEmail = async (
+  user: AccountEmailUser
+): Promise<void> => {
+  const token = await createEmailToken(user.id, "email_verification");
+  const appName = await getSystemSetting("app_name", "OMW CRM");
+
+  await sendMail({
+    to: user.email,
+    subject: `Verify your email for ${appName}`,
+    text: [
+      `Hi ${user.first_name},`,
+      "",
+      `Welcome to ${appName}! Open this link to verify your email address:`,
+      "",
+      frontendUrl("/verify-email", token),
+      "",
+      `The link expires in ${TOKEN_LIFETIME_MINUTES.email_verification / 60} hours.`,
+    ].join("\n"),
+  });
+};
+
+/**
+ * Email an invitation link to someone who doesn't have an account yet
+ * @param invitation - The invitation to send
+ * @param token - The invitation's token
+ * @param inviterName - Who sent the invitation
+ */
+export const sendInvitationEmail = async (
+  invitation: Invitation,
+  token: string,
+  inviterName: string
+): Promise<void> => {
+  const appName = await getSystemSetting("app_name", "OMW CRM");
+
+  await sendMail({
+    to: invitation.email,
+    subject: `You're invited to ${appName}`,
+    text: [
+      "Hi,",
+      "",
+      `${inviterName} invited you to join ${appName}. Open this link to choose a password and create your account:`,
+      "",
+      frontendUrl("/accept-invite", token),
+      "",
+      `The link expires on ${invitation.expires_at.toDateString()}.`,
+    ].join("\n"),
+  });
+};
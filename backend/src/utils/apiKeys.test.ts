@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Request } from "express";
+import { ApiKeyScopes } from "../types";
+import { apiKeyAllows, formatApiKey } from "./apiKeys";
+
+const request = (method: string, baseUrl: string, path = "/"): Request =>
+  ({ method, baseUrl, path }) as Request;
+
+describe("apiKeyAllows", () => {
+  const scopes: ApiKeyScopes = { contacts: "read", deals: "write" };
+
+  it("lets read access read but not write", () => {
+    assert.equal(apiKeyAllows(scopes, request("GET", "/api/contacts")), true);
+    assert.equal(apiKeyAllows(scopes, request("HEAD", "/api/contacts")), true);
+    assert.equal(apiKeyAllows(scopes, request("POST", "/api/contacts")), false);
+    assert.equal(
+      apiKeyAllows(scopes, request("DELETE", "/api/contacts", "/1")),
+      false
+    );
+  });
+
+  it("lets write access do everything", () => {
+    for (const method of ["GET", "POST", "PUT", "DELETE"]) {
+      assert.equal(apiKeyAllows(scopes, request(method, "/api/deals")), true);
+    }
+  });
+
+  it("turns down entities the key has no scope for", () => {
+    assert.equal(
+      apiKeyAllows(scopes, request("GET", "/api/organizations")),
+      false
+    );
+    assert.equal(
+      apiKeyAllows(scopes, request("GET", "/api/activities")),
+      false
+    );
+  });
+
+  it("covers routers under the entity they belong to", () => {
+    for (const baseUrl of [
+      "/api/contact-notes",
+      "/api/contact-organizations",
+    ]) {
+      assert.equal(apiKeyAllows(scopes, request("GET", baseUrl)), true);
+      assert.equal(apiKeyAllows(scopes, request("PUT", baseUrl, "/1")), false);
+    }
+    for (const baseUrl of ["/api/deals/stages", "/api/reports"]) {
+      assert.equal(apiKeyAllows(scopes, request("POST", baseUrl)), true);
+    }
+    assert.equal(
+      apiKeyAllows(scopes, request("GET", "/api/activity-notes")),
+      false
+    );
+  });
+
+  it("reads the entity of an export from the path", () => {
+    assert.equal(
+      apiKeyAllows(scopes, request("GET", "/api/export", "/contacts")),
+      true
+    );
+    assert.equal(
+      apiKeyAllows(scopes, request("GET", "/api/export", "/organizations")),
+      false
+    );
+  });
+
+  it("only lets keys that read everything search", () => {
+    const everything: ApiKeyScopes = {
+      contacts: "read",
+      organizations: "write",
+      deals: "read",
+      activities: "read",
+    };
+    assert.equal(apiKeyAllows(everything, request("GET", "/api/search")), true);
+    assert.equal(apiKeyAllows(scopes, request("GET", "/api/search")), false);
+  });
+
+  it("turns down routers no scope covers", () => {
+    const everything: ApiKeyScopes = {
+      contacts: "write",
+      organizations: "write",
+      deals: "write",
+      activities: "write",
+    };
+    for (const baseUrl of [
+      "/api/auth",
+      "/api/admin",
+      "/api/shares",
+      "/api/teams",
+      "/api/import",
+    ]) {
+      assert.equal(apiKeyAllows(everything, request("GET", baseUrl)), false);
+    }
+  });
+});
+
+describe("formatApiKey", () => {
+  const apiKey = {
+    id: "1",
+    user_id: "4",
+    name: "Nightly export",
+    key_prefix: "omw_1234abcd",
+    scopes: { contacts: "read" as const },
+    last_used_at: null,
+    revoked_at: null,
+    created_at: new Date("2024-01-01T00:00:00.000Z"),
+  };
+
+  it("reports whether the key has expired", () => {
+    const past = new Date(Date.now() - 1000);
+    const future = new Date(Date.now() + 60 * 1000);
+    assert.equal(formatApiKey({ ...apiKey, expires_at: past }).expired, true);
+    assert.equal(
+      formatApiKey({ ...apiKey, expires_at: future }).expired,
+      false
+    );
+    assert.equal(formatApiKey({ ...apiKey, expires_at: null }).expired, false);
+  });
+
+  it("never includes the key's hash", () => {
+    const formatted = formatApiKey({
+      ...apiKey,
+      expires_at: null,
+      token_hash: "secret",
+    } as never);
+    assert.equal("token_hash" in formatted, false);
+    assert.equal(formatted.prefix, "omw_1234abcd");
+  });
+});
@@ -0,0 +1,130 @@
+import crypto from "crypto";
+import { Request } from "express";
+import db from "../config/database";
+import { ApiKey, ApiKeyAccess, ApiKeyScopes } from "../types";
+
+interface ApiKeyDetails {
+  name: string;
+  scopes: ApiKeyScopes;
+  expiresAt: Date | null;
+}
+
+// Keys start with this so they can be told apart from session JWTs, and
+// spotted by secret scanners
+export const API_KEY_PREFIX = "omw_";
+
+export const API_KEY_ENTITIES = [
+  "contacts",
+  "organizations",
+  "deals",
+  "activities",
+];
+
+export const API_KEY_ACCESS_LEVELS: ApiKeyAccess[] = ["read", "write"];
+
+// Which entity's scope covers each router. Routers that aren't listed,
+// e.g. auth and admin, can't be used with an API key at all. Shares aren't
+// listed either, since sharing hands the owner's records to other users.
+const ROUTER_ENTITIES: Record<string, string> = {
+  "/api/contacts": "contacts",
+  "/api/contact-notes": "contacts",
+  "/api/contact-organizations": "contacts",
+  "/api/organizations": "organizations",
+  "/api/deals": "deals",
+  "/api/deals/stages": "deals",
+  "/api/reports": "deals",
+  "/api/activities": "activities",
+  "/api/activity-notes": "activities",
+};
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+const API_KEY_COLUMNS =
+  "id, user_id, name, key_prefix, scopes, expires_at, last_used_at, revoked_at, created_at";
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Create an API key for a user
+ * @returns The key's details and the key itself, which is only stored hashed
+ */
+export const createApiKey = async (
+  userId: string,
+  details: ApiKeyDetails
+): Promise<{ apiKey: ApiKey; key: string }> => {
+  const key = API_KEY_PREFIX + crypto.randomBytes(24).toString("hex");
+
+  const result = await db.query<ApiKey>(
+    `INSERT INTO api_keys (user_id, name, key_prefix, token_hash, scopes, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING ${API_KEY_COLUMNS}`,
+    [
+      userId,
+      details.name,
+      key.slice(0, API_KEY_PREFIX.length + 8),
+      hashToken(key),
+      JSON.stringify(details.scopes),
+      details.expiresAt,
+    ]
+  );
+
+  return { apiKey: result.rows[0], key };
+};
+
+/**
+ * Look up an active API key and record that it was used
+ * @returns Null if the key is unknown, revoked or expired
+ */
+export const findActiveApiKey = async (key: string): Promise<ApiKey | null> => {
+  const result = await db.query<ApiKey>(
+    `UPDATE api_keys SET last_used_at = NOW()
+     WHERE token_hash = $1 AND revoked_at IS NULL
+       AND (expires_at IS NULL OR expires_at > NOW())
+     RETURNING ${API_KEY_COLUMNS}`,
+    [hashToken(key)]
+  );
+
+  return result.rows[0] || null;
+};
+
+/**
+ * Whether an API key's scopes allow a request. Reading needs read or write
+ * access to the entity, anything else needs write access. Search returns
+ * every kind of record, so it needs access to all of them.
+ */
+export const apiKeyAllows = (scopes: ApiKeyScopes, req: Request): boolean => {
+  if (req.baseUrl === "/api/search") {
+    return (
+      READ_METHODS.includes(req.method) &&
+      API_KEY_ENTITIES.every((entity) => !!scopes[entity])
+    );
+  }
+
+  // Exports are read-only and name their entity in the path
+  const entity =
+    req.baseUrl === "/api/export"
+      ? req.path.split("/")[1]
+      : ROUTER_ENTITIES[req.baseUrl];
+  const access = entity ? scopes[entity] : undefined;
+
+  if (!access) {
+    return false;
+  }
+  return access === "write" || READ_METHODS.includes(req.method);
+};
+
+/**
+ * The API fields of a key, never including the key itself
+ */
+export const formatApiKey = (apiKey: ApiKey) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.key_prefix,
+  scopes: apiKey.scopes,
+  expiresAt: apiKey.expires_at,
+  expired:
+    apiKey.expires_at !== null && new Date(apiKey.expires_at) <= new Date(),
+  lastUsedAt: apiKey.last_used_at,
+  createdAt: apiKey.created_at,
+});
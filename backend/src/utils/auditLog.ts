@@ -0,0 +1,277 @@
+import db, { Queryable } from "../config/database";
+import { AuthenticatedRequest } from "../types";
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "merge"
+  | "unlock"
+  | "reset_two_factor"
+  | "resend"
+  | "revoke"
+  | "deactivate"
+  | "reactivate"
+  | "transfer";
+
+export type AuditEntityType =
+  | "contact"
+  | "organization"
+  | "deal"
+  | "activity"
+  | "share"
+  | "user"
+  | "setting"
+  | "invitation"
+  | "team"
+  | "team_member"
+  | "api_key"
+  | "role"
+  | "custom_field"
+  | "employment"
+  | "note";
+
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | number;
+  // Defaults to a name taken from the record, see ENTITY_LABELS
+  label?: string | null;
+  // The record a share or team member belongs to
+  parent?: { type: AuditEntityType; id: string | number };
+  // The record before and after the change; only fields that differ are kept
+  before?: object | null;
+  after?: object | null;
+  // Fields whose change is recorded but not their values, e.g. secrets
+  redact?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditLogRow {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_first_name?: string | null;
+  actor_last_name?: string | null;
+  api_key_id: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  entity_label: string | null;
+  parent_type: AuditEntityType | null;
+  parent_id: string | null;
+  changes: Record<string, AuditChange> | null;
+  metadata: Record<string, unknown> | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: Date;
+}
+
+type AuditRow = Record<string, unknown>;
+
+const REDACTED = "********";
+
+// Columns that change on every write, only order records on screen, or must
+// never be copied into the log
+const IGNORED_FIELDS = [
+  "id",
+  "created_at",
+  "updated_at",
+  "position",
+  "search_vector",
+  "password",
+  "totp_secret",
+  "totp_last_step",
+  "token_hash",
+  "failed_login_attempts",
+  "last_failed_login_at",
+  "last_used_at",
+];
+
+const fullName = (row: AuditRow): string | null =>
+  row.first_name ? `${row.first_name} ${row.last_name}` : null;
+
+// How each kind of record is named in the log
+const ENTITY_LABELS: Partial<
+  Record<AuditEntityType, (row: AuditRow) => unknown>
+> = {
+  contact: fullName,
+  organization: (row) => row.name,
+  deal: (row) => row.title,
+  activity: (row) => row.subject,
+  user: (row) => row.email,
+  setting: (row) => row.setting_key,
+  invitation: (row) => row.email,
+  team: (row) => row.name,
+  api_key: (row) => row.name,
+  role: (row) => row.label,
+  custom_field: (row) => row.label,
+  note: (row) => row.content,
+};
+
+// JSON-comparable form of a column value
+const normalizeValue = (value: unknown): unknown => {
+  if (value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value;
+};
+
+/**
+ * The fields that differ between two versions of a record. A new record
+ * lists every field it was created with, a deleted one every field it had.
+ */
+const diffRecords = (
+  before: AuditRow | null | undefined,
+  after: AuditRow | null | undefined
+): Record<string, AuditChange> => {
+  const fields = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+  const changes: Record<string, AuditChange> = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+
+    const from = normalizeValue(before?.[field]);
+    const to = normalizeValue(after?.[field]);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[field] = { from, to };
+  }
+
+  return changes;
+};
+
+/**
+ * Record a change in the audit log, with who made it and from where. Call it
+ * with the transaction client so the entry is only kept if the change is.
+ * Updates that didn't change anything aren't recorded.
+ * @param client - Transaction client, or db when not inside a transaction
+ * @param req - The request that made the change
+ * @param entry - What changed
+ */
+export const recordAudit = async (
+  client: Queryable,
+  req: AuthenticatedRequest,
+  entry: AuditEntry
+): Promise<void> => {
+  const before = entry.before as AuditRow | null | undefined;
+  const after = entry.after as AuditRow | null | undefined;
+
+  const changes = diffRecords(before, after);
+  if (entry.action === "update" && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  for (const field of entry.redact || []) {
+    const change = changes[field];
+    if (change) {
+      changes[field] = {
+        from: change.from ? REDACTED : change.from,
+        to: change.to ? REDACTED : change.to,
+      };
+    }
+  }
+
+  const record = after || before;
+  const label =
+    entry.label !== undefined
+      ? entry.label
+      : record && ENTITY_LABELS[entry.entityType]?.(record);
+
+  await client.query(
+    `INSERT INTO audit_log (
+       actor_id, actor_email, api_key_id, action, entity_type, entity_id, entity_label,
+       parent_type, parent_id, changes, metadata, ip_address, user_agent
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+    [
+      req.user?.userId ?? null,
+      req.user?.email ?? null,
+      req.apiKeyId ?? null,
+      entry.action,
+      entry.entityType,
+      String(entry.entityId),
+      label ? String(label).slice(0, 255) : null,
+      entry.parent?.type ?? null,
+      entry.parent ? String(entry.parent.id) : null,
+      Object.keys(changes).length > 0 ? JSON.stringify(changes) : null,
+      entry.metadata ? JSON.stringify(entry.metadata) : null,
+      req.ip || null,
+      req.get("user-agent") || null,
+    ]
+  );
+};
+
+export const formatAuditEntry = (row: AuditLogRow) => ({
+  id: row.id,
+  actor: row.actor_email
+    ? {
+        id: row.actor_id,
+        email: row.actor_email,
+        name: row.actor_first_name
+          ? `${row.actor_first_name} ${row.actor_last_name}`
+          : null,
+      }
+    : null,
+  apiKeyId: row.api_key_id,
+  action: row.action,
+  entityType: row.entity_type,
+  entityId: row.entity_id,
+  entityLabel: row.entity_label,
+  parentType: row.parent_type,
+  parentId: row.parent_id,
+  changes: row.changes || {},
+  metadata: row.metadata,
+  ipAddress: row.ip_address,
+  userAgent: row.user_agent,
+  createdAt: row.created_at,
+});
+
+export type AuditLogEntry = ReturnType<typeof formatAuditEntry>;
+
+/**
+ * A record's audit entries, newest first, including those of its shares
+ * @returns A page of formatted entries and the total number of entries
+ */
+export const getRecordHistory = async (
+  entityType: AuditEntityType,
+  entityId: string | number,
+  limit: number,
+  offset: number
+): Promise<{ entries: AuditLogEntry[]; total: number }> => {
+  const where = `WHERE (a.entity_type = $1 AND a.entity_id = $2)
+    OR (a.parent_type = $1 AND a.parent_id = $2)`;
+  const params = [entityType, String(entityId)];
+
+  const [countResult, dataResult] = await Promise.all([
+    db.query<{ count: string }>(
+      `SELECT COUNT(*) FROM audit_log a ${where}`,
+      params
+    ),
+    db.query<AuditLogRow>(
+      `SELECT a.*, u.first_name as actor_first_name, u.last_name as actor_last_name
+       FROM audit_log a
+       LEFT JOIN users u ON a.actor_id = u.id
+       ${where}
+       ORDER BY a.created_at DESC, a.id DESC
+       LIMIT $3 OFFSET $4`,
+      [...params, limit, offset]
+    ),
+  ]);
+
+  return {
+    entries: dataResult.rows.map(formatAuditEntry),
+    total: parseInt(countResult.rows[0].count, 10),
+  };
+};
@@ -0,0 +1,157 @@
+import { ContactEmail, ContactPhone } from "../types";
+
+export interface DuplicateCandidate {
+  id: number;
+  first_name: string;
+  last_name: string;
+  emails?: ContactEmail[];
+  phones?: ContactPhone[];
+  company_id?: number | null;
+}
+
+export interface DuplicatePair {
+  contactIds: [number, number];
+  score: number;
+  reasons: string[];
+}
+
+const EMAIL_SCORE = 60;
+const PHONE_SCORE = 40;
+const NAME_SCORE = 40;
+
+// Names at the same company at least this similar (0-1) count as a match
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Reduce a phone number to its last ten digits so formatting and a
+ * leading country or trunk prefix don't hide a match
+ * @param phone - The phone number as entered
+ * @returns The comparable digits, or null when too short to be a number
+ */
+export const normalizePhone = (phone?: string | null): string | null => {
+  const digits = (phone || "").replace(/\D/g, "");
+  return digits.length >= 7 ? digits.slice(-10) : null;
+};
+
+const normalizeName = (contact: DuplicateCandidate): string =>
+  `${contact.first_name} ${contact.last_name}`
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z ]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Similarity of two names between 0 (nothing in common) and 1 (identical)
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+/**
+ * Score every pair of contacts that share any of their emails or phone
+ * numbers, or have a similar name within the same company. Only contacts that share a key are
+ * compared, so this stays far below checking all pairs.
+ * @param contacts - The contacts to check against each other
+ * @returns Candidate pairs (lowest id first) with a 0-100 score and the reasons
+ */
+export const findDuplicatePairs = (
+  contacts: DuplicateCandidate[]
+): DuplicatePair[] => {
+  const pairs = new Map<string, DuplicatePair>();
+
+  const addReason = (
+    a: DuplicateCandidate,
+    b: DuplicateCandidate,
+    points: number,
+    reason: string
+  ) => {
+    const contactIds: [number, number] =
+      a.id < b.id ? [a.id, b.id] : [b.id, a.id];
+    const key = contactIds.join(":");
+    const pair = pairs.get(key) || { contactIds, score: 0, reasons: [] };
+    // Sharing a second email or phone adds nothing
+    if (pair.reasons.includes(reason)) return;
+    pair.score = Math.min(100, pair.score + points);
+    pair.reasons.push(reason);
+    pairs.set(key, pair);
+  };
+
+  const group = (
+    keysOf: (contact: DuplicateCandidate) => (string | null)[]
+  ) => {
+    const groups = new Map<string, DuplicateCandidate[]>();
+    for (const contact of contacts) {
+      for (const key of new Set(keysOf(contact))) {
+        if (!key) continue;
+        const members = groups.get(key) || [];
+        members.push(contact);
+        groups.set(key, members);
+      }
+    }
+    return [...groups.values()].filter((members) => members.length > 1);
+  };
+
+  const eachPair = (
+    members: DuplicateCandidate[],
+    fn: (a: DuplicateCandidate, b: DuplicateCandidate) => void
+  ) => {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        fn(members[i], members[j]);
+      }
+    }
+  };
+
+  for (const members of group((contact) =>
+    (contact.emails || []).map((entry) => entry.email.trim().toLowerCase())
+  )) {
+    eachPair(members, (a, b) => addReason(a, b, EMAIL_SCORE, "Same email"));
+  }
+
+  for (const members of group((contact) =>
+    (contact.phones || []).map((entry) => normalizePhone(entry.number))
+  )) {
+    eachPair(members, (a, b) => addReason(a, b, PHONE_SCORE, "Same phone"));
+  }
+
+  for (const members of group((contact) => [
+    contact.company_id ? String(contact.company_id) : null,
+  ])) {
+    eachPair(members, (a, b) => {
+      const similarity = nameSimilarity(normalizeName(a), normalizeName(b));
+      if (similarity === 1) {
+        addReason(a, b, NAME_SCORE, "Same name at the same company");
+      } else if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+        addReason(
+          a,
+          b,
+          Math.round(NAME_SCORE * similarity),
+          "Similar name at the same company"
+        );
+      }
+    });
+  }
+
+  return [...pairs.values()].sort((a, b) => b.score - a.score);
+};
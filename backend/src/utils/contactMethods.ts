@@ -0,0 +1,356 @@
+import { body } from "express-validator";
+import {
+  AddressLabel,
+  ContactEmail,
+  ContactMethodLabel,
+  ContactPhone,
+  PostalAddress,
+} from "../types";
+import { getDefaultPhoneCountryCode } from "./systemSettings";
+
+export const CONTACT_METHOD_LABELS: ContactMethodLabel[] = [
+  "work",
+  "personal",
+  "mobile",
+  "other",
+];
+
+export const ADDRESS_LABELS: AddressLabel[] = [
+  "billing",
+  "shipping",
+  "home",
+  "work",
+  "other",
+];
+
+// Address parts in the order they are written on one line
+const ADDRESS_PARTS = [
+  "street",
+  "city",
+  "region",
+  "postalCode",
+  "country",
+] as const;
+
+// Most entries a single list may hold
+const MAX_ENTRIES = 20;
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+interface ListEntry {
+  isPrimary: boolean;
+}
+
+export interface ContactMethodsInput {
+  // Older clients send a single value, which sets the primary entry
+  email?: string;
+  phone?: string;
+  address?: string;
+  emails?: Partial<ContactEmail>[];
+  phones?: Partial<ContactPhone>[];
+  addresses?: Partial<PostalAddress>[];
+}
+
+export interface ContactMethodChanges {
+  emails?: ContactEmail[];
+  phones?: ContactPhone[];
+  addresses?: PostalAddress[];
+}
+
+export interface PhoneResolution {
+  phones?: ContactPhone[];
+  error?: string;
+}
+
+// Body validation for the address list of contacts and organizations
+export const addressValidators = [
+  body("addresses").optional().isArray({ max: MAX_ENTRIES }),
+  body("addresses.*.label")
+    .optional()
+    .isIn(ADDRESS_LABELS)
+    .withMessage("Invalid address label"),
+  body(ADDRESS_PARTS.map((part) => `addresses.*.${part}`))
+    .optional({ nullable: true })
+    .isString()
+    .trim(),
+  body("addresses.*.isPrimary").optional().isBoolean(),
+];
+
+// Body validation for a contact's email, phone and address lists
+export const contactMethodValidators = [
+  body("emails").optional().isArray({ max: MAX_ENTRIES }),
+  body("emails.*.email")
+    .isEmail()
+    .withMessage("Invalid email address")
+    .normalizeEmail(),
+  body("emails.*.label")
+    .optional()
+    .isIn(CONTACT_METHOD_LABELS)
+    .withMessage("Invalid email label"),
+  body("emails.*.isPrimary").optional().isBoolean(),
+  body("phones").optional().isArray({ max: MAX_ENTRIES }),
+  body("phones.*.number")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Phone number is required"),
+  body("phones.*.label")
+    .optional()
+    .isIn(CONTACT_METHOD_LABELS)
+    .withMessage("Invalid phone label"),
+  body("phones.*.isPrimary").optional().isBoolean(),
+  ...addressValidators,
+];
+
+/**
+ * Convert a phone number to E.164. Numbers without a + or 00 prefix are
+ * taken as national: a leading trunk 0 is dropped and the country code
+ * added, unless the digits already start with it.
+ * @param phone - The phone number as entered
+ * @param countryCode - Country calling code for national numbers, e.g. "1"
+ * @returns The E.164 number, or null when it can't be one
+ */
+export const toE164 = (phone: string, countryCode: string): string | null => {
+  const trimmed = phone.trim();
+  let digits = trimmed.replace(/\D/g, "");
+
+  if (!trimmed.startsWith("+")) {
+    if (digits.startsWith("00")) {
+      digits = digits.slice(2);
+    } else if (digits.startsWith("0")) {
+      digits = countryCode + digits.replace(/^0+/, "");
+    } else if (!(digits.startsWith(countryCode) && digits.length > 10)) {
+      digits = countryCode + digits;
+    }
+  }
+
+  const e164 = `+${digits}`;
+  return E164_PATTERN.test(e164) ? e164 : null;
+};
+
+/**
+ * An address on one line, e.g. for the old single address column
+ */
+export const formatAddress = (address?: PostalAddress): string =>
+  address
+    ? ADDRESS_PARTS.map((part) => address[part])
+        .filter(Boolean)
+        .join(", ")
+    : "";
+
+// Keep the first entry marked primary, or else the first entry, as the only
+// primary one and move it to the front
+const withOnePrimary = <T extends ListEntry>(entries: T[]): T[] => {
+  const index = Math.max(
+    0,
+    entries.findIndex((entry) => entry.isPrimary)
+  );
+  return [entries[index], ...entries.filter((_, i) => i !== index)]
+    .filter(Boolean)
+    .map((entry, i) => ({ ...entry, isPrimary: i === 0 }));
+};
+
+// Drop entries whose key repeats an earlier one
+const withoutRepeats = <T>(entries: T[], keyOf: (entry: T) => string): T[] =>
+  entries.filter(
+    (entry, i) =>
+      entries.findIndex((other) => keyOf(other) === keyOf(entry)) === i
+  );
+
+// Swap the primary entry for another, or remove it when there is none
+const replacePrimary = <T extends ListEntry>(
+  entries: T[],
+  entry: T | null
+): T[] => {
+  const rest = entries.filter((current) => !current.isPrimary);
+  return withOnePrimary(
+    entry ? [{ ...entry, isPrimary: true }, ...rest] : rest
+  );
+};
+
+const emailKey = (entry: ContactEmail) => entry.email.toLowerCase();
+const phoneKey = (entry: ContactPhone) => entry.number;
+const addressKey = (entry: PostalAddress) => formatAddress(entry).toLowerCase();
+
+const toAddress = (input: Partial<PostalAddress>): PostalAddress => {
+  const address: PostalAddress = {
+    label: input.label || "work",
+    isPrimary: !!input.isPrimary,
+  };
+  for (const part of ADDRESS_PARTS) {
+    const value = input[part]?.trim();
+    if (value) {
+      address[part] = value;
+    }
+  }
+  return address;
+};
+
+/**
+ * Work out the email list a create or update body sets: a list replaces the
+ * stored one and a single email replaces just the primary entry
+ * @param input - The request body, already validated
+ * @param current - The stored list, empty for a new contact
+ * @returns The new list, or undefined when the body doesn't change it
+ */
+export const resolveEmails = (
+  input: ContactMethodsInput,
+  current: ContactEmail[]
+): ContactEmail[] | undefined => {
+  if (input.emails) {
+    const emails = input.emails.map((entry) => ({
+      label: entry.label || "work",
+      email: (entry.email || "").trim(),
+      isPrimary: !!entry.isPrimary,
+    }));
+    return withOnePrimary(withoutRepeats(emails, emailKey));
+  }
+  if (input.email !== undefined) {
+    const email = input.email.trim();
+    const label = current[0]?.label || "work";
+    return withoutRepeats(
+      replacePrimary(current, email ? { label, email, isPrimary: true } : null),
+      emailKey
+    );
+  }
+  return undefined;
+};
+
+/**
+ * Work out the phone list a create or update body sets, with every number
+ * converted to E.164 using the default country code setting
+ * @param input - The request body, already validated
+ * @param current - The stored list, empty for a new contact
+ * @returns The new list, undefined when the body doesn't change it, or an
+ *   error naming a number that can't be converted
+ */
+export const resolvePhones = async (
+  input: ContactMethodsInput,
+  current: ContactPhone[]
+): Promise<PhoneResolution> => {
+  const entries = input.phones
+    ? input.phones
+    : input.phone !== undefined
+      ? input.phone.trim()
+        ? [{ label: current[0]?.label, number: input.phone, isPrimary: true }]
+        : []
+      : undefined;
+  if (!entries) {
+    return {};
+  }
+
+  const countryCode = await getDefaultPhoneCountryCode();
+  const phones: ContactPhone[] = [];
+  for (const entry of entries) {
+    const number = toE164(entry.number || "", countryCode);
+    if (!number) {
+      return { error: `"${entry.number}" is not a valid phone number` };
+    }
+    phones.push({
+      label: entry.label || "work",
+      number,
+      isPrimary: !!entry.isPrimary,
+    });
+  }
+
+  // A single phone only swaps the primary entry
+  const list = input.phones
+    ? withOnePrimary(phones)
+    : replacePrimary(current, phones[0] || null);
+  return { phones: withoutRepeats(list, phoneKey) };
+};
+
+/**
+ * Work out the address list a create or update body sets: a list replaces
+ * the stored one and a single address, kept as the street, replaces just
+ * the primary entry
+ * @param input - The request body, already validated
+ * @param current - The stored list, empty for a new record
+ * @returns The new list, or undefined when the body doesn't change it
+ */
+export const resolveAddresses = (
+  input: ContactMethodsInput,
+  current: PostalAddress[]
+): PostalAddress[] | undefined => {
+  if (input.addresses) {
+    const addresses = input.addresses
+      .map(toAddress)
+      .filter((address) => formatAddress(address));
+    return withOnePrimary(withoutRepeats(addresses, addressKey));
+  }
+  if (input.address !== undefined) {
+    const street = input.address.trim();
+    const label = current[0]?.label || "billing";
+    return replacePrimary(
+      current,
+      street ? { label, street, isPrimary: true } : null
+    );
+  }
+  return undefined;
+};
+
+/**
+ * Combine two contacts' lists without repeats for a merge. The survivor's
+ * primary entries stay primary unless the merged contact's email or phone is
+ * chosen instead, or the survivor has none.
+ * @param survivor - The contact that is kept
+ * @param merged - The contact merged into it
+ * @param choices - Whose primary email and phone to keep
+ */
+export const mergeContactMethods = (
+  survivor: ContactMethodChanges,
+  merged: ContactMethodChanges,
+  choices: Partial<Record<"email" | "phone", "survivor" | "merged">>
+): Required<ContactMethodChanges> => {
+  const combine = <T extends ListEntry>(
+    preferred: T[] = [],
+    other: T[] = [],
+    keyOf: (entry: T) => string
+  ) => withOnePrimary(withoutRepeats([...preferred, ...other], keyOf));
+
+  return {
+    emails:
+      choices.email === "merged"
+        ? combine(merged.emails, survivor.emails, emailKey)
+        : combine(survivor.emails, merged.emails, emailKey),
+    phones:
+      choices.phone === "merged"
+        ? combine(merged.phones, survivor.phones, phoneKey)
+        : combine(survivor.phones, merged.phones, phoneKey),
+    addresses: combine(survivor.addresses, merged.addresses, addressKey),
+  };
+};
+
+/**
+ * The columns to store for changed lists: each list as JSON and, for emails
+ * and phones, the primary entry in the old single column
+ */
+export const contactMethodColumns = (
+  changes: ContactMethodChanges
+): Record<string, string | null> => ({
+  ...(changes.emails && {
+    emails: JSON.stringify(changes.emails),
+    email: changes.emails[0]?.email || null,
+  }),
+  ...(changes.phones && {
+    phones: JSON.stringify(changes.phones),
+    phone: changes.phones[0]?.number || null,
+  }),
+  ...(changes.addresses && {
+    addresses: JSON.stringify(changes.addresses),
+  }),
+});
+
+/**
+ * The columns to store for an organization's changed address list: the list
+ * as JSON and the primary address on one line in the old address column
+ */
+export const addressColumns = (
+  addresses?: PostalAddress[]
+): Record<string, string | null> =>
+  addresses
+    ? {
+        addresses: JSON.stringify(addresses),
+        address: formatAddress(addresses[0]) || null,
+      }
+    : {};
@@ -0,0 +1,167 @@
+import { PoolClient } from "pg";
+import { ContactOrganization } from "../types";
+
+export interface ContactOrganizationRow extends ContactOrganization {
+  company_name?: string;
+}
+
+export interface ContactOrganizationResponse {
+  id: string;
+  contactId: string;
+  companyId: string;
+  companyName?: string;
+  title: string | null;
+  department: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  isCurrent: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Link columns for queries aliasing the table as co. Dates are read as text
+// so they come back as entered rather than shifted to a time zone.
+export const CONTACT_ORGANIZATION_COLUMNS = `co.id, co.contact_id, co.company_id,
+  co.title, co.department, co.start_date::text as start_date,
+  co.end_date::text as end_date, co.is_current, co.created_at, co.updated_at`;
+
+// Current roles first, then the most recent
+export const CONTACT_ORGANIZATION_ORDER =
+  "co.is_current DESC, co.end_date DESC NULLS FIRST, co.start_date DESC NULLS LAST, co.id DESC";
+
+export const toContactOrganizationResponse = (
+  row: ContactOrganizationRow
+): ContactOrganizationResponse => ({
+  id: row.id,
+  contactId: row.contact_id,
+  companyId: row.company_id,
+  companyName: row.company_name,
+  title: row.title ?? null,
+  department: row.department ?? null,
+  startDate: row.start_date ?? null,
+  endDate: row.end_date ?? null,
+  isCurrent: row.is_current,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Copy a contact's current role to contacts.company_id and position: the
+ * current link that started last. Without one the company is cleared and the
+ * position left as it is, since it may have been set without a company.
+ * @param client - Transaction client
+ * @param contactId - The contact whose links changed
+ */
+export const syncContactCompany = async (
+  client: PoolClient,
+  contactId: string | number
+): Promise<void> => {
+  await client.query(
+    `WITH link AS (
+       SELECT company_id, title FROM contact_organizations
+       WHERE contact_id = $1 AND is_current
+       ORDER BY start_date DESC NULLS LAST, id DESC
+       LIMIT 1
+     )
+     UPDATE contacts
+     SET company_id = (SELECT company_id FROM link),
+         position = CASE WHEN EXISTS (SELECT 1 FROM link)
+                         THEN (SELECT title FROM link) ELSE position END
+     WHERE id = $1`,
+    [contactId]
+  );
+};
+
+/**
+ * Record a company and position set through the contact's own fields as
+ * links. Moving to another company ends the role at the previous one, so the
+ * history is kept; the position becomes the title at the current company.
+ * @param client - Transaction client
+ * @param contactId - The contact that was created or updated
+ * @param previousCompanyId - The company before the change, if any
+ * @param companyId - The company after the change, if any
+ * @param position - The position after the change
+ */
+export const recordContactCompany = async (
+  client: PoolClient,
+  contactId: string | number,
+  previousCompanyId: string | number | null | undefined,
+  companyId: string | number | null | undefined,
+  position: string | null | undefined
+): Promise<void> => {
+  const changedCompany =
+    !!previousCompanyId && String(previousCompanyId) !== String(companyId);
+
+  if (changedCompany) {
+    await client.query(
+      `UPDATE contact_organizations
+       SET is_current = false,
+           end_date = COALESCE(end_date, GREATEST(CURRENT_DATE, start_date)),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE contact_id = $1 AND company_id = $2 AND is_current`,
+      [contactId, previousCompanyId]
+    );
+  }
+
+  if (companyId) {
+    const updated = await client.query(
+      `UPDATE contact_organizations
+       SET title = $3, updated_at = CURRENT_TIMESTAMP
+       WHERE contact_id = $1 AND company_id = $2 AND is_current`,
+      [contactId, companyId, position || null]
+    );
+    if (updated.rowCount === 0) {
+      // Moving from another company starts the new role today
+      await client.query(
+        `INSERT INTO contact_organizations
+           (contact_id, company_id, title, start_date)
+         VALUES ($1, $2, $3, CASE WHEN $4 THEN CURRENT_DATE END)`,
+        [contactId, companyId, position || null, changedCompany]
+      );
+    }
+  }
+
+  await syncContactCompany(client, contactId);
+};
+
+/**
+ * Give a merged contact's roles to the survivor. A current role at a company
+ * the survivor is also current at is folded into the survivor's, filling in
+ * what it leaves empty and keeping the earlier start. The survivor's company
+ * and position are then copied from its current roles again.
+ * @param client - Transaction client
+ * @param mergedId - The contact being merged away
+ * @param survivorId - The contact that is kept
+ */
+export const moveContactOrganizations = async (
+  client: PoolClient,
+  mergedId: string | number,
+  survivorId: string | number
+): Promise<void> => {
+  await client.query(
+    `UPDATE contact_organizations s
+     SET title = COALESCE(s.title, m.title),
+         department = COALESCE(s.department, m.department),
+         start_date = LEAST(s.start_date, m.start_date),
+         updated_at = CURRENT_TIMESTAMP
+     FROM contact_organizations m
+     WHERE s.contact_id = $2 AND s.is_current
+       AND m.contact_id = $1 AND m.is_current AND m.company_id = s.company_id`,
+    [mergedId, survivorId]
+  );
+  await client.query(
+    `DELETE FROM contact_organizations m
+     WHERE m.contact_id = $1 AND m.is_current
+       AND EXISTS (
+         SELECT 1 FROM contact_organizations s
+         WHERE s.contact_id = $2 AND s.company_id = m.company_id AND s.is_current
+       )`,
+    [mergedId, survivorId]
+  );
+  await client.query(
+    "UPDATE contact_organizations SET contact_id = $2 WHERE contact_id = $1",
+    [mergedId, survivorId]
+  );
+
+  await syncContactCompany(client, survivorId);
+};
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseCsv, toCsvRow } from "./csv";
+
+describe("toCsvRow", () => {
+  it("joins cells and ends the line with CRLF", () => {
+    assert.equal(toCsvRow(["a", 1, true]), "a,1,true\r\n");
+  });
+
+  it("formats empty values, dates and lists", () => {
+    const date = new Date("2024-01-02T03:04:05.000Z");
+    assert.equal(
+      toCsvRow([null, undefined, date, ["vip", "lead"]]),
+      ",,2024-01-02T03:04:05.000Z,vip; lead\r\n"
+    );
+  });
+
+  it("quotes cells with separators, quotes or newlines", () => {
+    assert.equal(
+      toCsvRow(["a,b", 'say "hi"', "two\nlines"]),
+      '"a,b","say ""hi""","two\nlines"\r\n'
+    );
+  });
+
+  it("prefixes cells that would open as formulas", () => {
+    assert.equal(
+      toCsvRow(["=1+1", "+1+1", "-1+1", "@SUM(A1)", "\tx"]),
+      "'=1+1,'+1+1,'-1+1,'@SUM(A1),'\tx\r\n"
+    );
+    assert.equal(
+      toCsvRow(['=HYPERLINK("http://x")', "\rx"]),
+      '"\'=HYPERLINK(""http://x"")","\'\rx"\r\n'
+    );
+  });
+
+  it("leaves formula characters after the first alone", () => {
+    assert.equal(toCsvRow(["a=b", "1-2"]), "a=b,1-2\r\n");
+  });
+
+  it("leaves plain numbers alone", () => {
+    assert.equal(
+      toCsvRow(["+15551234567", "-12.5", 42]),
+      "+15551234567,-12.5,42\r\n"
+    );
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads back what toCsvRow writes", () => {
+    const values = ["a,b", 'say "hi"', "two\r\nlines", "plain"];
+    assert.deepEqual(parseCsv(toCsvRow(values)), [values]);
+  });
+
+  it("reads back cells that were kept from opening as formulas", () => {
+    const values = ["+1 (555) 123-4567", "-", '=HYPERLINK("x")', "@ada"];
+    assert.deepEqual(parseCsv(toCsvRow(values)), [values]);
+  });
+
+  it("skips blank lines and the byte order mark", () => {
+    assert.deepEqual(parseCsv("\ufeffname,email\n\nAda,ada@x.io\n"), [
+      ["name", "email"],
+      ["Ada", "ada@x.io"],
+    ]);
+  });
+});
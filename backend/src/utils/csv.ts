@@ -0,0 +1,95 @@
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// Plain numbers, including E.164 phone numbers, open as numbers
+const NUMBER = /^[+-]?\d+(\.\d+)?$/;
+// What toCsvRow turns a cell that would open as a formula into
+const ESCAPED_FORMULA = /^'[=+\-@\t\r]/;
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF). The
+ * ' that toCsvRow puts before cells that would open as a formula is dropped
+ * again.
+ * @param text - The raw CSV document
+ * @returns One array of cell values per non-empty line
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Drop the byte order mark spreadsheet exports like to add
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endField = () => {
+    row.push(ESCAPED_FORMULA.test(field) ? field.slice(1) : field);
+    field = "";
+  };
+
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0].trim() !== "") {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+const formatCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join("; ");
+  return String(value);
+};
+
+/**
+ * Format one CSV line, quoting cells that contain separators, quotes or
+ * newlines. Cells that would open as a formula get a leading ' so they stay
+ * text, unless they hold a plain number.
+ * @param values - Cell values; arrays are joined with "; " and dates use ISO 8601
+ * @returns The line terminated with CRLF
+ */
+export const toCsvRow = (values: unknown[]): string =>
+  values
+    .map((value) => {
+      const formatted = formatCsvValue(value);
+      const cell =
+        FORMULA_PREFIX.test(formatted) && !NUMBER.test(formatted)
+          ? `'${formatted}`
+          : formatted;
+      return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    })
+    .join(",") + "\r\n";
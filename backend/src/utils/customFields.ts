@@ -0,0 +1,395 @@
+import { PoolClient } from "pg";
+import db from "../config/database";
+import {
+  CustomField,
+  CustomFieldEntity,
+  CustomFieldType,
+  CustomFieldValue,
+} from "../types";
+
+export const CUSTOM_FIELD_ENTITIES: CustomFieldEntity[] = [
+  "contact",
+  "organization",
+  "deal",
+  "activity",
+];
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = [
+  "text",
+  "number",
+  "date",
+  "select",
+  "multi_select",
+  "boolean",
+  "url",
+];
+
+// The table holding each kind of record's values
+const CUSTOM_FIELD_TABLES: Record<CustomFieldEntity, string> = {
+  contact: "contacts",
+  organization: "companies",
+  deal: "deals",
+  activity: "activities",
+};
+
+// Types whose values are picked from the field's options
+export const OPTION_FIELD_TYPES: CustomFieldType[] = ["select", "multi_select"];
+
+// Keys end up in JSONB paths and SQL, so they are kept to a safe alphabet
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+// Lists sort by a custom field with sortBy=cf.<key>
+export const CUSTOM_FIELD_SORT_PATTERN = /^cf\.[a-z][a-z0-9_]*$/;
+
+const MAX_TEXT_LENGTH = 1000;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Filter values for number and date fields can be a range instead
+interface RangeFilter {
+  from?: string;
+  to?: string;
+}
+
+export type CustomFieldFilters = Record<string, string | RangeFilter>;
+
+// Values ready to store, null for the ones being cleared
+export interface CustomFieldValidation {
+  values: Record<string, CustomFieldValue | null>;
+  error?: string;
+}
+
+export const formatCustomField = (field: CustomField) => ({
+  id: field.id,
+  entityType: field.entity_type,
+  key: field.key,
+  label: field.label,
+  fieldType: field.field_type,
+  options: field.options || [],
+  isRequired: field.is_required,
+  position: field.position,
+  created_at: field.created_at,
+  updated_at: field.updated_at,
+});
+
+/**
+ * The custom fields defined for an entity, in the order forms show them
+ */
+export const getCustomFields = async (
+  entityType: CustomFieldEntity
+): Promise<CustomField[]> => {
+  const result = await db.query<CustomField>(
+    "SELECT * FROM custom_fields WHERE entity_type = $1 ORDER BY position, id",
+    [entityType]
+  );
+  return result.rows;
+};
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+// Rejects days a month doesn't have, which Date would roll over
+const isValidDate = (value: string): boolean => {
+  if (!ISO_DATE.test(value)) {
+    return false;
+  }
+  const date = new Date(value);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+/**
+ * Convert one submitted value to what gets stored
+ * @returns The value, or an error message for the field's label
+ */
+const parseValue = (
+  field: CustomField,
+  value: unknown
+): { value?: CustomFieldValue; error?: string } => {
+  switch (field.field_type) {
+    case "text":
+      if (typeof value !== "string") {
+        return { error: "must be text" };
+      }
+      if (value.trim().length > MAX_TEXT_LENGTH) {
+        return { error: `must be at most ${MAX_TEXT_LENGTH} characters` };
+      }
+      return { value: value.trim() };
+    case "number": {
+      const number = typeof value === "string" ? Number(value) : value;
+      if (typeof number !== "number" || !isFinite(number)) {
+        return { error: "must be a number" };
+      }
+      return { value: number };
+    }
+    case "date":
+      if (typeof value !== "string" || !isValidDate(value)) {
+        return { error: "must be a date (YYYY-MM-DD)" };
+      }
+      return { value };
+    case "boolean":
+      if (value === true || value === "true") return { value: true };
+      if (value === false || value === "false") return { value: false };
+      return { error: "must be true or false" };
+    case "url":
+      try {
+        const url = new URL(String(value).trim());
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+          return { error: "must be an http or https URL" };
+        }
+        return { value: url.toString() };
+      } catch {
+        return { error: "must be a valid URL" };
+      }
+    case "select":
+      if (typeof value !== "string" || !field.options.includes(value)) {
+        return { error: `must be one of: ${field.options.join(", ")}` };
+      }
+      return { value };
+    case "multi_select": {
+      const values = Array.isArray(value) ? value : [value];
+      if (!values.every((v) => field.options.includes(v))) {
+        return { error: `can only include: ${field.options.join(", ")}` };
+      }
+      // Keep the options' order so equal selections compare equal
+      return { value: field.options.filter((o) => values.includes(o)) };
+    }
+  }
+};
+
+/**
+ * Check submitted custom field values against an entity's fields
+ * @param input - The request's customFields object
+ * @param isNew - Whether a record is being created, in which case every
+ * required field needs a value. Updates only check the fields they send.
+ * @param entityFields - The entity's fields when already loaded, e.g. to
+ * check many records at once
+ * @returns The values to store, or the first problem found
+ */
+export const validateCustomFieldValues = async (
+  entityType: CustomFieldEntity,
+  input: unknown,
+  isNew: boolean,
+  entityFields?: CustomField[]
+): Promise<CustomFieldValidation> => {
+  const values: CustomFieldValidation["values"] = {};
+  const submitted = (input ?? {}) as Record<string, unknown>;
+  if (typeof submitted !== "object" || Array.isArray(submitted)) {
+    return { values, error: "Custom fields must be an object" };
+  }
+
+  const fields = entityFields ?? (await getCustomFields(entityType));
+  const fieldsByKey = new Map(fields.map((field) => [field.key, field]));
+
+  const unknownKey = Object.keys(submitted).find(
+    (key) => !fieldsByKey.has(key)
+  );
+  if (unknownKey) {
+    return { values, error: `Unknown custom field: ${unknownKey}` };
+  }
+
+  for (const field of fields) {
+    if (!isNew && !(field.key in submitted)) continue;
+
+    const value = submitted[field.key];
+    if (isEmpty(value)) {
+      if (field.is_required) {
+        return { values, error: `${field.label} is required` };
+      }
+      values[field.key] = null;
+      continue;
+    }
+
+    const parsed = parseValue(field, value);
+    if (parsed.error) {
+      return { values, error: `${field.label} ${parsed.error}` };
+    }
+    values[field.key] = parsed.value as CustomFieldValue;
+  }
+
+  return { values };
+};
+
+/**
+ * The SQL expression that reads a field's value from a record, cast so it
+ * compares and sorts by its type
+ * @param alias - The record table's alias in the query
+ */
+const valueExpression = (field: CustomField, alias: string): string => {
+  const text = `(${alias}.custom_fields->>'${field.key}')`;
+  switch (field.field_type) {
+    case "number":
+      return `${text}::numeric`;
+    case "date":
+      return `${text}::date`;
+    case "boolean":
+      return `${text}::boolean`;
+    default:
+      return text;
+  }
+};
+
+/**
+ * Build the conditions that filter a list by custom field values. Text and
+ * URL fields match part of the value, multi-selects match records that
+ * include the value, number and date fields accept a from/to range and the
+ * rest match exactly.
+ * @param filters - The request's cf query object, field key -> value
+ * @param alias - The record table's alias in the query
+ * @param params - The query's parameters; filter values are appended
+ * @returns " AND ..." conditions, or an error for an unknown field or value
+ */
+export const customFieldConditions = (
+  fields: CustomField[],
+  filters: CustomFieldFilters | undefined,
+  alias: string,
+  params: unknown[]
+): { conditions: string; error?: string } => {
+  let conditions = "";
+
+  for (const [key, filter] of Object.entries(filters || {})) {
+    const field = fields.find((f) => f.key === key);
+    if (!field) {
+      return { conditions, error: `Unknown custom field: ${key}` };
+    }
+    if (isEmpty(filter)) continue;
+
+    const expression = valueExpression(field, alias);
+    const addParam = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (typeof filter === "object") {
+      if (field.field_type !== "number" && field.field_type !== "date") {
+        return {
+          conditions,
+          error: `${field.label} can't be filtered by range`,
+        };
+      }
+      for (const [bound, operator] of [
+        ["from", ">="],
+        ["to", "<="],
+      ] as const) {
+        const value = filter[bound];
+        if (isEmpty(value)) continue;
+        const parsed = parseValue(field, value);
+        if (parsed.error) {
+          return { conditions, error: `${field.label} ${parsed.error}` };
+        }
+        conditions += ` AND ${expression} ${operator} ${addParam(parsed.value)}`;
+      }
+      continue;
+    }
+
+    switch (field.field_type) {
+      case "text":
+      case "url":
+        conditions += ` AND ${expression} ILIKE ${addParam(`%${filter}%`)}`;
+        break;
+      case "multi_select":
+        conditions += ` AND ${alias}.custom_fields->'${field.key}' ? ${addParam(filter)}`;
+        break;
+      default: {
+        const parsed = parseValue(field, filter);
+        if (parsed.error) {
+          return { conditions, error: `${field.label} ${parsed.error}` };
+        }
+        conditions += ` AND ${expression} = ${addParam(parsed.value)}`;
+      }
+    }
+  }
+
+  return { conditions };
+};
+
+/**
+ * The ORDER BY expression for sorting a list by a custom field; records
+ * without a value come last either way
+ * @param sortBy - The request's sortBy, "cf.<key>" to sort by a custom field
+ * @returns The expression, null when sortBy isn't a custom field, or an error
+ * for an unknown field
+ */
+export const customFieldOrderBy = (
+  fields: CustomField[],
+  sortBy: string | undefined,
+  sortOrder: string | undefined,
+  alias: string
+): { orderBy: string | null; error?: string } => {
+  if (!sortBy?.startsWith("cf.")) {
+    return { orderBy: null };
+  }
+
+  const key = sortBy.slice(3);
+  const field = fields.find((f) => f.key === key);
+  if (!field) {
+    return { orderBy: null, error: `Unknown custom field: ${key}` };
+  }
+
+  const direction = sortOrder === "asc" ? "ASC" : "DESC";
+  const expression =
+    field.field_type === "text" || field.field_type === "url"
+      ? `LOWER(${valueExpression(field, alias)})`
+      : valueExpression(field, alias);
+  return { orderBy: `${expression} ${direction} NULLS LAST` };
+};
+
+/**
+ * The SQL that merges validated values into a record's custom_fields,
+ * dropping the ones set to null
+ * @param placeholder - The parameter holding the values as JSON
+ */
+export const mergeCustomFieldsSql = (placeholder: string): string =>
+  `jsonb_strip_nulls(custom_fields || ${placeholder}::jsonb)`;
+
+/**
+ * Remove a field's value from every record, when the field is deleted
+ */
+export const removeCustomFieldValues = async (
+  client: PoolClient,
+  field: CustomField
+): Promise<void> => {
+  await client.query(
+    `UPDATE ${CUSTOM_FIELD_TABLES[field.entity_type]}
+     SET custom_fields = custom_fields - $1
+     WHERE custom_fields ? $1`,
+    [field.key]
+  );
+};
+
+/**
+ * Drop values that are no longer among a select field's options, so saving
+ * a record doesn't fail on a choice it can't change
+ */
+export const removeStaleOptionValues = async (
+  client: PoolClient,
+  field: CustomField
+): Promise<void> => {
+  const table = CUSTOM_FIELD_TABLES[field.entity_type];
+
+  if (field.field_type === "select") {
+    await client.query(
+      `UPDATE ${table}
+       SET custom_fields = custom_fields - $1
+       WHERE custom_fields ? $1
+         AND NOT (custom_fields->>$1 = ANY($2::text[]))`,
+      [field.key, field.options]
+    );
+  } else if (field.field_type === "multi_select") {
+    await client.query(
+      `UPDATE ${table} t
+       SET custom_fields = (
+         SELECT CASE WHEN COUNT(*) = 0 THEN t.custom_fields - $1
+           ELSE jsonb_set(t.custom_fields, ARRAY[$1], jsonb_agg(kept))
+         END
+         FROM jsonb_array_elements_text(t.custom_fields->$1) kept
+         WHERE kept = ANY($2::text[])
+       )
+       WHERE custom_fields ? $1
+         AND NOT (custom_fields->$1 <@ to_jsonb($2::text[]))`,
+      [field.key, field.options]
+    );
+  }
+};
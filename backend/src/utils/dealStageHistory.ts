@@ -0,0 +1,27 @@
+import { Queryable } from "../config/database";
+
+/**
+ * Record that a deal entered a new stage
+ * @param client - Transaction client, or db when not inside a transaction
+ * @param dealId - The deal that moved
+ * @param fromStageId - The stage it left (null for a new deal)
+ * @param toStageId - The stage it entered
+ * @param userId - The user who moved it
+ */
+export const recordStageChange = async (
+  client: Queryable,
+  dealId: string | number,
+  fromStageId: string | number | null | undefined,
+  toStageId: string | number | null | undefined,
+  userId: string
+): Promise<void> => {
+  if (String(fromStageId ?? "") === String(toStageId ?? "")) {
+    return;
+  }
+
+  await client.query(
+    `INSERT INTO deal_stage_history (deal_id, from_stage_id, to_stage_id, changed_by_user_id)
+     VALUES ($1, $2, $3, $4)`,
+    [dealId, fromStageId ?? null, toStageId ?? null, userId]
+  );
+};
@@ -0,0 +1,138 @@
+import crypto from "crypto";
+import db from "../config/database";
+import { Invitation } from "../types";
+
+interface AcceptedUserRow {
+  id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  role: string;
+}
+
+interface AcceptInvitationDetails {
+  firstName: string;
+  lastName: string;
+  hashedPassword: string;
+}
+
+const INVITATION_LIFETIME_DAYS = 7;
+
+// Not accepted, revoked or expired
+const PENDING_CONDITION =
+  "accepted_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()";
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const newToken = (): string => crypto.randomBytes(32).toString("hex");
+
+/**
+ * Create an invitation
+ * @returns The invitation and its token, which is only stored hashed
+ */
+export const createInvitation = async (
+  email: string,
+  role: string,
+  invitedBy: string
+): Promise<{ invitation: Invitation; token: string }> => {
+  const token = newToken();
+
+  const result = await db.query<Invitation>(
+    `INSERT INTO invitations (email, role, token_hash, invited_by, expires_at)
+     VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5))
+     RETURNING id, email, role, invited_by, expires_at, accepted_at, revoked_at, created_at, updated_at`,
+    [email, role, hashToken(token), invitedBy, INVITATION_LIFETIME_DAYS]
+  );
+
+  return { invitation: result.rows[0], token };
+};
+
+/**
+ * Give an open invitation a new token and expiry, e.g. to resend it.
+ * The previous link stops working.
+ * @returns Null if the invitation doesn't exist or was accepted or revoked
+ */
+export const renewInvitation = async (
+  id: string
+): Promise<{ invitation: Invitation; token: string } | null> => {
+  const token = newToken();
+
+  const result = await db.query<Invitation>(
+    `UPDATE invitations
+     SET token_hash = $2, expires_at = NOW() + make_interval(days => $3), updated_at = NOW()
+     WHERE id = $1 AND accepted_at IS NULL AND revoked_at IS NULL
+     RETURNING id, email, role, invited_by, expires_at, accepted_at, revoked_at, created_at, updated_at`,
+    [id, hashToken(token), INVITATION_LIFETIME_DAYS]
+  );
+
+  return result.rows[0] ? { invitation: result.rows[0], token } : null;
+};
+
+/**
+ * Look up the pending invitation a token belongs to
+ */
+export const findPendingInvitation = async (
+  token: string
+): Promise<Invitation | null> => {
+  const result = await db.query<Invitation>(
+    `SELECT id, email, role, invited_by, expires_at, accepted_at, revoked_at, created_at, updated_at
+     FROM invitations
+     WHERE token_hash = $1 AND ${PENDING_CONDITION}`,
+    [hashToken(token)]
+  );
+
+  return result.rows[0] || null;
+};
+
+/**
+ * Create the invited user and close the invitation
+ * @returns The new user, or null if the invitation is no longer pending or
+ * someone registered the email in the meantime
+ */
+export const acceptInvitation = async (
+  token: string,
+  details: AcceptInvitationDetails
+): Promise<AcceptedUserRow | null> =>
+  db.transaction(async (client) => {
+    // Lock the invitation so it can only be accepted once
+    const invitationResult = await client.query<Invitation>(
+      `SELECT id, email, role FROM invitations
+       WHERE token_hash = $1 AND ${PENDING_CONDITION}
+       FOR UPDATE`,
+      [hashToken(token)]
+    );
+    const invitation = invitationResult.rows[0];
+    if (!invitation) {
+      return null;
+    }
+
+    const existingUser = await client.query(
+      "SELECT id FROM users WHERE email = $1",
+      [invitation.email]
+    );
+    if (existingUser.rows.length > 0) {
+      return null;
+    }
+
+    // The invitee proved they own the address by following the link
+    const userResult = await client.query<AcceptedUserRow>(
+      `INSERT INTO users (email, password, first_name, last_name, role, email_verified_at)
+       VALUES ($1, $2, $3, $4, $5, NOW())
+       RETURNING id, email, first_name, last_name, role`,
+      [
+        invitation.email,
+        details.hashedPassword,
+        details.firstName,
+        details.lastName,
+        invitation.role,
+      ]
+    );
+
+    await client.query(
+      "UPDATE invitations SET accepted_at = NOW(), updated_at = NOW() WHERE id = $1",
+      [invitation.id]
+    );
+
+    return userResult.rows[0];
+  });
@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import db from "../config/database";
+import {
+  LoginProtectionUser,
+  getAccountBlock,
+  reserveLoginAttempt,
+} from "./loginProtection";
+
+const NOW = new Date("2024-05-01T12:00:00.000Z");
+
+const secondsAgo = (seconds: number): Date =>
+  new Date(NOW.getTime() - seconds * 1000);
+
+const account = (
+  overrides: Partial<LoginProtectionUser> = {}
+): LoginProtectionUser => ({
+  id: "1",
+  failed_login_attempts: 0,
+  last_failed_login_at: null,
+  locked_until: null,
+  ...overrides,
+});
+
+describe("getAccountBlock", () => {
+  it("lets the first couple of failures retry at once", () => {
+    for (const failures of [0, 1, 2]) {
+      const user = account({
+        failed_login_attempts: failures,
+        last_failed_login_at: NOW,
+      });
+      assert.equal(getAccountBlock(user, NOW), null);
+    }
+  });
+
+  it("doubles the delay with each further failure", () => {
+    for (const [failures, delay] of [
+      [3, 2],
+      [4, 4],
+      [5, 8],
+      [6, 16],
+    ]) {
+      const user = account({
+        failed_login_attempts: failures,
+        last_failed_login_at: NOW,
+      });
+      const block = getAccountBlock(user, NOW);
+      assert.equal(block?.reason, "throttled");
+      assert.equal(block?.retryAfter, delay);
+    }
+  });
+
+  it("caps the delay at a minute", () => {
+    const user = account({
+      failed_login_attempts: 20,
+      last_failed_login_at: NOW,
+    });
+    assert.equal(getAccountBlock(user, NOW)?.retryAfter, 60);
+  });
+
+  it("counts the delay from the last failure", () => {
+    const user = account({
+      failed_login_attempts: 4,
+      last_failed_login_at: secondsAgo(3),
+    });
+    assert.equal(getAccountBlock(user, NOW)?.retryAfter, 1);
+    assert.equal(
+      getAccountBlock({ ...user, last_failed_login_at: secondsAgo(4) }, NOW),
+      null
+    );
+  });
+
+  it("turns attempts down while the account is locked", () => {
+    const user = account({
+      locked_until: new Date(NOW.getTime() + 90 * 1000),
+    });
+    const block = getAccountBlock(user, NOW);
+    assert.equal(block?.reason, "locked");
+    assert.equal(block?.retryAfter, 90);
+  });
+
+  it("lets attempts through once the lock has ended", () => {
+    const user = account({ locked_until: secondsAgo(1) });
+    assert.equal(getAccountBlock(user, NOW), null);
+  });
+});
+
+describe("reserveLoginAttempt", () => {
+  afterEach(() => mock.restoreAll());
+
+  // Answers the settings lookups with their defaults and hands the users
+  // queries to the given handlers
+  const mockQueries = (handlers: {
+    reserve: (params: any[]) => number;
+    read?: () => LoginProtectionUser[];
+  }) =>
+    mock.method(db, "query", async (text: string, params: any[] = []) => {
+      if (text.includes("system_settings")) {
+        return { rows: [], rowCount: 0 };
+      }
+      if (text.trimStart().startsWith("UPDATE users")) {
+        const rowCount = handlers.reserve(params);
+        return { rows: rowCount ? [{ id: params[0] }] : [], rowCount };
+      }
+      const rows = handlers.read?.() || [];
+      return { rows, rowCount: rows.length };
+    });
+
+  it("counts the attempt and lets it through", async () => {
+    const reserved: any[][] = [];
+    mockQueries({
+      reserve: (params) => {
+        reserved.push(params);
+        return 1;
+      },
+    });
+
+    assert.equal(await reserveLoginAttempt("7"), null);
+    // The default lockout threshold and duration
+    assert.deepEqual(reserved, [["7", 5, 15]]);
+  });
+
+  it("reports the lock when the attempt can't be counted", async () => {
+    const lockedUntil = new Date(Date.now() + 10 * 60 * 1000);
+    mockQueries({
+      reserve: () => 0,
+      read: () => [account({ id: "7", locked_until: lockedUntil })],
+    });
+
+    const block = await reserveLoginAttempt("7");
+    assert.equal(block?.reason, "locked");
+  });
+
+  it("turns the attempt down even if the block has just ended", async () => {
+    mockQueries({ reserve: () => 0, read: () => [account({ id: "7" })] });
+
+    const block = await reserveLoginAttempt("7");
+    assert.equal(block?.reason, "throttled");
+    assert.equal(block?.retryAfter, 1);
+  });
+
+  it("only lets as many parallel attempts through as the checks allow", async () => {
+    // The database applies the conditional update one row version at a time
+    const state = account({ id: "7" });
+    const threshold = 5;
+    mockQueries({
+      reserve: () => {
+        if (getAccountBlock(state)) return 0;
+        state.failed_login_attempts++;
+        state.last_failed_login_at = new Date();
+        if (state.failed_login_attempts >= threshold) {
+          state.failed_login_attempts = 0;
+          state.locked_until = new Date(Date.now() + 15 * 60 * 1000);
+        }
+        return 1;
+      },
+      read: () => [state],
+    });
+
+    const blocks = await Promise.all(
+      Array.from({ length: 10 }, () => reserveLoginAttempt("7"))
+    );
+
+    // Two free failures, then the third starts a delay the rest run into
+    assert.equal(blocks.filter((block) => block === null).length, 3);
+    assert.ok(
+      blocks.every((block) => block === null || block.reason === "throttled")
+    );
+  });
+});
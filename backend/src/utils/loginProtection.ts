@@ -0,0 +1,257 @@
+import { Request } from "express";
+import db from "../config/database";
+import { getLoginProtectionSettings } from "./systemSettings";
+
+export type LoginFailureReason =
+  | "invalid_credentials"
+  | "invalid_code"
+  | "email_unverified"
+  | "locked"
+  | "throttled"
+  | "ip_blocked"
+  | "password_disabled"
+  | "sso_denied"
+  | "deactivated";
+
+// The login state a user row needs for these checks
+export interface LoginProtectionUser {
+  id: string;
+  failed_login_attempts: number;
+  last_failed_login_at: Date | null;
+  locked_until: Date | null;
+}
+
+export interface LoginBlock {
+  reason: LoginFailureReason;
+  message: string;
+  // Seconds until the next attempt can succeed
+  retryAfter: number;
+}
+
+interface IpFailuresRow {
+  count: string;
+  oldest: Date | null;
+}
+
+// Failures that say someone is guessing, as opposed to e.g. attempts that
+// were turned away because the account was already locked
+const GUESS_REASONS: LoginFailureReason[] = [
+  "invalid_credentials",
+  "invalid_code",
+];
+
+// Failures in a row allowed without a delay, for typos
+const FREE_FAILURES = 2;
+// Failures that come after the password was found to be right
+const CORRECT_PASSWORD_REASONS: LoginFailureReason[] = [
+  "email_unverified",
+  "password_disabled",
+  "deactivated",
+];
+
+const MAX_DELAY_SECONDS = 60;
+
+/**
+ * How long to wait after a number of failures in a row: nothing for the
+ * first couple of typos, then 2, 4, 8... seconds
+ */
+const progressiveDelaySeconds = (failures: number): number =>
+  failures <= FREE_FAILURES
+    ? 0
+    : Math.min(2 ** (failures - FREE_FAILURES), MAX_DELAY_SECONDS);
+
+// progressiveDelaySeconds over a users row, for the reservation below
+const DELAY_SECONDS_SQL = `CASE WHEN failed_login_attempts <= ${FREE_FAILURES} THEN 0
+  ELSE LEAST(power(2, failed_login_attempts - ${FREE_FAILURES}), ${MAX_DELAY_SECONDS}) END`;
+
+const secondsUntil = (date: Date, now: Date): number =>
+  Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+
+/**
+ * Whether an account's lockout or progressive delay turns a login attempt
+ * down at a given time
+ * @param user - The account's login state
+ * @param now - The time of the attempt
+ * @returns Why the attempt is turned down, or null if it may go ahead
+ */
+export const getAccountBlock = (
+  user: LoginProtectionUser,
+  now: Date = new Date()
+): LoginBlock | null => {
+  if (user.locked_until && user.locked_until > now) {
+    return {
+      reason: "locked",
+      message:
+        "This account is locked after too many failed sign-in attempts. Try again later or ask an administrator to unlock it.",
+      retryAfter: secondsUntil(user.locked_until, now),
+    };
+  }
+
+  const delay = progressiveDelaySeconds(user.failed_login_attempts);
+  if (delay > 0 && user.last_failed_login_at) {
+    const nextAttemptAt = new Date(
+      user.last_failed_login_at.getTime() + delay * 1000
+    );
+    if (nextAttemptAt > now) {
+      const retryAfter = secondsUntil(nextAttemptAt, now);
+      return {
+        reason: "throttled",
+        message: `Too many failed sign-in attempts. Try again in ${retryAfter} seconds.`,
+        retryAfter,
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check whether a login attempt may go ahead, before looking at the
+ * credentials
+ * @param req - The login request, for its IP address
+ * @param user - The account being logged in to, if it exists
+ * @returns Why the attempt is turned down, or null if it may go ahead
+ */
+export const getLoginBlock = async (
+  req: Request,
+  user: LoginProtectionUser | null
+): Promise<LoginBlock | null> => {
+  const settings = await getLoginProtectionSettings();
+
+  if (settings.ipFailureLimit > 0 && req.ip) {
+    const result = await db.query<IpFailuresRow>(
+      `SELECT COUNT(*) as count, MIN(created_at) as oldest
+       FROM login_attempts
+       WHERE ip_address = $1 AND success = false AND reason = ANY($2)
+         AND created_at > NOW() - make_interval(mins => $3)`,
+      [req.ip, GUESS_REASONS, settings.ipFailureWindowMinutes]
+    );
+    const { count, oldest } = result.rows[0];
+
+    if (parseInt(count, 10) >= settings.ipFailureLimit && oldest) {
+      return {
+        reason: "ip_blocked",
+        message: "Too many failed sign-in attempts. Try again later.",
+        retryAfter: secondsUntil(
+          new Date(oldest.getTime() + settings.ipFailureWindowMinutes * 60000),
+          new Date()
+        ),
+      };
+    }
+  }
+
+  return user ? getAccountBlock(user) : null;
+};
+
+/**
+ * Count a login attempt as a failure before its password or code is checked,
+ * so parallel attempts can't all pass the lockout and delay checks before
+ * any of them fails. A successful login clears it again. The check and the
+ * count are one statement, so each attempt sees the ones before it.
+ * @param userId - The account being logged in to
+ * @returns Why the attempt is turned down, or null once it is counted
+ */
+export const reserveLoginAttempt = async (
+  userId: string
+): Promise<LoginBlock | null> => {
+  const settings = await getLoginProtectionSettings();
+  const reserved = await db.query(
+    `UPDATE users SET
+       failed_login_attempts = CASE WHEN $2 > 0 AND failed_login_attempts + 1 >= $2
+         THEN 0 ELSE failed_login_attempts + 1 END,
+       locked_until = CASE WHEN $2 > 0 AND failed_login_attempts + 1 >= $2
+         THEN NOW() + make_interval(mins => $3) ELSE locked_until END,
+       last_failed_login_at = NOW()
+     WHERE id = $1
+       AND (locked_until IS NULL OR locked_until <= NOW())
+       AND (last_failed_login_at IS NULL
+         OR last_failed_login_at + make_interval(secs => ${DELAY_SECONDS_SQL}) <= NOW())
+     RETURNING id`,
+    [userId, settings.lockoutThreshold, settings.lockoutDurationMinutes]
+  );
+  if ((reserved.rowCount ?? 0) > 0) {
+    return null;
+  }
+
+  // Turned down: report the block as it stands now
+  const result = await db.query<LoginProtectionUser>(
+    `SELECT id, failed_login_attempts, last_failed_login_at, locked_until
+     FROM users WHERE id = $1`,
+    [userId]
+  );
+  return (
+    (result.rows[0] && getAccountBlock(result.rows[0])) || {
+      reason: "throttled",
+      message: "Too many failed sign-in attempts. Try again in a moment.",
+      retryAfter: 1,
+    }
+  );
+};
+
+/**
+ * Record a login attempt for admins to review
+ */
+export const recordLoginAttempt = async (
+  req: Request,
+  email: string,
+  userId: string | null,
+  failureReason: LoginFailureReason | null
+): Promise<void> => {
+  await db.query(
+    `INSERT INTO login_attempts (email, user_id, ip_address, user_agent, success, reason)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [
+      email,
+      userId,
+      req.ip || null,
+      req.get("user-agent") || null,
+      failureReason === null,
+      failureReason,
+    ]
+  );
+};
+
+/**
+ * Record a failed login. Wrong passwords and codes were already counted
+ * towards the account's lockout by reserveLoginAttempt. A failure after the
+ * password checked out, e.g. an unverified email, gives that attempt back,
+ * since the attempt wasn't a guess.
+ */
+export const recordLoginFailure = async (
+  req: Request,
+  email: string,
+  userId: string | null,
+  reason: LoginFailureReason
+): Promise<void> => {
+  await recordLoginAttempt(req, email, userId, reason);
+
+  if (userId && CORRECT_PASSWORD_REASONS.includes(reason)) {
+    await unlockUser(userId);
+  }
+};
+
+/**
+ * Record a completed login and forget the account's earlier failures
+ */
+export const recordLoginSuccess = async (
+  req: Request,
+  user: { id: string; email: string }
+): Promise<void> => {
+  await recordLoginAttempt(req, user.email, user.id, null);
+  await unlockUser(user.id);
+};
+
+/**
+ * Lift an account's lockout and reset its failure count
+ * @returns False if the user doesn't exist
+ */
+export const unlockUser = async (userId: string): Promise<boolean> => {
+  const result = await db.query(
+    `UPDATE users
+     SET failed_login_attempts = 0, last_failed_login_at = NULL, locked_until = NULL
+     WHERE id = $1`,
+    [userId]
+  );
+
+  return (result.rowCount ?? 0) > 0;
+};
@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { sendSmtpMessage } from "./smtp";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(from: string, message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "OMW CRM <no-reply@omwcrm.local>";
+
+// Header values come from our own templates and validated emails, but never
+// let a line break through
+const headerValue = (value: string): string => value.replace(/[\r\n]+/g, " ");
+
+// Non-ASCII subjects need RFC 2047 encoding
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+// "Name <address>" -> "address"
+const bareAddress = (address: string): string =>
+  /<([^>]+)>/.exec(address)?.[1] || address;
+
+/**
+ * Render a message as RFC 5322 text, ready for SMTP or an .eml file
+ */
+const formatMessage = (from: string, message: MailMessage): string => {
+  const domain = bareAddress(from).split("@")[1] || "localhost";
+  const body = Buffer.from(message.text)
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+
+  return [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+};
+
+const createSmtpTransport = (): MailTransport => {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST not configured");
+  }
+
+  const options = {
+    host,
+    port: parseInt(process.env.SMTP_PORT || "587", 10),
+    secure: process.env.SMTP_SECURE === "true",
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+  };
+
+  return {
+    name: "smtp",
+    send: (from, message) =>
+      sendSmtpMessage(
+        options,
+        bareAddress(from),
+        message.to,
+        formatMessage(from, message)
+      ),
+  };
+};
+
+// Writes every message to an .eml file, for local development and testing
+const createFileTransport = (): MailTransport => {
+  const directory = path.resolve(process.env.MAIL_FILE_DIR || "mail");
+
+  return {
+    name: "file",
+    send: async (from, message) => {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const fileName = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.eml`;
+      await fs.promises.writeFile(
+        path.join(directory, fileName),
+        formatMessage(from, message)
+      );
+    },
+  };
+};
+
+const createConsoleTransport = (): MailTransport => ({
+  name: "console",
+  send: async (from, message) => {
+    console.log(
+      `📧 Mail to ${message.to}: ${message.subject}\n${message.text}`
+    );
+  },
+});
+
+const TRANSPORTS: Record<string, () => MailTransport> = {
+  smtp: createSmtpTransport,
+  file: createFileTransport,
+  console: createConsoleTransport,
+};
+
+let transport: MailTransport | null = null;
+
+/**
+ * The transport picked by MAIL_TRANSPORT ("smtp", "file" or "console").
+ * Defaults to SMTP when SMTP_HOST is set and to the console otherwise.
+ */
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    const name =
+      process.env.MAIL_TRANSPORT ||
+      (process.env.SMTP_HOST ? "smtp" : "console");
+    const createTransport = TRANSPORTS[name];
+    if (!createTransport) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+    }
+    transport = createTransport();
+  }
+  return transport;
+};
+
+/**
+ * Replace the mail transport, e.g. with one for another email service
+ */
+export const setMailTransport = (customTransport: MailTransport): void => {
+  transport = customTransport;
+};
+
+/**
+ * Send an email from MAIL_FROM
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getMailTransport().send(process.env.MAIL_FROM || DEFAULT_FROM, message);
+};
@@ -0,0 +1,407 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it, mock } from "node:test";
+import * as jwt from "jsonwebtoken";
+import db from "../config/database";
+import {
+  OidcClaims,
+  completeAuthorization,
+  createAuthorizationRequest,
+  isEmailVerified,
+  mapOidcRole,
+} from "./oidc";
+import { OidcSettings } from "./systemSettings";
+
+process.env.JWT_SECRET = "test-secret";
+
+const REDIRECT_URI = "http://crm.test/api/auth/oidc/callback";
+
+interface TokenOptions {
+  // Signs with a key the provider doesn't publish
+  forged?: boolean;
+  // Signs with the key the provider rotates to
+  rotated?: boolean;
+  nonce?: string;
+  audience?: string;
+}
+
+interface IssuedCode {
+  challenge: string;
+  nonce: string;
+  redirectUri: string;
+  clientId: string;
+  claims: Partial<OidcClaims>;
+  options: TokenOptions;
+}
+
+const generateKey = () =>
+  crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+/**
+ * A provider that issues codes for authorization URLs without a sign-in page
+ * and redeems them like a real one, checking the client and PKCE
+ */
+class MockProvider {
+  issuer = "";
+  clientId = "crm";
+  clientSecret = "s3cret";
+  rotated = false;
+
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private key = generateKey();
+  private nextKey = generateKey();
+  private forgedKey = generateKey();
+  private codes = new Map<string, IssuedCode>();
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  settings(overrides: Partial<OidcSettings> = {}): OidcSettings {
+    return {
+      enabled: true,
+      issuer: this.issuer,
+      clientId: this.clientId,
+      clientSecret: this.clientSecret,
+      buttonLabel: "Sign in with SSO",
+      autoProvision: true,
+      roleClaim: "",
+      adminValues: [],
+      ...overrides,
+    };
+  }
+
+  // What the browser comes back with after signing in at the URL
+  authorize(
+    authorizationUrl: string,
+    claims: Partial<OidcClaims> = {},
+    options: TokenOptions = {}
+  ): { code: string; state: string } {
+    const params = new URL(authorizationUrl).searchParams;
+    const code = crypto.randomBytes(8).toString("hex");
+    this.codes.set(code, {
+      challenge: params.get("code_challenge") || "",
+      nonce: params.get("nonce") || "",
+      redirectUri: params.get("redirect_uri") || "",
+      clientId: params.get("client_id") || "",
+      claims: { sub: "subject-1", ...claims },
+      options,
+    });
+    return { code, state: params.get("state") || "" };
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private publicJwk(key: crypto.KeyPairKeyObjectResult, kid: string) {
+    return { ...key.publicKey.export({ format: "jwk" }), kid, use: "sig" };
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const { pathname } = new URL(req.url || "/", this.issuer);
+
+    if (pathname === "/.well-known/openid-configuration") {
+      this.send(res, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+      });
+      return;
+    }
+
+    if (pathname === "/jwks") {
+      const keys = [this.publicJwk(this.key, "k1")];
+      if (this.rotated) keys.push(this.publicJwk(this.nextKey, "k2"));
+      this.send(res, 200, { keys });
+      return;
+    }
+
+    if (pathname === "/token") {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => this.redeem(req, res, new URLSearchParams(body)));
+      return;
+    }
+
+    this.send(res, 404, {});
+  }
+
+  private redeem(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    body: URLSearchParams
+  ) {
+    const credentials = Buffer.from(
+      (req.headers.authorization || "").replace(/^Basic /, ""),
+      "base64"
+    ).toString();
+    if (credentials !== `${this.clientId}:${this.clientSecret}`) {
+      this.send(res, 401, { error: "invalid_client" });
+      return;
+    }
+
+    const issued = this.codes.get(body.get("code") || "");
+    this.codes.delete(body.get("code") || "");
+    const challenge = crypto
+      .createHash("sha256")
+      .update(body.get("code_verifier") || "")
+      .digest("base64url");
+    if (
+      !issued ||
+      issued.challenge !== challenge ||
+      issued.redirectUri !== body.get("redirect_uri")
+    ) {
+      this.send(res, 400, { error: "invalid_grant" });
+      return;
+    }
+
+    const { options } = issued;
+    const key = options.forged
+      ? this.forgedKey
+      : options.rotated
+        ? this.nextKey
+        : this.key;
+    const idToken = jwt.sign(
+      { ...issued.claims, nonce: options.nonce ?? issued.nonce },
+      key.privateKey,
+      {
+        algorithm: "RS256",
+        keyid: options.rotated ? "k2" : "k1",
+        issuer: this.issuer,
+        audience: options.audience ?? issued.clientId,
+        expiresIn: 300,
+      }
+    );
+    this.send(res, 200, { token_type: "Bearer", id_token: idToken });
+  }
+}
+
+describe("OIDC login", () => {
+  const provider = new MockProvider();
+
+  before(() => provider.start());
+  after(() => provider.stop());
+
+  const startLogin = () =>
+    createAuthorizationRequest(provider.settings(), REDIRECT_URI);
+
+  describe("createAuthorizationRequest", () => {
+    it("asks for a code with PKCE and a fresh state and nonce", async () => {
+      const first = new URL((await startLogin()).url);
+      const second = new URL((await startLogin()).url);
+
+      assert.equal(
+        first.origin + first.pathname,
+        `${provider.issuer}/authorize`
+      );
+      assert.equal(first.searchParams.get("response_type"), "code");
+      assert.equal(first.searchParams.get("client_id"), "crm");
+      assert.equal(first.searchParams.get("redirect_uri"), REDIRECT_URI);
+      assert.equal(first.searchParams.get("code_challenge_method"), "S256");
+      for (const param of ["state", "nonce", "code_challenge"]) {
+        assert.ok(first.searchParams.get(param));
+        assert.notEqual(
+          first.searchParams.get(param),
+          second.searchParams.get(param)
+        );
+      }
+    });
+  });
+
+  describe("completeAuthorization", () => {
+    const finishLogin = async (
+      claims: Partial<OidcClaims> = {},
+      options: TokenOptions = {}
+    ) => {
+      const { url, loginState } = await startLogin();
+      return completeAuthorization(
+        provider.settings(),
+        REDIRECT_URI,
+        loginState,
+        provider.authorize(url, claims, options)
+      );
+    };
+
+    it("returns the claims of a verified ID token", async () => {
+      const claims = await finishLogin({ email: "ada@x.io" });
+      assert.equal(claims.sub, "subject-1");
+      assert.equal(claims.email, "ada@x.io");
+    });
+
+    it("needs the login state cookie", async () => {
+      const { url } = await startLogin();
+      await assert.rejects(
+        completeAuthorization(
+          provider.settings(),
+          REDIRECT_URI,
+          undefined,
+          provider.authorize(url)
+        ),
+        /No login in progress/
+      );
+    });
+
+    it("rejects a login state the server didn't sign", async () => {
+      const { url } = await startLogin();
+      const response = provider.authorize(url);
+      const forged = jwt.sign(
+        {
+          state: response.state,
+          nonce: "n",
+          codeVerifier: "v",
+          purpose: "oidc_login",
+        },
+        "another-secret"
+      );
+      await assert.rejects(
+        completeAuthorization(
+          provider.settings(),
+          REDIRECT_URI,
+          forged,
+          response
+        ),
+        /invalid signature/
+      );
+    });
+
+    it("rejects a response to another login", async () => {
+      const { loginState } = await startLogin();
+      const other = await startLogin();
+      await assert.rejects(
+        completeAuthorization(
+          provider.settings(),
+          REDIRECT_URI,
+          loginState,
+          provider.authorize(other.url)
+        ),
+        /does not match the login/
+      );
+    });
+
+    it("can't redeem a code without its code verifier", async () => {
+      // The state matches but the code was issued for another login's
+      // challenge, so the provider turns the verifier down
+      const { loginState, url } = await startLogin();
+      const other = await startLogin();
+      const { state } = provider.authorize(url);
+      const { code } = provider.authorize(other.url);
+      await assert.rejects(
+        completeAuthorization(provider.settings(), REDIRECT_URI, loginState, {
+          code,
+          state,
+        }),
+        /invalid_grant/
+      );
+    });
+
+    it("rejects an ID token with another nonce", async () => {
+      await assert.rejects(
+        finishLogin({}, { nonce: "replayed" }),
+        /nonce does not match/
+      );
+    });
+
+    it("rejects an ID token for another client", async () => {
+      await assert.rejects(
+        finishLogin({}, { audience: "other-client" }),
+        /audience invalid/
+      );
+    });
+
+    it("rejects an ID token not signed with the provider's keys", async () => {
+      await assert.rejects(
+        finishLogin({}, { forged: true }),
+        /invalid signature/
+      );
+    });
+
+    it("loads the keys again when the provider has rotated them", async () => {
+      await finishLogin();
+      provider.rotated = true;
+      const claims = await finishLogin({}, { rotated: true });
+      assert.equal(claims.sub, "subject-1");
+    });
+  });
+});
+
+describe("isEmailVerified", () => {
+  it("accepts the flag as a boolean or a string", () => {
+    assert.equal(isEmailVerified({ sub: "s", email_verified: true }), true);
+    assert.equal(isEmailVerified({ sub: "s", email_verified: "true" }), true);
+    assert.equal(isEmailVerified({ sub: "s", email_verified: false }), false);
+    assert.equal(isEmailVerified({ sub: "s" }), false);
+  });
+});
+
+describe("mapOidcRole", () => {
+  const ROLES = ["admin", "user", "manager"];
+
+  before(() => {
+    mock.method(db, "query", async (_text: string, params: any[] = []) => {
+      const rows = ROLES.includes(params[0]) ? [{ "?column?": 1 }] : [];
+      return { rows, rowCount: rows.length };
+    });
+  });
+  after(() => mock.restoreAll());
+
+  const settings = (overrides: Partial<OidcSettings> = {}): OidcSettings => ({
+    enabled: true,
+    issuer: "https://login.example.com",
+    clientId: "crm",
+    clientSecret: "",
+    buttonLabel: "Sign in with SSO",
+    autoProvision: true,
+    roleClaim: "realm_access.roles",
+    adminValues: ["crm-admins"],
+    ...overrides,
+  });
+
+  it("leaves roles alone without a role claim", async () => {
+    const claims = { sub: "s", realm_access: { roles: ["crm-admins"] } };
+    assert.equal(await mapOidcRole(settings({ roleClaim: "" }), claims), null);
+  });
+
+  it("makes users with an admin value admins", async () => {
+    const claims = {
+      sub: "s",
+      realm_access: { roles: ["staff", "crm-admins"] },
+    };
+    assert.equal(await mapOidcRole(settings(), claims), "admin");
+  });
+
+  it("gives users the role their claim names", async () => {
+    const claims = { sub: "s", realm_access: { roles: ["staff", "manager"] } };
+    assert.equal(await mapOidcRole(settings(), claims), "manager");
+  });
+
+  it("reads a claim with a single value", async () => {
+    const claims = { sub: "s", role: "user" };
+    assert.equal(
+      await mapOidcRole(settings({ roleClaim: "role" }), claims),
+      "user"
+    );
+  });
+
+  it("leaves the role alone when the claim names no known role", async () => {
+    const claims = { sub: "s", realm_access: { roles: ["staff", 3] } };
+    assert.equal(await mapOidcRole(settings(), claims), null);
+    assert.equal(await mapOidcRole(settings(), { sub: "s" }), null);
+  });
+
+  it("only grants admin through the admin values", async () => {
+    const claims = { sub: "s", realm_access: { roles: ["admin"] } };
+    assert.equal(await mapOidcRole(settings(), claims), null);
+  });
+});
@@ -0,0 +1,326 @@
+import crypto from "crypto";
+import * as jwt from "jsonwebtoken";
+import { ADMIN_ROLE, roleExists } from "./permissions";
+import { OidcSettings } from "./systemSettings";
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+interface ProviderKey extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+interface Provider {
+  metadata: ProviderMetadata;
+  keys: ProviderKey[];
+  loadedAt: number;
+}
+
+interface TokenResponse {
+  id_token?: string;
+}
+
+// What the login remembers between sending the browser to the provider and
+// it coming back
+interface LoginStatePayload {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  purpose: string;
+}
+
+export interface OidcClaims extends jwt.JwtPayload {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+  nonce?: string;
+}
+
+export interface AuthorizationRequest {
+  url: string;
+  // Goes in the OIDC_STATE_COOKIE until the provider redirects back
+  loginState: string;
+}
+
+export interface AuthorizationResponse {
+  code?: string;
+  state?: string;
+}
+
+export const OIDC_STATE_COOKIE = "oidc_login";
+export const OIDC_STATE_MAX_AGE_MS = 10 * 60 * 1000;
+
+const LOGIN_STATE_PURPOSE = "oidc_login";
+const PROVIDER_MAX_AGE_MS = 60 * 60 * 1000;
+const SCOPES = "openid email profile";
+const SIGNING_ALGORITHMS: jwt.Algorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+];
+
+// Discovery documents and signing keys, by issuer
+const providers = new Map<string, Provider>();
+
+const getJwtSecret = (): string => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error("JWT_SECRET not configured");
+  }
+  return jwtSecret;
+};
+
+const randomToken = (): string => crypto.randomBytes(32).toString("base64url");
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(
+      `${url} responded with ${response.status}: ${await response.text()}`
+    );
+  }
+  return (await response.json()) as T;
+};
+
+/**
+ * Load the provider's discovery document and signing keys, reusing them for
+ * an hour
+ * @param reload - Load them again even if they are fresh, e.g. when the
+ * provider signed a token with a key we don't know yet
+ */
+const getProvider = async (
+  issuer: string,
+  reload = false
+): Promise<Provider> => {
+  const cached = providers.get(issuer);
+  if (cached && !reload && Date.now() - cached.loadedAt < PROVIDER_MAX_AGE_MS) {
+    return cached;
+  }
+
+  const baseUrl = issuer.replace(/\/+$/, "");
+  const metadata = await fetchJson<ProviderMetadata>(
+    `${baseUrl}/.well-known/openid-configuration`
+  );
+  if (metadata.issuer.replace(/\/+$/, "") !== baseUrl) {
+    throw new Error(
+      `Provider at ${issuer} identifies itself as ${metadata.issuer}`
+    );
+  }
+  const { keys } = await fetchJson<{ keys: ProviderKey[] }>(metadata.jwks_uri);
+
+  const provider = { metadata, keys, loadedAt: Date.now() };
+  providers.set(issuer, provider);
+  return provider;
+};
+
+const findSigningKey = (
+  provider: Provider,
+  kid: string | undefined
+): ProviderKey | undefined =>
+  provider.keys.find(
+    (key) => key.use !== "enc" && (kid === undefined || key.kid === kid)
+  );
+
+/**
+ * Start a login: the URL of the provider's sign-in page, using the
+ * authorization code flow with PKCE, and the state to check its answer with
+ * @param settings - The SSO configuration
+ * @param redirectUri - Where the provider sends the browser back to
+ */
+export const createAuthorizationRequest = async (
+  settings: OidcSettings,
+  redirectUri: string
+): Promise<AuthorizationRequest> => {
+  const { metadata } = await getProvider(settings.issuer);
+
+  const payload: LoginStatePayload = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    purpose: LOGIN_STATE_PURPOSE,
+  };
+  const codeChallenge = crypto
+    .createHash("sha256")
+    .update(payload.codeVerifier)
+    .digest("base64url");
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", settings.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", SCOPES);
+  url.searchParams.set("state", payload.state);
+  url.searchParams.set("nonce", payload.nonce);
+  url.searchParams.set("code_challenge", codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return {
+    url: url.toString(),
+    loginState: (jwt.sign as any)(payload, getJwtSecret(), {
+      expiresIn: OIDC_STATE_MAX_AGE_MS / 1000,
+    }),
+  };
+};
+
+/**
+ * Finish a login: check the provider's answer against the state from
+ * createAuthorizationRequest, redeem the code and verify the ID token
+ * @param settings - The SSO configuration
+ * @param redirectUri - The redirect URI the login was started with
+ * @param loginState - The state from the OIDC_STATE_COOKIE
+ * @param response - The query parameters the provider redirected back with
+ * @returns The claims of the verified ID token
+ */
+export const completeAuthorization = async (
+  settings: OidcSettings,
+  redirectUri: string,
+  loginState: string | undefined,
+  response: AuthorizationResponse
+): Promise<OidcClaims> => {
+  if (!loginState) {
+    throw new Error("No login in progress");
+  }
+  const expected = jwt.verify(loginState, getJwtSecret()) as LoginStatePayload;
+  if (expected.purpose !== LOGIN_STATE_PURPOSE) {
+    throw new Error("Invalid login state");
+  }
+  if (!response.code || response.state !== expected.state) {
+    throw new Error("Provider response does not match the login");
+  }
+
+  let provider = await getProvider(settings.issuer);
+  const { metadata } = provider;
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: response.code,
+    redirect_uri: redirectUri,
+    code_verifier: expected.codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+
+  // Providers that don't list client_secret_basic, the default, get the
+  // credentials in the body instead
+  const authMethods = metadata.token_endpoint_auth_methods_supported;
+  if (!settings.clientSecret) {
+    body.set("client_id", settings.clientId);
+  } else if (
+    authMethods &&
+    !authMethods.includes("client_secret_basic") &&
+    authMethods.includes("client_secret_post")
+  ) {
+    body.set("client_id", settings.clientId);
+    body.set("client_secret", settings.clientSecret);
+  } else {
+    const credentials = `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  const tokens = await fetchJson<TokenResponse>(metadata.token_endpoint, {
+    method: "POST",
+    headers,
+    body,
+  });
+  if (!tokens.id_token) {
+    throw new Error("Provider returned no ID token");
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  if (!decoded) {
+    throw new Error("Provider returned a malformed ID token");
+  }
+
+  let key = findSigningKey(provider, decoded.header.kid);
+  if (!key) {
+    provider = await getProvider(settings.issuer, true);
+    key = findSigningKey(provider, decoded.header.kid);
+  }
+  if (!key) {
+    throw new Error(`No signing key ${decoded.header.kid} at the provider`);
+  }
+
+  const claims = jwt.verify(
+    tokens.id_token,
+    crypto.createPublicKey({ key, format: "jwk" }),
+    {
+      algorithms: SIGNING_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: settings.clientId,
+    }
+  ) as OidcClaims;
+
+  if (claims.nonce !== expected.nonce) {
+    throw new Error("ID token nonce does not match the login");
+  }
+  if (!claims.sub) {
+    throw new Error("ID token has no subject");
+  }
+
+  return claims;
+};
+
+/**
+ * Whether the provider vouches for the user's email address. Some providers
+ * send the flag as a string.
+ */
+export const isEmailVerified = (claims: OidcClaims): boolean =>
+  claims.email_verified === true || claims.email_verified === "true";
+
+/**
+ * The role the provider gives a user, from the configured role claim. The
+ * claim may be nested, e.g. "realm_access.roles", and hold one value or a
+ * list of them. One of the admin values makes the user an admin, otherwise
+ * a value that names an existing role gives them that role.
+ * @returns Null when roles aren't managed by the provider or the claim names
+ * no known role, so the user keeps the one they have
+ */
+export const mapOidcRole = async (
+  settings: OidcSettings,
+  claims: OidcClaims
+): Promise<string | null> => {
+  if (!settings.roleClaim) {
+    return null;
+  }
+
+  const claim = settings.roleClaim
+    .split(".")
+    .reduce<unknown>(
+      (value, name) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[name]
+          : undefined,
+      claims
+    );
+  const values = (Array.isArray(claim) ? claim : [claim]).filter(
+    (value): value is string => typeof value === "string"
+  );
+
+  if (values.some((value) => settings.adminValues.includes(value))) {
+    return ADMIN_ROLE;
+  }
+  // Admin is only ever granted through the admin values
+  for (const value of values) {
+    if (value !== ADMIN_ROLE && (await roleExists(value))) {
+      return value;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,211 @@
+import { PoolClient } from "pg";
+import db from "../config/database";
+import { recordVisibility } from "./visibility";
+
+interface RollupDealRow {
+  root_id: string;
+  open_pipeline: string;
+  open_deal_count: string;
+  won_revenue: string;
+}
+
+interface RollupContactRow {
+  root_id: string;
+  contact_count: string;
+}
+
+interface RollupActivityRow {
+  root_id: string;
+  last_activity_at: Date | null;
+}
+
+// Figures for an organization and all its subsidiaries, counting only the
+// records the user can see
+export interface OrganizationRollup {
+  openPipeline: number;
+  openDealCount: number;
+  wonRevenue: number;
+  contactCount: number;
+  lastActivityAt: Date | null;
+}
+
+/**
+ * SQL selecting the ids of an organization and every organization below it.
+ * UNION rather than UNION ALL, so a cycle that slipped in still ends.
+ * @param idParam - The placeholder holding the organization's id, e.g. "$2"
+ */
+export const subsidiaryIdsSql = (idParam: string): string =>
+  `WITH RECURSIVE subtree AS (
+     SELECT id FROM companies WHERE id = ${idParam}
+     UNION
+     SELECT c.id FROM companies c JOIN subtree ON c.parent_id = subtree.id
+   )
+   SELECT id FROM subtree`;
+
+/**
+ * SQL matching records of an organization, or of it and its subsidiaries,
+ * for the companyId filters of the list and export endpoints
+ * @param column - The record's company column, e.g. "d.company_id"
+ * @param idParam - The placeholder holding the organization's id
+ * @param includeSubsidiaries - Whether organizations below it match too
+ */
+export const companyFilterSql = (
+  column: string,
+  idParam: string,
+  includeSubsidiaries?: boolean
+): string =>
+  includeSubsidiaries
+    ? `${column} IN (${subsidiaryIdsSql(idParam)})`
+    : `${column} = ${idParam}`;
+
+/**
+ * SQL selecting the ids of an organization and every organization above it.
+ * UNION rather than UNION ALL, so a cycle that slipped in still ends.
+ * @param idParam - The placeholder holding the organization's id
+ */
+const ancestorIdsSql = (idParam: string): string =>
+  `WITH RECURSIVE ancestors AS (
+     SELECT id, parent_id FROM companies WHERE id = ${idParam}
+     UNION
+     SELECT c.id, c.parent_id FROM companies c
+     JOIN ancestors ON c.id = ancestors.parent_id
+   )
+   SELECT id FROM ancestors`;
+
+/**
+ * Lock an organization and everything above its new parent until the
+ * transaction ends. Two moves that could close a loop between them share a
+ * row, so the second waits and then checks against the first's result.
+ * @param client - The transaction's client
+ * @param organizationId - The organization being moved
+ * @param parentId - The parent it would move under
+ */
+export const lockForMove = async (
+  client: PoolClient,
+  organizationId: string | number,
+  parentId: string | number
+): Promise<void> => {
+  await client.query(
+    `SELECT id FROM companies
+     WHERE id = $1 OR id IN (${ancestorIdsSql("$2")})
+     ORDER BY id
+     FOR UPDATE`,
+    [organizationId, parentId]
+  );
+};
+
+/**
+ * Whether an organization is the same as or above another one, i.e. whether
+ * making the first a subsidiary of the second would close a loop. Run it
+ * after lockForMove, in the same transaction.
+ * @param client - The transaction's client
+ * @param organizationId - The organization being moved
+ * @param parentId - The parent it would move under
+ */
+export const isSameOrAncestor = async (
+  client: PoolClient,
+  organizationId: string | number,
+  parentId: string | number
+): Promise<boolean> => {
+  const result = await client.query(
+    `SELECT 1 FROM (${ancestorIdsSql("$2")}) ancestors WHERE id = $1`,
+    [organizationId, parentId]
+  );
+  return result.rows.length > 0;
+};
+
+/**
+ * Total open pipeline, won revenue, current contacts and the last activity
+ * across each organization's subtree. A contact with roles at several
+ * organizations of one subtree is counted once.
+ * @param organizationIds - The organizations to roll up
+ * @param userId - The user whose visible records are counted
+ */
+export const getOrganizationRollups = async (
+  organizationIds: (string | number)[],
+  userId: string
+): Promise<Map<string, OrganizationRollup>> => {
+  const rollups = new Map<string, OrganizationRollup>(
+    organizationIds.map((id) => [
+      String(id),
+      {
+        openPipeline: 0,
+        openDealCount: 0,
+        wonRevenue: 0,
+        contactCount: 0,
+        lastActivityAt: null,
+      },
+    ])
+  );
+  if (organizationIds.length === 0) return rollups;
+
+  // Every organization in each root's subtree, tagged with the root
+  const tree = `WITH RECURSIVE tree AS (
+      SELECT id AS root_id, id FROM companies WHERE id = ANY($1::int[])
+      UNION
+      SELECT tree.root_id, c.id FROM companies c JOIN tree ON c.parent_id = tree.id
+    )`;
+  const ids = organizationIds.map(Number);
+  const deals = recordVisibility("deal", "d", "$2");
+  const contacts = recordVisibility("contact", "ct", "$2");
+  const activities = recordVisibility("activity", "a", "$2");
+
+  const [dealResult, contactResult, activityResult] = await Promise.all([
+    db.query<RollupDealRow>(
+      `${tree}
+       SELECT tree.root_id,
+         COALESCE(SUM(d.value) FILTER (WHERE ds.kind = 'open'), 0) as open_pipeline,
+         COUNT(*) FILTER (WHERE ds.kind = 'open') as open_deal_count,
+         COALESCE(SUM(d.value) FILTER (WHERE ds.kind = 'won'), 0) as won_revenue
+       FROM tree
+       JOIN deals d ON d.company_id = tree.id
+       LEFT JOIN deal_stages ds ON d.stage_id = ds.id
+       ${deals.joins}
+       WHERE ${deals.condition}
+       GROUP BY tree.root_id`,
+      [ids, userId]
+    ),
+    db.query<RollupContactRow>(
+      `${tree}
+       SELECT tree.root_id, COUNT(DISTINCT ct.id) as contact_count
+       FROM tree
+       JOIN contact_organizations co ON co.company_id = tree.id AND co.is_current
+       JOIN contacts ct ON co.contact_id = ct.id
+       ${contacts.joins}
+       WHERE ${contacts.condition}
+       GROUP BY tree.root_id`,
+      [ids, userId]
+    ),
+    // Activities planned for later haven't happened yet
+    db.query<RollupActivityRow>(
+      `${tree}
+       SELECT tree.root_id,
+         MAX(COALESCE(a.due_date, a.created_at)) as last_activity_at
+       FROM tree
+       JOIN activities a ON a.company_id = tree.id
+       ${activities.joins}
+       WHERE ${activities.condition}
+         AND COALESCE(a.due_date, a.created_at) <= CURRENT_TIMESTAMP
+       GROUP BY tree.root_id`,
+      [ids, userId]
+    ),
+  ]);
+
+  dealResult.rows.forEach((row) => {
+    const rollup = rollups.get(String(row.root_id))!;
+    rollup.openPipeline = parseFloat(row.open_pipeline);
+    rollup.openDealCount = parseInt(row.open_deal_count, 10);
+    rollup.wonRevenue = parseFloat(row.won_revenue);
+  });
+  contactResult.rows.forEach((row) => {
+    rollups.get(String(row.root_id))!.contactCount = parseInt(
+      row.contact_count,
+      10
+    );
+  });
+  activityResult.rows.forEach((row) => {
+    rollups.get(String(row.root_id))!.lastActivityAt = row.last_activity_at;
+  });
+
+  return rollups;
+};
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import db from "../config/database";
+import { Permission, User } from "../types";
+import { canAssignRole, grantedPermissions } from "./permissions";
+
+describe("grantedPermissions", () => {
+  it("keeps known permissions in their usual order", () => {
+    assert.deepEqual(
+      grantedPermissions(["can_export", "can_edit_records", "can_fly"]),
+      ["can_edit_records", "can_export"]
+    );
+  });
+
+  it("grants nothing without stored permissions", () => {
+    assert.deepEqual(grantedPermissions(null), []);
+    assert.deepEqual(grantedPermissions(undefined), []);
+  });
+});
+
+describe("canAssignRole", () => {
+  const ROLES: Record<string, Permission[]> = {
+    user: ["can_edit_records"],
+    manager: ["can_edit_records", "can_view_all_records"],
+  };
+
+  before(() => {
+    mock.method(db, "query", async (_text: string, params: any[] = []) => {
+      const rows = ROLES[params[0]] ? [{ permissions: ROLES[params[0]] }] : [];
+      return { rows, rowCount: rows.length };
+    });
+  });
+  after(() => mock.restoreAll());
+
+  const user = (role: string, permissions: Permission[]) =>
+    ({ id: "1", role, permissions }) as User;
+
+  it("lets admins hand out any role", async () => {
+    const admin = user("admin", []);
+    assert.equal(await canAssignRole(admin, "admin"), true);
+    assert.equal(await canAssignRole(admin, "manager"), true);
+  });
+
+  it("keeps the admin role to admins", async () => {
+    const lead = user("lead", ["can_manage_users", "can_manage_settings"]);
+    assert.equal(await canAssignRole(lead, "admin"), false);
+  });
+
+  it("only lets others hand out permissions they hold", async () => {
+    const lead = user("lead", ["can_manage_users", "can_edit_records"]);
+    assert.equal(await canAssignRole(lead, "user"), true);
+    assert.equal(await canAssignRole(lead, "manager"), false);
+    assert.equal(
+      await canAssignRole(
+        user("lead", ["can_edit_records", "can_view_all_records"]),
+        "manager"
+      ),
+      true
+    );
+  });
+});
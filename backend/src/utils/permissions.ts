@@ -0,0 +1,81 @@
+import db from "../config/database";
+import { Permission, Role, User } from "../types";
+
+// Every permission a role can hold, in the order admins see them
+export const PERMISSIONS: Permission[] = [
+  "can_edit_records",
+  "can_delete_contacts",
+  "can_delete_organizations",
+  "can_delete_deals",
+  "can_delete_activities",
+  "can_view_all_records",
+  "can_import",
+  "can_export",
+  "can_manage_stages",
+  "can_manage_users",
+  "can_manage_settings",
+  "can_view_audit_log",
+];
+
+// Holds every permission but can_view_all_records and can't be changed, so
+// there is always a way back into the admin panel. Reading other users'
+// private records takes a role created for it, like manager.
+export const ADMIN_ROLE = "admin";
+
+// Given to new users unless they are invited or provisioned with another role
+export const DEFAULT_ROLE = "user";
+
+/**
+ * The permissions a user's role grants, leaving out any that no longer exist
+ */
+export const grantedPermissions = (
+  stored: string[] | null | undefined
+): Permission[] =>
+  PERMISSIONS.filter((permission) => stored?.includes(permission));
+
+export const formatRole = (role: Role & { user_count?: string }) => ({
+  name: role.name,
+  label: role.label,
+  description: role.description,
+  permissions: grantedPermissions(role.permissions),
+  isSystem: role.is_system,
+  userCount: parseInt(role.user_count || "0", 10),
+  created_at: role.created_at,
+  updated_at: role.updated_at,
+});
+
+/**
+ * Whether users can be given a role with this name
+ */
+export const roleExists = async (name: string): Promise<boolean> => {
+  const result = await db.query("SELECT 1 FROM roles WHERE name = $1", [name]);
+  return result.rows.length > 0;
+};
+
+/**
+ * The permissions of a role, for login responses made before the request
+ * has a user
+ */
+export const rolePermissions = async (role: string): Promise<Permission[]> => {
+  const result = await db.query<Pick<Role, "permissions">>(
+    "SELECT permissions FROM roles WHERE name = $1",
+    [role]
+  );
+  return grantedPermissions(result.rows[0]?.permissions);
+};
+
+/**
+ * Whether a user may give someone a role. Only admins hand out the admin
+ * role, and other users only roles with no permission they don't hold.
+ */
+export const canAssignRole = async (
+  user: User,
+  role: string
+): Promise<boolean> => {
+  if (user.role === ADMIN_ROLE) return true;
+  if (role === ADMIN_ROLE) return false;
+
+  const granted = user.permissions || [];
+  const permissions = await rolePermissions(role);
+  return permissions.every((permission) => granted.includes(permission));
+};
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { Request, Response } from "express";
+import * as jwt from "jsonwebtoken";
+import db from "../config/database";
+import {
+  ACCESS_TOKEN_COOKIE,
+  AccessTokenPayload,
+  REFRESH_TOKEN_COOKIE,
+  refreshSession,
+  startSession,
+} from "./sessions";
+
+process.env.JWT_SECRET = "test-secret";
+
+interface FakeSession {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  revoked: boolean;
+}
+
+const USER = { id: "4", email: "ada@x.io" };
+
+describe("sessions", () => {
+  let sessions: FakeSession[];
+  // Refresh token hashes that were exchanged, and their session
+  let rotated: Map<string, string>;
+
+  // Just the statements sessions.ts runs, on the tables above
+  const query = async (text: string, params: any[] = []) => {
+    const result = (rows: any[]) => ({ rows, rowCount: rows.length });
+    const sql = text.replace(/\s+/g, " ").trim();
+
+    if (sql.startsWith("INSERT INTO sessions")) {
+      const session = {
+        id: String(sessions.length + 1),
+        user_id: params[0],
+        refresh_token_hash: params[1],
+        revoked: false,
+      };
+      sessions.push(session);
+      return result([{ id: session.id }]);
+    }
+    if (sql.startsWith("UPDATE sessions s SET refresh_token_hash")) {
+      const session = sessions.find(
+        (row) => row.refresh_token_hash === params[0] && !row.revoked
+      );
+      if (!session) return result([]);
+      session.refresh_token_hash = params[1];
+      return result([
+        { id: session.id, user_id: session.user_id, email: USER.email },
+      ]);
+    }
+    if (sql.startsWith("INSERT INTO rotated_refresh_tokens")) {
+      rotated.set(params[0], params[1]);
+      return result([]);
+    }
+    if (sql.includes("FROM rotated_refresh_tokens")) {
+      const revoked = sessions.filter(
+        (row) => row.id === rotated.get(params[0]) && !row.revoked
+      );
+      revoked.forEach((row) => (row.revoked = true));
+      return result(revoked);
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  beforeEach(() => {
+    sessions = [];
+    rotated = new Map();
+    mock.method(db, "query", query);
+    mock.method(db, "transaction", async (fn: (client: any) => unknown) =>
+      fn({ query })
+    );
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  // A request from the browser holding the given refresh token, and the
+  // cookies the response sets
+  const exchange = (refreshToken?: string) => {
+    const cookies: Record<string, string> = {};
+    const req = {
+      cookies: refreshToken ? { [REFRESH_TOKEN_COOKIE]: refreshToken } : {},
+      ip: "127.0.0.1",
+      get: () => "test-agent",
+    } as unknown as Request;
+    const res = {
+      cookie: (name: string, value: string) => {
+        cookies[name] = value;
+      },
+    } as unknown as Response;
+    return { req, res, cookies };
+  };
+
+  const login = async (): Promise<string> => {
+    const { req, res, cookies } = exchange();
+    await startSession(req, res, USER);
+    return cookies[REFRESH_TOKEN_COOKIE];
+  };
+
+  const refresh = async (refreshToken?: string) => {
+    const { req, res, cookies } = exchange(refreshToken);
+    const refreshed = await refreshSession(req, res);
+    return { refreshed, refreshToken: cookies[REFRESH_TOKEN_COOKIE], cookies };
+  };
+
+  describe("startSession", () => {
+    it("sets an access token naming the session, and a refresh token", async () => {
+      const { req, res, cookies } = exchange();
+      await startSession(req, res, USER);
+
+      const payload = jwt.verify(
+        cookies[ACCESS_TOKEN_COOKIE],
+        "test-secret"
+      ) as AccessTokenPayload;
+      assert.equal(payload.userId, USER.id);
+      assert.equal(payload.sessionId, "1");
+      assert.ok(cookies[REFRESH_TOKEN_COOKIE]);
+      // Only the hash is stored
+      assert.notEqual(
+        sessions[0].refresh_token_hash,
+        cookies[REFRESH_TOKEN_COOKIE]
+      );
+    });
+  });
+
+  describe("refreshSession", () => {
+    it("needs a refresh token", async () => {
+      assert.equal((await refresh()).refreshed, false);
+    });
+
+    it("swaps the refresh token for a new one", async () => {
+      const first = await login();
+      const { refreshed, refreshToken, cookies } = await refresh(first);
+
+      assert.equal(refreshed, true);
+      assert.ok(refreshToken);
+      assert.notEqual(refreshToken, first);
+      assert.ok(cookies[ACCESS_TOKEN_COOKIE]);
+      assert.equal((await refresh(refreshToken)).refreshed, true);
+    });
+
+    it("turns down unknown refresh tokens", async () => {
+      await login();
+      assert.equal((await refresh("made-up")).refreshed, false);
+      assert.equal(sessions[0].revoked, false);
+    });
+
+    it("revokes the session when an exchanged token comes back", async () => {
+      const first = await login();
+      const second = (await refresh(first)).refreshToken;
+      const third = (await refresh(second)).refreshToken;
+
+      // Whoever used the token first may have stolen it, so neither copy
+      // keeps working
+      assert.equal((await refresh(first)).refreshed, false);
+      assert.equal(sessions[0].revoked, true);
+      assert.equal((await refresh(third)).refreshed, false);
+    });
+
+    it("leaves the user's other sessions alone", async () => {
+      const first = await login();
+      const other = await login();
+      await refresh(first);
+      await refresh(first);
+
+      assert.equal(sessions[1].revoked, false);
+      assert.equal((await refresh(other)).refreshed, true);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import crypto from "crypto";
+import * as jwt from "jsonwebtoken";
+import { Request, Response, CookieOptions } from "express";
+import db from "../config/database";
+import { SessionAuthMethod } from "../types";
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  email: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  authMethod: SessionAuthMethod;
+}
+
+export interface AccessTokenPayload {
+  userId: string;
+  email: string;
+  sessionId: string;
+}
+
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "15m";
+const REFRESH_TOKEN_DAYS = parseInt(
+  process.env.REFRESH_TOKEN_EXPIRES_DAYS || "30",
+  10
+);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ACCESS_TOKEN_COOKIE = "token";
+export const REFRESH_TOKEN_COOKIE = "refresh_token";
+
+const cookieOptions = (): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production", // Use HTTPS in production
+  sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
+});
+
+// The refresh token is only ever needed by the auth routes
+const refreshCookieOptions = (): CookieOptions => ({
+  ...cookieOptions(),
+  path: "/api/auth",
+});
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const setSessionCookies = (
+  res: Response,
+  session: SessionRow,
+  refreshToken: string
+): void => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error("JWT_SECRET not configured");
+  }
+
+  const payload: AccessTokenPayload = {
+    userId: session.user_id,
+    email: session.email,
+    sessionId: session.id,
+  };
+  const accessToken = (jwt.sign as any)(payload, jwtSecret, {
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+  });
+
+  // The cookie outlives the access token so an expired token is reported
+  // as expired, prompting the client to refresh
+  res.cookie(ACCESS_TOKEN_COOKIE, accessToken, {
+    ...cookieOptions(),
+    maxAge: REFRESH_TOKEN_DAYS * DAY_MS,
+  });
+  res.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+    ...refreshCookieOptions(),
+    maxAge: REFRESH_TOKEN_DAYS * DAY_MS,
+  });
+};
+
+/**
+ * Start a session for a user who just logged in and set its cookies
+ * @param req - The login request, for the device details
+ * @param res - The response to set the cookies on
+ * @param user - The user logging in
+ * @param authMethod - How the user proved who they are
+ */
+export const startSession = async (
+  req: Request,
+  res: Response,
+  user: { id: string; email: string },
+  authMethod: SessionAuthMethod = "password"
+): Promise<void> => {
+  const refreshToken = crypto.randomBytes(32).toString("hex");
+
+  const result = await db.query<{ id: string }>(
+    `INSERT INTO sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at, auth_method)
+     VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5), $6)
+     RETURNING id`,
+    [
+      user.id,
+      hashToken(refreshToken),
+      req.get("user-agent") || null,
+      req.ip || null,
+      REFRESH_TOKEN_DAYS,
+      authMethod,
+    ]
+  );
+
+  setSessionCookies(
+    res,
+    { id: result.rows[0].id, user_id: user.id, email: user.email },
+    refreshToken
+  );
+};
+
+/**
+ * Exchange the request's refresh token for a new access and refresh token.
+ * The old refresh token stops working, and using it again revokes the
+ * session, since whoever used it first may have stolen it.
+ * @returns False when the refresh token is missing, unknown, expired or revoked
+ */
+export const refreshSession = async (
+  req: Request,
+  res: Response
+): Promise<boolean> => {
+  const currentToken: string | undefined = req.cookies?.[REFRESH_TOKEN_COOKIE];
+  if (!currentToken) {
+    return false;
+  }
+
+  const currentHash = hashToken(currentToken);
+  const refreshToken = crypto.randomBytes(32).toString("hex");
+
+  const session = await db.transaction(async (client) => {
+    const result = await client.query<SessionRow>(
+      `UPDATE sessions s
+       SET refresh_token_hash = $2, last_used_at = NOW(), user_agent = $3, ip_address = $4
+       FROM users u
+       WHERE s.refresh_token_hash = $1 AND u.id = s.user_id
+         AND s.revoked_at IS NULL AND s.expires_at > NOW()
+       RETURNING s.id, s.user_id, u.email`,
+      [
+        currentHash,
+        hashToken(refreshToken),
+        req.get("user-agent") || null,
+        req.ip || null,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      await client.query(
+        `UPDATE sessions SET revoked_at = NOW()
+         WHERE revoked_at IS NULL AND id = (
+           SELECT session_id FROM rotated_refresh_tokens WHERE token_hash = $1
+         )`,
+        [currentHash]
+      );
+      return undefined;
+    }
+
+    await client.query(
+      "INSERT INTO rotated_refresh_tokens (token_hash, session_id) VALUES ($1, $2)",
+      [currentHash, result.rows[0].id]
+    );
+    return result.rows[0];
+  });
+
+  if (!session) {
+    return false;
+  }
+
+  setSessionCookies(res, session, refreshToken);
+  return true;
+};
+
+/**
+ * Revoke the session the request's refresh token belongs to, if any
+ */
+export const revokeCurrentSession = async (req: Request): Promise<void> => {
+  const currentToken: string | undefined = req.cookies?.[REFRESH_TOKEN_COOKIE];
+  if (!currentToken) {
+    return;
+  }
+
+  await db.query(
+    "UPDATE sessions SET revoked_at = NOW() WHERE refresh_token_hash = $1 AND revoked_at IS NULL",
+    [hashToken(currentToken)]
+  );
+};
+
+/**
+ * Revoke every active session of a user
+ * @param userId - The user to log out everywhere
+ * @param exceptSessionId - A session to keep, usually the current one
+ */
+export const revokeUserSessions = async (
+  userId: string,
+  exceptSessionId?: string
+): Promise<void> => {
+  await db.query(
+    `UPDATE sessions SET revoked_at = NOW()
+     WHERE user_id = $1 AND revoked_at IS NULL AND ($2::int IS NULL OR id <> $2)`,
+    [userId, exceptSessionId || null]
+  );
+};
+
+/**
+ * Look up a session of the user that has not been revoked or expired
+ * @returns Null if there is no such session
+ */
+export const findActiveSession = async (
+  sessionId: string,
+  userId: string
+): Promise<ActiveSession | null> => {
+  const result = await db.query<{ id: string; auth_method: SessionAuthMethod }>(
+    `SELECT id, auth_method FROM sessions
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL AND expires_at > NOW()`,
+    [sessionId, userId]
+  );
+
+  const session = result.rows[0];
+  return session ? { id: session.id, authMethod: session.auth_method } : null;
+};
+
+export const clearSessionCookies = (res: Response): void => {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, cookieOptions());
+  res.clearCookie(REFRESH_TOKEN_COOKIE, refreshCookieOptions());
+};
@@ -0,0 +1,209 @@
+import net from "net";
+import tls from "tls";
+import os from "os";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Connect with TLS right away (usually port 465) instead of upgrading
+  // the connection with STARTTLS when the server offers it
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+interface SmtpResponse {
+  code: number;
+  text: string;
+}
+
+const TIMEOUT_MS = 30 * 1000;
+
+// A minimal SMTP client: one connection per message, which is plenty for
+// the handful of account emails the app sends
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = "";
+  private lines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiting: {
+    resolve: (response: SmtpResponse) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private error: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach();
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({
+            host: options.host,
+            port: options.port,
+            servername: options.host,
+          })
+        : net.connect({ host: options.host, port: options.port });
+
+      socket.once(options.secure ? "secureConnect" : "connect", () => {
+        socket.off("error", reject);
+        resolve(new SmtpConnection(socket));
+      });
+      socket.once("error", reject);
+    });
+  }
+
+  private attach(): void {
+    this.socket.setTimeout(TIMEOUT_MS, () =>
+      this.fail(new Error("SMTP connection timed out"))
+    );
+    this.socket.on("data", (chunk: Buffer) => this.receive(chunk));
+    this.socket.on("error", (error: Error) => this.fail(error));
+    this.socket.on("close", () =>
+      this.fail(new Error("SMTP connection closed"))
+    );
+  }
+
+  private fail(error: Error): void {
+    this.error = this.error || error;
+    this.socket.destroy();
+    if (this.waiting) {
+      this.waiting.reject(this.error);
+      this.waiting = null;
+    }
+  }
+
+  // Collect lines until the last line of a reply, e.g. "250-a", "250 b"
+  private receive(chunk: Buffer): void {
+    this.buffer += chunk.toString("utf8");
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+
+      if (line.charAt(3) === "-") {
+        continue;
+      }
+
+      const response = {
+        code: parseInt(line.slice(0, 3), 10),
+        text: this.lines.map((l) => l.slice(4)).join("\n"),
+      };
+      this.lines = [];
+      if (this.waiting) {
+        this.waiting.resolve(response);
+        this.waiting = null;
+      } else {
+        this.responses.push(response);
+      }
+    }
+  }
+
+  read(): Promise<SmtpResponse> {
+    const response = this.responses.shift();
+    if (response) {
+      return Promise.resolve(response);
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  // Send a command and check the reply code. Errors only name the command,
+  // so credentials and message contents never end up in logs.
+  async command(line: string, expected: number[]): Promise<SmtpResponse> {
+    const reply = this.read();
+    this.socket.write(`${line}\r\n`);
+    const response = await reply;
+    if (!expected.includes(response.code)) {
+      const name = /^[A-Z]+(?=[ :]|$)/.exec(line)?.[0] || "message";
+      throw new Error(`SMTP ${name} failed: ${response.code} ${response.text}`);
+    }
+    return response;
+  }
+
+  async expect(expected: number): Promise<void> {
+    const response = await this.read();
+    if (response.code !== expected) {
+      throw new Error(`SMTP error: ${response.code} ${response.text}`);
+    }
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("error");
+    this.socket.removeAllListeners("close");
+    this.socket.setTimeout(0);
+
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const secureSocket = tls.connect({
+        socket: this.socket,
+        servername: host,
+      });
+      secureSocket.once("secureConnect", () => {
+        secureSocket.off("error", reject);
+        resolve(secureSocket);
+      });
+      secureSocket.once("error", reject);
+    });
+    this.attach();
+  }
+
+  close(): void {
+    this.socket.removeAllListeners("close");
+    this.socket.end();
+  }
+}
+
+// Lines starting with "." are escaped so they don't end the message early
+const dotStuff = (message: string): string =>
+  message.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+
+/**
+ * Deliver one message over SMTP
+ * @param options - Server and credentials
+ * @param from - The envelope sender address
+ * @param to - The recipient address
+ * @param message - The full message, headers included
+ */
+export const sendSmtpMessage = async (
+  options: SmtpOptions,
+  from: string,
+  to: string,
+  message: string
+): Promise<void> => {
+  const connection = await SmtpConnection.open(options);
+
+  try {
+    await connection.expect(220);
+    const hostname = os.hostname();
+    const ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+
+    if (!options.secure && /^STARTTLS$/im.test(ehlo.text)) {
+      await connection.command("STARTTLS", [220]);
+      await connection.startTls(options.host);
+      await connection.command(`EHLO ${hostname}`, [250]);
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(
+        `\0${options.user}\0${options.password || ""}`
+      ).toString("base64");
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${from}>`, [250]);
+    await connection.command(`RCPT TO:<${to}>`, [250, 251]);
+    await connection.command("DATA", [354]);
+    await connection.command(`${dotStuff(message)}\r\n.`, [250]);
+    await connection.command("QUIT", [221]);
+  } finally {
+    connection.close();
+  }
+};
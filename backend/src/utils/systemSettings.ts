@@ -8,6 +8,24 @@ interface UserCountRow {
   total: string;
 }
 
+export interface LoginProtectionSettings {
+  lockoutThreshold: number;
+  lockoutDurationMinutes: number;
+  ipFailureLimit: number;
+  ipFailureWindowMinutes: number;
+}
+
+export interface OidcSettings {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  buttonLabel: string;
+  autoProvision: boolean;
+  roleClaim: string;
+  adminValues: string[];
+}
+
 /**
  * Get a system setting value
  * @param settingKey - The setting key to retrieve
@@ -54,7 +72,8 @@ export const getMaxUsers = async (): Promise<number> => {
 };
 
 /**
- * Check if user limit is reached
+ * Check if user limit is reached. Pending invitations count as users, so an
+ * invitee always has a seat when they accept.
  * @returns True if user limit is reached
  */
 export const isUserLimitReached = async (): Promise<boolean> => {
@@ -62,9 +81,132 @@ export const isUserLimitReached = async (): Promise<boolean> => {
   if (maxUsers === 0) return false; // Unlimited
 
   const result = await db.query<UserCountRow>(
-    "SELECT COUNT(*) as total FROM users"
+    `SELECT (SELECT COUNT(*) FROM users)
+       + (SELECT COUNT(*) FROM invitations
+          WHERE accepted_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()) as total`
   );
   const currentUsers = parseInt(result.rows[0].total, 10);
 
   return currentUsers >= maxUsers;
 };
+
+/**
+ * Check if a user must have two-factor authentication enabled
+ * @param role - The user's role
+ * @returns True if the two_factor_required setting covers the role
+ */
+export const isTwoFactorRequired = async (role: string): Promise<boolean> => {
+  const value = await getSystemSetting("two_factor_required", "off");
+  return value === "everyone" || (value === "admins" && role === "admin");
+};
+
+/**
+ * Check if new users must verify their email address before signing in
+ * @returns True if email verification is required
+ */
+export const isEmailVerificationRequired = async (): Promise<boolean> => {
+  const value = await getSystemSetting("email_verification_required", "false");
+  return value === "true";
+};
+
+/**
+ * Get the country calling code added to phone numbers entered without one
+ * @returns The code's digits, e.g. "1" or "44"
+ */
+export const getDefaultPhoneCountryCode = async (): Promise<string> => {
+  const value = await getSystemSetting("default_phone_country_code", "1");
+  return value && /^[1-9]\d{0,2}$/.test(value) ? value : "1";
+};
+
+const getNumberSetting = async (
+  settingKey: string,
+  defaultValue: number
+): Promise<number> => {
+  const value = await getSystemSetting(settingKey, String(defaultValue));
+  const number = parseInt(value || "", 10);
+  return isNaN(number) || number < 0 ? defaultValue : number;
+};
+
+/**
+ * Get the thresholds for locking accounts and blocking IP addresses after
+ * failed logins
+ */
+export const getLoginProtectionSettings =
+  async (): Promise<LoginProtectionSettings> => {
+    const [
+      lockoutThreshold,
+      lockoutDurationMinutes,
+      ipFailureLimit,
+      ipFailureWindowMinutes,
+    ] = await Promise.all([
+      getNumberSetting("lockout_threshold", 5),
+      getNumberSetting("lockout_duration_minutes", 15),
+      getNumberSetting("ip_failure_limit", 20),
+      getNumberSetting("ip_failure_window_minutes", 15),
+    ]);
+
+    return {
+      lockoutThreshold,
+      lockoutDurationMinutes,
+      ipFailureLimit,
+      ipFailureWindowMinutes,
+    };
+  };
+
+/**
+ * Get the OpenID Connect single sign-on configuration. SSO only counts as
+ * enabled once the provider and client are configured.
+ */
+export const getOidcSettings = async (): Promise<OidcSettings> => {
+  const [
+    enabled,
+    issuer,
+    clientId,
+    clientSecret,
+    buttonLabel,
+    autoProvision,
+    roleClaim,
+    adminValues,
+  ] = await Promise.all([
+    getSystemSetting("oidc_enabled", "false"),
+    getSystemSetting("oidc_issuer", ""),
+    getSystemSetting("oidc_client_id", ""),
+    getSystemSetting("oidc_client_secret", ""),
+    getSystemSetting("oidc_button_label", ""),
+    getSystemSetting("oidc_auto_provision", "true"),
+    getSystemSetting("oidc_role_claim", ""),
+    getSystemSetting("oidc_admin_values", ""),
+  ]);
+
+  return {
+    enabled: enabled === "true" && !!issuer && !!clientId,
+    issuer: issuer || "",
+    clientId: clientId || "",
+    clientSecret: clientSecret || "",
+    buttonLabel: buttonLabel || "Sign in with SSO",
+    autoProvision: autoProvision === "true",
+    roleClaim: roleClaim || "",
+    adminValues: (adminValues || "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+/**
+ * Check if a user may sign in with a password. Password login can only be
+ * turned off while single sign-on is enabled, and admins always keep it so
+ * they can still get in when the provider is down or misconfigured.
+ * @param role - The user's role, or null to ask about users in general
+ */
+export const isPasswordLoginAllowed = async (
+  role: string | null
+): Promise<boolean> => {
+  if (role === "admin") return true;
+
+  const value = await getSystemSetting("password_login_enabled", "true");
+  if (value === "true") return true;
+
+  const oidc = await getOidcSettings();
+  return !oidc.enabled;
+};
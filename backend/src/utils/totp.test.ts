@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "./totp";
+
+// The SHA-1 key of the RFC 6238 test vectors, "12345678901234567890"
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+const at = (seconds: number) => mock.method(Date, "now", () => seconds * 1000);
+
+describe("verifyTotp", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("matches the RFC 6238 test vectors", () => {
+    // The last six digits of the vectors' eight digit codes
+    for (const [seconds, code] of [
+      [59, "287082"],
+      [1111111109, "081804"],
+      [1234567890, "005924"],
+      [2000000000, "279037"],
+    ] as const) {
+      at(seconds);
+      assert.equal(verifyTotp(SECRET, code), Math.floor(seconds / 30));
+    }
+  });
+
+  it("allows for a step of clock drift either way", () => {
+    at(1111111109 + 30);
+    assert.equal(verifyTotp(SECRET, "081804"), 37037036);
+    at(1111111109 - 30);
+    assert.equal(verifyTotp(SECRET, "081804"), 37037036);
+    at(1111111109 + 60);
+    assert.equal(verifyTotp(SECRET, "081804"), null);
+  });
+
+  it("turns down a code that was already used", () => {
+    at(59);
+    assert.equal(verifyTotp(SECRET, "287082", 1), null);
+    assert.equal(verifyTotp(SECRET, "287082", 0), 1);
+  });
+
+  it("ignores spaces but nothing else", () => {
+    at(59);
+    assert.equal(verifyTotp(SECRET, "287 082"), 1);
+    for (const code of ["28708", "2870820", "28708a", "", "287082 x"]) {
+      assert.equal(verifyTotp(SECRET, code), null);
+    }
+  });
+
+  it("turns down the wrong code", () => {
+    at(59);
+    assert.equal(verifyTotp(SECRET, "287083"), null);
+  });
+});
+
+describe("generateTotpSecret", () => {
+  it("makes 160 bit base32 secrets", () => {
+    const secret = generateTotpSecret();
+    assert.match(secret, /^[A-Z2-7]{32}$/);
+    assert.notEqual(generateTotpSecret(), secret);
+  });
+});
+
+describe("buildOtpauthUri", () => {
+  it("names the issuer and account and the code settings", () => {
+    const uri = new URL(buildOtpauthUri(SECRET, "ada@x.io", "OMW CRM"));
+
+    assert.equal(uri.protocol, "otpauth:");
+    assert.equal(uri.host, "totp");
+    assert.equal(decodeURIComponent(uri.pathname), "/OMW CRM:ada@x.io");
+    assert.equal(uri.searchParams.get("secret"), SECRET);
+    assert.equal(uri.searchParams.get("issuer"), "OMW CRM");
+    assert.equal(uri.searchParams.get("digits"), "6");
+    assert.equal(uri.searchParams.get("period"), "30");
+  });
+
+  it("encodes spaces as %20", () => {
+    const uri = buildOtpauthUri(SECRET, "ada@x.io", "OMW CRM");
+    assert.ok(!uri.includes("+"));
+    assert.ok(uri.includes("issuer=OMW%20CRM"));
+  });
+});
@@ -0,0 +1,166 @@
+import crypto from "crypto";
+import * as jwt from "jsonwebtoken";
+import db from "../config/database";
+import { verifyTotp } from "./totp";
+
+interface TwoFactorRow {
+  totp_secret: string | null;
+  totp_last_step: string | null;
+}
+
+interface ChallengePayload {
+  userId: string;
+  purpose: string;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_PURPOSE = "two_factor";
+const CHALLENGE_EXPIRES_IN = "5m";
+
+// Recovery codes are shown as "xxxxx-xxxxx"; compare them without formatting
+const normalizeRecoveryCode = (code: string): string =>
+  code.replace(/[\s-]/g, "").toLowerCase();
+
+const hashRecoveryCode = (code: string): string =>
+  crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+
+const getJwtSecret = (): string => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error("JWT_SECRET not configured");
+  }
+  return jwtSecret;
+};
+
+/**
+ * Replace a user's recovery codes with a new set
+ * @returns The new codes, which are only ever shown this once
+ */
+export const generateRecoveryCodes = async (
+  userId: string
+): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await db.transaction(async (client) => {
+    await client.query("DELETE FROM recovery_codes WHERE user_id = $1", [
+      userId,
+    ]);
+    await client.query(
+      `INSERT INTO recovery_codes (user_id, code_hash)
+       SELECT $1, unnest($2::text[])`,
+      [userId, codes.map(hashRecoveryCode)]
+    );
+  });
+
+  return codes;
+};
+
+/**
+ * Count the recovery codes a user has not used yet
+ */
+export const countRecoveryCodes = async (userId: string): Promise<number> => {
+  const result = await db.query<{ remaining: string }>(
+    "SELECT COUNT(*) as remaining FROM recovery_codes WHERE user_id = $1 AND used_at IS NULL",
+    [userId]
+  );
+  return parseInt(result.rows[0].remaining, 10);
+};
+
+/**
+ * Check a TOTP code against the user's secret, accepting each code only once
+ * @param userId - The user the code is for
+ * @param code - The code the user typed
+ */
+export const verifyTotpCode = async (
+  userId: string,
+  code: string
+): Promise<boolean> => {
+  const result = await db.query<TwoFactorRow>(
+    "SELECT totp_secret, totp_last_step FROM users WHERE id = $1",
+    [userId]
+  );
+  const user = result.rows[0];
+  if (!user?.totp_secret) {
+    return false;
+  }
+
+  const step = verifyTotp(
+    user.totp_secret,
+    code,
+    user.totp_last_step === null ? null : Number(user.totp_last_step)
+  );
+  if (step === null) {
+    return false;
+  }
+
+  // A concurrent request may have used the same code in the meantime
+  const update = await db.query(
+    `UPDATE users SET totp_last_step = $2
+     WHERE id = $1 AND (totp_last_step IS NULL OR totp_last_step < $2)`,
+    [userId, step]
+  );
+  return (update.rowCount ?? 0) > 0;
+};
+
+/**
+ * Check the second login factor: a TOTP code or an unused recovery code
+ * @param userId - The user logging in
+ * @param code - The code the user typed
+ */
+export const verifySecondFactor = async (
+  userId: string,
+  code: string
+): Promise<boolean> => {
+  if (await verifyTotpCode(userId, code)) {
+    return true;
+  }
+
+  const result = await db.query(
+    `UPDATE recovery_codes SET used_at = NOW()
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+    [userId, hashRecoveryCode(code)]
+  );
+  return (result.rowCount ?? 0) > 0;
+};
+
+/**
+ * Turn off two-factor authentication for a user and drop their recovery codes
+ */
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+  await db.transaction(async (client) => {
+    await client.query(
+      `UPDATE users
+       SET totp_secret = NULL, totp_enabled = FALSE, totp_last_step = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [userId]
+    );
+    await client.query("DELETE FROM recovery_codes WHERE user_id = $1", [
+      userId,
+    ]);
+  });
+};
+
+/**
+ * Sign the short-lived token that links the password step of a login to
+ * its second factor step
+ */
+export const createTwoFactorChallenge = (userId: string): string =>
+  (jwt.sign as any)({ userId, purpose: CHALLENGE_PURPOSE }, getJwtSecret(), {
+    expiresIn: CHALLENGE_EXPIRES_IN,
+  });
+
+/**
+ * Read a two-factor challenge token
+ * @returns The user id, or null if the token is invalid or expired
+ */
+export const verifyTwoFactorChallenge = (token: string): string | null => {
+  try {
+    const payload = jwt.verify(token, getJwtSecret()) as ChallengePayload;
+    return payload.purpose === CHALLENGE_PURPOSE ? payload.userId : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,257 @@
+import { PoolClient } from "pg";
+import db from "../config/database";
+
+// How many records of each kind belong to a user
+export interface UserRecordCounts {
+  contacts: number;
+  organizations: number;
+  deals: number;
+  activities: number;
+  contactNotes: number;
+  activityNotes: number;
+  // Shares the user made of their records, and ones made with them
+  sharesGiven: number;
+  sharesReceived: number;
+  dealStages: number;
+  teamMemberships: number;
+  apiKeys: number;
+}
+
+// What a transfer moved to the new owner
+export interface TransferredRecordCounts {
+  contacts: number;
+  organizations: number;
+  deals: number;
+  activities: number;
+  contactNotes: number;
+  activityNotes: number;
+  shares: number;
+}
+
+interface RecordCountsRow {
+  contacts: string;
+  organizations: string;
+  deals: string;
+  activities: string;
+  contact_notes: string;
+  activity_notes: string;
+  shares_given: string;
+  shares_received: string;
+  deal_stages: string;
+  team_memberships: string;
+  api_keys: string;
+}
+
+interface SourceStageRow {
+  id: string;
+  name: string;
+  kind: string;
+  default_probability: number;
+  target_id: string | null;
+}
+
+// Kinds of records that are lost for good when their owner is deleted. The
+// rest only matter to the deleted user.
+const TRANSFERABLE_RECORDS: (keyof UserRecordCounts)[] = [
+  "contacts",
+  "organizations",
+  "deals",
+  "activities",
+  "contactNotes",
+  "activityNotes",
+  "sharesGiven",
+];
+
+/**
+ * Count what deleting a user would delete along with them
+ */
+export const countUserRecords = async (
+  userId: string
+): Promise<UserRecordCounts> => {
+  const result = await db.query<RecordCountsRow>(
+    `SELECT
+       (SELECT COUNT(*) FROM contacts WHERE user_id = $1) as contacts,
+       (SELECT COUNT(*) FROM companies WHERE user_id = $1) as organizations,
+       (SELECT COUNT(*) FROM deals WHERE user_id = $1) as deals,
+       (SELECT COUNT(*) FROM activities WHERE user_id = $1) as activities,
+       (SELECT COUNT(*) FROM contact_notes WHERE user_id = $1) as contact_notes,
+       (SELECT COUNT(*) FROM activity_notes WHERE user_id = $1) as activity_notes,
+       (SELECT COUNT(*) FROM shares WHERE shared_by_user_id = $1) as shares_given,
+       (SELECT COUNT(*) FROM shares WHERE shared_with_user_id = $1) as shares_received,
+       (SELECT COUNT(*) FROM deal_stages WHERE user_id = $1) as deal_stages,
+       (SELECT COUNT(*) FROM team_members WHERE user_id = $1) as team_memberships,
+       (SELECT COUNT(*) FROM api_keys WHERE user_id = $1 AND revoked_at IS NULL) as api_keys`,
+    [userId]
+  );
+  const row = result.rows[0];
+
+  return {
+    contacts: parseInt(row.contacts, 10),
+    organizations: parseInt(row.organizations, 10),
+    deals: parseInt(row.deals, 10),
+    activities: parseInt(row.activities, 10),
+    contactNotes: parseInt(row.contact_notes, 10),
+    activityNotes: parseInt(row.activity_notes, 10),
+    sharesGiven: parseInt(row.shares_given, 10),
+    sharesReceived: parseInt(row.shares_received, 10),
+    dealStages: parseInt(row.deal_stages, 10),
+    teamMemberships: parseInt(row.team_memberships, 10),
+    apiKeys: parseInt(row.api_keys, 10),
+  };
+};
+
+/**
+ * Whether a user still owns records that should be transferred before
+ * they are deleted
+ */
+export const hasTransferableRecords = (counts: UserRecordCounts): boolean =>
+  TRANSFERABLE_RECORDS.some((kind) => counts[kind] > 0);
+
+/**
+ * Move deals to the new owner's pipeline. Each deal goes to the new owner's
+ * stage with the same name, the way shared deals are placed on a board; a
+ * stage the new owner doesn't have is added to the end of their pipeline.
+ * The deals' stage history follows them so pipeline reports stay complete.
+ */
+const moveDealsToPipeline = async (
+  client: PoolClient,
+  fromUserId: string,
+  toUserId: string
+): Promise<void> => {
+  const stages = await client.query<SourceStageRow>(
+    `SELECT ds.id, ds.name, ds.kind, ds.default_probability, target.id as target_id
+     FROM deal_stages ds
+     LEFT JOIN LATERAL (
+       SELECT t.id FROM deal_stages t
+       WHERE t.user_id = $2 AND LOWER(t.name) = LOWER(ds.name)
+       ORDER BY t.order_index
+       LIMIT 1
+     ) target ON true
+     WHERE ds.id IN (SELECT stage_id FROM deals WHERE user_id = $1)
+     ORDER BY ds.order_index`,
+    [fromUserId, toUserId]
+  );
+
+  for (const stage of stages.rows) {
+    let targetId = stage.target_id;
+    if (!targetId) {
+      const created = await client.query<{ id: string }>(
+        `INSERT INTO deal_stages (name, kind, default_probability, order_index, user_id)
+         VALUES ($1, $2, $3,
+           (SELECT COALESCE(MAX(order_index), 0) + 1 FROM deal_stages WHERE user_id = $4),
+           $4)
+         RETURNING id`,
+        [stage.name, stage.kind, stage.default_probability, toUserId]
+      );
+      targetId = created.rows[0].id;
+    }
+
+    await client.query(
+      `UPDATE deal_stage_history
+       SET from_stage_id = CASE WHEN from_stage_id = $2 THEN $3 ELSE from_stage_id END,
+         to_stage_id = CASE WHEN to_stage_id = $2 THEN $3 ELSE to_stage_id END
+       WHERE deal_id IN (SELECT id FROM deals WHERE user_id = $1)
+         AND (from_stage_id = $2 OR to_stage_id = $2)`,
+      [fromUserId, stage.id, targetId]
+    );
+
+    // Append the moved deals below the ones already in the target column
+    await client.query(
+      `UPDATE deals d
+       SET stage_id = $3, position = base.max_position + moved.rn
+       FROM (
+         SELECT id, ROW_NUMBER() OVER (ORDER BY position, created_at DESC) AS rn
+         FROM deals WHERE user_id = $1 AND stage_id = $2
+       ) moved,
+       (SELECT COALESCE(MAX(position), -1) AS max_position FROM deals WHERE stage_id = $3) base
+       WHERE d.id = moved.id`,
+      [fromUserId, stage.id, targetId]
+    );
+  }
+};
+
+/**
+ * Give everything a user owns to another user: their contacts,
+ * organizations, deals and activities, the notes they wrote and the shares
+ * they made. Shares with the new owner are dropped since they now own the
+ * records. Run it inside a transaction.
+ * @param client - Transaction client
+ * @param fromUserId - The departing user
+ * @param toUserId - The user who takes the records over
+ * @param teamId - Team to assign the moved records to, or null to keep their
+ * current team
+ */
+export const transferUserRecords = async (
+  client: PoolClient,
+  fromUserId: string,
+  toUserId: string,
+  teamId: string | null
+): Promise<TransferredRecordCounts> => {
+  await moveDealsToPipeline(client, fromUserId, toUserId);
+
+  // Moves the records of one table to the new owner, and their team
+  const moveRecords = async (table: string): Promise<number> => {
+    const result = await client.query(
+      `UPDATE ${table}
+       SET user_id = $2, team_id = COALESCE($3, team_id), updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1`,
+      [fromUserId, toUserId, teamId]
+    );
+    return result.rowCount ?? 0;
+  };
+
+  const contacts = await moveRecords("contacts");
+  const organizations = await moveRecords("companies");
+  const deals = await moveRecords("deals");
+  const activities = await moveRecords("activities");
+
+  const contactNotes = await client.query(
+    "UPDATE contact_notes SET user_id = $2 WHERE user_id = $1",
+    [fromUserId, toUserId]
+  );
+  const activityNotes = await client.query(
+    "UPDATE activity_notes SET user_id = $2 WHERE user_id = $1",
+    [fromUserId, toUserId]
+  );
+
+  await client.query(
+    "DELETE FROM shares WHERE shared_by_user_id = $1 AND shared_with_user_id = $2",
+    [fromUserId, toUserId]
+  );
+  // Where the new owner already shared the same record with the same user,
+  // their share is kept, with write access if either share granted it
+  await client.query(
+    `UPDATE shares t SET permissions = 'write'
+     FROM shares f
+     WHERE t.shared_by_user_id = $2 AND f.shared_by_user_id = $1
+       AND t.item_type = f.item_type AND t.item_id = f.item_id
+       AND t.shared_with_user_id = f.shared_with_user_id
+       AND f.permissions = 'write'`,
+    [fromUserId, toUserId]
+  );
+  await client.query(
+    `DELETE FROM shares f
+     WHERE f.shared_by_user_id = $1
+       AND EXISTS (
+         SELECT 1 FROM shares t
+         WHERE t.shared_by_user_id = $2
+           AND t.item_type = f.item_type AND t.item_id = f.item_id
+           AND t.shared_with_user_id = f.shared_with_user_id
+       )`,
+    [fromUserId, toUserId]
+  );
+  const shares = await client.query(
+    "UPDATE shares SET shared_by_user_id = $2 WHERE shared_by_user_id = $1",
+    [fromUserId, toUserId]
+  );
+
+  return {
+    contacts,
+    organizations,
+    deals,
+    activities,
+    contactNotes: contactNotes.rowCount ?? 0,
+    activityNotes: activityNotes.rowCount ?? 0,
+    shares: shares.rowCount ?? 0,
+  };
+};
@@ -0,0 +1,97 @@
+import db from "../config/database";
+import { TeamRole } from "../types";
+
+export type VisibleItemType = "contact" | "organization" | "deal" | "activity";
+
+// Team roles that may edit records assigned to their team
+const TEAM_WRITE_ROLES: TeamRole[] = ["owner", "manager", "member"];
+
+// Team roles that may also delete records assigned to their team
+const TEAM_MANAGE_ROLES: TeamRole[] = ["owner", "manager"];
+
+const sqlList = (values: string[]) => values.map((v) => `'${v}'`).join(", ");
+
+// Whether the user's role lets them read every record, whoever owns it
+const viewsAllRecords = (userParam: string) =>
+  `EXISTS (
+      SELECT 1 FROM users vu JOIN roles vr ON vr.name = vu.role
+      WHERE vu.id = ${userParam} AND 'can_view_all_records' = ANY(vr.permissions)
+    )`;
+
+export interface RecordVisibility {
+  // LEFT JOINs that expose the share (alias s) and team membership (alias tm)
+  joins: string;
+  // WHERE condition matching the records the user can see
+  condition: string;
+  // 'write', 'read', or NULL when the user owns the record
+  permission: string;
+  // The user's role in the record's team, or NULL
+  teamRole: string;
+}
+
+/**
+ * Build the SQL that limits a query to the records a user can see: the ones
+ * they own, the ones shared with them, and the ones assigned to a team they
+ * belong to, or every record if their role can view all records; those they
+ * can only read. Every router goes through this instead of joining shares
+ * itself.
+ * @param itemType - The share item type of the record
+ * @param alias - The record table's alias in the query
+ * @param userParam - The placeholder holding the user's id, e.g. "$1"
+ */
+export const recordVisibility = (
+  itemType: VisibleItemType,
+  alias: string,
+  userParam: string
+): RecordVisibility => ({
+  joins: `LEFT JOIN shares s ON s.item_type = '${itemType}' AND s.item_id = ${alias}.id AND s.shared_with_user_id = ${userParam}
+    LEFT JOIN team_members tm ON tm.team_id = ${alias}.team_id AND tm.user_id = ${userParam}`,
+  condition: `(${alias}.user_id = ${userParam} OR s.id IS NOT NULL OR tm.id IS NOT NULL
+    OR ${viewsAllRecords(userParam)})`,
+  permission: `CASE
+      WHEN ${alias}.user_id = ${userParam} THEN NULL
+      WHEN s.permissions = 'write' OR tm.role IN (${sqlList(TEAM_WRITE_ROLES)}) THEN 'write'
+      ELSE 'read'
+    END`,
+  teamRole: "tm.role",
+});
+
+interface AccessRow {
+  user_id: string;
+  permission?: string | null;
+  team_role?: TeamRole | null;
+}
+
+/**
+ * Whether the user may edit a record selected with its permission column
+ */
+export const canEditRecord = (record: AccessRow, userId: string): boolean =>
+  record.user_id === userId || record.permission === "write";
+
+/**
+ * Whether the user may delete a record selected with its team_role column.
+ * Shares never grant this; team owners and managers do.
+ */
+export const canDeleteRecord = (record: AccessRow, userId: string): boolean =>
+  record.user_id === userId ||
+  (!!record.team_role && TEAM_MANAGE_ROLES.includes(record.team_role));
+
+/**
+ * Check that a user may assign records to a team: they must be a member
+ * whose role allows editing the team's records
+ * @param teamId - The team to assign to
+ * @param userId - The user assigning the record
+ */
+export const canAssignTeam = async (
+  teamId: string | number,
+  userId: string
+): Promise<boolean> => {
+  const result = await db.query<{ role: TeamRole }>(
+    "SELECT role FROM team_members WHERE team_id = $1 AND user_id = $2",
+    [teamId, userId]
+  );
+
+  return (
+    result.rows.length > 0 && TEAM_WRITE_ROLES.includes(result.rows[0].role)
+  );
+};
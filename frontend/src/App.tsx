@@ -3,21 +3,30 @@ import {
   Routes,
   Route,
   Navigate,
+  useLocation,
 } from "react-router-dom";
 import { AuthProvider } from "./contexts/AuthContext";
 import { ToastProvider } from "./contexts/ToastContext";
 import { useAuth } from "./hooks/useAuth";
+import { canUseAdminPanel } from "./lib/permissions";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { LoadingPage } from "./components/ui/Loading";
 import LoginPage from "./pages/LoginPage.tsx";
 import RegisterPage from "./pages/RegisterPage.tsx";
+import ForgotPasswordPage from "./pages/ForgotPasswordPage.tsx";
+import ResetPasswordPage from "./pages/ResetPasswordPage.tsx";
+import VerifyEmailPage from "./pages/VerifyEmailPage.tsx";
+import AcceptInvitePage from "./pages/AcceptInvitePage.tsx";
 import DashboardLayout from "./components/layout/DashboardLayout";
 import Dashboard from "./pages/Dashboard.tsx";
 import ContactsPage from "./pages/ContactsPage.tsx";
 import ContactDetailPage from "./pages/ContactDetailPage.tsx";
 import ActivityDetailPage from "./pages/ActivityDetailPage.tsx";
 import OrganizationsPage from "./pages/OrganizationsPage.tsx";
+import OrganizationDetailPage from "./pages/OrganizationDetailPage.tsx";
 import DealsPage from "./pages/DealsPage.tsx";
+import PipelineStagesPage from "./pages/PipelineStagesPage.tsx";
+import ContactDuplicatesPage from "./pages/ContactDuplicatesPage.tsx";
 import ActivitiesPage from "./pages/ActivitiesPage.tsx";
 import AdminPanel from "./pages/AdminPanel.tsx";
 import SharedItemsPage from "./pages/SharedItemsPage.tsx";
@@ -25,6 +34,7 @@ import ProfilePage from "./pages/ProfilePage.tsx";
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return <LoadingPage />;
@@ -34,6 +44,11 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" replace />;
   }
 
+  // Users who must use two-factor authentication set it up before anything else
+  if (user.twoFactorSetupRequired && location.pathname !== "/profile") {
+    return <Navigate to="/profile" replace />;
+  }
+
   return <>{children}</>;
 }
 
@@ -62,10 +77,14 @@ function AdminRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" replace />;
   }
 
-  if (user.role !== "admin") {
+  if (!canUseAdminPanel(user)) {
     return <Navigate to="/dashboard" replace />;
   }
 
+  if (user.twoFactorSetupRequired) {
+    return <Navigate to="/profile" replace />;
+  }
+
   return <>{children}</>;
 }
 
@@ -89,6 +108,32 @@ function AppRoutes() {
           </PublicRoute>
         }
       />
+      <Route
+        path="/forgot-password"
+        element={
+          <PublicRoute>
+            <ForgotPasswordPage />
+          </PublicRoute>
+        }
+      />
+      <Route
+        path="/reset-password"
+        element={
+          <PublicRoute>
+            <ResetPasswordPage />
+          </PublicRoute>
+        }
+      />
+      <Route
+        path="/accept-invite"
+        element={
+          <PublicRoute>
+            <AcceptInvitePage />
+          </PublicRoute>
+        }
+      />
+      {/* Opened from the email, whether or not the user is logged in */}
+      <Route path="/verify-email" element={<VerifyEmailPage />} />
 
       {/* Protected routes */}
       <Route
@@ -111,6 +156,16 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/contacts/duplicates"
+        element={
+          <ProtectedRoute>
+            <DashboardLayout>
+              <ContactDuplicatesPage />
+            </DashboardLayout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/contacts/:id"
         element={
@@ -131,6 +186,16 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/organizations/:id"
+        element={
+          <ProtectedRoute>
+            <DashboardLayout>
+              <OrganizationDetailPage />
+            </DashboardLayout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/deals"
         element={
@@ -141,6 +206,16 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/deals/stages"
+        element={
+          <ProtectedRoute>
+            <DashboardLayout>
+              <PipelineStagesPage />
+            </DashboardLayout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/activities"
         element={
@@ -0,0 +1,293 @@
+import { useState, useEffect } from "react";
+import { Button } from "./ui/Button";
+import { Input } from "./ui/Input";
+import { Select } from "./ui/Select";
+import { Badge } from "./ui/Badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/Card";
+import { useToast } from "../contexts/ToastContext";
+import { apiClient } from "../lib/api";
+import type { ApiKey, ApiKeyAccess, ApiKeyScopes } from "../lib/api";
+import {
+  API_KEY_ENTITIES,
+  API_KEY_ACCESS_LABELS,
+  describeScopes,
+} from "../lib/apiKeys";
+import { KeyRound, Trash2 } from "lucide-react";
+
+// Days until the key expires, "" for never
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "", label: "Never" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function ApiKeySettings() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScopes>({});
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { showToast } = useToast();
+
+  const fetchApiKeys = async () => {
+    try {
+      const response = await apiClient.getApiKeys();
+      if (response.data) {
+        setApiKeys(response.data.apiKeys);
+      }
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, []);
+
+  const showError = (title: string, message?: string) =>
+    showToast({ type: "error", title, message });
+
+  const resetForm = () => {
+    setName("");
+    setScopes({});
+    setExpiresInDays("90");
+    setShowForm(false);
+  };
+
+  const handleScopeChange = (entity: keyof ApiKeyScopes, access: string) => {
+    setScopes((prev) => {
+      const next = { ...prev };
+      if (access) {
+        next[entity] = access as ApiKeyAccess;
+      } else {
+        delete next[entity];
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    const response = await apiClient.createApiKey({
+      name: name.trim(),
+      scopes,
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + parseInt(expiresInDays) * DAY_MS).toISOString()
+        : null,
+    });
+    setIsSubmitting(false);
+
+    if (!response.data) {
+      showError("Could not create API key", response.error);
+      return;
+    }
+
+    setNewKey(response.data.key);
+    resetForm();
+    fetchApiKeys();
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (
+      !confirm(
+        `Revoke the API key "${apiKey.name}"? Scripts using it will stop working.`
+      )
+    )
+      return;
+
+    const response = await apiClient.revokeApiKey(apiKey.id);
+    if (response.error) {
+      showError("Could not revoke API key", response.error);
+      return;
+    }
+    fetchApiKeys();
+  };
+
+  const handleCopyKey = async () => {
+    if (!newKey) return;
+    try {
+      await navigator.clipboard.writeText(newKey);
+      showToast({ type: "success", title: "API key copied" });
+    } catch {
+      showError("Could not copy API key");
+    }
+  };
+
+  const hasScopes = Object.keys(scopes).length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <div className="flex items-center space-x-2">
+              <KeyRound className="h-5 w-5" />
+              <CardTitle>API Keys</CardTitle>
+            </div>
+            <CardDescription>
+              Let scripts and integrations use the API as you. Send the key in
+              an <code>Authorization: Bearer</code> header.
+            </CardDescription>
+          </div>
+          {!showForm && (
+            <Button size="sm" onClick={() => setShowForm(true)}>
+              New key
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newKey && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Copy your new API key now. It will not be shown again.
+            </p>
+            <div className="p-3 font-mono text-sm bg-muted rounded-md break-all">
+              {newKey}
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={handleCopyKey}>
+                Copy key
+              </Button>
+              <Button size="sm" onClick={() => setNewKey(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {showForm && (
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div>
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Nightly export"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Access</label>
+              {API_KEY_ENTITIES.map((entity) => (
+                <div
+                  key={entity.value}
+                  className="flex items-center justify-between"
+                >
+                  <span className="text-sm">{entity.label}</span>
+                  <Select
+                    value={scopes[entity.value] || ""}
+                    onChange={(e) =>
+                      handleScopeChange(entity.value, e.target.value)
+                    }
+                    className="w-40"
+                  >
+                    <option value="">No access</option>
+                    {Object.entries(API_KEY_ACCESS_LABELS).map(
+                      ([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      )
+                    )}
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div>
+              <label className="text-sm font-medium">Expires after</label>
+              <Select
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(e.target.value)}
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!name.trim() || !hasScopes || isSubmitting}
+              >
+                Create key
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading API keys...</p>
+        )}
+        {!isLoading && apiKeys.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            You don't have any API keys
+          </p>
+        )}
+        {apiKeys.length > 0 && (
+          <div className="divide-y">
+            {apiKeys.map((apiKey) => (
+              <div
+                key={apiKey.id}
+                className="flex items-center justify-between py-3"
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{apiKey.name}</span>
+                    <code className="text-xs text-muted-foreground">
+                      {apiKey.prefix}…
+                    </code>
+                    {apiKey.expired && (
+                      <Badge variant="destructive">Expired</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {describeScopes(apiKey.scopes)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {apiKey.lastUsedAt
+                      ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}`
+                      : "Never used"}{" "}
+                    ·{" "}
+                    {apiKey.expiresAt
+                      ? `Expires ${new Date(apiKey.expiresAt).toLocaleDateString()}`
+                      : "Never expires"}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevoke(apiKey)}
+                  title="Revoke API key"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,375 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "./ui/Button";
+import { Input } from "./ui/Input";
+import { Select } from "./ui/Select";
+import { Badge } from "./ui/Badge";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/Card";
+import { apiClient } from "../lib/api";
+import type { Company, ContactOrganization } from "../lib/api";
+import { Briefcase, Edit, LogOut, Plus, Trash2 } from "lucide-react";
+
+interface CareerHistoryProps {
+  contactId: number;
+  companies: Company[];
+  canEdit: boolean;
+  // Called after a role changed, since the contact's company and position
+  // follow its current role
+  onChange?: () => void;
+}
+
+interface RoleFormData {
+  companyId: string;
+  title: string;
+  department: string;
+  startDate: string;
+  endDate: string;
+  isCurrent: boolean;
+}
+
+const EMPTY_ROLE: RoleFormData = {
+  companyId: "",
+  title: "",
+  department: "",
+  startDate: "",
+  endDate: "",
+  isCurrent: true,
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Dates are plain YYYY-MM-DD, so read them as local dates
+const formatRoleDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+  });
+
+const formatRolePeriod = (role: ContactOrganization) => {
+  const start = role.startDate ? formatRoleDate(role.startDate) : null;
+  const end = role.isCurrent
+    ? "Present"
+    : role.endDate
+      ? formatRoleDate(role.endDate)
+      : null;
+  if (!start && !end) return null;
+  return `${start ?? "?"} – ${end ?? "?"}`;
+};
+
+export function CareerHistory({
+  contactId,
+  companies,
+  canEdit,
+  onChange,
+}: CareerHistoryProps) {
+  const [roles, setRoles] = useState<ContactOrganization[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  // The role being edited, or null when adding one
+  const [editingRole, setEditingRole] = useState<ContactOrganization | null>(
+    null
+  );
+  const [formData, setFormData] = useState<RoleFormData>(EMPTY_ROLE);
+  const [formError, setFormError] = useState("");
+
+  const fetchRoles = useCallback(async () => {
+    try {
+      const response = await apiClient.getContactOrganizations(contactId);
+      if (response.data) {
+        setRoles(response.data.organizations);
+      }
+    } catch (error) {
+      console.error("Error fetching career history:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [contactId]);
+
+  useEffect(() => {
+    fetchRoles();
+  }, [fetchRoles]);
+
+  const afterChange = () => {
+    fetchRoles();
+    onChange?.();
+  };
+
+  const openForm = (role: ContactOrganization | null) => {
+    setEditingRole(role);
+    setFormData(
+      role
+        ? {
+            companyId: role.companyId.toString(),
+            title: role.title || "",
+            department: role.department || "",
+            startDate: role.startDate || "",
+            endDate: role.endDate || "",
+            isCurrent: role.isCurrent,
+          }
+        : EMPTY_ROLE
+    );
+    setFormError("");
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingRole(null);
+    setFormError("");
+  };
+
+  const handleSave = async () => {
+    if (!formData.companyId) {
+      setFormError("Organization is required");
+      return;
+    }
+
+    const roleData = {
+      companyId: parseInt(formData.companyId),
+      title: formData.title.trim() || null,
+      department: formData.department.trim() || null,
+      startDate: formData.startDate || null,
+      endDate: formData.isCurrent ? null : formData.endDate || null,
+      isCurrent: formData.isCurrent,
+    };
+
+    try {
+      const response = editingRole
+        ? await apiClient.updateContactOrganization(editingRole.id, roleData)
+        : await apiClient.createContactOrganization({
+            ...roleData,
+            contactId,
+          });
+      if (response.error) {
+        setFormError(response.error);
+        return;
+      }
+      closeForm();
+      afterChange();
+    } catch (error) {
+      console.error("Error saving role:", error);
+    }
+  };
+
+  const handleEndRole = async (role: ContactOrganization) => {
+    const endDate =
+      role.startDate && role.startDate > today() ? role.startDate : today();
+
+    try {
+      const response = await apiClient.updateContactOrganization(role.id, {
+        isCurrent: false,
+        endDate,
+      });
+      if (response.error) {
+        alert(response.error);
+        return;
+      }
+      afterChange();
+    } catch (error) {
+      console.error("Error ending role:", error);
+    }
+  };
+
+  const handleDelete = async (role: ContactOrganization) => {
+    if (
+      !confirm(
+        "Are you sure you want to remove this role? Ending it keeps it in the history."
+      )
+    )
+      return;
+
+    try {
+      await apiClient.deleteContactOrganization(role.id);
+      afterChange();
+    } catch (error) {
+      console.error("Error deleting role:", error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Briefcase className="mr-2 h-5 w-5" />
+            Career History
+          </CardTitle>
+          {canEdit && (
+            <Button
+              size="sm"
+              onClick={() => openForm(null)}
+              disabled={showForm}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add Role
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="space-y-3 p-3 border border-border rounded-md bg-accent/50">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium">Organization *</label>
+                <Select
+                  value={formData.companyId}
+                  onChange={(e) =>
+                    setFormData({ ...formData, companyId: e.target.value })
+                  }
+                >
+                  <option value="">Select an organization</option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>
+                      {company.name}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Title</label>
+                <Input
+                  value={formData.title}
+                  onChange={(e) =>
+                    setFormData({ ...formData, title: e.target.value })
+                  }
+                  maxLength={100}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Department</label>
+                <Input
+                  value={formData.department}
+                  onChange={(e) =>
+                    setFormData({ ...formData, department: e.target.value })
+                  }
+                  maxLength={100}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Start Date</label>
+                <Input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) =>
+                    setFormData({ ...formData, startDate: e.target.value })
+                  }
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">End Date</label>
+                <Input
+                  type="date"
+                  value={formData.isCurrent ? "" : formData.endDate}
+                  onChange={(e) =>
+                    setFormData({ ...formData, endDate: e.target.value })
+                  }
+                  disabled={formData.isCurrent}
+                />
+              </div>
+              <label className="flex items-center space-x-2 text-sm self-end pb-2">
+                <input
+                  type="checkbox"
+                  checked={formData.isCurrent}
+                  onChange={(e) =>
+                    setFormData({ ...formData, isCurrent: e.target.checked })
+                  }
+                />
+                <span>Current role</span>
+              </label>
+            </div>
+            {formError && (
+              <p className="text-sm text-destructive">{formError}</p>
+            )}
+            <div className="flex justify-end space-x-2">
+              <Button size="sm" variant="outline" onClick={closeForm}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                {editingRole ? "Save Role" : "Add Role"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">
+            Loading career history...
+          </p>
+        ) : roles.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">
+            No roles recorded yet
+          </p>
+        ) : (
+          roles.map((role) => {
+            const period = formatRolePeriod(role);
+            return (
+              <div
+                key={role.id}
+                className="flex items-start justify-between border border-border rounded-md p-3"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">
+                      {role.title || "No title"}
+                    </span>
+                    {role.isCurrent && <Badge>Current</Badge>}
+                  </div>
+                  <div className="text-sm">
+                    <Link
+                      to={`/organizations/${role.companyId}`}
+                      className="hover:underline"
+                    >
+                      {role.companyName}
+                    </Link>
+                    {role.department && (
+                      <span className="text-muted-foreground">
+                        {" "}
+                        · {role.department}
+                      </span>
+                    )}
+                  </div>
+                  {period && (
+                    <div className="text-xs text-muted-foreground">
+                      {period}
+                    </div>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex space-x-1">
+                    {role.isCurrent && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleEndRole(role)}
+                        title="End role"
+                      >
+                        <LogOut className="h-3 w-3" />
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => openForm(role)}
+                      title="Edit role"
+                    >
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(role)}
+                      title="Remove role"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -82,7 +82,8 @@ export function ChangePasswordForm({ onSuccess }: ChangePasswordFormProps) {
         showToast({
           type: "success",
           title: "Password Changed",
-          message: "Your password has been successfully updated.",
+          message:
+            "Your password has been successfully updated. Your other devices have been signed out.",
         });
 
         // Reset form
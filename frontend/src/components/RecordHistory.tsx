@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "./ui/Button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/Card";
+import { apiClient } from "../lib/api";
+import type { AuditEntry } from "../lib/api";
+import {
+  describeRecordChange,
+  formatAuditField,
+  formatAuditValue,
+  listedAuditChanges,
+} from "../lib/auditLog";
+import { History } from "lucide-react";
+
+const PAGE_SIZE = 10;
+
+interface RecordHistoryProps {
+  entityType: "contact" | "organization" | "deal" | "activity";
+  entityId: number;
+  // Changing this loads the history again, e.g. the record's updated_at
+  // after it was saved
+  refreshKey?: unknown;
+}
+
+export function RecordHistory({
+  entityType,
+  entityId,
+  refreshKey,
+}: RecordHistoryProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchHistory = useCallback(
+    async (page: number) => {
+      try {
+        const response = await apiClient.getRecordHistory(
+          entityType,
+          entityId,
+          { page, limit: PAGE_SIZE }
+        );
+        if (response.data) {
+          const { entries: pageEntries, pagination } = response.data;
+          setEntries((prev) =>
+            page === 1 ? pageEntries : [...prev, ...pageEntries]
+          );
+          setCurrentPage(page);
+          setHasMore(pagination.hasNext);
+        }
+      } catch (error) {
+        console.error("Error fetching history:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [entityType, entityId]
+  );
+
+  useEffect(() => {
+    fetchHistory(1);
+  }, [fetchHistory, refreshKey]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="mr-2 h-5 w-5" />
+          History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">
+            No changes recorded yet
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {entries.map((entry) => (
+              <div key={entry.id} className="text-sm">
+                <p className="font-medium">{describeRecordChange(entry)}</p>
+                <p className="text-muted-foreground">
+                  {entry.actor?.name || entry.actor?.email || "System"} •{" "}
+                  {new Date(entry.createdAt).toLocaleString()}
+                </p>
+                {listedAuditChanges(entry).length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-muted-foreground">
+                    {listedAuditChanges(entry).map(([field, change]) => (
+                      <li key={field} className="break-words">
+                        {formatAuditField(field)}:{" "}
+                        <span className="line-through">
+                          {formatAuditValue(change.from)}
+                        </span>{" "}
+                        → {formatAuditValue(change.to)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+
+            {hasMore && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => fetchHistory(currentPage + 1)}
+              >
+                Show older changes
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState, useEffect } from "react";
+import { Button } from "./ui/Button";
+import { Badge } from "./ui/Badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/Card";
+import { useToast } from "../contexts/ToastContext";
+import { useAuth } from "../hooks/useAuth";
+import { apiClient } from "../lib/api";
+import type { Session } from "../lib/api";
+import { Monitor, LogOut } from "lucide-react";
+
+// Checked in order, since e.g. Edge also claims to be Chrome and Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/iPhone|iPad/, "iOS"],
+  [/Mac OS X/, "macOS"],
+  [/Android/, "Android"],
+  [/Linux/, "Linux"],
+];
+
+// A short "Browser on OS" label from a user agent string
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent;
+}
+
+export function SessionsList() {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { showToast } = useToast();
+  const { logout } = useAuth();
+
+  const fetchSessions = async () => {
+    try {
+      const response = await apiClient.getSessions();
+      if (response.data) {
+        setSessions(response.data.sessions);
+      }
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (session: Session) => {
+    if (
+      session.current &&
+      !confirm("This will log you out of this browser. Continue?")
+    )
+      return;
+
+    const response = await apiClient.revokeSession(session.id);
+    if (response.error) {
+      showToast({
+        type: "error",
+        title: "Could not revoke session",
+        message: response.error,
+      });
+      return;
+    }
+
+    if (session.current) {
+      logout();
+      return;
+    }
+    fetchSessions();
+  };
+
+  const handleRevokeOthers = async () => {
+    const response = await apiClient.revokeOtherSessions();
+    if (response.error) {
+      showToast({
+        type: "error",
+        title: "Could not revoke sessions",
+        message: response.error,
+      });
+      return;
+    }
+
+    showToast({
+      type: "success",
+      title: "Sessions Revoked",
+      message: "All your other devices have been signed out.",
+    });
+    fetchSessions();
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <div className="flex items-center space-x-2">
+              <Monitor className="h-5 w-5" />
+              <CardTitle>Sessions</CardTitle>
+            </div>
+            <CardDescription>
+              Devices that are logged in to your account
+            </CardDescription>
+          </div>
+          {hasOtherSessions && (
+            <Button variant="outline" size="sm" onClick={handleRevokeOthers}>
+              Sign out other devices
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading sessions...</p>
+        ) : (
+          <div className="divide-y">
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                className="flex items-center justify-between py-3"
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">
+                      {describeDevice(session.userAgent)}
+                    </span>
+                    {session.current && (
+                      <Badge variant="secondary">This device</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {session.ipAddress || "Unknown IP"} · Last active{" "}
+                    {new Date(session.lastUsedAt).toLocaleString()} · Signed
+                    in {new Date(session.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevoke(session)}
+                  title="Revoke session"
+                >
+                  <LogOut className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState, useEffect } from "react";
+import { Button } from "./ui/Button";
+import { Input } from "./ui/Input";
+import { Badge } from "./ui/Badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/Card";
+import { useToast } from "../contexts/ToastContext";
+import { useAuth } from "../hooks/useAuth";
+import { apiClient } from "../lib/api";
+import type { TwoFactorStatus } from "../lib/api";
+import { ShieldCheck, AlertTriangle } from "lucide-react";
+
+type PasswordAction = "disable" | "regenerate";
+
+const PASSWORD_ACTIONS: Record<
+  PasswordAction,
+  { label: string; description: string }
+> = {
+  disable: {
+    label: "Disable",
+    description: "Enter your password to turn off two-factor authentication.",
+  },
+  regenerate: {
+    label: "Generate new codes",
+    description:
+      "Enter your password to replace your recovery codes. The old codes stop working.",
+  },
+};
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<{
+    secret: string;
+    otpauthUri: string;
+  } | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(
+    null
+  );
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { showToast } = useToast();
+  const { refreshUser } = useAuth();
+
+  const fetchStatus = async () => {
+    try {
+      const response = await apiClient.getTwoFactorStatus();
+      if (response.data) {
+        setStatus(response.data);
+      }
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const showError = (title: string, message?: string) => {
+    showToast({ type: "error", title, message });
+  };
+
+  const handleStartSetup = async () => {
+    const response = await apiClient.setupTwoFactor();
+    if (response.data) {
+      setSetup(response.data);
+      setCode("");
+    } else {
+      showError("Could not start setup", response.error);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsSubmitting(true);
+    const response = await apiClient.enableTwoFactor(code.trim());
+    setIsSubmitting(false);
+
+    if (!response.data) {
+      showError("Could not enable two-factor authentication", response.error);
+      return;
+    }
+
+    setSetup(null);
+    setCode("");
+    setRecoveryCodes(response.data.recoveryCodes);
+    showToast({
+      type: "success",
+      title: "Two-Factor Authentication Enabled",
+      message: "You will be asked for a code the next time you sign in.",
+    });
+    fetchStatus();
+    refreshUser();
+  };
+
+  const handlePasswordAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordAction || !password) return;
+
+    setIsSubmitting(true);
+    if (passwordAction === "disable") {
+      const response = await apiClient.disableTwoFactor(password);
+      if (response.data) {
+        showToast({
+          type: "success",
+          title: "Two-Factor Authentication Disabled",
+          message: response.data.message,
+        });
+        setRecoveryCodes(null);
+      } else {
+        showError(
+          "Could not disable two-factor authentication",
+          response.error
+        );
+      }
+    } else {
+      const response = await apiClient.regenerateRecoveryCodes(password);
+      if (response.data) {
+        setRecoveryCodes(response.data.recoveryCodes);
+      } else {
+        showError("Could not generate recovery codes", response.error);
+      }
+    }
+    setIsSubmitting(false);
+    setPassword("");
+    setPasswordAction(null);
+    fetchStatus();
+    refreshUser();
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      showToast({ type: "success", title: "Recovery codes copied" });
+    } catch {
+      showError("Could not copy recovery codes");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          {status?.enabled && <Badge variant="secondary">Enabled</Badge>}
+        </div>
+        <CardDescription>
+          Protect your account with a code from an authenticator app
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status?.required && !status.enabled && (
+          <div className="flex items-start space-x-2 p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>
+              Your administrator requires two-factor authentication. Set it up
+              to continue using the app.
+            </span>
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Save these recovery codes somewhere safe. Each one lets you sign
+              in once if you lose access to your authenticator app. They will
+              not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 p-3 font-mono text-sm bg-muted rounded-md">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={handleCopyCodes}>
+                Copy codes
+              </Button>
+              <Button size="sm" onClick={() => setRecoveryCodes(null)}>
+                I have saved them
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status && !status.enabled && !setup && (
+          <Button onClick={handleStartSetup}>
+            Set up two-factor authentication
+          </Button>
+        )}
+
+        {setup && (
+          <form onSubmit={handleEnable} className="space-y-3">
+            <p className="text-sm">
+              Add this account to your authenticator app by opening the setup
+              link on your phone, or by entering the key below manually.
+            </p>
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Setup key</p>
+              <p className="p-2 font-mono text-sm break-all bg-muted rounded-md">
+                {setup.secret}
+              </p>
+              <a
+                href={setup.otpauthUri}
+                className="text-sm font-medium text-primary hover:underline"
+              >
+                Open in authenticator app
+              </a>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="totp-code" className="text-sm font-medium">
+                Enter the 6-digit code from the app
+              </label>
+              <Input
+                id="totp-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="flex space-x-2">
+              <Button type="submit" disabled={isSubmitting || !code.trim()}>
+                {isSubmitting ? "Verifying..." : "Enable"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setSetup(null)}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {status?.enabled && !passwordAction && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesRemaining} recovery codes left
+            </p>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPasswordAction("regenerate")}
+              >
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setPasswordAction("disable")}
+                >
+                  Disable
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {passwordAction && (
+          <form onSubmit={handlePasswordAction} className="space-y-3">
+            <p className="text-sm">
+              {PASSWORD_ACTIONS[passwordAction].description}
+            </p>
+            <Input
+              type="password"
+              placeholder="Current password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <div className="flex space-x-2">
+              <Button
+                type="submit"
+                variant={
+                  passwordAction === "disable" ? "destructive" : "default"
+                }
+                disabled={isSubmitting || !password}
+              >
+                {PASSWORD_ACTIONS[passwordAction].label}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setPasswordAction(null);
+                  setPassword("");
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
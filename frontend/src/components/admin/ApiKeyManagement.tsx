@@ -0,0 +1,144 @@
+import { useState, useEffect } from "react";
+import { Button } from "../ui/Button";
+import { Badge } from "../ui/Badge";
+import { Card, CardContent } from "../ui/Card";
+import { useToast } from "../../contexts/ToastContext";
+import { apiClient } from "../../lib/api";
+import type { AdminApiKey } from "../../lib/api";
+import { describeScopes } from "../../lib/apiKeys";
+import { Trash2 } from "lucide-react";
+
+export default function ApiKeyManagement() {
+  const { showToast } = useToast();
+  const [apiKeys, setApiKeys] = useState<AdminApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchApiKeys = async () => {
+    try {
+      const response = await apiClient.getAllApiKeys();
+      if (response.data) {
+        setApiKeys(response.data.apiKeys);
+      }
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, []);
+
+  const handleRevoke = async (apiKey: AdminApiKey) => {
+    if (
+      !confirm(
+        `Revoke the API key "${apiKey.name}" of ${apiKey.owner.firstName} ${apiKey.owner.lastName}? Scripts using it will stop working.`
+      )
+    )
+      return;
+
+    const response = await apiClient.revokeUserApiKey(apiKey.id);
+    if (response.error) {
+      showToast({
+        type: "error",
+        title: "Could not revoke API key",
+        message: response.error,
+      });
+      return;
+    }
+    fetchApiKeys();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg">Loading API keys...</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardContent className="p-4">
+          <h2 className="text-lg font-semibold">API Keys</h2>
+          <p className="text-sm text-muted-foreground">
+            Personal API keys of every user. Users create their own keys from
+            their profile.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {apiKeys.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No API keys</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="border-b bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-medium">Key</th>
+                  <th className="text-left p-4 font-medium">Owner</th>
+                  <th className="text-left p-4 font-medium">Access</th>
+                  <th className="text-left p-4 font-medium">Last Used</th>
+                  <th className="text-left p-4 font-medium">Expires</th>
+                  <th className="text-right p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {apiKeys.map((apiKey) => (
+                  <tr key={apiKey.id} className="border-b">
+                    <td className="p-4">
+                      <div className="font-medium">{apiKey.name}</div>
+                      <code className="text-xs text-muted-foreground">
+                        {apiKey.prefix}…
+                      </code>
+                    </td>
+                    <td className="p-4">
+                      <div className="font-medium">
+                        {apiKey.owner.firstName} {apiKey.owner.lastName}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {apiKey.owner.email}
+                      </div>
+                    </td>
+                    <td className="p-4 text-sm">
+                      {describeScopes(apiKey.scopes)}
+                    </td>
+                    <td className="p-4 text-sm">
+                      {apiKey.lastUsedAt
+                        ? new Date(apiKey.lastUsedAt).toLocaleString()
+                        : "Never"}
+                    </td>
+                    <td className="p-4 text-sm">
+                      {apiKey.expired && (
+                        <Badge variant="destructive">Expired</Badge>
+                      )}
+                      {!apiKey.expired &&
+                        (apiKey.expiresAt
+                          ? new Date(apiKey.expiresAt).toLocaleDateString()
+                          : "Never")}
+                    </td>
+                    <td className="p-4 text-right">
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleRevoke(apiKey)}
+                        title="Revoke API key"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { Badge } from "../ui/Badge";
+import { Card, CardContent } from "../ui/Card";
+import { apiClient } from "../../lib/api";
+import type { AuditAction, AuditEntityType, AuditEntry } from "../../lib/api";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  formatAuditField,
+  formatAuditValue,
+  listedAuditChanges,
+} from "../../lib/auditLog";
+import { Search } from "lucide-react";
+
+const DESTRUCTIVE_ACTIONS: AuditAction[] = ["delete", "revoke", "deactivate"];
+
+// The record an entry is about, plus the one it belongs to for shares and
+// team members
+const recordName = (entry: AuditEntry): string => {
+  const name = `${AUDIT_ENTITY_TYPES[entry.entityType]} ${
+    entry.entityLabel || `#${entry.entityId}`
+  }`;
+  return entry.parentType
+    ? `${name} on ${AUDIT_ENTITY_TYPES[entry.parentType].toLowerCase()} #${entry.parentId}`
+    : name;
+};
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [actionFilter, setActionFilter] = useState("");
+  const [entityTypeFilter, setEntityTypeFilter] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const response = await apiClient.getAuditLog({
+        page: currentPage,
+        limit: 50,
+        search: searchTerm || undefined,
+        action: (actionFilter as AuditAction) || undefined,
+        entityType: (entityTypeFilter as AuditEntityType) || undefined,
+        // Whole days, in the admin's time zone
+        from: fromDate
+          ? new Date(`${fromDate}T00:00:00`).toISOString()
+          : undefined,
+        to: toDate
+          ? new Date(`${toDate}T23:59:59.999`).toISOString()
+          : undefined,
+      });
+      if (response.data) {
+        setEntries(response.data.entries);
+        setTotalPages(response.data.pagination.totalPages);
+      }
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    currentPage,
+    searchTerm,
+    actionFilter,
+    entityTypeFilter,
+    fromDate,
+    toDate,
+  ]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchTerm(searchInput.trim());
+    setCurrentPage(1);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg">Loading audit log...</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardContent className="p-4 space-y-4">
+          <form onSubmit={handleSearch} className="flex gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by user, record or IP address..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Button type="submit">Search</Button>
+          </form>
+          <div className="flex flex-wrap gap-4">
+            <Select
+              value={actionFilter}
+              onChange={(e) => {
+                setActionFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+            >
+              <option value="">All actions</option>
+              {Object.entries(AUDIT_ACTIONS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+            <Select
+              value={entityTypeFilter}
+              onChange={(e) => {
+                setEntityTypeFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+            >
+              <option value="">All records</option>
+              {Object.entries(AUDIT_ENTITY_TYPES).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+            <Input
+              type="date"
+              className="w-auto"
+              value={fromDate}
+              onChange={(e) => {
+                setFromDate(e.target.value);
+                setCurrentPage(1);
+              }}
+            />
+            <Input
+              type="date"
+              className="w-auto"
+              value={toDate}
+              onChange={(e) => {
+                setToDate(e.target.value);
+                setCurrentPage(1);
+              }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {entries.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No changes found</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="border-b bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-medium">Time</th>
+                  <th className="text-left p-4 font-medium">User</th>
+                  <th className="text-left p-4 font-medium">Action</th>
+                  <th className="text-left p-4 font-medium">Record</th>
+                  <th className="text-left p-4 font-medium">Changes</th>
+                  <th className="text-left p-4 font-medium">IP Address</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-b align-top">
+                    <td className="p-4 text-sm text-muted-foreground whitespace-nowrap">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="p-4 text-sm">
+                      {entry.actor?.email || "System"}
+                      {entry.apiKeyId && (
+                        <div className="text-muted-foreground">
+                          with API key
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      <Badge
+                        variant={
+                          DESTRUCTIVE_ACTIONS.includes(entry.action)
+                            ? "destructive"
+                            : "secondary"
+                        }
+                      >
+                        {AUDIT_ACTIONS[entry.action]}
+                      </Badge>
+                    </td>
+                    <td className="p-4 text-sm">{recordName(entry)}</td>
+                    <td className="p-4 text-sm text-muted-foreground">
+                      {listedAuditChanges(entry).map(([field, change]) => (
+                        <div key={field} className="break-words">
+                          {formatAuditField(field)}:{" "}
+                          {formatAuditValue(change.from)} →{" "}
+                          {formatAuditValue(change.to)}
+                        </div>
+                      ))}
+                    </td>
+                    <td
+                      className="p-4 text-sm text-muted-foreground"
+                      title={entry.userAgent || undefined}
+                    >
+                      {entry.ipAddress || "Unknown"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex justify-center items-center p-4 border-t">
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage - 1)}
+                  disabled={currentPage <= 1}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage + 1)}
+                  disabled={currentPage >= totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
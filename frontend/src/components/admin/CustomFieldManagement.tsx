@@ -0,0 +1,373 @@
+import { useState, useEffect } from "react";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Textarea } from "../ui/Textarea";
+import { Select } from "../ui/Select";
+import { Badge } from "../ui/Badge";
+import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
+import { useToast } from "../../contexts/ToastContext";
+import { apiClient } from "../../lib/api";
+import type {
+  CustomField,
+  CustomFieldEntity,
+  CustomFieldType,
+} from "../../lib/api";
+import {
+  CUSTOM_FIELD_ENTITY_LABELS,
+  CUSTOM_FIELD_TYPE_LABELS,
+  OPTION_FIELD_TYPES,
+} from "../../lib/customFields";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+interface CustomFieldFormData {
+  key: string;
+  label: string;
+  fieldType: CustomFieldType;
+  // One option per line
+  options: string;
+  isRequired: boolean;
+}
+
+const EMPTY_FORM: CustomFieldFormData = {
+  key: "",
+  label: "",
+  fieldType: "text",
+  options: "",
+  isRequired: false,
+};
+
+const parseOptions = (options: string): string[] =>
+  options
+    .split("\n")
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+export default function CustomFieldManagement() {
+  const { showToast } = useToast();
+  const [entityType, setEntityType] = useState<CustomFieldEntity>("contact");
+  const [fields, setFields] = useState<CustomField[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingField, setEditingField] = useState<CustomField | null>(null);
+  const [formData, setFormData] = useState<CustomFieldFormData>(EMPTY_FORM);
+
+  const fetchFields = async (type: CustomFieldEntity) => {
+    try {
+      const response = await apiClient.getCustomFields(type);
+      if (response.data) {
+        setFields(response.data.customFields);
+      }
+    } catch (error) {
+      console.error("Error fetching custom fields:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFields(entityType);
+  }, [entityType]);
+
+  const showError = (title: string, message?: string) =>
+    showToast({ type: "error", title, message });
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingField(null);
+    setShowForm(false);
+  };
+
+  const handleEdit = (field: CustomField) => {
+    setEditingField(field);
+    setFormData({
+      key: field.key,
+      label: field.label,
+      fieldType: field.fieldType,
+      options: field.options.join("\n"),
+      isRequired: field.isRequired,
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.label.trim()) return;
+
+    const fieldData = {
+      label: formData.label.trim(),
+      isRequired: formData.isRequired,
+      ...(OPTION_FIELD_TYPES.includes(formData.fieldType) && {
+        options: parseOptions(formData.options),
+      }),
+    };
+
+    if (
+      editingField?.options.some(
+        (option) => !fieldData.options?.includes(option)
+      ) &&
+      !confirm(
+        "Records using a removed option will lose that value. Save anyway?"
+      )
+    ) {
+      return;
+    }
+
+    const response = editingField
+      ? await apiClient.updateCustomField(editingField.id, fieldData)
+      : await apiClient.createCustomField({
+          ...fieldData,
+          entityType,
+          key: formData.key.trim(),
+          fieldType: formData.fieldType,
+        });
+
+    if (response.error) {
+      showError("Could not save custom field", response.error);
+      return;
+    }
+
+    resetForm();
+    fetchFields(entityType);
+  };
+
+  const handleDelete = async (field: CustomField) => {
+    if (
+      !confirm(
+        `Delete the field "${field.label}"? Its values are removed from every record.`
+      )
+    )
+      return;
+
+    const response = await apiClient.deleteCustomField(field.id);
+    if (response.error) {
+      showError("Could not delete custom field", response.error);
+      return;
+    }
+    fetchFields(entityType);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg">Loading custom fields...</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardContent className="p-4">
+          <div className="flex justify-between items-center gap-4">
+            <div>
+              <h2 className="text-lg font-semibold">Custom Fields</h2>
+              <p className="text-sm text-muted-foreground">
+                Extra fields shown on record forms, lists and filters.
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Select
+                value={entityType}
+                onChange={(e) =>
+                  setEntityType(e.target.value as CustomFieldEntity)
+                }
+              >
+                {Object.entries(CUSTOM_FIELD_ENTITY_LABELS).map(
+                  ([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  )
+                )}
+              </Select>
+              <Button onClick={() => setShowForm(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Field
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Custom Field Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-white/20 backdrop-blur-sm flex items-center justify-center z-50">
+          <Card className="w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <CardHeader>
+              <CardTitle>
+                {editingField
+                  ? "Edit Custom Field"
+                  : `Add ${CUSTOM_FIELD_ENTITY_LABELS[entityType]} Field`}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium">Label *</label>
+                  <Input
+                    value={formData.label}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        label: e.target.value,
+                      }))
+                    }
+                  />
+                </div>
+                {!editingField && (
+                  <>
+                    <div>
+                      <label className="text-sm font-medium">Key *</label>
+                      <Input
+                        value={formData.key}
+                        onChange={(e) =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            key: e.target.value,
+                          }))
+                        }
+                        placeholder="e.g. lead_source"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Lowercase letters, digits and underscores. Used in
+                        filters and exports; can't be changed later.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium">Type *</label>
+                      <Select
+                        value={formData.fieldType}
+                        onChange={(e) =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            fieldType: e.target.value as CustomFieldType,
+                          }))
+                        }
+                      >
+                        {Object.entries(CUSTOM_FIELD_TYPE_LABELS).map(
+                          ([value, label]) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          )
+                        )}
+                      </Select>
+                    </div>
+                  </>
+                )}
+                {OPTION_FIELD_TYPES.includes(formData.fieldType) && (
+                  <div>
+                    <label className="text-sm font-medium">Options *</label>
+                    <Textarea
+                      value={formData.options}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          options: e.target.value,
+                        }))
+                      }
+                      rows={4}
+                      placeholder="One option per line"
+                    />
+                  </div>
+                )}
+                <label className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formData.isRequired}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        isRequired: e.target.checked,
+                      }))
+                    }
+                  />
+                  <span>Required</span>
+                </label>
+                <div className="flex justify-end space-x-2 pt-4">
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={
+                      !formData.label.trim() ||
+                      (!editingField && !formData.key.trim())
+                    }
+                  >
+                    {editingField ? "Update Field" : "Create Field"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Custom Fields List */}
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          {fields.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              No custom fields for{" "}
+              {CUSTOM_FIELD_ENTITY_LABELS[entityType].toLowerCase()} yet.
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="border-b bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-medium">Label</th>
+                  <th className="text-left p-4 font-medium">Key</th>
+                  <th className="text-left p-4 font-medium">Type</th>
+                  <th className="text-left p-4 font-medium">Options</th>
+                  <th className="text-left p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((field) => (
+                  <tr key={field.id} className="border-b">
+                    <td className="p-4">
+                      <div className="flex items-center space-x-2">
+                        <span>{field.label}</span>
+                        {field.isRequired && (
+                          <Badge variant="secondary">Required</Badge>
+                        )}
+                      </div>
+                    </td>
+                    <td className="p-4 font-mono text-sm">{field.key}</td>
+                    <td className="p-4">
+                      {CUSTOM_FIELD_TYPE_LABELS[field.fieldType]}
+                    </td>
+                    <td className="p-4 text-sm text-muted-foreground">
+                      {field.options.join(", ") || "-"}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(field)}
+                          title="Edit field"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(field)}
+                          title="Delete field"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState, useEffect } from "react";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { Badge } from "../ui/Badge";
+import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
+import { useToast } from "../../contexts/ToastContext";
+import { apiClient } from "../../lib/api";
+import type { Invitation, Role } from "../../lib/api";
+import { Mail, Send, X } from "lucide-react";
+
+interface InvitationFormData {
+  email: string;
+  role: string;
+}
+
+export default function InvitationManagement() {
+  const { showToast } = useToast();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [formData, setFormData] = useState<InvitationFormData>({
+    email: "",
+    role: "user",
+  });
+
+  const fetchInvitations = async () => {
+    try {
+      const response = await apiClient.getInvitations();
+      if (response.data) {
+        setInvitations(response.data.invitations);
+      }
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchInvitations();
+    apiClient.getRoles().then((response) => {
+      if (response.data) {
+        setRoles(response.data.roles);
+      }
+    });
+  }, []);
+
+  const roleLabel = (name: string) =>
+    roles.find((role) => role.name === name)?.label || name;
+
+  const showError = (title: string, message?: string) =>
+    showToast({ type: "error", title, message });
+
+  const resetForm = () => {
+    setFormData({ email: "", role: "user" });
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.email.trim()) return;
+
+    setIsSending(true);
+    const response = await apiClient.createInvitation(
+      formData.email.trim(),
+      formData.role
+    );
+    setIsSending(false);
+
+    if (!response.data) {
+      showError("Could not invite user", response.error);
+      return;
+    }
+
+    if (response.data.emailSent) {
+      showToast({
+        type: "success",
+        title: "Invitation sent",
+        message: `We emailed an invitation to ${response.data.email}`,
+      });
+    } else {
+      showToast({
+        type: "warning",
+        title: "Invitation created",
+        message:
+          "The email could not be sent. Check the mail settings and resend it.",
+      });
+    }
+
+    resetForm();
+    fetchInvitations();
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    const response = await apiClient.resendInvitation(invitation.id);
+    if (response.error) {
+      showError("Could not resend invitation", response.error);
+      return;
+    }
+
+    showToast({
+      type: "success",
+      title: "Invitation sent",
+      message: `We emailed a new link to ${invitation.email}. The previous link no longer works.`,
+    });
+    fetchInvitations();
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (
+      !confirm(
+        `Revoke the invitation for ${invitation.email}? Their link will stop working.`
+      )
+    )
+      return;
+
+    const response = await apiClient.revokeInvitation(invitation.id);
+    if (response.error) {
+      showError("Could not revoke invitation", response.error);
+      return;
+    }
+    fetchInvitations();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg">Loading invitations...</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardContent className="p-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-lg font-semibold">Invitations</h2>
+              <p className="text-sm text-muted-foreground">
+                Invited people choose their own password. Pending invitations
+                count toward the maximum number of users.
+              </p>
+            </div>
+            <Button onClick={() => setShowForm(true)}>
+              <Mail className="mr-2 h-4 w-4" />
+              Invite User
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Invitation Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-white/20 backdrop-blur-sm flex items-center justify-center z-50">
+          <Card className="w-full max-w-md">
+            <CardHeader>
+              <CardTitle>Invite User</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium">Email *</label>
+                  <Input
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        email: e.target.value,
+                      }))
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Role</label>
+                  <Select
+                    value={formData.role}
+                    onChange={(e) =>
+                      setFormData((prev) => ({ ...prev, role: e.target.value }))
+                    }
+                  >
+                    {roles.map((role) => (
+                      <option key={role.name} value={role.name}>
+                        {role.label}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div className="flex justify-end space-x-2 pt-4">
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={!formData.email.trim() || isSending}
+                  >
+                    {isSending ? "Sending..." : "Send Invitation"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          {invitations.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No pending invitations</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="border-b bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-medium">Email</th>
+                  <th className="text-left p-4 font-medium">Role</th>
+                  <th className="text-left p-4 font-medium">Invited By</th>
+                  <th className="text-left p-4 font-medium">Expires</th>
+                  <th className="text-right p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invitations.map((invitation) => (
+                  <tr key={invitation.id} className="border-b">
+                    <td className="p-4 font-medium">{invitation.email}</td>
+                    <td className="p-4">
+                      <Badge variant="outline">
+                        {roleLabel(invitation.role)}
+                      </Badge>
+                    </td>
+                    <td className="p-4 text-sm text-muted-foreground">
+                      {invitation.invitedBy || "-"}
+                    </td>
+                    <td className="p-4 text-sm">
+                      {invitation.expired ? (
+                        <Badge variant="destructive">Expired</Badge>
+                      ) : (
+                        new Date(invitation.expiresAt).toLocaleDateString()
+                      )}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleResend(invitation)}
+                          title="Resend invitation"
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleRevoke(invitation)}
+                          title="Revoke invitation"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
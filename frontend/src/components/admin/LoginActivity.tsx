@@ -0,0 +1,181 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { Badge } from "../ui/Badge";
+import { Card, CardContent } from "../ui/Card";
+import { apiClient } from "../../lib/api";
+import type { LoginAttempt } from "../../lib/api";
+import { Search } from "lucide-react";
+
+const FAILURE_REASONS: Record<NonNullable<LoginAttempt["reason"]>, string> = {
+  invalid_credentials: "Wrong password",
+  invalid_code: "Wrong 2FA code",
+  email_unverified: "Email not verified",
+  locked: "Account locked",
+  throttled: "Too many attempts",
+  ip_blocked: "IP address blocked",
+  password_disabled: "Password login off",
+  sso_denied: "SSO sign-in refused",
+  deactivated: "Account deactivated",
+};
+
+// Select value -> success filter
+const RESULT_FILTERS: Record<string, boolean | undefined> = {
+  all: undefined,
+  failed: false,
+  succeeded: true,
+};
+
+export default function LoginActivity() {
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [resultFilter, setResultFilter] = useState("all");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  const fetchAttempts = useCallback(async () => {
+    try {
+      const response = await apiClient.getLoginAttempts({
+        page: currentPage,
+        limit: 50,
+        search: searchTerm || undefined,
+        success: RESULT_FILTERS[resultFilter],
+      });
+      if (response.data) {
+        setAttempts(response.data.attempts);
+        setTotalPages(response.data.pagination.totalPages);
+      }
+    } catch (error) {
+      console.error("Error fetching login attempts:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage, searchTerm, resultFilter]);
+
+  useEffect(() => {
+    fetchAttempts();
+  }, [fetchAttempts]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchTerm(searchInput.trim());
+    setCurrentPage(1);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg">Loading login activity...</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardContent className="p-4">
+          <form onSubmit={handleSearch} className="flex gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by email or IP address..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select
+              value={resultFilter}
+              onChange={(e) => {
+                setResultFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+            >
+              <option value="all">All attempts</option>
+              <option value="failed">Failed</option>
+              <option value="succeeded">Successful</option>
+            </Select>
+            <Button type="submit">Search</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {attempts.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No login attempts found</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="border-b bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-medium">Time</th>
+                  <th className="text-left p-4 font-medium">Email</th>
+                  <th className="text-left p-4 font-medium">IP Address</th>
+                  <th className="text-left p-4 font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {attempts.map((attempt) => (
+                  <tr key={attempt.id} className="border-b">
+                    <td className="p-4 text-sm text-muted-foreground">
+                      {new Date(attempt.createdAt).toLocaleString()}
+                    </td>
+                    <td className="p-4">{attempt.email}</td>
+                    <td
+                      className="p-4 text-sm text-muted-foreground"
+                      title={attempt.userAgent || undefined}
+                    >
+                      {attempt.ipAddress || "Unknown"}
+                    </td>
+                    <td className="p-4">
+                      {attempt.success ? (
+                        <Badge variant="secondary">Signed in</Badge>
+                      ) : (
+                        <Badge variant="destructive">
+                          {attempt.reason
+                            ? FAILURE_REASONS[attempt.reason]
+                            : "Failed"}
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex justify-center items-center p-4 border-t">
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage - 1)}
+                  disabled={currentPage <= 1}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage + 1)}
+                  disabled={currentPage >= totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
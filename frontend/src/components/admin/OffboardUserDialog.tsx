@@ -0,0 +1,260 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "../ui/Button";
+import { Select } from "../ui/Select";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "../ui/Card";
+import { useToast } from "../../contexts/ToastContext";
+import { apiClient } from "../../lib/api";
+import type {
+  Team,
+  User,
+  UserDeletionPreview,
+  UserRecordCounts,
+} from "../../lib/api";
+
+const RECORD_KINDS: { key: keyof UserRecordCounts; label: string }[] = [
+  { key: "contacts", label: "Contacts" },
+  { key: "organizations", label: "Organizations" },
+  { key: "deals", label: "Deals" },
+  { key: "activities", label: "Activities" },
+  { key: "contactNotes", label: "Contact notes" },
+  { key: "activityNotes", label: "Activity notes" },
+  { key: "sharesGiven", label: "Shares they made" },
+  { key: "sharesReceived", label: "Shares with them" },
+  { key: "dealStages", label: "Deal stages" },
+  { key: "teamMemberships", label: "Team memberships" },
+  { key: "apiKeys", label: "API keys" },
+];
+
+interface OffboardUserDialogProps {
+  user: User;
+  onClose: () => void;
+  // Called after the user was deactivated, deleted or lost their records
+  onChange: () => void;
+}
+
+// Delete a user safely: shows what would be deleted with them and lets the
+// records be given to someone else first, or the user deactivated instead
+export default function OffboardUserDialog({
+  user,
+  onClose,
+  onChange,
+}: OffboardUserDialogProps) {
+  const { showToast } = useToast();
+  const [preview, setPreview] = useState<UserDeletionPreview | null>(null);
+  const [users, setUsers] = useState<User[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [toUserId, setToUserId] = useState("");
+  const [teamId, setTeamId] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const userName = `${user.firstName || user.first_name} ${
+    user.lastName || user.last_name
+  }`;
+
+  const fetchPreview = useCallback(async () => {
+    const response = await apiClient.previewUserDeletion(user.id);
+    if (response.error) {
+      showToast({
+        type: "error",
+        title: "Could not load the user's records",
+        message: response.error,
+      });
+      return;
+    }
+    setPreview(response.data || null);
+  }, [user.id, showToast]);
+
+  useEffect(() => {
+    fetchPreview();
+    apiClient.getUsers({ limit: 100, status: "active" }).then((response) => {
+      if (response.data) {
+        setUsers(response.data.users.filter((other) => other.id !== user.id));
+      }
+    });
+    apiClient.getTeams().then((response) => {
+      if (response.data) {
+        setTeams(response.data.teams);
+      }
+    });
+  }, [fetchPreview, user.id]);
+
+  const handleTransfer = async () => {
+    setIsWorking(true);
+    const response = await apiClient.transferUserRecords(user.id, {
+      ...(toUserId && { toUserId: parseInt(toUserId) }),
+      ...(teamId && { teamId: parseInt(teamId) }),
+    });
+    setIsWorking(false);
+
+    if (response.error) {
+      showToast({
+        type: "error",
+        title: "Could not transfer records",
+        message: response.error,
+      });
+      return;
+    }
+
+    showToast({ type: "success", title: "Records transferred" });
+    onChange();
+    fetchPreview();
+  };
+
+  const handleDeactivate = async () => {
+    setIsWorking(true);
+    const response = await apiClient.deactivateUser(user.id);
+    setIsWorking(false);
+
+    if (response.error) {
+      showToast({
+        type: "error",
+        title: "Could not deactivate user",
+        message: response.error,
+      });
+      return;
+    }
+
+    onChange();
+    onClose();
+  };
+
+  const handleDelete = async () => {
+    const force = !!preview?.requiresTransfer;
+    if (
+      force &&
+      !confirm(
+        `Delete ${userName} and every record they own? This cannot be undone.`
+      )
+    )
+      return;
+
+    setIsWorking(true);
+    const response = await apiClient.deleteUser(user.id, force);
+    setIsWorking(false);
+
+    if (response.error) {
+      showToast({
+        type: "error",
+        title: "Could not delete user",
+        message: response.error,
+      });
+      return;
+    }
+
+    onChange();
+    onClose();
+  };
+
+  const affectedRecords = preview
+    ? RECORD_KINDS.filter(({ key }) => preview.records[key] > 0)
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-white/20 backdrop-blur-sm flex items-center justify-center z-50">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <CardTitle>Remove {userName}</CardTitle>
+          <CardDescription>{user.email}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!preview ? (
+            <p className="text-sm text-muted-foreground">
+              Loading the user's records...
+            </p>
+          ) : (
+            <div>
+              <p className="text-sm font-medium mb-2">
+                Deleting this user also deletes:
+              </p>
+              {affectedRecords.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing else</p>
+              ) : (
+                <ul className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  {affectedRecords.map(({ key, label }) => (
+                    <li key={key} className="flex justify-between">
+                      <span className="text-muted-foreground">{label}</span>
+                      <span>{preview.records[key]}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {preview?.requiresTransfer && (
+            <div className="space-y-3 border-t pt-4">
+              <div>
+                <p className="text-sm font-medium">Transfer records</p>
+                <p className="text-sm text-muted-foreground">
+                  Give their contacts, organizations, deals, activities, notes
+                  and shares to another user. Choosing only a team gives them to
+                  the team's owner.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <Select
+                  value={toUserId}
+                  onChange={(e) => setToUserId(e.target.value)}
+                >
+                  <option value="">Choose a user</option>
+                  {users.map((other) => (
+                    <option key={other.id} value={other.id}>
+                      {other.firstName} {other.lastName} ({other.email})
+                    </option>
+                  ))}
+                </Select>
+                <Select
+                  value={teamId}
+                  onChange={(e) => setTeamId(e.target.value)}
+                >
+                  <option value="">Keep their teams</option>
+                  {teams.map((team) => (
+                    <option key={team.id} value={team.id}>
+                      Assign to {team.name}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <Button
+                onClick={handleTransfer}
+                disabled={isWorking || (!toUserId && !teamId)}
+              >
+                Transfer Records
+              </Button>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2 border-t pt-4">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            {!user.deactivatedAt && (
+              <Button
+                variant="outline"
+                onClick={handleDeactivate}
+                disabled={isWorking}
+              >
+                Deactivate Instead
+              </Button>
+            )}
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={isWorking || !preview}
+            >
+              {preview?.requiresTransfer
+                ? "Delete With Records"
+                : "Delete User"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState, useEffect } from "react";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Textarea } from "../ui/Textarea";
+import { Badge } from "../ui/Badge";
+import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
+import { useToast } from "../../contexts/ToastContext";
+import { useAuth } from "../../hooks/useAuth";
+import { apiClient } from "../../lib/api";
+import type { Permission, Role } from "../../lib/api";
+import { ADMIN_ROLE, PERMISSION_LABELS } from "../../lib/permissions";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+interface RoleFormData {
+  name: string;
+  label: string;
+  description: string;
+  permissions: Permission[];
+}
+
+const EMPTY_FORM: RoleFormData = {
+  name: "",
+  label: "",
+  description: "",
+  permissions: [],
+};
+
+const togglePermission = (
+  permissions: Permission[],
+  permission: Permission
+): Permission[] =>
+  permissions.includes(permission)
+    ? permissions.filter((p) => p !== permission)
+    : [...permissions, permission];
+
+interface RoleManagementProps {
+  // Called after a role is added, changed or deleted
+  onChange?: () => void;
+}
+
+export default function RoleManagement({ onChange }: RoleManagementProps) {
+  const { showToast } = useToast();
+  const { user } = useAuth();
+  // Only admins add, change or delete roles; others can only look
+  const canEditRoles = user?.role === ADMIN_ROLE;
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [formData, setFormData] = useState<RoleFormData>(EMPTY_FORM);
+
+  const fetchRoles = async () => {
+    try {
+      const response = await apiClient.getRoles();
+      if (response.data) {
+        setRoles(response.data.roles);
+        setPermissions(response.data.permissions);
+      }
+    } catch (error) {
+      console.error("Error fetching roles:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const showError = (title: string, message?: string) =>
+    showToast({ type: "error", title, message });
+
+  const refresh = () => {
+    fetchRoles();
+    onChange?.();
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingRole(null);
+    setShowForm(false);
+  };
+
+  const handleEdit = (role: Role) => {
+    setEditingRole(role);
+    setFormData({
+      name: role.name,
+      label: role.label,
+      description: role.description || "",
+      permissions: role.permissions,
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.label.trim()) return;
+
+    const roleData = {
+      label: formData.label.trim(),
+      description: formData.description.trim(),
+      // The admin role's permissions are fixed
+      ...(editingRole?.name !== ADMIN_ROLE && {
+        permissions: formData.permissions,
+      }),
+    };
+    const response = editingRole
+      ? await apiClient.updateRole(editingRole.name, roleData)
+      : await apiClient.createRole({
+          ...roleData,
+          name: formData.name.trim(),
+          permissions: formData.permissions,
+        });
+
+    if (response.error) {
+      showError("Could not save role", response.error);
+      return;
+    }
+
+    resetForm();
+    refresh();
+  };
+
+  // Matrix checkboxes save straight away
+  const handleToggle = async (role: Role, permission: Permission) => {
+    const response = await apiClient.updateRole(role.name, {
+      permissions: togglePermission(role.permissions, permission),
+    });
+    if (response.error) {
+      showError("Could not update role", response.error);
+      return;
+    }
+    refresh();
+  };
+
+  const handleDelete = async (role: Role) => {
+    if (!confirm(`Delete the role "${role.label}"?`)) return;
+
+    const response = await apiClient.deleteRole(role.name);
+    if (response.error) {
+      showError("Could not delete role", response.error);
+      return;
+    }
+    refresh();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg">Loading roles...</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardContent className="p-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-lg font-semibold">Roles</h2>
+              <p className="text-sm text-muted-foreground">
+                What users with each role can do. Changes apply on their next
+                request.
+              </p>
+            </div>
+            {canEditRoles && (
+              <Button onClick={() => setShowForm(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Role
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Role Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-white/20 backdrop-blur-sm flex items-center justify-center z-50">
+          <Card className="w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <CardHeader>
+              <CardTitle>
+                {editingRole ? "Edit Role" : "Add New Role"}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {!editingRole && (
+                  <div>
+                    <label className="text-sm font-medium">Name *</label>
+                    <Input
+                      value={formData.name}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          name: e.target.value,
+                        }))
+                      }
+                      placeholder="e.g. sales_rep"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Lowercase letters, digits and underscores. Can't be
+                      changed later.
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <label className="text-sm font-medium">Label *</label>
+                  <Input
+                    value={formData.label}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        label: e.target.value,
+                      }))
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Description</label>
+                  <Textarea
+                    value={formData.description}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        description: e.target.value,
+                      }))
+                    }
+                    rows={2}
+                  />
+                </div>
+                {editingRole?.name !== ADMIN_ROLE && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Permissions</label>
+                    {permissions.map((permission) => (
+                      <label
+                        key={permission}
+                        className="flex items-center space-x-2 text-sm"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={formData.permissions.includes(permission)}
+                          onChange={() =>
+                            setFormData((prev) => ({
+                              ...prev,
+                              permissions: togglePermission(
+                                prev.permissions,
+                                permission
+                              ),
+                            }))
+                          }
+                        />
+                        <span>{PERMISSION_LABELS[permission]}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                <div className="flex justify-end space-x-2 pt-4">
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={
+                      !formData.label.trim() ||
+                      (!editingRole && !formData.name.trim())
+                    }
+                  >
+                    {editingRole ? "Update Role" : "Create Role"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Permission Matrix */}
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          <table className="w-full">
+            <thead className="border-b bg-muted/50">
+              <tr>
+                <th className="text-left p-4 font-medium">Permission</th>
+                {roles.map((role) => (
+                  <th key={role.name} className="p-4 font-medium text-center">
+                    <div title={role.description || undefined}>
+                      {role.label}
+                    </div>
+                    <div className="text-xs font-normal text-muted-foreground">
+                      {role.userCount} user(s)
+                    </div>
+                    <div className="flex justify-center space-x-1 mt-2">
+                      {canEditRoles && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(role)}
+                          title="Edit role"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {role.isSystem ? (
+                        <Badge variant="secondary">Built-in</Badge>
+                      ) : (
+                        canEditRoles && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(role)}
+                            title="Delete role"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )
+                      )}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {permissions.map((permission) => (
+                <tr key={permission} className="border-b">
+                  <td className="p-4">{PERMISSION_LABELS[permission]}</td>
+                  {roles.map((role) => (
+                    <td key={role.name} className="p-4 text-center">
+                      <input
+                        type="checkbox"
+                        checked={role.permissions.includes(permission)}
+                        disabled={role.name === ADMIN_ROLE}
+                        onChange={() => handleToggle(role, permission)}
+                        aria-label={`${role.label}: ${PERMISSION_LABELS[permission]}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
+import { useToast } from "../../contexts/ToastContext";
+import { apiClient } from "../../lib/api";
+
+interface SsoField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  type?: string;
+}
+
+const TEXT_FIELDS: SsoField[] = [
+  {
+    key: "oidc_issuer",
+    label: "Issuer URL",
+    placeholder: "https://login.example.com/realms/crm",
+  },
+  { key: "oidc_client_id", label: "Client ID" },
+  { key: "oidc_client_secret", label: "Client Secret", type: "password" },
+  { key: "oidc_button_label", label: "Button Label" },
+  {
+    key: "oidc_role_claim",
+    label: "Role Claim",
+    placeholder: "e.g. groups or realm_access.roles",
+  },
+  {
+    key: "oidc_admin_values",
+    label: "Admin Values",
+    placeholder: "e.g. crm-admins",
+  },
+];
+
+// Saved after the text fields, so the provider is configured by the time
+// single sign-on is switched on
+const SWITCH_FIELDS: SsoField[] = [
+  { key: "oidc_auto_provision", label: "Create Accounts on First Sign-In" },
+  { key: "password_login_enabled", label: "Allow Password Sign-In" },
+  { key: "oidc_enabled", label: "Enable Single Sign-On" },
+];
+
+const SSO_FIELDS = [...TEXT_FIELDS, ...SWITCH_FIELDS];
+
+type SettingValues = Record<string, { value: string; description: string }>;
+
+export default function SsoSettings() {
+  const { showToast } = useToast();
+  const [saved, setSaved] = useState<SettingValues>({});
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [redirectUri, setRedirectUri] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSettings = async () => {
+    try {
+      const [settingsResponse, configResponse] = await Promise.all([
+        apiClient.getSystemSettings(),
+        apiClient.getSsoConfig(),
+      ]);
+      if (settingsResponse.data) {
+        const settings = settingsResponse.data.settings;
+        setSaved(settings);
+        setValues(
+          Object.fromEntries(
+            SSO_FIELDS.map((field) => [
+              field.key,
+              settings[field.key]?.value || "",
+            ])
+          )
+        );
+      }
+      if (configResponse.data) {
+        setRedirectUri(configResponse.data.redirectUri);
+      }
+    } catch (error) {
+      console.error("Error fetching SSO settings:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const handleChange = (key: string, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    for (const field of SSO_FIELDS) {
+      if (values[field.key] === saved[field.key]?.value) continue;
+
+      const response = await apiClient.updateSystemSetting(
+        field.key,
+        values[field.key]
+      );
+      if (response.error) {
+        showToast({
+          type: "error",
+          title: `Could not save ${field.label}`,
+          message: response.error,
+        });
+        break;
+      }
+    }
+    setIsSaving(false);
+
+    fetchSettings();
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle>Single Sign-On</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Redirect URI</label>
+            <p className="text-sm text-muted-foreground">
+              Register this URI with your OpenID Connect provider
+            </p>
+            <div className="p-3 font-mono text-sm bg-muted rounded-md break-all">
+              {redirectUri}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {TEXT_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <label className="text-sm font-medium">{field.label}</label>
+                <p className="text-sm text-muted-foreground">
+                  {saved[field.key]?.description}
+                </p>
+                <Input
+                  type={field.type || "text"}
+                  placeholder={field.placeholder}
+                  value={values[field.key] || ""}
+                  onChange={(e) => handleChange(field.key, e.target.value)}
+                />
+              </div>
+            ))}
+
+            {SWITCH_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <label className="text-sm font-medium">{field.label}</label>
+                <p className="text-sm text-muted-foreground">
+                  {saved[field.key]?.description}
+                </p>
+                <Select
+                  value={values[field.key] || "false"}
+                  onChange={(e) => handleChange(field.key, e.target.value)}
+                >
+                  <option value="true">Yes</option>
+                  <option value="false">No</option>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Admins can always sign in with a password, even when password
+            sign-in is turned off for everyone else.
+          </p>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
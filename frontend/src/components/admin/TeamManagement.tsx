@@ -0,0 +1,398 @@
+import { useState, useEffect } from "react";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Textarea } from "../ui/Textarea";
+import { Select } from "../ui/Select";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "../ui/Card";
+import { useToast } from "../../contexts/ToastContext";
+import { apiClient } from "../../lib/api";
+import type { Team, TeamRole, User } from "../../lib/api";
+import { Plus, Edit, Trash2, UserPlus, X } from "lucide-react";
+
+interface TeamFormData {
+  name: string;
+  description: string;
+}
+
+const TEAM_ROLES: { value: TeamRole; label: string; description: string }[] = [
+  {
+    value: "owner",
+    label: "Owner",
+    description: "Edit and delete team records",
+  },
+  {
+    value: "manager",
+    label: "Manager",
+    description: "Edit and delete team records",
+  },
+  { value: "member", label: "Member", description: "Edit team records" },
+  { value: "viewer", label: "Viewer", description: "View team records" },
+];
+
+export default function TeamManagement() {
+  const { showToast } = useToast();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingTeam, setEditingTeam] = useState<Team | null>(null);
+  const [formData, setFormData] = useState<TeamFormData>({
+    name: "",
+    description: "",
+  });
+  // New member picked per team, keyed by team id
+  const [newMembers, setNewMembers] = useState<
+    Record<number, { userId: string; role: TeamRole }>
+  >({});
+
+  const fetchTeams = async () => {
+    try {
+      const response = await apiClient.getTeams();
+      if (response.data) {
+        setTeams(response.data.teams);
+      }
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTeams();
+    apiClient.getUsers({ limit: 100 }).then((response) => {
+      if (response.data) {
+        setUsers(response.data.users);
+      }
+    });
+  }, []);
+
+  const showError = (title: string, message?: string) =>
+    showToast({ type: "error", title, message });
+
+  const resetForm = () => {
+    setFormData({ name: "", description: "" });
+    setEditingTeam(null);
+    setShowForm(false);
+  };
+
+  const handleEdit = (team: Team) => {
+    setEditingTeam(team);
+    setFormData({ name: team.name, description: team.description || "" });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    const teamData = {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+    };
+    const response = editingTeam
+      ? await apiClient.updateTeam(editingTeam.id, teamData)
+      : await apiClient.createTeam(teamData);
+
+    if (response.error) {
+      showError("Could not save team", response.error);
+      return;
+    }
+
+    resetForm();
+    fetchTeams();
+  };
+
+  const handleDelete = async (team: Team) => {
+    if (
+      !confirm(
+        `Delete the team "${team.name}"? Its records stay with their owners but are no longer visible to the team.`
+      )
+    )
+      return;
+
+    const response = await apiClient.deleteTeam(team.id);
+    if (response.error) {
+      showError("Could not delete team", response.error);
+      return;
+    }
+    fetchTeams();
+  };
+
+  const handleSaveMember = async (
+    teamId: number,
+    userId: number,
+    role: TeamRole
+  ) => {
+    const response = await apiClient.saveTeamMember(teamId, userId, role);
+    if (response.error) {
+      showError("Could not save team member", response.error);
+      return;
+    }
+    fetchTeams();
+  };
+
+  const handleAddMember = async (team: Team) => {
+    const newMember = newMembers[team.id];
+    if (!newMember?.userId) return;
+
+    await handleSaveMember(team.id, parseInt(newMember.userId), newMember.role);
+    setNewMembers((prev) => ({
+      ...prev,
+      [team.id]: { userId: "", role: "member" },
+    }));
+  };
+
+  const handleRemoveMember = async (teamId: number, userId: number) => {
+    const response = await apiClient.removeTeamMember(teamId, userId);
+    if (response.error) {
+      showError("Could not remove team member", response.error);
+      return;
+    }
+    fetchTeams();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg">Loading teams...</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardContent className="p-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-lg font-semibold">Teams</h2>
+              <p className="text-sm text-muted-foreground">
+                Records assigned to a team are visible to all of its members
+              </p>
+            </div>
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Team
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Team Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-white/20 backdrop-blur-sm flex items-center justify-center z-50">
+          <Card className="w-full max-w-md">
+            <CardHeader>
+              <CardTitle>
+                {editingTeam ? "Edit Team" : "Add New Team"}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium">Name *</label>
+                  <Input
+                    value={formData.name}
+                    onChange={(e) =>
+                      setFormData((prev) => ({ ...prev, name: e.target.value }))
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Description</label>
+                  <Textarea
+                    value={formData.description}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        description: e.target.value,
+                      }))
+                    }
+                    rows={3}
+                  />
+                </div>
+                <div className="flex justify-end space-x-2 pt-4">
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={!formData.name.trim()}>
+                    {editingTeam ? "Update Team" : "Create Team"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {teams.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <p className="text-muted-foreground">No teams yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {teams.map((team) => {
+            const newMember = newMembers[team.id] || {
+              userId: "",
+              role: "member" as TeamRole,
+            };
+            const availableUsers = users.filter(
+              (user) =>
+                !team.members.some((member) => member.userId === user.id)
+            );
+
+            return (
+              <Card key={team.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <CardTitle>{team.name}</CardTitle>
+                      <CardDescription>
+                        {team.description || `${team.members.length} member(s)`}
+                      </CardDescription>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit(team)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDelete(team)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {team.members.length > 0 && (
+                    <table className="w-full">
+                      <thead className="border-b bg-muted/50">
+                        <tr>
+                          <th className="text-left p-3 font-medium">Member</th>
+                          <th className="text-left p-3 font-medium">Role</th>
+                          <th className="text-right p-3 font-medium">
+                            Actions
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {team.members.map((member) => (
+                          <tr key={member.userId} className="border-b">
+                            <td className="p-3">
+                              <div className="font-medium">
+                                {member.firstName} {member.lastName}
+                              </div>
+                              <div className="text-sm text-muted-foreground">
+                                {member.email}
+                              </div>
+                            </td>
+                            <td className="p-3">
+                              <Select
+                                value={member.role}
+                                onChange={(e) =>
+                                  handleSaveMember(
+                                    team.id,
+                                    member.userId,
+                                    e.target.value as TeamRole
+                                  )
+                                }
+                              >
+                                {TEAM_ROLES.map((role) => (
+                                  <option key={role.value} value={role.value}>
+                                    {role.label} — {role.description}
+                                  </option>
+                                ))}
+                              </Select>
+                            </td>
+                            <td className="p-3 text-right">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() =>
+                                  handleRemoveMember(team.id, member.userId)
+                                }
+                                title="Remove from team"
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  {availableUsers.length > 0 && (
+                    <div className="flex gap-2">
+                      <div className="flex-1">
+                        <Select
+                          value={newMember.userId}
+                          onChange={(e) =>
+                            setNewMembers((prev) => ({
+                              ...prev,
+                              [team.id]: {
+                                ...newMember,
+                                userId: e.target.value,
+                              },
+                            }))
+                          }
+                        >
+                          <option value="">Select a user to add</option>
+                          {availableUsers.map((user) => (
+                            <option key={user.id} value={user.id.toString()}>
+                              {user.firstName} {user.lastName} ({user.email})
+                            </option>
+                          ))}
+                        </Select>
+                      </div>
+                      <Select
+                        value={newMember.role}
+                        onChange={(e) =>
+                          setNewMembers((prev) => ({
+                            ...prev,
+                            [team.id]: {
+                              ...newMember,
+                              role: e.target.value as TeamRole,
+                            },
+                          }))
+                        }
+                      >
+                        {TEAM_ROLES.map((role) => (
+                          <option key={role.value} value={role.value}>
+                            {role.label}
+                          </option>
+                        ))}
+                      </Select>
+                      <Button
+                        onClick={() => handleAddMember(team)}
+                        disabled={!newMember.userId}
+                      >
+                        <UserPlus className="mr-2 h-4 w-4" />
+                        Add
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
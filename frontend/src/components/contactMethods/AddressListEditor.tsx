@@ -0,0 +1,119 @@
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import type { AddressLabel, PostalAddress } from "../../lib/api";
+import {
+  ADDRESS_LABELS,
+  EMPTY_ADDRESS,
+  removeEntry,
+  setPrimaryEntry,
+  updateEntry,
+} from "../../lib/contactMethods";
+import { Plus, Trash2 } from "lucide-react";
+
+interface AddressListEditorProps {
+  addresses: PostalAddress[];
+  onChange: (addresses: PostalAddress[]) => void;
+}
+
+const ADDRESS_PART_PLACEHOLDERS = {
+  city: "City",
+  region: "State / Region",
+  postalCode: "Postal code",
+  country: "Country",
+} as const;
+
+export default function AddressListEditor({
+  addresses,
+  onChange,
+}: AddressListEditorProps) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Addresses</label>
+      {addresses.map((entry, index) => (
+        <div key={index} className="rounded-md border p-3 space-y-2">
+          <div className="flex items-center space-x-2">
+            <div className="w-32">
+              <Select
+                value={entry.label}
+                onChange={(e) =>
+                  onChange(
+                    updateEntry(addresses, index, {
+                      label: e.target.value as AddressLabel,
+                    })
+                  )
+                }
+              >
+                {Object.entries(ADDRESS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <Input
+              value={entry.street || ""}
+              onChange={(e) =>
+                onChange(
+                  updateEntry(addresses, index, { street: e.target.value })
+                )
+              }
+              placeholder="Street"
+              className="flex-1"
+            />
+            <label className="flex items-center space-x-1 text-sm">
+              <input
+                type="radio"
+                name="primary-address"
+                checked={entry.isPrimary}
+                onChange={() => onChange(setPrimaryEntry(addresses, index))}
+              />
+              <span>Primary</span>
+            </label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(removeEntry(addresses, index))}
+              title="Remove address"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {Object.entries(ADDRESS_PART_PLACEHOLDERS).map(
+              ([part, placeholder]) => (
+                <Input
+                  key={part}
+                  value={
+                    entry[part as keyof typeof ADDRESS_PART_PLACEHOLDERS] || ""
+                  }
+                  onChange={(e) =>
+                    onChange(
+                      updateEntry(addresses, index, { [part]: e.target.value })
+                    )
+                  }
+                  placeholder={placeholder}
+                />
+              )
+            )}
+          </div>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          onChange([
+            ...addresses,
+            { ...EMPTY_ADDRESS, isPrimary: !addresses.length },
+          ])
+        }
+      >
+        <Plus className="mr-1 h-4 w-4" />
+        Add Address
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import type { ContactEmail, ContactMethodLabel } from "../../lib/api";
+import {
+  CONTACT_METHOD_LABELS,
+  EMPTY_EMAIL,
+  removeEntry,
+  setPrimaryEntry,
+  updateEntry,
+} from "../../lib/contactMethods";
+import { Plus, Trash2 } from "lucide-react";
+
+interface EmailListEditorProps {
+  emails: ContactEmail[];
+  onChange: (emails: ContactEmail[]) => void;
+  error?: string;
+}
+
+export default function EmailListEditor({
+  emails,
+  onChange,
+  error,
+}: EmailListEditorProps) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Emails</label>
+      {emails.map((entry, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <div className="w-32">
+            <Select
+              value={entry.label}
+              onChange={(e) =>
+                onChange(
+                  updateEntry(emails, index, {
+                    label: e.target.value as ContactMethodLabel,
+                  })
+                )
+              }
+            >
+              {Object.entries(CONTACT_METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <Input
+            type="email"
+            value={entry.email}
+            onChange={(e) =>
+              onChange(updateEntry(emails, index, { email: e.target.value }))
+            }
+            className={`flex-1 ${error ? "border-destructive" : ""}`}
+          />
+          <label className="flex items-center space-x-1 text-sm">
+            <input
+              type="radio"
+              name="primary-email"
+              checked={entry.isPrimary}
+              onChange={() => onChange(setPrimaryEntry(emails, index))}
+            />
+            <span>Primary</span>
+          </label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(removeEntry(emails, index))}
+            title="Remove email"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          onChange([...emails, { ...EMPTY_EMAIL, isPrimary: !emails.length }])
+        }
+      >
+        <Plus className="mr-1 h-4 w-4" />
+        Add Email
+      </Button>
+    </div>
+  );
+}
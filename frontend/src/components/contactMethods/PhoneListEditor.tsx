@@ -0,0 +1,94 @@
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import type { ContactMethodLabel, ContactPhone } from "../../lib/api";
+import {
+  CONTACT_METHOD_LABELS,
+  EMPTY_PHONE,
+  removeEntry,
+  setPrimaryEntry,
+  updateEntry,
+} from "../../lib/contactMethods";
+import { Plus, Trash2 } from "lucide-react";
+
+interface PhoneListEditorProps {
+  phones: ContactPhone[];
+  onChange: (phones: ContactPhone[]) => void;
+  error?: string;
+}
+
+export default function PhoneListEditor({
+  phones,
+  onChange,
+  error,
+}: PhoneListEditorProps) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Phones</label>
+      {phones.map((entry, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <div className="w-32">
+            <Select
+              value={entry.label}
+              onChange={(e) =>
+                onChange(
+                  updateEntry(phones, index, {
+                    label: e.target.value as ContactMethodLabel,
+                  })
+                )
+              }
+            >
+              {Object.entries(CONTACT_METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <Input
+            type="tel"
+            value={entry.number}
+            onChange={(e) =>
+              onChange(updateEntry(phones, index, { number: e.target.value }))
+            }
+            placeholder="+1 555 123 4567"
+            className={`flex-1 ${error ? "border-destructive" : ""}`}
+          />
+          <label className="flex items-center space-x-1 text-sm">
+            <input
+              type="radio"
+              name="primary-phone"
+              checked={entry.isPrimary}
+              onChange={() => onChange(setPrimaryEntry(phones, index))}
+            />
+            <span>Primary</span>
+          </label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(removeEntry(phones, index))}
+            title="Remove phone"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <p className="text-xs text-muted-foreground">
+        Numbers without a country code get the default one.
+      </p>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          onChange([...phones, { ...EMPTY_PHONE, isPrimary: !phones.length }])
+        }
+      >
+        <Plus className="mr-1 h-4 w-4" />
+        Add Phone
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { Button } from "../ui/Button";
+import type {
+  CustomField,
+  CustomFieldFilters as Filters,
+  CustomFieldListParams,
+} from "../../lib/api";
+
+interface CustomFieldFiltersProps {
+  fields: CustomField[];
+  value: CustomFieldListParams;
+  onChange: (value: CustomFieldListParams) => void;
+}
+
+type Range = { from?: string; to?: string };
+
+export default function CustomFieldFilters({
+  fields,
+  value,
+  onChange,
+}: CustomFieldFiltersProps) {
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const filters: Filters = value.cf || {};
+  const hasFilters =
+    Object.values(filters).some((filter) =>
+      typeof filter === "string" ? filter : filter.from || filter.to
+    ) || !!value.sortBy;
+
+  const setFilter = (key: string, filter: string | Range) =>
+    onChange({ ...value, cf: { ...filters, [key]: filter } });
+
+  const setRange = (key: string, bound: keyof Range, boundValue: string) => {
+    const range = (filters[key] as Range | undefined) || {};
+    setFilter(key, { ...range, [bound]: boundValue });
+  };
+
+  const renderFilter = (field: CustomField) => {
+    const filter = filters[field.key];
+
+    switch (field.fieldType) {
+      case "number":
+      case "date": {
+        const range = (filter as Range | undefined) || {};
+        const type = field.fieldType === "number" ? "number" : "date";
+        return (
+          <div className="flex gap-2">
+            <Input
+              type={type}
+              placeholder="From"
+              value={range.from || ""}
+              onChange={(e) => setRange(field.key, "from", e.target.value)}
+            />
+            <Input
+              type={type}
+              placeholder="To"
+              value={range.to || ""}
+              onChange={(e) => setRange(field.key, "to", e.target.value)}
+            />
+          </div>
+        );
+      }
+      case "select":
+      case "multi_select":
+        return (
+          <Select
+            value={(filter as string) || ""}
+            onChange={(e) => setFilter(field.key, e.target.value)}
+          >
+            <option value="">Any</option>
+            {field.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </Select>
+        );
+      case "boolean":
+        return (
+          <Select
+            value={(filter as string) || ""}
+            onChange={(e) => setFilter(field.key, e.target.value)}
+          >
+            <option value="">Any</option>
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </Select>
+        );
+      default:
+        return (
+          <Input
+            placeholder="Contains..."
+            value={(filter as string) || ""}
+            onChange={(e) => setFilter(field.key, e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <div>
+      <label className="text-sm font-medium mb-2 block">
+        Filter by custom fields:
+      </label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {fields.map((field) => (
+          <div key={field.key}>
+            <label className="text-xs text-muted-foreground">
+              {field.label}
+            </label>
+            {renderFilter(field)}
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2 items-center mt-4">
+        <label className="text-sm font-medium">Sort by:</label>
+        <Select
+          value={value.sortBy || ""}
+          onChange={(e) =>
+            onChange({ ...value, sortBy: e.target.value || undefined })
+          }
+        >
+          <option value="">Default order</option>
+          {fields.map((field) => (
+            <option key={field.key} value={`cf.${field.key}`}>
+              {field.label}
+            </option>
+          ))}
+        </Select>
+        {value.sortBy && (
+          <Select
+            value={value.sortOrder || "desc"}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                sortOrder: e.target.value as "asc" | "desc",
+              })
+            }
+          >
+            <option value="asc">Ascending</option>
+            <option value="desc">Descending</option>
+          </Select>
+        )}
+        {hasFilters && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({})}
+          >
+            Clear Custom Field Filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import type { CustomField } from "../../lib/api";
+import type {
+  CustomFieldFormValue,
+  CustomFieldFormValues,
+} from "../../lib/customFields";
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: CustomFieldFormValues;
+  onChange: (key: string, value: CustomFieldFormValue) => void;
+  // Messages by field key
+  errors?: Record<string, string>;
+}
+
+const toggleOption = (selected: string[], option: string): string[] =>
+  selected.includes(option)
+    ? selected.filter((o) => o !== option)
+    : [...selected, option];
+
+export default function CustomFieldInputs({
+  fields,
+  values,
+  onChange,
+  errors = {},
+}: CustomFieldInputsProps) {
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const renderInput = (field: CustomField) => {
+    const value = values[field.key] ?? "";
+    const className = errors[field.key] ? "border-destructive" : "";
+
+    switch (field.fieldType) {
+      case "select":
+        return (
+          <Select
+            value={value as string}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            className={className}
+          >
+            <option value="">Select...</option>
+            {field.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </Select>
+        );
+      case "multi_select": {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 pt-2">
+            {field.options.map((option) => (
+              <label
+                key={option}
+                className="flex items-center space-x-2 text-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={() =>
+                    onChange(field.key, toggleOption(selected, option))
+                  }
+                />
+                <span>{option}</span>
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case "boolean":
+        return (
+          <Select
+            value={value as string}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            className={className}
+          >
+            <option value="">Not set</option>
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </Select>
+        );
+      default:
+        return (
+          <Input
+            type={
+              field.fieldType === "number"
+                ? "number"
+                : field.fieldType === "date"
+                  ? "date"
+                  : field.fieldType === "url"
+                    ? "url"
+                    : "text"
+            }
+            step={field.fieldType === "number" ? "any" : undefined}
+            placeholder={field.fieldType === "url" ? "https://" : undefined}
+            value={value as string}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            className={className}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {fields.map((field) => (
+        <div key={field.key}>
+          <label className="text-sm font-medium">
+            {field.label}
+            {field.isRequired && " *"}
+          </label>
+          {renderInput(field)}
+          {errors[field.key] && (
+            <p className="text-sm text-destructive mt-1">{errors[field.key]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
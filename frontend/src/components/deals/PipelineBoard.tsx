@@ -0,0 +1,208 @@
+import { useState } from "react";
+import type { DragEvent } from "react";
+import { Badge } from "../ui/Badge";
+import type { DealsByStage, DealWithDetails } from "../../lib/api";
+import { Building2, User, Share2, Lock } from "lucide-react";
+
+interface PipelineBoardProps {
+  board: DealsByStage;
+  onMove: (dealId: number, stageId: number, position: number) => void;
+  onEdit: (deal: DealWithDetails) => void;
+  // Set when the user's role can't edit records, so no card can be moved
+  readOnly?: boolean;
+}
+
+interface DropTarget {
+  stageId: number;
+  index: number;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+export default function PipelineBoard({
+  board,
+  onMove,
+  onEdit,
+  readOnly = false,
+}: PipelineBoardProps) {
+  const canMove = (deal: DealWithDetails) =>
+    !readOnly && (!deal.is_shared_with_me || deal.permissions === "write");
+
+  const [draggedDeal, setDraggedDeal] = useState<DealWithDetails | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const columns = Object.values(board).sort(
+    (a, b) => a.stage.order_index - b.stage.order_index
+  );
+
+  const handleDragStart = (e: DragEvent, deal: DealWithDetails) => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", deal.id.toString());
+    setDraggedDeal(deal);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedDeal(null);
+    setDropTarget(null);
+  };
+
+  // Drop above or below a card depending on which half the cursor is over
+  const handleCardDragOver = (
+    e: DragEvent<HTMLDivElement>,
+    stageId: number,
+    index: number
+  ) => {
+    if (!draggedDeal) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const after = e.clientY > rect.top + rect.height / 2;
+    const target = { stageId, index: after ? index + 1 : index };
+    if (
+      dropTarget?.stageId !== target.stageId ||
+      dropTarget.index !== target.index
+    ) {
+      setDropTarget(target);
+    }
+  };
+
+  const handleColumnDragOver = (
+    e: DragEvent<HTMLDivElement>,
+    stageId: number,
+    dealCount: number
+  ) => {
+    if (!draggedDeal) return;
+    e.preventDefault();
+    if (dropTarget?.stageId !== stageId) {
+      setDropTarget({ stageId, index: dealCount });
+    }
+  };
+
+  const handleDrop = (e: DragEvent, stageId: number) => {
+    e.preventDefault();
+    if (!draggedDeal || !dropTarget || dropTarget.stageId !== stageId) {
+      handleDragEnd();
+      return;
+    }
+
+    // The drop index counts the dragged card when it sits above the target
+    // in the same column, but the server expects a position without it
+    const column = board[stageId].deals;
+    const currentIndex = column.findIndex((deal) => deal.id === draggedDeal.id);
+    let position = dropTarget.index;
+    if (currentIndex !== -1 && currentIndex < position) {
+      position--;
+    }
+
+    if (currentIndex !== position) {
+      onMove(draggedDeal.id, stageId, position);
+    }
+    handleDragEnd();
+  };
+
+  const dropIndicator = (
+    <div className="h-1 rounded-full bg-primary my-1" aria-hidden="true" />
+  );
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {columns.map(({ stage, deals, totals }) => {
+        const isTarget = dropTarget?.stageId === stage.id;
+
+        return (
+          <div
+            key={stage.id}
+            className={`flex flex-col w-72 shrink-0 rounded-xl border border-border bg-muted/40 ${
+              isTarget ? "ring-2 ring-primary/40" : ""
+            }`}
+            onDragOver={(e) => handleColumnDragOver(e, stage.id, deals.length)}
+            onDrop={(e) => handleDrop(e, stage.id)}
+          >
+            <div className="p-3 border-b border-border">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">{stage.name}</h3>
+                <Badge variant="secondary">{totals.count}</Badge>
+              </div>
+              <div className="mt-1 text-sm">
+                <span className="font-medium">
+                  {formatCurrency(totals.value)}
+                </span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {formatCurrency(totals.weightedValue)} weighted
+                </span>
+              </div>
+            </div>
+
+            <div className="flex-1 p-2 min-h-32">
+              {deals.map((deal, index) => (
+                <div key={deal.id}>
+                  {isTarget && dropTarget.index === index && dropIndicator}
+                  <div
+                    draggable={canMove(deal)}
+                    onDragStart={(e) => handleDragStart(e, deal)}
+                    onDragEnd={handleDragEnd}
+                    onDragOver={(e) => handleCardDragOver(e, stage.id, index)}
+                    onClick={() => canMove(deal) && onEdit(deal)}
+                    className={`mb-2 rounded-lg border border-border bg-card p-3 shadow-sm ${
+                      canMove(deal)
+                        ? "cursor-grab active:cursor-grabbing"
+                        : "cursor-default"
+                    } ${draggedDeal?.id === deal.id ? "opacity-50" : ""}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <h4 className="font-medium text-sm">{deal.title}</h4>
+                      {deal.is_shared_with_me &&
+                        (canMove(deal) ? (
+                          <Share2 className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                        ) : (
+                          <Lock className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                        ))}
+                    </div>
+                    <div className="mt-2 flex items-center justify-between text-sm">
+                      <span className="font-semibold">
+                        {formatCurrency(Number(deal.value))}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {deal.probability}%
+                      </span>
+                    </div>
+                    {(deal.company_name || deal.contact_name) && (
+                      <div className="mt-2 space-y-1 text-xs text-muted-foreground">
+                        {deal.company_name && (
+                          <div className="flex items-center">
+                            <Building2 className="mr-1 h-3 w-3" />
+                            <span>{deal.company_name}</span>
+                          </div>
+                        )}
+                        {deal.contact_name && (
+                          <div className="flex items-center">
+                            <User className="mr-1 h-3 w-3" />
+                            <span>{deal.contact_name}</span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {isTarget && dropTarget.index === deals.length && dropIndicator}
+              {deals.length === 0 && !isTarget && (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  Drop deals here
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
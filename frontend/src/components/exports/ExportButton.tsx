@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Button } from "../ui/Button";
+import { useToast } from "../../contexts/ToastContext";
+import { apiClient } from "../../lib/api";
+import type {
+  CustomFieldFilters,
+  ExportEntity,
+  ExportFormat,
+} from "../../lib/api";
+import { Download } from "lucide-react";
+
+interface ExportButtonProps {
+  entity: ExportEntity;
+  filters?: Record<string, string | number | boolean | undefined>;
+  // The list's custom field filters
+  cf?: CustomFieldFilters;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "ndjson", label: "JSON Lines" },
+];
+
+export default function ExportButton({
+  entity,
+  filters,
+  cf,
+}: ExportButtonProps) {
+  const { showToast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setExporting(true);
+    const response = await apiClient.exportRecords(entity, format, filters, cf);
+    setExporting(false);
+
+    if (response.error || !response.data) {
+      showToast({
+        type: "error",
+        title: "Export failed",
+        message: response.error,
+      });
+      return;
+    }
+
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${entity}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        onClick={() => setOpen(!open)}
+        disabled={exporting}
+      >
+        <Download className="mr-2 h-4 w-4" />
+        {exporting ? "Exporting..." : "Export"}
+      </Button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-36 rounded-md border bg-background shadow-md z-10">
+          {FORMAT_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className="block w-full text-left px-3 py-2 text-sm hover:bg-accent"
+              onClick={() => handleExport(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
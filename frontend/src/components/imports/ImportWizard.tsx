@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { Button } from "../ui/Button";
+import { Select } from "../ui/Select";
+import { Badge } from "../ui/Badge";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "../ui/Card";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell,
+} from "../ui/Table";
+import { useToast } from "../../contexts/ToastContext";
+import { apiClient } from "../../lib/api";
+import type {
+  ImportEntity,
+  ImportMapping,
+  ImportResult,
+  ImportRowResult,
+} from "../../lib/api";
+import { Upload, X } from "lucide-react";
+
+interface ImportWizardProps {
+  entity: ImportEntity;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = "upload" | "mapping" | "preview";
+
+// Large files are still validated in full, the table only shows the first rows
+const PREVIEW_LIMIT = 200;
+
+const ENTITY_LABELS: Record<ImportEntity, string> = {
+  contacts: "Contacts",
+  organizations: "Organizations",
+};
+
+const STATUS_STYLES: Record<ImportRowResult["status"], string> = {
+  valid: "bg-green-100 text-green-800 border-transparent",
+  duplicate: "bg-yellow-100 text-yellow-800 border-transparent",
+  invalid: "bg-red-100 text-red-800 border-transparent",
+};
+
+const describeRow = (entity: ImportEntity, row: ImportRowResult) => {
+  if (entity === "contacts") {
+    const name = [row.data.first_name, row.data.last_name]
+      .filter(Boolean)
+      .join(" ");
+    return [name, row.data.email].filter(Boolean).join(" · ");
+  }
+  return (row.data.name as string | null) || "";
+};
+
+export default function ImportWizard({
+  entity,
+  onClose,
+  onImported,
+}: ImportWizardProps) {
+  const { showToast } = useToast();
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const runDryRun = async (text: string, nextMapping?: ImportMapping) => {
+    setLoading(true);
+    setError("");
+    const response = await apiClient.importRecords(entity, {
+      csv: text,
+      mapping: nextMapping,
+      dryRun: true,
+    });
+    setLoading(false);
+
+    if (response.error || !response.data) {
+      setError(response.error || "Could not read the file");
+      return null;
+    }
+
+    setResult(response.data);
+    setMapping(response.data.mapping);
+    return response.data;
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setCsv(text);
+
+    if (await runDryRun(text)) {
+      setStep("mapping");
+    }
+  };
+
+  const handleMappingChange = (fieldKey: string, header: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (header) {
+        next[fieldKey] = header;
+      } else {
+        delete next[fieldKey];
+      }
+      return next;
+    });
+  };
+
+  const handlePreview = async () => {
+    const preview = await runDryRun(csv, mapping);
+    if (preview && preview.missingFields.length === 0) {
+      setStep("preview");
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    setError("");
+    const response = await apiClient.importRecords(entity, {
+      csv,
+      mapping,
+      dryRun: false,
+    });
+    setLoading(false);
+
+    if (response.error || !response.data) {
+      setError(response.error || "Import failed");
+      return;
+    }
+
+    const { summary } = response.data;
+    showToast({
+      type: "success",
+      title: "Import complete",
+      message: `${summary.imported} of ${summary.total} records imported${
+        summary.duplicates + summary.invalid > 0
+          ? `, ${summary.duplicates + summary.invalid} skipped`
+          : ""
+      }`,
+    });
+    onImported();
+    onClose();
+  };
+
+  const missingFields = result
+    ? result.fields.filter((field) => field.required && !mapping[field.key])
+    : [];
+
+  const visibleRows = (result?.rows || [])
+    .filter((row) => !showProblemsOnly || row.status !== "valid")
+    .slice(0, PREVIEW_LIMIT);
+
+  return (
+    <div className="fixed inset-0 bg-white/20 backdrop-blur-sm flex items-center justify-center z-50">
+      <Card className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>Import {ENTITY_LABELS[entity]}</CardTitle>
+              <CardDescription>
+                {step === "upload" &&
+                  "Upload a CSV file with a header row. Nothing is saved until you confirm the import."}
+                {step === "mapping" &&
+                  `Match the columns of ${fileName} to the fields to import.`}
+                {step === "preview" &&
+                  "Review the rows before importing. Duplicates and invalid rows are skipped."}
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded">
+              {error}
+            </div>
+          )}
+
+          {step === "upload" && (
+            <label className="flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-10 cursor-pointer hover:bg-muted/50">
+              <Upload className="h-8 w-8 text-muted-foreground mb-2" />
+              <span className="font-medium">
+                {loading ? "Reading file..." : "Choose a CSV file"}
+              </span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                disabled={loading}
+                onChange={handleFileChange}
+              />
+            </label>
+          )}
+
+          {step === "mapping" && result && (
+            <>
+              <div className="space-y-3">
+                {result.fields.map((field) => (
+                  <div
+                    key={field.key}
+                    className="grid grid-cols-2 gap-4 items-center"
+                  >
+                    <label className="text-sm font-medium">
+                      {field.label}
+                      {field.required && " *"}
+                    </label>
+                    <Select
+                      value={mapping[field.key] || ""}
+                      onChange={(e) =>
+                        handleMappingChange(field.key, e.target.value)
+                      }
+                    >
+                      <option value="">Don't import</option>
+                      {result.headers.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {missingFields.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Map a column to{" "}
+                  {missingFields.map((field) => field.label).join(", ")} to
+                  continue.
+                </p>
+              )}
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setStep("upload")}>
+                  Back
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={handlePreview}
+                  disabled={loading || missingFields.length > 0}
+                >
+                  {loading ? "Checking..." : "Preview"}
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === "preview" && result && (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge className={STATUS_STYLES.valid}>
+                  {result.summary.valid} ready
+                </Badge>
+                <Badge className={STATUS_STYLES.duplicate}>
+                  {result.summary.duplicates} duplicates
+                </Badge>
+                <Badge className={STATUS_STYLES.invalid}>
+                  {result.summary.invalid} invalid
+                </Badge>
+                {result.summary.newCompanies > 0 && (
+                  <Badge variant="outline">
+                    {result.summary.newCompanies} new organizations
+                  </Badge>
+                )}
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={showProblemsOnly}
+                  onChange={(e) => setShowProblemsOnly(e.target.checked)}
+                />
+                <span>Only show rows that will be skipped</span>
+              </label>
+
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-muted-foreground">
+                          {row.line}
+                        </TableCell>
+                        <TableCell>{describeRow(entity, row)}</TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_STYLES[row.status]}>
+                            {row.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {row.errors.join("; ")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {visibleRows.length === 0 && (
+                  <p className="text-muted-foreground text-center py-6">
+                    No rows to show
+                  </p>
+                )}
+              </div>
+              {result.rows.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the first {PREVIEW_LIMIT} rows
+                </p>
+              )}
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setStep("mapping")}>
+                  Back
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={handleImport}
+                  disabled={loading || result.summary.valid === 0}
+                >
+                  {loading
+                    ? "Importing..."
+                    : `Import ${result.summary.valid} ${
+                        result.summary.valid === 1 ? "record" : "records"
+                      }`}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
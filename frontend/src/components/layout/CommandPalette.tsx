@@ -0,0 +1,244 @@
+import { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { Input } from "../ui/Input";
+import { Card } from "../ui/Card";
+import { apiClient } from "../../lib/api";
+import type { SearchGroup, SearchGroupType, SearchResult } from "../../lib/api";
+import {
+  Search,
+  Users,
+  Building2,
+  TrendingUp,
+  Calendar,
+  StickyNote,
+} from "lucide-react";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SEARCH_DELAY_MS = 250;
+
+const GROUPS: Record<
+  SearchGroupType,
+  {
+    label: string;
+    icon: React.ComponentType<{ className?: string }>;
+    href: (result: SearchResult) => string;
+    // Passed as location state to pages without a detail view
+    state?: (result: SearchResult) => { search: string };
+  }
+> = {
+  contacts: {
+    label: "Contacts",
+    icon: Users,
+    href: (result) => `/contacts/${result.id}`,
+  },
+  organizations: {
+    label: "Organizations",
+    icon: Building2,
+    href: (result) => `/organizations/${result.id}`,
+  },
+  // Deals have no detail page, so open the filtered list
+  deals: {
+    label: "Deals",
+    icon: TrendingUp,
+    href: () => "/deals",
+    state: (result) => ({ search: stripMarks(result.title) }),
+  },
+  activities: {
+    label: "Activities",
+    icon: Calendar,
+    href: (result) => `/activities/${result.id}`,
+  },
+  contactNotes: {
+    label: "Contact Notes",
+    icon: StickyNote,
+    href: (result) => `/contacts/${result.parentId}`,
+  },
+  activityNotes: {
+    label: "Activity Notes",
+    icon: StickyNote,
+    href: (result) => `/activities/${result.parentId}`,
+  },
+};
+
+const MARK_PATTERN = /(<mark>.*?<\/mark>)/g;
+
+function stripMarks(text: string) {
+  return text.replace(/<\/?mark>/g, "");
+}
+
+// Render the search highlights as text, never as HTML
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(MARK_PATTERN).map((part, index) =>
+        part.startsWith("<mark>") ? (
+          <mark key={index} className="bg-yellow-200 rounded-sm">
+            {stripMarks(part)}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+export default function CommandPalette({
+  open,
+  onOpenChange,
+}: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState("");
+  const [groups, setGroups] = useState<SearchGroup[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      inputRef.current?.focus();
+    } else {
+      setQuery("");
+      setGroups([]);
+    }
+  }, [open]);
+
+  // Search once the user stops typing, ignoring responses to older queries
+  useEffect(() => {
+    const text = query.trim();
+    if (!text) {
+      setGroups([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const response = await apiClient.search(text);
+      if (cancelled) return;
+      setIsSearching(false);
+      setGroups(
+        response.data
+          ? response.data.groups.filter((group) => group.results.length > 0)
+          : []
+      );
+      setActiveIndex(0);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const items = groups.flatMap((group) =>
+    group.results.map((result) => ({ group, result }))
+  );
+
+  const openResult = (group: SearchGroup, result: SearchResult) => {
+    const { href, state } = GROUPS[group.type];
+    onOpenChange(false);
+    navigate(href(result), { state: state?.(result) });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      onOpenChange(false);
+    } else if (e.key === "ArrowDown" && items.length > 0) {
+      e.preventDefault();
+      setActiveIndex((prev) => (prev + 1) % items.length);
+    } else if (e.key === "ArrowUp" && items.length > 0) {
+      e.preventDefault();
+      setActiveIndex((prev) => (prev - 1 + items.length) % items.length);
+    } else if (e.key === "Enter" && items[activeIndex]) {
+      e.preventDefault();
+      openResult(items[activeIndex].group, items[activeIndex].result);
+    }
+  };
+
+  if (!open) return null;
+
+  let itemIndex = 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-white/20 backdrop-blur-sm flex items-start justify-center pt-[15vh] z-50"
+      onClick={() => onOpenChange(false)}
+    >
+      <Card
+        className="w-full max-w-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center border-b px-3">
+          <Search className="h-4 w-4 text-muted-foreground" />
+          <Input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search contacts, organizations, deals, activities and notes..."
+            className="border-0 shadow-none focus-visible:ring-0"
+          />
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {query.trim() && !isSearching && items.length === 0 && (
+            <p className="p-6 text-center text-sm text-muted-foreground">
+              No results found
+            </p>
+          )}
+
+          {groups.map((group) => {
+            const { label, icon: Icon } = GROUPS[group.type];
+
+            return (
+              <div key={group.type} className="py-2">
+                <div className="px-4 py-1 text-xs font-medium text-muted-foreground">
+                  {label}
+                  {group.total > group.results.length &&
+                    ` (${group.results.length} of ${group.total})`}
+                </div>
+                {group.results.map((result) => {
+                  const index = itemIndex++;
+
+                  return (
+                    <button
+                      key={result.id}
+                      className={`flex w-full items-start gap-3 px-4 py-2 text-left text-sm ${
+                        index === activeIndex ? "bg-muted" : ""
+                      }`}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      onClick={() => openResult(group, result)}
+                    >
+                      <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">
+                          <Highlighted text={result.title} />
+                          {result.subtitle && (
+                            <span className="ml-2 font-normal text-muted-foreground">
+                              {result.subtitle}
+                            </span>
+                          )}
+                        </div>
+                        {result.snippet && (
+                          <div className="text-xs text-muted-foreground truncate">
+                            <Highlighted text={result.snippet} />
+                          </div>
+                        )}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
+import { useState, useEffect } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "../ui/Button";
+import CommandPalette from "./CommandPalette";
 import { useAuth } from "../../hooks/useAuth";
+import { canUseAdminPanel } from "../../lib/permissions";
 import {
   LayoutDashboard,
   Users,
@@ -12,6 +15,7 @@ import {
   Shield,
   Share2,
   Settings,
+  Search,
 } from "lucide-react";
 import {
   Sidebar,
@@ -48,6 +52,20 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const location = useLocation();
   const navigate = useNavigate();
   const { user, logout } = useAuth();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  // Open the global search with Cmd/Ctrl+K
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
 
   const handleLogout = () => {
     logout();
@@ -90,8 +108,8 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
               </SidebarGroupContent>
             </SidebarGroup>
 
-            {/* Admin Navigation - only show for admin users */}
-            {user?.role === "admin" && (
+            {/* Admin Navigation - only show to roles that can use the panel */}
+            {canUseAdminPanel(user) && (
               <SidebarGroup>
                 <SidebarGroupLabel>Admin</SidebarGroupLabel>
                 <SidebarGroupContent>
@@ -169,10 +187,21 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
         <SidebarInset>
           <header className="flex h-16 shrink-0 items-center gap-2 px-4">
             <SidebarTrigger className="-ml-1" />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsSearchOpen(true)}
+              className="ml-auto w-64 justify-start text-muted-foreground"
+            >
+              <Search className="mr-2 h-4 w-4" />
+              Search...
+              <kbd className="ml-auto text-xs">⌘K</kbd>
+            </Button>
           </header>
           <main className="flex-1 p-4 overflow-auto">{children}</main>
         </SidebarInset>
       </div>
+      <CommandPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} />
     </SidebarProvider>
   );
 }
@@ -0,0 +1,196 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "../ui/Badge";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell,
+} from "../ui/Table";
+import { apiClient } from "../../lib/api";
+import type { OrganizationTreeNode } from "../../lib/api";
+import { Building2, ChevronDown, ChevronRight } from "lucide-react";
+
+interface OrganizationTreeProps {
+  // Changing this loads the tree again, e.g. after an organization was saved
+  refreshKey?: unknown;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+const countDescendants = (node: OrganizationTreeNode): number =>
+  node.subsidiaries.reduce(
+    (count, subsidiary) => count + 1 + countDescendants(subsidiary),
+    0
+  );
+
+interface TreeRowProps {
+  node: OrganizationTreeNode;
+  depth: number;
+  collapsed: Set<number>;
+  onToggle: (id: number) => void;
+}
+
+function TreeRow({ node, depth, collapsed, onToggle }: TreeRowProps) {
+  const isCollapsed = collapsed.has(node.id);
+  const hasSubsidiaries = node.subsidiaries.length > 0;
+  const { rollup } = node;
+
+  return (
+    <>
+      <TableRow>
+        <TableCell>
+          <div
+            className="flex items-center"
+            style={{ paddingLeft: `${depth * 1.5}rem` }}
+          >
+            {hasSubsidiaries ? (
+              <button
+                type="button"
+                onClick={() => onToggle(node.id)}
+                className="mr-1 text-muted-foreground hover:text-foreground"
+                title={isCollapsed ? "Show subsidiaries" : "Hide subsidiaries"}
+              >
+                {isCollapsed ? (
+                  <ChevronRight className="h-4 w-4" />
+                ) : (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </button>
+            ) : (
+              <span className="mr-1 w-4" />
+            )}
+            <Building2 className="mr-2 h-4 w-4 text-muted-foreground" />
+            <Link
+              to={`/organizations/${node.id}`}
+              className="font-medium hover:underline"
+            >
+              {node.name}
+            </Link>
+            {hasSubsidiaries && (
+              <Badge variant="secondary" className="ml-2">
+                {countDescendants(node)} subsidiaries
+              </Badge>
+            )}
+          </div>
+        </TableCell>
+        <TableCell>
+          {formatCurrency(rollup.openPipeline)}
+          <span className="text-muted-foreground ml-1">
+            ({rollup.openDealCount})
+          </span>
+        </TableCell>
+        <TableCell>{formatCurrency(rollup.wonRevenue)}</TableCell>
+        <TableCell>{rollup.contactCount}</TableCell>
+        <TableCell className="text-muted-foreground">
+          {rollup.lastActivityAt
+            ? new Date(rollup.lastActivityAt).toLocaleDateString()
+            : "-"}
+        </TableCell>
+      </TableRow>
+      {!isCollapsed &&
+        node.subsidiaries.map((subsidiary) => (
+          <TreeRow
+            key={subsidiary.id}
+            node={subsidiary}
+            depth={depth + 1}
+            collapsed={collapsed}
+            onToggle={onToggle}
+          />
+        ))}
+    </>
+  );
+}
+
+export default function OrganizationTree({
+  refreshKey,
+}: OrganizationTreeProps) {
+  const [organizations, setOrganizations] = useState<OrganizationTreeNode[]>(
+    []
+  );
+  const [loading, setLoading] = useState(true);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    const fetchTree = async () => {
+      try {
+        const response = await apiClient.getOrganizationTree();
+        if (response.data) {
+          setOrganizations(response.data.organizations);
+        }
+      } catch (error) {
+        console.error("Error fetching organization tree:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTree();
+  }, [refreshKey]);
+
+  const handleToggle = (id: number) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg">Loading organizations...</div>
+      </div>
+    );
+  }
+
+  if (organizations.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        No organizations found
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Organization</TableHead>
+            <TableHead>Open Pipeline</TableHead>
+            <TableHead>Won Revenue</TableHead>
+            <TableHead>Contacts</TableHead>
+            <TableHead>Last Activity</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {organizations.map((node) => (
+            <TreeRow
+              key={node.id}
+              node={node}
+              depth={0}
+              collapsed={collapsed}
+              onToggle={handleToggle}
+            />
+          ))}
+        </TableBody>
+      </Table>
+      <p className="p-4 text-xs text-muted-foreground">
+        Figures include every subsidiary below an organization.
+      </p>
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect } from "react";
+import { Select } from "../ui/Select";
+import { apiClient } from "../../lib/api";
+import type { OrganizationTreeNode } from "../../lib/api";
+
+interface ParentOrganizationSelectProps {
+  value: string;
+  onChange: (value: string) => void;
+  // The organization being edited, which can't go under itself or one of its
+  // subsidiaries
+  organizationId?: number;
+  // Name of the current parent, which may be one the user can't see
+  currentParentName?: string;
+}
+
+interface ParentOption {
+  id: number;
+  name: string;
+  depth: number;
+}
+
+// The tree in display order, leaving out the edited organization's branch
+const toOptions = (
+  nodes: OrganizationTreeNode[],
+  excludeId: number | undefined,
+  depth = 0
+): ParentOption[] =>
+  nodes.flatMap((node) =>
+    node.id === excludeId
+      ? []
+      : [
+          { id: node.id, name: node.name, depth },
+          ...toOptions(node.subsidiaries, excludeId, depth + 1),
+        ]
+  );
+
+export default function ParentOrganizationSelect({
+  value,
+  onChange,
+  organizationId,
+  currentParentName,
+}: ParentOrganizationSelectProps) {
+  const [options, setOptions] = useState<ParentOption[]>([]);
+
+  useEffect(() => {
+    apiClient.getOrganizationTree().then((response) => {
+      if (response.data) {
+        setOptions(toOptions(response.data.organizations, organizationId));
+      }
+    });
+  }, [organizationId]);
+
+  const hasCurrentParent =
+    !value || options.some((option) => option.id.toString() === value);
+
+  return (
+    <div>
+      <label className="text-sm font-medium">Parent Organization</label>
+      <Select value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value="">None (top level)</option>
+        {!hasCurrentParent && (
+          <option value={value}>{currentParentName || "Current parent"}</option>
+        )}
+        {options.map((option) => (
+          <option key={option.id} value={option.id.toString()}>
+            {"\u00a0\u00a0\u00a0".repeat(option.depth)}
+            {option.name}
+          </option>
+        ))}
+      </Select>
+      <p className="text-xs text-muted-foreground mt-1">
+        Make this organization a subsidiary of another one
+      </p>
+    </div>
+  );
+}
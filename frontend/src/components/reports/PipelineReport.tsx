@@ -0,0 +1,219 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "../ui/Card";
+import { Select } from "../ui/Select";
+import { useAuth } from "../../hooks/useAuth";
+import { apiClient } from "../../lib/api";
+import type { PipelineVelocityReport, User } from "../../lib/api";
+
+const RANGE_OPTIONS = [
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last 12 months" },
+  { value: "", label: "All time" },
+];
+
+const formatPercent = (rate: number | null) =>
+  rate === null ? "—" : `${Math.round(rate * 100)}%`;
+
+const formatDays = (days: number | null) =>
+  days === null ? "—" : `${days} ${days === 1 ? "day" : "days"}`;
+
+export default function PipelineReport() {
+  const { user } = useAuth();
+  const [report, setReport] = useState<PipelineVelocityReport | null>(null);
+  const [range, setRange] = useState("90");
+  const [ownerId, setOwnerId] = useState("");
+  const [owners, setOwners] = useState<User[]>([]);
+
+  useEffect(() => {
+    const fetchOwners = async () => {
+      const response = await apiClient.getUsersForSharing();
+      if (response.data) {
+        setOwners(response.data);
+      }
+    };
+
+    fetchOwners();
+  }, []);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        const from = range
+          ? new Date(Date.now() - parseInt(range) * 24 * 60 * 60 * 1000)
+              .toISOString()
+              .slice(0, 10)
+          : undefined;
+
+        const response = await apiClient.getPipelineVelocity({
+          from,
+          ownerId: ownerId ? parseInt(ownerId) : undefined,
+        });
+        if (response.data) {
+          setReport(response.data);
+        }
+      } catch (error) {
+        console.error("Error fetching pipeline report:", error);
+      }
+    };
+
+    fetchReport();
+  }, [range, ownerId]);
+
+  const funnelStages =
+    report?.stages.filter((stage) => stage.kind !== "lost") || [];
+  const maxReached = Math.max(1, ...funnelStages.map((s) => s.dealsReached));
+  const maxDays = Math.max(
+    1,
+    ...(report?.stages.map((stage) => stage.avgDaysInStage || 0) || [])
+  );
+
+  const summaryItems = report
+    ? [
+        { label: "Deals created", value: report.summary.dealsCreated },
+        { label: "Win rate", value: formatPercent(report.summary.winRate) },
+        {
+          label: "Won / Lost",
+          value: `${report.summary.wonCount} / ${report.summary.lostCount}`,
+        },
+        {
+          label: "Avg. sales cycle",
+          value: formatDays(report.summary.avgSalesCycleDays),
+        },
+      ]
+    : [];
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Pipeline Performance</h2>
+          <p className="text-sm text-muted-foreground">
+            Based on every stage change recorded for your deals
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Select value={ownerId} onChange={(e) => setOwnerId(e.target.value)}>
+            <option value="">All owners</option>
+            {user && <option value={user.id.toString()}>Me</option>}
+            {owners.map((owner) => (
+              <option key={owner.id} value={owner.id.toString()}>
+                {owner.firstName} {owner.lastName}
+              </option>
+            ))}
+          </Select>
+          <Select value={range} onChange={(e) => setRange(e.target.value)}>
+            {RANGE_OPTIONS.map((option) => (
+              <option key={option.label} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+        {summaryItems.map((item) => (
+          <Card key={item.label}>
+            <CardContent>
+              <p className="text-sm font-medium text-muted-foreground">
+                {item.label}
+              </p>
+              <p className="text-2xl font-bold">{item.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Funnel</CardTitle>
+            <CardDescription>
+              Deals created in the period that reached each stage
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {funnelStages.length === 0 ? (
+              <p className="text-muted-foreground text-center py-6">
+                No stages configured
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {funnelStages.map((stage) => (
+                  <div key={stage.id}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium">{stage.name}</span>
+                      <span className="text-muted-foreground">
+                        {stage.dealsReached}
+                        {stage.conversionRate !== null &&
+                          ` · ${formatPercent(stage.conversionRate)} to next`}
+                      </span>
+                    </div>
+                    <div className="h-3 rounded-full bg-muted">
+                      <div
+                        className={`h-3 rounded-full ${
+                          stage.kind === "won" ? "bg-green-600" : "bg-primary"
+                        }`}
+                        style={{
+                          width: `${(stage.dealsReached / maxReached) * 100}%`,
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Velocity</CardTitle>
+            <CardDescription>
+              Average time deals spend in each stage before moving on
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!report || report.stages.length === 0 ? (
+              <p className="text-muted-foreground text-center py-6">
+                No stages configured
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {report.stages
+                  .filter((stage) => stage.kind === "open")
+                  .map((stage) => (
+                    <div key={stage.id}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="font-medium">{stage.name}</span>
+                        <span className="text-muted-foreground">
+                          {formatDays(stage.avgDaysInStage)}
+                        </span>
+                      </div>
+                      <div className="h-3 rounded-full bg-muted">
+                        <div
+                          className="h-3 rounded-full bg-purple-600"
+                          style={{
+                            width: `${
+                              ((stage.avgDaysInStage || 0) / maxDays) * 100
+                            }%`,
+                          }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
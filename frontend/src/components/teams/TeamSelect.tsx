@@ -0,0 +1,55 @@
+import { useState, useEffect } from "react";
+import { Select } from "../ui/Select";
+import { apiClient } from "../../lib/api";
+import type { MyTeam } from "../../lib/api";
+
+interface TeamSelectProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Name of the record's current team, which may be one the user can't assign
+  currentTeamName?: string;
+}
+
+export default function TeamSelect({
+  value,
+  onChange,
+  currentTeamName,
+}: TeamSelectProps) {
+  const [teams, setTeams] = useState<MyTeam[]>([]);
+
+  useEffect(() => {
+    apiClient.getMyTeams().then((response) => {
+      if (response.data) {
+        // Viewers can see a team's records but not add to it
+        setTeams(response.data.teams.filter((team) => team.role !== "viewer"));
+      }
+    });
+  }, []);
+
+  const hasCurrentTeam =
+    !value || teams.some((team) => team.id.toString() === value);
+
+  if (teams.length === 0 && !value) {
+    return null;
+  }
+
+  return (
+    <div>
+      <label className="text-sm font-medium">Team</label>
+      <Select value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value="">No team</option>
+        {!hasCurrentTeam && (
+          <option value={value}>{currentTeamName || "Current team"}</option>
+        )}
+        {teams.map((team) => (
+          <option key={team.id} value={team.id.toString()}>
+            {team.name}
+          </option>
+        ))}
+      </Select>
+      <p className="text-xs text-muted-foreground mt-1">
+        Everyone in the team can see this record
+      </p>
+    </div>
+  );
+}
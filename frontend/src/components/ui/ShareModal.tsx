@@ -10,7 +10,7 @@ import { X, Share2, Users, Eye, Edit3 } from "lucide-react";
 interface ShareModalProps {
   isOpen: boolean;
   onClose: () => void;
-  resourceType: "contact" | "activity" | "deal";
+  resourceType: "contact" | "organization" | "activity" | "deal";
   resourceId: number;
   resourceTitle: string;
   onSuccess?: () => void;
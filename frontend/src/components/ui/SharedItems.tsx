@@ -11,7 +11,13 @@ import {
 } from "./Table";
 import { Badge } from "./Badge";
 import { apiClient } from "../../lib/api";
-import type { Share, Contact, Activity, Deal } from "../../lib/api";
+import type {
+  Share,
+  Contact,
+  Organization,
+  Activity,
+  Deal,
+} from "../../lib/api";
 import {
   Share2,
   Eye,
@@ -24,18 +30,21 @@ import {
 import { format } from "date-fns";
 
 interface SharedItemsProps {
-  resourceType?: "contact" | "activity" | "deal";
+  resourceType?: "contact" | "organization" | "activity" | "deal";
   showOwned?: boolean;
   showSharedWithMe?: boolean;
 }
 
 const getResourceTitle = (
-  resourceData: Contact | Activity | Deal,
+  resourceData: Contact | Organization | Activity | Deal,
   resourceType: string
 ): string => {
   if (resourceType === "contact") {
     const contact = resourceData as Contact;
     return `${contact.firstName} ${contact.lastName}`.trim();
+  } else if (resourceType === "organization") {
+    const organization = resourceData as Organization;
+    return organization.name || "Organization";
   } else if (resourceType === "activity") {
     const activity = resourceData as Activity;
     return activity.type || "Activity";
@@ -121,6 +130,8 @@ export default function SharedItems({
     switch (type) {
       case "contact":
         return "Contact";
+      case "organization":
+        return "Organization";
       case "activity":
         return "Activity";
       case "deal":
@@ -276,6 +287,8 @@ export default function SharedItems({
                             const baseUrl =
                               resourceType === "contact"
                                 ? "/contacts"
+                                : resourceType === "organization"
+                                ? "/organizations"
                                 : resourceType === "activity"
                                 ? "/activities"
                                 : "/deals";
@@ -7,11 +7,14 @@ interface AuthState {
   user: User | null;
   isLoading: boolean;
   error: string | null;
+  // Set between the password and the second factor step of a login
+  twoFactorChallenge: string | null;
 }
 
 type AuthAction =
   | { type: "AUTH_START" }
   | { type: "AUTH_SUCCESS"; payload: User }
+  | { type: "AUTH_TWO_FACTOR"; payload: string }
   | { type: "AUTH_ERROR"; payload: string }
   | { type: "AUTH_LOGOUT" }
   | { type: "CLEAR_ERROR" };
@@ -20,6 +23,7 @@ const initialState: AuthState = {
   user: null,
   isLoading: true, // Start with loading true to check for existing token
   error: null,
+  twoFactorChallenge: null,
 };
 
 function authReducer(state: AuthState, action: AuthAction): AuthState {
@@ -36,6 +40,14 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         isLoading: false,
         user: action.payload,
         error: null,
+        twoFactorChallenge: null,
+      };
+    case "AUTH_TWO_FACTOR":
+      return {
+        ...state,
+        isLoading: false,
+        error: null,
+        twoFactorChallenge: action.payload,
       };
     case "AUTH_ERROR":
       return {
@@ -49,6 +61,7 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         user: null,
         isLoading: false,
         error: null,
+        twoFactorChallenge: null,
       };
     case "CLEAR_ERROR":
       return {
@@ -60,19 +73,32 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
   }
 }
 
+// "verify" when the account was created but its email must be verified
+// before the user can sign in
+type RegisterResult = "success" | "verify" | "error";
+
 interface AuthContextType extends AuthState {
   login: (email: string, password: string) => Promise<boolean>;
+  verifyTwoFactor: (code: string) => Promise<boolean>;
+  cancelTwoFactor: () => void;
   register: (userData: {
     email: string;
     password: string;
     firstName: string;
     lastName: string;
+  }) => Promise<RegisterResult>;
+  acceptInvitation: (invitation: {
+    token: string;
+    password: string;
+    firstName: string;
+    lastName: string;
   }) => Promise<boolean>;
   changePassword: (
     currentPassword: string,
     newPassword: string
   ) => Promise<boolean>;
   logout: () => void;
+  refreshUser: () => Promise<void>;
   clearError: () => void;
 }
 
@@ -111,7 +137,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     const response = await apiClient.login(email, password);
 
-    if (response.data) {
+    if (response.data?.twoFactorRequired) {
+      dispatch({
+        type: "AUTH_TWO_FACTOR",
+        payload: response.data.challengeToken,
+      });
+      return false;
+    } else if (response.data) {
       // Cookie is set automatically by the server
       dispatch({ type: "AUTH_SUCCESS", payload: response.data.user });
       return true;
@@ -124,25 +156,79 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const verifyTwoFactor = async (code: string): Promise<boolean> => {
+    if (!state.twoFactorChallenge) return false;
+
+    const response = await apiClient.loginTwoFactor(
+      state.twoFactorChallenge,
+      code
+    );
+
+    if (response.data) {
+      dispatch({ type: "AUTH_SUCCESS", payload: response.data.user });
+      return true;
+    } else if (response.status === 401 && response.error?.includes("expired")) {
+      // The challenge is only valid for a few minutes
+      dispatch({ type: "AUTH_LOGOUT" });
+      dispatch({ type: "AUTH_ERROR", payload: response.error });
+      return false;
+    } else {
+      dispatch({
+        type: "AUTH_ERROR",
+        payload: response.error || "Login failed",
+      });
+      return false;
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    dispatch({ type: "AUTH_LOGOUT" });
+  };
+
   const register = async (userData: {
     email: string;
     password: string;
     firstName: string;
     lastName: string;
-  }): Promise<boolean> => {
+  }): Promise<RegisterResult> => {
     dispatch({ type: "AUTH_START" });
 
     const response = await apiClient.register(userData);
 
-    if (response.data) {
+    if (response.data?.verificationRequired) {
+      dispatch({ type: "AUTH_LOGOUT" });
+      return "verify";
+    } else if (response.data) {
       // Cookie is set automatically by the server
       dispatch({ type: "AUTH_SUCCESS", payload: response.data.user });
-      return true;
+      return "success";
     } else {
       dispatch({
         type: "AUTH_ERROR",
         payload: response.error || "Registration failed",
       });
+      return "error";
+    }
+  };
+
+  const acceptInvitation = async (invitation: {
+    token: string;
+    password: string;
+    firstName: string;
+    lastName: string;
+  }): Promise<boolean> => {
+    dispatch({ type: "AUTH_START" });
+
+    const response = await apiClient.acceptInvitation(invitation);
+
+    if (response.data) {
+      dispatch({ type: "AUTH_SUCCESS", payload: response.data.user });
+      return true;
+    } else {
+      dispatch({
+        type: "AUTH_ERROR",
+        payload: response.error || "Could not accept invitation",
+      });
       return false;
     }
   };
@@ -155,6 +241,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     dispatch({ type: "AUTH_LOGOUT" });
   };
 
+  // Reload the user, e.g. after their two-factor settings changed
+  const refreshUser = async () => {
+    const response = await apiClient.getCurrentUser();
+    if (response.data?.user) {
+      dispatch({ type: "AUTH_SUCCESS", payload: response.data.user });
+    }
+  };
+
   const changePassword = async (
     currentPassword: string,
     newPassword: string
@@ -173,9 +267,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const value: AuthContextType = {
     ...state,
     login,
+    verifyTwoFactor,
+    cancelTwoFactor,
     register,
+    acceptInvitation,
     changePassword,
     logout,
+    refreshUser,
     clearError,
   };
 
@@ -0,0 +1,18 @@
+import { useState, useEffect } from "react";
+import { apiClient } from "../lib/api";
+import type { CustomField, CustomFieldEntity } from "../lib/api";
+
+// The custom fields admins defined for a kind of record, in form order
+export function useCustomFields(entityType: CustomFieldEntity) {
+  const [fields, setFields] = useState<CustomField[]>([]);
+
+  useEffect(() => {
+    apiClient.getCustomFields(entityType).then((response) => {
+      if (response.data) {
+        setFields(response.data.customFields);
+      }
+    });
+  }, [entityType]);
+
+  return fields;
+}
@@ -0,0 +1,10 @@
+import { useAuth } from "./useAuth";
+import { hasPermission } from "../lib/permissions";
+import type { Permission } from "../lib/api";
+
+export function usePermissions() {
+  const { user } = useAuth();
+  return {
+    can: (permission: Permission) => hasPermission(user, permission),
+  };
+}
@@ -8,8 +8,44 @@ export interface ApiResponse<T> {
   status: number;
 }
 
+// Auth endpoints that must not trigger a session refresh when they fail
+const NO_REFRESH_ENDPOINTS = [
+  "/auth/login",
+  "/auth/login/two-factor",
+  "/auth/register",
+  "/auth/refresh",
+];
+
+// Records that have a change history, and the endpoints they live under
+const HISTORY_PATHS = {
+  contact: "/contacts",
+  organization: "/organizations",
+  deal: "/deals",
+  activity: "/activities",
+};
+
+// Add custom field filters (cf[key]=value, or cf[key][from] and cf[key][to]
+// for a range) and sorting to a list's query string
+const appendCustomFieldParams = (
+  searchParams: URLSearchParams,
+  params?: CustomFieldListParams
+) => {
+  for (const [key, filter] of Object.entries(params?.cf || {})) {
+    if (typeof filter === "string") {
+      if (filter) searchParams.append(`cf[${key}]`, filter);
+      continue;
+    }
+    if (filter.from) searchParams.append(`cf[${key}][from]`, filter.from);
+    if (filter.to) searchParams.append(`cf[${key}][to]`, filter.to);
+  }
+  if (params?.sortBy) searchParams.append("sortBy", params.sortBy);
+  if (params?.sortOrder) searchParams.append("sortOrder", params.sortOrder);
+};
+
 class ApiClient {
   private baseURL: string;
+  // Shared by concurrent requests so the refresh token is only used once
+  private refreshPromise: Promise<boolean> | null = null;
 
   constructor(baseURL: string) {
     this.baseURL = baseURL;
@@ -25,9 +61,26 @@ class ApiClient {
     }
   }
 
+  // Exchange the refresh token cookie for a new access token
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = fetch(`${this.baseURL}/auth/refresh`, {
+        method: "POST",
+        credentials: "include",
+      })
+        .then((response) => response.ok)
+        .catch(() => false)
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    retry = true
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseURL}${endpoint}`;
 
@@ -43,6 +96,16 @@ class ApiClient {
         credentials: "include", // Always include cookies
       });
 
+      // The access token is short-lived: refresh the session and try again once
+      if (
+        response.status === 401 &&
+        retry &&
+        !NO_REFRESH_ENDPOINTS.includes(endpoint) &&
+        (await this.refreshSession())
+      ) {
+        return this.request<T>(endpoint, options, false);
+      }
+
       const data = await response.json();
 
       if (!response.ok) {
@@ -66,24 +129,87 @@ class ApiClient {
 
   // Auth endpoints
   async login(email: string, password: string) {
-    return this.request<{ user: User }>("/auth/login", {
+    return this.request<LoginResponse>("/auth/login", {
       method: "POST",
       body: JSON.stringify({ email, password }),
     });
   }
 
+  async loginTwoFactor(challengeToken: string, code: string) {
+    return this.request<{ user: User }>("/auth/login/two-factor", {
+      method: "POST",
+      body: JSON.stringify({ challengeToken, code }),
+    });
+  }
+
   async register(userData: {
     email: string;
     password: string;
     firstName: string;
     lastName: string;
   }) {
-    return this.request<{ user: User }>("/auth/register", {
+    return this.request<RegisterResponse>("/auth/register", {
       method: "POST",
       body: JSON.stringify(userData),
     });
   }
 
+  async forgotPassword(email: string) {
+    return this.request<{ message: string }>("/auth/forgot-password", {
+      method: "POST",
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(token: string, password: string) {
+    return this.request<{ message: string }>("/auth/reset-password", {
+      method: "POST",
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  async verifyEmail(token: string) {
+    return this.request<{ message: string }>("/auth/verify-email", {
+      method: "POST",
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async resendVerification(email: string) {
+    return this.request<{ message: string }>("/auth/resend-verification", {
+      method: "POST",
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async getInvitation(token: string) {
+    return this.request<{ email: string; role: string; expiresAt: string }>(
+      `/auth/invitations/${encodeURIComponent(token)}`
+    );
+  }
+
+  async acceptInvitation(invitation: {
+    token: string;
+    password: string;
+    firstName: string;
+    lastName: string;
+  }) {
+    return this.request<{ user: User }>("/auth/invitations/accept", {
+      method: "POST",
+      body: JSON.stringify(invitation),
+    });
+  }
+
+  async getSsoConfig() {
+    return this.request<SsoConfig>("/auth/oidc/config");
+  }
+
+  // A full page navigation rather than a request: the provider's sign-in
+  // page takes over the browser until it redirects back
+  getSsoLoginUrl() {
+    return `${this.baseURL}/auth/oidc/login`;
+  }
+
   async logout() {
     return this.request<{ message: string }>("/auth/logout", {
       method: "POST",
@@ -101,20 +227,98 @@ class ApiClient {
     });
   }
 
-  // Contacts endpoints
-  async getContacts(params?: {
-    page?: number;
-    limit?: number;
-    search?: string;
-    tags?: string;
-    status?: "hot" | "warm" | "cold" | "all_good";
+  async getSessions() {
+    return this.request<{ sessions: Session[] }>("/auth/sessions");
+  }
+
+  async revokeSession(id: number) {
+    return this.request<{ message: string }>(`/auth/sessions/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  async revokeOtherSessions() {
+    return this.request<{ message: string }>("/auth/sessions", {
+      method: "DELETE",
+    });
+  }
+
+  async getApiKeys() {
+    return this.request<{ apiKeys: ApiKey[] }>("/auth/api-keys");
+  }
+
+  async createApiKey(apiKey: {
+    name: string;
+    scopes: ApiKeyScopes;
+    expiresAt?: string | null;
   }) {
+    return this.request<ApiKey & { key: string }>("/auth/api-keys", {
+      method: "POST",
+      body: JSON.stringify(apiKey),
+    });
+  }
+
+  async revokeApiKey(id: number) {
+    return this.request<{ message: string }>(`/auth/api-keys/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  async getTwoFactorStatus() {
+    return this.request<TwoFactorStatus>("/auth/two-factor");
+  }
+
+  async setupTwoFactor() {
+    return this.request<{ secret: string; otpauthUri: string }>(
+      "/auth/two-factor/setup",
+      { method: "POST" }
+    );
+  }
+
+  async enableTwoFactor(code: string) {
+    return this.request<{ message: string; recoveryCodes: string[] }>(
+      "/auth/two-factor/enable",
+      {
+        method: "POST",
+        body: JSON.stringify({ code }),
+      }
+    );
+  }
+
+  async disableTwoFactor(password: string) {
+    return this.request<{ message: string }>("/auth/two-factor/disable", {
+      method: "POST",
+      body: JSON.stringify({ password }),
+    });
+  }
+
+  async regenerateRecoveryCodes(password: string) {
+    return this.request<{ recoveryCodes: string[] }>(
+      "/auth/two-factor/recovery-codes",
+      {
+        method: "POST",
+        body: JSON.stringify({ password }),
+      }
+    );
+  }
+
+  // Contacts endpoints
+  async getContacts(
+    params?: {
+      page?: number;
+      limit?: number;
+      search?: string;
+      tags?: string;
+      status?: "hot" | "warm" | "cold" | "all_good";
+    } & CustomFieldListParams
+  ) {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.append("page", params.page.toString());
     if (params?.limit) searchParams.append("limit", params.limit.toString());
     if (params?.search) searchParams.append("search", params.search);
     if (params?.tags) searchParams.append("tags", params.tags);
     if (params?.status) searchParams.append("status", params.status);
+    appendCustomFieldParams(searchParams, params);
 
     const query = searchParams.toString();
     return this.request<ContactsResponse>(
@@ -152,6 +356,30 @@ class ApiClient {
     return this.request<{ tags: string[] }>("/contacts/tags/all");
   }
 
+  async getContactDuplicates(limit?: number) {
+    return this.request<ContactDuplicatesResponse>(
+      `/contacts/duplicates${limit ? `?limit=${limit}` : ""}`
+    );
+  }
+
+  async dismissContactDuplicate(contactIds: [number, number]) {
+    return this.request<{ message: string }>("/contacts/duplicates/dismiss", {
+      method: "POST",
+      body: JSON.stringify({ contactIds }),
+    });
+  }
+
+  async mergeContacts(payload: {
+    survivorId: number;
+    mergedId: number;
+    fields?: Partial<Record<ContactMergeField, "survivor" | "merged">>;
+  }) {
+    return this.request<ContactMergeResult>("/contacts/merge", {
+      method: "POST",
+      body: JSON.stringify(payload),
+    });
+  }
+
   // Contact Notes endpoints
   async getContactNotes(contactId: number) {
     return this.request<{ notes: ContactNote[] }>(
@@ -179,6 +407,47 @@ class ApiClient {
     });
   }
 
+  // Contact Organizations endpoints
+  async getContactOrganizations(contactId: number) {
+    return this.request<{ organizations: ContactOrganization[] }>(
+      `/contact-organizations/contact/${contactId}`
+    );
+  }
+
+  async createContactOrganization(
+    linkData: ContactOrganizationInput & {
+      contactId: number;
+      companyId: number;
+    }
+  ) {
+    return this.request<ContactOrganization>("/contact-organizations", {
+      method: "POST",
+      body: JSON.stringify(linkData),
+    });
+  }
+
+  async updateContactOrganization(
+    linkId: number,
+    linkData: ContactOrganizationInput & { companyId?: number }
+  ) {
+    return this.request<ContactOrganization>(
+      `/contact-organizations/${linkId}`,
+      {
+        method: "PUT",
+        body: JSON.stringify(linkData),
+      }
+    );
+  }
+
+  async deleteContactOrganization(linkId: number) {
+    return this.request<{ message: string }>(
+      `/contact-organizations/${linkId}`,
+      {
+        method: "DELETE",
+      }
+    );
+  }
+
   // Activity Notes endpoints
   async getActivityNotes(activityId: number) {
     return this.request<{ notes: ActivityNote[] }>(
@@ -207,15 +476,18 @@ class ApiClient {
   }
 
   // Organizations endpoints
-  async getOrganizations(params?: {
-    page?: number;
-    limit?: number;
-    search?: string;
-  }) {
+  async getOrganizations(
+    params?: {
+      page?: number;
+      limit?: number;
+      search?: string;
+    } & CustomFieldListParams
+  ) {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.append("page", params.page.toString());
     if (params?.limit) searchParams.append("limit", params.limit.toString());
     if (params?.search) searchParams.append("search", params.search);
+    appendCustomFieldParams(searchParams, params);
 
     const query = searchParams.toString();
     return this.request<OrganizationsResponse>(
@@ -227,6 +499,34 @@ class ApiClient {
     return this.request<OrganizationWithDetails>(`/organizations/${id}`);
   }
 
+  async getOrganizationRelated(
+    id: number,
+    params?: {
+      section?: OrganizationRelatedSection;
+      page?: number;
+      limit?: number;
+      includeSubsidiaries?: boolean;
+    }
+  ) {
+    const searchParams = new URLSearchParams();
+    if (params?.section) searchParams.append("section", params.section);
+    if (params?.page) searchParams.append("page", params.page.toString());
+    if (params?.limit) searchParams.append("limit", params.limit.toString());
+    if (params?.includeSubsidiaries)
+      searchParams.append("includeSubsidiaries", "true");
+
+    const query = searchParams.toString();
+    return this.request<OrganizationRelated>(
+      `/organizations/${id}/related${query ? `?${query}` : ""}`
+    );
+  }
+
+  async getOrganizationTree() {
+    return this.request<{ organizations: OrganizationTreeNode[] }>(
+      "/organizations/tree"
+    );
+  }
+
   async createOrganization(
     organization: Omit<Organization, "id" | "created_at" | "updated_at">
   ) {
@@ -254,13 +554,54 @@ class ApiClient {
     return this.request<DealStage[]>("/deals/stages");
   }
 
-  async getDeals(params?: {
-    page?: number;
-    limit?: number;
-    search?: string;
-    stageId?: number;
-    companyId?: number;
+  async createDealStage(stage: {
+    name: string;
+    kind?: DealStageKind;
+    defaultProbability?: number;
   }) {
+    return this.request<DealStage>("/deals/stages", {
+      method: "POST",
+      body: JSON.stringify(stage),
+    });
+  }
+
+  async updateDealStage(
+    id: number,
+    stage: { name?: string; kind?: DealStageKind; defaultProbability?: number }
+  ) {
+    return this.request<DealStage>(`/deals/stages/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(stage),
+    });
+  }
+
+  async reorderDealStages(stageIds: number[]) {
+    return this.request<DealStage[]>("/deals/stages/order", {
+      method: "PUT",
+      body: JSON.stringify({ stageIds }),
+    });
+  }
+
+  async deleteDealStage(id: number, reassignTo?: number) {
+    const query = reassignTo ? `?reassignTo=${reassignTo}` : "";
+    return this.request<{ message: string; reassignedDeals: number }>(
+      `/deals/stages/${id}${query}`,
+      {
+        method: "DELETE",
+      }
+    );
+  }
+
+  async getDeals(
+    params?: {
+      page?: number;
+      limit?: number;
+      search?: string;
+      stageId?: number;
+      companyId?: number;
+      includeSubsidiaries?: boolean;
+    } & CustomFieldListParams
+  ) {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.append("page", params.page.toString());
     if (params?.limit) searchParams.append("limit", params.limit.toString());
@@ -269,6 +610,9 @@ class ApiClient {
       searchParams.append("stageId", params.stageId.toString());
     if (params?.companyId)
       searchParams.append("companyId", params.companyId.toString());
+    if (params?.includeSubsidiaries)
+      searchParams.append("includeSubsidiaries", "true");
+    appendCustomFieldParams(searchParams, params);
 
     const query = searchParams.toString();
     return this.request<DealsResponse>(`/deals${query ? `?${query}` : ""}`);
@@ -278,6 +622,13 @@ class ApiClient {
     return this.request<DealsByStage>("/deals/by-stage");
   }
 
+  async moveDealStage(id: number, stageId: number, position: number) {
+    return this.request<Deal>(`/deals/${id}/stage`, {
+      method: "PATCH",
+      body: JSON.stringify({ stageId, position }),
+    });
+  }
+
   async getDeal(id: number) {
     return this.request<DealWithDetails>(`/deals/${id}`);
   }
@@ -303,16 +654,19 @@ class ApiClient {
   }
 
   // Activities endpoints
-  async getActivities(params?: {
-    page?: number;
-    limit?: number;
-    search?: string;
-    type?: string;
-    completed?: boolean;
-    contactId?: number;
-    companyId?: number;
-    dealId?: number;
-  }) {
+  async getActivities(
+    params?: {
+      page?: number;
+      limit?: number;
+      search?: string;
+      type?: string;
+      completed?: boolean;
+      contactId?: number;
+      companyId?: number;
+      includeSubsidiaries?: boolean;
+      dealId?: number;
+    } & CustomFieldListParams
+  ) {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.append("page", params.page.toString());
     if (params?.limit) searchParams.append("limit", params.limit.toString());
@@ -324,7 +678,10 @@ class ApiClient {
       searchParams.append("contactId", params.contactId.toString());
     if (params?.companyId)
       searchParams.append("companyId", params.companyId.toString());
+    if (params?.includeSubsidiaries)
+      searchParams.append("includeSubsidiaries", "true");
     if (params?.dealId) searchParams.append("dealId", params.dealId.toString());
+    appendCustomFieldParams(searchParams, params);
 
     const query = searchParams.toString();
     return this.request<ActivitiesResponse>(
@@ -374,6 +731,7 @@ class ApiClient {
     limit?: number;
     search?: string;
     role?: string;
+    status?: "active" | "deactivated";
   }) {
     let url = "/admin/users";
     if (params) {
@@ -382,6 +740,7 @@ class ApiClient {
       if (params.limit) searchParams.append("limit", params.limit.toString());
       if (params.search) searchParams.append("search", params.search);
       if (params.role) searchParams.append("role", params.role);
+      if (params.status) searchParams.append("status", params.status);
       if (searchParams.toString()) url += `?${searchParams.toString()}`;
     }
     return this.request<UsersResponse>(url);
@@ -407,12 +766,158 @@ class ApiClient {
     });
   }
 
-  async deleteUser(id: number) {
-    return this.request<{ message: string }>(`/admin/users/${id}`, {
+  // Deleting a user who still owns records fails unless force is set
+  async deleteUser(id: number, force = false) {
+    return this.request<{ message: string }>(
+      `/admin/users/${id}${force ? "?force=true" : ""}`,
+      { method: "DELETE" }
+    );
+  }
+
+  // What deleting a user would delete along with them
+  async previewUserDeletion(id: number) {
+    return this.request<UserDeletionPreview>(
+      `/admin/users/${id}?preview=true`,
+      { method: "DELETE" }
+    );
+  }
+
+  async deactivateUser(id: number) {
+    return this.request<{ message: string }>(`/admin/users/${id}/deactivate`, {
+      method: "POST",
+    });
+  }
+
+  async reactivateUser(id: number) {
+    return this.request<{ message: string }>(`/admin/users/${id}/reactivate`, {
+      method: "POST",
+    });
+  }
+
+  // Give a user's records to another user, or to a team's owner
+  async transferUserRecords(
+    id: number,
+    target: { toUserId?: number; teamId?: number }
+  ) {
+    return this.request<{
+      message: string;
+      toUserId: string;
+      transferred: TransferredRecordCounts;
+    }>(`/admin/users/${id}/transfer`, {
+      method: "POST",
+      body: JSON.stringify(target),
+    });
+  }
+
+  async resetUserTwoFactor(id: number) {
+    return this.request<{ message: string }>(`/admin/users/${id}/two-factor`, {
+      method: "DELETE",
+    });
+  }
+
+  async getInvitations() {
+    return this.request<{ invitations: Invitation[] }>("/admin/invitations");
+  }
+
+  async createInvitation(email: string, role: string) {
+    return this.request<Invitation & { emailSent: boolean }>(
+      "/admin/invitations",
+      {
+        method: "POST",
+        body: JSON.stringify({ email, role }),
+      }
+    );
+  }
+
+  async resendInvitation(id: number) {
+    return this.request<{ message: string }>(
+      `/admin/invitations/${id}/resend`,
+      { method: "POST" }
+    );
+  }
+
+  async revokeInvitation(id: number) {
+    return this.request<{ message: string }>(`/admin/invitations/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  async getAllApiKeys() {
+    return this.request<{ apiKeys: AdminApiKey[] }>("/admin/api-keys");
+  }
+
+  async revokeUserApiKey(id: number) {
+    return this.request<{ message: string }>(`/admin/api-keys/${id}`, {
       method: "DELETE",
     });
   }
 
+  async unlockUser(id: number) {
+    return this.request<{ message: string }>(`/admin/users/${id}/unlock`, {
+      method: "POST",
+    });
+  }
+
+  async getLoginAttempts(params?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+    success?: boolean;
+  }) {
+    let url = "/admin/login-attempts";
+    if (params) {
+      const searchParams = new URLSearchParams();
+      if (params.page) searchParams.append("page", params.page.toString());
+      if (params.limit) searchParams.append("limit", params.limit.toString());
+      if (params.search) searchParams.append("search", params.search);
+      if (params.success !== undefined)
+        searchParams.append("success", params.success.toString());
+      if (searchParams.toString()) url += `?${searchParams.toString()}`;
+    }
+    return this.request<LoginAttemptsResponse>(url);
+  }
+
+  async getAuditLog(params?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+    action?: AuditAction;
+    entityType?: AuditEntityType;
+    from?: string;
+    to?: string;
+  }) {
+    let url = "/admin/audit";
+    if (params) {
+      const searchParams = new URLSearchParams();
+      if (params.page) searchParams.append("page", params.page.toString());
+      if (params.limit) searchParams.append("limit", params.limit.toString());
+      if (params.search) searchParams.append("search", params.search);
+      if (params.action) searchParams.append("action", params.action);
+      if (params.entityType)
+        searchParams.append("entityType", params.entityType);
+      if (params.from) searchParams.append("from", params.from);
+      if (params.to) searchParams.append("to", params.to);
+      if (searchParams.toString()) url += `?${searchParams.toString()}`;
+    }
+    return this.request<AuditLogResponse>(url);
+  }
+
+  // History of a contact, deal or activity, including its shares
+  async getRecordHistory(
+    entityType: keyof typeof HISTORY_PATHS,
+    id: number,
+    params?: { page?: number; limit?: number }
+  ) {
+    let url = `${HISTORY_PATHS[entityType]}/${id}/history`;
+    if (params) {
+      const searchParams = new URLSearchParams();
+      if (params.page) searchParams.append("page", params.page.toString());
+      if (params.limit) searchParams.append("limit", params.limit.toString());
+      if (searchParams.toString()) url += `?${searchParams.toString()}`;
+    }
+    return this.request<AuditLogResponse>(url);
+  }
+
   async getUserStats() {
     return this.request<{
       total: number;
@@ -445,15 +950,124 @@ class ApiClient {
     });
   }
 
-  // Shares endpoints
-  async getSharedWithMe(params?: {
-    type?: string;
-    page?: number;
-    limit?: number;
-  }) {
-    let url = "/shares/shared-with-me";
-    if (params) {
-      const searchParams = new URLSearchParams();
+  // Teams endpoints
+  async getMyTeams() {
+    return this.request<{ teams: MyTeam[] }>("/teams");
+  }
+
+  async getTeams() {
+    return this.request<{ teams: Team[] }>("/admin/teams");
+  }
+
+  async createTeam(team: { name: string; description?: string }) {
+    return this.request<Team>("/admin/teams", {
+      method: "POST",
+      body: JSON.stringify(team),
+    });
+  }
+
+  async updateTeam(id: number, team: { name?: string; description?: string }) {
+    return this.request<Team>(`/admin/teams/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(team),
+    });
+  }
+
+  async deleteTeam(id: number) {
+    return this.request<{ message: string }>(`/admin/teams/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  async saveTeamMember(teamId: number, userId: number, role: TeamRole) {
+    return this.request<{ message: string }>(
+      `/admin/teams/${teamId}/members/${userId}`,
+      {
+        method: "PUT",
+        body: JSON.stringify({ role }),
+      }
+    );
+  }
+
+  async removeTeamMember(teamId: number, userId: number) {
+    return this.request<{ message: string }>(
+      `/admin/teams/${teamId}/members/${userId}`,
+      {
+        method: "DELETE",
+      }
+    );
+  }
+
+  // Roles endpoints
+  async getRoles() {
+    return this.request<RolesResponse>("/admin/roles");
+  }
+
+  async createRole(role: RoleInput & { name: string }) {
+    return this.request<Role>("/admin/roles", {
+      method: "POST",
+      body: JSON.stringify(role),
+    });
+  }
+
+  // A role's name can't change once created
+  async updateRole(name: string, role: Partial<RoleInput>) {
+    return this.request<Role>(`/admin/roles/${name}`, {
+      method: "PUT",
+      body: JSON.stringify(role),
+    });
+  }
+
+  async deleteRole(name: string) {
+    return this.request<{ message: string }>(`/admin/roles/${name}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Custom fields endpoints
+  async getCustomFields(entityType?: CustomFieldEntity) {
+    const query = entityType ? `?entityType=${entityType}` : "";
+    return this.request<{ customFields: CustomField[] }>(
+      `/custom-fields${query}`
+    );
+  }
+
+  async createCustomField(
+    field: CustomFieldInput & {
+      entityType: CustomFieldEntity;
+      key: string;
+      fieldType: CustomFieldType;
+    }
+  ) {
+    return this.request<CustomField>("/admin/custom-fields", {
+      method: "POST",
+      body: JSON.stringify(field),
+    });
+  }
+
+  // A field's key and type can't change once created
+  async updateCustomField(id: number, field: Partial<CustomFieldInput>) {
+    return this.request<CustomField>(`/admin/custom-fields/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(field),
+    });
+  }
+
+  async deleteCustomField(id: number) {
+    return this.request<{ message: string }>(`/admin/custom-fields/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Shares endpoints
+  async getSharedWithMe(params?: {
+    type?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    let url = "/shares/shared-with-me";
+    if (params) {
+      const searchParams = new URLSearchParams();
       if (params.type) searchParams.append("type", params.type);
       if (params.page) searchParams.append("page", params.page.toString());
       if (params.limit) searchParams.append("limit", params.limit.toString());
@@ -520,6 +1134,86 @@ class ApiClient {
   async getUsersForSharing() {
     return this.request<User[]>("/shares/users");
   }
+
+  // Reports endpoints
+  async getPipelineVelocity(params?: {
+    from?: string;
+    to?: string;
+    ownerId?: number;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params?.from) searchParams.append("from", params.from);
+    if (params?.to) searchParams.append("to", params.to);
+    if (params?.ownerId)
+      searchParams.append("ownerId", params.ownerId.toString());
+
+    const query = searchParams.toString();
+    return this.request<PipelineVelocityReport>(
+      `/reports/pipeline-velocity${query ? `?${query}` : ""}`
+    );
+  }
+
+  // Import endpoints
+  async importRecords(
+    entity: ImportEntity,
+    payload: { csv: string; mapping?: ImportMapping; dryRun?: boolean }
+  ) {
+    return this.request<ImportResult>(`/import/${entity}`, {
+      method: "POST",
+      body: JSON.stringify(payload),
+    });
+  }
+
+  // Export endpoints
+  async exportRecords(
+    entity: ExportEntity,
+    format: ExportFormat,
+    filters?: Record<string, string | number | boolean | undefined>,
+    cf?: CustomFieldFilters
+  ): Promise<ApiResponse<Blob>> {
+    const searchParams = new URLSearchParams({ format });
+    Object.entries(filters || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") {
+        searchParams.append(key, value.toString());
+      }
+    });
+    appendCustomFieldParams(searchParams, { cf });
+
+    // Exports are files rather than JSON, so they skip request()
+    try {
+      const url = `${this.baseURL}/export/${entity}?${searchParams.toString()}`;
+      let response = await fetch(url, { credentials: "include" });
+      if (response.status === 401 && (await this.refreshSession())) {
+        response = await fetch(url, { credentials: "include" });
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        return {
+          error: data.message || `HTTP error! status: ${response.status}`,
+          status: response.status,
+        };
+      }
+
+      return {
+        data: await response.blob(),
+        status: response.status,
+      };
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : "Network error",
+        status: 0,
+      };
+    }
+  }
+
+  // Search endpoints
+  async search(q: string, limit?: number) {
+    const searchParams = new URLSearchParams({ q });
+    if (limit) searchParams.append("limit", limit.toString());
+
+    return this.request<SearchResponse>(`/search?${searchParams.toString()}`);
+  }
 }
 
 // Types
@@ -532,24 +1226,292 @@ export interface User {
   first_name?: string;
   last_name?: string;
   role?: string;
+  // The role's display name, returned for the signed in user
+  roleLabel?: string | null;
+  // What the user's role lets them do
+  permissions?: Permission[];
+  twoFactorEnabled?: boolean;
+  // Two-factor authentication is mandatory for this user but not set up yet
+  twoFactorSetupRequired?: boolean;
+  // Set while the account is locked after failed logins (admin only)
+  lockedUntil?: string | null;
+  // Set while the account is deactivated (admin only)
+  deactivatedAt?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
+// Users with two-factor authentication get a challenge instead of a session
+export type LoginResponse =
+  | { user: User; twoFactorRequired?: undefined }
+  | { twoFactorRequired: true; challengeToken: string };
+
+// With email verification on, registering doesn't log the user in
+export type RegisterResponse =
+  | { user: User; verificationRequired?: undefined }
+  | { verificationRequired: true; message: string };
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// How the login page offers single sign-on
+export interface SsoConfig {
+  enabled: boolean;
+  buttonLabel: string;
+  passwordLoginEnabled: boolean;
+  // The callback URL to register with the provider
+  redirectUri: string;
+}
+
+export interface Session {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  // The session this browser is using
+  current: boolean;
+}
+
+export type ApiKeyEntity =
+  "contacts" | "organizations" | "deals" | "activities";
+
+export type ApiKeyAccess = "read" | "write";
+
+// Entities that aren't listed can't be reached with the key
+export type ApiKeyScopes = Partial<Record<ApiKeyEntity, ApiKeyAccess>>;
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  // The first characters of the key, to recognize it by
+  prefix: string;
+  scopes: ApiKeyScopes;
+  expiresAt: string | null;
+  expired: boolean;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export interface AdminApiKey extends ApiKey {
+  owner: {
+    id: number;
+    email: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+export interface Invitation {
+  id: number;
+  email: string;
+  role: string;
+  // Name of the admin who sent it, null if they were deleted
+  invitedBy: string | null;
+  expiresAt: string;
+  expired: boolean;
+  createdAt: string;
+}
+
+export type Permission =
+  | "can_edit_records"
+  | "can_delete_contacts"
+  | "can_delete_organizations"
+  | "can_delete_deals"
+  | "can_delete_activities"
+  | "can_view_all_records"
+  | "can_import"
+  | "can_export"
+  | "can_manage_stages"
+  | "can_manage_users"
+  | "can_manage_settings"
+  | "can_view_audit_log";
+
+export interface Role {
+  name: string;
+  label: string;
+  description: string | null;
+  permissions: Permission[];
+  // Built-in roles can't be deleted
+  isSystem: boolean;
+  userCount: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RoleInput {
+  label: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+export interface RolesResponse {
+  roles: Role[];
+  // Every permission a role can hold
+  permissions: Permission[];
+}
+
+export type CustomFieldEntity =
+  "contact" | "organization" | "deal" | "activity";
+
+export type CustomFieldType =
+  "text" | "number" | "date" | "select" | "multi_select" | "boolean" | "url";
+
+export interface CustomField {
+  id: number;
+  entityType: CustomFieldEntity;
+  key: string;
+  label: string;
+  fieldType: CustomFieldType;
+  // The choices of select and multi-select fields
+  options: string[];
+  isRequired: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomFieldInput {
+  label: string;
+  options?: string[];
+  isRequired?: boolean;
+}
+
+export type CustomFieldValue = string | number | boolean | string[];
+
+// A record's custom field values by field key; null clears a value
+export type CustomFieldValues = Record<string, CustomFieldValue | null>;
+
+// A value to match per field key, or a range for number and date fields
+export type CustomFieldFilters = Record<
+  string,
+  string | { from?: string; to?: string }
+>;
+
+export interface CustomFieldListParams {
+  cf?: CustomFieldFilters;
+  // "cf.<key>" to sort by a custom field
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
+}
+
+export type TeamRole = "owner" | "manager" | "member" | "viewer";
+
+export interface TeamMember {
+  userId: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: TeamRole;
+}
+
+export interface Team {
+  id: number;
+  name: string;
+  description?: string;
+  members: TeamMember[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MyTeam {
+  id: number;
+  name: string;
+  description?: string;
+  role: TeamRole;
+  memberCount: number;
+}
+
+export type ContactMethodLabel = "work" | "personal" | "mobile" | "other";
+
+export type AddressLabel = "billing" | "shipping" | "home" | "work" | "other";
+
+export interface ContactEmail {
+  label: ContactMethodLabel;
+  email: string;
+  isPrimary: boolean;
+}
+
+export interface ContactPhone {
+  label: ContactMethodLabel;
+  // E.164 once saved; numbers without a country code get the default one
+  number: string;
+  isPrimary: boolean;
+}
+
+export interface PostalAddress {
+  label: AddressLabel;
+  street?: string;
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+  isPrimary: boolean;
+}
+
 export interface Contact {
   id: number;
   firstName: string;
   lastName: string;
+  // The primary entries of the lists below
   email?: string;
   phone?: string;
+  emails?: ContactEmail[];
+  phones?: ContactPhone[];
+  addresses?: PostalAddress[];
   position?: string;
   companyId?: number;
   notes?: string;
   tags?: string[];
   status?: "hot" | "warm" | "cold" | "all_good";
+  teamId?: number | null;
+  customFields?: CustomFieldValues;
   created_at: string;
   updated_at: string;
   company_name?: string;
+  team_name?: string;
+  isSharedWithMe?: boolean;
+  permission?: "read" | "write" | null;
+}
+
+export interface DuplicateContact extends Contact {
+  dealCount: number;
+  activityCount: number;
+  noteCount: number;
+}
+
+export interface ContactDuplicatePair {
+  score: number;
+  reasons: string[];
+  contacts: [DuplicateContact, DuplicateContact];
+}
+
+export interface ContactDuplicatesResponse {
+  pairs: ContactDuplicatePair[];
+  total: number;
+}
+
+export type ContactMergeField =
+  | "firstName"
+  | "lastName"
+  | "email"
+  | "phone"
+  | "position"
+  | "companyId"
+  | "notes"
+  | "status";
+
+export interface ContactMergeResult {
+  contact: Contact;
+  moved: {
+    deals: number;
+    activities: number;
+    notes: number;
+    shares: number;
+  };
 }
 
 export interface ContactNote {
@@ -561,6 +1523,37 @@ export interface ContactNote {
   updatedAt: string;
 }
 
+// A contact's role at an organization, current or past
+export interface ContactOrganization {
+  id: number;
+  contactId: number;
+  companyId: number;
+  companyName?: string;
+  title: string | null;
+  department: string | null;
+  // YYYY-MM-DD
+  startDate: string | null;
+  endDate: string | null;
+  isCurrent: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContactOrganizationInput {
+  title?: string | null;
+  department?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  isCurrent?: boolean;
+}
+
+export interface OrganizationPerson extends ContactOrganization {
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phone?: string;
+}
+
 export interface ActivityNote {
   id: number;
   content: string;
@@ -577,28 +1570,116 @@ export interface Organization {
   website?: string;
   phone?: string;
   email?: string;
+  // The primary address on one line
   address?: string;
+  addresses?: PostalAddress[];
   notes?: string;
+  teamId?: number | null;
+  // The organization this one is a subsidiary of
+  parentId?: number | null;
+  customFields?: CustomFieldValues;
+  // Backend returns the team, parent and custom fields as snake_case fields
+  team_id?: number | null;
+  team_name?: string;
+  parent_id?: number | null;
+  parent_name?: string;
+  custom_fields?: CustomFieldValues;
   created_at: string;
   updated_at: string;
   contact_count?: number;
   deal_count?: number;
+  isSharedWithMe?: boolean;
+  permission?: "read" | "write";
+}
+
+// Open pipeline, won revenue, current contacts and the last activity across
+// an organization and all its subsidiaries
+export interface OrganizationRollup {
+  openPipeline: number;
+  openDealCount: number;
+  wonRevenue: number;
+  contactCount: number;
+  lastActivityAt: string | null;
+}
+
+export interface OrganizationSummary {
+  id: number;
+  name: string;
+}
+
+export interface OrganizationTreeNode extends OrganizationSummary {
+  industry?: string;
+  parentId: number | null;
+  rollup: OrganizationRollup;
+  subsidiaries: OrganizationTreeNode[];
 }
 
 export interface OrganizationWithDetails extends Organization {
+  parent: OrganizationSummary | null;
+  subsidiaries: OrganizationSummary[];
+  rollup: OrganizationRollup;
   contacts: Contact[];
+  people: { current: OrganizationPerson[]; past: OrganizationPerson[] };
+  deals: DealWithDetails[];
+}
+
+export type OrganizationRelatedSection =
+  "contacts" | "deals" | "openActivities" | "completedActivities" | "notes";
+
+// A stage with its totals over all the organization's deals and the deals of
+// the loaded page in it
+export interface RelatedDealStage {
+  stageId: number | null;
+  stageName: string | null;
+  kind: DealStageKind | null;
+  count: number;
+  value: number;
   deals: DealWithDetails[];
 }
 
+export interface RelatedActivity extends ActivityWithDetails {
+  due_date?: string;
+  deal_name?: string;
+}
+
+// A note on one of the organization's contacts or activities
+export interface RelatedNote {
+  id: number;
+  content: string;
+  source: { type: "contact" | "activity"; id: number; label: string };
+  authorName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PagedItems<T> {
+  items: T[];
+  pagination: Pagination;
+}
+
+// Only the requested section is returned when one is given
+export interface OrganizationRelated {
+  contacts?: PagedItems<OrganizationPerson>;
+  deals?: { stages: RelatedDealStage[]; pagination: Pagination };
+  openActivities?: PagedItems<RelatedActivity>;
+  completedActivities?: PagedItems<RelatedActivity>;
+  notes?: PagedItems<RelatedNote>;
+}
+
 // Backward compatibility aliases
 export type Company = Organization;
 export type CompanyWithDetails = OrganizationWithDetails;
 export type CompaniesResponse = OrganizationsResponse;
 
+export type DealStageKind = "open" | "won" | "lost";
+
 export interface DealStage {
   id: number;
   name: string;
   order_index: number;
+  kind: DealStageKind;
+  default_probability: number;
+  deal_count?: number;
   created_at: string;
 }
 
@@ -611,8 +1692,10 @@ export interface Deal {
   contactId?: number;
   companyId?: number;
   expectedCloseDate?: string;
-  probability: number;
+  probability?: number;
   notes?: string;
+  teamId?: number | null;
+  customFields?: CustomFieldValues;
   created_at: string;
   updated_at: string;
 }
@@ -626,6 +1709,12 @@ export interface DealWithDetails extends Deal {
   stage_name?: string;
   contact_name?: string;
   company_name?: string;
+  team_id?: number | null;
+  team_name?: string;
+  custom_fields?: CustomFieldValues;
+  position?: number;
+  is_shared_with_me?: boolean;
+  permissions?: "read" | "write" | null;
 }
 
 export interface Activity {
@@ -638,6 +1727,8 @@ export interface Activity {
   contactId?: number;
   companyId?: number;
   dealId?: number;
+  teamId?: number | null;
+  customFields?: CustomFieldValues;
   created_at: string;
   updated_at: string;
 }
@@ -646,6 +1737,11 @@ export interface ActivityWithDetails extends Activity {
   contact_name?: string;
   company_name?: string;
   deal_title?: string;
+  team_id?: number | null;
+  team_name?: string;
+  custom_fields?: CustomFieldValues;
+  is_shared_with_me?: boolean;
+  permission?: "read" | "write" | null;
 }
 
 export interface Pagination {
@@ -677,18 +1773,232 @@ export interface ActivitiesResponse {
   pagination: Pagination;
 }
 
+export interface StageTotals {
+  count: number;
+  value: number;
+  weightedValue: number;
+}
+
 export interface DealsByStage {
   [stageId: string]: {
     stage: DealStage;
     deals: DealWithDetails[];
+    totals: StageTotals;
+  };
+}
+
+export interface StageVelocity {
+  id: number;
+  name: string;
+  kind: DealStageKind;
+  orderIndex: number;
+  dealsReached: number;
+  conversionRate: number | null;
+  avgDaysInStage: number | null;
+  completedStays: number;
+}
+
+export interface PipelineVelocityReport {
+  filters: {
+    from: string | null;
+    to: string | null;
+    ownerId: number | null;
+  };
+  stages: StageVelocity[];
+  summary: {
+    dealsCreated: number;
+    wonCount: number;
+    lostCount: number;
+    winRate: number | null;
+    avgSalesCycleDays: number | null;
   };
 }
 
+export type ImportEntity = "contacts" | "organizations";
+
+export type ImportMapping = Record<string, string>;
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+export interface ImportRowResult {
+  line: number;
+  status: "valid" | "duplicate" | "invalid";
+  errors: string[];
+  data: Record<string, string | string[] | null>;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  headers: string[];
+  fields: ImportField[];
+  mapping: ImportMapping;
+  missingFields: string[];
+  summary: {
+    total: number;
+    valid: number;
+    duplicates: number;
+    invalid: number;
+    newCompanies: number;
+    imported: number;
+  };
+  rows: ImportRowResult[];
+}
+
+export type ExportEntity = ImportEntity | "deals" | "activities";
+
+export type ExportFormat = "csv" | "ndjson";
+
+export type SearchGroupType =
+  | "contacts"
+  | "organizations"
+  | "deals"
+  | "activities"
+  | "contactNotes"
+  | "activityNotes";
+
+// title and snippet wrap matches in <mark> tags; the text is not HTML-escaped
+export interface SearchResult {
+  id: number;
+  // Contact or activity the note belongs to
+  parentId: number | null;
+  title: string;
+  subtitle: string | null;
+  snippet: string | null;
+  rank: number;
+}
+
+export interface SearchGroup {
+  type: SearchGroupType;
+  total: number;
+  results: SearchResult[];
+}
+
+export interface SearchResponse {
+  query: string;
+  groups: SearchGroup[];
+}
+
+export interface LoginAttempt {
+  id: number;
+  email: string;
+  userId: number | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  success: boolean;
+  // Why a failed attempt was turned down
+  reason:
+    | "invalid_credentials"
+    | "invalid_code"
+    | "email_unverified"
+    | "locked"
+    | "throttled"
+    | "ip_blocked"
+    | "password_disabled"
+    | "sso_denied"
+    | "deactivated"
+    | null;
+  createdAt: string;
+}
+
+export interface LoginAttemptsResponse {
+  attempts: LoginAttempt[];
+  pagination: Pagination;
+}
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "merge"
+  | "unlock"
+  | "reset_two_factor"
+  | "resend"
+  | "revoke"
+  | "deactivate"
+  | "reactivate"
+  | "transfer";
+
+export type AuditEntityType =
+  | "contact"
+  | "organization"
+  | "deal"
+  | "activity"
+  | "share"
+  | "user"
+  | "setting"
+  | "invitation"
+  | "team"
+  | "team_member"
+  | "api_key"
+  | "role"
+  | "custom_field"
+  | "employment"
+  | "note";
+
+export interface AuditEntry {
+  id: number;
+  // Null if the change wasn't made by a signed in user
+  actor: { id: number | null; email: string; name: string | null } | null;
+  apiKeyId: number | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string | null;
+  // The record a share or team member belongs to
+  parentType: AuditEntityType | null;
+  parentId: string | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogResponse {
+  entries: AuditEntry[];
+  pagination: Pagination;
+}
+
 export interface UsersResponse {
   users: User[];
   pagination: Pagination;
 }
 
+// How many records of each kind belong to a user
+export interface UserRecordCounts {
+  contacts: number;
+  organizations: number;
+  deals: number;
+  activities: number;
+  contactNotes: number;
+  activityNotes: number;
+  sharesGiven: number;
+  sharesReceived: number;
+  dealStages: number;
+  teamMemberships: number;
+  apiKeys: number;
+}
+
+export interface UserDeletionPreview {
+  records: UserRecordCounts;
+  // The user owns records that would be lost with them
+  requiresTransfer: boolean;
+}
+
+export interface TransferredRecordCounts {
+  contacts: number;
+  organizations: number;
+  deals: number;
+  activities: number;
+  contactNotes: number;
+  activityNotes: number;
+  shares: number;
+}
+
 export interface Share {
   id: number;
   shared_by: number;
@@ -0,0 +1,23 @@
+import type { ApiKeyAccess, ApiKeyEntity, ApiKeyScopes } from "./api";
+
+export const API_KEY_ENTITIES: { value: ApiKeyEntity; label: string }[] = [
+  { value: "contacts", label: "Contacts" },
+  { value: "organizations", label: "Organizations" },
+  { value: "deals", label: "Deals" },
+  { value: "activities", label: "Activities" },
+];
+
+export const API_KEY_ACCESS_LABELS: Record<ApiKeyAccess, string> = {
+  read: "Read only",
+  write: "Read & write",
+};
+
+// e.g. "Contacts: Read & write, Deals: Read only"
+export function describeScopes(scopes: ApiKeyScopes) {
+  return API_KEY_ENTITIES.filter((entity) => scopes[entity.value])
+    .map(
+      (entity) =>
+        `${entity.label}: ${API_KEY_ACCESS_LABELS[scopes[entity.value]!]}`
+    )
+    .join(", ");
+}
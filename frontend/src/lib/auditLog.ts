@@ -0,0 +1,99 @@
+import type { AuditAction, AuditEntityType, AuditEntry } from "./api";
+
+export const AUDIT_ACTIONS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  merge: "Merged",
+  unlock: "Unlocked",
+  reset_two_factor: "Reset 2FA",
+  resend: "Resent",
+  revoke: "Revoked",
+  deactivate: "Deactivated",
+  reactivate: "Reactivated",
+  transfer: "Transferred records",
+};
+
+export const AUDIT_ENTITY_TYPES: Record<AuditEntityType, string> = {
+  contact: "Contact",
+  organization: "Organization",
+  deal: "Deal",
+  activity: "Activity",
+  share: "Share",
+  user: "User",
+  setting: "Setting",
+  invitation: "Invitation",
+  team: "Team",
+  team_member: "Team member",
+  api_key: "API key",
+  role: "Role",
+  custom_field: "Custom field",
+  employment: "Employment",
+  note: "Note",
+};
+
+// What happened to a share, from the point of view of the shared record
+const SHARE_ACTIONS: Partial<Record<AuditAction, string>> = {
+  create: "Shared with",
+  update: "Changed sharing with",
+  delete: "Stopped sharing with",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+/**
+ * A column name as a label, e.g. "expected_close_date" -> "Expected close
+ * date" and "stage_id" -> "Stage"
+ */
+export const formatAuditField = (field: string): string => {
+  const words = field.replace(/_id$/, "").replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === "" || value === undefined) {
+    return "empty";
+  }
+  if (Array.isArray(value)) {
+    return value.length ? value.join(", ") : "empty";
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  if (typeof value === "string" && ISO_DATE.test(value)) {
+    return new Date(value).toLocaleString();
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+/**
+ * What an entry did to the record whose history it is in, e.g. "Updated",
+ * for one of the record's shares "Shared with jane@example.com", or for a
+ * note or role kept under it "Note created: Called about renewal"
+ */
+export const describeRecordChange = (entry: AuditEntry): string => {
+  if (entry.entityType === "share" && SHARE_ACTIONS[entry.action]) {
+    return `${SHARE_ACTIONS[entry.action]} ${entry.entityLabel || "a user"}`;
+  }
+  if (entry.parentType) {
+    const change = `${AUDIT_ENTITY_TYPES[entry.entityType]} ${AUDIT_ACTIONS[
+      entry.action
+    ].toLowerCase()}`;
+    return entry.entityLabel ? `${change}: ${entry.entityLabel}` : change;
+  }
+  return AUDIT_ACTIONS[entry.action];
+};
+
+/**
+ * The field changes worth listing: everything an update or merge changed.
+ * Creates and deletes would list every field the record has.
+ */
+export const listedAuditChanges = (
+  entry: AuditEntry
+): [string, { from: unknown; to: unknown }][] =>
+  entry.action === "create" || entry.action === "delete"
+    ? []
+    : Object.entries(entry.changes);
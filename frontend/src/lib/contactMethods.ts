@@ -0,0 +1,91 @@
+import type {
+  AddressLabel,
+  ContactEmail,
+  ContactMethodLabel,
+  ContactPhone,
+  PostalAddress,
+} from "./api";
+
+export const CONTACT_METHOD_LABELS: Record<ContactMethodLabel, string> = {
+  work: "Work",
+  personal: "Personal",
+  mobile: "Mobile",
+  other: "Other",
+};
+
+export const ADDRESS_LABELS: Record<AddressLabel, string> = {
+  billing: "Billing",
+  shipping: "Shipping",
+  home: "Home",
+  work: "Work",
+  other: "Other",
+};
+
+export const EMPTY_EMAIL: ContactEmail = {
+  label: "work",
+  email: "",
+  isPrimary: false,
+};
+
+export const EMPTY_PHONE: ContactPhone = {
+  label: "work",
+  number: "",
+  isPrimary: false,
+};
+
+export const EMPTY_ADDRESS: PostalAddress = {
+  label: "billing",
+  street: "",
+  city: "",
+  region: "",
+  postalCode: "",
+  country: "",
+  isPrimary: false,
+};
+
+/**
+ * An address on one line, skipping empty parts
+ */
+export const formatAddress = (address: PostalAddress): string =>
+  [
+    address.street,
+    address.city,
+    address.region,
+    address.postalCode,
+    address.country,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+/**
+ * The entries worth saving from an editor: blank rows are dropped and the
+ * first entry becomes primary when none is
+ */
+export const toSavedEntries = <T extends { isPrimary: boolean }>(
+  entries: T[],
+  isBlank: (entry: T) => boolean
+): T[] => {
+  const kept = entries.filter((entry) => !isBlank(entry));
+  const hasPrimary = kept.some((entry) => entry.isPrimary);
+  return kept.map((entry, i) => ({
+    ...entry,
+    isPrimary: hasPrimary ? entry.isPrimary : i === 0,
+  }));
+};
+
+// Editor updates; each returns a new list
+
+export const updateEntry = <T>(
+  entries: T[],
+  index: number,
+  changes: Partial<T>
+): T[] =>
+  entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry));
+
+export const removeEntry = <T>(entries: T[], index: number): T[] =>
+  entries.filter((_, i) => i !== index);
+
+export const setPrimaryEntry = <T extends { isPrimary: boolean }>(
+  entries: T[],
+  index: number
+): T[] => entries.map((entry, i) => ({ ...entry, isPrimary: i === index }));
@@ -0,0 +1,99 @@
+import type {
+  CustomField,
+  CustomFieldEntity,
+  CustomFieldType,
+  CustomFieldValue,
+  CustomFieldValues,
+} from "./api";
+
+export const CUSTOM_FIELD_ENTITY_LABELS: Record<CustomFieldEntity, string> = {
+  contact: "Contacts",
+  organization: "Organizations",
+  deal: "Deals",
+  activity: "Activities",
+};
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  select: "Select",
+  multi_select: "Multi-select",
+  boolean: "Yes / No",
+  url: "URL",
+};
+
+// Types whose values are picked from the field's options
+export const OPTION_FIELD_TYPES: CustomFieldType[] = ["select", "multi_select"];
+
+// Form inputs hold text, except multi-selects which hold the chosen options
+export type CustomFieldFormValue = string | string[];
+export type CustomFieldFormValues = Record<string, CustomFieldFormValue>;
+
+const isEmpty = (value: CustomFieldFormValue | undefined): boolean =>
+  value === undefined || value.length === 0;
+
+/**
+ * A record's stored values as form input values, with every field present
+ */
+export const toCustomFieldFormValues = (
+  fields: CustomField[],
+  values?: CustomFieldValues
+): CustomFieldFormValues =>
+  Object.fromEntries(
+    fields.map((field) => {
+      const value = values?.[field.key];
+      if (field.fieldType === "multi_select") {
+        return [field.key, Array.isArray(value) ? value : []];
+      }
+      return [
+        field.key,
+        value === undefined || value === null ? "" : String(value),
+      ];
+    })
+  );
+
+/**
+ * The values to send when saving a form; empty inputs clear their field
+ */
+export const toCustomFieldPayload = (
+  fields: CustomField[],
+  values: CustomFieldFormValues
+): CustomFieldValues =>
+  Object.fromEntries(
+    fields.map((field) => {
+      const value = values[field.key];
+      return [field.key, isEmpty(value) ? null : value];
+    })
+  );
+
+/**
+ * Errors for required fields left empty, keyed by field key
+ */
+export const validateCustomFieldValues = (
+  fields: CustomField[],
+  values: CustomFieldFormValues
+): Record<string, string> =>
+  Object.fromEntries(
+    fields
+      .filter((field) => field.isRequired && isEmpty(values[field.key]))
+      .map((field) => [field.key, `${field.label} is required`])
+  );
+
+/**
+ * A stored value as shown in lists and detail pages
+ */
+export const formatCustomFieldValue = (
+  value: CustomFieldValue | null | undefined
+): string => {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.join(", ");
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  return String(value);
+};
@@ -0,0 +1,34 @@
+import type { Permission, User } from "./api";
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  can_edit_records: "Create and edit records",
+  can_delete_contacts: "Delete contacts",
+  can_delete_organizations: "Delete organizations",
+  can_delete_deals: "Delete deals",
+  can_delete_activities: "Delete activities",
+  can_view_all_records: "View all records",
+  can_import: "Import",
+  can_export: "Export",
+  can_manage_stages: "Manage pipeline stages",
+  can_manage_users: "Manage users, teams and roles",
+  can_manage_settings: "Manage settings",
+  can_view_audit_log: "View audit and login logs",
+};
+
+// Any of these opens the admin panel
+const ADMIN_PERMISSIONS: Permission[] = [
+  "can_manage_users",
+  "can_manage_settings",
+  "can_view_audit_log",
+];
+
+// The admin role holds every permission but can_view_all_records
+export const ADMIN_ROLE = "admin";
+
+export const hasPermission = (
+  user: User | null | undefined,
+  permission: Permission
+): boolean => !!user?.permissions?.includes(permission);
+
+export const canUseAdminPanel = (user: User | null | undefined): boolean =>
+  ADMIN_PERMISSIONS.some((permission) => hasPermission(user, permission));
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useLocation } from "react-router-dom";
 import { Button } from "../components/ui/Button";
 import { Input } from "../components/ui/Input";
 import { Textarea } from "../components/ui/Textarea";
@@ -13,8 +13,27 @@ import {
 import { Badge } from "../components/ui/Badge";
 import { Calendar as CalendarComponent } from "../components/ui/Calendar";
 import ShareModal from "../components/ui/ShareModal";
+import ExportButton from "../components/exports/ExportButton";
+import TeamSelect from "../components/teams/TeamSelect";
+import CustomFieldInputs from "../components/customFields/CustomFieldInputs";
+import CustomFieldFilters from "../components/customFields/CustomFieldFilters";
 import { apiClient } from "../lib/api";
-import type { ActivityWithDetails, Company, Contact, Deal } from "../lib/api";
+import { usePermissions } from "../hooks/usePermissions";
+import { useCustomFields } from "../hooks/useCustomFields";
+import {
+  formatCustomFieldValue,
+  toCustomFieldFormValues,
+  toCustomFieldPayload,
+  validateCustomFieldValues,
+} from "../lib/customFields";
+import type { CustomFieldFormValues } from "../lib/customFields";
+import type {
+  ActivityWithDetails,
+  Company,
+  Contact,
+  CustomFieldListParams,
+  Deal,
+} from "../lib/api";
 import {
   Plus,
   Search,
@@ -41,13 +60,18 @@ interface ActivityFormData {
   contactId: string;
   companyId: string;
   dealId: string;
+  teamId: string;
+  customFields: CustomFieldFormValues;
 }
 
 type ActivityType = "call" | "email" | "meeting" | "note" | "task";
 type FilterType = "all" | "pending" | "completed" | "overdue";
 
 export default function ActivitiesPage() {
+  const { can } = usePermissions();
+  const customFields = useCustomFields("activity");
   const navigate = useNavigate();
+  const location = useLocation();
   const [activities, setActivities] = useState<ActivityWithDetails[]>([]);
   const [companies, setCompanies] = useState<Company[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
@@ -56,6 +80,8 @@ export default function ActivitiesPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState<FilterType>("all");
   const [filterActivityType, setFilterActivityType] = useState("");
+  const [customFieldParams, setCustomFieldParams] =
+    useState<CustomFieldListParams>({});
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [showForm, setShowForm] = useState(false);
@@ -69,9 +95,29 @@ export default function ActivitiesPage() {
     contactId: "",
     companyId: "",
     dealId: "",
+    teamId: "",
+    customFields: {},
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<
+    Record<string, string>
+  >({});
   const [showCalendar, setShowCalendar] = useState(false);
+
+  // Open the form pre-linked to an organization (from its detail page)
+  useEffect(() => {
+    if (location.state?.openForm) {
+      setShowForm(true);
+      if (location.state.companyId) {
+        setFormData((prev) => ({
+          ...prev,
+          companyId: location.state.companyId.toString(),
+        }));
+      }
+      // Clear the state to prevent reopening on future navigations
+      navigate(location.pathname, { replace: true, state: {} });
+    }
+  }, [location.state, navigate, location.pathname]);
   const [shareModal, setShareModal] = useState<{
     isOpen: boolean;
     resourceType: "contact" | "activity" | "deal" | "";
@@ -145,7 +191,10 @@ export default function ActivitiesPage() {
         params.completed = false;
       }
 
-      const response = await apiClient.getActivities(params);
+      const response = await apiClient.getActivities({
+        ...params,
+        ...customFieldParams,
+      });
 
       if (response.data) {
         let activitiesList = response.data.activities;
@@ -167,7 +216,13 @@ export default function ActivitiesPage() {
     } catch (error) {
       console.error("Error fetching activities:", error);
     }
-  }, [currentPage, searchTerm, filterType, filterActivityType]);
+  }, [
+    currentPage,
+    searchTerm,
+    filterType,
+    filterActivityType,
+    customFieldParams,
+  ]);
 
   useEffect(() => {
     fetchActivities();
@@ -183,8 +238,16 @@ export default function ActivitiesPage() {
       errors.subject = "Subject is required";
     }
 
+    const fieldErrors = validateCustomFieldValues(
+      customFields,
+      formData.customFields
+    );
+
     setFormErrors(errors);
-    return Object.keys(errors).length === 0;
+    setCustomFieldErrors(fieldErrors);
+    return (
+      Object.keys(errors).length === 0 && Object.keys(fieldErrors).length === 0
+    );
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -210,18 +273,27 @@ export default function ActivitiesPage() {
           : undefined,
         dealId: formData.dealId ? parseInt(formData.dealId) : undefined,
         completed: false,
+        // Only send the team when it changed, so editors outside the team
+        // don't trip the membership check
+        ...(formData.teamId !==
+          (editingActivity?.team_id?.toString() || "") && {
+          teamId: formData.teamId ? parseInt(formData.teamId) : null,
+        }),
+        customFields: toCustomFieldPayload(customFields, formData.customFields),
       };
 
-      if (editingActivity) {
-        await apiClient.updateActivity(editingActivity.id, activityData);
-        // Close the modal and refresh the activities list
-        resetForm();
-        fetchActivities();
-      } else {
-        await apiClient.createActivity(activityData);
-        resetForm();
-        fetchActivities();
+      const response = editingActivity
+        ? await apiClient.updateActivity(editingActivity.id, activityData)
+        : await apiClient.createActivity(activityData);
+      // Keep the form open so a rejected value can be fixed
+      if (response.error) {
+        setFormErrors({ submit: response.error });
+        return;
       }
+
+      // Close the modal and refresh the activities list
+      resetForm();
+      fetchActivities();
     } catch (error) {
       console.error("Error saving activity:", error);
     }
@@ -263,6 +335,11 @@ export default function ActivitiesPage() {
       companyId:
         (activityData.company_id || activity.companyId)?.toString() || "",
       dealId: (activityData.deal_id || activity.dealId)?.toString() || "",
+      teamId: activity.team_id?.toString() || "",
+      customFields: toCustomFieldFormValues(
+        customFields,
+        activity.custom_fields
+      ),
     };
 
     setFormData(newFormData);
@@ -302,8 +379,11 @@ export default function ActivitiesPage() {
       contactId: "",
       companyId: "",
       dealId: "",
+      teamId: "",
+      customFields: {},
     });
     setFormErrors({});
+    setCustomFieldErrors({});
     setEditingActivity(null);
     setShowForm(false);
   };
@@ -386,14 +466,31 @@ export default function ActivitiesPage() {
             Track your tasks and activities
           </p>
         </div>
-        <Button onClick={() => setShowForm(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Activity
-        </Button>
+        <div className="flex space-x-2">
+          {can("can_export") && (
+            <ExportButton
+              entity="activities"
+              filters={{
+                search: searchTerm || undefined,
+                type: filterActivityType || undefined,
+                // Overdue is filtered client-side; export all open activities
+                completed:
+                  filterType === "all" ? undefined : filterType === "completed",
+              }}
+              cf={customFieldParams.cf}
+            />
+          )}
+          {can("can_edit_records") && (
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Activity
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Search and Filters */}
-      <div className="mb-6">
+      <div className="mb-6 space-y-4">
         <form onSubmit={handleSearch} className="flex flex-wrap gap-4">
           <div className="flex-1 min-w-64 relative">
             <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
@@ -440,6 +537,15 @@ export default function ActivitiesPage() {
             </Button>
           )}
         </form>
+
+        <CustomFieldFilters
+          fields={customFields}
+          value={customFieldParams}
+          onChange={(params) => {
+            setCustomFieldParams(params);
+            setCurrentPage(1);
+          }}
+        />
       </div>
 
       {/* Activity Form Modal */}
@@ -625,6 +731,31 @@ export default function ActivitiesPage() {
                   </div>
                 </div>
 
+                <CustomFieldInputs
+                  fields={customFields}
+                  values={formData.customFields}
+                  onChange={(key, value) => {
+                    setFormData((prev) => ({
+                      ...prev,
+                      customFields: { ...prev.customFields, [key]: value },
+                    }));
+                    setCustomFieldErrors((prev) => ({ ...prev, [key]: "" }));
+                  }}
+                  errors={customFieldErrors}
+                />
+
+                <TeamSelect
+                  value={formData.teamId}
+                  onChange={(value) => handleInputChange("teamId", value)}
+                  currentTeamName={editingActivity?.team_name}
+                />
+
+                {formErrors.submit && (
+                  <p className="text-sm text-destructive">
+                    {formErrors.submit}
+                  </p>
+                )}
+
                 <div className="flex justify-end space-x-2 pt-4">
                   <Button type="button" variant="outline" onClick={resetForm}>
                     Cancel
@@ -647,14 +778,19 @@ export default function ActivitiesPage() {
               <Calendar className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
               <h3 className="text-lg font-medium mb-2">No activities found</h3>
               <p className="text-muted-foreground mb-4">
-                {searchTerm || filterType !== "all" || filterActivityType
+                {searchTerm ||
+                filterType !== "all" ||
+                filterActivityType ||
+                customFieldParams.cf
                   ? "No activities match your search."
                   : "Get started by adding your first activity."}
               </p>
-              <Button onClick={() => setShowForm(true)}>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Activity
-              </Button>
+              {can("can_edit_records") && (
+                <Button onClick={() => setShowForm(true)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Activity
+                </Button>
+              )}
             </CardContent>
           </Card>
         ) : (
@@ -736,17 +872,41 @@ export default function ActivitiesPage() {
                         </span>
                       </div>
                     </div>
+
+                    {customFields.some(
+                      (field) => activity.custom_fields?.[field.key] != null
+                    ) && (
+                      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground mt-2">
+                        {customFields
+                          .filter(
+                            (field) =>
+                              activity.custom_fields?.[field.key] != null
+                          )
+                          .map((field) => (
+                            <span key={field.key}>
+                              {field.label}:{" "}
+                              <span className="text-foreground">
+                                {formatCustomFieldValue(
+                                  activity.custom_fields?.[field.key]
+                                )}
+                              </span>
+                            </span>
+                          ))}
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex space-x-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleToggleComplete(activity.id)}
-                      className={activity.completed ? "text-green-600" : ""}
-                    >
-                      <CheckCircle className="h-4 w-4" />
-                    </Button>
+                    {can("can_edit_records") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleToggleComplete(activity.id)}
+                        className={activity.completed ? "text-green-600" : ""}
+                      >
+                        <CheckCircle className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -754,34 +914,40 @@ export default function ActivitiesPage() {
                     >
                       <Eye className="h-4 w-4" />
                     </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleEdit(activity)}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        setShareModal({
-                          isOpen: true,
-                          resourceType: "activity",
-                          resourceId: activity.id,
-                          resourceTitle: activity.subject,
-                        });
-                      }}
-                    >
-                      <Share2 className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleDelete(activity.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    {can("can_edit_records") && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEdit(activity)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setShareModal({
+                              isOpen: true,
+                              resourceType: "activity",
+                              resourceId: activity.id,
+                              resourceTitle: activity.subject,
+                            });
+                          }}
+                        >
+                          <Share2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                    {can("can_delete_activities") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(activity.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardContent>
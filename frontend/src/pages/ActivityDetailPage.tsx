@@ -11,7 +11,9 @@ import {
   CardTitle,
   CardContent,
 } from "../components/ui/Card";
+import { RecordHistory } from "../components/RecordHistory";
 import { apiClient } from "../lib/api";
+import { usePermissions } from "../hooks/usePermissions";
 import type {
   ActivityWithDetails,
   Organization,
@@ -51,6 +53,7 @@ interface ActivityFormData {
 }
 
 export default function ActivityDetailPage() {
+  const { can } = usePermissions();
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [activity, setActivity] = useState<ActivityWithDetails | null>(null);
@@ -376,10 +379,12 @@ export default function ActivityDetailPage() {
               </Button>
             </>
           ) : (
-            <Button onClick={() => setIsEditing(true)}>
-              <Edit className="mr-2 h-4 w-4" />
-              Edit Activity
-            </Button>
+            can("can_edit_records") && (
+              <Button onClick={() => setIsEditing(true)}>
+                <Edit className="mr-2 h-4 w-4" />
+                Edit Activity
+              </Button>
+            )
           )}
         </div>
       </div>
@@ -626,7 +631,7 @@ export default function ActivityDetailPage() {
         </div>
 
         {/* Notes Section */}
-        <div>
+        <div className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
@@ -634,14 +639,16 @@ export default function ActivityDetailPage() {
                   <MessageCircle className="h-5 w-5" />
                   <span>Notes</span>
                 </div>
-                <Button
-                  size="sm"
-                  onClick={() => setShowAddNote(true)}
-                  className="flex items-center"
-                >
-                  <Plus className="mr-1 h-4 w-4" />
-                  Add Note
-                </Button>
+                {can("can_edit_records") && (
+                  <Button
+                    size="sm"
+                    onClick={() => setShowAddNote(true)}
+                    className="flex items-center"
+                  >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add Note
+                  </Button>
+                )}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -748,6 +755,12 @@ export default function ActivityDetailPage() {
               </div>
             </CardContent>
           </Card>
+
+          <RecordHistory
+            entityType="activity"
+            entityId={activity.id}
+            refreshKey={activity.updated_at}
+          />
         </div>
       </div>
     </div>
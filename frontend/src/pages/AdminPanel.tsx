@@ -10,19 +10,122 @@ import {
 } from "../components/ui/Card";
 import { Badge } from "../components/ui/Badge";
 import { apiClient } from "../lib/api";
-import type { User } from "../lib/api";
+import type { Permission, Role, User } from "../lib/api";
+import { usePermissions } from "../hooks/usePermissions";
+import { ADMIN_ROLE } from "../lib/permissions";
+import TeamManagement from "../components/admin/TeamManagement";
+import InvitationManagement from "../components/admin/InvitationManagement";
+import ApiKeyManagement from "../components/admin/ApiKeyManagement";
+import LoginActivity from "../components/admin/LoginActivity";
+import AuditLog from "../components/admin/AuditLog";
+import RoleManagement from "../components/admin/RoleManagement";
+import SsoSettings from "../components/admin/SsoSettings";
+import CustomFieldManagement from "../components/admin/CustomFieldManagement";
+import OffboardUserDialog from "../components/admin/OffboardUserDialog";
 import {
   Plus,
   Search,
   Edit,
   Trash2,
   Users,
+  UsersRound,
+  Mail,
+  KeyRound,
   Shield,
+  ShieldCheck,
+  ShieldOff,
+  LockOpen,
+  History,
+  ScrollText,
   UserCheck,
+  UserX,
   Calendar,
   Settings,
+  SlidersHorizontal,
 } from "lucide-react";
 
+// Number settings that protect logins against password guessing
+const LOGIN_PROTECTION_SETTINGS = [
+  { key: "lockout_threshold", label: "Lockout Threshold" },
+  { key: "lockout_duration_minutes", label: "Lockout Duration (minutes)" },
+  { key: "ip_failure_limit", label: "Failed Logins per IP Address" },
+  { key: "ip_failure_window_minutes", label: "IP Address Window (minutes)" },
+];
+
+type AdminTab =
+  | "users"
+  | "invitations"
+  | "teams"
+  | "roles"
+  | "api-keys"
+  | "logins"
+  | "audit"
+  | "custom-fields"
+  | "settings";
+
+// Admin panel tabs, each shown only to roles with its permission
+const TABS: {
+  id: AdminTab;
+  label: string;
+  icon: typeof Users;
+  permission: Permission;
+}[] = [
+  {
+    id: "users",
+    label: "User Management",
+    icon: Users,
+    permission: "can_manage_users",
+  },
+  {
+    id: "invitations",
+    label: "Invitations",
+    icon: Mail,
+    permission: "can_manage_users",
+  },
+  {
+    id: "teams",
+    label: "Teams",
+    icon: UsersRound,
+    permission: "can_manage_users",
+  },
+  {
+    id: "roles",
+    label: "Roles",
+    icon: ShieldCheck,
+    permission: "can_manage_users",
+  },
+  {
+    id: "api-keys",
+    label: "API Keys",
+    icon: KeyRound,
+    permission: "can_manage_users",
+  },
+  {
+    id: "logins",
+    label: "Login Activity",
+    icon: History,
+    permission: "can_view_audit_log",
+  },
+  {
+    id: "audit",
+    label: "Audit Log",
+    icon: ScrollText,
+    permission: "can_view_audit_log",
+  },
+  {
+    id: "custom-fields",
+    label: "Custom Fields",
+    icon: SlidersHorizontal,
+    permission: "can_manage_settings",
+  },
+  {
+    id: "settings",
+    label: "System Settings",
+    icon: Settings,
+    permission: "can_manage_settings",
+  },
+];
+
 interface UserFormData {
   firstName: string;
   lastName: string;
@@ -39,6 +142,10 @@ interface UserStats {
 }
 
 export default function AdminPanel() {
+  const { can } = usePermissions();
+  const canManageUsers = can("can_manage_users");
+  const canManageSettings = can("can_manage_settings");
+  const tabs = TABS.filter((tab) => can(tab.permission));
   const [users, setUsers] = useState<User[]>([]);
   const [stats, setStats] = useState<UserStats>({
     total: 0,
@@ -49,6 +156,7 @@ export default function AdminPanel() {
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterRole, setFilterRole] = useState("");
+  const [filterStatus, setFilterStatus] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [showForm, setShowForm] = useState(false);
@@ -61,12 +169,14 @@ export default function AdminPanel() {
     role: "user",
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [offboardingUser, setOffboardingUser] = useState<User | null>(null);
+  const [roles, setRoles] = useState<Role[]>([]);
 
   // System settings state
   const [systemSettings, setSystemSettings] = useState<{
     [key: string]: { value: string; description: string };
   }>({});
-  const [activeTab, setActiveTab] = useState<"users" | "settings">("users");
+  const [activeTab, setActiveTab] = useState<AdminTab>(tabs[0]?.id || "users");
 
   const fetchUsers = useCallback(async () => {
     try {
@@ -75,6 +185,9 @@ export default function AdminPanel() {
         limit: 20,
         ...(searchTerm && { search: searchTerm }),
         ...(filterRole && { role: filterRole }),
+        ...(filterStatus && {
+          status: filterStatus as "active" | "deactivated",
+        }),
       };
 
       const response = await apiClient.getUsers(params);
@@ -87,16 +200,25 @@ export default function AdminPanel() {
     } finally {
       setIsLoading(false);
     }
-  }, [currentPage, searchTerm, filterRole]);
+  }, [currentPage, searchTerm, filterRole, filterStatus]);
 
   useEffect(() => {
-    fetchUsers();
-  }, [fetchUsers]);
+    if (canManageUsers) {
+      fetchUsers();
+    } else {
+      setIsLoading(false);
+    }
+  }, [fetchUsers, canManageUsers]);
 
   useEffect(() => {
-    fetchStats();
-    fetchSystemSettings();
-  }, []);
+    if (canManageUsers) {
+      fetchStats();
+      fetchRoles();
+    }
+    if (canManageSettings) {
+      fetchSystemSettings();
+    }
+  }, [canManageUsers, canManageSettings]);
 
   const fetchStats = async () => {
     try {
@@ -109,6 +231,17 @@ export default function AdminPanel() {
     }
   };
 
+  const fetchRoles = async () => {
+    try {
+      const response = await apiClient.getRoles();
+      if (response.data) {
+        setRoles(response.data.roles);
+      }
+    } catch (error) {
+      console.error("Error fetching roles:", error);
+    }
+  };
+
   const fetchSystemSettings = async () => {
     try {
       const response = await apiClient.getSystemSettings();
@@ -201,15 +334,58 @@ export default function AdminPanel() {
     setShowForm(true);
   };
 
-  const handleDelete = async (userId: number) => {
-    if (!confirm("Are you sure you want to delete this user?")) return;
+  const handleUsersChanged = () => {
+    fetchUsers();
+    fetchStats();
+  };
+
+  const handleDeactivate = async (userId: number) => {
+    if (
+      !confirm(
+        "Deactivate this user? They are signed out and can't sign in again until reactivated. Their records are kept."
+      )
+    )
+      return;
 
     try {
-      await apiClient.deleteUser(userId);
+      await apiClient.deactivateUser(userId);
       fetchUsers();
-      fetchStats();
     } catch (error) {
-      console.error("Error deleting user:", error);
+      console.error("Error deactivating user:", error);
+    }
+  };
+
+  const handleReactivate = async (userId: number) => {
+    try {
+      await apiClient.reactivateUser(userId);
+      fetchUsers();
+    } catch (error) {
+      console.error("Error reactivating user:", error);
+    }
+  };
+
+  const handleResetTwoFactor = async (userId: number) => {
+    if (
+      !confirm(
+        "Reset two-factor authentication for this user? They can sign in with just their password until they set it up again."
+      )
+    )
+      return;
+
+    try {
+      await apiClient.resetUserTwoFactor(userId);
+      fetchUsers();
+    } catch (error) {
+      console.error("Error resetting two-factor authentication:", error);
+    }
+  };
+
+  const handleUnlock = async (userId: number) => {
+    try {
+      await apiClient.unlockUser(userId);
+      fetchUsers();
+    } catch (error) {
+      console.error("Error unlocking user:", error);
     }
   };
 
@@ -239,15 +415,16 @@ export default function AdminPanel() {
   };
 
   const getRoleBadge = (role: string) => {
-    return role === "admin" ? (
+    const label = roles.find((r) => r.name === role)?.label || role;
+    return role === ADMIN_ROLE ? (
       <Badge variant="default" className="bg-red-100 text-red-800">
         <Shield className="mr-1 h-3 w-3" />
-        Admin
+        {label}
       </Badge>
     ) : (
       <Badge variant="outline">
         <Users className="mr-1 h-3 w-3" />
-        User
+        {label}
       </Badge>
     );
   };
@@ -273,35 +450,27 @@ export default function AdminPanel() {
         <div>
           <h1 className="text-3xl font-bold">Admin Panel</h1>
           <p className="text-muted-foreground">
-            Manage users and system settings
+            Manage users, teams and system settings
           </p>
         </div>
       </div>
 
       {/* Tab Navigation */}
       <div className="flex border-b mb-8">
-        <button
-          className={`px-6 py-3 border-b-2 font-medium transition-colors ${
-            activeTab === "users"
-              ? "border-blue-500 text-blue-600"
-              : "border-transparent text-gray-500 hover:text-gray-700"
-          }`}
-          onClick={() => setActiveTab("users")}
-        >
-          <Users className="inline-block mr-2 h-4 w-4" />
-          User Management
-        </button>
-        <button
-          className={`px-6 py-3 border-b-2 font-medium transition-colors ${
-            activeTab === "settings"
-              ? "border-blue-500 text-blue-600"
-              : "border-transparent text-gray-500 hover:text-gray-700"
-          }`}
-          onClick={() => setActiveTab("settings")}
-        >
-          <Settings className="inline-block mr-2 h-4 w-4" />
-          System Settings
-        </button>
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            className={`px-6 py-3 border-b-2 font-medium transition-colors ${
+              activeTab === tab.id
+                ? "border-blue-500 text-blue-600"
+                : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}
+            onClick={() => setActiveTab(tab.id)}
+          >
+            <tab.icon className="inline-block mr-2 h-4 w-4" />
+            {tab.label}
+          </button>
+        ))}
       </div>
 
       {/* User Management Tab */}
@@ -395,17 +564,29 @@ export default function AdminPanel() {
                   onChange={(e) => setFilterRole(e.target.value)}
                 >
                   <option value="">All Roles</option>
-                  <option value="user">Users</option>
-                  <option value="admin">Admins</option>
+                  {roles.map((role) => (
+                    <option key={role.name} value={role.name}>
+                      {role.label}
+                    </option>
+                  ))}
+                </Select>
+                <Select
+                  value={filterStatus}
+                  onChange={(e) => setFilterStatus(e.target.value)}
+                >
+                  <option value="">All Statuses</option>
+                  <option value="active">Active</option>
+                  <option value="deactivated">Deactivated</option>
                 </Select>
                 <Button type="submit">Search</Button>
-                {(searchTerm || filterRole) && (
+                {(searchTerm || filterRole || filterStatus) && (
                   <Button
                     type="button"
                     variant="outline"
                     onClick={() => {
                       setSearchTerm("");
                       setFilterRole("");
+                      setFilterStatus("");
                       setCurrentPage(1);
                     }}
                   >
@@ -516,8 +697,11 @@ export default function AdminPanel() {
                           handleInputChange("role", e.target.value)
                         }
                       >
-                        <option value="user">User</option>
-                        <option value="admin">Admin</option>
+                        {roles.map((role) => (
+                          <option key={role.name} value={role.name}>
+                            {role.label}
+                          </option>
+                        ))}
                       </Select>
                     </div>
 
@@ -539,6 +723,14 @@ export default function AdminPanel() {
             </div>
           )}
 
+          {offboardingUser && (
+            <OffboardUserDialog
+              user={offboardingUser}
+              onClose={() => setOffboardingUser(null)}
+              onChange={handleUsersChanged}
+            />
+          )}
+
           {/* Users List */}
           <Card>
             <CardContent className="p-0">
@@ -571,7 +763,32 @@ export default function AdminPanel() {
                           {user.email}
                         </td>
                         <td className="p-4">
-                          {getRoleBadge(user.role || "user")}
+                          <div className="flex items-center space-x-2">
+                            {getRoleBadge(user.role || "user")}
+                            {user.twoFactorEnabled && (
+                              <Badge variant="secondary">2FA</Badge>
+                            )}
+                            {user.lockedUntil && (
+                              <Badge
+                                variant="destructive"
+                                title={`Locked until ${new Date(
+                                  user.lockedUntil
+                                ).toLocaleString()}`}
+                              >
+                                Locked
+                              </Badge>
+                            )}
+                            {user.deactivatedAt && (
+                              <Badge
+                                variant="outline"
+                                title={`Deactivated on ${new Date(
+                                  user.deactivatedAt
+                                ).toLocaleString()}`}
+                              >
+                                Deactivated
+                              </Badge>
+                            )}
+                          </div>
                         </td>
                         <td className="p-4 text-muted-foreground">
                           {formatDate(user.created_at)}
@@ -585,10 +802,50 @@ export default function AdminPanel() {
                             >
                               <Edit className="h-4 w-4" />
                             </Button>
+                            {user.twoFactorEnabled && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleResetTwoFactor(user.id)}
+                                title="Reset two-factor authentication"
+                              >
+                                <ShieldOff className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {user.lockedUntil && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleUnlock(user.id)}
+                                title="Unlock account"
+                              >
+                                <LockOpen className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {user.deactivatedAt ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleReactivate(user.id)}
+                                title="Reactivate user"
+                              >
+                                <UserCheck className="h-4 w-4" />
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDeactivate(user.id)}
+                                title="Deactivate user"
+                              >
+                                <UserX className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button
                               variant="destructive"
                               size="sm"
-                              onClick={() => handleDelete(user.id)}
+                              onClick={() => setOffboardingUser(user)}
+                              title="Delete user"
                             >
                               <Trash2 className="h-4 w-4" />
                             </Button>
@@ -631,6 +888,34 @@ export default function AdminPanel() {
         </>
       )}
 
+      {/* Invitations Tab */}
+      {activeTab === "invitations" && <InvitationManagement />}
+
+      {/* Teams Tab */}
+      {activeTab === "teams" && <TeamManagement />}
+
+      {/* Roles Tab */}
+      {activeTab === "roles" && (
+        <RoleManagement
+          onChange={() => {
+            fetchRoles();
+            fetchUsers();
+          }}
+        />
+      )}
+
+      {/* API Keys Tab */}
+      {activeTab === "api-keys" && <ApiKeyManagement />}
+
+      {/* Login Activity Tab */}
+      {activeTab === "logins" && <LoginActivity />}
+
+      {/* Audit Log Tab */}
+      {activeTab === "audit" && <AuditLog />}
+
+      {/* Custom Fields Tab */}
+      {activeTab === "custom-fields" && <CustomFieldManagement />}
+
       {/* System Settings Tab */}
       {activeTab === "settings" && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -673,10 +958,47 @@ export default function AdminPanel() {
                 </button>
               </div>
 
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium">
+                    Require Email Verification
+                  </label>
+                  <p className="text-sm text-muted-foreground">
+                    {systemSettings.email_verification_required?.description}
+                  </p>
+                </div>
+                <button
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    systemSettings.email_verification_required?.value === "true"
+                      ? "bg-blue-600"
+                      : "bg-gray-200"
+                  }`}
+                  onClick={() =>
+                    updateSystemSetting(
+                      "email_verification_required",
+                      systemSettings.email_verification_required?.value ===
+                        "true"
+                        ? "false"
+                        : "true"
+                    )
+                  }
+                >
+                  <span
+                    className={`inline-block h-4 w-4 rounded-full bg-white transition-transform ${
+                      systemSettings.email_verification_required?.value ===
+                      "true"
+                        ? "translate-x-6"
+                        : "translate-x-1"
+                    }`}
+                  />
+                </button>
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-medium">Maximum Users</label>
                 <p className="text-sm text-muted-foreground">
-                  {systemSettings.max_users?.description} (0 = unlimited)
+                  {systemSettings.max_users?.description} (0 = unlimited,
+                  pending invitations count)
                 </p>
                 <Input
                   type="number"
@@ -708,8 +1030,85 @@ export default function AdminPanel() {
                   }}
                 />
               </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  Default Phone Country Code
+                </label>
+                <p className="text-sm text-muted-foreground">
+                  {systemSettings.default_phone_country_code?.description}
+                </p>
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm">+</span>
+                  <Input
+                    inputMode="numeric"
+                    value={
+                      systemSettings.default_phone_country_code?.value || "1"
+                    }
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      if (/^[1-9]\d{0,2}$/.test(value)) {
+                        updateSystemSetting(
+                          "default_phone_country_code",
+                          value
+                        );
+                      }
+                    }}
+                    className="w-32"
+                  />
+                </div>
+              </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Security Settings</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  Require Two-Factor Authentication
+                </label>
+                <p className="text-sm text-muted-foreground">
+                  {systemSettings.two_factor_required?.description}
+                </p>
+                <Select
+                  value={systemSettings.two_factor_required?.value || "off"}
+                  onChange={(e) =>
+                    updateSystemSetting("two_factor_required", e.target.value)
+                  }
+                >
+                  <option value="off">Optional for everyone</option>
+                  <option value="admins">Required for admins</option>
+                  <option value="everyone">Required for everyone</option>
+                </Select>
+              </div>
+
+              {LOGIN_PROTECTION_SETTINGS.map((setting) => (
+                <div key={setting.key} className="space-y-2">
+                  <label className="text-sm font-medium">{setting.label}</label>
+                  <p className="text-sm text-muted-foreground">
+                    {systemSettings[setting.key]?.description}
+                  </p>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={systemSettings[setting.key]?.value || "0"}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      if (/^\d+$/.test(value)) {
+                        updateSystemSetting(setting.key, value);
+                      }
+                    }}
+                    className="w-32"
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <SsoSettings />
         </div>
       )}
     </div>
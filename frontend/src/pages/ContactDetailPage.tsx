@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, Link } from "react-router-dom";
 import { Button } from "../components/ui/Button";
 import { Input } from "../components/ui/Input";
 import { Textarea } from "../components/ui/Textarea";
@@ -16,8 +16,27 @@ import {
   CardTitle,
   CardContent,
 } from "../components/ui/Card";
+import { RecordHistory } from "../components/RecordHistory";
+import { CareerHistory } from "../components/CareerHistory";
+import EmailListEditor from "../components/contactMethods/EmailListEditor";
+import PhoneListEditor from "../components/contactMethods/PhoneListEditor";
+import AddressListEditor from "../components/contactMethods/AddressListEditor";
 import { apiClient } from "../lib/api";
-import type { Contact, Company, ContactNote } from "../lib/api";
+import { usePermissions } from "../hooks/usePermissions";
+import type {
+  Contact,
+  Company,
+  ContactNote,
+  ContactEmail,
+  ContactPhone,
+  PostalAddress,
+} from "../lib/api";
+import {
+  ADDRESS_LABELS,
+  CONTACT_METHOD_LABELS,
+  formatAddress,
+  toSavedEntries,
+} from "../lib/contactMethods";
 import {
   ArrowLeft,
   Edit,
@@ -26,6 +45,7 @@ import {
   Building2,
   Mail,
   Phone,
+  MapPin,
   User,
   Calendar,
   MessageCircle,
@@ -36,8 +56,9 @@ import {
 interface ContactFormData {
   firstName: string;
   lastName: string;
-  email: string;
-  phone: string;
+  emails: ContactEmail[];
+  phones: ContactPhone[];
+  addresses: PostalAddress[];
   position: string;
   companyId: string;
   notes: string;
@@ -46,6 +67,7 @@ interface ContactFormData {
 }
 
 export default function ContactDetailPage() {
+  const { can } = usePermissions();
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [contact, setContact] = useState<Contact | null>(null);
@@ -57,11 +79,15 @@ export default function ContactDetailPage() {
   const [showNoteForm, setShowNoteForm] = useState(false);
   const [editingNote, setEditingNote] = useState<ContactNote | null>(null);
   const [newNoteContent, setNewNoteContent] = useState("");
+  // Bumped when a role changes, which the history lists but which doesn't
+  // always touch the contact itself
+  const [careerVersion, setCareerVersion] = useState(0);
   const [formData, setFormData] = useState<ContactFormData>({
     firstName: "",
     lastName: "",
-    email: "",
-    phone: "",
+    emails: [],
+    phones: [],
+    addresses: [],
     position: "",
     companyId: "",
     notes: "",
@@ -86,8 +112,9 @@ export default function ContactDetailPage() {
           setFormData({
             firstName: contactResponse.data.firstName,
             lastName: contactResponse.data.lastName,
-            email: contactResponse.data.email || "",
-            phone: contactResponse.data.phone || "",
+            emails: contactResponse.data.emails || [],
+            phones: contactResponse.data.phones || [],
+            addresses: contactResponse.data.addresses || [],
             position: contactResponse.data.position || "",
             companyId: contactResponse.data.companyId?.toString() || "",
             notes: contactResponse.data.notes || "",
@@ -125,8 +152,9 @@ export default function ContactDetailPage() {
         setFormData({
           firstName: contactResponse.data.firstName,
           lastName: contactResponse.data.lastName,
-          email: contactResponse.data.email || "",
-          phone: contactResponse.data.phone || "",
+          emails: contactResponse.data.emails || [],
+          phones: contactResponse.data.phones || [],
+          addresses: contactResponse.data.addresses || [],
           position: contactResponse.data.position || "",
           companyId: contactResponse.data.companyId?.toString() || "",
           notes: contactResponse.data.notes || "",
@@ -174,8 +202,12 @@ export default function ContactDetailPage() {
     if (!formData.lastName.trim()) {
       errors.lastName = "Last name is required";
     }
-    if (formData.email && !/\S+@\S+\.\S+/.test(formData.email)) {
-      errors.email = "Invalid email format";
+    if (
+      formData.emails.some(
+        (entry) => entry.email && !/\S+@\S+\.\S+/.test(entry.email)
+      )
+    ) {
+      errors.emails = "Invalid email format";
     }
 
     setFormErrors(errors);
@@ -189,8 +221,15 @@ export default function ContactDetailPage() {
       const contactData = {
         firstName: formData.firstName,
         lastName: formData.lastName,
-        email: formData.email || undefined,
-        phone: formData.phone || undefined,
+        emails: toSavedEntries(formData.emails, (entry) => !entry.email.trim()),
+        phones: toSavedEntries(
+          formData.phones,
+          (entry) => !entry.number.trim()
+        ),
+        addresses: toSavedEntries(
+          formData.addresses,
+          (entry) => !formatAddress(entry)
+        ),
         position: formData.position || undefined,
         companyId: formData.companyId
           ? parseInt(formData.companyId)
@@ -200,7 +239,12 @@ export default function ContactDetailPage() {
         status: formData.status,
       };
 
-      await apiClient.updateContact(contact.id, contactData);
+      const response = await apiClient.updateContact(contact.id, contactData);
+      if (response.error) {
+        // Phone numbers are only checked by the server
+        setFormErrors({ phones: response.error });
+        return;
+      }
       setIsEditing(false);
       fetchContactData();
       fetchTags();
@@ -214,8 +258,9 @@ export default function ContactDetailPage() {
       setFormData({
         firstName: contact.firstName,
         lastName: contact.lastName,
-        email: contact.email || "",
-        phone: contact.phone || "",
+        emails: contact.emails || [],
+        phones: contact.phones || [],
+        addresses: contact.addresses || [],
         position: contact.position || "",
         companyId: contact.companyId?.toString() || "",
         notes: contact.notes || "",
@@ -274,6 +319,16 @@ export default function ContactDetailPage() {
     }
   };
 
+  const handleListChange = <K extends "emails" | "phones" | "addresses">(
+    field: K,
+    value: ContactFormData[K]
+  ) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    if (formErrors[field]) {
+      setFormErrors((prev) => ({ ...prev, [field]: "" }));
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
@@ -334,10 +389,12 @@ export default function ContactDetailPage() {
               </Button>
             </>
           ) : (
-            <Button onClick={() => setIsEditing(true)}>
-              <Edit className="mr-2 h-4 w-4" />
-              Edit Contact
-            </Button>
+            can("can_edit_records") && (
+              <Button onClick={() => setIsEditing(true)}>
+                <Edit className="mr-2 h-4 w-4" />
+                Edit Contact
+              </Button>
+            )
           )}
         </div>
       </div>
@@ -394,33 +451,24 @@ export default function ContactDetailPage() {
                     </div>
                   </div>
 
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="text-sm font-medium">Email</label>
-                      <Input
-                        type="email"
-                        value={formData.email}
-                        onChange={(e) =>
-                          handleInputChange("email", e.target.value)
-                        }
-                        className={formErrors.email ? "border-destructive" : ""}
-                      />
-                      {formErrors.email && (
-                        <p className="text-sm text-destructive mt-1">
-                          {formErrors.email}
-                        </p>
-                      )}
-                    </div>
-                    <div>
-                      <label className="text-sm font-medium">Phone</label>
-                      <Input
-                        value={formData.phone}
-                        onChange={(e) =>
-                          handleInputChange("phone", e.target.value)
-                        }
-                      />
-                    </div>
-                  </div>
+                  <EmailListEditor
+                    emails={formData.emails}
+                    onChange={(emails) => handleListChange("emails", emails)}
+                    error={formErrors.emails}
+                  />
+
+                  <PhoneListEditor
+                    phones={formData.phones}
+                    onChange={(phones) => handleListChange("phones", phones)}
+                    error={formErrors.phones}
+                  />
+
+                  <AddressListEditor
+                    addresses={formData.addresses}
+                    onChange={(addresses) =>
+                      handleListChange("addresses", addresses)
+                    }
+                  />
 
                   <div className="grid grid-cols-2 gap-4">
                     <div>
@@ -470,30 +518,63 @@ export default function ContactDetailPage() {
                 </>
               ) : (
                 <div className="space-y-4">
-                  <div className="flex items-center space-x-4">
-                    {contact.email && (
-                      <div className="flex items-center">
-                        <Mail className="mr-2 h-4 w-4 text-muted-foreground" />
-                        <a
-                          href={`mailto:${contact.email}`}
-                          className="text-primary hover:underline"
-                        >
-                          {contact.email}
-                        </a>
-                      </div>
-                    )}
-                    {contact.phone && (
-                      <div className="flex items-center">
-                        <Phone className="mr-2 h-4 w-4 text-muted-foreground" />
-                        <a
-                          href={`tel:${contact.phone}`}
-                          className="text-primary hover:underline"
-                        >
-                          {contact.phone}
-                        </a>
-                      </div>
-                    )}
-                  </div>
+                  {contact.emails?.map((entry) => (
+                    <div key={entry.email} className="flex items-center">
+                      <Mail className="mr-2 h-4 w-4 text-muted-foreground" />
+                      <a
+                        href={`mailto:${entry.email}`}
+                        className="text-primary hover:underline"
+                      >
+                        {entry.email}
+                      </a>
+                      <span className="ml-2 text-sm text-muted-foreground">
+                        {CONTACT_METHOD_LABELS[entry.label]}
+                      </span>
+                      {entry.isPrimary && (
+                        <Badge variant="secondary" className="ml-2">
+                          Primary
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+
+                  {contact.phones?.map((entry) => (
+                    <div key={entry.number} className="flex items-center">
+                      <Phone className="mr-2 h-4 w-4 text-muted-foreground" />
+                      <a
+                        href={`tel:${entry.number}`}
+                        className="text-primary hover:underline"
+                      >
+                        {entry.number}
+                      </a>
+                      <span className="ml-2 text-sm text-muted-foreground">
+                        {CONTACT_METHOD_LABELS[entry.label]}
+                      </span>
+                      {entry.isPrimary && (
+                        <Badge variant="secondary" className="ml-2">
+                          Primary
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+
+                  {contact.addresses?.map((entry) => (
+                    <div
+                      key={formatAddress(entry)}
+                      className="flex items-center"
+                    >
+                      <MapPin className="mr-2 h-4 w-4 text-muted-foreground" />
+                      <span>{formatAddress(entry)}</span>
+                      <span className="ml-2 text-sm text-muted-foreground">
+                        {ADDRESS_LABELS[entry.label]}
+                      </span>
+                      {entry.isPrimary && (
+                        <Badge variant="secondary" className="ml-2">
+                          Primary
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
 
                   {contact.position && (
                     <div>
@@ -507,7 +588,12 @@ export default function ContactDetailPage() {
                   {contact.company_name && (
                     <div className="flex items-center">
                       <Building2 className="mr-2 h-4 w-4 text-muted-foreground" />
-                      <span>{contact.company_name}</span>
+                      <Link
+                        to={`/organizations/${contact.companyId}`}
+                        className="text-primary hover:underline"
+                      >
+                        {contact.company_name}
+                      </Link>
                     </div>
                   )}
 
@@ -537,6 +623,16 @@ export default function ContactDetailPage() {
             </CardContent>
           </Card>
 
+          <CareerHistory
+            contactId={contact.id}
+            companies={companies}
+            canEdit={can("can_edit_records")}
+            onChange={() => {
+              fetchContactData();
+              setCareerVersion((version) => version + 1);
+            }}
+          />
+
           {/* Notes Section */}
           <Card>
             <CardHeader>
@@ -545,14 +641,16 @@ export default function ContactDetailPage() {
                   <MessageCircle className="mr-2 h-5 w-5" />
                   Notes ({notes.length})
                 </CardTitle>
-                <Button
-                  size="sm"
-                  onClick={() => setShowNoteForm(true)}
-                  disabled={showNoteForm}
-                >
-                  <Plus className="mr-1 h-4 w-4" />
-                  Add Note
-                </Button>
+                {can("can_edit_records") && (
+                  <Button
+                    size="sm"
+                    onClick={() => setShowNoteForm(true)}
+                    disabled={showNoteForm}
+                  >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add Note
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -724,6 +822,12 @@ export default function ContactDetailPage() {
               </div>
             </CardContent>
           </Card>
+
+          <RecordHistory
+            entityType="contact"
+            entityId={contact.id}
+            refreshKey={`${contact.updated_at}:${careerVersion}`}
+          />
         </div>
       </div>
     </div>
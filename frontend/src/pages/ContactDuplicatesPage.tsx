@@ -0,0 +1,355 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "../components/ui/Button";
+import { Badge } from "../components/ui/Badge";
+import { ContactStatusBadge } from "../components/ui/ContactStatus";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "../components/ui/Card";
+import { useToast } from "../contexts/ToastContext";
+import { apiClient } from "../lib/api";
+import type {
+  ContactDuplicatePair,
+  ContactMergeField,
+  DuplicateContact,
+} from "../lib/api";
+import { ArrowLeft, GitMerge, X } from "lucide-react";
+
+// Index (0 or 1) of the contact each choice is taken from
+interface MergeSelection {
+  survivor: number;
+  fields: Record<ContactMergeField, number>;
+}
+
+const MERGE_FIELD_ROWS: {
+  field: ContactMergeField;
+  label: string;
+  render: (contact: DuplicateContact) => React.ReactNode;
+}[] = [
+  { field: "firstName", label: "First name", render: (c) => c.firstName },
+  { field: "lastName", label: "Last name", render: (c) => c.lastName },
+  { field: "email", label: "Email", render: (c) => c.email },
+  { field: "phone", label: "Phone", render: (c) => c.phone },
+  { field: "position", label: "Position", render: (c) => c.position },
+  { field: "companyId", label: "Company", render: (c) => c.company_name },
+  { field: "notes", label: "Notes", render: (c) => c.notes },
+  {
+    field: "status",
+    label: "Status",
+    render: (c) => c.status && <ContactStatusBadge status={c.status} />,
+  },
+];
+
+const pairKey = (pair: ContactDuplicatePair) =>
+  pair.contacts.map((contact) => contact.id).join(":");
+
+const linkedCount = (contact: DuplicateContact) =>
+  contact.dealCount + contact.activityCount + contact.noteCount;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+// Keep the contact with the most linked records, and fill its empty fields
+// from the other one
+const defaultSelection = (pair: ContactDuplicatePair): MergeSelection => {
+  const [first, second] = pair.contacts;
+  const survivor = linkedCount(second) > linkedCount(first) ? 1 : 0;
+  const other = 1 - survivor;
+
+  const fields = Object.fromEntries(
+    MERGE_FIELD_ROWS.map(({ field }) => [
+      field,
+      isEmpty(pair.contacts[survivor][field]) &&
+      !isEmpty(pair.contacts[other][field])
+        ? other
+        : survivor,
+    ])
+  ) as Record<ContactMergeField, number>;
+
+  return { survivor, fields };
+};
+
+export default function ContactDuplicatesPage() {
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const [pairs, setPairs] = useState<ContactDuplicatePair[]>([]);
+  const [total, setTotal] = useState(0);
+  const [selections, setSelections] = useState<Record<string, MergeSelection>>(
+    {}
+  );
+  const [busyPair, setBusyPair] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchDuplicates = async () => {
+    try {
+      const response = await apiClient.getContactDuplicates();
+      if (response.data) {
+        setPairs(response.data.pairs);
+        setTotal(response.data.total);
+        setSelections(
+          Object.fromEntries(
+            response.data.pairs.map((pair) => [
+              pairKey(pair),
+              defaultSelection(pair),
+            ])
+          )
+        );
+      }
+    } catch (error) {
+      console.error("Error fetching duplicate contacts:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, []);
+
+  const updateSelection = (key: string, changes: Partial<MergeSelection>) => {
+    setSelections((prev) => ({
+      ...prev,
+      [key]: { ...prev[key], ...changes },
+    }));
+  };
+
+  const handleMerge = async (pair: ContactDuplicatePair) => {
+    const key = pairKey(pair);
+    const selection = selections[key];
+    const survivor = pair.contacts[selection.survivor];
+    const merged = pair.contacts[1 - selection.survivor];
+
+    setBusyPair(key);
+    const response = await apiClient.mergeContacts({
+      survivorId: survivor.id,
+      mergedId: merged.id,
+      fields: Object.fromEntries(
+        Object.entries(selection.fields).map(([field, index]) => [
+          field,
+          index === selection.survivor ? "survivor" : "merged",
+        ])
+      ),
+    });
+    setBusyPair(null);
+
+    if (response.error || !response.data) {
+      showToast({
+        type: "error",
+        title: "Could not merge contacts",
+        message: response.error,
+      });
+      return;
+    }
+
+    const { moved } = response.data;
+    showToast({
+      type: "success",
+      title: "Contacts merged",
+      message: `${moved.deals} deal(s), ${moved.activities} activity(ies) and ${moved.notes} note(s) moved to ${survivor.firstName} ${survivor.lastName}.`,
+    });
+
+    // Other suggestions may have involved the deleted contact
+    fetchDuplicates();
+  };
+
+  const handleDismiss = async (pair: ContactDuplicatePair) => {
+    const key = pairKey(pair);
+
+    setBusyPair(key);
+    const response = await apiClient.dismissContactDuplicate([
+      pair.contacts[0].id,
+      pair.contacts[1].id,
+    ]);
+    setBusyPair(null);
+
+    if (response.error) {
+      showToast({
+        type: "error",
+        title: "Could not dismiss suggestion",
+        message: response.error,
+      });
+      return;
+    }
+
+    setPairs((prev) => prev.filter((item) => pairKey(item) !== key));
+    setTotal((prev) => prev - 1);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="px-6">
+        <div className="text-center py-12">
+          <div className="text-lg">Looking for duplicates...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Duplicate Contacts</h1>
+          <p className="text-muted-foreground">
+            {total > 0
+              ? `${total} possible duplicate(s) found by email, phone and name`
+              : "Review contacts that look like the same person"}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate("/contacts")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Contacts
+        </Button>
+      </div>
+
+      {pairs.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <p className="text-muted-foreground">No duplicates found</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {pairs.map((pair) => {
+            const key = pairKey(pair);
+            const selection = selections[key] || defaultSelection(pair);
+            const tags = [
+              ...new Set(pair.contacts.flatMap((c) => c.tags || [])),
+            ];
+
+            return (
+              <Card key={key}>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <CardTitle>
+                        {pair.contacts
+                          .map((c) => `${c.firstName} ${c.lastName}`)
+                          .join(" / ")}
+                      </CardTitle>
+                      <CardDescription>
+                        {pair.reasons.join(", ")}
+                      </CardDescription>
+                    </div>
+                    <Badge variant="secondary">{pair.score}% match</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="border-b bg-muted/50">
+                        <tr>
+                          <th className="text-left p-4 font-medium">Field</th>
+                          {pair.contacts.map((contact, index) => (
+                            <th
+                              key={contact.id}
+                              className="text-left p-4 font-medium"
+                            >
+                              <label className="flex items-center space-x-2">
+                                <input
+                                  type="radio"
+                                  name={`${key}-survivor`}
+                                  checked={selection.survivor === index}
+                                  onChange={() =>
+                                    updateSelection(key, { survivor: index })
+                                  }
+                                />
+                                <span>Keep record #{contact.id}</span>
+                              </label>
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {MERGE_FIELD_ROWS.map(({ field, label, render }) => (
+                          <tr key={field} className="border-b">
+                            <td className="p-4 text-sm font-medium">{label}</td>
+                            {pair.contacts.map((contact, index) => (
+                              <td key={contact.id} className="p-4 text-sm">
+                                <label className="flex items-center space-x-2">
+                                  <input
+                                    type="radio"
+                                    name={`${key}-${field}`}
+                                    checked={selection.fields[field] === index}
+                                    onChange={() =>
+                                      updateSelection(key, {
+                                        fields: {
+                                          ...selection.fields,
+                                          [field]: index,
+                                        },
+                                      })
+                                    }
+                                  />
+                                  <span>
+                                    {render(contact) || (
+                                      <span className="text-muted-foreground">
+                                        —
+                                      </span>
+                                    )}
+                                  </span>
+                                </label>
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                        <tr className="border-b">
+                          <td className="p-4 text-sm font-medium">Linked</td>
+                          {pair.contacts.map((contact) => (
+                            <td
+                              key={contact.id}
+                              className="p-4 text-sm text-muted-foreground"
+                            >
+                              {contact.dealCount} deals ·{" "}
+                              {contact.activityCount} activities ·{" "}
+                              {contact.noteCount} notes
+                            </td>
+                          ))}
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {tags.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1 text-sm">
+                      <span className="text-muted-foreground mr-1">
+                        Tags are combined:
+                      </span>
+                      {tags.map((tag) => (
+                        <Badge key={tag} variant="outline">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex justify-end space-x-2">
+                    <Button
+                      variant="outline"
+                      disabled={busyPair === key}
+                      onClick={() => handleDismiss(pair)}
+                    >
+                      <X className="mr-2 h-4 w-4" />
+                      Not duplicates
+                    </Button>
+                    <Button
+                      variant="primary"
+                      disabled={busyPair === key}
+                      onClick={() => handleMerge(pair)}
+                    >
+                      <GitMerge className="mr-2 h-4 w-4" />
+                      Merge into #{pair.contacts[selection.survivor].id}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
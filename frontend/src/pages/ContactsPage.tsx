@@ -25,8 +25,22 @@ import {
   TableCell,
 } from "../components/ui/Table";
 import ShareModal from "../components/ui/ShareModal";
+import ImportWizard from "../components/imports/ImportWizard";
+import ExportButton from "../components/exports/ExportButton";
+import TeamSelect from "../components/teams/TeamSelect";
+import CustomFieldInputs from "../components/customFields/CustomFieldInputs";
+import CustomFieldFilters from "../components/customFields/CustomFieldFilters";
 import { apiClient } from "../lib/api";
-import type { Contact, Company } from "../lib/api";
+import { usePermissions } from "../hooks/usePermissions";
+import { useCustomFields } from "../hooks/useCustomFields";
+import {
+  formatCustomFieldValue,
+  toCustomFieldFormValues,
+  toCustomFieldPayload,
+  validateCustomFieldValues,
+} from "../lib/customFields";
+import type { CustomFieldFormValues } from "../lib/customFields";
+import type { Contact, Company, CustomFieldListParams } from "../lib/api";
 import {
   Plus,
   Search,
@@ -37,6 +51,8 @@ import {
   Phone,
   User,
   Share2,
+  Upload,
+  Copy,
 } from "lucide-react";
 
 interface ContactFormData {
@@ -49,9 +65,13 @@ interface ContactFormData {
   notes: string;
   tags: string[];
   status: "hot" | "warm" | "cold" | "all_good";
+  teamId: string;
+  customFields: CustomFieldFormValues;
 }
 
 export default function ContactsPage() {
+  const { can } = usePermissions();
+  const customFields = useCustomFields("contact");
   const navigate = useNavigate();
   const location = useLocation();
   const [contacts, setContacts] = useState<Contact[]>([]);
@@ -61,17 +81,27 @@ export default function ContactsPage() {
   const [selectedStatus, setSelectedStatus] = useState<
     "hot" | "warm" | "cold" | "all_good" | ""
   >("");
+  const [customFieldParams, setCustomFieldParams] =
+    useState<CustomFieldListParams>({});
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [editingContact, setEditingContact] = useState<Contact | null>(null);
 
   // Check if we should automatically open the form (from Dashboard navigation)
   useEffect(() => {
     if (location.state?.openForm) {
       setShowForm(true);
+      // Pre-link the new record to an organization (from its detail page)
+      if (location.state.companyId) {
+        setFormData((prev) => ({
+          ...prev,
+          companyId: location.state.companyId.toString(),
+        }));
+      }
       // Clear the state to prevent reopening on future navigations
       navigate(location.pathname, { replace: true, state: {} });
     }
@@ -86,8 +116,13 @@ export default function ContactsPage() {
     notes: "",
     tags: [],
     status: "all_good",
+    teamId: "",
+    customFields: {},
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<
+    Record<string, string>
+  >({});
   const [shareModal, setShareModal] = useState<{
     isOpen: boolean;
     contactId: number | null;
@@ -108,6 +143,7 @@ export default function ContactsPage() {
           search: searchTerm || undefined,
           tags: selectedTags.length > 0 ? selectedTags.join(",") : undefined,
           status: selectedStatus || undefined,
+          ...customFieldParams,
         });
         if (response.data) {
           setContacts(response.data.contacts);
@@ -121,7 +157,13 @@ export default function ContactsPage() {
     };
 
     fetchData();
-  }, [currentPage, searchTerm, selectedTags, selectedStatus]);
+  }, [
+    currentPage,
+    searchTerm,
+    selectedTags,
+    selectedStatus,
+    customFieldParams,
+  ]);
 
   useEffect(() => {
     fetchCompanies();
@@ -136,6 +178,7 @@ export default function ContactsPage() {
         limit: 20,
         search: searchTerm || undefined,
         tags: selectedTags.length > 0 ? selectedTags.join(",") : undefined,
+        ...customFieldParams,
       });
 
       if (response.data) {
@@ -184,8 +227,16 @@ export default function ContactsPage() {
       errors.email = "Invalid email format";
     }
 
+    const fieldErrors = validateCustomFieldValues(
+      customFields,
+      formData.customFields
+    );
+
     setFormErrors(errors);
-    return Object.keys(errors).length === 0;
+    setCustomFieldErrors(fieldErrors);
+    return (
+      Object.keys(errors).length === 0 && Object.keys(fieldErrors).length === 0
+    );
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -206,12 +257,21 @@ export default function ContactsPage() {
         notes: formData.notes || undefined,
         tags: formData.tags.length > 0 ? formData.tags : undefined,
         status: formData.status,
+        // Only send the team when it changed, so editors outside the team
+        // don't trip the membership check
+        ...(formData.teamId !== (editingContact?.teamId?.toString() || "") && {
+          teamId: formData.teamId ? parseInt(formData.teamId) : null,
+        }),
+        customFields: toCustomFieldPayload(customFields, formData.customFields),
       };
 
-      if (editingContact) {
-        await apiClient.updateContact(editingContact.id, contactData);
-      } else {
-        await apiClient.createContact(contactData);
+      const response = editingContact
+        ? await apiClient.updateContact(editingContact.id, contactData)
+        : await apiClient.createContact(contactData);
+      // Keep the form open so a rejected value can be fixed
+      if (response.error) {
+        setFormErrors({ submit: response.error });
+        return;
       }
 
       resetForm();
@@ -234,6 +294,8 @@ export default function ContactsPage() {
       notes: contact.notes || "",
       tags: contact.tags || [],
       status: contact.status || "all_good",
+      teamId: contact.teamId?.toString() || "",
+      customFields: toCustomFieldFormValues(customFields, contact.customFields),
     });
     setShowForm(true);
   };
@@ -260,8 +322,11 @@ export default function ContactsPage() {
       notes: "",
       tags: [],
       status: "all_good",
+      teamId: "",
+      customFields: {},
     });
     setFormErrors({});
+    setCustomFieldErrors({});
     setEditingContact(null);
     setShowForm(false);
   };
@@ -288,13 +353,39 @@ export default function ContactsPage() {
             Manage your contacts and relationships
           </p>
         </div>
-        <Button
-          onClick={() => setShowForm(true)}
-          className="self-start sm:self-auto"
-        >
-          <Plus className="mr-2 h-4 w-4" />
-          Add Contact
-        </Button>
+        <div className="flex space-x-2 self-start sm:self-auto">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/contacts/duplicates")}
+          >
+            <Copy className="mr-2 h-4 w-4" />
+            Duplicates
+          </Button>
+          {can("can_import") && (
+            <Button variant="outline" onClick={() => setShowImport(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          )}
+          {can("can_export") && (
+            <ExportButton
+              entity="contacts"
+              filters={{
+                search: searchTerm || undefined,
+                tags:
+                  selectedTags.length > 0 ? selectedTags.join(",") : undefined,
+                status: selectedStatus || undefined,
+              }}
+              cf={customFieldParams.cf}
+            />
+          )}
+          {can("can_edit_records") && (
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Contact
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Search and Filters */}
@@ -401,6 +492,15 @@ export default function ContactsPage() {
               )}
             </div>
           </div>
+
+          <CustomFieldFilters
+            fields={customFields}
+            value={customFieldParams}
+            onChange={(params) => {
+              setCustomFieldParams(params);
+              setCurrentPage(1);
+            }}
+          />
         </CardContent>
       </Card>
 
@@ -539,6 +639,31 @@ export default function ContactsPage() {
                   />
                 </div>
 
+                <CustomFieldInputs
+                  fields={customFields}
+                  values={formData.customFields}
+                  onChange={(key, value) => {
+                    setFormData((prev) => ({
+                      ...prev,
+                      customFields: { ...prev.customFields, [key]: value },
+                    }));
+                    setCustomFieldErrors((prev) => ({ ...prev, [key]: "" }));
+                  }}
+                  errors={customFieldErrors}
+                />
+
+                <TeamSelect
+                  value={formData.teamId}
+                  onChange={(value) => handleInputChange("teamId", value)}
+                  currentTeamName={editingContact?.team_name}
+                />
+
+                {formErrors.submit && (
+                  <p className="text-sm text-destructive">
+                    {formErrors.submit}
+                  </p>
+                )}
+
                 <div className="flex justify-end space-x-2 pt-4">
                   <Button type="button" variant="outline" onClick={resetForm}>
                     Cancel
@@ -569,10 +694,12 @@ export default function ContactsPage() {
                   ? "No contacts match your search."
                   : "Get started by adding your first contact."}
               </p>
-              <Button onClick={() => setShowForm(true)}>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Contact
-              </Button>
+              {can("can_edit_records") && (
+                <Button onClick={() => setShowForm(true)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Contact
+                </Button>
+              )}
             </div>
           ) : (
             <div className="overflow-x-auto">
@@ -586,6 +713,9 @@ export default function ContactsPage() {
                     <TableHead>Tags</TableHead>
                     <TableHead>Email</TableHead>
                     <TableHead>Phone</TableHead>
+                    {customFields.map((field) => (
+                      <TableHead key={field.key}>{field.label}</TableHead>
+                    ))}
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -670,36 +800,49 @@ export default function ContactsPage() {
                           <span className="text-muted-foreground">-</span>
                         )}
                       </TableCell>
+                      {customFields.map((field) => (
+                        <TableCell key={field.key}>
+                          {formatCustomFieldValue(
+                            contact.customFields?.[field.key]
+                          ) || <span className="text-muted-foreground">-</span>}
+                        </TableCell>
+                      ))}
                       <TableCell>
                         <div className="flex space-x-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              setShareModal({
-                                isOpen: true,
-                                contactId: contact.id,
-                                contactName: `${contact.firstName} ${contact.lastName}`,
-                              });
-                            }}
-                            title="Share contact"
-                          >
-                            <Share2 className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleEdit(contact)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDelete(contact.id)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {can("can_edit_records") && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  setShareModal({
+                                    isOpen: true,
+                                    contactId: contact.id,
+                                    contactName: `${contact.firstName} ${contact.lastName}`,
+                                  });
+                                }}
+                                title="Share contact"
+                              >
+                                <Share2 className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleEdit(contact)}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          {can("can_delete_contacts") && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDelete(contact.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -740,6 +883,14 @@ export default function ContactsPage() {
         </div>
       )}
 
+      {showImport && (
+        <ImportWizard
+          entity="contacts"
+          onClose={() => setShowImport(false)}
+          onImported={fetchContacts}
+        />
+      )}
+
       {/* Share Modal */}
       <ShareModal
         isOpen={shareModal.isOpen}
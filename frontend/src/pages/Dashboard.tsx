@@ -7,7 +7,9 @@ import {
   CardContent,
 } from "../components/ui/Card";
 import { Button } from "../components/ui/Button";
+import PipelineReport from "../components/reports/PipelineReport";
 import { apiClient } from "../lib/api";
+import { usePermissions } from "../hooks/usePermissions";
 import type { ActivityWithDetails } from "../lib/api";
 import { Users, Building2, TrendingUp, Calendar } from "lucide-react";
 
@@ -19,6 +21,7 @@ interface DashboardStats {
 }
 
 export default function Dashboard() {
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const [stats, setStats] = useState<DashboardStats>({
     contacts: 0,
@@ -182,52 +185,56 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Quick Actions</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              <Button
-                variant="outline"
-                onClick={() =>
-                  navigate("/contacts", { state: { openForm: true } })
-                }
-                className="w-full justify-start p-3 h-auto bg-primary/10 hover:bg-primary/20 border-none"
-              >
-                <div className="flex items-center space-x-3">
-                  <Users className="h-5 w-5 text-primary" />
-                  <span className="font-medium">Add New Contact</span>
-                </div>
-              </Button>
-              <Button
-                variant="outline"
-                onClick={() =>
-                  navigate("/organizations", { state: { openForm: true } })
-                }
-                className="w-full justify-start p-3 h-auto bg-green-100 hover:bg-green-200 border-none"
-              >
-                <div className="flex items-center space-x-3">
-                  <Building2 className="h-5 w-5 text-green-600" />
-                  <span className="font-medium">Add New Organization</span>
-                </div>
-              </Button>
-              <Button
-                variant="outline"
-                onClick={() =>
-                  navigate("/deals", { state: { openForm: true } })
-                }
-                className="w-full justify-start p-3 h-auto bg-purple-100 hover:bg-purple-200 border-none"
-              >
-                <div className="flex items-center space-x-3">
-                  <TrendingUp className="h-5 w-5 text-purple-600" />
-                  <span className="font-medium">Create New Deal</span>
-                </div>
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
+        {can("can_edit_records") && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Quick Actions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    navigate("/contacts", { state: { openForm: true } })
+                  }
+                  className="w-full justify-start p-3 h-auto bg-primary/10 hover:bg-primary/20 border-none"
+                >
+                  <div className="flex items-center space-x-3">
+                    <Users className="h-5 w-5 text-primary" />
+                    <span className="font-medium">Add New Contact</span>
+                  </div>
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    navigate("/organizations", { state: { openForm: true } })
+                  }
+                  className="w-full justify-start p-3 h-auto bg-green-100 hover:bg-green-200 border-none"
+                >
+                  <div className="flex items-center space-x-3">
+                    <Building2 className="h-5 w-5 text-green-600" />
+                    <span className="font-medium">Add New Organization</span>
+                  </div>
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    navigate("/deals", { state: { openForm: true } })
+                  }
+                  className="w-full justify-start p-3 h-auto bg-purple-100 hover:bg-purple-200 border-none"
+                >
+                  <div className="flex items-center space-x-3">
+                    <TrendingUp className="h-5 w-5 text-purple-600" />
+                    <span className="font-medium">Create New Deal</span>
+                  </div>
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
+
+      <PipelineReport />
     </div>
   );
 }
@@ -13,10 +13,28 @@ import {
 import { Badge } from "../components/ui/Badge";
 import { Calendar as CalendarComponent } from "../components/ui/Calendar";
 import ShareModal from "../components/ui/ShareModal";
+import PipelineBoard from "../components/deals/PipelineBoard";
+import ExportButton from "../components/exports/ExportButton";
+import TeamSelect from "../components/teams/TeamSelect";
+import { RecordHistory } from "../components/RecordHistory";
+import CustomFieldInputs from "../components/customFields/CustomFieldInputs";
+import CustomFieldFilters from "../components/customFields/CustomFieldFilters";
+import { useToast } from "../contexts/ToastContext";
 import { apiClient } from "../lib/api";
+import { usePermissions } from "../hooks/usePermissions";
+import { useCustomFields } from "../hooks/useCustomFields";
+import {
+  formatCustomFieldValue,
+  toCustomFieldFormValues,
+  toCustomFieldPayload,
+  validateCustomFieldValues,
+} from "../lib/customFields";
+import type { CustomFieldFormValues } from "../lib/customFields";
 import type {
+  CustomFieldListParams,
   DealWithDetails,
   DealStage,
+  DealsByStage,
   Organization,
   Contact,
 } from "../lib/api";
@@ -31,6 +49,9 @@ import {
   Building2,
   User,
   Share2,
+  List,
+  Kanban,
+  Settings,
 } from "lucide-react";
 
 interface DealFormData {
@@ -41,11 +62,57 @@ interface DealFormData {
   contact_id: string;
   expected_close_date: string;
   notes: string;
+  team_id: string;
+  custom_fields: CustomFieldFormValues;
 }
 
+// Apply a drag and drop move locally so the board updates before the server responds
+const moveDealInBoard = (
+  board: DealsByStage,
+  dealId: number,
+  stageId: number,
+  position: number
+): DealsByStage => {
+  let moved: DealWithDetails | undefined;
+  const next: DealsByStage = {};
+
+  for (const [key, column] of Object.entries(board)) {
+    const deals = column.deals.filter((deal) => {
+      if (deal.id === dealId) {
+        moved = deal;
+        return false;
+      }
+      return true;
+    });
+    next[key] = { ...column, deals };
+  }
+
+  if (!moved || !next[stageId]) return board;
+
+  next[stageId].deals.splice(position, 0, { ...moved, stage_id: stageId });
+
+  for (const column of Object.values(next)) {
+    const totals = { count: 0, value: 0, weightedValue: 0 };
+    for (const deal of column.deals) {
+      const value = Number(deal.value) || 0;
+      totals.count++;
+      totals.value += value;
+      totals.weightedValue += (value * (deal.probability || 0)) / 100;
+    }
+    column.totals = totals;
+  }
+
+  return next;
+};
+
 export default function DealsPage() {
+  const { can } = usePermissions();
+  const customFields = useCustomFields("deal");
   const navigate = useNavigate();
   const location = useLocation();
+  const { showToast } = useToast();
+  const [viewMode, setViewMode] = useState<"list" | "board">("list");
+  const [board, setBoard] = useState<DealsByStage>({});
   const [deals, setDeals] = useState<DealWithDetails[]>([]);
   const [dealStages, setDealStages] = useState<DealStage[]>([]);
   const [organizations, setOrganizations] = useState<Organization[]>([]);
@@ -53,6 +120,8 @@ export default function DealsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterStage, setFilterStage] = useState("");
+  const [customFieldParams, setCustomFieldParams] =
+    useState<CustomFieldListParams>({});
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [showForm, setShowForm] = useState(false);
@@ -62,10 +131,26 @@ export default function DealsPage() {
   useEffect(() => {
     if (location.state?.openForm) {
       setShowForm(true);
+      // Pre-link the new record to an organization (from its detail page)
+      if (location.state.companyId) {
+        setFormData((prev) => ({
+          ...prev,
+          company_id: location.state.companyId.toString(),
+        }));
+      }
       // Clear the state to prevent reopening on future navigations
       navigate(location.pathname, { replace: true, state: {} });
     }
   }, [location.state, navigate, location.pathname]);
+
+  // Filter the list to a global search result (from the command palette)
+  useEffect(() => {
+    if (location.state?.search) {
+      setSearchTerm(location.state.search);
+      setCurrentPage(1);
+      navigate(location.pathname, { replace: true, state: {} });
+    }
+  }, [location.state, navigate, location.pathname]);
   const [formData, setFormData] = useState<DealFormData>({
     title: "",
     value: "",
@@ -74,8 +159,13 @@ export default function DealsPage() {
     contact_id: "",
     expected_close_date: "",
     notes: "",
+    team_id: "",
+    custom_fields: {},
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<
+    Record<string, string>
+  >({});
   const [showCalendar, setShowCalendar] = useState(false);
   const [shareModal, setShareModal] = useState<{
     isOpen: boolean;
@@ -153,6 +243,7 @@ export default function DealsPage() {
           limit: 20,
           search: searchTerm || undefined,
           stageId: filterStage ? parseInt(filterStage) : undefined,
+          ...customFieldParams,
         });
 
         if (response.data) {
@@ -165,7 +256,13 @@ export default function DealsPage() {
     };
 
     fetchDeals();
-  }, [currentPage, searchTerm, filterStage, dealStages.length]);
+  }, [
+    currentPage,
+    searchTerm,
+    filterStage,
+    customFieldParams,
+    dealStages.length,
+  ]);
 
   const fetchDeals = async () => {
     try {
@@ -174,6 +271,7 @@ export default function DealsPage() {
         limit: 20,
         search: searchTerm || undefined,
         stageId: filterStage ? parseInt(filterStage) : undefined,
+        ...customFieldParams,
       });
 
       if (response.data) {
@@ -185,6 +283,54 @@ export default function DealsPage() {
     }
   };
 
+  const fetchBoard = async () => {
+    try {
+      const response = await apiClient.getDealsByStage();
+      if (response.data) {
+        setBoard(response.data);
+      }
+    } catch (error) {
+      console.error("Error fetching pipeline:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (viewMode === "board") {
+      fetchBoard();
+    }
+  }, [viewMode]);
+
+  const refreshDeals = () => {
+    if (viewMode === "board") {
+      fetchBoard();
+    } else {
+      fetchDeals();
+    }
+  };
+
+  const handleMove = async (
+    dealId: number,
+    stageId: number,
+    position: number
+  ) => {
+    const previousBoard = board;
+    setBoard(moveDealInBoard(board, dealId, stageId, position));
+
+    const response = await apiClient.moveDealStage(dealId, stageId, position);
+    if (response.error) {
+      setBoard(previousBoard);
+      showToast({
+        type: "error",
+        title: "Could not move deal",
+        message: response.error,
+      });
+      return;
+    }
+
+    // Re-sync so shared deals and totals reflect what the server stored
+    fetchBoard();
+  };
+
   const validateForm = (): boolean => {
     const errors: Record<string, string> = {};
 
@@ -198,8 +344,16 @@ export default function DealsPage() {
       errors.stage_id = "Deal stage is required";
     }
 
+    const fieldErrors = validateCustomFieldValues(
+      customFields,
+      formData.custom_fields
+    );
+
     setFormErrors(errors);
-    return Object.keys(errors).length === 0;
+    setCustomFieldErrors(fieldErrors);
+    return (
+      Object.keys(errors).length === 0 && Object.keys(fieldErrors).length === 0
+    );
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -220,18 +374,29 @@ export default function DealsPage() {
           ? parseInt(formData.contact_id)
           : undefined,
         expectedCloseDate: formData.expected_close_date || undefined,
-        probability: 50, // Default probability
         notes: formData.notes || undefined,
+        // Only send the team when it changed, so editors outside the team
+        // don't trip the membership check
+        ...(formData.team_id !== (editingDeal?.team_id?.toString() || "") && {
+          teamId: formData.team_id ? parseInt(formData.team_id) : null,
+        }),
+        customFields: toCustomFieldPayload(
+          customFields,
+          formData.custom_fields
+        ),
       };
 
-      if (editingDeal) {
-        await apiClient.updateDeal(editingDeal.id, dealData);
-      } else {
-        await apiClient.createDeal(dealData);
+      const response = editingDeal
+        ? await apiClient.updateDeal(editingDeal.id, dealData)
+        : await apiClient.createDeal(dealData);
+      // Keep the form open so a rejected value can be fixed
+      if (response.error) {
+        setFormErrors({ submit: response.error });
+        return;
       }
 
       resetForm();
-      fetchDeals();
+      refreshDeals();
     } catch (error) {
       console.error("Error saving deal:", error);
     }
@@ -255,6 +420,8 @@ export default function DealsPage() {
           })()
         : "",
       notes: deal.notes || "",
+      team_id: deal.team_id?.toString() || "",
+      custom_fields: toCustomFieldFormValues(customFields, deal.custom_fields),
     });
     setShowForm(true);
   };
@@ -264,7 +431,7 @@ export default function DealsPage() {
 
     try {
       await apiClient.deleteDeal(dealId);
-      fetchDeals();
+      refreshDeals();
     } catch (error) {
       console.error("Error deleting deal:", error);
     }
@@ -279,8 +446,11 @@ export default function DealsPage() {
       contact_id: "",
       expected_close_date: "",
       notes: "",
+      team_id: "",
+      custom_fields: {},
     });
     setFormErrors({});
+    setCustomFieldErrors({});
     setEditingDeal(null);
     setShowForm(false);
     setShowCalendar(false);
@@ -339,53 +509,102 @@ export default function DealsPage() {
           <h1 className="text-3xl font-bold">Deals & Opportunities</h1>
           <p className="text-muted-foreground">Track your sales pipeline</p>
         </div>
-        <Button onClick={() => setShowForm(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Deal
-        </Button>
+        <div className="flex space-x-2">
+          <div className="flex rounded-md border border-border">
+            <Button
+              variant={viewMode === "list" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setViewMode("list")}
+              title="List view"
+            >
+              <List className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={viewMode === "board" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setViewMode("board")}
+              title="Pipeline board"
+            >
+              <Kanban className="h-4 w-4" />
+            </Button>
+          </div>
+          {can("can_export") && (
+            <ExportButton
+              entity="deals"
+              filters={{
+                search: searchTerm || undefined,
+                stageId: filterStage || undefined,
+              }}
+              cf={customFieldParams.cf}
+            />
+          )}
+          {can("can_manage_stages") && (
+            <Button variant="outline" onClick={() => navigate("/deals/stages")}>
+              <Settings className="mr-2 h-4 w-4" />
+              Stages
+            </Button>
+          )}
+          {can("can_edit_records") && (
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Deal
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Search and Filters */}
-      <Card className="mb-6">
-        <CardContent className="p-4">
-          <form onSubmit={handleSearch} className="flex gap-4">
-            <div className="flex-1 relative">
-              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search deals..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-            <Select
-              value={filterStage}
-              onChange={(e) => setFilterStage(e.target.value)}
-            >
-              <option value="">All Stages</option>
-              {dealStages.map((stage) => (
-                <option key={stage.id} value={stage.id.toString()}>
-                  {stage.name}
-                </option>
-              ))}
-            </Select>
-            <Button type="submit">Search</Button>
-            {(searchTerm || filterStage) && (
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => {
-                  setSearchTerm("");
-                  setFilterStage("");
-                  setCurrentPage(1);
-                }}
+      {viewMode === "list" && (
+        <Card className="mb-6">
+          <CardContent className="p-4 space-y-4">
+            <form onSubmit={handleSearch} className="flex gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search deals..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select
+                value={filterStage}
+                onChange={(e) => setFilterStage(e.target.value)}
               >
-                Clear
-              </Button>
-            )}
-          </form>
-        </CardContent>
-      </Card>
+                <option value="">All Stages</option>
+                {dealStages.map((stage) => (
+                  <option key={stage.id} value={stage.id.toString()}>
+                    {stage.name}
+                  </option>
+                ))}
+              </Select>
+              <Button type="submit">Search</Button>
+              {(searchTerm || filterStage) && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setSearchTerm("");
+                    setFilterStage("");
+                    setCurrentPage(1);
+                  }}
+                >
+                  Clear
+                </Button>
+              )}
+            </form>
+
+            <CustomFieldFilters
+              fields={customFields}
+              value={customFieldParams}
+              onChange={(params) => {
+                setCustomFieldParams(params);
+                setCurrentPage(1);
+              }}
+            />
+          </CardContent>
+        </Card>
+      )}
 
       {/* Deal Form Modal */}
       {showForm && (
@@ -573,6 +792,31 @@ export default function DealsPage() {
                   />
                 </div>
 
+                <CustomFieldInputs
+                  fields={customFields}
+                  values={formData.custom_fields}
+                  onChange={(key, value) => {
+                    setFormData((prev) => ({
+                      ...prev,
+                      custom_fields: { ...prev.custom_fields, [key]: value },
+                    }));
+                    setCustomFieldErrors((prev) => ({ ...prev, [key]: "" }));
+                  }}
+                  errors={customFieldErrors}
+                />
+
+                <TeamSelect
+                  value={formData.team_id}
+                  onChange={(value) => handleInputChange("team_id", value)}
+                  currentTeamName={editingDeal?.team_name}
+                />
+
+                {formErrors.submit && (
+                  <p className="text-sm text-destructive">
+                    {formErrors.submit}
+                  </p>
+                )}
+
                 <div className="flex justify-end space-x-2 pt-4">
                   <Button type="button" variant="outline" onClick={resetForm}>
                     Cancel
@@ -582,120 +826,167 @@ export default function DealsPage() {
                   </Button>
                 </div>
               </form>
+
+              {editingDeal && (
+                <div className="mt-6">
+                  <RecordHistory entityType="deal" entityId={editingDeal.id} />
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
       )}
 
-      {/* Deals List */}
-      <div className="space-y-4">
-        {deals.length === 0 ? (
-          <Card>
-            <CardContent className="text-center py-12">
-              <TrendingUp className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
-              <h3 className="text-lg font-medium mb-2">No deals found</h3>
-              <p className="text-muted-foreground mb-4">
-                {searchTerm || filterStage
-                  ? "No deals match your search."
-                  : "Get started by adding your first deal."}
-              </p>
-              <Button onClick={() => setShowForm(true)}>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Deal
-              </Button>
-            </CardContent>
-          </Card>
-        ) : (
-          deals.map((deal) => (
-            <Card key={deal.id}>
-              <CardContent className="p-6">
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-3 mb-2">
-                      <h3 className="text-lg font-semibold">{deal.title}</h3>
-                      <Badge variant={getStageColor(deal.stage_name || "")}>
-                        {deal.stage_name}
-                      </Badge>
-                    </div>
+      {/* Pipeline Board */}
+      {viewMode === "board" && (
+        <PipelineBoard
+          board={board}
+          onMove={handleMove}
+          onEdit={handleEdit}
+          readOnly={!can("can_edit_records")}
+        />
+      )}
 
-                    <div className="flex items-center space-x-6 text-sm text-muted-foreground mb-3">
-                      <div className="flex items-center">
-                        <DollarSign className="mr-1 h-4 w-4" />
-                        <span className="font-medium text-foreground">
-                          {formatCurrency(deal.value)}
-                        </span>
+      {/* Deals List */}
+      {viewMode === "list" && (
+        <div className="space-y-4">
+          {deals.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <TrendingUp className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium mb-2">No deals found</h3>
+                <p className="text-muted-foreground mb-4">
+                  {searchTerm || filterStage || customFieldParams.cf
+                    ? "No deals match your search."
+                    : "Get started by adding your first deal."}
+                </p>
+                {can("can_edit_records") && (
+                  <Button onClick={() => setShowForm(true)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Deal
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ) : (
+            deals.map((deal) => (
+              <Card key={deal.id}>
+                <CardContent className="p-6">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-3 mb-2">
+                        <h3 className="text-lg font-semibold">{deal.title}</h3>
+                        <Badge variant={getStageColor(deal.stage_name || "")}>
+                          {deal.stage_name}
+                        </Badge>
                       </div>
 
-                      {deal.company_name && (
+                      <div className="flex items-center space-x-6 text-sm text-muted-foreground mb-3">
                         <div className="flex items-center">
-                          <Building2 className="mr-1 h-4 w-4" />
-                          <span>{deal.company_name}</span>
+                          <DollarSign className="mr-1 h-4 w-4" />
+                          <span className="font-medium text-foreground">
+                            {formatCurrency(deal.value)}
+                          </span>
                         </div>
-                      )}
 
-                      {deal.contact_name && (
-                        <div className="flex items-center">
-                          <User className="mr-1 h-4 w-4" />
-                          <span>{deal.contact_name}</span>
-                        </div>
+                        {deal.company_name && (
+                          <div className="flex items-center">
+                            <Building2 className="mr-1 h-4 w-4" />
+                            <span>{deal.company_name}</span>
+                          </div>
+                        )}
+
+                        {deal.contact_name && (
+                          <div className="flex items-center">
+                            <User className="mr-1 h-4 w-4" />
+                            <span>{deal.contact_name}</span>
+                          </div>
+                        )}
+
+                        {deal.expected_close_date && (
+                          <div className="flex items-center">
+                            <Calendar className="mr-1 h-4 w-4" />
+                            <span>
+                              Close: {formatDate(deal.expected_close_date)}
+                            </span>
+                          </div>
+                        )}
+                      </div>
+
+                      {deal.notes && (
+                        <p className="text-sm text-muted-foreground">
+                          {deal.notes}
+                        </p>
                       )}
 
-                      {deal.expected_close_date && (
-                        <div className="flex items-center">
-                          <Calendar className="mr-1 h-4 w-4" />
-                          <span>
-                            Close: {formatDate(deal.expected_close_date)}
-                          </span>
+                      {customFields.some(
+                        (field) => deal.custom_fields?.[field.key] != null
+                      ) && (
+                        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground mt-2">
+                          {customFields
+                            .filter(
+                              (field) => deal.custom_fields?.[field.key] != null
+                            )
+                            .map((field) => (
+                              <span key={field.key}>
+                                {field.label}:{" "}
+                                <span className="text-foreground">
+                                  {formatCustomFieldValue(
+                                    deal.custom_fields?.[field.key]
+                                  )}
+                                </span>
+                              </span>
+                            ))}
                         </div>
                       )}
                     </div>
 
-                    {deal.notes && (
-                      <p className="text-sm text-muted-foreground">
-                        {deal.notes}
-                      </p>
-                    )}
-                  </div>
-
-                  <div className="flex space-x-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleEdit(deal)}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        setShareModal({
-                          isOpen: true,
-                          resourceType: "deal",
-                          resourceId: deal.id,
-                          resourceTitle: deal.title,
-                        });
-                      }}
-                    >
-                      <Share2 className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleDelete(deal.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <div className="flex space-x-2">
+                      {can("can_edit_records") && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleEdit(deal)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setShareModal({
+                                isOpen: true,
+                                resourceType: "deal",
+                                resourceId: deal.id,
+                                resourceTitle: deal.title,
+                              });
+                            }}
+                          >
+                            <Share2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {can("can_delete_deals") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(deal.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))
-        )}
-      </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      )}
 
       {/* Pagination */}
-      {totalPages > 1 && (
+      {viewMode === "list" && totalPages > 1 && (
         <div className="flex items-center justify-between mt-6">
           <div className="text-sm text-muted-foreground">
             Page {currentPage} of {totalPages}
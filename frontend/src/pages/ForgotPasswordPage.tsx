@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "../components/ui/Button";
+import { Input } from "../components/ui/Input";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter,
+} from "../components/ui/Card";
+import { apiClient } from "../lib/api";
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [emailError, setEmailError] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email) {
+      setEmailError("Email is required");
+      return;
+    } else if (!/\S+@\S+\.\S+/.test(email)) {
+      setEmailError("Email is invalid");
+      return;
+    }
+    setEmailError("");
+
+    setIsSubmitting(true);
+    const response = await apiClient.forgotPassword(email);
+    setIsSubmitting(false);
+
+    if (response.data) {
+      setError(null);
+      setSentMessage(response.data.message);
+    } else {
+      setError(response.error || "Could not send the reset email");
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            Forgot your password?
+          </CardTitle>
+          <CardDescription className="text-center">
+            Enter your email and we'll send you a link to choose a new one
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+                {error}
+              </div>
+            )}
+
+            {sentMessage ? (
+              <div className="p-3 text-sm text-primary bg-primary/10 border border-primary/20 rounded-md">
+                {sentMessage}. Check your inbox; the link expires in an hour.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <label htmlFor="email" className="text-sm font-medium">
+                  Email
+                </label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="john@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className={emailError ? "border-destructive" : ""}
+                />
+                {emailError && (
+                  <p className="text-sm text-destructive">{emailError}</p>
+                )}
+              </div>
+            )}
+          </CardContent>
+
+          <CardFooter className="flex flex-col space-y-4">
+            {!sentMessage && (
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? "Sending..." : "Send reset link"}
+              </Button>
+            )}
+
+            <p className="text-sm text-center text-muted-foreground">
+              Remembered it?{" "}
+              <Link
+                to="/login"
+                className="font-medium text-primary hover:underline"
+              >
+                Sign in
+              </Link>
+            </p>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
-import { useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { useState, useEffect } from "react";
+import {
+  Link,
+  useLocation,
+  useNavigate,
+  useSearchParams,
+} from "react-router-dom";
 import { Button } from "../components/ui/Button";
 import { Input } from "../components/ui/Input";
 import {
@@ -11,14 +16,73 @@ import {
   CardFooter,
 } from "../components/ui/Card";
 import { useAuth } from "../hooks/useAuth";
+import { apiClient } from "../lib/api";
+import type { SsoConfig } from "../lib/api";
+
+interface LoginLocationState {
+  // Shown above the form, e.g. after registering or resetting a password
+  notice?: string;
+  email?: string;
+}
+
+// Why single sign-on sent the user back here, from the ssoError parameter
+const SSO_ERRORS: Record<string, string> = {
+  disabled: "Single sign-on is not enabled",
+  failed: "Single sign-on failed. Please try again.",
+  cancelled: "Single sign-on was cancelled",
+  not_provisioned:
+    "You don't have an account yet. Ask an administrator to invite you.",
+  user_limit: "Maximum number of users reached. Contact administrator.",
+  email_required: "Your sign-in provider did not share your email address",
+  email_unverified:
+    "An account with your email address already exists and could not be linked to your sign-in provider. Contact administrator.",
+  deactivated: "This account has been deactivated. Contact administrator.",
+};
 
 export default function LoginPage() {
-  const [email, setEmail] = useState("");
+  const location = useLocation();
+  const { notice, email: initialEmail } =
+    (location.state as LoginLocationState | null) || {};
+  const [searchParams] = useSearchParams();
+  const ssoError = searchParams.get("ssoError");
+  const [ssoConfig, setSsoConfig] = useState<SsoConfig | null>(null);
+  // Admins can still use a password when everyone else must use SSO
+  const [showPasswordLogin, setShowPasswordLogin] = useState(false);
+  const [email, setEmail] = useState(initialEmail || "");
   const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const { login, isLoading, error } = useAuth();
+  const {
+    login,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    twoFactorChallenge,
+    isLoading,
+    error,
+  } = useAuth();
   const navigate = useNavigate();
 
+  useEffect(() => {
+    apiClient.getSsoConfig().then((response) => {
+      if (response.data) {
+        setSsoConfig(response.data);
+      }
+    });
+  }, []);
+
+  const ssoEnabled = !!ssoConfig?.enabled;
+  const passwordLoginEnabled = !ssoEnabled || ssoConfig.passwordLoginEnabled;
+  const showPasswordForm = passwordLoginEnabled || showPasswordLogin;
+  const ssoErrorMessage = ssoError
+    ? SSO_ERRORS[ssoError] || SSO_ERRORS.failed
+    : null;
+
+  // Offer a new verification link after registering, or when login failed
+  // because the email isn't verified yet
+  const showResendLink =
+    initialEmail !== undefined || /verify your email/i.test(error || "");
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -49,6 +113,83 @@ export default function LoginPage() {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      setErrors({ code: "Code is required" });
+      return;
+    }
+
+    setErrors({});
+    setIsVerifying(true);
+    const success = await verifyTwoFactor(code.trim());
+    setIsVerifying(false);
+    setCode("");
+    if (success) {
+      navigate("/dashboard");
+    }
+  };
+
+  if (twoFactorChallenge) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-bold text-center">
+              Two-factor authentication
+            </CardTitle>
+            <CardDescription className="text-center">
+              Enter the code from your authenticator app, or one of your
+              recovery codes
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleVerify}>
+            <CardContent className="space-y-4">
+              {error && (
+                <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label htmlFor="code" className="text-sm font-medium">
+                  Authentication code
+                </label>
+                <Input
+                  id="code"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className={errors.code ? "border-destructive" : ""}
+                />
+                {errors.code && (
+                  <p className="text-sm text-destructive">{errors.code}</p>
+                )}
+              </div>
+            </CardContent>
+
+            <CardFooter className="flex flex-col space-y-4">
+              <Button type="submit" className="w-full" disabled={isVerifying}>
+                {isVerifying ? "Verifying..." : "Verify"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={cancelTwoFactor}
+              >
+                Back to sign in
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background">
       <Card className="w-full max-w-md">
@@ -57,66 +198,141 @@ export default function LoginPage() {
             Sign in to OMW CRM
           </CardTitle>
           <CardDescription className="text-center">
-            Enter your email and password to access your account
+            {showPasswordForm
+              ? "Enter your email and password to access your account"
+              : "Sign in with your organization account"}
           </CardDescription>
         </CardHeader>
         <form onSubmit={handleSubmit}>
           <CardContent className="space-y-4">
+            {notice && !error && (
+              <div className="p-3 text-sm text-primary bg-primary/10 border border-primary/20 rounded-md">
+                {notice}
+              </div>
+            )}
+
             {error && (
               <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
                 {error}
               </div>
             )}
 
-            <div className="space-y-2">
-              <label htmlFor="email" className="text-sm font-medium">
-                Email
-              </label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="john@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className={errors.email ? "border-destructive" : ""}
-              />
-              {errors.email && (
-                <p className="text-sm text-destructive">{errors.email}</p>
-              )}
-            </div>
-
-            <div className="space-y-2">
-              <label htmlFor="password" className="text-sm font-medium">
-                Password
-              </label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Enter your password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className={errors.password ? "border-destructive" : ""}
-              />
-              {errors.password && (
-                <p className="text-sm text-destructive">{errors.password}</p>
-              )}
-            </div>
+            {ssoErrorMessage && !error && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+                {ssoErrorMessage}
+              </div>
+            )}
+
+            {ssoEnabled && (
+              <Button
+                type="button"
+                variant={showPasswordForm ? "outline" : "default"}
+                className="w-full"
+                onClick={() =>
+                  window.location.assign(apiClient.getSsoLoginUrl())
+                }
+              >
+                {ssoConfig.buttonLabel}
+              </Button>
+            )}
+
+            {ssoEnabled && showPasswordForm && (
+              <p className="text-xs text-center uppercase text-muted-foreground">
+                or
+              </p>
+            )}
+
+            {showPasswordForm && (
+              <>
+                <div className="space-y-2">
+                  <label htmlFor="email" className="text-sm font-medium">
+                    Email
+                  </label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="john@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className={errors.email ? "border-destructive" : ""}
+                  />
+                  {errors.email && (
+                    <p className="text-sm text-destructive">{errors.email}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="password" className="text-sm font-medium">
+                      Password
+                    </label>
+                    <Link
+                      to="/forgot-password"
+                      className="text-sm text-primary hover:underline"
+                    >
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={errors.password ? "border-destructive" : ""}
+                  />
+                  {errors.password && (
+                    <p className="text-sm text-destructive">
+                      {errors.password}
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
           </CardContent>
 
           <CardFooter className="flex flex-col space-y-4">
-            <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? "Signing in..." : "Sign In"}
-            </Button>
-
-            <p className="text-sm text-center text-muted-foreground">
-              Don't have an account?{" "}
-              <Link
-                to="/register"
-                className="font-medium text-primary hover:underline"
+            {showPasswordForm && (
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Signing in..." : "Sign In"}
+              </Button>
+            )}
+
+            {!showPasswordForm && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => setShowPasswordLogin(true)}
               >
-                Sign up
-              </Link>
-            </p>
+                Administrator? Sign in with a password
+              </Button>
+            )}
+
+            {showResendLink && (
+              <p className="text-sm text-center text-muted-foreground">
+                Didn't get a verification email?{" "}
+                <Link
+                  to="/verify-email"
+                  state={{ email }}
+                  className="font-medium text-primary hover:underline"
+                >
+                  Send a new link
+                </Link>
+              </p>
+            )}
+
+            {passwordLoginEnabled && (
+              <p className="text-sm text-center text-muted-foreground">
+                Don't have an account?{" "}
+                <Link
+                  to="/register"
+                  className="font-medium text-primary hover:underline"
+                >
+                  Sign up
+                </Link>
+              </p>
+            )}
           </CardFooter>
         </form>
       </Card>
@@ -0,0 +1,1141 @@
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useNavigate, Link } from "react-router-dom";
+import { Button } from "../components/ui/Button";
+import { Input } from "../components/ui/Input";
+import { Textarea } from "../components/ui/Textarea";
+import { Badge } from "../components/ui/Badge";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+} from "../components/ui/Card";
+import TeamSelect from "../components/teams/TeamSelect";
+import CustomFieldInputs from "../components/customFields/CustomFieldInputs";
+import AddressListEditor from "../components/contactMethods/AddressListEditor";
+import ParentOrganizationSelect from "../components/organizations/ParentOrganizationSelect";
+import { RecordHistory } from "../components/RecordHistory";
+import { apiClient } from "../lib/api";
+import { usePermissions } from "../hooks/usePermissions";
+import { useCustomFields } from "../hooks/useCustomFields";
+import {
+  formatCustomFieldValue,
+  toCustomFieldFormValues,
+  toCustomFieldPayload,
+  validateCustomFieldValues,
+} from "../lib/customFields";
+import type { CustomFieldFormValues } from "../lib/customFields";
+import {
+  ADDRESS_LABELS,
+  formatAddress,
+  toSavedEntries,
+} from "../lib/contactMethods";
+import type {
+  OrganizationRelated,
+  OrganizationRelatedSection,
+  OrganizationWithDetails,
+  PagedItems,
+  Pagination,
+  PostalAddress,
+  RelatedActivity,
+} from "../lib/api";
+import {
+  ArrowLeft,
+  Building2,
+  Calendar,
+  CheckCircle,
+  Clock,
+  Edit,
+  Globe,
+  Mail,
+  MapPin,
+  MessageCircle,
+  Network,
+  Phone,
+  Plus,
+  Save,
+  TrendingUp,
+  Users,
+  X,
+} from "lucide-react";
+
+interface OrganizationFormData {
+  name: string;
+  industry: string;
+  website: string;
+  phone: string;
+  email: string;
+  addresses: PostalAddress[];
+  notes: string;
+  teamId: string;
+  parentId: string;
+  customFields: CustomFieldFormValues;
+}
+
+// Records per page of each related section
+const RELATED_PAGE_SIZE = 10;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString();
+};
+
+const appendItems = <T,>(
+  current: PagedItems<T> | undefined,
+  next: PagedItems<T> | undefined
+): PagedItems<T> | undefined =>
+  current && next
+    ? { items: [...current.items, ...next.items], pagination: next.pagination }
+    : (next ?? current);
+
+/**
+ * Add the next page of one section to the records already shown
+ */
+const appendPage = (
+  current: OrganizationRelated,
+  next: OrganizationRelated,
+  section: OrganizationRelatedSection
+): OrganizationRelated => {
+  switch (section) {
+    case "contacts":
+      return {
+        ...current,
+        contacts: appendItems(current.contacts, next.contacts),
+      };
+    case "openActivities":
+      return {
+        ...current,
+        openActivities: appendItems(
+          current.openActivities,
+          next.openActivities
+        ),
+      };
+    case "completedActivities":
+      return {
+        ...current,
+        completedActivities: appendItems(
+          current.completedActivities,
+          next.completedActivities
+        ),
+      };
+    case "notes":
+      return { ...current, notes: appendItems(current.notes, next.notes) };
+    case "deals": {
+      if (!current.deals || !next.deals) return { ...current, ...next };
+      // Stage totals cover every deal, so only the deals in them grow
+      const nextStages = next.deals.stages;
+      return {
+        ...current,
+        deals: {
+          pagination: next.deals.pagination,
+          stages: current.deals.stages.map((stage) => ({
+            ...stage,
+            deals: [
+              ...stage.deals,
+              ...(nextStages.find((s) => s.stageId === stage.stageId)?.deals ??
+                []),
+            ],
+          })),
+        },
+      };
+    }
+  }
+};
+
+interface LoadMoreProps {
+  pagination?: Pagination;
+  shown: number;
+  loading: boolean;
+  onLoadMore: () => void;
+}
+
+function LoadMore({ pagination, shown, loading, onLoadMore }: LoadMoreProps) {
+  if (!pagination?.hasNext) return null;
+
+  return (
+    <div className="flex items-center justify-between pt-2">
+      <span className="text-xs text-muted-foreground">
+        Showing {shown} of {pagination.total}
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={onLoadMore}
+        disabled={loading}
+      >
+        {loading ? "Loading..." : "Load more"}
+      </Button>
+    </div>
+  );
+}
+
+function ActivityRow({ activity }: { activity: RelatedActivity }) {
+  return (
+    <Link
+      to={`/activities/${activity.id}`}
+      className="flex items-start justify-between border border-border rounded-md p-3 hover:bg-accent/50"
+    >
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <span className="font-medium">{activity.subject}</span>
+          <Badge variant="secondary">{activity.type}</Badge>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {[activity.contact_name, activity.deal_name, activity.company_name]
+            .filter(Boolean)
+            .join(" · ")}
+        </div>
+      </div>
+      {activity.due_date && (
+        <span className="text-xs text-muted-foreground whitespace-nowrap ml-4">
+          {new Date(activity.due_date).toLocaleDateString()}
+        </span>
+      )}
+    </Link>
+  );
+}
+
+export default function OrganizationDetailPage() {
+  const { can } = usePermissions();
+  const customFields = useCustomFields("organization");
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [organization, setOrganization] =
+    useState<OrganizationWithDetails | null>(null);
+  const [related, setRelated] = useState<OrganizationRelated>({});
+  // Records of subsidiaries are listed too when set
+  const [includeSubsidiaries, setIncludeSubsidiaries] = useState(false);
+  const [loadingSection, setLoadingSection] =
+    useState<OrganizationRelatedSection | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState<OrganizationFormData>({
+    name: "",
+    industry: "",
+    website: "",
+    phone: "",
+    email: "",
+    addresses: [],
+    notes: "",
+    teamId: "",
+    parentId: "",
+    customFields: {},
+  });
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<
+    Record<string, string>
+  >({});
+
+  const toFormData = useCallback(
+    (data: OrganizationWithDetails): OrganizationFormData => ({
+      name: data.name,
+      industry: data.industry || "",
+      website: data.website || "",
+      phone: data.phone || "",
+      email: data.email || "",
+      addresses: data.addresses || [],
+      notes: data.notes || "",
+      teamId: data.team_id?.toString() || "",
+      parentId: data.parent_id?.toString() || "",
+      customFields: toCustomFieldFormValues(customFields, data.custom_fields),
+    }),
+    [customFields]
+  );
+
+  const fetchOrganization = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const response = await apiClient.getOrganization(parseInt(id));
+      if (response.data) {
+        setOrganization(response.data);
+      }
+    } catch (error) {
+      console.error("Error fetching organization:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  const fetchRelated = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const response = await apiClient.getOrganizationRelated(parseInt(id), {
+        limit: RELATED_PAGE_SIZE,
+        includeSubsidiaries,
+      });
+      if (response.data) {
+        setRelated(response.data);
+      }
+    } catch (error) {
+      console.error("Error fetching related records:", error);
+    }
+  }, [id, includeSubsidiaries]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setIsEditing(false);
+    fetchOrganization();
+  }, [fetchOrganization]);
+
+  useEffect(() => {
+    fetchRelated();
+  }, [fetchRelated]);
+
+  // Custom fields load separately, so fill the form once both are in
+  useEffect(() => {
+    if (organization && !isEditing) {
+      setFormData(toFormData(organization));
+    }
+  }, [organization, isEditing, toFormData]);
+
+  const handleLoadMore = async (
+    section: OrganizationRelatedSection,
+    pagination?: Pagination
+  ) => {
+    if (!id || !pagination) return;
+
+    setLoadingSection(section);
+    try {
+      const response = await apiClient.getOrganizationRelated(parseInt(id), {
+        section,
+        page: pagination.page + 1,
+        limit: RELATED_PAGE_SIZE,
+        includeSubsidiaries,
+      });
+      if (response.data) {
+        const next = response.data;
+        setRelated((prev) => appendPage(prev, next, section));
+      }
+    } catch (error) {
+      console.error("Error fetching related records:", error);
+    } finally {
+      setLoadingSection(null);
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      errors.name = "Organization name is required";
+    }
+    if (formData.email && !/\S+@\S+\.\S+/.test(formData.email)) {
+      errors.email = "Invalid email format";
+    }
+    if (formData.website && !formData.website.startsWith("http")) {
+      errors.website = "Website must start with http:// or https://";
+    }
+
+    const fieldErrors = validateCustomFieldValues(
+      customFields,
+      formData.customFields
+    );
+
+    setFormErrors(errors);
+    setCustomFieldErrors(fieldErrors);
+    return (
+      Object.keys(errors).length === 0 && Object.keys(fieldErrors).length === 0
+    );
+  };
+
+  const handleSave = async () => {
+    if (!organization || !validateForm()) return;
+
+    try {
+      const organizationData = {
+        name: formData.name,
+        industry: formData.industry || undefined,
+        website: formData.website || undefined,
+        phone: formData.phone || undefined,
+        email: formData.email || undefined,
+        addresses: toSavedEntries(
+          formData.addresses,
+          (entry) => !formatAddress(entry)
+        ),
+        notes: formData.notes || undefined,
+        // Only send the team and parent when they changed, as on the list
+        ...(formData.teamId !== (organization.team_id?.toString() || "") && {
+          teamId: formData.teamId ? parseInt(formData.teamId) : null,
+        }),
+        ...(formData.parentId !==
+          (organization.parent_id?.toString() || "") && {
+          parentId: formData.parentId ? parseInt(formData.parentId) : null,
+        }),
+        customFields: toCustomFieldPayload(customFields, formData.customFields),
+      };
+
+      const response = await apiClient.updateOrganization(
+        organization.id,
+        organizationData
+      );
+      if (response.error) {
+        setFormErrors({ submit: response.error });
+        return;
+      }
+      setIsEditing(false);
+      fetchOrganization();
+      // A new parent changes which records count as subsidiaries'
+      fetchRelated();
+    } catch (error) {
+      console.error("Error updating organization:", error);
+    }
+  };
+
+  const handleCancel = () => {
+    setFormErrors({});
+    setCustomFieldErrors({});
+    setIsEditing(false);
+  };
+
+  const handleInputChange = (
+    field: keyof OrganizationFormData,
+    value: string
+  ) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    if (formErrors[field]) {
+      setFormErrors((prev) => ({ ...prev, [field]: "" }));
+    }
+  };
+
+  // Open another page's create form with this organization filled in
+  const quickCreate = (path: string) => {
+    navigate(path, {
+      state: { openForm: true, companyId: organization?.id },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="px-6">
+        <div className="text-center py-12">
+          <div className="text-lg">Loading organization details...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!organization) {
+    return (
+      <div className="px-6">
+        <div className="text-center py-12">
+          <div className="text-lg">Organization not found</div>
+          <Button onClick={() => navigate("/organizations")} className="mt-4">
+            Back to Organizations
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const canEdit =
+    can("can_edit_records") &&
+    (!organization.isSharedWithMe || organization.permission === "write");
+  const { rollup } = organization;
+  const contacts = related.contacts;
+  const deals = related.deals;
+  const openActivities = related.openActivities;
+  const completedActivities = related.completedActivities;
+  const notes = related.notes;
+  const shownDeals =
+    deals?.stages.reduce((count, stage) => count + stage.deals.length, 0) ?? 0;
+
+  return (
+    <div className="px-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/organizations")}
+            className="flex items-center"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Organizations
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">{organization.name}</h1>
+            <p className="text-muted-foreground">
+              {organization.parent ? (
+                <>
+                  Subsidiary of{" "}
+                  <Link
+                    to={`/organizations/${organization.parent.id}`}
+                    className="text-primary hover:underline"
+                  >
+                    {organization.parent.name}
+                  </Link>
+                </>
+              ) : (
+                "Organization Details"
+              )}
+            </p>
+          </div>
+        </div>
+        <div className="flex space-x-2">
+          {isEditing ? (
+            <>
+              <Button variant="outline" onClick={handleCancel}>
+                <X className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+              <Button onClick={handleSave}>
+                <Save className="mr-2 h-4 w-4" />
+                Save Changes
+              </Button>
+            </>
+          ) : (
+            canEdit && (
+              <Button onClick={() => setIsEditing(true)}>
+                <Edit className="mr-2 h-4 w-4" />
+                Edit Organization
+              </Button>
+            )
+          )}
+        </div>
+      </div>
+
+      {can("can_edit_records") && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          <Button variant="outline" onClick={() => quickCreate("/contacts")}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Contact
+          </Button>
+          <Button variant="outline" onClick={() => quickCreate("/deals")}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Deal
+          </Button>
+          <Button variant="outline" onClick={() => quickCreate("/activities")}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Activity
+          </Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Organization Information */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Building2 className="mr-2 h-5 w-5" />
+                Organization Information
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isEditing ? (
+                <>
+                  <div>
+                    <label className="text-sm font-medium">
+                      Organization Name *
+                    </label>
+                    <Input
+                      value={formData.name}
+                      onChange={(e) =>
+                        handleInputChange("name", e.target.value)
+                      }
+                      className={formErrors.name ? "border-destructive" : ""}
+                    />
+                    {formErrors.name && (
+                      <p className="text-sm text-destructive mt-1">
+                        {formErrors.name}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-sm font-medium">Industry</label>
+                      <Input
+                        value={formData.industry}
+                        onChange={(e) =>
+                          handleInputChange("industry", e.target.value)
+                        }
+                        placeholder="e.g., Technology, Healthcare"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium">Website</label>
+                      <Input
+                        value={formData.website}
+                        onChange={(e) =>
+                          handleInputChange("website", e.target.value)
+                        }
+                        placeholder="https://example.com"
+                        className={
+                          formErrors.website ? "border-destructive" : ""
+                        }
+                      />
+                      {formErrors.website && (
+                        <p className="text-sm text-destructive mt-1">
+                          {formErrors.website}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-sm font-medium">Email</label>
+                      <Input
+                        type="email"
+                        value={formData.email}
+                        onChange={(e) =>
+                          handleInputChange("email", e.target.value)
+                        }
+                        className={formErrors.email ? "border-destructive" : ""}
+                      />
+                      {formErrors.email && (
+                        <p className="text-sm text-destructive mt-1">
+                          {formErrors.email}
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium">Phone</label>
+                      <Input
+                        value={formData.phone}
+                        onChange={(e) =>
+                          handleInputChange("phone", e.target.value)
+                        }
+                      />
+                    </div>
+                  </div>
+
+                  <AddressListEditor
+                    addresses={formData.addresses}
+                    onChange={(addresses) =>
+                      setFormData((prev) => ({ ...prev, addresses }))
+                    }
+                  />
+
+                  <CustomFieldInputs
+                    fields={customFields}
+                    values={formData.customFields}
+                    onChange={(key, value) => {
+                      setFormData((prev) => ({
+                        ...prev,
+                        customFields: { ...prev.customFields, [key]: value },
+                      }));
+                      setCustomFieldErrors((prev) => ({ ...prev, [key]: "" }));
+                    }}
+                    errors={customFieldErrors}
+                  />
+
+                  <ParentOrganizationSelect
+                    value={formData.parentId}
+                    onChange={(value) => handleInputChange("parentId", value)}
+                    organizationId={organization.id}
+                    currentParentName={organization.parent?.name}
+                  />
+
+                  <TeamSelect
+                    value={formData.teamId}
+                    onChange={(value) => handleInputChange("teamId", value)}
+                    currentTeamName={organization.team_name}
+                  />
+
+                  {formErrors.submit && (
+                    <p className="text-sm text-destructive">
+                      {formErrors.submit}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <div className="space-y-4">
+                  {organization.industry && (
+                    <Badge variant="secondary">{organization.industry}</Badge>
+                  )}
+
+                  {organization.website && (
+                    <div className="flex items-center">
+                      <Globe className="mr-2 h-4 w-4 text-muted-foreground" />
+                      <a
+                        href={organization.website}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline"
+                      >
+                        {organization.website}
+                      </a>
+                    </div>
+                  )}
+
+                  {organization.email && (
+                    <div className="flex items-center">
+                      <Mail className="mr-2 h-4 w-4 text-muted-foreground" />
+                      <a
+                        href={`mailto:${organization.email}`}
+                        className="text-primary hover:underline"
+                      >
+                        {organization.email}
+                      </a>
+                    </div>
+                  )}
+
+                  {organization.phone && (
+                    <div className="flex items-center">
+                      <Phone className="mr-2 h-4 w-4 text-muted-foreground" />
+                      <a
+                        href={`tel:${organization.phone}`}
+                        className="text-primary hover:underline"
+                      >
+                        {organization.phone}
+                      </a>
+                    </div>
+                  )}
+
+                  {organization.addresses?.map((entry) => (
+                    <div
+                      key={formatAddress(entry)}
+                      className="flex items-center"
+                    >
+                      <MapPin className="mr-2 h-4 w-4 text-muted-foreground" />
+                      <span>{formatAddress(entry)}</span>
+                      <span className="ml-2 text-sm text-muted-foreground">
+                        {ADDRESS_LABELS[entry.label]}
+                      </span>
+                      {entry.isPrimary && (
+                        <Badge variant="secondary" className="ml-2">
+                          Primary
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+
+                  {customFields.map((field) => {
+                    const value = formatCustomFieldValue(
+                      organization.custom_fields?.[field.key]
+                    );
+                    return (
+                      value && (
+                        <div key={field.key}>
+                          <span className="text-sm font-medium text-muted-foreground">
+                            {field.label}:{" "}
+                          </span>
+                          <span>{value}</span>
+                        </div>
+                      )
+                    );
+                  })}
+
+                  {organization.team_name && (
+                    <div>
+                      <span className="text-sm font-medium text-muted-foreground">
+                        Team:{" "}
+                      </span>
+                      <span>{organization.team_name}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {organization.subsidiaries.length > 0 && (
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={includeSubsidiaries}
+                onChange={(e) => setIncludeSubsidiaries(e.target.checked)}
+              />
+              <span>Include records of subsidiaries</span>
+            </label>
+          )}
+
+          {/* Contacts */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Users className="mr-2 h-5 w-5" />
+                Contacts ({contacts?.pagination.total ?? 0})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {!contacts || contacts.items.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">
+                  No current contacts
+                </p>
+              ) : (
+                contacts.items.map((person) => (
+                  <Link
+                    key={person.id}
+                    to={`/contacts/${person.contactId}`}
+                    className="flex items-center justify-between border border-border rounded-md p-3 hover:bg-accent/50"
+                  >
+                    <div>
+                      <div className="font-medium">
+                        {person.firstName} {person.lastName}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {[person.title, person.department]
+                          .filter(Boolean)
+                          .join(" · ") || "No title"}
+                        {includeSubsidiaries &&
+                          person.companyId !== organization.id &&
+                          ` at ${person.companyName}`}
+                      </div>
+                    </div>
+                    {person.email && (
+                      <span className="text-sm text-muted-foreground">
+                        {person.email}
+                      </span>
+                    )}
+                  </Link>
+                ))
+              )}
+              <LoadMore
+                pagination={contacts?.pagination}
+                shown={contacts?.items.length ?? 0}
+                loading={loadingSection === "contacts"}
+                onLoadMore={() =>
+                  handleLoadMore("contacts", contacts?.pagination)
+                }
+              />
+            </CardContent>
+          </Card>
+
+          {/* Deals by stage */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <TrendingUp className="mr-2 h-5 w-5" />
+                Deals ({deals?.pagination.total ?? 0})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!deals || deals.stages.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">
+                  No deals yet
+                </p>
+              ) : (
+                deals.stages.map((stage) => (
+                  <div key={stage.stageId ?? "none"} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">
+                          {stage.stageName || "No stage"}
+                        </span>
+                        {stage.kind && stage.kind !== "open" && (
+                          <Badge
+                            variant={
+                              stage.kind === "won" ? "default" : "destructive"
+                            }
+                          >
+                            {stage.kind === "won" ? "Won" : "Lost"}
+                          </Badge>
+                        )}
+                      </div>
+                      <span className="text-sm text-muted-foreground">
+                        {stage.count} · {formatCurrency(stage.value)}
+                      </span>
+                    </div>
+                    {stage.deals.map((deal) => (
+                      <div
+                        key={deal.id}
+                        className="flex items-center justify-between border border-border rounded-md p-3"
+                      >
+                        <div>
+                          <div className="font-medium">{deal.title}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {[
+                              deal.contact_name,
+                              includeSubsidiaries &&
+                                deal.company_id !== organization.id &&
+                                deal.company_name,
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </div>
+                        </div>
+                        <span className="text-sm font-medium">
+                          {formatCurrency(Number(deal.value))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ))
+              )}
+              <LoadMore
+                pagination={deals?.pagination}
+                shown={shownDeals}
+                loading={loadingSection === "deals"}
+                onLoadMore={() => handleLoadMore("deals", deals?.pagination)}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Activities */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Clock className="mr-2 h-5 w-5" />
+                Open Activities ({openActivities?.pagination.total ?? 0})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {!openActivities || openActivities.items.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">
+                  No open activities
+                </p>
+              ) : (
+                openActivities.items.map((activity) => (
+                  <ActivityRow key={activity.id} activity={activity} />
+                ))
+              )}
+              <LoadMore
+                pagination={openActivities?.pagination}
+                shown={openActivities?.items.length ?? 0}
+                loading={loadingSection === "openActivities"}
+                onLoadMore={() =>
+                  handleLoadMore("openActivities", openActivities?.pagination)
+                }
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <CheckCircle className="mr-2 h-5 w-5" />
+                Completed Activities (
+                {completedActivities?.pagination.total ?? 0})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {!completedActivities ||
+              completedActivities.items.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">
+                  No completed activities
+                </p>
+              ) : (
+                completedActivities.items.map((activity) => (
+                  <ActivityRow key={activity.id} activity={activity} />
+                ))
+              )}
+              <LoadMore
+                pagination={completedActivities?.pagination}
+                shown={completedActivities?.items.length ?? 0}
+                loading={loadingSection === "completedActivities"}
+                onLoadMore={() =>
+                  handleLoadMore(
+                    "completedActivities",
+                    completedActivities?.pagination
+                  )
+                }
+              />
+            </CardContent>
+          </Card>
+
+          {/* Notes timeline */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <MessageCircle className="mr-2 h-5 w-5" />
+                Notes ({notes?.pagination.total ?? 0})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!notes || notes.items.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">
+                  No notes on this organization's contacts or activities
+                </p>
+              ) : (
+                notes.items.map((note) => (
+                  <div
+                    key={`${note.source.type}-${note.id}`}
+                    className="border-l-2 border-border pl-4 space-y-1"
+                  >
+                    <p className="whitespace-pre-wrap text-sm">
+                      {note.content}
+                    </p>
+                    <div className="text-xs text-muted-foreground">
+                      {note.authorName} · {formatDate(note.createdAt)} · on{" "}
+                      <Link
+                        to={
+                          note.source.type === "contact"
+                            ? `/contacts/${note.source.id}`
+                            : `/activities/${note.source.id}`
+                        }
+                        className="text-primary hover:underline"
+                      >
+                        {note.source.label}
+                      </Link>
+                    </div>
+                  </div>
+                ))
+              )}
+              <LoadMore
+                pagination={notes?.pagination}
+                shown={notes?.items.length ?? 0}
+                loading={loadingSection === "notes"}
+                onLoadMore={() => handleLoadMore("notes", notes?.pagination)}
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Right Sidebar */}
+        <div className="space-y-6">
+          {/* Roll-up across the subtree */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <span className="text-sm font-medium text-muted-foreground">
+                  Open Pipeline:{" "}
+                </span>
+                <span className="text-sm">
+                  {formatCurrency(rollup.openPipeline)} ({rollup.openDealCount}{" "}
+                  deals)
+                </span>
+              </div>
+              <div>
+                <span className="text-sm font-medium text-muted-foreground">
+                  Won Revenue:{" "}
+                </span>
+                <span className="text-sm">
+                  {formatCurrency(rollup.wonRevenue)}
+                </span>
+              </div>
+              <div>
+                <span className="text-sm font-medium text-muted-foreground">
+                  Contacts:{" "}
+                </span>
+                <span className="text-sm">{rollup.contactCount}</span>
+              </div>
+              <div>
+                <span className="text-sm font-medium text-muted-foreground">
+                  Last Activity:{" "}
+                </span>
+                <span className="text-sm">
+                  {rollup.lastActivityAt
+                    ? new Date(rollup.lastActivityAt).toLocaleDateString()
+                    : "-"}
+                </span>
+              </div>
+              {organization.subsidiaries.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Figures include every subsidiary below this organization.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Hierarchy */}
+          {(organization.parent || organization.subsidiaries.length > 0) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Network className="mr-2 h-5 w-5" />
+                  Hierarchy
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {organization.parent && (
+                  <div>
+                    <span className="text-sm font-medium text-muted-foreground block mb-1">
+                      Parent:
+                    </span>
+                    <Link
+                      to={`/organizations/${organization.parent.id}`}
+                      className="text-sm text-primary hover:underline"
+                    >
+                      {organization.parent.name}
+                    </Link>
+                  </div>
+                )}
+                {organization.subsidiaries.length > 0 && (
+                  <div>
+                    <span className="text-sm font-medium text-muted-foreground block mb-1">
+                      Subsidiaries:
+                    </span>
+                    <ul className="space-y-1">
+                      {organization.subsidiaries.map((subsidiary) => (
+                        <li key={subsidiary.id}>
+                          <Link
+                            to={`/organizations/${subsidiary.id}`}
+                            className="text-sm text-primary hover:underline"
+                          >
+                            {subsidiary.name}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Background */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Background</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isEditing ? (
+                <Textarea
+                  value={formData.notes}
+                  onChange={(e) => handleInputChange("notes", e.target.value)}
+                  rows={4}
+                  placeholder="Add background information about this organization..."
+                />
+              ) : organization.notes ? (
+                <p className="whitespace-pre-wrap">{organization.notes}</p>
+              ) : (
+                <p className="text-muted-foreground italic">
+                  No background information available
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Quick Info */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Calendar className="mr-2 h-5 w-5" />
+                Quick Info
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <span className="text-sm font-medium text-muted-foreground">
+                  Created:{" "}
+                </span>
+                <span className="text-sm">
+                  {formatDate(organization.created_at)}
+                </span>
+              </div>
+              <div>
+                <span className="text-sm font-medium text-muted-foreground">
+                  Last Updated:{" "}
+                </span>
+                <span className="text-sm">
+                  {formatDate(organization.updated_at)}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <RecordHistory
+            entityType="organization"
+            entityId={organization.id}
+            refreshKey={organization.updated_at}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
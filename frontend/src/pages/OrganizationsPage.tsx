@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
+import { Link, useNavigate, useLocation } from "react-router-dom";
 import { Button } from "../components/ui/Button";
 import { Input } from "../components/ui/Input";
 import { Textarea } from "../components/ui/Textarea";
@@ -18,8 +18,31 @@ import {
   TableCell,
 } from "../components/ui/Table";
 import { Badge } from "../components/ui/Badge";
+import ShareModal from "../components/ui/ShareModal";
+import ImportWizard from "../components/imports/ImportWizard";
+import TeamSelect from "../components/teams/TeamSelect";
+import ExportButton from "../components/exports/ExportButton";
+import CustomFieldInputs from "../components/customFields/CustomFieldInputs";
+import CustomFieldFilters from "../components/customFields/CustomFieldFilters";
+import AddressListEditor from "../components/contactMethods/AddressListEditor";
+import OrganizationTree from "../components/organizations/OrganizationTree";
+import ParentOrganizationSelect from "../components/organizations/ParentOrganizationSelect";
 import { apiClient } from "../lib/api";
-import type { Organization } from "../lib/api";
+import { usePermissions } from "../hooks/usePermissions";
+import { useCustomFields } from "../hooks/useCustomFields";
+import {
+  formatCustomFieldValue,
+  toCustomFieldFormValues,
+  toCustomFieldPayload,
+  validateCustomFieldValues,
+} from "../lib/customFields";
+import type { CustomFieldFormValues } from "../lib/customFields";
+import { formatAddress, toSavedEntries } from "../lib/contactMethods";
+import type {
+  CustomFieldListParams,
+  Organization,
+  PostalAddress,
+} from "../lib/api";
 import {
   Plus,
   Search,
@@ -31,6 +54,10 @@ import {
   Phone,
   MapPin,
   Users,
+  Upload,
+  Share2,
+  List,
+  Network,
 } from "lucide-react";
 
 interface OrganizationFormData {
@@ -39,19 +66,38 @@ interface OrganizationFormData {
   website: string;
   phone: string;
   email: string;
-  address: string;
+  addresses: PostalAddress[];
   notes: string;
+  teamId: string;
+  parentId: string;
+  customFields: CustomFieldFormValues;
 }
 
 export default function OrganizationsPage() {
+  const { can } = usePermissions();
+  const customFields = useCustomFields("organization");
   const navigate = useNavigate();
   const location = useLocation();
   const [organizations, setOrganizations] = useState<Organization[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [customFieldParams, setCustomFieldParams] =
+    useState<CustomFieldListParams>({});
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  // The paged list, or every organization under its parent with roll-ups
+  const [view, setView] = useState<"list" | "tree">("list");
+  const [shareModal, setShareModal] = useState<{
+    isOpen: boolean;
+    organizationId: number | null;
+    organizationName: string;
+  }>({
+    isOpen: false,
+    organizationId: null,
+    organizationName: "",
+  });
   const [editingOrganization, setEditingOrganization] =
     useState<Organization | null>(null);
 
@@ -63,16 +109,31 @@ export default function OrganizationsPage() {
       navigate(location.pathname, { replace: true, state: {} });
     }
   }, [location.state, navigate, location.pathname]);
+
+  // Filter the list to a global search result (from the command palette)
+  useEffect(() => {
+    if (location.state?.search) {
+      setSearchTerm(location.state.search);
+      setCurrentPage(1);
+      navigate(location.pathname, { replace: true, state: {} });
+    }
+  }, [location.state, navigate, location.pathname]);
   const [formData, setFormData] = useState<OrganizationFormData>({
     name: "",
     industry: "",
     website: "",
     phone: "",
     email: "",
-    address: "",
+    addresses: [],
     notes: "",
+    teamId: "",
+    parentId: "",
+    customFields: {},
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<
+    Record<string, string>
+  >({});
 
   useEffect(() => {
     const fetchData = async () => {
@@ -82,6 +143,7 @@ export default function OrganizationsPage() {
           page: currentPage,
           limit: 20,
           search: searchTerm || undefined,
+          ...customFieldParams,
         });
 
         if (response.data) {
@@ -96,7 +158,7 @@ export default function OrganizationsPage() {
     };
 
     fetchData();
-  }, [currentPage, searchTerm]);
+  }, [currentPage, searchTerm, customFieldParams]);
 
   const fetchOrganizations = async () => {
     try {
@@ -105,6 +167,7 @@ export default function OrganizationsPage() {
         page: currentPage,
         limit: 20,
         ...(searchTerm && { search: searchTerm }),
+        ...customFieldParams,
       });
 
       if (response.data) {
@@ -131,8 +194,16 @@ export default function OrganizationsPage() {
       errors.website = "Website must start with http:// or https://";
     }
 
+    const fieldErrors = validateCustomFieldValues(
+      customFields,
+      formData.customFields
+    );
+
     setFormErrors(errors);
-    return Object.keys(errors).length === 0;
+    setCustomFieldErrors(fieldErrors);
+    return (
+      Object.keys(errors).length === 0 && Object.keys(fieldErrors).length === 0
+    );
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -147,17 +218,34 @@ export default function OrganizationsPage() {
         website: formData.website || undefined,
         phone: formData.phone || undefined,
         email: formData.email || undefined,
-        address: formData.address || undefined,
+        addresses: toSavedEntries(
+          formData.addresses,
+          (entry) => !formatAddress(entry)
+        ),
         notes: formData.notes || undefined,
+        // Only send the team when it changed, so editors outside the team
+        // don't trip the membership check
+        ...(formData.teamId !==
+          (editingOrganization?.team_id?.toString() || "") && {
+          teamId: formData.teamId ? parseInt(formData.teamId) : null,
+        }),
+        ...(formData.parentId !==
+          (editingOrganization?.parent_id?.toString() || "") && {
+          parentId: formData.parentId ? parseInt(formData.parentId) : null,
+        }),
+        customFields: toCustomFieldPayload(customFields, formData.customFields),
       };
 
-      if (editingOrganization) {
-        await apiClient.updateOrganization(
-          editingOrganization.id,
-          organizationData
-        );
-      } else {
-        await apiClient.createOrganization(organizationData);
+      const response = editingOrganization
+        ? await apiClient.updateOrganization(
+            editingOrganization.id,
+            organizationData
+          )
+        : await apiClient.createOrganization(organizationData);
+      // Keep the form open so a rejected value can be fixed
+      if (response.error) {
+        setFormErrors({ submit: response.error });
+        return;
       }
 
       resetForm();
@@ -175,8 +263,14 @@ export default function OrganizationsPage() {
       website: organization.website || "",
       phone: organization.phone || "",
       email: organization.email || "",
-      address: organization.address || "",
+      addresses: organization.addresses || [],
       notes: organization.notes || "",
+      teamId: organization.team_id?.toString() || "",
+      parentId: organization.parent_id?.toString() || "",
+      customFields: toCustomFieldFormValues(
+        customFields,
+        organization.custom_fields
+      ),
     });
     setShowForm(true);
   };
@@ -205,10 +299,14 @@ export default function OrganizationsPage() {
       website: "",
       phone: "",
       email: "",
-      address: "",
+      addresses: [],
       notes: "",
+      teamId: "",
+      parentId: "",
+      customFields: {},
     });
     setFormErrors({});
+    setCustomFieldErrors({});
     setEditingOrganization(null);
     setShowForm(false);
   };
@@ -238,15 +336,48 @@ export default function OrganizationsPage() {
             Manage your organization relationships
           </p>
         </div>
-        <Button onClick={() => setShowForm(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Organization
-        </Button>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => setView(view === "list" ? "tree" : "list")}
+          >
+            {view === "list" ? (
+              <>
+                <Network className="mr-2 h-4 w-4" />
+                Tree View
+              </>
+            ) : (
+              <>
+                <List className="mr-2 h-4 w-4" />
+                List View
+              </>
+            )}
+          </Button>
+          {can("can_import") && (
+            <Button variant="outline" onClick={() => setShowImport(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          )}
+          {can("can_export") && (
+            <ExportButton
+              entity="organizations"
+              filters={{ search: searchTerm || undefined }}
+              cf={customFieldParams.cf}
+            />
+          )}
+          {can("can_edit_records") && (
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Organization
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Search */}
       <Card className="mb-6">
-        <CardContent className="p-4">
+        <CardContent className="p-4 space-y-4">
           <form onSubmit={handleSearch} className="flex gap-4">
             <div className="flex-1 relative">
               <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
@@ -271,6 +402,15 @@ export default function OrganizationsPage() {
               </Button>
             )}
           </form>
+
+          <CustomFieldFilters
+            fields={customFields}
+            value={customFieldParams}
+            onChange={(params) => {
+              setCustomFieldParams(params);
+              setCurrentPage(1);
+            }}
+          />
         </CardContent>
       </Card>
 
@@ -360,15 +500,12 @@ export default function OrganizationsPage() {
                   </div>
                 </div>
 
-                <div>
-                  <label className="text-sm font-medium">Address</label>
-                  <Input
-                    value={formData.address}
-                    onChange={(e) =>
-                      handleInputChange("address", e.target.value)
-                    }
-                  />
-                </div>
+                <AddressListEditor
+                  addresses={formData.addresses}
+                  onChange={(addresses) =>
+                    setFormData((prev) => ({ ...prev, addresses }))
+                  }
+                />
 
                 <div>
                   <label className="text-sm font-medium">Notes</label>
@@ -379,6 +516,38 @@ export default function OrganizationsPage() {
                   />
                 </div>
 
+                <CustomFieldInputs
+                  fields={customFields}
+                  values={formData.customFields}
+                  onChange={(key, value) => {
+                    setFormData((prev) => ({
+                      ...prev,
+                      customFields: { ...prev.customFields, [key]: value },
+                    }));
+                    setCustomFieldErrors((prev) => ({ ...prev, [key]: "" }));
+                  }}
+                  errors={customFieldErrors}
+                />
+
+                <ParentOrganizationSelect
+                  value={formData.parentId}
+                  onChange={(value) => handleInputChange("parentId", value)}
+                  organizationId={editingOrganization?.id}
+                  currentParentName={editingOrganization?.parent_name}
+                />
+
+                <TeamSelect
+                  value={formData.teamId}
+                  onChange={(value) => handleInputChange("teamId", value)}
+                  currentTeamName={editingOrganization?.team_name}
+                />
+
+                {formErrors.submit && (
+                  <p className="text-sm text-destructive">
+                    {formErrors.submit}
+                  </p>
+                )}
+
                 <div className="flex justify-end space-x-2 pt-4">
                   <Button type="button" variant="outline" onClick={resetForm}>
                     Cancel
@@ -398,7 +567,9 @@ export default function OrganizationsPage() {
       {/* Companies Table */}
       <Card>
         <CardContent className="p-0">
-          {loading ? (
+          {view === "tree" ? (
+            <OrganizationTree refreshKey={organizations} />
+          ) : loading ? (
             <div className="text-center py-12">
               <div className="text-lg">Loading organizations...</div>
             </div>
@@ -413,10 +584,12 @@ export default function OrganizationsPage() {
                   ? "No organizations match your search."
                   : "Get started by adding your first organization."}
               </p>
-              <Button onClick={() => setShowForm(true)}>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Company
-              </Button>
+              {can("can_edit_records") && (
+                <Button onClick={() => setShowForm(true)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Company
+                </Button>
+              )}
             </div>
           ) : (
             <Table>
@@ -426,6 +599,9 @@ export default function OrganizationsPage() {
                   <TableHead>Industry</TableHead>
                   <TableHead>Contacts</TableHead>
                   <TableHead>Contact Info</TableHead>
+                  {customFields.map((field) => (
+                    <TableHead key={field.key}>{field.label}</TableHead>
+                  ))}
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -436,8 +612,23 @@ export default function OrganizationsPage() {
                       <div>
                         <div className="font-medium flex items-center">
                           <Building2 className="mr-2 h-4 w-4 text-muted-foreground" />
-                          {organization.name}
+                          <Link
+                            to={`/organizations/${organization.id}`}
+                            className="hover:underline"
+                          >
+                            {organization.name}
+                          </Link>
+                          {organization.isSharedWithMe && (
+                            <Badge variant="outline" className="ml-2">
+                              Shared
+                            </Badge>
+                          )}
                         </div>
+                        {organization.parent_name && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Subsidiary of {organization.parent_name}
+                          </div>
+                        )}
                         {organization.website && (
                           <div className="flex items-center mt-1">
                             <Globe className="mr-2 h-3 w-3 text-muted-foreground" />
@@ -514,22 +705,53 @@ export default function OrganizationsPage() {
                           )}
                       </div>
                     </TableCell>
+                    {customFields.map((field) => (
+                      <TableCell key={field.key}>
+                        {formatCustomFieldValue(
+                          organization.custom_fields?.[field.key]
+                        ) || <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                    ))}
                     <TableCell>
                       <div className="flex space-x-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleEdit(organization)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleDelete(organization.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {!organization.isSharedWithMe &&
+                          can("can_edit_records") && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                setShareModal({
+                                  isOpen: true,
+                                  organizationId: organization.id,
+                                  organizationName: organization.name,
+                                })
+                              }
+                              title="Share organization"
+                            >
+                              <Share2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        {(!organization.isSharedWithMe ||
+                          organization.permission === "write") &&
+                          can("can_edit_records") && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEdit(organization)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
+                        {!organization.isSharedWithMe &&
+                          can("can_delete_organizations") && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDelete(organization.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -541,7 +763,7 @@ export default function OrganizationsPage() {
       </Card>
 
       {/* Pagination */}
-      {totalPages > 1 && (
+      {view === "list" && totalPages > 1 && (
         <div className="flex items-center justify-between mt-6">
           <div className="text-sm text-muted-foreground">
             Page {currentPage} of {totalPages}
@@ -566,6 +788,29 @@ export default function OrganizationsPage() {
           </div>
         </div>
       )}
+
+      {/* Share Modal */}
+      <ShareModal
+        isOpen={shareModal.isOpen}
+        onClose={() =>
+          setShareModal({
+            isOpen: false,
+            organizationId: null,
+            organizationName: "",
+          })
+        }
+        resourceType="organization"
+        resourceId={shareModal.organizationId!}
+        resourceTitle={shareModal.organizationName}
+      />
+
+      {showImport && (
+        <ImportWizard
+          entity="organizations"
+          onClose={() => setShowImport(false)}
+          onImported={fetchOrganizations}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,452 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "../components/ui/Button";
+import { Input } from "../components/ui/Input";
+import { Select } from "../components/ui/Select";
+import { Badge } from "../components/ui/Badge";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "../components/ui/Card";
+import { useToast } from "../contexts/ToastContext";
+import { apiClient } from "../lib/api";
+import type { DealStage, DealStageKind } from "../lib/api";
+import {
+  ArrowLeft,
+  ArrowUp,
+  ArrowDown,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
+
+interface StageDraft {
+  name: string;
+  kind: DealStageKind;
+  defaultProbability: string;
+}
+
+const emptyDraft: StageDraft = {
+  name: "",
+  kind: "open",
+  defaultProbability: "0",
+};
+
+const toDraft = (stage: DealStage): StageDraft => ({
+  name: stage.name,
+  kind: stage.kind,
+  defaultProbability: stage.default_probability.toString(),
+});
+
+const kindLabels: Record<DealStageKind, string> = {
+  open: "Open",
+  won: "Won",
+  lost: "Lost",
+};
+
+export default function PipelineStagesPage() {
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const [stages, setStages] = useState<DealStage[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, StageDraft>>({});
+  const [newStage, setNewStage] = useState<StageDraft>(emptyDraft);
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingStage, setDeletingStage] = useState<DealStage | null>(null);
+  const [reassignTo, setReassignTo] = useState("");
+
+  const fetchStages = async () => {
+    try {
+      const response = await apiClient.getDealStages();
+      if (response.data) {
+        setStages(response.data);
+        setDrafts(
+          Object.fromEntries(
+            response.data.map((stage) => [stage.id, toDraft(stage)])
+          )
+        );
+      }
+    } catch (error) {
+      console.error("Error fetching deal stages:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStages();
+  }, []);
+
+  const showError = (title: string, message?: string) => {
+    showToast({ type: "error", title, message });
+  };
+
+  const isDirty = (stage: DealStage) => {
+    const draft = drafts[stage.id];
+    if (!draft) return false;
+    const original = toDraft(stage);
+    return (
+      draft.name !== original.name ||
+      draft.kind !== original.kind ||
+      draft.defaultProbability !== original.defaultProbability
+    );
+  };
+
+  const updateDraft = (
+    stageId: number,
+    field: keyof StageDraft,
+    value: string
+  ) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [stageId]: { ...prev[stageId], [field]: value },
+    }));
+  };
+
+  const handleSave = async (stage: DealStage) => {
+    const draft = drafts[stage.id];
+    if (!draft.name.trim()) {
+      showError("Stage name is required");
+      return;
+    }
+
+    const response = await apiClient.updateDealStage(stage.id, {
+      name: draft.name.trim(),
+      kind: draft.kind,
+      defaultProbability: parseInt(draft.defaultProbability) || 0,
+    });
+
+    if (response.error) {
+      showError("Could not update stage", response.error);
+      return;
+    }
+
+    showToast({ type: "success", title: "Stage updated" });
+    fetchStages();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newStage.name.trim()) {
+      showError("Stage name is required");
+      return;
+    }
+
+    const response = await apiClient.createDealStage({
+      name: newStage.name.trim(),
+      kind: newStage.kind,
+      defaultProbability: parseInt(newStage.defaultProbability) || 0,
+    });
+
+    if (response.error) {
+      showError("Could not create stage", response.error);
+      return;
+    }
+
+    setNewStage(emptyDraft);
+    fetchStages();
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...stages];
+    const [stage] = reordered.splice(index, 1);
+    reordered.splice(index + direction, 0, stage);
+    setStages(reordered);
+
+    const response = await apiClient.reorderDealStages(
+      reordered.map((item) => item.id)
+    );
+    if (response.error) {
+      showError("Could not reorder stages", response.error);
+      fetchStages();
+    }
+  };
+
+  const openDelete = (stage: DealStage) => {
+    setDeletingStage(stage);
+    setReassignTo("");
+  };
+
+  const handleDelete = async () => {
+    if (!deletingStage) return;
+
+    const response = await apiClient.deleteDealStage(
+      deletingStage.id,
+      reassignTo ? parseInt(reassignTo) : undefined
+    );
+
+    if (response.error) {
+      showError("Could not delete stage", response.error);
+      return;
+    }
+
+    const reassigned = response.data?.reassignedDeals || 0;
+    showToast({
+      type: "success",
+      title: "Stage deleted",
+      message: reassigned ? `${reassigned} deal(s) were moved.` : undefined,
+    });
+
+    setDeletingStage(null);
+    fetchStages();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="px-6">
+        <div className="text-center py-12">
+          <div className="text-lg">Loading stages...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Pipeline Stages</h1>
+          <p className="text-muted-foreground">
+            Rename, reorder and configure the stages of your sales pipeline
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate("/deals")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Deals
+        </Button>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="border-b bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-medium">Order</th>
+                  <th className="text-left p-4 font-medium">Name</th>
+                  <th className="text-left p-4 font-medium">Kind</th>
+                  <th className="text-left p-4 font-medium">
+                    Default Probability
+                  </th>
+                  <th className="text-left p-4 font-medium">Deals</th>
+                  <th className="text-right p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stages.map((stage, index) => {
+                  const draft = drafts[stage.id] || toDraft(stage);
+
+                  return (
+                    <tr key={stage.id} className="border-b hover:bg-muted/25">
+                      <td className="p-4">
+                        <div className="flex space-x-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={index === 0}
+                            onClick={() => handleMove(index, -1)}
+                            title="Move up"
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={index === stages.length - 1}
+                            onClick={() => handleMove(index, 1)}
+                            title="Move down"
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                      <td className="p-4">
+                        <Input
+                          value={draft.name}
+                          onChange={(e) =>
+                            updateDraft(stage.id, "name", e.target.value)
+                          }
+                        />
+                      </td>
+                      <td className="p-4">
+                        <Select
+                          value={draft.kind}
+                          onChange={(e) =>
+                            updateDraft(stage.id, "kind", e.target.value)
+                          }
+                        >
+                          {Object.entries(kindLabels).map(([kind, label]) => (
+                            <option key={kind} value={kind}>
+                              {label}
+                            </option>
+                          ))}
+                        </Select>
+                      </td>
+                      <td className="p-4">
+                        <div className="flex items-center space-x-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            className="w-24"
+                            value={draft.defaultProbability}
+                            onChange={(e) =>
+                              updateDraft(
+                                stage.id,
+                                "defaultProbability",
+                                e.target.value
+                              )
+                            }
+                          />
+                          <span className="text-muted-foreground">%</span>
+                        </div>
+                      </td>
+                      <td className="p-4">
+                        <Badge variant="secondary">
+                          {stage.deal_count ?? 0}
+                        </Badge>
+                      </td>
+                      <td className="p-4 text-right">
+                        <div className="flex justify-end space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!isDirty(stage)}
+                            onClick={() => handleSave(stage)}
+                          >
+                            <Save className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            disabled={stages.length === 1}
+                            onClick={() => openDelete(stage)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Stage</CardTitle>
+          <CardDescription>
+            New stages are added at the end of the pipeline
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="flex gap-4 items-end">
+            <div className="flex-1">
+              <label className="text-sm font-medium">Name *</label>
+              <Input
+                value={newStage.name}
+                onChange={(e) =>
+                  setNewStage((prev) => ({ ...prev, name: e.target.value }))
+                }
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Kind</label>
+              <Select
+                value={newStage.kind}
+                onChange={(e) =>
+                  setNewStage((prev) => ({
+                    ...prev,
+                    kind: e.target.value as DealStageKind,
+                  }))
+                }
+              >
+                {Object.entries(kindLabels).map(([kind, label]) => (
+                  <option key={kind} value={kind}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Probability (%)</label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                className="w-24"
+                value={newStage.defaultProbability}
+                onChange={(e) =>
+                  setNewStage((prev) => ({
+                    ...prev,
+                    defaultProbability: e.target.value,
+                  }))
+                }
+              />
+            </div>
+            <Button type="submit">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Stage
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Delete Stage Modal */}
+      {deletingStage && (
+        <div className="fixed inset-0 bg-white/20 backdrop-blur-sm flex items-center justify-center z-50">
+          <Card className="w-full max-w-md">
+            <CardHeader>
+              <CardTitle>Delete "{deletingStage.name}"</CardTitle>
+              <CardDescription>
+                {deletingStage.deal_count
+                  ? `This stage has ${deletingStage.deal_count} deal(s). Choose where to move them before deleting it.`
+                  : "This stage has no deals and can be deleted safely."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!!deletingStage.deal_count && (
+                <div>
+                  <label className="text-sm font-medium">Move deals to *</label>
+                  <Select
+                    value={reassignTo}
+                    onChange={(e) => setReassignTo(e.target.value)}
+                  >
+                    <option value="">Select Stage</option>
+                    {stages
+                      .filter((stage) => stage.id !== deletingStage.id)
+                      .map((stage) => (
+                        <option key={stage.id} value={stage.id.toString()}>
+                          {stage.name}
+                        </option>
+                      ))}
+                  </Select>
+                </div>
+              )}
+              <div className="flex justify-end space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setDeletingStage(null)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="destructive"
+                  disabled={!!deletingStage.deal_count && !reassignTo}
+                  onClick={handleDelete}
+                >
+                  Delete Stage
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { useState } from "react";
 import { useAuth } from "../hooks/useAuth";
 import { ChangePasswordForm } from "../components/ChangePasswordForm";
+import { SessionsList } from "../components/SessionsList";
+import { TwoFactorSettings } from "../components/TwoFactorSettings";
+import { ApiKeySettings } from "../components/ApiKeySettings";
 import {
   Card,
   CardContent,
@@ -13,7 +16,9 @@ import { User, Mail, Calendar, Shield } from "lucide-react";
 
 export default function ProfilePage() {
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState("profile");
+  const [activeTab, setActiveTab] = useState(
+    user?.twoFactorSetupRequired ? "security" : "profile"
+  );
 
   if (!user) {
     return null;
@@ -62,6 +67,16 @@ export default function ProfilePage() {
           >
             Security
           </button>
+          <button
+            onClick={() => setActiveTab("api-keys")}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === "api-keys"
+                ? "border-primary text-primary"
+                : "border-transparent text-muted-foreground hover:text-foreground hover:border-gray-300"
+            }`}
+          >
+            API Keys
+          </button>
         </nav>
       </div>
 
@@ -113,7 +128,7 @@ export default function ProfilePage() {
                   <span>Role</span>
                 </label>
                 <Input
-                  value={user.role === "admin" ? "Administrator" : "User"}
+                  value={user.roleLabel || user.role || "User"}
                   readOnly
                   className="bg-muted"
                 />
@@ -182,8 +197,16 @@ export default function ProfilePage() {
       )}
 
       {activeTab === "security" && (
-        <div className="max-w-2xl">
+        <div className="max-w-2xl space-y-6">
+          <TwoFactorSettings />
           <ChangePasswordForm />
+          <SessionsList />
+        </div>
+      )}
+
+      {activeTab === "api-keys" && (
+        <div className="max-w-2xl">
+          <ApiKeySettings />
         </div>
       )}
     </div>
@@ -64,15 +64,22 @@ export default function RegisterPage() {
       return;
     }
 
-    const success = await register({
+    const result = await register({
       email: formData.email,
       password: formData.password,
       firstName: formData.firstName,
       lastName: formData.lastName,
     });
 
-    if (success) {
+    if (result === "success") {
       navigate("/dashboard");
+    } else if (result === "verify") {
+      navigate("/login", {
+        state: {
+          notice: `We sent a verification link to ${formData.email}. Follow it to activate your account, then sign in.`,
+          email: formData.email,
+        },
+      });
     }
   };
 
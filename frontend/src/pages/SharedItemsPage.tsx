@@ -13,7 +13,7 @@ import { Share2, Filter, Users, Eye } from "lucide-react";
 
 export default function SharedItemsPage() {
   const [resourceTypeFilter, setResourceTypeFilter] = useState<
-    "contact" | "activity" | "deal" | ""
+    "contact" | "organization" | "activity" | "deal" | ""
   >("");
   const [viewFilter, setViewFilter] = useState<
     "all" | "shared-by-me" | "shared-with-me"
@@ -149,12 +149,14 @@ export default function SharedItemsPage() {
                 value={resourceTypeFilter}
                 onChange={(e) =>
                   setResourceTypeFilter(
-                    e.target.value as "contact" | "activity" | "deal" | ""
+                    e.target.value as
+                      "contact" | "organization" | "activity" | "deal" | ""
                   )
                 }
               >
                 <option value="">All Types</option>
                 <option value="contact">Contacts</option>
+                <option value="organization">Organizations</option>
                 <option value="activity">Activities</option>
                 <option value="deal">Deals</option>
               </Select>
@@ -0,0 +1,139 @@
+import { useState, useEffect, useRef } from "react";
+import { Link, useLocation, useSearchParams } from "react-router-dom";
+import { Button } from "../components/ui/Button";
+import { Input } from "../components/ui/Input";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter,
+} from "../components/ui/Card";
+import { apiClient } from "../lib/api";
+
+type VerificationStatus = "verifying" | "verified" | "failed" | "resend";
+
+const TITLES: Record<VerificationStatus, string> = {
+  verifying: "Verifying your email...",
+  verified: "Email verified",
+  failed: "Verification failed",
+  resend: "Verify your email",
+};
+
+export default function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const location = useLocation();
+  const [status, setStatus] = useState<VerificationStatus>(
+    token ? "verifying" : "resend"
+  );
+  const [message, setMessage] = useState<string | null>(null);
+  const [email, setEmail] = useState<string>(
+    (location.state as { email?: string } | null)?.email || ""
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Tokens work once, so never send the same one twice
+  const requestedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || requestedToken.current === token) return;
+    requestedToken.current = token;
+
+    apiClient.verifyEmail(token).then((response) => {
+      if (response.data) {
+        setStatus("verified");
+        setMessage(response.data.message);
+      } else {
+        setStatus("failed");
+        setMessage(response.error || "Could not verify your email");
+      }
+    });
+  }, [token]);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/\S+@\S+\.\S+/.test(email)) return;
+
+    setIsSubmitting(true);
+    const response = await apiClient.resendVerification(email);
+    setIsSubmitting(false);
+    if (response.data) {
+      setStatus("resend");
+      setMessage(response.data.message);
+    } else {
+      setStatus("failed");
+      setMessage(response.error || "Could not send the verification email");
+    }
+  };
+
+  const canResend = status === "failed" || status === "resend";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            {TITLES[status]}
+          </CardTitle>
+          {canResend && (
+            <CardDescription className="text-center">
+              Enter your email and we'll send you a new verification link
+            </CardDescription>
+          )}
+        </CardHeader>
+        <form onSubmit={handleResend}>
+          <CardContent className="space-y-4">
+            {message && (
+              <div
+                className={`p-3 text-sm rounded-md border ${
+                  status === "failed"
+                    ? "text-destructive bg-destructive/10 border-destructive/20"
+                    : "text-primary bg-primary/10 border-primary/20"
+                }`}
+              >
+                {message}
+              </div>
+            )}
+
+            {canResend && (
+              <div className="space-y-2">
+                <label htmlFor="email" className="text-sm font-medium">
+                  Email
+                </label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="john@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+            )}
+          </CardContent>
+
+          <CardFooter className="flex flex-col space-y-4">
+            {canResend && (
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isSubmitting || !email}
+              >
+                {isSubmitting ? "Sending..." : "Send verification link"}
+              </Button>
+            )}
+
+            <p className="text-sm text-center text-muted-foreground">
+              <Link
+                to="/login"
+                className="font-medium text-primary hover:underline"
+              >
+                Back to sign in
+              </Link>
+            </p>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}